@@ -11,10 +11,20 @@ import ReportsScreen from './src/screens/ReportsScreen'
 import SettingsScreen from './src/screens/SettingsScreen'
 import ServicesManagementScreen from './src/screens/ServicesManagementScreen'
 import PaymentMethodsScreen from './src/screens/PaymentMethodsScreen'
+import PricingRulesScreen from './src/screens/PricingRulesScreen'
+import VouchersScreen from './src/screens/VouchersScreen'
+import CashDrawerScreen from './src/screens/CashDrawerScreen'
+import RefundsScreen from './src/screens/RefundsScreen'
+import UnclaimedOrdersScreen from './src/screens/UnclaimedOrdersScreen'
+import SalesReceiptsScreen from './src/screens/SalesReceiptsScreen'
+import PrintQueueScreen from './src/screens/PrintQueueScreen'
+import SmsTemplatesScreen from './src/screens/SmsTemplatesScreen'
 import InventoryScreen from './src/screens/InventoryScreen'
+import CustomersScreen from './src/screens/CustomersScreen'
 import BottomNavigation from './src/components/BottomNavigation'
 import { StoreProvider, useStore } from './src/context/StoreContext'
 import { NotificationProvider, useNotifications } from './src/context/NotificationContext'
+import { OfflineQueueProvider } from './src/context/OfflineQueueContext'
 import { supabase } from './lib/supabase'
 import { isFeatureEnabled } from './src/utils/featureFlags'
 import { getSessionStatus, refreshSession, signOut, shouldRefreshSession } from './src/utils/sessionManager'
@@ -335,6 +345,30 @@ export default function App() {
     if (currentScreen === 'PaymentMethods') {
       return <PaymentMethodsScreen navigation={navigation} />
     }
+    if (currentScreen === 'PricingRules') {
+      return <PricingRulesScreen navigation={navigation} />
+    }
+    if (currentScreen === 'Vouchers') {
+      return <VouchersScreen navigation={navigation} />
+    }
+    if (currentScreen === 'CashDrawer') {
+      return <CashDrawerScreen navigation={navigation} />
+    }
+    if (currentScreen === 'Refunds') {
+      return <RefundsScreen navigation={navigation} />
+    }
+    if (currentScreen === 'UnclaimedOrders') {
+      return <UnclaimedOrdersScreen navigation={navigation} />
+    }
+    if (currentScreen === 'SalesReceipts') {
+      return <SalesReceiptsScreen navigation={navigation} />
+    }
+    if (currentScreen === 'PrintQueue') {
+      return <PrintQueueScreen navigation={navigation} />
+    }
+    if (currentScreen === 'SmsTemplates') {
+      return <SmsTemplatesScreen navigation={navigation} />
+    }
 
     // Otherwise render the tab screen
     switch (activeTab) {
@@ -344,6 +378,8 @@ export default function App() {
         return <POSScreen />
       case 'orders':
         return <OrdersScreen />
+      case 'customers':
+        return <CustomersScreen />
       case 'inventory':
         return <InventoryScreen />
       case 'reports':
@@ -360,19 +396,21 @@ export default function App() {
       {isAuthenticated ? (
         <StoreProvider>
           <NotificationProvider>
-            {needsStoreSelection ? (
-              <>
-                <StoreSelectionScreen onStoreSelectionComplete={handleStoreSelectionComplete} />
-                <StatusBar style="dark" />
-              </>
-            ) : (
-              <MainAppContent
-                currentScreen={currentScreen}
-                activeTab={activeTab}
-                setActiveTab={setActiveTab}
-                renderCurrentScreen={renderCurrentScreen}
-              />
-            )}
+            <OfflineQueueProvider>
+              {needsStoreSelection ? (
+                <>
+                  <StoreSelectionScreen onStoreSelectionComplete={handleStoreSelectionComplete} />
+                  <StatusBar style="dark" />
+                </>
+              ) : (
+                <MainAppContent
+                  currentScreen={currentScreen}
+                  activeTab={activeTab}
+                  setActiveTab={setActiveTab}
+                  renderCurrentScreen={renderCurrentScreen}
+                />
+              )}
+            </OfflineQueueProvider>
           </NotificationProvider>
         </StoreProvider>
       ) : (
@@ -54,6 +54,11 @@ const BottomNavigation: React.FC<BottomNavigationProps> = ({
       badge: ordersBadge,
       badgeColor: '#ef4444'
     },
+    {
+      id: 'customers',
+      label: 'Customers',
+      icon: 'people-outline'
+    },
   ]
 
   // Conditionally add inventory tab
@@ -0,0 +1,222 @@
+import React, { useState, useEffect } from 'react'
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
+import { supabase } from '../../lib/supabase'
+import { LoyaltyEntryType, LoyaltyLedgerEntry } from '../types/loyalty'
+
+interface LoyaltyHistoryModalProps {
+  visible: boolean
+  storeId: string
+  customerId: string | null
+  customerName: string
+  balance: number
+  onClose: () => void
+}
+
+const entryTypeLabels: Record<LoyaltyEntryType, string> = {
+  earn: 'Earned',
+  redeem: 'Redeemed',
+  reversal: 'Reversed',
+  merge: 'Merged',
+}
+
+/**
+ * Shows a customer's loyalty points ledger for the current store, newest first
+ */
+const LoyaltyHistoryModal: React.FC<LoyaltyHistoryModalProps> = ({
+  visible,
+  storeId,
+  customerId,
+  customerName,
+  balance,
+  onClose,
+}) => {
+  const [entries, setEntries] = useState<LoyaltyLedgerEntry[]>([])
+  const [loading, setLoading] = useState(false)
+  const [loadError, setLoadError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (visible && customerId) {
+      loadHistory(customerId)
+    } else {
+      setEntries([])
+      setLoadError(null)
+    }
+  }, [visible, customerId])
+
+  const loadHistory = async (id: string) => {
+    setLoading(true)
+    setLoadError(null)
+    try {
+      const { data, error } = await supabase
+        .from('loyalty_points_ledger')
+        .select('*')
+        .eq('store_id', storeId)
+        .eq('customer_id', id)
+        .order('created_at', { ascending: false })
+        .limit(50)
+
+      if (error) throw error
+      setEntries(data || [])
+    } catch (error: any) {
+      console.error('❌ Error loading loyalty points history:', error)
+      setLoadError(error.message || 'Failed to load points history')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <View style={styles.header}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.title}>Loyalty Points</Text>
+              <Text style={styles.subtitle}>{customerName}</Text>
+            </View>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color="#6b7280" />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.balanceCard}>
+            <Ionicons name="star" size={20} color="#f59e0b" />
+            <Text style={styles.balanceText}>{balance} pts available</Text>
+          </View>
+
+          {loading ? (
+            <ActivityIndicator size="large" color="#3b82f6" style={{ marginVertical: 24 }} />
+          ) : loadError ? (
+            <Text style={styles.emptyText}>{loadError}</Text>
+          ) : entries.length === 0 ? (
+            <Text style={styles.emptyText}>No points history yet</Text>
+          ) : (
+            <ScrollView style={styles.list}>
+              {entries.map((entry) => (
+                <View key={entry.id} style={styles.entryRow}>
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.entryType}>{entryTypeLabels[entry.entry_type]}</Text>
+                    {entry.description && (
+                      <Text style={styles.entryDescription}>{entry.description}</Text>
+                    )}
+                    <Text style={styles.entryDate}>{new Date(entry.created_at).toLocaleString()}</Text>
+                  </View>
+                  <View style={{ alignItems: 'flex-end' }}>
+                    <Text style={[styles.entryPoints, entry.points < 0 && styles.entryPointsNegative]}>
+                      {entry.points > 0 ? '+' : ''}{entry.points}
+                    </Text>
+                    <Text style={styles.entryBalance}>Bal: {entry.balance_after}</Text>
+                  </View>
+                </View>
+              ))}
+            </ScrollView>
+          )}
+        </View>
+      </View>
+    </Modal>
+  )
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 20,
+    width: '90%',
+    maxHeight: '80%',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  balanceCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#fef3c7',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+  },
+  balanceText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#92400e',
+  },
+  list: {
+    flexGrow: 0,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6b7280',
+    textAlign: 'center',
+    marginVertical: 24,
+  },
+  entryRow: {
+    flexDirection: 'row',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+  entryType: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  entryDescription: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  entryDate: {
+    fontSize: 12,
+    color: '#9ca3af',
+    marginTop: 2,
+  },
+  entryPoints: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#10b981',
+  },
+  entryPointsNegative: {
+    color: '#ef4444',
+  },
+  entryBalance: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+})
+
+export default LoyaltyHistoryModal
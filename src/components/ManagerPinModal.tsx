@@ -0,0 +1,216 @@
+import React, { useState, useEffect } from 'react'
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  Alert,
+  ActivityIndicator,
+} from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
+import { supabase } from '../../lib/supabase'
+import { ManagerApproval } from '../types/voucher'
+import { isNetworkError } from '../utils/network'
+
+interface ManagerPinModalProps {
+  visible: boolean
+  storeId: string
+  title?: string
+  message?: string
+  amount?: number | null // Discount total or refund amount the approval is for
+  onApproved: (approval: ManagerApproval) => void
+  onCancel: () => void
+}
+
+/**
+ * Asks a store manager for their PIN and checks it with verify_manager_pin.
+ * Calls onApproved with the manager who approved and the single-use approval issued for them;
+ * the PIN itself is never stored.
+ */
+const ManagerPinModal: React.FC<ManagerPinModalProps> = ({
+  visible,
+  storeId,
+  title = 'Manager Approval',
+  message = 'A manager must enter their PIN to approve this.',
+  amount = null,
+  onApproved,
+  onCancel,
+}) => {
+  const [pin, setPin] = useState('')
+  const [verifying, setVerifying] = useState(false)
+
+  useEffect(() => {
+    if (!visible) setPin('')
+  }, [visible])
+
+  const handleVerify = async () => {
+    if (!/^\d{4,8}$/.test(pin)) {
+      Alert.alert('Invalid PIN', 'Please enter the 4 to 8 digit manager PIN')
+      return
+    }
+
+    setVerifying(true)
+    try {
+      const { data, error } = await supabase.rpc('verify_manager_pin', {
+        p_store_id: storeId,
+        p_pin: pin,
+        p_amount: amount,
+      })
+
+      if (error) throw error
+
+      const manager = Array.isArray(data) ? data[0] : data
+      if (!manager) {
+        setPin('')
+        Alert.alert('Not Approved', 'Incorrect PIN or the user is not a manager of this store')
+        return
+      }
+
+      console.log('✅ Approved by manager:', manager.full_name)
+      onApproved({
+        user_id: manager.user_id,
+        full_name: manager.full_name,
+        approval_id: manager.approval_id,
+        max_amount: manager.max_amount !== null ? Number(manager.max_amount) : null,
+        expires_at: manager.expires_at,
+      })
+    } catch (error: any) {
+      console.error('❌ Error verifying manager PIN:', error)
+      Alert.alert(
+        'Error',
+        isNetworkError(error)
+          ? 'Manager approval needs an internet connection'
+          : error.message || 'Failed to verify PIN'
+      )
+    } finally {
+      setVerifying(false)
+    }
+  }
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={onCancel}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <View style={styles.iconContainer}>
+            <Ionicons name="shield-checkmark" size={32} color="#f59e0b" />
+          </View>
+          <Text style={styles.title}>{title}</Text>
+          <Text style={styles.message}>{message}</Text>
+
+          <TextInput
+            style={styles.pinInput}
+            value={pin}
+            onChangeText={(text) => setPin(text.replace(/[^0-9]/g, ''))}
+            placeholder="••••"
+            keyboardType="number-pad"
+            secureTextEntry
+            maxLength={8}
+            autoFocus
+            onSubmitEditing={handleVerify}
+          />
+
+          <View style={styles.actions}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onCancel} disabled={verifying}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.approveButton} onPress={handleVerify} disabled={verifying}>
+              {verifying ? (
+                <ActivityIndicator size="small" color="#ffffff" />
+              ) : (
+                <Text style={styles.approveButtonText}>Approve</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  )
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 24,
+    width: '85%',
+    alignItems: 'center',
+  },
+  iconContainer: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: '#fef3c7',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginBottom: 8,
+  },
+  message: {
+    fontSize: 14,
+    color: '#6b7280',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  pinInput: {
+    width: '100%',
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    paddingVertical: 12,
+    fontSize: 24,
+    letterSpacing: 8,
+    textAlign: 'center',
+    color: '#111827',
+    marginBottom: 20,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    width: '100%',
+  },
+  cancelButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    color: '#6b7280',
+    fontWeight: '500',
+  },
+  approveButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: '#f59e0b',
+    alignItems: 'center',
+  },
+  approveButtonText: {
+    fontSize: 16,
+    color: '#ffffff',
+    fontWeight: '600',
+  },
+})
+
+export default ManagerPinModal
@@ -0,0 +1,548 @@
+import React, { useState, useEffect } from 'react'
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
+import { supabase } from '../../lib/supabase'
+import RefundService from '../services/RefundService'
+import ManagerPinModal from './ManagerPinModal'
+import { PaymentMethod } from '../types/paymentMethod'
+import { Refund, RefundablePayment } from '../types/refund'
+import { ManagerApproval } from '../types/voucher'
+import { LOYALTY_PAYMENT_METHOD } from '../utils/loyalty'
+
+/**
+ * Order being refunded
+ */
+export interface RefundTarget {
+  orderId: string
+  cancelledOrderId?: string | null
+  orderNumber: string
+  customerName: string
+  amountOwed?: number | null // What is still owed, for cancelled orders and overpayments
+}
+
+interface RefundModalProps {
+  visible: boolean
+  storeId: string
+  storeName: string
+  target: RefundTarget | null
+  onClose: () => void
+  onRefunded: (refund: Refund) => void
+}
+
+const REFUND_REASONS = ['Order cancelled', 'Overpayment', 'Service complaint', 'Damaged item']
+
+/**
+ * Records a refund against one payment of an order. Managers approve their own
+ * refunds; other staff need a manager's PIN. Offers to print the refund slip.
+ */
+const RefundModal: React.FC<RefundModalProps> = ({
+  visible,
+  storeId,
+  storeName,
+  target,
+  onClose,
+  onRefunded,
+}) => {
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [payments, setPayments] = useState<RefundablePayment[]>([])
+  const [methods, setMethods] = useState<PaymentMethod[]>([])
+  const [currentUser, setCurrentUser] = useState<{ id: string; name: string; isManager: boolean } | null>(null)
+  const [selectedPaymentId, setSelectedPaymentId] = useState<string | null>(null)
+  const [amount, setAmount] = useState('')
+  const [refundMethodId, setRefundMethodId] = useState<string | null>(null)
+  const [referenceNumber, setReferenceNumber] = useState('')
+  const [reason, setReason] = useState('')
+  const [notes, setNotes] = useState('')
+  const [showApproval, setShowApproval] = useState(false)
+
+  // Orders cancelled before their payments were saved are refunded as a whole
+  const wholeOrder = !loading && payments.length === 0
+  const selectedPayment = payments.find(payment => payment.id === selectedPaymentId) || null
+  const refundMethod = methods.find(method => method.id === refundMethodId) || null
+  const maxAmount = Math.min(
+    wholeOrder ? Number(target?.amountOwed || 0) : selectedPayment?.refundable || 0,
+    target?.amountOwed != null ? Number(target.amountOwed) : Infinity
+  )
+
+  useEffect(() => {
+    if (visible && target) {
+      loadRefundDetails(target)
+    } else {
+      setPayments([])
+      setSelectedPaymentId(null)
+      setAmount('')
+      setReferenceNumber('')
+      setReason('')
+      setNotes('')
+    }
+  }, [visible, target])
+
+  const loadRefundDetails = async (refundTarget: RefundTarget) => {
+    setLoading(true)
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session?.user) throw new Error('User not authenticated')
+
+      const [{ data: userDetails }, { data: methodData, error: methodsError }, refundable] = await Promise.all([
+        supabase
+          .from('users')
+          .select('first_name, last_name, role')
+          .eq('id', session.user.id)
+          .single(),
+        supabase
+          .from('payment_methods')
+          .select('*')
+          .or(`store_id.is.null,store_id.eq.${storeId}`)
+          .eq('is_active', true)
+          .order('sort_order', { ascending: true }),
+        RefundService.getRefundablePayments(refundTarget.orderId, refundTarget.cancelledOrderId),
+      ])
+
+      if (methodsError) throw methodsError
+
+      setCurrentUser({
+        id: session.user.id,
+        name: `${userDetails?.first_name || ''} ${userDetails?.last_name || ''}`.trim() || 'Staff',
+        isManager: ['super_admin', 'store_owner', 'manager'].includes(userDetails?.role || ''),
+      })
+
+      // Points cannot be handed back as money
+      const refundMethods = (methodData || []).filter((method: PaymentMethod) => method.name !== LOYALTY_PAYMENT_METHOD)
+      setMethods(refundMethods)
+
+      const openPayments = refundable.filter(payment => payment.refundable > 0)
+      setPayments(openPayments)
+      selectPayment(openPayments[0] || null, refundMethods, refundTarget)
+      if (openPayments.length === 0) {
+        setAmount(refundTarget.amountOwed ? Number(refundTarget.amountOwed).toFixed(2) : '')
+        setRefundMethodId(refundMethods.find(method => method.name === 'cash')?.id || refundMethods[0]?.id || null)
+      }
+      setReason(refundTarget.cancelledOrderId ? 'Order cancelled' : refundTarget.amountOwed ? 'Overpayment' : '')
+    } catch (error: any) {
+      console.error('❌ Error loading refund details:', error)
+      Alert.alert('Error', error.message || 'Failed to load payments')
+      onClose()
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Refund the full remaining amount with the method the customer paid with
+  const selectPayment = (payment: RefundablePayment | null, refundMethods: PaymentMethod[], refundTarget: RefundTarget | null) => {
+    setSelectedPaymentId(payment?.id || null)
+    if (!payment) return
+
+    const owed = refundTarget?.amountOwed != null ? Number(refundTarget.amountOwed) : Infinity
+    setAmount(Math.min(payment.refundable, owed).toFixed(2))
+    const sameMethod = refundMethods.find(method => method.name === payment.payment_method)
+    setRefundMethodId(sameMethod?.id || refundMethods.find(method => method.name === 'cash')?.id || null)
+    setReferenceNumber('')
+  }
+
+  const validate = (): number | null => {
+    const refundAmount = parseFloat(amount)
+    if (isNaN(refundAmount) || refundAmount <= 0) {
+      Alert.alert('Invalid Amount', 'Please enter a valid refund amount')
+      return null
+    }
+    if (refundAmount > maxAmount + 0.005) {
+      Alert.alert('Invalid Amount', `At most ₱${maxAmount.toFixed(2)} can be refunded`)
+      return null
+    }
+    if (!wholeOrder && !selectedPayment) {
+      Alert.alert('Payment Required', 'Please select the payment to refund')
+      return null
+    }
+    if (!refundMethod) {
+      Alert.alert('Refund Method Required', 'Please select how the money is given back')
+      return null
+    }
+    if (refundMethod.requires_reference && !referenceNumber.trim()) {
+      Alert.alert('Reference Required', `Please enter the ${refundMethod.display_name} reference number`)
+      return null
+    }
+    if (!reason.trim()) {
+      Alert.alert('Reason Required', 'Please provide a reason for the refund')
+      return null
+    }
+    return refundAmount
+  }
+
+  const handleSubmit = () => {
+    if (!currentUser || validate() === null) return
+
+    if (currentUser.isManager) {
+      submitRefund({ approval_id: null, full_name: currentUser.name })
+    } else {
+      setShowApproval(true)
+    }
+  }
+
+  const submitRefund = async (approval: Pick<ManagerApproval, 'full_name'> & { approval_id: string | null }) => {
+    setShowApproval(false)
+    const refundAmount = validate()
+    if (!target || refundAmount === null || !refundMethod) return
+
+    setSaving(true)
+    try {
+      const refund = await RefundService.recordRefund({
+        orderId: target.orderId,
+        cancelledOrderId: target.cancelledOrderId,
+        paymentId: selectedPayment?.id || null,
+        amount: refundAmount,
+        refundMethodId: refundMethod.id,
+        referenceNumber: referenceNumber.trim() || null,
+        reason: reason.trim(),
+        approvalId: approval.approval_id,
+        notes: notes.trim() || null,
+      })
+
+      const paymentMethodName = selectedPayment
+        ? methods.find(method => method.name === selectedPayment.payment_method)?.display_name || selectedPayment.payment_method.toUpperCase()
+        : 'Order payments'
+      const slip = {
+        storeName,
+        orderNumber: target.orderNumber,
+        customerName: target.customerName,
+        refund,
+        refundMethodName: refundMethod.display_name,
+        paymentMethodName,
+        approvedByName: approval.full_name,
+        refundedByName: currentUser?.name,
+      }
+
+      onRefunded(refund)
+      onClose()
+      Alert.alert(
+        'Refund Recorded',
+        `₱${refundAmount.toFixed(2)} refunded via ${refundMethod.display_name} for ${target.orderNumber}.`,
+        [
+          { text: 'Done', style: 'cancel' },
+          {
+            text: 'Print Slip',
+            onPress: async () => {
+              const printed = await RefundService.printRefundSlip(slip)
+              if (!printed) {
+                Alert.alert('Print Failed', 'Could not print the refund slip. Check the printer connection.')
+              }
+            },
+          },
+        ]
+      )
+    } catch (error: any) {
+      console.error('❌ Error recording refund:', error)
+      Alert.alert('Error', `Failed to record refund: ${error.message}`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <View style={styles.header}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.title}>Refund</Text>
+              {target && (
+                <Text style={styles.subtitle}>{target.orderNumber} • {target.customerName}</Text>
+              )}
+            </View>
+            <TouchableOpacity onPress={onClose} disabled={saving}>
+              <Ionicons name="close" size={24} color="#6b7280" />
+            </TouchableOpacity>
+          </View>
+
+          {loading ? (
+            <ActivityIndicator size="large" color="#3b82f6" style={{ marginVertical: 24 }} />
+          ) : (
+            <ScrollView style={styles.body} keyboardShouldPersistTaps="handled">
+              {target?.amountOwed != null && (
+                <View style={styles.owedCard}>
+                  <Text style={styles.owedLabel}>Owed to customer</Text>
+                  <Text style={styles.owedAmount}>₱{Number(target.amountOwed).toFixed(2)}</Text>
+                </View>
+              )}
+
+              <Text style={styles.label}>Payment to Refund</Text>
+              {wholeOrder ? (
+                <Text style={styles.hint}>
+                  The payments of this order were not saved when it was cancelled. The refund is recorded against the order.
+                </Text>
+              ) : (
+                payments.map(payment => (
+                  <TouchableOpacity
+                    key={payment.id}
+                    style={[styles.paymentRow, selectedPaymentId === payment.id && styles.paymentRowActive]}
+                    onPress={() => selectPayment(payment, methods, target)}
+                  >
+                    <Ionicons
+                      name={selectedPaymentId === payment.id ? 'radio-button-on' : 'radio-button-off'}
+                      size={20}
+                      color={selectedPaymentId === payment.id ? '#3b82f6' : '#9ca3af'}
+                    />
+                    <View style={{ flex: 1, marginLeft: 10 }}>
+                      <Text style={styles.paymentMethod}>
+                        {methods.find(method => method.name === payment.payment_method)?.display_name || payment.payment_method.toUpperCase()} • ₱{payment.amount.toFixed(2)}
+                      </Text>
+                      <Text style={styles.hint}>
+                        {new Date(payment.payment_date).toLocaleDateString()}
+                        {payment.reference_number ? ` • Ref ${payment.reference_number}` : ''}
+                        {payment.refunded > 0 ? ` • ₱${payment.refunded.toFixed(2)} refunded` : ''}
+                      </Text>
+                    </View>
+                  </TouchableOpacity>
+                ))
+              )}
+
+              <Text style={styles.label}>Refund Amount</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="0.00"
+                keyboardType="numeric"
+                value={amount}
+                onChangeText={setAmount}
+              />
+              {maxAmount > 0 && maxAmount !== Infinity && (
+                <Text style={styles.hint}>Up to ₱{maxAmount.toFixed(2)}</Text>
+              )}
+
+              <Text style={styles.label}>Refund Via</Text>
+              <View style={styles.chips}>
+                {methods.map(method => (
+                  <TouchableOpacity
+                    key={method.id}
+                    style={[styles.chip, refundMethodId === method.id && styles.chipActive]}
+                    onPress={() => setRefundMethodId(method.id)}
+                  >
+                    <Text style={[styles.chipText, refundMethodId === method.id && styles.chipTextActive]}>
+                      {method.display_name}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              {refundMethod?.requires_reference && (
+                <>
+                  <Text style={styles.label}>Reference Number *</Text>
+                  <TextInput
+                    style={styles.input}
+                    placeholder={`Enter ${refundMethod.display_name} reference number`}
+                    autoCapitalize="none"
+                    value={referenceNumber}
+                    onChangeText={setReferenceNumber}
+                  />
+                </>
+              )}
+
+              <Text style={styles.label}>Reason *</Text>
+              <View style={styles.chips}>
+                {REFUND_REASONS.map(option => (
+                  <TouchableOpacity
+                    key={option}
+                    style={[styles.chip, reason === option && styles.chipActive]}
+                    onPress={() => setReason(option)}
+                  >
+                    <Text style={[styles.chipText, reason === option && styles.chipTextActive]}>{option}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <TextInput
+                style={styles.input}
+                placeholder="Reason for the refund"
+                value={reason}
+                onChangeText={setReason}
+              />
+
+              <Text style={styles.label}>Notes</Text>
+              <TextInput
+                style={[styles.input, styles.notesInput]}
+                placeholder="Optional"
+                value={notes}
+                onChangeText={setNotes}
+                multiline
+              />
+
+              {currentUser && !currentUser.isManager && (
+                <Text style={styles.hint}>A manager's PIN is needed to approve this refund.</Text>
+              )}
+
+              <TouchableOpacity
+                style={[styles.submitButton, saving && { opacity: 0.6 }]}
+                onPress={handleSubmit}
+                disabled={saving}
+              >
+                {saving ? (
+                  <ActivityIndicator color="#ffffff" />
+                ) : (
+                  <Text style={styles.submitButtonText}>Record Refund</Text>
+                )}
+              </TouchableOpacity>
+            </ScrollView>
+          )}
+        </View>
+      </View>
+
+      <ManagerPinModal
+        visible={showApproval}
+        storeId={storeId}
+        title="Refund Approval"
+        message="Refunds need a manager's PIN."
+        amount={parseFloat(amount) || null}
+        onApproved={submitRefund}
+        onCancel={() => setShowApproval(false)}
+      />
+    </Modal>
+  )
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  content: {
+    backgroundColor: '#ffffff',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 20,
+    maxHeight: '90%',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  body: {
+    flexGrow: 0,
+  },
+  owedCard: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: '#fef2f2',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  owedLabel: {
+    fontSize: 14,
+    color: '#991b1b',
+  },
+  owedAmount: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#991b1b',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  paymentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 6,
+  },
+  paymentRowActive: {
+    borderColor: '#3b82f6',
+    backgroundColor: '#eff6ff',
+  },
+  paymentMethod: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#111827',
+  },
+  notesInput: {
+    minHeight: 60,
+    textAlignVertical: 'top',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    backgroundColor: '#ffffff',
+  },
+  chipActive: {
+    borderColor: '#3b82f6',
+    backgroundColor: '#eff6ff',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#374151',
+  },
+  chipTextActive: {
+    color: '#3b82f6',
+    fontWeight: '600',
+  },
+  submitButton: {
+    backgroundColor: '#ef4444',
+    borderRadius: 8,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  submitButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+})
+
+export default RefundModal
@@ -0,0 +1,374 @@
+import React, { useState } from 'react'
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
+import ManagerPinModal from './ManagerPinModal'
+import { useOfflineSync } from '../context/OfflineQueueContext'
+import { OutboxEntry } from '../types/offlineQueue'
+import { round2 } from '../utils/money'
+
+interface SyncStatusBannerProps {
+  style?: any
+}
+
+/**
+ * Describe a queued entry in one line for the sync list
+ */
+const describeEntry = (entry: OutboxEntry): string => {
+  switch (entry.type) {
+    case 'create_order':
+      return `Order ${entry.payload.input.provisionalOrderNumber} • ${entry.payload.customerName} • ₱${entry.payload.totalAmount.toFixed(2)}`
+    case 'add_payment':
+      return `Payment ₱${entry.payload.amount.toFixed(2)} (${entry.payload.payment_method}) • ${entry.payload.orderNumber}`
+    case 'update_status':
+      return `${entry.payload.orderNumber}: ${entry.payload.fromStatus.replace('_', ' ')} → ${entry.payload.toStatus.replace('_', ' ')}`
+  }
+}
+
+/**
+ * Discount total of a queued order that a new manager approval must cover
+ */
+const getApprovalAmount = (entry: OutboxEntry): number | null => {
+  if (entry.type !== 'create_order') return null
+  return round2((entry.payload.input.adjustments || [])
+    .filter(adjustment => adjustment.approval_id || adjustment.source === 'manual' || adjustment.source === 'voucher')
+    .reduce((sum, adjustment) => sum + adjustment.amount, 0))
+}
+
+/**
+ * Banner showing work saved on the device that has not reached the server yet.
+ * Renders nothing when the outbox is empty.
+ */
+const SyncStatusBanner: React.FC<SyncStatusBannerProps> = ({ style }) => {
+  const { counts, entries, syncing, syncNow, retryEntry, discardEntry, reapproveOrder } = useOfflineSync()
+  const [modalVisible, setModalVisible] = useState(false)
+  const [approvalEntry, setApprovalEntry] = useState<OutboxEntry | null>(null)
+
+  const problemCount = counts.failed + counts.conflict
+  if (counts.pending === 0 && problemCount === 0 && !approvalEntry) {
+    return null
+  }
+
+  const handleDiscard = (entry: OutboxEntry) => {
+    Alert.alert(
+      'Discard Entry',
+      `${describeEntry(entry)}\n\nThis will not be saved to the server. Continue?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: () => discardEntry(entry.id),
+        },
+      ]
+    )
+  }
+
+  const handleApplyAnyway = (entry: OutboxEntry) => {
+    Alert.alert(
+      'Apply Anyway',
+      `${entry.lastError}\n\nApply this change using the data recorded offline?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Apply', onPress: () => retryEntry(entry.id, true) },
+      ]
+    )
+  }
+
+  // The PIN prompt replaces the list so the two modals are never open together
+  const handleApprove = (entry: OutboxEntry) => {
+    setModalVisible(false)
+    setApprovalEntry(entry)
+  }
+
+  return (
+    <>
+      <TouchableOpacity
+        style={[styles.banner, problemCount > 0 ? styles.bannerError : styles.bannerPending, style]}
+        onPress={() => setModalVisible(true)}
+      >
+        {syncing ? (
+          <ActivityIndicator size="small" color="#fff" />
+        ) : (
+          <Ionicons name={problemCount > 0 ? 'alert-circle' : 'cloud-offline'} size={18} color="#fff" />
+        )}
+        <Text style={styles.bannerText}>
+          {counts.pending > 0 ? `${counts.pending} waiting to sync` : ''}
+          {counts.pending > 0 && problemCount > 0 ? ' • ' : ''}
+          {problemCount > 0 ? `${problemCount} need attention` : ''}
+        </Text>
+        <Ionicons name="chevron-forward" size={16} color="#fff" />
+      </TouchableOpacity>
+
+      <Modal
+        visible={modalVisible}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setModalVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Offline Changes</Text>
+              <TouchableOpacity
+                style={styles.closeButton}
+                onPress={() => setModalVisible(false)}
+              >
+                <Text style={styles.closeButtonText}>✕</Text>
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.entryList}>
+              {entries.map(entry => (
+                <View key={entry.id} style={styles.entryItem}>
+                  <View style={styles.entryHeader}>
+                    <Text style={styles.entryText}>{describeEntry(entry)}</Text>
+                    <Text style={[
+                      styles.entryStatus,
+                      entry.status === 'pending' && styles.statusPending,
+                      entry.status === 'failed' && styles.statusFailed,
+                      entry.status === 'conflict' && styles.statusConflict,
+                    ]}>
+                      {entry.status.toUpperCase()}
+                    </Text>
+                  </View>
+                  <Text style={styles.entryDate}>
+                    Recorded {new Date(entry.createdAt).toLocaleString()}
+                  </Text>
+                  {entry.lastError && entry.status !== 'pending' && (
+                    <Text style={styles.entryError}>{entry.lastError}</Text>
+                  )}
+                  {entry.status !== 'pending' && (
+                    <View style={styles.entryActions}>
+                      <TouchableOpacity
+                        style={styles.actionButton}
+                        onPress={() => retryEntry(entry.id)}
+                      >
+                        <Text style={styles.actionButtonText}>Retry</Text>
+                      </TouchableOpacity>
+                      {entry.status === 'conflict' && entry.needsApproval && (
+                        <TouchableOpacity
+                          style={[styles.actionButton, styles.applyButton]}
+                          onPress={() => handleApprove(entry)}
+                        >
+                          <Text style={[styles.actionButtonText, styles.applyButtonText]}>Manager PIN</Text>
+                        </TouchableOpacity>
+                      )}
+                      {entry.status === 'conflict' && entry.type !== 'create_order' && (
+                        <TouchableOpacity
+                          style={[styles.actionButton, styles.applyButton]}
+                          onPress={() => handleApplyAnyway(entry)}
+                        >
+                          <Text style={[styles.actionButtonText, styles.applyButtonText]}>Apply Anyway</Text>
+                        </TouchableOpacity>
+                      )}
+                      <TouchableOpacity
+                        style={[styles.actionButton, styles.discardButton]}
+                        onPress={() => handleDiscard(entry)}
+                      >
+                        <Text style={[styles.actionButtonText, styles.discardButtonText]}>Discard</Text>
+                      </TouchableOpacity>
+                    </View>
+                  )}
+                </View>
+              ))}
+            </ScrollView>
+
+            <TouchableOpacity
+              style={[styles.syncButton, syncing && styles.syncButtonDisabled]}
+              onPress={syncNow}
+              disabled={syncing}
+            >
+              {syncing ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Text style={styles.syncButtonText}>Sync Now</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+
+      {approvalEntry && (
+        <ManagerPinModal
+          visible={true}
+          storeId={approvalEntry.storeId}
+          title="Approve Discount Again"
+          message={`The approval for ${describeEntry(approvalEntry)} expired before it was synced. A manager must approve the discount again.`}
+          amount={getApprovalAmount(approvalEntry)}
+          onApproved={approval => {
+            setApprovalEntry(null)
+            reapproveOrder(approvalEntry.id, approval)
+          }}
+          onCancel={() => setApprovalEntry(null)}
+        />
+      )}
+    </>
+  )
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    gap: 8,
+  },
+  bannerPending: {
+    backgroundColor: '#f59e0b',
+  },
+  bannerError: {
+    backgroundColor: '#ef4444',
+  },
+  bannerText: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    width: '90%',
+    maxHeight: '80%',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 8,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#2c3e50',
+  },
+  closeButton: {
+    width: 30,
+    height: 30,
+    borderRadius: 15,
+    backgroundColor: '#f0f0f0',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  closeButtonText: {
+    fontSize: 16,
+    color: '#666',
+  },
+  entryList: {
+    maxHeight: 400,
+  },
+  entryItem: {
+    padding: 15,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    gap: 8,
+  },
+  entryText: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#2c3e50',
+  },
+  entryStatus: {
+    fontSize: 11,
+    fontWeight: 'bold',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+    overflow: 'hidden',
+    color: '#fff',
+  },
+  statusPending: {
+    backgroundColor: '#f59e0b',
+  },
+  statusFailed: {
+    backgroundColor: '#ef4444',
+  },
+  statusConflict: {
+    backgroundColor: '#8b5cf6',
+  },
+  entryDate: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 4,
+  },
+  entryError: {
+    fontSize: 13,
+    color: '#ef4444',
+    marginTop: 6,
+  },
+  entryActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 10,
+  },
+  actionButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+    backgroundColor: '#e3f2fd',
+  },
+  actionButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#1976d2',
+  },
+  applyButton: {
+    backgroundColor: '#ede9fe',
+  },
+  applyButtonText: {
+    color: '#7c3aed',
+  },
+  discardButton: {
+    backgroundColor: '#fee2e2',
+  },
+  discardButtonText: {
+    color: '#ef4444',
+  },
+  syncButton: {
+    margin: 15,
+    padding: 14,
+    borderRadius: 8,
+    backgroundColor: '#1976d2',
+    alignItems: 'center',
+  },
+  syncButtonDisabled: {
+    opacity: 0.6,
+  },
+  syncButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+})
+
+export default SyncStatusBanner
@@ -0,0 +1,38 @@
+import React, { createContext, useContext, ReactNode } from 'react'
+import { useOfflineQueue } from '../hooks/useOfflineQueue'
+import { OutboxCounts, OutboxEntry } from '../types/offlineQueue'
+import { ManagerApproval } from '../types/voucher'
+
+interface OfflineQueueContextType {
+  counts: OutboxCounts
+  entries: OutboxEntry[]
+  syncing: boolean
+  syncNow: () => Promise<void>
+  retryEntry: (entryId: string, force?: boolean) => Promise<void>
+  discardEntry: (entryId: string) => Promise<void>
+  reapproveOrder: (entryId: string, approval: ManagerApproval) => Promise<void>
+}
+
+const OfflineQueueContext = createContext<OfflineQueueContextType | undefined>(undefined)
+
+interface OfflineQueueProviderProps {
+  children: ReactNode
+}
+
+export const OfflineQueueProvider: React.FC<OfflineQueueProviderProps> = ({ children }) => {
+  const queue = useOfflineQueue()
+
+  return (
+    <OfflineQueueContext.Provider value={queue}>
+      {children}
+    </OfflineQueueContext.Provider>
+  )
+}
+
+export const useOfflineSync = (): OfflineQueueContextType => {
+  const context = useContext(OfflineQueueContext)
+  if (context === undefined) {
+    throw new Error('useOfflineSync must be used within an OfflineQueueProvider')
+  }
+  return context
+}
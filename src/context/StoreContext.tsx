@@ -1,5 +1,7 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react'
 import { supabase } from '../../lib/supabase'
+import { StoreSettings } from '../utils/featureFlags'
+import ThermalPrinterService from '../services/ThermalPrinterService'
 
 interface Store {
   id: string
@@ -17,6 +19,7 @@ interface Store {
     multiple_currencies?: boolean
     tax_calculation?: boolean
   }
+  settings?: Partial<StoreSettings>
 }
 
 interface StoreContextType {
@@ -83,7 +86,8 @@ export const StoreProvider: React.FC<StoreProviderProps> = ({ children }) => {
             address,
             phone,
             email,
-            features
+            features,
+            settings
           )
         `)
         .eq('user_id', userData.id)
@@ -109,7 +113,8 @@ export const StoreProvider: React.FC<StoreProviderProps> = ({ children }) => {
               address,
               phone,
               email,
-              features
+              features,
+              settings
             )
           `)
           .eq('user_id', userData.id)
@@ -175,7 +180,7 @@ export const StoreProvider: React.FC<StoreProviderProps> = ({ children }) => {
       console.log('🔍 Store not in available stores, fetching from database...')
       const { data, error } = await supabase
         .from('stores')
-        .select('id, name, address, phone, email, features')
+        .select('id, name, address, phone, email, features, settings')
         .eq('id', storeId)
         .single()
       
@@ -200,6 +205,11 @@ export const StoreProvider: React.FC<StoreProviderProps> = ({ children }) => {
     refreshStores()
   }, [])
 
+  // Each store can have its own external printer on this device
+  useEffect(() => {
+    ThermalPrinterService.getInstance().loadStorePrinter(currentStore?.id ?? null)
+  }, [currentStore?.id])
+
   const value: StoreContextType = {
     currentStore,
     availableStores,
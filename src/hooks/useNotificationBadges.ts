@@ -2,6 +2,7 @@ import { useState, useEffect, useCallback } from 'react'
 import AsyncStorage from '@react-native-async-storage/async-storage'
 import { supabase } from '../../lib/supabase'
 import { useStore } from '../context/StoreContext'
+import { OPEN_ORDER_STATUSES } from '../utils/dueDates'
 
 const VIEWED_ORDERS_KEY_PREFIX = '@viewed_orders_'
 
@@ -14,7 +15,7 @@ interface NotificationBadges {
 
 /**
  * Hook to manage notification badges for bottom navigation
- * Tracks new orders that haven't been viewed yet
+ * Tracks new orders that haven't been viewed yet and orders past their promised ready date
  */
 export const useNotificationBadges = (): NotificationBadges => {
   const { currentStore } = useStore()
@@ -98,13 +99,32 @@ export const useNotificationBadges = (): NotificationBadges => {
         return
       }
 
-      if (!orders || orders.length === 0) {
+      // Overdue orders need attention until they are ready, whether viewed or not
+      const { data: overdueOrders, error: overdueError } = await supabase
+        .from('orders')
+        .select('id')
+        .eq('store_id', currentStore.id)
+        .in('order_status', OPEN_ORDER_STATUSES)
+        .lt('promised_at', new Date().toISOString())
+
+      if (overdueError) {
+        console.error('Error fetching overdue orders for badges:', overdueError)
+      }
+
+      const overdueIds = new Set((overdueOrders || []).map(order => order.id))
+
+      if ((!orders || orders.length === 0) && overdueIds.size === 0) {
         setOrdersBadge(0)
         return
       }
 
       // Filter for new/unread orders
-      const newOrders = orders.filter(order => {
+      const newOrders = (orders || []).filter(order => {
+        // Overdue orders are counted below
+        if (overdueIds.has(order.id)) {
+          return false
+        }
+
         // If already viewed, don't count
         if (viewedOrders.has(order.id)) {
           return false
@@ -123,12 +143,12 @@ export const useNotificationBadges = (): NotificationBadges => {
         return isReady || isToday || hasUnpaidBalance
       })
 
-      setOrdersBadge(newOrders.length)
+      setOrdersBadge(newOrders.length + overdueIds.size)
 
       // Settings badge: currently 0 (can be extended for settings notifications)
       setSettingsBadge(0)
 
-      console.log(`📊 Badge counts - Orders: ${newOrders.length}, Settings: 0`)
+      console.log(`📊 Badge counts - Orders: ${newOrders.length} new, ${overdueIds.size} overdue, Settings: 0`)
     } catch (error) {
       console.error('Error calculating badges:', error)
       setOrdersBadge(0)
@@ -0,0 +1,104 @@
+import { useState, useEffect, useCallback } from 'react'
+import { AppState } from 'react-native'
+import { useStore } from '../context/StoreContext'
+import OfflineQueueService from '../services/OfflineQueueService'
+import { OutboxCounts, OutboxEntry } from '../types/offlineQueue'
+import { ManagerApproval } from '../types/voucher'
+
+interface OfflineQueueState {
+  counts: OutboxCounts
+  entries: OutboxEntry[]
+  syncing: boolean
+  syncNow: () => Promise<void>
+  retryEntry: (entryId: string, force?: boolean) => Promise<void>
+  discardEntry: (entryId: string) => Promise<void>
+  reapproveOrder: (entryId: string, approval: ManagerApproval) => Promise<void>
+}
+
+const EMPTY_COUNTS: OutboxCounts = { pending: 0, failed: 0, conflict: 0 }
+
+/**
+ * Hook to track the offline outbox for the current store
+ * Replays queued entries on mount, when the app returns to the foreground
+ * and every 30 seconds while anything is pending
+ */
+export const useOfflineQueue = (): OfflineQueueState => {
+  const { currentStore } = useStore()
+  const [entries, setEntries] = useState<OutboxEntry[]>([])
+  const [counts, setCounts] = useState<OutboxCounts>(EMPTY_COUNTS)
+  const [syncing, setSyncing] = useState(false)
+
+  /**
+   * Reload entries and counts from the queue
+   */
+  const refresh = useCallback(async () => {
+    if (!currentStore) {
+      setEntries([])
+      setCounts(EMPTY_COUNTS)
+      return
+    }
+
+    const storeEntries = await OfflineQueueService.getEntries(currentStore.id)
+    setEntries(storeEntries)
+    setCounts({
+      pending: storeEntries.filter(entry => entry.status === 'pending').length,
+      failed: storeEntries.filter(entry => entry.status === 'failed').length,
+      conflict: storeEntries.filter(entry => entry.status === 'conflict').length,
+    })
+    setSyncing(OfflineQueueService.isSyncing())
+  }, [currentStore])
+
+  const syncNow = useCallback(async () => {
+    await OfflineQueueService.sync()
+  }, [])
+
+  /**
+   * Keep state in sync with the queue
+   */
+  useEffect(() => {
+    refresh()
+    return OfflineQueueService.subscribe(() => {
+      refresh()
+    })
+  }, [refresh])
+
+  /**
+   * Replay pending entries on mount, on foreground and every 30 seconds
+   */
+  useEffect(() => {
+    if (!currentStore) return
+
+    OfflineQueueService.sync()
+
+    const interval = setInterval(() => {
+      OfflineQueueService.sync()
+    }, 30000)
+
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') {
+        OfflineQueueService.sync()
+      }
+    })
+
+    return () => {
+      clearInterval(interval)
+      subscription.remove()
+    }
+  }, [currentStore])
+
+  return {
+    counts,
+    entries,
+    syncing,
+    syncNow,
+    retryEntry: async (entryId: string, force?: boolean) => {
+      await OfflineQueueService.retryEntry(entryId, force)
+    },
+    discardEntry: async (entryId: string) => {
+      await OfflineQueueService.discardEntry(entryId)
+    },
+    reapproveOrder: async (entryId: string, approval: ManagerApproval) => {
+      await OfflineQueueService.reapproveOrder(entryId, approval)
+    },
+  }
+}
@@ -0,0 +1,831 @@
+import React, { useState, useEffect } from 'react'
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+} from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
+import { supabase } from '../../lib/supabase'
+import { useStore } from '../context/StoreContext'
+import CashDrawerService from '../services/CashDrawerService'
+import ThermalPrinterService from '../services/ThermalPrinterService'
+import { CashDrawerEntry, CashDrawerEntryType, CashDrawerShift, ShiftSummary } from '../types/shift'
+import { formatShiftReportLines, formatVariance } from '../utils/cashDrawer'
+
+const CashDrawerScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
+  const { currentStore } = useStore()
+  const [loading, setLoading] = useState(true)
+  const [userId, setUserId] = useState<string | null>(null)
+  const [isManager, setIsManager] = useState(false)
+  const [shift, setShift] = useState<CashDrawerShift | null>(null)
+  const [summary, setSummary] = useState<ShiftSummary | null>(null)
+  const [entries, setEntries] = useState<CashDrawerEntry[]>([])
+  const [recentShifts, setRecentShifts] = useState<CashDrawerShift[]>([])
+  const [userNames, setUserNames] = useState<Record<string, string>>({})
+  const [methodNames, setMethodNames] = useState<Record<string, string>>({})
+  const [saving, setSaving] = useState(false)
+
+  // Open shift form
+  const [openingFloat, setOpeningFloat] = useState('')
+
+  // Paid in / out form
+  const [entryType, setEntryType] = useState<CashDrawerEntryType | null>(null)
+  const [entryAmount, setEntryAmount] = useState('')
+  const [entryReason, setEntryReason] = useState('')
+
+  // Close shift form
+  const [showCloseModal, setShowCloseModal] = useState(false)
+  const [counts, setCounts] = useState<Record<string, string>>({})
+  const [closeNotes, setCloseNotes] = useState('')
+
+  useEffect(() => {
+    loadShift()
+  }, [currentStore])
+
+  const loadShift = async () => {
+    if (!currentStore) return
+
+    try {
+      setLoading(true)
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session?.user) return
+      setUserId(session.user.id)
+
+      const { data: userDetails } = await supabase
+        .from('users')
+        .select('role')
+        .eq('id', session.user.id)
+        .single()
+      const manager = ['super_admin', 'store_owner', 'manager'].includes(userDetails?.role || '')
+      setIsManager(manager)
+
+      const { data: methods } = await supabase
+        .from('payment_methods')
+        .select('name, display_name')
+      const names: Record<string, string> = {}
+      methods?.forEach((method: any) => {
+        names[method.name] = method.display_name
+      })
+      setMethodNames(names)
+
+      const openShift = await CashDrawerService.getOpenShift(currentStore.id, session.user.id)
+      setShift(openShift)
+      if (openShift) {
+        const [shiftSummary, shiftEntries] = await Promise.all([
+          CashDrawerService.getSummary(openShift.id),
+          CashDrawerService.getEntries(openShift.id),
+        ])
+        setSummary(shiftSummary)
+        setEntries(shiftEntries)
+      } else {
+        setSummary(null)
+        setEntries([])
+      }
+
+      // Managers audit every cashier's shifts
+      if (manager) {
+        const shifts = await CashDrawerService.getRecentShifts(currentStore.id)
+        setRecentShifts(shifts)
+
+        const userIds = Array.from(new Set(shifts.map(s => s.opened_by)))
+        if (userIds.length > 0) {
+          const { data: users } = await supabase
+            .from('users')
+            .select('id, first_name, last_name')
+            .in('id', userIds)
+          const cashierNames: Record<string, string> = {}
+          users?.forEach((user: any) => {
+            cashierNames[user.id] = `${user.first_name || ''} ${user.last_name || ''}`.trim() || 'Unknown'
+          })
+          setUserNames(cashierNames)
+        }
+      }
+    } catch (error: any) {
+      console.error('❌ Error loading cash drawer shift:', error)
+      Alert.alert('Error', error.message || 'Failed to load shift')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleOpenShift = async () => {
+    if (!currentStore) return
+
+    const float = openingFloat.trim() ? parseFloat(openingFloat) : 0
+    if (isNaN(float) || float < 0) {
+      Alert.alert('Validation Error', 'Please enter a valid opening float')
+      return
+    }
+
+    try {
+      setSaving(true)
+      await CashDrawerService.openShift(currentStore.id, float)
+      setOpeningFloat('')
+      await loadShift()
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to open shift')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleSaveEntry = async () => {
+    if (!shift || !entryType) return
+
+    const amount = parseFloat(entryAmount)
+    if (isNaN(amount) || amount <= 0) {
+      Alert.alert('Validation Error', 'Please enter a valid amount')
+      return
+    }
+    if (!entryReason.trim()) {
+      Alert.alert('Validation Error', 'Please enter a reason')
+      return
+    }
+
+    try {
+      setSaving(true)
+      await CashDrawerService.addEntry(shift.id, entryType, amount, entryReason.trim())
+      setEntryType(null)
+      setEntryAmount('')
+      setEntryReason('')
+      await loadShift()
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to record cash entry')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  // Cash is always counted; other methods are listed when the shift took payments or gave refunds with them
+  const countMethods = ['cash', ...Array.from(new Set([...(summary?.payments || []), ...(summary?.refunds || [])]
+    .map(payment => payment.payment_method)))
+    .filter(method => method !== 'cash')]
+
+  const getExpected = (method: string): number => {
+    if (!summary) return 0
+    if (method === 'cash') return Number(summary.expected_cash)
+    return Number(summary.payments.find(payment => payment.payment_method === method)?.amount || 0) -
+      Number(summary.refunds?.find(refund => refund.payment_method === method)?.amount || 0)
+  }
+
+  const openCloseModal = () => {
+    setCounts({})
+    setCloseNotes('')
+    setShowCloseModal(true)
+  }
+
+  const handleCloseShift = async () => {
+    if (!shift) return
+
+    const countedAmounts: Record<string, number> = {}
+    for (const method of countMethods) {
+      const value = parseFloat(counts[method] || '')
+      if (isNaN(value) || value < 0) {
+        Alert.alert('Validation Error', `Please enter the counted amount for ${methodNames[method] || method}`)
+        return
+      }
+      countedAmounts[method] = value
+    }
+
+    try {
+      setSaving(true)
+      const closedShift = await CashDrawerService.closeShift(shift.id, countedAmounts, closeNotes.trim() || null)
+      const closedSummary = summary
+      const closedEntries = entries
+      setShowCloseModal(false)
+      await loadShift()
+
+      const variance = Number(closedShift.cash_variance || 0)
+      Alert.alert(
+        'Shift Closed',
+        `Expected Cash: ₱${Number(closedShift.expected_cash || 0).toFixed(2)}\nCounted Cash: ₱${Number(closedShift.counted_cash || 0).toFixed(2)}\nVariance: ${formatVariance(variance)}`,
+        [
+          { text: 'Done', style: 'cancel' },
+          {
+            text: 'Print Z Report',
+            onPress: () => closedSummary && printReport('Z', closedShift, closedSummary, closedEntries),
+          },
+        ]
+      )
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to close shift')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const printReport = async (
+    kind: 'X' | 'Z',
+    reportShift: CashDrawerShift,
+    reportSummary: ShiftSummary,
+    reportEntries: CashDrawerEntry[]
+  ) => {
+    try {
+      const { data: cashier } = await supabase
+        .from('users')
+        .select('first_name, last_name')
+        .eq('id', reportShift.opened_by)
+        .single()
+
+      const lines = formatShiftReportLines({
+        kind,
+        storeName: currentStore?.name || '',
+        cashierName: cashier ? `${cashier.first_name || ''} ${cashier.last_name || ''}`.trim() : 'Unknown',
+        shift: reportShift,
+        summary: reportSummary,
+        entries: reportEntries,
+        methodNames,
+      })
+
+      console.log(`🖨️ Printing ${kind} report...`)
+      const success = await ThermalPrinterService.getInstance().printReport(lines)
+      if (!success) {
+        Alert.alert('Print Failed', `Failed to print the ${kind} report. Please check your printer connection.`)
+      }
+    } catch (error: any) {
+      console.error(`❌ Error printing ${kind} report:`, error)
+      Alert.alert('Print Error', error.message || 'Failed to print report')
+    }
+  }
+
+  // Reprint the Z report of a closed shift from the manager's list
+  const reprintShiftReport = async (closedShift: CashDrawerShift) => {
+    try {
+      const [shiftSummary, shiftEntries] = await Promise.all([
+        CashDrawerService.getSummary(closedShift.id),
+        CashDrawerService.getEntries(closedShift.id),
+      ])
+      await printReport('Z', closedShift, shiftSummary, shiftEntries)
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to load shift')
+    }
+  }
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.centerContent]}>
+        <ActivityIndicator size="large" color="#3b82f6" />
+        <Text style={styles.loadingText}>Loading cash drawer...</Text>
+      </View>
+    )
+  }
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color="#111827" />
+        </TouchableOpacity>
+        <View style={styles.headerContent}>
+          <Text style={styles.title}>Cash Drawer</Text>
+          <Text style={styles.subtitle}>{currentStore?.name}</Text>
+        </View>
+      </View>
+
+      <ScrollView style={styles.content}>
+        {!shift ? (
+          /* Open Shift */
+          <View style={styles.card}>
+            <View style={styles.cardHeader}>
+              <Ionicons name="lock-closed-outline" size={24} color="#6b7280" />
+              <Text style={styles.cardTitle}>No Open Shift</Text>
+            </View>
+            <Text style={styles.hint}>
+              Count the cash in the drawer and open a shift before taking payments. Payments you receive are recorded on your shift.
+            </Text>
+            <Text style={styles.label}>Opening Float (₱)</Text>
+            <TextInput
+              style={styles.input}
+              value={openingFloat}
+              onChangeText={setOpeningFloat}
+              placeholder="0.00"
+              keyboardType="decimal-pad"
+            />
+            <TouchableOpacity
+              style={[styles.primaryButton, saving && styles.buttonDisabled]}
+              onPress={handleOpenShift}
+              disabled={saving}
+            >
+              {saving ? (
+                <ActivityIndicator size="small" color="#ffffff" />
+              ) : (
+                <Text style={styles.primaryButtonText}>Open Shift</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <>
+            {/* Current Shift */}
+            <View style={styles.card}>
+              <View style={styles.cardHeader}>
+                <Ionicons name="lock-open-outline" size={24} color="#10b981" />
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.cardTitle}>Shift Open</Text>
+                  <Text style={styles.hint}>Since {new Date(shift.opened_at).toLocaleString()}</Text>
+                </View>
+              </View>
+
+              {summary && (
+                <>
+                  <View style={styles.summaryRow}>
+                    <Text style={styles.summaryLabel}>Opening Float</Text>
+                    <Text style={styles.summaryValue}>₱{Number(summary.opening_float).toFixed(2)}</Text>
+                  </View>
+                  {summary.payments.map(payment => (
+                    <View key={payment.payment_method} style={styles.summaryRow}>
+                      <Text style={styles.summaryLabel}>
+                        {methodNames[payment.payment_method] || payment.payment_method} ({payment.count})
+                      </Text>
+                      <Text style={styles.summaryValue}>₱{Number(payment.amount).toFixed(2)}</Text>
+                    </View>
+                  ))}
+                  {(summary.refunds || []).map(refund => (
+                    <View key={`refund-${refund.payment_method}`} style={styles.summaryRow}>
+                      <Text style={styles.summaryLabel}>
+                        {methodNames[refund.payment_method] || refund.payment_method} Refunds ({refund.count})
+                      </Text>
+                      <Text style={[styles.summaryValue, styles.negativeText]}>-₱{Number(refund.amount).toFixed(2)}</Text>
+                    </View>
+                  ))}
+                  <View style={styles.summaryRow}>
+                    <Text style={styles.summaryLabel}>Paid In</Text>
+                    <Text style={styles.summaryValue}>₱{Number(summary.paid_in).toFixed(2)}</Text>
+                  </View>
+                  <View style={styles.summaryRow}>
+                    <Text style={styles.summaryLabel}>Paid Out</Text>
+                    <Text style={styles.summaryValue}>-₱{Number(summary.paid_out).toFixed(2)}</Text>
+                  </View>
+                  <View style={[styles.summaryRow, styles.summaryTotalRow]}>
+                    <Text style={styles.summaryTotalLabel}>Expected Cash</Text>
+                    <Text style={styles.summaryTotalValue}>₱{Number(summary.expected_cash).toFixed(2)}</Text>
+                  </View>
+                </>
+              )}
+
+              <View style={styles.actionRow}>
+                <TouchableOpacity style={styles.actionButton} onPress={() => setEntryType('paid_in')}>
+                  <Ionicons name="add-circle-outline" size={18} color="#10b981" />
+                  <Text style={styles.actionButtonText}>Paid In</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.actionButton} onPress={() => setEntryType('paid_out')}>
+                  <Ionicons name="remove-circle-outline" size={18} color="#ef4444" />
+                  <Text style={styles.actionButtonText}>Paid Out</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.actionButton}
+                  onPress={() => summary && printReport('X', shift, summary, entries)}
+                >
+                  <Ionicons name="print-outline" size={18} color="#3b82f6" />
+                  <Text style={styles.actionButtonText}>X Report</Text>
+                </TouchableOpacity>
+              </View>
+
+              <TouchableOpacity style={[styles.primaryButton, styles.closeShiftButton]} onPress={openCloseModal}>
+                <Text style={styles.primaryButtonText}>Close Shift</Text>
+              </TouchableOpacity>
+            </View>
+
+            {/* Paid In / Out */}
+            {entries.length > 0 && (
+              <View style={styles.card}>
+                <Text style={styles.cardTitle}>Paid In / Out</Text>
+                {entries.map(entry => (
+                  <View key={entry.id} style={styles.entryRow}>
+                    <View style={{ flex: 1 }}>
+                      <Text style={styles.entryReason}>{entry.reason}</Text>
+                      <Text style={styles.hint}>{new Date(entry.created_at).toLocaleTimeString()}</Text>
+                    </View>
+                    <Text style={[styles.entryAmount, entry.entry_type === 'paid_out' && styles.negativeText]}>
+                      {entry.entry_type === 'paid_out' ? '-' : '+'}₱{Number(entry.amount).toFixed(2)}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            )}
+          </>
+        )}
+
+        {/* Recent Shifts - managers only */}
+        {isManager && recentShifts.length > 0 && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Recent Shifts</Text>
+            {recentShifts.map(recent => (
+              <View key={recent.id} style={styles.entryRow}>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.entryReason}>
+                    {userNames[recent.opened_by] || (recent.opened_by === userId ? 'You' : 'Unknown')}
+                  </Text>
+                  <Text style={styles.hint}>
+                    {new Date(recent.opened_at).toLocaleString()}
+                    {recent.closed_at ? ` - ${new Date(recent.closed_at).toLocaleTimeString()}` : ' - open'}
+                  </Text>
+                </View>
+                {recent.status === 'closed' ? (
+                  <>
+                    <Text style={[
+                      styles.entryAmount,
+                      Number(recent.cash_variance) < 0 && styles.negativeText,
+                    ]}>
+                      {formatVariance(Number(recent.cash_variance || 0))}
+                    </Text>
+                    <TouchableOpacity style={styles.iconButton} onPress={() => reprintShiftReport(recent)}>
+                      <Ionicons name="print-outline" size={20} color="#3b82f6" />
+                    </TouchableOpacity>
+                  </>
+                ) : (
+                  <Text style={styles.openBadge}>OPEN</Text>
+                )}
+              </View>
+            ))}
+          </View>
+        )}
+      </ScrollView>
+
+      {/* Paid In / Out Modal */}
+      <Modal
+        visible={entryType !== null}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setEntryType(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>{entryType === 'paid_in' ? 'Paid In' : 'Paid Out'}</Text>
+              <TouchableOpacity onPress={() => setEntryType(null)}>
+                <Ionicons name="close" size={24} color="#6b7280" />
+              </TouchableOpacity>
+            </View>
+
+            <Text style={styles.label}>Amount (₱) *</Text>
+            <TextInput
+              style={styles.input}
+              value={entryAmount}
+              onChangeText={setEntryAmount}
+              placeholder="0.00"
+              keyboardType="decimal-pad"
+            />
+            <Text style={styles.label}>Reason *</Text>
+            <TextInput
+              style={styles.input}
+              value={entryReason}
+              onChangeText={setEntryReason}
+              placeholder={entryType === 'paid_in' ? 'e.g., Additional change fund' : 'e.g., Bought detergent'}
+            />
+
+            <View style={styles.modalActions}>
+              <TouchableOpacity style={styles.cancelButton} onPress={() => setEntryType(null)}>
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.saveButton, saving && styles.buttonDisabled]}
+                onPress={handleSaveEntry}
+                disabled={saving}
+              >
+                <Text style={styles.saveButtonText}>Save</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Close Shift Modal */}
+      <Modal
+        visible={showCloseModal}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setShowCloseModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Close Shift</Text>
+              <TouchableOpacity onPress={() => setShowCloseModal(false)}>
+                <Ionicons name="close" size={24} color="#6b7280" />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.modalBody}>
+              <Text style={styles.hint}>
+                Count the drawer and enter the total per payment method. For e-wallets and cards, enter the total shown in the app or terminal.
+              </Text>
+              {countMethods.map(method => {
+                const expected = getExpected(method)
+                const counted = parseFloat(counts[method] || '')
+                return (
+                  <View key={method} style={styles.countGroup}>
+                    <View style={styles.summaryRow}>
+                      <Text style={styles.label}>{methodNames[method] || method}</Text>
+                      <Text style={styles.hint}>Expected ₱{expected.toFixed(2)}</Text>
+                    </View>
+                    <TextInput
+                      style={styles.input}
+                      value={counts[method] || ''}
+                      onChangeText={(text) => setCounts(prev => ({ ...prev, [method]: text }))}
+                      placeholder="Counted amount"
+                      keyboardType="decimal-pad"
+                    />
+                    {!isNaN(counted) && (
+                      <Text style={[styles.varianceText, counted - expected < 0 && styles.negativeText]}>
+                        Variance: {formatVariance(counted - expected)}
+                      </Text>
+                    )}
+                  </View>
+                )
+              })}
+              <Text style={styles.label}>Notes</Text>
+              <TextInput
+                style={[styles.input, styles.notesInput]}
+                value={closeNotes}
+                onChangeText={setCloseNotes}
+                placeholder="Explain any variance"
+                multiline
+              />
+            </ScrollView>
+
+            <View style={styles.modalActions}>
+              <TouchableOpacity style={styles.cancelButton} onPress={() => setShowCloseModal(false)}>
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.saveButton, saving && styles.buttonDisabled]}
+                onPress={handleCloseShift}
+                disabled={saving}
+              >
+                {saving ? (
+                  <ActivityIndicator size="small" color="#ffffff" />
+                ) : (
+                  <Text style={styles.saveButtonText}>Close Shift</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  centerContent: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#6b7280',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    backgroundColor: '#ffffff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  backButton: {
+    padding: 4,
+    marginRight: 12,
+  },
+  headerContent: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 12,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#111827',
+    backgroundColor: '#ffffff',
+  },
+  notesInput: {
+    minHeight: 70,
+    textAlignVertical: 'top',
+  },
+  primaryButton: {
+    backgroundColor: '#3b82f6',
+    borderRadius: 8,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  primaryButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  closeShiftButton: {
+    backgroundColor: '#111827',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  summaryLabel: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  summaryValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  summaryTotalRow: {
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+    marginTop: 6,
+    paddingTop: 10,
+  },
+  summaryTotalLabel: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  summaryTotalValue: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#10b981',
+  },
+  actionRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 16,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#f9fafb',
+  },
+  actionButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  entryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+  entryReason: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  entryAmount: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: '#10b981',
+  },
+  negativeText: {
+    color: '#ef4444',
+  },
+  iconButton: {
+    padding: 6,
+    marginLeft: 8,
+  },
+  openBadge: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#10b981',
+  },
+  countGroup: {
+    marginTop: 4,
+  },
+  varianceText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#10b981',
+    marginTop: 4,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#ffffff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  modalBody: {
+    flexGrow: 0,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 20,
+  },
+  cancelButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  saveButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 8,
+    backgroundColor: '#3b82f6',
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+})
+
+export default CashDrawerScreen
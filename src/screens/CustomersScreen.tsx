@@ -0,0 +1,1289 @@
+import React, { useState, useEffect } from 'react'
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+  RefreshControl,
+  KeyboardAvoidingView,
+  ScrollView,
+  Platform,
+} from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
+import { supabase } from '../../lib/supabase'
+import { useStore } from '../context/StoreContext'
+import { isFeatureEnabled } from '../utils/featureFlags'
+import { Customer, CustomerStats } from '../types/customer'
+import { OrderStatus, PaymentStatus } from '../types/order'
+import { getPhoneKey, parseTags } from '../utils/customers'
+import LoyaltyHistoryModal from '../components/LoyaltyHistoryModal'
+
+interface CustomerOrder {
+  id: string
+  order_number: string
+  order_date: string
+  total_amount: number
+  paid_amount: number
+  balance: number
+  order_status: OrderStatus
+  payment_status: PaymentStatus
+}
+
+const CUSTOMERS_PER_PAGE = 20
+const ORDERS_PER_PAGE = 20
+
+const orderStatusColors: Record<OrderStatus, string> = {
+  pending: '#f59e0b',
+  in_progress: '#3b82f6',
+  ready: '#10b981',
+  completed: '#6b7280',
+  cancelled: '#ef4444',
+  abandoned: '#78716c',
+}
+
+const CustomersScreen: React.FC = () => {
+  const { currentStore } = useStore()
+  const loyaltyEnabled = isFeatureEnabled(currentStore as any, 'loyalty_points')
+
+  // List state
+  const [customers, setCustomers] = useState<Customer[]>([])
+  const [stats, setStats] = useState<Record<string, CustomerStats>>({})
+  const [loading, setLoading] = useState(true)
+  const [refreshing, setRefreshing] = useState(false)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [hasMore, setHasMore] = useState(true)
+  const [page, setPage] = useState(0)
+  const [searchQuery, setSearchQuery] = useState('')
+  const [showInactive, setShowInactive] = useState(false)
+
+  // Details state
+  const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null)
+  const [orders, setOrders] = useState<CustomerOrder[]>([])
+  const [loadingOrders, setLoadingOrders] = useState(false)
+  const [hasMoreOrders, setHasMoreOrders] = useState(false)
+  const [duplicates, setDuplicates] = useState<Customer[]>([])
+  const [merging, setMerging] = useState(false)
+  const [showLoyaltyHistory, setShowLoyaltyHistory] = useState(false)
+
+  // Edit form state
+  const [showEditModal, setShowEditModal] = useState(false)
+  const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null)
+  const [form, setForm] = useState({
+    first_name: '',
+    last_name: '',
+    phone: '',
+    email: '',
+    address: '',
+    tags: '',
+    notes: '',
+  })
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    loadCustomers(true)
+  }, [currentStore, showInactive])
+
+  // Debounce search
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      if (searchQuery.trim().length >= 2 || searchQuery.trim().length === 0) {
+        loadCustomers(true)
+      }
+    }, 300)
+
+    return () => clearTimeout(timer)
+  }, [searchQuery])
+
+  const loadCustomers = async (reset: boolean = false) => {
+    if (!currentStore) return
+
+    try {
+      if (reset) {
+        setLoading(customers.length === 0)
+      } else {
+        setLoadingMore(true)
+      }
+
+      const currentPage = reset ? 0 : page
+      const from = currentPage * CUSTOMERS_PER_PAGE
+      const to = from + CUSTOMERS_PER_PAGE - 1
+
+      let query = supabase
+        .from('customers')
+        .select('*')
+        .eq('store_id', currentStore.id)
+        .eq('is_active', !showInactive)
+        .order('first_name', { ascending: true })
+        .order('last_name', { ascending: true })
+        .range(from, to)
+
+      const term = searchQuery.trim()
+      if (term.length >= 2) {
+        const searchPattern = `%${term}%`
+        query = query.or(`first_name.ilike.${searchPattern},last_name.ilike.${searchPattern},phone.ilike.${searchPattern},email.ilike.${searchPattern},customer_number.ilike.${searchPattern}`)
+      }
+
+      const { data, error } = await query
+      if (error) throw error
+
+      const loaded: Customer[] = data || []
+      setHasMore(loaded.length === CUSTOMERS_PER_PAGE)
+      setCustomers(prev => (reset ? loaded : [...prev, ...loaded]))
+      setPage(currentPage + 1)
+      await loadStats(loaded.map(c => c.id), reset)
+    } catch (error: any) {
+      console.error('Error loading customers:', error)
+      Alert.alert('Error', 'Failed to load customers')
+    } finally {
+      setLoading(false)
+      setLoadingMore(false)
+    }
+  }
+
+  const loadStats = async (customerIds: string[], reset: boolean) => {
+    if (!currentStore || customerIds.length === 0) {
+      if (reset) setStats({})
+      return
+    }
+
+    const { data, error } = await supabase
+      .from('customer_stats')
+      .select('*')
+      .eq('store_id', currentStore.id)
+      .in('customer_id', customerIds)
+
+    if (error) {
+      console.error('Error loading customer stats:', error)
+      return
+    }
+
+    const byCustomer: Record<string, CustomerStats> = {}
+    ;(data || []).forEach((row: CustomerStats) => {
+      byCustomer[row.customer_id] = row
+    })
+    setStats(prev => (reset ? byCustomer : { ...prev, ...byCustomer }))
+  }
+
+  const loadMore = () => {
+    if (!loadingMore && hasMore && !loading) {
+      loadCustomers(false)
+    }
+  }
+
+  const onRefresh = async () => {
+    setRefreshing(true)
+    await loadCustomers(true)
+    setRefreshing(false)
+  }
+
+  const loadOrders = async (customer: Customer, reset: boolean = true) => {
+    if (!currentStore) return
+
+    setLoadingOrders(true)
+    try {
+      const from = reset ? 0 : orders.length
+      const { data, error } = await supabase
+        .from('orders')
+        .select('id, order_number, order_date, total_amount, paid_amount, balance, order_status, payment_status')
+        .eq('store_id', currentStore.id)
+        .eq('customer_id', customer.id)
+        .order('order_date', { ascending: false })
+        .range(from, from + ORDERS_PER_PAGE - 1)
+
+      if (error) throw error
+
+      const loaded: CustomerOrder[] = data || []
+      setHasMoreOrders(loaded.length === ORDERS_PER_PAGE)
+      setOrders(prev => (reset ? loaded : [...prev, ...loaded]))
+    } catch (error: any) {
+      console.error('Error loading customer orders:', error)
+      Alert.alert('Error', 'Failed to load order history')
+    } finally {
+      setLoadingOrders(false)
+    }
+  }
+
+  /**
+   * Other active customers of the store with the same phone number
+   */
+  const findDuplicates = async (phone: string | null, excludeId: string | null): Promise<Customer[]> => {
+    const phoneKey = getPhoneKey(phone)
+    if (!currentStore || !phoneKey) return []
+
+    let query = supabase
+      .from('customers')
+      .select('*')
+      .eq('store_id', currentStore.id)
+      .eq('phone_key', phoneKey)
+      .eq('is_active', true)
+
+    if (excludeId) {
+      query = query.neq('id', excludeId)
+    }
+
+    const { data, error } = await query
+    if (error) {
+      console.error('Error checking duplicate customers:', error)
+      return []
+    }
+    return data || []
+  }
+
+  const openDetails = async (customer: Customer) => {
+    setSelectedCustomer(customer)
+    setOrders([])
+    setDuplicates([])
+    loadOrders(customer)
+    if (customer.is_active) {
+      setDuplicates(await findDuplicates(customer.phone, customer.id))
+    }
+  }
+
+  const closeDetails = () => {
+    setSelectedCustomer(null)
+    setOrders([])
+    setDuplicates([])
+  }
+
+  /**
+   * Reload a customer after a change and refresh it in the list and details
+   */
+  const refreshCustomer = async (customerId: string) => {
+    const { data, error } = await supabase
+      .from('customers')
+      .select('*')
+      .eq('id', customerId)
+      .single()
+
+    if (error || !data) return
+
+    setCustomers(prev => prev.map(c => (c.id === customerId ? data : c)))
+    if (selectedCustomer?.id === customerId) {
+      setSelectedCustomer(data)
+    }
+    await loadStats([customerId], false)
+  }
+
+  const openEditModal = (customer: Customer | null) => {
+    setEditingCustomer(customer)
+    setForm({
+      first_name: customer?.first_name || '',
+      last_name: customer?.last_name || '',
+      phone: customer?.phone || '',
+      email: customer?.email || '',
+      address: customer?.address || '',
+      tags: (customer?.tags || []).join(', '),
+      notes: customer?.notes || '',
+    })
+    setShowEditModal(true)
+  }
+
+  const handleSave = async () => {
+    if (!form.first_name.trim() || !form.last_name.trim()) {
+      Alert.alert('Validation Error', 'First name and last name are required')
+      return
+    }
+
+    if (!currentStore) {
+      Alert.alert('Error', 'No store selected')
+      return
+    }
+
+    // Warn before saving a phone number another customer already uses
+    const phoneChanged = getPhoneKey(form.phone) !== getPhoneKey(editingCustomer?.phone)
+    if (phoneChanged) {
+      const matches = await findDuplicates(form.phone, editingCustomer?.id || null)
+      if (matches.length > 0) {
+        const names = matches.map(c => `${c.first_name} ${c.last_name} (${c.customer_number})`).join('\n')
+        Alert.alert(
+          'Possible Duplicate',
+          `This phone number is already used by:\n${names}\n\nSave anyway? You can merge the customers from their details.`,
+          [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Save Anyway', onPress: () => saveCustomer() },
+          ]
+        )
+        return
+      }
+    }
+
+    await saveCustomer()
+  }
+
+  const saveCustomer = async () => {
+    if (!currentStore) return
+
+    setSaving(true)
+    try {
+      const customerData = {
+        first_name: form.first_name.trim(),
+        last_name: form.last_name.trim(),
+        phone: form.phone.trim() || null,
+        email: form.email.trim() || null,
+        address: form.address.trim() || null,
+        tags: parseTags(form.tags),
+        notes: form.notes.trim() || null,
+      }
+
+      if (editingCustomer) {
+        const { error } = await supabase
+          .from('customers')
+          .update(customerData)
+          .eq('id', editingCustomer.id)
+          .eq('store_id', currentStore.id)
+
+        if (error) throw error
+
+        await refreshCustomer(editingCustomer.id)
+        Alert.alert('Success', 'Customer updated successfully')
+      } else {
+        const { data: { user } } = await supabase.auth.getUser()
+        const { data, error } = await supabase
+          .from('customers')
+          .insert({
+            ...customerData,
+            store_id: currentStore.id,
+            created_by: user?.id,
+          })
+          .select()
+          .single()
+
+        if (error) throw error
+
+        await loadCustomers(true)
+        Alert.alert('Success', `Customer ${data.customer_number} created successfully`)
+      }
+
+      setShowEditModal(false)
+      setEditingCustomer(null)
+    } catch (error: any) {
+      console.error('Error saving customer:', error)
+      Alert.alert('Error', `Failed to save customer: ${error.message}`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggleActive = (customer: Customer) => {
+    const deactivating = customer.is_active
+    Alert.alert(
+      deactivating ? 'Deactivate Customer' : 'Reactivate Customer',
+      deactivating
+        ? `${customer.first_name} ${customer.last_name} will no longer appear in the POS. Their orders are kept.`
+        : `${customer.first_name} ${customer.last_name} will appear in the POS again.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: deactivating ? 'Deactivate' : 'Reactivate',
+          style: deactivating ? 'destructive' : 'default',
+          onPress: async () => {
+            try {
+              const { error } = await supabase
+                .from('customers')
+                .update({ is_active: !deactivating })
+                .eq('id', customer.id)
+                .eq('store_id', customer.store_id)
+
+              if (error) throw error
+
+              // The customer moves to the other list
+              setCustomers(prev => prev.filter(c => c.id !== customer.id))
+              closeDetails()
+            } catch (error: any) {
+              console.error('Error updating customer status:', error)
+              Alert.alert('Error', `Failed to update customer: ${error.message}`)
+            }
+          },
+        },
+      ]
+    )
+  }
+
+  const handleMerge = (duplicate: Customer) => {
+    if (!selectedCustomer) return
+    const target = selectedCustomer
+
+    Alert.alert(
+      'Merge Customers',
+      `Move all orders${loyaltyEnabled ? ' and loyalty points' : ''} of ${duplicate.first_name} ${duplicate.last_name} (${duplicate.customer_number}) to ${target.first_name} ${target.last_name} (${target.customer_number})?\n\n${duplicate.customer_number} will be deactivated. This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Merge',
+          style: 'destructive',
+          onPress: async () => {
+            setMerging(true)
+            try {
+              const { data: movedOrders, error } = await supabase.rpc('merge_customers', {
+                p_source_id: duplicate.id,
+                p_target_id: target.id,
+              })
+
+              if (error) throw error
+
+              console.log(`✅ Merged ${duplicate.customer_number} into ${target.customer_number}`)
+              setCustomers(prev => prev.filter(c => c.id !== duplicate.id))
+              setDuplicates(prev => prev.filter(c => c.id !== duplicate.id))
+              await refreshCustomer(target.id)
+              await loadOrders(target)
+              Alert.alert('Customers Merged', `${movedOrders || 0} order(s) moved to ${target.customer_number}`)
+            } catch (error: any) {
+              console.error('Error merging customers:', error)
+              Alert.alert('Error', `Failed to merge customers: ${error.message}`)
+            } finally {
+              setMerging(false)
+            }
+          },
+        },
+      ]
+    )
+  }
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    })
+  }
+
+  const formatStatusText = (status: string) => {
+    return status.replace('_', ' ').replace(/\b\w/g, letter => letter.toUpperCase())
+  }
+
+  const renderTags = (tags: string[]) => {
+    if (!tags || tags.length === 0) return null
+    return (
+      <View style={styles.tagsRow}>
+        {tags.map(tag => (
+          <View key={tag} style={styles.tagChip}>
+            <Text style={styles.tagText}>{tag}</Text>
+          </View>
+        ))}
+      </View>
+    )
+  }
+
+  const renderCustomer = ({ item }: { item: Customer }) => {
+    const customerStats = stats[item.id]
+    return (
+      <TouchableOpacity style={styles.customerCard} onPress={() => openDetails(item)}>
+        <View style={styles.customerHeader}>
+          <View style={styles.customerIcon}>
+            <Ionicons name="person" size={22} color="#3b82f6" />
+          </View>
+          <View style={styles.customerInfo}>
+            <Text style={styles.customerName}>{item.first_name} {item.last_name}</Text>
+            <Text style={styles.customerMeta}>
+              {item.customer_number}{item.phone ? ` • ${item.phone}` : ''}
+            </Text>
+          </View>
+          <Ionicons name="chevron-forward" size={20} color="#d1d5db" />
+        </View>
+        {renderTags(item.tags)}
+        <View style={styles.statsRow}>
+          <Text style={styles.statText}>{customerStats?.visit_count || 0} visits</Text>
+          <Text style={styles.statText}>₱{Number(customerStats?.lifetime_spend || 0).toFixed(2)}</Text>
+          {Number(customerStats?.outstanding_balance || 0) > 0 && (
+            <Text style={[styles.statText, styles.balanceText]}>
+              Due ₱{Number(customerStats?.outstanding_balance || 0).toFixed(2)}
+            </Text>
+          )}
+          {loyaltyEnabled && <Text style={styles.statText}>{item.loyalty_points || 0} pts</Text>}
+        </View>
+      </TouchableOpacity>
+    )
+  }
+
+  const renderEditModal = () => (
+    <Modal visible={showEditModal} animationType="slide" transparent={false}>
+      <KeyboardAvoidingView
+        style={{ flex: 1 }}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        <View style={styles.fullModalContainer}>
+          <View style={styles.fullModalHeader}>
+            <Text style={styles.fullModalTitle}>{editingCustomer ? 'Edit Customer' : 'New Customer'}</Text>
+            <TouchableOpacity onPress={() => {
+              setShowEditModal(false)
+              setEditingCustomer(null)
+            }}>
+              <Ionicons name="close" size={28} color="#6b7280" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView
+            style={styles.fullModalBody}
+            contentContainerStyle={styles.fullModalBodyContent}
+            keyboardShouldPersistTaps="handled"
+          >
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>First Name *</Text>
+              <TextInput
+                style={styles.input}
+                value={form.first_name}
+                onChangeText={(text) => setForm({ ...form, first_name: text })}
+                placeholder="First name"
+              />
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>Last Name *</Text>
+              <TextInput
+                style={styles.input}
+                value={form.last_name}
+                onChangeText={(text) => setForm({ ...form, last_name: text })}
+                placeholder="Last name"
+              />
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>Phone</Text>
+              <TextInput
+                style={styles.input}
+                value={form.phone}
+                onChangeText={(text) => setForm({ ...form, phone: text })}
+                placeholder="e.g., 09171234567"
+                keyboardType="phone-pad"
+              />
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>Email</Text>
+              <TextInput
+                style={styles.input}
+                value={form.email}
+                onChangeText={(text) => setForm({ ...form, email: text })}
+                placeholder="name@example.com"
+                keyboardType="email-address"
+                autoCapitalize="none"
+              />
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>Address</Text>
+              <TextInput
+                style={[styles.input, styles.textArea]}
+                value={form.address}
+                onChangeText={(text) => setForm({ ...form, address: text })}
+                placeholder="Address"
+                multiline
+              />
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>Tags</Text>
+              <TextInput
+                style={styles.input}
+                value={form.tags}
+                onChangeText={(text) => setForm({ ...form, tags: text })}
+                placeholder="e.g., VIP, Corporate"
+              />
+              <Text style={styles.inputHint}>Separate tags with commas</Text>
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>Notes</Text>
+              <TextInput
+                style={[styles.input, styles.textArea]}
+                value={form.notes}
+                onChangeText={(text) => setForm({ ...form, notes: text })}
+                placeholder="e.g., Prefers unscented detergent"
+                multiline
+              />
+            </View>
+
+            <TouchableOpacity
+              style={[styles.saveButton, saving && { opacity: 0.6 }]}
+              onPress={handleSave}
+              disabled={saving}
+            >
+              {saving ? (
+                <ActivityIndicator size="small" color="#ffffff" />
+              ) : (
+                <Text style={styles.saveButtonText}>{editingCustomer ? 'Save Changes' : 'Add Customer'}</Text>
+              )}
+            </TouchableOpacity>
+          </ScrollView>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  )
+
+  if (loading && customers.length === 0) {
+    return (
+      <View style={styles.centerContainer}>
+        <ActivityIndicator size="large" color="#3b82f6" />
+        <Text style={styles.loadingText}>Loading customers...</Text>
+      </View>
+    )
+  }
+
+  const selectedStats = selectedCustomer ? stats[selectedCustomer.id] : undefined
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Text style={styles.title}>Customers</Text>
+        <TouchableOpacity style={styles.addButton} onPress={() => openEditModal(null)}>
+          <Ionicons name="add-circle" size={28} color="#3b82f6" />
+        </TouchableOpacity>
+      </View>
+
+      {/* Search */}
+      <View style={styles.searchContainer}>
+        <Ionicons name="search" size={20} color="#9ca3af" />
+        <TextInput
+          style={styles.searchInput}
+          placeholder="Search name, phone, email or number..."
+          value={searchQuery}
+          onChangeText={setSearchQuery}
+          autoCapitalize="none"
+        />
+      </View>
+
+      {/* Active / Inactive */}
+      <View style={styles.filterRow}>
+        {[false, true].map(inactive => (
+          <TouchableOpacity
+            key={inactive ? 'inactive' : 'active'}
+            style={[styles.filterChip, showInactive === inactive && styles.filterChipActive]}
+            onPress={() => setShowInactive(inactive)}
+          >
+            <Text style={[styles.filterChipText, showInactive === inactive && styles.filterChipTextActive]}>
+              {inactive ? 'Inactive' : 'Active'}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {/* Customer List */}
+      <FlatList
+        data={customers}
+        renderItem={renderCustomer}
+        keyExtractor={item => item.id}
+        contentContainerStyle={styles.listContainer}
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.3}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
+        }
+        ListFooterComponent={
+          loadingMore ? <ActivityIndicator size="small" color="#3b82f6" style={{ marginVertical: 16 }} /> : null
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Ionicons name="people-outline" size={64} color="#d1d5db" />
+            <Text style={styles.emptyText}>
+              {searchQuery.trim().length >= 2 ? 'No customers found' : showInactive ? 'No inactive customers' : 'No customers yet'}
+            </Text>
+            {!showInactive && <Text style={styles.emptySubtext}>Tap + to add a customer</Text>}
+          </View>
+        }
+      />
+
+      {/* Customer Details Modal */}
+      <Modal
+        visible={!!selectedCustomer}
+        animationType="slide"
+        transparent={false}
+        onRequestClose={closeDetails}
+      >
+        {selectedCustomer && (
+          <View style={styles.fullModalContainer}>
+            <View style={styles.fullModalHeader}>
+              <Text style={styles.fullModalTitle}>Customer Details</Text>
+              <TouchableOpacity onPress={closeDetails}>
+                <Ionicons name="close" size={28} color="#6b7280" />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.fullModalBody} contentContainerStyle={styles.fullModalBodyContent}>
+              {/* Profile */}
+              <View style={styles.detailSection}>
+                <Text style={styles.detailName}>{selectedCustomer.first_name} {selectedCustomer.last_name}</Text>
+                <Text style={styles.customerMeta}>{selectedCustomer.customer_number}</Text>
+                {!selectedCustomer.is_active && (
+                  <Text style={styles.inactiveText}>
+                    {selectedCustomer.merged_into_id ? 'Merged into another customer' : 'Inactive'}
+                  </Text>
+                )}
+                {selectedCustomer.phone && (
+                  <View style={styles.contactRow}>
+                    <Ionicons name="call-outline" size={16} color="#6b7280" />
+                    <Text style={styles.contactText}>{selectedCustomer.phone}</Text>
+                  </View>
+                )}
+                {selectedCustomer.email && (
+                  <View style={styles.contactRow}>
+                    <Ionicons name="mail-outline" size={16} color="#6b7280" />
+                    <Text style={styles.contactText}>{selectedCustomer.email}</Text>
+                  </View>
+                )}
+                {selectedCustomer.address && (
+                  <View style={styles.contactRow}>
+                    <Ionicons name="location-outline" size={16} color="#6b7280" />
+                    <Text style={styles.contactText}>{selectedCustomer.address}</Text>
+                  </View>
+                )}
+                {renderTags(selectedCustomer.tags)}
+                {selectedCustomer.notes && (
+                  <Text style={styles.notesText}>{selectedCustomer.notes}</Text>
+                )}
+              </View>
+
+              {/* Stats */}
+              <View style={styles.statsGrid}>
+                <View style={styles.statCard}>
+                  <Text style={styles.statValue}>{selectedStats?.visit_count || 0}</Text>
+                  <Text style={styles.statLabel}>Visits</Text>
+                </View>
+                <View style={styles.statCard}>
+                  <Text style={styles.statValue}>₱{Number(selectedStats?.lifetime_spend || 0).toFixed(2)}</Text>
+                  <Text style={styles.statLabel}>Lifetime Spend</Text>
+                </View>
+                <View style={styles.statCard}>
+                  <Text style={[styles.statValue, Number(selectedStats?.outstanding_balance || 0) > 0 && styles.balanceText]}>
+                    ₱{Number(selectedStats?.outstanding_balance || 0).toFixed(2)}
+                  </Text>
+                  <Text style={styles.statLabel}>Outstanding</Text>
+                </View>
+                {loyaltyEnabled && (
+                  <TouchableOpacity style={styles.statCard} onPress={() => setShowLoyaltyHistory(true)}>
+                    <Text style={styles.statValue}>{selectedCustomer.loyalty_points || 0}</Text>
+                    <Text style={styles.statLabel}>Points • History</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+              {selectedStats?.last_order_date && (
+                <Text style={styles.lastVisitText}>Last visit: {formatDate(selectedStats.last_order_date)}</Text>
+              )}
+
+              {/* Actions */}
+              <View style={styles.detailActions}>
+                <TouchableOpacity
+                  style={[styles.actionButton, styles.editButton]}
+                  onPress={() => openEditModal(selectedCustomer)}
+                >
+                  <Ionicons name="create-outline" size={16} color="#3b82f6" />
+                  <Text style={styles.editButtonText}>Edit</Text>
+                </TouchableOpacity>
+                {!selectedCustomer.merged_into_id && (
+                  <TouchableOpacity
+                    style={[styles.actionButton, selectedCustomer.is_active ? styles.deleteButton : styles.activateButton]}
+                    onPress={() => handleToggleActive(selectedCustomer)}
+                  >
+                    <Ionicons
+                      name={selectedCustomer.is_active ? 'person-remove-outline' : 'person-add-outline'}
+                      size={16}
+                      color={selectedCustomer.is_active ? '#ef4444' : '#10b981'}
+                    />
+                    <Text style={selectedCustomer.is_active ? styles.deleteButtonText : styles.activateButtonText}>
+                      {selectedCustomer.is_active ? 'Deactivate' : 'Reactivate'}
+                    </Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+
+              {/* Duplicates */}
+              {duplicates.length > 0 && (
+                <View style={styles.duplicatesSection}>
+                  <View style={styles.sectionHeaderRow}>
+                    <Ionicons name="warning-outline" size={18} color="#d97706" />
+                    <Text style={styles.duplicatesTitle}>Possible Duplicates</Text>
+                  </View>
+                  <Text style={styles.duplicatesHint}>Other customers with the same phone number</Text>
+                  {duplicates.map(duplicate => (
+                    <View key={duplicate.id} style={styles.duplicateRow}>
+                      <View style={{ flex: 1 }}>
+                        <Text style={styles.duplicateName}>{duplicate.first_name} {duplicate.last_name}</Text>
+                        <Text style={styles.customerMeta}>{duplicate.customer_number} • {duplicate.phone}</Text>
+                      </View>
+                      <TouchableOpacity
+                        style={styles.mergeButton}
+                        onPress={() => handleMerge(duplicate)}
+                        disabled={merging}
+                      >
+                        {merging ? (
+                          <ActivityIndicator size="small" color="#ffffff" />
+                        ) : (
+                          <Text style={styles.mergeButtonText}>Merge Here</Text>
+                        )}
+                      </TouchableOpacity>
+                    </View>
+                  ))}
+                </View>
+              )}
+
+              {/* Order History */}
+              <Text style={styles.sectionTitle}>Order History</Text>
+              {orders.length === 0 && !loadingOrders ? (
+                <Text style={styles.emptySubtext}>No orders yet</Text>
+              ) : (
+                orders.map(order => (
+                  <View key={order.id} style={styles.orderRow}>
+                    <View style={{ flex: 1 }}>
+                      <Text style={styles.orderNumber}>{order.order_number}</Text>
+                      <Text style={styles.customerMeta}>{formatDate(order.order_date)}</Text>
+                    </View>
+                    <View style={{ alignItems: 'flex-end' }}>
+                      <Text style={styles.orderAmount}>₱{Number(order.total_amount).toFixed(2)}</Text>
+                      <Text style={[styles.orderStatus, { color: orderStatusColors[order.order_status] || '#6b7280' }]}>
+                        {formatStatusText(order.order_status)}
+                        {order.balance > 0 && order.order_status !== 'cancelled' ? ` • Due ₱${Number(order.balance).toFixed(2)}` : ''}
+                      </Text>
+                    </View>
+                  </View>
+                ))
+              )}
+              {loadingOrders && <ActivityIndicator size="small" color="#3b82f6" style={{ marginVertical: 16 }} />}
+              {hasMoreOrders && !loadingOrders && (
+                <TouchableOpacity style={styles.loadMoreButton} onPress={() => loadOrders(selectedCustomer, false)}>
+                  <Text style={styles.loadMoreText}>Load More Orders</Text>
+                </TouchableOpacity>
+              )}
+            </ScrollView>
+
+            {currentStore && (
+              <LoyaltyHistoryModal
+                visible={showLoyaltyHistory}
+                storeId={currentStore.id}
+                customerId={selectedCustomer.id}
+                customerName={`${selectedCustomer.first_name} ${selectedCustomer.last_name}`.trim()}
+                balance={selectedCustomer.loyalty_points || 0}
+                onClose={() => setShowLoyaltyHistory(false)}
+              />
+            )}
+
+            {/* Edit Customer Modal (inside the details modal so it opens on top) */}
+            {renderEditModal()}
+          </View>
+        )}
+      </Modal>
+
+      {/* Add Customer Modal */}
+      {!selectedCustomer && renderEditModal()}
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#6b7280',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    backgroundColor: '#ffffff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  addButton: {
+    padding: 4,
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#ffffff',
+    marginHorizontal: 16,
+    marginTop: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  searchInput: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 16,
+    color: '#111827',
+  },
+  filterRow: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  filterChip: {
+    paddingHorizontal: 16,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f3f4f6',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  filterChipActive: {
+    backgroundColor: '#dbeafe',
+    borderColor: '#3b82f6',
+  },
+  filterChipText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#6b7280',
+  },
+  filterChipTextActive: {
+    color: '#3b82f6',
+    fontWeight: '600',
+  },
+  listContainer: {
+    padding: 16,
+  },
+  customerCard: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  customerHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  customerIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#eff6ff',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  customerInfo: {
+    flex: 1,
+  },
+  customerName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  customerMeta: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  tagsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 8,
+  },
+  tagChip: {
+    backgroundColor: '#ede9fe',
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 3,
+  },
+  tagText: {
+    fontSize: 12,
+    color: '#6d28d9',
+    fontWeight: '500',
+  },
+  statsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginTop: 10,
+  },
+  statText: {
+    fontSize: 13,
+    color: '#374151',
+  },
+  balanceText: {
+    color: '#ef4444',
+    fontWeight: '600',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 48,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#6b7280',
+    marginTop: 16,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#9ca3af',
+    marginTop: 4,
+  },
+  fullModalContainer: {
+    flex: 1,
+    backgroundColor: '#ffffff',
+  },
+  fullModalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    paddingTop: Platform.OS === 'ios' ? 50 : 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  fullModalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  fullModalBody: {
+    flex: 1,
+  },
+  fullModalBodyContent: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  detailSection: {
+    marginBottom: 16,
+  },
+  detailName: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  inactiveText: {
+    fontSize: 13,
+    color: '#ef4444',
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  contactRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 8,
+  },
+  contactText: {
+    fontSize: 14,
+    color: '#374151',
+    flex: 1,
+  },
+  notesText: {
+    fontSize: 14,
+    color: '#4b5563',
+    fontStyle: 'italic',
+    marginTop: 10,
+  },
+  statsGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  statCard: {
+    flexGrow: 1,
+    flexBasis: '45%',
+    backgroundColor: '#f9fafb',
+    borderRadius: 8,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  statValue: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  statLabel: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  lastVisitText: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 8,
+  },
+  detailActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 16,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    gap: 4,
+  },
+  editButton: {
+    backgroundColor: '#eff6ff',
+  },
+  editButtonText: {
+    color: '#3b82f6',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  deleteButton: {
+    backgroundColor: '#fee2e2',
+  },
+  deleteButtonText: {
+    color: '#ef4444',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  activateButton: {
+    backgroundColor: '#d1fae5',
+  },
+  activateButtonText: {
+    color: '#10b981',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  duplicatesSection: {
+    backgroundColor: '#fffbeb',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#fde68a',
+    padding: 12,
+    marginTop: 16,
+  },
+  sectionHeaderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  duplicatesTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#92400e',
+  },
+  duplicatesHint: {
+    fontSize: 12,
+    color: '#92400e',
+    marginTop: 2,
+    marginBottom: 8,
+  },
+  duplicateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#fde68a',
+  },
+  duplicateName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  mergeButton: {
+    backgroundColor: '#d97706',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    minWidth: 96,
+    alignItems: 'center',
+  },
+  mergeButtonText: {
+    color: '#ffffff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+    marginTop: 24,
+    marginBottom: 8,
+  },
+  orderRow: {
+    flexDirection: 'row',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+  orderNumber: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  orderAmount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  orderStatus: {
+    fontSize: 12,
+    fontWeight: '500',
+    marginTop: 2,
+  },
+  loadMoreButton: {
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  loadMoreText: {
+    fontSize: 14,
+    color: '#3b82f6',
+    fontWeight: '600',
+  },
+  inputGroup: {
+    marginBottom: 12,
+  },
+  inputLabel: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#6b7280',
+    marginBottom: 4,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  input: {
+    backgroundColor: '#f9fafb',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+  },
+  inputHint: {
+    fontSize: 11,
+    color: '#6b7280',
+    marginTop: 4,
+    fontStyle: 'italic',
+  },
+  textArea: {
+    height: 80,
+    textAlignVertical: 'top',
+  },
+  saveButton: {
+    backgroundColor: '#3b82f6',
+    borderRadius: 8,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  saveButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+})
+
+export default CustomersScreen
@@ -3,6 +3,8 @@ import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Modal, ActivityIn
 import { Ionicons } from '@expo/vector-icons'
 import { supabase } from '../../lib/supabase'
 import { useStore } from '../context/StoreContext'
+import CashDrawerService from '../services/CashDrawerService'
+import { CashDrawerShift, ShiftSummary } from '../types/shift'
 
 interface DashboardMetrics {
   totalSales: number
@@ -31,6 +33,8 @@ const DashboardScreen: React.FC = () => {
   })
   const [loading, setLoading] = useState(true)
   const [refreshing, setRefreshing] = useState(false)
+  const [shift, setShift] = useState<CashDrawerShift | null>(null)
+  const [shiftSummary, setShiftSummary] = useState<ShiftSummary | null>(null)
 
   useEffect(() => {
     if (currentStore) {
@@ -68,14 +72,16 @@ const DashboardScreen: React.FC = () => {
       if (customersError) throw customersError
 
       // Calculate metrics
-      const totalSales = orders?.reduce((sum, order) => sum + Number(order.paid_amount), 0) || 0
-      const totalOrders = orders?.length || 0
+      // Cancelled orders are kept in the orders table but are not sales
+      const salesOrders = orders?.filter(o => o.order_status !== 'cancelled') || []
+      const totalSales = salesOrders.reduce((sum, order) => sum + Number(order.paid_amount), 0)
+      const totalOrders = salesOrders.length
       const activeOrders = orders?.filter(o => o.order_status !== 'completed' && o.order_status !== 'cancelled').length || 0
       const pendingPickups = orders?.filter(o => o.order_status === 'ready').length || 0
 
-      const paidInFull = orders?.filter(o => o.payment_status === 'paid') || []
-      const partial = orders?.filter(o => o.payment_status === 'partial') || []
-      const payLater = orders?.filter(o => o.payment_status === 'unpaid') || []
+      const paidInFull = salesOrders.filter(o => o.payment_status === 'paid')
+      const partial = salesOrders.filter(o => o.payment_status === 'partial')
+      const payLater = salesOrders.filter(o => o.payment_status === 'unpaid')
 
       setMetrics({
         totalSales,
@@ -101,6 +107,24 @@ const DashboardScreen: React.FC = () => {
     } finally {
       setLoading(false)
     }
+
+    loadShift()
+  }
+
+  // The signed-in cashier's open shift, if any
+  const loadShift = async () => {
+    if (!currentStore) return
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session?.user) return
+
+      const openShift = await CashDrawerService.getOpenShift(currentStore.id, session.user.id)
+      setShift(openShift)
+      setShiftSummary(openShift ? await CashDrawerService.getSummary(openShift.id) : null)
+    } catch (error: any) {
+      console.error('Error loading cash drawer shift:', error)
+    }
   }
 
   const onRefresh = async () => {
@@ -244,6 +268,33 @@ const DashboardScreen: React.FC = () => {
         </View>
       </View>
 
+      {/* Cash Drawer Shift */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>My Shift</Text>
+        <View style={styles.statusCard}>
+          {shift && shiftSummary ? (
+            <>
+              <View style={styles.statusRow}>
+                <Text style={styles.statusLabel}>Opened</Text>
+                <Text style={styles.statusValue}>{new Date(shift.opened_at).toLocaleTimeString()}</Text>
+              </View>
+              <View style={styles.statusRow}>
+                <Text style={styles.statusLabel}>Payments Received</Text>
+                <Text style={styles.statusValue}>
+                  ₱{shiftSummary.payments.reduce((sum, payment) => sum + Number(payment.amount), 0).toFixed(2)}
+                </Text>
+              </View>
+              <View style={styles.statusRow}>
+                <Text style={styles.statusLabel}>Expected Cash in Drawer</Text>
+                <Text style={styles.statusValue}>₱{Number(shiftSummary.expected_cash).toFixed(2)}</Text>
+              </View>
+            </>
+          ) : (
+            <Text style={styles.statusLabel}>No open shift. Open one in Settings → Cash Drawer.</Text>
+          )}
+        </View>
+      </View>
+
       {/* Payment Overview */}
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Payment Breakdown</Text>
@@ -41,6 +41,9 @@ interface InventoryTransaction {
   created_at: string
 }
 
+// Number of days of usage history used to project days of stock
+const CONSUMPTION_WINDOW_DAYS = 30
+
 const InventoryScreen: React.FC = () => {
   const { currentStore } = useStore()
   const [items, setItems] = useState<InventoryItem[]>([])
@@ -58,6 +61,7 @@ const InventoryScreen: React.FC = () => {
   // Selected item
   const [selectedItem, setSelectedItem] = useState<InventoryItem | null>(null)
   const [itemHistory, setItemHistory] = useState<InventoryTransaction[]>([])
+  const [dailyUsage, setDailyUsage] = useState<Record<string, number>>({})
   
   // Form states
   const [newItem, setNewItem] = useState({
@@ -99,6 +103,7 @@ const InventoryScreen: React.FC = () => {
 
       if (error) throw error
       setItems(data || [])
+      await loadConsumption()
     } catch (error: any) {
       console.error('Error loading inventory:', error)
       Alert.alert('Error', 'Failed to load inventory')
@@ -107,6 +112,51 @@ const InventoryScreen: React.FC = () => {
     }
   }
 
+  /**
+   * Average daily usage per item over the last CONSUMPTION_WINDOW_DAYS,
+   * from sales and service supply usage less stock returned by cancelled orders
+   */
+  const loadConsumption = async () => {
+    if (!currentStore) return
+
+    const { data, error } = await supabase.rpc('get_inventory_consumption', {
+      p_store_id: currentStore.id,
+      p_days: CONSUMPTION_WINDOW_DAYS,
+    })
+
+    if (error) {
+      console.error('Error loading consumption:', error)
+      return
+    }
+
+    const usage: Record<string, number> = {}
+    for (const row of (data || []) as Array<{ inventory_item_id: string; quantity: number }>) {
+      usage[row.inventory_item_id] = Number(row.quantity) / CONSUMPTION_WINDOW_DAYS
+    }
+    setDailyUsage(usage)
+  }
+
+  /**
+   * Projected days until the item runs out at the recent usage rate
+   * @returns null when there is no recent usage to project from
+   */
+  const getDaysOfStock = (item: InventoryItem): number | null => {
+    const perDay = dailyUsage[item.id]
+    if (!perDay) return null
+    return Math.max(0, Math.floor(item.current_stock / perDay))
+  }
+
+  const formatDaysOfStock = (item: InventoryItem): string => {
+    const days = getDaysOfStock(item)
+    if (days === null) return 'No recent usage'
+    return `~${days} day${days === 1 ? '' : 's'}`
+  }
+
+  const isRunningOut = (item: InventoryItem): boolean => {
+    const days = getDaysOfStock(item)
+    return days !== null && days <= 7
+  }
+
   const onRefresh = async () => {
     setRefreshing(true)
     await loadInventory()
@@ -381,6 +431,12 @@ const InventoryScreen: React.FC = () => {
           <Text style={styles.stockLabel}>Reorder Level:</Text>
           <Text style={styles.stockValue}>{item.reorder_point} {item.unit_of_measure}</Text>
         </View>
+        <View style={styles.stockRow}>
+          <Text style={styles.stockLabel}>Days of Stock:</Text>
+          <Text style={[styles.stockValue, isRunningOut(item) && { color: '#ef4444' }]}>
+            {formatDaysOfStock(item)}
+          </Text>
+        </View>
       </View>
 
       <View style={styles.itemActions}>
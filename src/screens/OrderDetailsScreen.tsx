@@ -1,6 +1,8 @@
-import React from 'react'
+import React, { useEffect, useState } from 'react'
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert } from 'react-native'
-import { supabase } from '../../lib/supabase'
+import OrderService from '../services/OrderService'
+import { OrderStatus, OrderStatusHistoryEntry } from '../types/order'
+import { formatDuration, getNextOrderStatus, getOrderTurnaround } from '../utils/orderStatus'
 
 interface OrderDetailsScreenProps {
   order: {
@@ -8,7 +10,10 @@ interface OrderDetailsScreenProps {
     customer_name: string
     created_at: string
     total_amount: number
-    status: string
+    status: OrderStatus
+    in_progress_at?: string | null
+    ready_at?: string | null
+    actual_completion?: string | null
     items: Array<{
       service_name: string
       quantity: number
@@ -19,19 +24,24 @@ interface OrderDetailsScreenProps {
 }
 
 export default function OrderDetailsScreen({ order, onClose }: OrderDetailsScreenProps) {
-  const updateOrderStatus = async (newStatus: string) => {
-    try {
-      const { error } = await supabase
-        .from('orders')
-        .update({ status: newStatus })
-        .eq('id', order.id)
+  const [history, setHistory] = useState<OrderStatusHistoryEntry[]>([])
+  const nextStatus = getNextOrderStatus(order.status)
+  const turnaround = getOrderTurnaround({ ...order, order_date: order.created_at })
+
+  useEffect(() => {
+    OrderService.getStatusHistory(order.id)
+      .then(setHistory)
+      .catch(error => console.error('Error loading order status history:', error))
+  }, [order.id])
 
-      if (error) throw error
+  const updateOrderStatus = async (newStatus: OrderStatus) => {
+    try {
+      await OrderService.setOrderStatus(order.id, newStatus)
 
-      Alert.alert('Success', `Order status updated to ${newStatus}`)
+      Alert.alert('Success', `Order status updated to ${STATUS_LABELS[newStatus]}`)
       onClose()
-    } catch (error) {
-      Alert.alert('Error', 'Failed to update order status')
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to update order status')
     }
   }
 
@@ -67,7 +77,7 @@ export default function OrderDetailsScreen({ order, onClose }: OrderDetailsScree
           <View style={styles.infoRow}>
             <Text style={styles.label}>Status:</Text>
             <Text style={[styles.value, styles.status, { color: getStatusColor(order.status) }]}>
-              {order.status.toUpperCase()}
+              {STATUS_LABELS[order.status].toUpperCase()}
             </Text>
           </View>
         </View>
@@ -96,49 +106,80 @@ export default function OrderDetailsScreen({ order, onClose }: OrderDetailsScree
           </View>
         </View>
 
-        {/* Status Actions */}
-        <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Update Status</Text>
-          <View style={styles.buttonRow}>
-            {order.status === 'pending' && (
-              <TouchableOpacity 
-                style={[styles.statusButton, styles.processingButton]}
-                onPress={() => updateOrderStatus('processing')}
-              >
-                <Text style={styles.buttonText}>Start Processing</Text>
-              </TouchableOpacity>
-            )}
-            
-            {order.status === 'processing' && (
-              <TouchableOpacity 
-                style={[styles.statusButton, styles.readyButton]}
-                onPress={() => updateOrderStatus('ready')}
-              >
-                <Text style={styles.buttonText}>Mark Ready</Text>
-              </TouchableOpacity>
-            )}
-            
-            {order.status === 'ready' && (
-              <TouchableOpacity 
-                style={[styles.statusButton, styles.completedButton]}
-                onPress={() => updateOrderStatus('completed')}
-              >
-                <Text style={styles.buttonText}>Mark Completed</Text>
-              </TouchableOpacity>
+        {/* Timeline */}
+        {history.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Timeline</Text>
+            {history.map(entry => (
+              <View key={entry.id} style={styles.infoRow}>
+                <Text style={styles.label}>{entry.from_status ? STATUS_LABELS[entry.to_status] : 'Received'}</Text>
+                <Text style={styles.value}>{formatDate(entry.changed_at)}</Text>
+              </View>
+            ))}
+            {turnaround.turnaround !== null && (
+              <View style={styles.infoRow}>
+                <Text style={styles.label}>Turnaround:</Text>
+                <Text style={styles.value}>{formatDuration(turnaround.turnaround)}</Text>
+              </View>
             )}
           </View>
-        </View>
+        )}
+
+        {/* Status Actions - only the next step is offered */}
+        {nextStatus && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Update Status</Text>
+            <View style={styles.buttonRow}>
+              {nextStatus === 'in_progress' && (
+                <TouchableOpacity 
+                  style={[styles.statusButton, styles.processingButton]}
+                  onPress={() => updateOrderStatus('in_progress')}
+                >
+                  <Text style={styles.buttonText}>Start Processing</Text>
+                </TouchableOpacity>
+              )}
+              
+              {nextStatus === 'ready' && (
+                <TouchableOpacity 
+                  style={[styles.statusButton, styles.readyButton]}
+                  onPress={() => updateOrderStatus('ready')}
+                >
+                  <Text style={styles.buttonText}>Mark Ready</Text>
+                </TouchableOpacity>
+              )}
+              
+              {nextStatus === 'completed' && (
+                <TouchableOpacity 
+                  style={[styles.statusButton, styles.completedButton]}
+                  onPress={() => updateOrderStatus('completed')}
+                >
+                  <Text style={styles.buttonText}>Mark Completed</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+        )}
       </View>
     </ScrollView>
   )
 }
 
-const getStatusColor = (status: string) => {
+const STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: 'Pending',
+  in_progress: 'In Progress',
+  ready: 'Ready',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  abandoned: 'Abandoned',
+}
+
+const getStatusColor = (status: OrderStatus) => {
   switch (status) {
     case 'pending': return '#ffc107'
-    case 'processing': return '#17a2b8'
+    case 'in_progress': return '#17a2b8'
     case 'ready': return '#28a745'
     case 'completed': return '#6c757d'
+    case 'cancelled': return '#dc3545'
     default: return '#6c757d'
   }
 }
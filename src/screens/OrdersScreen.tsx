@@ -4,12 +4,48 @@ import { Ionicons } from '@expo/vector-icons'
 import { useSafeAreaInsets } from 'react-native-safe-area-context'
 import { supabase } from '../../lib/supabase'
 import { useStore } from '../context/StoreContext'
-import ThermalPrinterService from '../services/ThermalPrinterService'
 import SMSService from '../services/SMSService'
 import QRCodeDisplay from '../components/QRCodeDisplay'
 import QRScanner from '../components/QRScanner'
 import { useNotifications } from '../context/NotificationContext'
 import { PaymentMethod } from '../types/paymentMethod'
+import OfflineQueueService from '../services/OfflineQueueService'
+import SyncStatusBanner from '../components/SyncStatusBanner'
+import { isNetworkError } from '../utils/network'
+import { PricingMode } from '../types/servicePricing'
+import { formatItemQuantity, getPriceUnitLabel } from '../utils/servicePricing'
+import { OrderAdjustment } from '../types/pricingRule'
+import { summarizeDiscounts } from '../utils/pricingRules'
+import { SeniorPwdType } from '../types/tax'
+import { getOrderTaxBreakdown, getSeniorPwdLabel } from '../utils/tax'
+import { getStoreSetting, isFeatureEnabled } from '../utils/featureFlags'
+import { LOYALTY_PAYMENT_METHOD } from '../utils/loyalty'
+import PaymentService from '../services/PaymentService'
+import SalesReceiptService from '../services/SalesReceiptService'
+import PrintQueueService from '../services/PrintQueueService'
+import { SalesReceipt } from '../types/salesReceipt'
+import { formatReceiptNumber } from '../utils/salesReceipts'
+import { getScannedOrderFilter, parseGarmentTagCode } from '../utils/garmentTags'
+import { PRINT_JOB_STATUSES, describePrintJob } from '../utils/printQueue'
+import OrderService from '../services/OrderService'
+import RefundModal, { RefundTarget } from '../components/RefundModal'
+import ManagerPinModal from '../components/ManagerPinModal'
+import { ManagerApproval } from '../types/voucher'
+import { OrderStatusHistoryEntry } from '../types/order'
+import { PrintHistoryEntry } from '../types/printQueue'
+import { canCancelOrder, canChangeOrderStatus, formatDuration, getNextOrderStatus, getOrderTurnaround } from '../utils/orderStatus'
+import { getTenderRequirement, resolveTenders } from '../utils/payments'
+import { DUE_STATUS_LABELS, OPEN_ORDER_STATUSES, formatPromisedAt, getDueWindow, getOrderDueStatus } from '../utils/dueDates'
+import { SmsEvent } from '../types/sms'
+import {
+  SMS_EVENTS,
+  STATUS_SMS_EVENTS,
+  formatSmsAmount,
+  getOrderSmsValues,
+  getSmsEventsForOrder,
+  getSmsLanguage,
+  isSmsAutoSendEnabled,
+} from '../utils/smsTemplates'
 
 interface OrderItem {
   id: string
@@ -17,6 +53,8 @@ interface OrderItem {
   quantity: number
   unit_price: number
   total_price: number
+  pricing_mode?: PricingMode | null
+  weight?: number | null
 }
 
 interface Payment {
@@ -25,6 +63,10 @@ interface Payment {
   payment_method: string
   payment_date: string
   reference_number: string | null
+  card_number?: string | null
+  is_cancelled?: boolean
+  amount_tendered?: number | null // Cash received
+  change_given?: number | null
 }
 
 interface Order {
@@ -36,23 +78,51 @@ interface Order {
     last_name: string
     phone: string
   } | null
+  subtotal?: number
+  discount?: number
+  tax?: number
+  tax_inclusive?: boolean | null
+  tax_rate?: number | null
+  vatable_sales?: number | null
+  vat_amount?: number | null
+  vat_exempt_sales?: number | null
+  senior_pwd_type?: SeniorPwdType | null
+  senior_pwd_id?: string | null
+  senior_pwd_name?: string | null
   total_amount: number
   paid_amount: number
   balance: number
+  refunded_amount?: number
   payment_status: 'unpaid' | 'partial' | 'paid' | 'refunded'
-  order_status: 'pending' | 'in_progress' | 'ready' | 'completed' | 'cancelled'
+  order_status: 'pending' | 'in_progress' | 'ready' | 'completed' | 'cancelled' | 'abandoned'
   order_date: string
+  promised_at?: string | null
+  bag_count?: number
+  in_progress_at?: string | null
+  ready_at?: string | null
+  actual_completion?: string | null
+  storage_fee?: number
+  abandoned_at?: string | null
+  abandon_notes?: string | null
   notes: string | null
   order_items: OrderItem[]
+  order_adjustments?: OrderAdjustment[]
   payments: Payment[]
-  cancellation_reason?: string
-  cancelled_at?: string
+  cancellation_reason?: string | null
+  cancellation_notes?: string | null
+  cancelled_at?: string | null
+  cancelled_order_id?: string // cancelled_orders record, for refunds
+  refund_required?: boolean
+  refund_amount?: number
+  refund_status?: string
   store_id?: string
 }
 
-type OrderFilter = 'all' | 'pending' | 'in_progress' | 'ready' | 'completed' | 'cancelled'
+type OrderFilter = 'all' | 'pending' | 'in_progress' | 'ready' | 'completed' | 'cancelled' | 'abandoned'
 type PaymentFilter = 'all' | 'unpaid' | 'partial' | 'paid'
 type DateFilter = 'all_time' | 'this_month' | 'this_week' | 'this_day' | 'custom'
+type DueFilter = 'all' | 'overdue' | 'due_today' | 'due_tomorrow'
+type OrderSort = 'newest' | 'due_date'
 
 export default function OrdersScreen() {
   const { currentStore } = useStore()
@@ -69,6 +139,8 @@ export default function OrdersScreen() {
   const [orderFilter, setOrderFilter] = useState<OrderFilter>('pending')
   const [paymentFilter, setPaymentFilter] = useState<PaymentFilter>('all')
   const [dateFilter, setDateFilter] = useState<DateFilter>('all_time')
+  const [dueFilter, setDueFilter] = useState<DueFilter>('all')
+  const [orderSort, setOrderSort] = useState<OrderSort>('newest')
   const [searchQuery, setSearchQuery] = useState('')
   
   // Custom date range
@@ -81,16 +153,24 @@ export default function OrdersScreen() {
   // Selected order details
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null)
   const [showOrderDetails, setShowOrderDetails] = useState(false)
+  const [statusHistory, setStatusHistory] = useState<OrderStatusHistoryEntry[]>([])
+  const [historyUserNames, setHistoryUserNames] = useState<Record<string, string>>({})
+  const [printHistory, setPrintHistory] = useState<PrintHistoryEntry[]>([])
+  const [printUserNames, setPrintUserNames] = useState<Record<string, string>>({})
   
   // Payment modal
   const [showPaymentModal, setShowPaymentModal] = useState(false)
   const [paymentAmount, setPaymentAmount] = useState('')
   const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([])
   const [selectedPaymentMethodId, setSelectedPaymentMethodId] = useState<string | null>(null)
+  const [paymentCardNumber, setPaymentCardNumber] = useState('')
+  const [paymentReference, setPaymentReference] = useState('')
+  const [recordingPayment, setRecordingPayment] = useState(false)
+  const [refundTarget, setRefundTarget] = useState<RefundTarget | null>(null)
   
   // Print functionality
-  const [printerService] = useState(ThermalPrinterService.getInstance())
   const [showQRCode, setShowQRCode] = useState(false)
+  const [showSmsOptions, setShowSmsOptions] = useState(false)
   
   // QR Scanner
   const [showQRScanner, setShowQRScanner] = useState(false)
@@ -99,6 +179,8 @@ export default function OrdersScreen() {
   const [showCancelModal, setShowCancelModal] = useState(false)
   const [cancellationReason, setCancellationReason] = useState('')
   const [cancellationNotes, setCancellationNotes] = useState('')
+  const [showUncancelApproval, setShowUncancelApproval] = useState(false)
+  const [uncancelling, setUncancelling] = useState(false)
 
   useEffect(() => {
     if (currentStore) {
@@ -119,12 +201,23 @@ export default function OrdersScreen() {
     applyFilters()
   }, [orders, orderFilter, paymentFilter, searchQuery, dateFilter, customDateFrom, customDateTo])
 
+  // Load the status timeline and print history of the order being viewed
+  useEffect(() => {
+    if (showOrderDetails && selectedOrder) {
+      loadStatusHistory(selectedOrder.id)
+      loadPrintHistory(selectedOrder.id)
+    } else {
+      setStatusHistory([])
+      setPrintHistory([])
+    }
+  }, [showOrderDetails, selectedOrder?.id])
+
   // Reset pagination when filter changes
   useEffect(() => {
     if (currentStore) {
       loadOrders(true) // Reset and reload with new filter
     }
-  }, [orderFilter, paymentFilter, dateFilter, customDateFrom, customDateTo])
+  }, [orderFilter, paymentFilter, dateFilter, customDateFrom, customDateTo, dueFilter, orderSort])
 
   const loadOrders = async (reset: boolean = false) => {
     if (!currentStore) {
@@ -180,95 +273,8 @@ export default function OrdersScreen() {
         }
       }
 
-      // Load from cancelled_orders if filter is 'cancelled'
-      if (orderFilter === 'cancelled') {
-        let cancelledQuery = supabase
-          .from('cancelled_orders')
-          .select('*')
-          .eq('store_id', currentStore.id)
-
-        // Apply date filter (use cancelled_at for cancelled orders)
-        if (dateFrom && dateTo) {
-          cancelledQuery = cancelledQuery.gte('cancelled_at', dateFrom.toISOString())
-          cancelledQuery = cancelledQuery.lte('cancelled_at', dateTo.toISOString())
-        }
-
-        const { data: cancelledData, error: cancelledError } = await cancelledQuery
-          .order('cancelled_at', { ascending: false })
-          .range(from, to)
-
-        if (cancelledError) {
-          console.error('❌ Error loading cancelled orders:', cancelledError)
-          throw cancelledError
-        }
-
-        // Fetch customer data for cancelled orders if customer_id exists
-        const customerIds = (cancelledData || [])
-          .map((c: any) => c.customer_id)
-          .filter((id: string | null) => id !== null)
-        
-        let customersMap: Record<string, any> = {}
-        if (customerIds.length > 0) {
-          const { data: customersData } = await supabase
-            .from('customers')
-            .select('id, first_name, last_name, phone')
-            .in('id', customerIds)
-          
-          if (customersData) {
-            customersMap = customersData.reduce((acc: any, customer: any) => {
-              acc[customer.id] = customer
-              return acc
-            }, {})
-          }
-        }
-
-        // Transform cancelled orders to match Order interface
-        const transformedData = (cancelledData || []).map((cancelled: any) => ({
-          id: cancelled.order_id,
-          order_number: cancelled.order_number,
-          customer_id: cancelled.customer_id,
-          customers: cancelled.customer_id && customersMap[cancelled.customer_id] 
-            ? customersMap[cancelled.customer_id] 
-            : null,
-          total_amount: cancelled.total_amount,
-          paid_amount: cancelled.paid_amount,
-          balance: cancelled.balance,
-          payment_status: cancelled.payment_status,
-          order_status: 'cancelled' as const,
-          order_date: cancelled.cancelled_at, // Use cancelled_at as order_date for display
-          notes: cancelled.notes,
-          order_items: [], // Cancelled orders don't have order_items
-          payments: [], // Cancelled orders don't have payments
-          cancellation_reason: cancelled.cancellation_reason,
-          cancelled_at: cancelled.cancelled_at,
-          store_id: cancelled.store_id,
-        }))
-
-        // Ensure all orders belong to the selected store
-        const filteredData = transformedData.filter((order: any) => order.store_id === currentStore.id)
-        
-        console.log(`✅ Cancelled orders loaded: ${filteredData.length} orders (page ${currentPage + 1})`)
-        
-        setHasMore(filteredData.length === ITEMS_PER_PAGE)
-        
-        if (reset) {
-          setOrders(filteredData as any)
-          setPage(1)
-        } else {
-          setOrders(prev => [...prev, ...filteredData] as any)
-          setPage(prev => prev + 1)
-        }
-        
-        // Mark all loaded orders as viewed
-        const orderIds = filteredData.map((order: any) => order.id)
-        if (orderIds.length > 0) {
-          await markOrdersAsViewed(orderIds)
-        }
-        
-        return
-      }
-
-      // Load from orders table for non-cancelled filters
+      // Orders of every status stay in the orders table; cancelled ones are listed by when they were cancelled
+      const dateColumn = orderFilter === 'cancelled' ? 'cancelled_at' : 'order_date'
       let query = supabase
         .from('orders')
         .select(`
@@ -279,18 +285,38 @@ export default function OrdersScreen() {
             phone
           ),
           order_items (*),
+          order_adjustments (*),
           payments (*)
         `)
         .eq('store_id', currentStore.id)
 
+      if (orderFilter !== 'all') {
+        query = query.eq('order_status', orderFilter)
+      }
+
       // Apply date filter
       if (dateFrom && dateTo) {
-        query = query.gte('order_date', dateFrom.toISOString())
-        query = query.lte('order_date', dateTo.toISOString())
+        query = query.gte(dateColumn, dateFrom.toISOString())
+        query = query.lte(dateColumn, dateTo.toISOString())
+      }
+
+      // Due filters only list orders that still have to be made ready
+      if (dueFilter !== 'all') {
+        const dueWindow = getDueWindow(dueFilter)
+        query = query.in('order_status', OPEN_ORDER_STATUSES)
+        if (dueWindow.from) {
+          query = query.gte('promised_at', dueWindow.from)
+        }
+        query = query.lt('promised_at', dueWindow.to)
+      }
+
+      // Soonest due first; orders without a promised date go last
+      if (orderSort === 'due_date') {
+        query = query.order('promised_at', { ascending: true, nullsFirst: false })
       }
 
       const { data, error } = await query
-        .order('order_date', { ascending: false })
+        .order(dateColumn, { ascending: false })
         .range(from, to)
 
       if (error) {
@@ -299,7 +325,32 @@ export default function OrdersScreen() {
       }
 
       // Ensure all orders belong to the selected store (additional safety check)
-      const filteredData = (data || []).filter(order => order.store_id === currentStore.id)
+      const filteredData: Order[] = (data || []).filter(order => order.store_id === currentStore.id)
+
+      // Refund details of cancelled orders are kept on their cancellation record
+      const cancelledIds = filteredData
+        .filter(order => order.order_status === 'cancelled')
+        .map(order => order.id)
+      if (cancelledIds.length > 0) {
+        const { data: cancellations, error: cancellationsError } = await supabase
+          .from('cancelled_orders')
+          .select('id, order_id, notes, refund_required, refund_amount, refunded_amount, refund_status')
+          .in('order_id', cancelledIds)
+          .is('uncancelled_at', null)
+
+        if (cancellationsError) throw cancellationsError
+
+        cancellations?.forEach((cancellation: any) => {
+          const order = filteredData.find(o => o.id === cancellation.order_id)
+          if (!order) return
+          order.cancelled_order_id = cancellation.id
+          order.cancellation_notes = cancellation.notes
+          order.refunded_amount = Number(cancellation.refunded_amount || 0)
+          order.refund_required = cancellation.refund_required
+          order.refund_amount = Number(cancellation.refund_amount || 0)
+          order.refund_status = cancellation.refund_status
+        })
+      }
       
       if (filteredData.length !== (data?.length || 0)) {
         console.warn('⚠️ Some orders were filtered out - they did not match the selected store')
@@ -337,6 +388,52 @@ export default function OrdersScreen() {
     }
   }
 
+  const loadStatusHistory = async (orderId: string) => {
+    try {
+      const history = await OrderService.getStatusHistory(orderId)
+      setStatusHistory(history)
+
+      const userIds = Array.from(new Set(history.map(entry => entry.changed_by).filter(Boolean))) as string[]
+      if (userIds.length > 0) {
+        const { data: users } = await supabase
+          .from('users')
+          .select('id, first_name, last_name')
+          .in('id', userIds)
+        const names: Record<string, string> = {}
+        users?.forEach((user: any) => {
+          names[user.id] = `${user.first_name || ''} ${user.last_name || ''}`.trim() || 'Unknown'
+        })
+        setHistoryUserNames(names)
+      }
+    } catch (error) {
+      console.error('❌ Error loading order status history:', error)
+      setStatusHistory([])
+    }
+  }
+
+  const loadPrintHistory = async (orderId: string) => {
+    try {
+      const history = await PrintQueueService.getOrderPrintHistory(orderId)
+      setPrintHistory(history)
+
+      const userIds = Array.from(new Set(history.map(entry => entry.printed_by)))
+      if (userIds.length > 0) {
+        const { data: users } = await supabase
+          .from('users')
+          .select('id, first_name, last_name')
+          .in('id', userIds)
+        const names: Record<string, string> = {}
+        users?.forEach((user: any) => {
+          names[user.id] = `${user.first_name || ''} ${user.last_name || ''}`.trim() || 'Unknown'
+        })
+        setPrintUserNames(names)
+      }
+    } catch (error) {
+      console.error('❌ Error loading order print history:', error)
+      setPrintHistory([])
+    }
+  }
+
   const loadMoreOrders = () => {
     if (!loadingMore && hasMore && !loading) {
       loadOrders(false)
@@ -439,19 +536,28 @@ export default function OrdersScreen() {
     let orderNumber: string | null = null
     let orderId: string | null = null
 
-    // Try to parse as JSON first (QR codes are generated as JSON)
-    try {
-      const parsed = JSON.parse(scannedData.trim())
-      orderNumber = parsed.orderNumber || parsed.orderId || null
-      orderId = parsed.orderId || parsed.orderNumber || null
-      console.log('✅ Parsed QR code JSON:', { orderNumber, orderId })
-    } catch (error) {
-      // If parsing fails, treat as plain string (backward compatibility)
-      console.log('⚠️ QR code is not JSON, using as plain string')
-      const trimmed = scannedData.trim()
-      if (trimmed.length > 0) {
-        orderNumber = trimmed
-        orderId = trimmed
+    // Bag tags carry the order number and the bag, e.g. ORD-0042/2, and open the order directly
+    const bagTag = parseGarmentTagCode(scannedData)
+
+    if (bagTag) {
+      orderNumber = bagTag.orderNumber
+      orderId = bagTag.orderNumber
+      console.log(`✅ Scanned bag tag ${bagTag.bag} of order ${bagTag.orderNumber}`)
+    } else {
+      // Try to parse as JSON first (QR codes are generated as JSON)
+      try {
+        const parsed = JSON.parse(scannedData.trim())
+        orderNumber = parsed.orderNumber || parsed.orderId || null
+        orderId = parsed.orderId || parsed.orderNumber || null
+        console.log('✅ Parsed QR code JSON:', { orderNumber, orderId })
+      } catch (error) {
+        // If parsing fails, treat as plain string (backward compatibility)
+        console.log('⚠️ QR code is not JSON, using as plain string')
+        const trimmed = scannedData.trim()
+        if (trimmed.length > 0) {
+          orderNumber = trimmed
+          orderId = trimmed
+        }
       }
     }
 
@@ -475,7 +581,10 @@ export default function OrdersScreen() {
       (orderNumber && order.order_number === orderNumber)
     )
     
-    if (foundOrder) {
+    if (foundOrder && bagTag) {
+      setSelectedOrder(foundOrder)
+      setShowOrderDetails(true)
+    } else if (foundOrder) {
       // Order found in current list - scroll to it and highlight
       Alert.alert(
         'Order Found',
@@ -499,7 +608,7 @@ export default function OrdersScreen() {
       }
 
       try {
-        // Build query - try both orderId and orderNumber
+        // Match the order number, the provisional number, or the id when the code is a UUID
         const { data, error } = await supabase
           .from('orders')
           .select(`
@@ -510,10 +619,11 @@ export default function OrdersScreen() {
               phone
             ),
             order_items (*),
+            order_adjustments (*),
             payments (*)
           `)
           .eq('store_id', currentStore.id)
-          .or(`id.eq.${searchValue},order_number.eq.${searchValue}`)
+          .or(getScannedOrderFilter(searchValue))
           .single()
 
         if (error || !data) {
@@ -526,6 +636,12 @@ export default function OrdersScreen() {
 
         // Reload orders to include the found order in the list
         await loadOrders()
+
+        if (bagTag) {
+          setSelectedOrder(data)
+          setShowOrderDetails(true)
+          return
+        }
         
         // Show alert and allow viewing details using the fetched data
         Alert.alert(
@@ -563,48 +679,54 @@ export default function OrdersScreen() {
         return
       }
 
-      const updateData: any = {
-        order_status: newStatus,
+      if (!canChangeOrderStatus(order.order_status, newStatus)) {
+        Alert.alert('Error', `Order cannot move from ${formatStatusText(order.order_status)} to ${formatStatusText(newStatus)}`)
+        return
       }
 
-      // If marking as completed, set completion date
-      if (newStatus === 'completed') {
-        updateData.actual_completion = new Date().toISOString()
-        const { data: { user } } = await supabase.auth.getUser()
-        if (user) updateData.completed_by = user.id
+      // The database checks the move, stamps the stage time and records it in the status history
+      try {
+        await OrderService.setOrderStatus(orderId, newStatus)
+      } catch (error) {
+        if (!isNetworkError(error)) throw error
+
+        // No connection: keep the change on the device and apply it when back online
+        await OfflineQueueService.queueStatusChange(currentStore.id, {
+          orderId,
+          orderNumber: order.order_number,
+          fromStatus: order.order_status,
+          toStatus: newStatus,
+        })
+        Alert.alert(
+          'Saved Offline',
+          `Order ${order.order_number} will be marked ${formatStatusText(newStatus)} when the device is back online.`
+        )
+        setShowOrderDetails(false)
+        return
       }
 
-      const { error } = await supabase
-        .from('orders')
-        .update(updateData)
-        .eq('id', orderId)
-        .eq('store_id', currentStore.id) // Additional safety: ensure order belongs to current store
-
-      if (error) throw error
-
       // Show success alert first
       Alert.alert('Success', `Order status updated to ${formatStatusText(newStatus)}`)
 
-      // If order is marked as ready, prompt to send SMS notification
-      if (newStatus === 'ready' && order.customers) {
-        const customerPhone = order.customers.phone
-        const customerFirstName = order.customers.first_name
-        const orderNumber = order.order_number
-        const storeName = currentStore.name
+      // Tell the customer about the new status: right away when auto-send is on, otherwise ask first
+      const smsEvent = STATUS_SMS_EVENTS[newStatus]
+      if (smsEvent && order.customers) {
+        const eventLabel = SMS_EVENTS.find(event => event.key === smsEvent)?.label || 'notification'
 
         // Delay SMS prompt slightly to allow success alert to be seen
         setTimeout(() => {
-          if (!customerPhone) {
+          if (!order.customers?.phone) {
             Alert.alert(
               'Phone Number Missing',
               'Customer phone number is missing. SMS notification cannot be sent.',
               [{ text: 'OK' }]
             )
+          } else if (isSmsAutoSendEnabled(currentStore as any)) {
+            sendOrderSMS(order, smsEvent)
           } else {
-            // Prompt user to confirm sending SMS
             Alert.alert(
-              'Send Message for Pickup',
-              'Would you like to send an SMS notification to the customer?',
+              'Notify Customer',
+              `Would you like to send the ${eventLabel} SMS to the customer?`,
               [
                 {
                   text: 'Cancel',
@@ -612,26 +734,7 @@ export default function OrdersScreen() {
                 },
                 {
                   text: 'Send SMS',
-                  onPress: async () => {
-                    try {
-                      await SMSService.sendOrderCompletionSMS({
-                        phoneNumber: customerPhone,
-                        customerFirstName: customerFirstName,
-                        orderNumber: orderNumber,
-                        storeName: storeName,
-                        orderItems: order.order_items || [],
-                      })
-                      Alert.alert('Success', 'SMS notification sent successfully!')
-                      console.log('✅ SMS notification sent successfully')
-                    } catch (smsError: any) {
-                      console.error('❌ Error sending SMS:', smsError)
-                      Alert.alert(
-                        'SMS Error',
-                        `Failed to send SMS: ${smsError.message || 'Unknown error'}`,
-                        [{ text: 'OK' }]
-                      )
-                    }
-                  },
+                  onPress: () => sendOrderSMS(order, smsEvent),
                 },
               ]
             )
@@ -644,7 +747,7 @@ export default function OrdersScreen() {
       setShowOrderDetails(false)
     } catch (error: any) {
       console.error('Error updating order status:', error)
-      Alert.alert('Error', 'Failed to update order status')
+      Alert.alert('Error', error.message || 'Failed to update order status')
     }
   }
 
@@ -662,67 +765,14 @@ export default function OrdersScreen() {
     }
 
     try {
-      const { data: { user } } = await supabase.auth.getUser()
-      if (!user) {
-        Alert.alert('Error', 'User not authenticated')
-        return
-      }
-
       // Verify the order belongs to the current store
       if (selectedOrder.store_id !== currentStore.id) {
         Alert.alert('Error', 'Order does not belong to the selected store')
         return
       }
 
-      // Create cancelled_orders record with all order details
-      console.log('🔄 Creating cancelled_orders record...', {
-        order_id: selectedOrder.id,
-        store_id: currentStore.id,
-        order_number: selectedOrder.order_number,
-        cancellation_reason: cancellationReason.trim(),
-        cancelled_by: user.id,
-      })
-
-      const { data: cancelledData, error: cancelError } = await supabase
-        .from('cancelled_orders')
-        .insert({
-          order_id: selectedOrder.id,
-          store_id: currentStore.id,
-          order_number: selectedOrder.order_number,
-          customer_id: selectedOrder.customer_id,
-          total_amount: selectedOrder.total_amount,
-          paid_amount: selectedOrder.paid_amount,
-          balance: selectedOrder.balance,
-          payment_status: selectedOrder.payment_status,
-          order_status: selectedOrder.order_status,
-          cancellation_reason: cancellationReason.trim(),
-          cancelled_by: user.id,
-          refund_required: selectedOrder.paid_amount > 0,
-          refund_amount: selectedOrder.paid_amount,
-          notes: cancellationNotes.trim() || null,
-        })
-        .select()
-
-      if (cancelError) {
-        console.error('❌ Error inserting into cancelled_orders:', cancelError)
-        console.error('Error details:', JSON.stringify(cancelError, null, 2))
-        throw cancelError
-      }
-
-      if (cancelledData && cancelledData.length > 0) {
-        console.log('✅ Cancelled order saved successfully:', cancelledData[0])
-      } else {
-        console.warn('⚠️ No data returned from cancelled_orders insert')
-      }
-
-      // Delete the order from orders table
-      const { error: deleteError } = await supabase
-        .from('orders')
-        .delete()
-        .eq('id', selectedOrder.id)
-        .eq('store_id', currentStore.id)
-
-      if (deleteError) throw deleteError
+      // Restocks products, reverses loyalty points and records the cancellation in one transaction
+      await OrderService.cancelOrder(selectedOrder.id, cancellationReason.trim(), cancellationNotes.trim() || null)
 
       // Reset form and close modals first
       setCancellationReason('')
@@ -733,26 +783,86 @@ export default function OrdersScreen() {
       // Reload orders with pagination reset
       await loadOrders(true)
       
-      Alert.alert('Success', `Order ${selectedOrder.order_number} has been cancelled and moved to cancelled orders.`)
+      Alert.alert('Success', `Order ${selectedOrder.order_number} has been cancelled.`)
     } catch (error: any) {
       console.error('Error cancelling order:', error)
       Alert.alert('Error', `Failed to cancel order: ${error.message}`)
     }
   }
 
-  const handleSendPickupSMS = async () => {
-    if (!selectedOrder || !currentStore) return
+  /**
+   * Whether a cancelled order can still be un-cancelled: within the store's window
+   * and before any of its payments were refunded
+   */
+  const canUncancel = (order: Order): boolean => {
+    if (order.order_status !== 'cancelled' || !order.cancelled_at || !order.cancelled_order_id) return false
+    if (Number(order.refunded_amount || 0) > 0) return false
+    const windowHours = getStoreSetting(currentStore as any, 'uncancel_window_hours') ?? 24
+    return Date.now() - new Date(order.cancelled_at).getTime() <= windowHours * 60 * 60 * 1000
+  }
 
-    if (!selectedOrder.customers) {
-      Alert.alert('Error', 'Customer information not available')
-      return
+  const handleUncancelOrder = () => {
+    if (!selectedOrder) return
+
+    Alert.alert(
+      'Un-cancel Order',
+      `Restore order ${selectedOrder.order_number}? Its products will be taken out of stock again and loyalty points reinstated.`,
+      [
+        { text: 'Keep Cancelled', style: 'cancel' },
+        {
+          text: 'Un-cancel',
+          onPress: async () => {
+            try {
+              const { data: { session } } = await supabase.auth.getSession()
+              if (!session?.user) return
+
+              const { data: userDetails } = await supabase
+                .from('users')
+                .select('role')
+                .eq('id', session.user.id)
+                .single()
+
+              // Managers approve their own un-cancel; anyone else needs a manager's PIN
+              if (['super_admin', 'store_owner', 'manager'].includes(userDetails?.role || '')) {
+                await uncancelOrder(null)
+              } else {
+                setShowUncancelApproval(true)
+              }
+            } catch (error: any) {
+              console.error('Error checking user role:', error)
+              Alert.alert('Error', error.message || 'Failed to un-cancel order')
+            }
+          },
+        },
+      ]
+    )
+  }
+
+  const uncancelOrder = async (approval: ManagerApproval | null) => {
+    setShowUncancelApproval(false)
+    if (!selectedOrder) return
+
+    setUncancelling(true)
+    try {
+      const order = await OrderService.uncancelOrder(selectedOrder.id, approval?.approval_id)
+      setShowOrderDetails(false)
+      await loadOrders(true)
+      Alert.alert('Success', `Order ${order.order_number} is back to ${formatStatusText(order.order_status)}.`)
+    } catch (error: any) {
+      console.error('Error un-cancelling order:', error)
+      Alert.alert('Error', error.message || 'Failed to un-cancel order')
+    } finally {
+      setUncancelling(false)
     }
+  }
 
-    const customerPhone = selectedOrder.customers.phone
-    const customerFirstName = selectedOrder.customers.first_name
-    const orderNumber = selectedOrder.order_number
-    const storeName = currentStore.name
+  /**
+   * Sends an order notification from the store's template for the event
+   */
+  const sendOrderSMS = async (order: Order, event: SmsEvent) => {
+    if (!currentStore) return
 
+    const customerPhone = order.customers?.phone
     if (!customerPhone) {
       Alert.alert(
         'Phone Number Missing',
@@ -762,44 +872,103 @@ export default function OrdersScreen() {
       return
     }
 
-    // Prompt user to confirm sending SMS
-    Alert.alert(
-      'Send Message for Pickup',
-      'Would you like to send an SMS notification to the customer?',
-      [
-        {
-          text: 'Cancel',
-          style: 'cancel',
-        },
-        {
-          text: 'Send SMS',
-          onPress: async () => {
-            try {
-              await SMSService.sendOrderCompletionSMS({
-                phoneNumber: customerPhone,
-                customerFirstName: customerFirstName,
-                orderNumber: orderNumber,
-                storeName: storeName,
-                orderItems: selectedOrder.order_items || [],
-              })
-              Alert.alert('Success', 'SMS notification sent successfully!')
-              console.log('✅ SMS notification sent successfully')
-            } catch (smsError: any) {
-              console.error('❌ Error sending SMS:', smsError)
-              Alert.alert(
-                'SMS Error',
-                `Failed to send SMS: ${smsError.message || 'Unknown error'}`,
-                [{ text: 'OK' }]
-              )
-            }
-          },
+    const lastPayment = (order.payments || [])
+      .filter(payment => !payment.is_cancelled)
+      .sort((a, b) => new Date(b.payment_date).getTime() - new Date(a.payment_date).getTime())[0]
+
+    try {
+      const sent = await SMSService.sendNotification({
+        storeId: currentStore.id,
+        phoneNumber: customerPhone,
+        event,
+        language: getSmsLanguage(currentStore as any),
+        values: {
+          ...getOrderSmsValues(
+            {
+              customerFirstName: order.customers?.first_name,
+              orderNumber: order.order_number,
+              balance: order.balance,
+              promisedAt: order.promised_at,
+              items: order.order_items,
+            },
+            { name: currentStore.name, phone: currentStore.phone }
+          ),
+          amount_paid: lastPayment ? formatSmsAmount(Number(lastPayment.amount)) : '',
         },
-      ]
-    )
+      })
+      if (sent) {
+        Alert.alert('Success', 'SMS notification sent successfully!')
+        console.log('✅ SMS notification sent successfully')
+      }
+    } catch (smsError: any) {
+      console.error('❌ Error sending SMS:', smsError)
+      Alert.alert(
+        'SMS Error',
+        `Failed to send SMS: ${smsError.message || 'Unknown error'}`,
+        [{ text: 'OK' }]
+      )
+    }
+  }
+
+  // Loyalty points can pay for orders of a customer when the store has the feature
+  const orderPaymentMethods = paymentMethods.filter(method =>
+    method.name !== LOYALTY_PAYMENT_METHOD ||
+    (isFeatureEnabled(currentStore as any, 'loyalty_points') && !!selectedOrder?.customer_id)
+  )
+
+  /**
+   * What can be refunded on an order: the unrefunded paid amount of a cancelled order,
+   * or any payment of an open order (showing the overpayment as owed)
+   */
+  const getRefundTarget = (order: Order): RefundTarget | null => {
+    const customerName = order.customers
+      ? `${order.customers.first_name} ${order.customers.last_name}`
+      : 'Walk-in Customer'
+    const refunded = Number(order.refunded_amount || 0)
+
+    if (order.order_status === 'cancelled') {
+      const owed = Number(order.refund_amount || 0) - refunded
+      if (!order.cancelled_order_id || !order.refund_required || order.refund_status === 'processed' || owed <= 0) {
+        return null
+      }
+      return {
+        orderId: order.id,
+        cancelledOrderId: order.cancelled_order_id,
+        orderNumber: order.order_number,
+        customerName,
+        amountOwed: owed,
+      }
+    }
+
+    if (order.paid_amount - refunded <= 0) return null
+    const overpaid = order.paid_amount - refunded - order.total_amount - Number(order.storage_fee || 0)
+    return {
+      orderId: order.id,
+      orderNumber: order.order_number,
+      customerName,
+      amountOwed: overpaid > 0 ? overpaid : null,
+    }
+  }
+
+  const nextOrderStatus = selectedOrder ? getNextOrderStatus(selectedOrder.order_status) : null
+  const selectedTurnaround = selectedOrder ? getOrderTurnaround(selectedOrder) : null
+
+  const selectedPaymentMethod = orderPaymentMethods.find(m => m.id === selectedPaymentMethodId) || null
+  const paymentRequirement = selectedPaymentMethod ? getTenderRequirement(selectedPaymentMethod) : null
+
+  const closePaymentModal = () => {
+    setShowPaymentModal(false)
+    setPaymentAmount('')
+    setPaymentCardNumber('')
+    setPaymentReference('')
+    // Reset to first payment method
+    if (paymentMethods.length > 0) {
+      setSelectedPaymentMethodId(paymentMethods[0].id)
+    }
   }
 
   const handleAddPayment = async () => {
-    if (!selectedOrder) return
+    if (!selectedOrder || recordingPayment) return
 
     const amount = parseFloat(paymentAmount)
     if (isNaN(amount) || amount <= 0) {
@@ -818,64 +987,100 @@ export default function OrdersScreen() {
       return
     }
 
-    try {
-      const { data: { user } } = await supabase.auth.getUser()
-      if (!user) throw new Error('User not authenticated')
+    // Same payment method rules as checkout: card and reference numbers where required
+    const resolved = resolveTenders(
+      [{
+        key: 'payment',
+        payment_method_id: selectedPaymentMethodId,
+        amount: paymentAmount,
+        card_number: paymentCardNumber,
+        reference_number: paymentReference,
+      }],
+      orderPaymentMethods,
+      amount,
+      'Additional payment'
+    )
+    if (resolved.error || resolved.payments.length === 0 || !selectedPaymentMethod) {
+      Alert.alert('Payment Required', resolved.error || 'Please select a payment method')
+      return
+    }
 
-      // Calculate new payment status
-      const newPaidAmount = selectedOrder.paid_amount + amount
-      const newBalance = selectedOrder.total_amount - newPaidAmount
-      const newPaymentStatus = newBalance === 0 ? 'paid' : 'partial'
+    const payment = resolved.payments[0]
+    const order = selectedOrder
+    setRecordingPayment(true)
+    try {
+      const result = await PaymentService.recordPayment({
+        storeId: currentStore.id,
+        orderId: order.id,
+        orderNumber: order.order_number,
+        payment,
+      })
 
-      const selectedMethod = paymentMethods.find(m => m.id === selectedPaymentMethodId)
-      if (!selectedMethod) {
-        Alert.alert('Error', 'Please select a payment method')
-        return
+      const newBalance = result.balance ?? Math.max(0, order.balance - amount)
+      const receipt = {
+        storeName: currentStore.name,
+        orderNumber: order.order_number,
+        customerName: order.customers
+          ? `${order.customers.first_name} ${order.customers.last_name}`
+          : 'Walk-in Customer',
+        payment: {
+          method: selectedPaymentMethod.display_name,
+          amount: payment.amount,
+          reference: payment.reference_number || payment.card_number || null,
+        },
+        previousBalance: order.balance,
+        newBalance,
+        paidAt: new Date().toISOString(),
+        offline: result.queued,
       }
 
-      // Create payment record (only after validation passes)
-      const { error: paymentError } = await supabase
-        .from('payments')
-        .insert({
-          order_id: selectedOrder.id,
-          amount: amount,
-          payment_method: selectedMethod.name, // Store the method name for backward compatibility
-          received_by: user.id,
-          notes: 'Additional payment',
-        })
-
-      if (paymentError) throw paymentError
-
-      // Update order payment status
-
-      const { error: orderError } = await supabase
-        .from('orders')
-        .update({
-          paid_amount: newPaidAmount,
-          balance: newBalance,
-          payment_status: newPaymentStatus,
-        })
-        .eq('id', selectedOrder.id)
-        .eq('store_id', currentStore.id) // Additional safety: ensure order belongs to current store
-
-      if (orderError) throw orderError
+      // Offline payments get the provisional payment receipt; numbered receipts are issued online only
+      let salesReceipt: SalesReceipt | null = null
+      if (!result.queued && result.paymentId) {
+        try {
+          salesReceipt = await SalesReceiptService.issueReceipt(order.id, [result.paymentId])
+        } catch (receiptError) {
+          console.error('⚠️ Failed to issue sales receipt:', receiptError)
+        }
+      }
 
+      closePaymentModal()
       Alert.alert(
-        'Payment Recorded',
-        `Payment of ₱${amount.toFixed(2)} recorded successfully!\nRemaining balance: ₱${newBalance.toFixed(2)}`
+        result.queued ? 'Payment Saved Offline' : 'Payment Recorded',
+        result.queued
+          ? `Payment of ₱${amount.toFixed(2)} for ${order.order_number} will be recorded when the device is back online.`
+          : `Payment of ₱${amount.toFixed(2)} recorded successfully!\nRemaining balance: ₱${newBalance.toFixed(2)}` +
+            (salesReceipt ? `\nOR No.: ${formatReceiptNumber(salesReceipt.receipt_number)}` : ''),
+        [
+          { text: 'Done', style: 'cancel' },
+          {
+            text: 'Print Receipt',
+            onPress: async () => {
+              try {
+                const job = salesReceipt
+                  ? await SalesReceiptService.printReceipt(salesReceipt)
+                  : await PaymentService.printPaymentReceipt(receipt, { storeId: currentStore.id, orderId: order.id })
+                if (job.status !== 'printed') {
+                  Alert.alert('Print Failed', describePrintJob(job))
+                }
+              } catch (printError) {
+                console.error('Error printing receipt:', printError)
+                Alert.alert('Print Failed', 'Could not print the payment receipt. Check the printer connection.')
+              }
+            },
+          },
+        ]
       )
-      
-      setShowPaymentModal(false)
-      setPaymentAmount('')
-      // Reset to first payment method
-      if (paymentMethods.length > 0) {
-        setSelectedPaymentMethodId(paymentMethods[0].id)
+
+      if (!result.queued) {
+        // Reload orders with pagination reset to show updated payment status
+        await loadOrders(true)
       }
-      // Reload orders with pagination reset to show updated payment status
-      await loadOrders(true)
     } catch (error: any) {
       console.error('Error adding payment:', error)
       Alert.alert('Error', `Failed to record payment: ${error.message}`)
+    } finally {
+      setRecordingPayment(false)
     }
   }
 
@@ -886,6 +1091,7 @@ export default function OrdersScreen() {
       case 'ready': return '#10b981'
       case 'completed': return '#6b7280'
       case 'cancelled': return '#ef4444'
+      case 'abandoned': return '#78716c'
       default: return '#9ca3af'
     }
   }
@@ -897,6 +1103,7 @@ export default function OrdersScreen() {
       case 'ready': return 'Ready'
       case 'completed': return 'Completed'
       case 'cancelled': return 'Cancelled'
+      case 'abandoned': return 'Abandoned'
       default: return status
     }
   }
@@ -911,9 +1118,17 @@ export default function OrdersScreen() {
     }
   }
 
+  const getDueStatusColor = (status: 'overdue' | 'due_today' | 'due_tomorrow') => {
+    switch (status) {
+      case 'overdue': return '#ef4444'
+      case 'due_today': return '#f59e0b'
+      case 'due_tomorrow': return '#3b82f6'
+    }
+  }
+
   // Print functions
   const printClaimStub = async () => {
-    if (!selectedOrder) return
+    if (!selectedOrder || !currentStore) return
 
     try {
       // Fetch fresh store data to ensure we have phone and email
@@ -956,10 +1171,29 @@ export default function OrdersScreen() {
           'Walk-in Customer',
         orderDate: selectedOrder.order_date,
         totalAmount: selectedOrder.total_amount,
+        subtotal: selectedOrder.subtotal,
+        discounts: summarizeDiscounts(selectedOrder.order_adjustments || []),
+        tax: getOrderTaxBreakdown(selectedOrder),
+        storageFee: Number(selectedOrder.storage_fee || 0),
+        payments: (selectedOrder.payments || [])
+          .filter(payment => !payment.is_cancelled)
+          .map(payment => ({
+            method: payment.payment_method.toUpperCase(),
+            amount: payment.amount,
+            reference: payment.reference_number || (payment.card_number ? `****${payment.card_number.slice(-4)}` : null),
+            tendered: payment.amount_tendered,
+          })),
+        change: (selectedOrder.payments || [])
+          .filter(payment => !payment.is_cancelled)
+          .reduce((sum, payment) => sum + Number(payment.change_given || 0), 0),
+        balance: selectedOrder.balance,
+        promisedAt: selectedOrder.promised_at,
         items: selectedOrder.order_items?.map(item => ({
           name: item.service_name,
           quantity: item.quantity,
-          price: item.unit_price
+          price: item.unit_price,
+          pricing_mode: item.pricing_mode,
+          weight: item.weight,
         })) || [],
         storeInfo: storeInfo
       }
@@ -968,18 +1202,42 @@ export default function OrdersScreen() {
       console.log('📋 Print order data:', JSON.stringify(orderData, null, 2))
       console.log('📞 Store phone:', storeInfo.phone)
       console.log('📧 Store email:', storeInfo.email)
-      const success = await printerService.printOrderClaimStub(orderData)
-      if (success) {
+      const job = await PrintQueueService.printClaimStub(currentStore.id, orderData)
+      if (job.status === 'printed') {
         Alert.alert('Success', 'Claim ticket printed successfully!')
       } else {
-        Alert.alert('Error', 'Failed to print claim ticket. Please check printer connection.')
+        Alert.alert('Error', describePrintJob(job))
       }
+      loadPrintHistory(selectedOrder.id)
     } catch (error) {
       console.error('Print error:', error)
       Alert.alert('Error', 'Failed to print claim ticket')
     }
   }
 
+  const printBagTags = async () => {
+    if (!selectedOrder || !currentStore) return
+
+    try {
+      const job = await PrintQueueService.printGarmentTags(currentStore.id, {
+        orderId: selectedOrder.id,
+        orderNumber: selectedOrder.order_number,
+        customerName: selectedOrder.customers
+          ? `${selectedOrder.customers.first_name} ${selectedOrder.customers.last_name}`
+          : 'Walk-in Customer',
+        bagCount: selectedOrder.bag_count || 1,
+        promisedAt: selectedOrder.promised_at,
+      })
+      if (job.status !== 'printed') {
+        Alert.alert('Error', describePrintJob(job))
+      }
+      loadPrintHistory(selectedOrder.id)
+    } catch (error) {
+      console.error('Print error:', error)
+      Alert.alert('Error', 'Failed to print bag tags')
+    }
+  }
+
   const generateQRCodeData = () => {
     if (!selectedOrder) return ''
     
@@ -1006,6 +1264,10 @@ export default function OrdersScreen() {
     })
   }
 
+  const smsEvents = selectedOrder
+    ? getSmsEventsForOrder(selectedOrder, (selectedOrder.payments || []).some(payment => !payment.is_cancelled))
+    : []
+
   if (loading) {
     return (
       <View style={styles.centerContainer}>
@@ -1020,6 +1282,7 @@ export default function OrdersScreen() {
       <View style={styles.header}>
         <Text style={styles.title}>Orders</Text>
         <Text style={styles.subtitle}>{filteredOrders.length} order{filteredOrders.length !== 1 ? 's' : ''}</Text>
+        <SyncStatusBanner style={styles.syncBanner} />
       </View>
 
       {/* Search Bar */}
@@ -1055,7 +1318,7 @@ export default function OrdersScreen() {
         contentContainerStyle={styles.filtersContent}
       >
         <Text style={styles.filterLabel}>Status:</Text>
-        {(['pending', 'in_progress', 'ready', 'completed', 'cancelled', 'all'] as OrderFilter[]).map(filter => (
+        {(['pending', 'in_progress', 'ready', 'completed', 'cancelled', 'abandoned', 'all'] as OrderFilter[]).map(filter => (
           <TouchableOpacity
             key={filter}
             style={[styles.filterButton, orderFilter === filter && styles.filterButtonActive]}
@@ -1132,6 +1395,45 @@ export default function OrdersScreen() {
         )}
       </ScrollView>
 
+      {/* Due Filters */}
+      <ScrollView 
+        horizontal 
+        showsHorizontalScrollIndicator={false} 
+        style={styles.filters}
+        contentContainerStyle={styles.filtersContent}
+      >
+        <Text style={styles.filterLabel}>Due:</Text>
+        {(['all', 'overdue', 'due_today', 'due_tomorrow'] as DueFilter[]).map(filter => (
+          <TouchableOpacity
+            key={filter}
+            style={[styles.filterButton, dueFilter === filter && styles.filterButtonActive]}
+            onPress={() => setDueFilter(filter)}
+          >
+            <Text style={[styles.filterButtonText, dueFilter === filter && styles.filterButtonTextActive]}>
+              {filter === 'all' ? 'All' : DUE_STATUS_LABELS[filter]}
+            </Text>
+          </TouchableOpacity>
+        ))}
+
+        <View style={styles.filterDivider} />
+
+        <Text style={styles.filterLabel}>Sort:</Text>
+        {([
+          { value: 'newest', label: 'Newest' },
+          { value: 'due_date', label: 'Due Date' },
+        ] as { value: OrderSort; label: string }[]).map(sort => (
+          <TouchableOpacity
+            key={sort.value}
+            style={[styles.filterButton, orderSort === sort.value && styles.filterButtonActive]}
+            onPress={() => setOrderSort(sort.value)}
+          >
+            <Text style={[styles.filterButtonText, orderSort === sort.value && styles.filterButtonTextActive]}>
+              {sort.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
       {/* Orders List */}
       <ScrollView 
         style={styles.content}
@@ -1153,10 +1455,12 @@ export default function OrdersScreen() {
             <Text style={styles.emptyStateSubtext}>Orders will appear here once created</Text>
           </View>
         ) : (
-          filteredOrders.map(order => (
+          filteredOrders.map(order => {
+            const dueStatus = getOrderDueStatus(order)
+            return (
             <TouchableOpacity
               key={order.id}
-              style={styles.orderCard}
+              style={[styles.orderCard, dueStatus === 'overdue' && styles.orderCardOverdue]}
               onPress={() => {
                 setSelectedOrder(order)
                 setShowOrderDetails(true)
@@ -1166,6 +1470,11 @@ export default function OrdersScreen() {
                 <View style={{ flex: 1 }}>
                   <Text style={styles.orderNumber}>{order.order_number}</Text>
                   <Text style={styles.orderDate}>{formatDate(order.order_date)}</Text>
+                  {order.promised_at && dueStatus !== 'none' && (
+                    <Text style={[styles.orderDate, dueStatus === 'overdue' && styles.overdueText]}>
+                      Ready by {formatPromisedAt(order.promised_at)}
+                    </Text>
+                  )}
                   {/* Compact status bars */}
                   <View style={styles.statusBarsContainer}>
                     <View style={styles.statusBarWrapper}>
@@ -1178,6 +1487,11 @@ export default function OrdersScreen() {
                     </View>
                   </View>
                 </View>
+                {(dueStatus === 'overdue' || dueStatus === 'due_today' || dueStatus === 'due_tomorrow') && (
+                  <View style={[styles.dueBadge, { backgroundColor: getDueStatusColor(dueStatus) }]}>
+                    <Text style={styles.dueBadgeText}>{DUE_STATUS_LABELS[dueStatus]}</Text>
+                  </View>
+                )}
               </View>
 
               {order.customers && (
@@ -1196,7 +1510,8 @@ export default function OrdersScreen() {
                 <Text style={styles.itemCount}>{order.order_items?.length || 0} item{order.order_items?.length !== 1 ? 's' : ''}</Text>
               </View>
             </TouchableOpacity>
-          ))
+            )
+          })
         )}
         {loadingMore && (
           <View style={styles.loadingMoreContainer}>
@@ -1243,6 +1558,29 @@ export default function OrdersScreen() {
                   <Text style={styles.detailValue}>{formatDate(selectedOrder.order_date)}</Text>
                 </View>
 
+                {selectedOrder.promised_at && (
+                  <View style={styles.detailSection}>
+                    <Text style={styles.detailLabel}>Ready By</Text>
+                    <Text style={[
+                      styles.detailValue,
+                      getOrderDueStatus(selectedOrder) === 'overdue' && styles.overdueText,
+                    ]}>
+                      {formatPromisedAt(selectedOrder.promised_at)}
+                      {getOrderDueStatus(selectedOrder) === 'overdue' ? ' (Overdue)' : ''}
+                    </Text>
+                  </View>
+                )}
+
+                {selectedOrder.order_status === 'abandoned' && selectedOrder.abandoned_at && (
+                  <View style={styles.detailSection}>
+                    <Text style={styles.detailLabel}>Abandoned</Text>
+                    <Text style={styles.detailValue}>{formatDate(selectedOrder.abandoned_at)}</Text>
+                    {selectedOrder.abandon_notes && (
+                      <Text style={styles.detailSubvalue}>{selectedOrder.abandon_notes}</Text>
+                    )}
+                  </View>
+                )}
+
                 {selectedOrder.customers && (
                   <View style={styles.detailSection}>
                     <Text style={styles.detailLabel}>Customer</Text>
@@ -1262,7 +1600,7 @@ export default function OrdersScreen() {
                     <View style={styles.itemInfo}>
                       <Text style={styles.itemName}>{item.service_name}</Text>
                       <Text style={styles.itemDetails}>
-                        {item.quantity} × ₱{item.unit_price.toFixed(2)}
+                        {formatItemQuantity(item)} × ₱{item.unit_price.toFixed(2)}{getPriceUnitLabel(item.pricing_mode)}
                       </Text>
                     </View>
                     <Text style={styles.itemTotal}>₱{item.total_price.toFixed(2)}</Text>
@@ -1271,16 +1609,76 @@ export default function OrdersScreen() {
 
                 {/* Payment Summary */}
                 <View style={styles.paymentSummary}>
+                  {((selectedOrder.discount || 0) > 0 || (selectedOrder.tax || 0) > 0) && (
+                    <>
+                      <View style={styles.summaryRow}>
+                        <Text style={styles.summaryLabel}>Subtotal</Text>
+                        <Text style={styles.summaryValue}>₱{(selectedOrder.subtotal || 0).toFixed(2)}</Text>
+                      </View>
+                      {summarizeDiscounts(selectedOrder.order_adjustments || []).map(discount => (
+                        <View key={discount.description} style={styles.summaryRow}>
+                          <Text style={styles.summaryLabel}>{discount.description}</Text>
+                          <Text style={[styles.summaryValue, { color: '#10b981' }]}>-₱{discount.amount.toFixed(2)}</Text>
+                        </View>
+                      ))}
+                      {(selectedOrder.tax || 0) > 0 && (
+                        <View style={styles.summaryRow}>
+                          <Text style={styles.summaryLabel}>VAT {selectedOrder.tax_rate}%</Text>
+                          <Text style={styles.summaryValue}>₱{(selectedOrder.tax || 0).toFixed(2)}</Text>
+                        </View>
+                      )}
+                    </>
+                  )}
                   <View style={styles.summaryRow}>
                     <Text style={styles.summaryLabel}>Total</Text>
                     <Text style={styles.summaryValue}>₱{selectedOrder.total_amount.toFixed(2)}</Text>
                   </View>
+                  {selectedOrder.tax_rate !== null && selectedOrder.tax_rate !== undefined && (
+                    <>
+                      <View style={styles.summaryRow}>
+                        <Text style={styles.summaryLabel}>VATable Sales</Text>
+                        <Text style={styles.summaryValue}>₱{Number(selectedOrder.vatable_sales || 0).toFixed(2)}</Text>
+                      </View>
+                      <View style={styles.summaryRow}>
+                        <Text style={styles.summaryLabel}>VAT Amount</Text>
+                        <Text style={styles.summaryValue}>₱{Number(selectedOrder.vat_amount || 0).toFixed(2)}</Text>
+                      </View>
+                      <View style={styles.summaryRow}>
+                        <Text style={styles.summaryLabel}>VAT-Exempt Sales</Text>
+                        <Text style={styles.summaryValue}>₱{Number(selectedOrder.vat_exempt_sales || 0).toFixed(2)}</Text>
+                      </View>
+                      {selectedOrder.senior_pwd_type && (
+                        <View style={styles.summaryRow}>
+                          <Text style={styles.summaryLabel}>{getSeniorPwdLabel(selectedOrder.senior_pwd_type)} ID</Text>
+                          <Text style={styles.summaryValue}>
+                            {selectedOrder.senior_pwd_id} ({selectedOrder.senior_pwd_name})
+                          </Text>
+                        </View>
+                      )}
+                    </>
+                  )}
+                  {Number(selectedOrder.storage_fee || 0) > 0 && (
+                    <View style={styles.summaryRow}>
+                      <Text style={styles.summaryLabel}>Storage Fee</Text>
+                      <Text style={[styles.summaryValue, { color: '#ef4444' }]}>
+                        ₱{Number(selectedOrder.storage_fee).toFixed(2)}
+                      </Text>
+                    </View>
+                  )}
                   <View style={styles.summaryRow}>
                     <Text style={styles.summaryLabel}>Paid</Text>
                     <Text style={[styles.summaryValue, { color: '#10b981' }]}>
                       ₱{selectedOrder.paid_amount.toFixed(2)}
                     </Text>
                   </View>
+                  {Number(selectedOrder.refunded_amount || 0) > 0 && (
+                    <View style={styles.summaryRow}>
+                      <Text style={styles.summaryLabel}>Refunded</Text>
+                      <Text style={[styles.summaryValue, { color: '#ef4444' }]}>
+                        -₱{Number(selectedOrder.refunded_amount).toFixed(2)}
+                      </Text>
+                    </View>
+                  )}
                   <View style={[styles.summaryRow, styles.summaryRowTotal]}>
                     <Text style={styles.summaryLabelTotal}>Balance</Text>
                     <Text style={styles.summaryValueTotal}>
@@ -1304,10 +1702,46 @@ export default function OrdersScreen() {
                           <Text style={styles.detailValue}>{formatDate(selectedOrder.cancelled_at)}</Text>
                         </View>
                       )}
-                      {selectedOrder.notes && (
+                      {selectedOrder.cancellation_notes && (
                         <View style={styles.detailSection}>
                           <Text style={styles.detailLabel}>Notes</Text>
-                          <Text style={styles.detailValue}>{selectedOrder.notes}</Text>
+                          <Text style={styles.detailValue}>{selectedOrder.cancellation_notes}</Text>
+                        </View>
+                      )}
+                    </View>
+                  </>
+                )}
+
+                {/* Status Timeline */}
+                {statusHistory.length > 0 && (
+                  <>
+                    <Text style={styles.sectionTitle}>Timeline</Text>
+                    <View style={styles.timelineBox}>
+                      {statusHistory.map(entry => (
+                        <View key={entry.id} style={styles.timelineRow}>
+                          <View style={[styles.timelineDot, { backgroundColor: getStatusColor(entry.to_status) }]} />
+                          <View style={{ flex: 1 }}>
+                            <Text style={styles.timelineTitle}>
+                              {entry.from_status ? formatStatusText(entry.to_status) : 'Received'}
+                            </Text>
+                            <Text style={styles.timelineDetail}>
+                              {formatDate(entry.changed_at)} • {(entry.changed_by && historyUserNames[entry.changed_by]) || 'Unknown'}
+                              {entry.device_id ? ` • ${entry.device_id}` : ''}
+                            </Text>
+                            {entry.notes && <Text style={styles.timelineDetail}>{entry.notes}</Text>}
+                          </View>
+                        </View>
+                      ))}
+                      {selectedTurnaround?.turnaround !== null && selectedTurnaround?.turnaround !== undefined && (
+                        <View style={styles.summaryRow}>
+                          <Text style={styles.summaryLabel}>Turnaround (received to ready)</Text>
+                          <Text style={styles.summaryValue}>{formatDuration(selectedTurnaround.turnaround)}</Text>
+                        </View>
+                      )}
+                      {selectedTurnaround?.total !== null && selectedTurnaround?.total !== undefined && (
+                        <View style={styles.summaryRow}>
+                          <Text style={styles.summaryLabel}>Received to pickup</Text>
+                          <Text style={styles.summaryValue}>{formatDuration(selectedTurnaround.total)}</Text>
                         </View>
                       )}
                     </View>
@@ -1330,6 +1764,30 @@ export default function OrdersScreen() {
                   </>
                 )}
 
+                {/* Print History */}
+                {printHistory.length > 0 && (
+                  <>
+                    <Text style={styles.sectionTitle}>Print History</Text>
+                    <View style={styles.timelineBox}>
+                      {printHistory.map(entry => (
+                        <View key={entry.id} style={styles.timelineRow}>
+                          <View style={[styles.timelineDot, { backgroundColor: PRINT_JOB_STATUSES[entry.status].color }]} />
+                          <View style={{ flex: 1 }}>
+                            <Text style={styles.timelineTitle}>
+                              {entry.title}{entry.is_reprint ? ' • Reprint' : ''}
+                            </Text>
+                            <Text style={styles.timelineDetail}>
+                              {PRINT_JOB_STATUSES[entry.status].label} • {formatDate(entry.finished_at)} • {printUserNames[entry.printed_by] || 'Unknown'}
+                              {entry.attempts > 1 ? ` • ${entry.attempts} attempts` : ''}
+                            </Text>
+                            {entry.error && <Text style={styles.timelineDetail}>{entry.error}</Text>}
+                          </View>
+                        </View>
+                      ))}
+                    </View>
+                  </>
+                )}
+
                 {/* Print and QR Code Buttons */}
                 <View style={styles.printButtons}>
                   <TouchableOpacity
@@ -1350,18 +1808,48 @@ export default function OrdersScreen() {
                     </Text>
                   </TouchableOpacity>
                 </View>
+                <TouchableOpacity
+                  style={[styles.printButton, { flex: 0, marginBottom: 8 }]}
+                  onPress={printBagTags}
+                >
+                  <Ionicons name="pricetags-outline" size={20} color="#8b5cf6" />
+                  <Text style={[styles.printButtonText, { color: '#8b5cf6' }]}>
+                    Print Bag Tags ({selectedOrder.bag_count || 1})
+                  </Text>
+                </TouchableOpacity>
 
-                {/* Send Message for Pickup Button - Only show when order is ready */}
-                {selectedOrder.order_status === 'ready' && (
+                {/* Send Message Button - notifications that apply to the order's current state */}
+                {selectedOrder.customers && smsEvents.length > 0 && (
                   <TouchableOpacity
                     style={styles.sendMessageButton}
-                    onPress={handleSendPickupSMS}
+                    onPress={() => setShowSmsOptions(!showSmsOptions)}
                   >
                     <Ionicons name="chatbubble-ellipses-outline" size={20} color="#ffffff" />
-                    <Text style={styles.sendMessageButtonText}>Send Message for Pickup</Text>
+                    <Text style={styles.sendMessageButtonText}>Send Message</Text>
                   </TouchableOpacity>
                 )}
 
+                {showSmsOptions && selectedOrder.customers && (
+                  <View style={styles.smsOptions}>
+                    {SMS_EVENTS.filter(event => smsEvents.includes(event.key)).map(event => (
+                      <TouchableOpacity
+                        key={event.key}
+                        style={styles.smsOption}
+                        onPress={() => {
+                          setShowSmsOptions(false)
+                          sendOrderSMS(selectedOrder, event.key)
+                        }}
+                      >
+                        <View style={{ flex: 1 }}>
+                          <Text style={styles.smsOptionTitle}>{event.label}</Text>
+                          <Text style={styles.smsOptionHint}>{event.description}</Text>
+                        </View>
+                        <Ionicons name="send-outline" size={18} color="#10b981" />
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                )}
+
                 {/* QR Code Display */}
                 {showQRCode && (
                   <View style={styles.qrCodeContainer}>
@@ -1375,7 +1863,7 @@ export default function OrdersScreen() {
 
                 {/* Action Buttons */}
                 <View style={styles.actionButtons}>
-                  {selectedOrder.balance > 0 && (
+                  {selectedOrder.balance > 0 && selectedOrder.order_status !== 'cancelled' && (
                     <TouchableOpacity
                       style={styles.actionButtonPrimary}
                       onPress={() => {
@@ -1388,42 +1876,65 @@ export default function OrdersScreen() {
                     </TouchableOpacity>
                   )}
 
-                  {selectedOrder.order_status !== 'completed' && selectedOrder.order_status !== 'cancelled' && (
-                    <>
-                      <TouchableOpacity
-                        style={styles.actionButtonSecondary}
-                        onPress={() => {
-                          // If order is ready but unpaid, redirect to payment instead of completing
-                          if (selectedOrder.order_status === 'ready' && selectedOrder.payment_status === 'unpaid') {
-                            setShowOrderDetails(false)
-                            setShowPaymentModal(true)
-                            return
-                          }
-                          
-                          const nextStatus = selectedOrder.order_status === 'pending' ? 'in_progress' : 
-                                           selectedOrder.order_status === 'in_progress' ? 'ready' : 'completed'
-                          updateOrderStatus(selectedOrder.id, nextStatus)
-                        }}
-                      >
-                        <Ionicons name="checkmark-circle-outline" size={20} color="#10b981" />
-                        <Text style={[styles.actionButtonText, { color: '#10b981' }]}>
-                          Mark as {selectedOrder.order_status === 'pending' ? 'In Progress' : 
-                                   selectedOrder.order_status === 'in_progress' ? 'Ready' : 'Completed'}
-                        </Text>
-                      </TouchableOpacity>
+                  {getRefundTarget(selectedOrder) && (
+                    <TouchableOpacity
+                      style={styles.actionButtonCancel}
+                      onPress={() => {
+                        setShowOrderDetails(false)
+                        setRefundTarget(getRefundTarget(selectedOrder))
+                      }}
+                    >
+                      <Ionicons name="return-down-back-outline" size={20} color="#ef4444" />
+                      <Text style={[styles.actionButtonText, { color: '#ef4444' }]}>
+                        {selectedOrder.order_status === 'cancelled' ? 'Process Refund' : 'Refund Payment'}
+                      </Text>
+                    </TouchableOpacity>
+                  )}
 
-                      <TouchableOpacity
-                        style={styles.actionButtonCancel}
-                        onPress={() => {
-                          setShowCancelModal(true)
-                        }}
-                      >
-                        <Ionicons name="close-circle-outline" size={20} color="#ef4444" />
-                        <Text style={[styles.actionButtonText, { color: '#ef4444' }]}>
-                          Cancel Order
-                        </Text>
-                      </TouchableOpacity>
-                    </>
+                  {canUncancel(selectedOrder) && (
+                    <TouchableOpacity
+                      style={[styles.actionButtonSecondary, { borderColor: '#3b82f6' }, uncancelling && { opacity: 0.6 }]}
+                      onPress={handleUncancelOrder}
+                      disabled={uncancelling}
+                    >
+                      <Ionicons name="arrow-undo-outline" size={20} color="#3b82f6" />
+                      <Text style={[styles.actionButtonText, { color: '#3b82f6' }]}>Un-cancel Order</Text>
+                    </TouchableOpacity>
+                  )}
+
+                  {nextOrderStatus && (
+                    <TouchableOpacity
+                      style={styles.actionButtonSecondary}
+                      onPress={() => {
+                        // If order is ready but unpaid, redirect to payment instead of completing
+                        if (selectedOrder.order_status === 'ready' && selectedOrder.payment_status === 'unpaid') {
+                          setShowOrderDetails(false)
+                          setShowPaymentModal(true)
+                          return
+                        }
+
+                        updateOrderStatus(selectedOrder.id, nextOrderStatus)
+                      }}
+                    >
+                      <Ionicons name="checkmark-circle-outline" size={20} color="#10b981" />
+                      <Text style={[styles.actionButtonText, { color: '#10b981' }]}>
+                        Mark as {formatStatusText(nextOrderStatus)}
+                      </Text>
+                    </TouchableOpacity>
+                  )}
+
+                  {canCancelOrder(selectedOrder.order_status) && (
+                    <TouchableOpacity
+                      style={styles.actionButtonCancel}
+                      onPress={() => {
+                        setShowCancelModal(true)
+                      }}
+                    >
+                      <Ionicons name="close-circle-outline" size={20} color="#ef4444" />
+                      <Text style={[styles.actionButtonText, { color: '#ef4444' }]}>
+                        Cancel Order
+                      </Text>
+                    </TouchableOpacity>
                   )}
                 </View>
               </ScrollView>
@@ -1437,13 +1948,13 @@ export default function OrdersScreen() {
         visible={showPaymentModal}
         animationType="slide"
         transparent={true}
-        onRequestClose={() => setShowPaymentModal(false)}
+        onRequestClose={closePaymentModal}
       >
         <View style={styles.modalOverlay}>
           <View style={[styles.modalContent, { paddingBottom: insets.bottom }]}>
             <View style={styles.modalHeader}>
               <Text style={styles.modalTitle}>Add Payment</Text>
-              <TouchableOpacity onPress={() => setShowPaymentModal(false)}>
+              <TouchableOpacity onPress={closePaymentModal}>
                 <Ionicons name="close" size={24} color="#111827" />
               </TouchableOpacity>
             </View>
@@ -1469,11 +1980,11 @@ export default function OrdersScreen() {
                   />
 
                   <Text style={styles.inputLabel}>Payment Method</Text>
-                  {paymentMethods.length === 0 ? (
+                  {orderPaymentMethods.length === 0 ? (
                     <Text style={styles.noPaymentMethodsText}>No payment methods available. Please configure payment methods in Settings.</Text>
                   ) : (
                     <View style={styles.paymentMethods}>
-                      {paymentMethods.map(method => (
+                      {orderPaymentMethods.map(method => (
                         <TouchableOpacity
                           key={method.id}
                           style={[
@@ -1501,11 +2012,42 @@ export default function OrdersScreen() {
                     </View>
                   )}
 
+                  {paymentRequirement === 'card' && (
+                    <>
+                      <Text style={styles.inputLabel}>Card Number *</Text>
+                      <TextInput
+                        style={styles.input}
+                        placeholder="Enter card number (last 4 digits or full)"
+                        keyboardType="numeric"
+                        value={paymentCardNumber}
+                        onChangeText={setPaymentCardNumber}
+                      />
+                    </>
+                  )}
+
+                  {paymentRequirement === 'reference' && (
+                    <>
+                      <Text style={styles.inputLabel}>Reference Number *</Text>
+                      <TextInput
+                        style={styles.input}
+                        placeholder={`Enter ${selectedPaymentMethod?.display_name} reference number`}
+                        autoCapitalize="none"
+                        value={paymentReference}
+                        onChangeText={setPaymentReference}
+                      />
+                    </>
+                  )}
+
                   <TouchableOpacity
-                    style={styles.submitButton}
+                    style={[styles.submitButton, recordingPayment && { opacity: 0.6 }]}
                     onPress={handleAddPayment}
+                    disabled={recordingPayment}
                   >
-                    <Text style={styles.submitButtonText}>Record Payment</Text>
+                    {recordingPayment ? (
+                      <ActivityIndicator color="#ffffff" />
+                    ) : (
+                      <Text style={styles.submitButtonText}>Record Payment</Text>
+                    )}
                   </TouchableOpacity>
                 </>
               )}
@@ -1739,7 +2281,7 @@ export default function OrdersScreen() {
                   <View style={styles.cancelWarningBox}>
                     <Ionicons name="alert-circle" size={20} color="#ef4444" />
                     <Text style={styles.cancelWarningText}>
-                      This action cannot be undone. The order will be removed from the orders list and saved to cancelled orders.
+                      The order, its items and payments are kept under Cancelled. Sold products go back into stock and loyalty points are reversed. A manager can un-cancel it within {getStoreSetting(currentStore as any, 'uncancel_window_hours') ?? 24} hours.
                     </Text>
                   </View>
                 </>
@@ -1767,6 +2309,28 @@ export default function OrdersScreen() {
           </View>
         </View>
       </Modal>
+
+      {currentStore && (
+        <RefundModal
+          visible={refundTarget !== null}
+          storeId={currentStore.id}
+          storeName={currentStore.name}
+          target={refundTarget}
+          onClose={() => setRefundTarget(null)}
+          onRefunded={() => loadOrders(true)}
+        />
+      )}
+
+      {currentStore && (
+        <ManagerPinModal
+          visible={showUncancelApproval}
+          storeId={currentStore.id}
+          title="Un-cancel Approval"
+          message="Un-cancelling an order needs a manager's PIN."
+          onApproved={uncancelOrder}
+          onCancel={() => setShowUncancelApproval(false)}
+        />
+      )}
     </View>
   )
 }
@@ -1794,6 +2358,9 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: '#e5e7eb',
   },
+  syncBanner: {
+    marginTop: 12,
+  },
   title: {
     fontSize: 28,
     fontWeight: 'bold',
@@ -1977,6 +2544,25 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#111827',
   },
+  orderCardOverdue: {
+    borderLeftWidth: 4,
+    borderLeftColor: '#ef4444',
+  },
+  overdueText: {
+    color: '#ef4444',
+    fontWeight: '600',
+  },
+  dueBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 10,
+    alignSelf: 'flex-start',
+  },
+  dueBadgeText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
   balanceText: {
     fontSize: 12,
     color: '#ef4444',
@@ -2204,6 +2790,32 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#ffffff',
   },
+  smsOptions: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    marginTop: 8,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  smsOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+    gap: 12,
+  },
+  smsOptionTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  smsOptionHint: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
   qrCodeContainer: {
     backgroundColor: '#ffffff',
     borderRadius: 12,
@@ -2421,4 +3033,31 @@ const styles = StyleSheet.create({
     borderLeftWidth: 4,
     borderLeftColor: '#ef4444',
   },
+  timelineBox: {
+    backgroundColor: '#f9fafb',
+    padding: 16,
+    borderRadius: 8,
+  },
+  timelineRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+    marginBottom: 12,
+  },
+  timelineDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginTop: 5,
+  },
+  timelineTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  timelineDetail: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
 })
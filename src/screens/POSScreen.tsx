@@ -4,9 +4,35 @@ import { Ionicons } from '@expo/vector-icons'
 import { useSafeAreaInsets } from 'react-native-safe-area-context'
 import { supabase } from '../../lib/supabase'
 import { useStore } from '../context/StoreContext'
-import { isFeatureEnabled } from '../utils/featureFlags'
+import { isFeatureEnabled, getStoreSetting } from '../utils/featureFlags'
 import { PaymentMethod } from '../types/paymentMethod'
-import ThermalPrinterService from '../services/ThermalPrinterService'
+import SyncStatusBanner from '../components/SyncStatusBanner'
+import OrderService from '../services/OrderService'
+import OfflineQueueService from '../services/OfflineQueueService'
+import { CreateOrderInput, OrderRecord } from '../types/order'
+import { isNetworkError } from '../utils/network'
+import { PricingMode } from '../types/servicePricing'
+import { calculateServiceCharge, formatItemQuantity, formatWeight, getPriceUnitLabel, isWeightBased } from '../utils/servicePricing'
+import { PricingRule } from '../types/pricingRule'
+import { evaluatePricingRules, summarizeDiscounts } from '../utils/pricingRules'
+import { ManagerApproval, ManualDiscount, Voucher } from '../types/voucher'
+import { applyManualDiscounts, getDiscountApproval, getManualDiscountTotal, requiresManagerApproval, validateVoucher } from '../utils/discounts'
+import ManagerPinModal from '../components/ManagerPinModal'
+import { SeniorPwdType } from '../types/tax'
+import { calculateTax, getSeniorPwdLabel } from '../utils/tax'
+import { LOYALTY_PAYMENT_METHOD, calculatePointsEarned, getPointsNeeded, getPointsValue } from '../utils/loyalty'
+import LoyaltyHistoryModal from '../components/LoyaltyHistoryModal'
+import { TenderInput } from '../types/payment'
+import { CASH_BILLS, addCashBill, getTenderRequirement, isCashMethod, resolveTenders } from '../utils/payments'
+import { formatPromisedAt, getDefaultPromisedAt } from '../utils/dueDates'
+import SMSService from '../services/SMSService'
+import SalesReceiptService from '../services/SalesReceiptService'
+import PrintQueueService from '../services/PrintQueueService'
+import { SalesReceipt } from '../types/salesReceipt'
+import { formatReceiptNumber } from '../utils/salesReceipts'
+import { MAX_BAG_COUNT, clampBagCount } from '../utils/garmentTags'
+import { describePrintJob } from '../utils/printQueue'
+import { getOrderSmsValues, getSmsLanguage, isSmsAutoSendEnabled } from '../utils/smsTemplates'
 
 interface Service {
   id: string
@@ -15,6 +41,12 @@ interface Service {
   icon: string
   description?: string | null
   category?: string | null
+  pricing_mode?: PricingMode | null
+  min_weight?: number | null
+  weight_rounding?: number | null
+  max_weight_per_load?: number | null
+  is_vat_exempt?: boolean | null
+  turnaround_hours?: number | null
 }
 
 interface InventoryItem {
@@ -37,6 +69,10 @@ interface CartItem {
   inventory_item_id?: string
   icon?: string
   stock?: number
+  category?: string | null
+  pricing_mode?: PricingMode | null
+  weight?: number // Measured weight in kg; quantity holds billable kg or loads
+  vat_exempt?: boolean
 }
 
 interface Customer {
@@ -51,6 +87,7 @@ interface Customer {
 
 const POSScreen: React.FC = () => {
   const { currentStore, availableStores, switchStore } = useStore()
+  const oversellPolicy = getStoreSetting(currentStore as any, 'oversell_policy') || 'block'
   const insets = useSafeAreaInsets()
   const [services, setServices] = useState<Service[]>([])
   const [inventoryItems, setInventoryItems] = useState<InventoryItem[]>([])
@@ -83,16 +120,44 @@ const POSScreen: React.FC = () => {
   const [paymentType, setPaymentType] = useState<'full' | 'partial' | 'later'>('full')
   const [partialAmount, setPartialAmount] = useState('')
   const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([])
-  const [selectedPaymentMethodId, setSelectedPaymentMethodId] = useState<string | null>(null)
-  const [cardNumber, setCardNumber] = useState('')
-  const [referenceNumber, setReferenceNumber] = useState('')
+  const [tenders, setTenders] = useState<TenderInput[]>([])
   const [paymentProcessing, setPaymentProcessing] = useState(false)
   const [printingTicket, setPrintingTicket] = useState(false)
+  const [pricingRules, setPricingRules] = useState<PricingRule[]>([])
+
+  // Checkout discounts and vouchers
+  const [manualDiscounts, setManualDiscounts] = useState<ManualDiscount[]>([])
+  const [pendingDiscount, setPendingDiscount] = useState<ManualDiscount | null>(null)
+  const [discountApprovalAmount, setDiscountApprovalAmount] = useState<number | null>(null) // Discount total waiting for a manager PIN
+  const [showDiscountForm, setShowDiscountForm] = useState(false)
+  const [discountItemKey, setDiscountItemKey] = useState<string | null>(null)
+  const [discountType, setDiscountType] = useState<'percent' | 'fixed'>('percent')
+  const [discountValue, setDiscountValue] = useState('')
+  const [discountReason, setDiscountReason] = useState('')
+  const [voucherCode, setVoucherCode] = useState('')
+  const [applyingVoucher, setApplyingVoucher] = useState(false)
+
+  // Senior citizen / PWD exemption
+  const [seniorPwdType, setSeniorPwdType] = useState<SeniorPwdType | null>(null)
+  const [seniorPwdId, setSeniorPwdId] = useState('')
+  const [seniorPwdName, setSeniorPwdName] = useState('')
+
+  // Loyalty points history shown from the customer picker
+  const [loyaltyHistoryCustomer, setLoyaltyHistoryCustomer] = useState<Customer | null>(null)
+
+  // Weighed service entry
+  const [weighingService, setWeighingService] = useState<Service | null>(null)
+  const [weightInput, setWeightInput] = useState('')
+
+  // Promised ready date picked at checkout; null uses the default from the service turnaround times
+  const [promisedAt, setPromisedAt] = useState<Date | null>(null)
+  const [bagCount, setBagCount] = useState(1)
 
   // Load services and inventory from database
   useEffect(() => {
     loadServices()
     loadPaymentMethods()
+    loadPricingRules()
     // Only load inventory if the feature is enabled
     if (isFeatureEnabled(currentStore as any, 'inventory_tracking')) {
       loadInventoryItems()
@@ -161,13 +226,18 @@ const POSScreen: React.FC = () => {
     try {
       console.log('Loading inventory items from database...')
       
-      const { data, error } = await supabase
+      let query = supabase
         .from('inventory_items')
         .select('*')
         .eq('store_id', currentStore.id)
         .eq('is_active', true)
-        .gt('current_stock', 0) // Only show items in stock
-        .order('name', { ascending: true })
+
+      // Only show items in stock unless the store allows overselling with a warning
+      if (oversellPolicy === 'block') {
+        query = query.gt('current_stock', 0)
+      }
+
+      const { data, error } = await query.order('name', { ascending: true })
 
       if (error) {
         console.error('Inventory query error:', error)
@@ -182,6 +252,29 @@ const POSScreen: React.FC = () => {
     }
   }
 
+  const loadPricingRules = async () => {
+    if (!currentStore) {
+      setPricingRules([])
+      return
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('pricing_rules')
+        .select('*')
+        .eq('store_id', currentStore.id)
+        .eq('is_active', true)
+        .order('priority', { ascending: true })
+
+      if (error) throw error
+      setPricingRules(data || [])
+    } catch (error: any) {
+      // Promotions are optional; sell at regular prices if they can't be loaded
+      console.error('Error loading pricing rules:', error)
+      setPricingRules([])
+    }
+  }
+
   const loadPaymentMethods = async () => {
     if (!currentStore) {
       console.log('No current store, skipping payment methods load')
@@ -208,10 +301,8 @@ const POSScreen: React.FC = () => {
       console.log('Payment methods loaded:', data?.length || 0, 'methods')
       setPaymentMethods(data || [])
       
-      // Set default selected payment method (first active method)
-      if (data && data.length > 0) {
-        setSelectedPaymentMethodId(data[0].id)
-      }
+      // Start with one tender on the first active method
+      setTenders(data && data.length > 0 ? [createTender(data[0].id)] : [])
     } catch (error: any) {
       console.error('Error loading payment methods:', error)
       // Fallback to default payment methods if database fails
@@ -390,12 +481,111 @@ const POSScreen: React.FC = () => {
     setSelectedCustomer(null)
   }
 
-  // Calculate totals
-  const totalAmount = cart.reduce((sum, item) => sum + (item.price * item.quantity), 0)
-  const totalItems = cart.reduce((sum, item) => sum + item.quantity, 0)
+  // Calculate totals with the store's promotions applied, then checkout discounts
+  const pricingLines = cart.map(item => ({
+    key: `${item.type}-${item.id}`,
+    item_type: item.type,
+    service_id: item.service_id,
+    inventory_item_id: item.inventory_item_id,
+    category: item.category,
+    quantity: item.quantity,
+    unit_price: item.price,
+    pricing_mode: item.pricing_mode,
+  }))
+  const rulePricing = evaluatePricingRules(pricingRules, pricingLines)
+  const pricing = applyManualDiscounts(rulePricing, pricingLines, manualDiscounts)
+  const discountApprovalThreshold = getStoreSetting(currentStore as any, 'discount_approval_threshold') ?? 10
+  // VAT on the discounted cart when the store calculates tax
+  const taxEnabled = isFeatureEnabled(currentStore as any, 'tax_calculation')
+  const taxResult = taxEnabled
+    ? calculateTax(pricing, pricingLines, cart.map(item => ({ vat_exempt: !!item.vat_exempt })), {
+        rate: getStoreSetting(currentStore as any, 'tax_rate') ?? 0,
+        inclusive: getStoreSetting(currentStore as any, 'tax_inclusive') ?? true,
+        seniorPwd: seniorPwdType
+          ? { type: seniorPwdType, id_number: seniorPwdId.trim(), name: seniorPwdName.trim() }
+          : null,
+        seniorPwdDiscountRate: getStoreSetting(currentStore as any, 'senior_pwd_discount_rate') ?? 20,
+      })
+    : null
+  const orderAdjustments = taxResult ? [...pricing.adjustments, ...taxResult.adjustments] : pricing.adjustments
+  const subtotalAmount = pricing.subtotal
+  const discountAmount = Math.round(orderAdjustments.reduce((sum, adj) => sum + adj.amount, 0) * 100) / 100
+  const taxAmount = taxResult ? taxResult.breakdown.tax : 0
+  const totalAmount = taxResult ? taxResult.total : pricing.total
+  // Promised ready date: the longest turnaround of the services in the cart unless changed at checkout
+  const defaultPromisedAt = getDefaultPromisedAt(
+    cart
+      .filter(item => item.type === 'service')
+      .map(item => services.find(service => service.id === item.service_id)?.turnaround_hours),
+    getStoreSetting(currentStore as any, 'default_turnaround_hours') ?? 24
+  )
+  const readyBy = defaultPromisedAt ? promisedAt ?? defaultPromisedAt : null
+
+  const adjustPromisedAt = (hours: number) => {
+    if (!readyBy) return
+    const adjusted = new Date(readyBy.getTime() + hours * 60 * 60 * 1000)
+    setPromisedAt(adjusted < new Date() ? new Date() : adjusted)
+  }
+
+  // Loyalty points: earned on payments, redeemable as a payment method by the selected customer
+  const loyaltyEnabled = isFeatureEnabled(currentStore as any, 'loyalty_points')
+  const loyaltyPointsRate = getStoreSetting(currentStore as any, 'loyalty_points_rate') ?? 1
+  const loyaltyPointValue = getStoreSetting(currentStore as any, 'loyalty_points_value') ?? 1
+  const loyaltyBalanceValue = selectedCustomer ? getPointsValue(selectedCustomer.loyalty_points, loyaltyPointValue) : 0
+  const checkoutPaymentMethods = paymentMethods.filter(method =>
+    method.name !== LOYALTY_PAYMENT_METHOD || (loyaltyEnabled && loyaltyBalanceValue > 0)
+  )
+  // Split tender: the amount paid now can be spread over several payment methods.
+  // A tender with a blank amount pays whatever the others leave.
+  const checkoutAmountDue = paymentType === 'full' ? totalAmount : paymentType === 'partial' ? (parseFloat(partialAmount) || 0) : 0
+  const typedTenderTotal = tenders.reduce((sum, tender) => sum + (parseFloat(tender.amount) || 0), 0)
+  const tenderRemaining = tenders.some(tender => !tender.amount.trim())
+    ? 0
+    : Math.max(0, Math.round((checkoutAmountDue - typedTenderTotal) * 100) / 100)
+  const tenderChange = Math.max(0, Math.round((typedTenderTotal - checkoutAmountDue) * 100) / 100)
+  const hasLoyaltyTender = tenders.some(tender =>
+    checkoutPaymentMethods.find(m => m.id === tender.payment_method_id)?.name === LOYALTY_PAYMENT_METHOD
+  )
+  // Weighed lines count as one item each
+  const totalItems = cart.reduce((sum, item) => sum + (isWeightBased(item.pricing_mode) ? 1 : item.quantity), 0)
+
+  const createTender = (paymentMethodId: string | null): TenderInput => ({
+    key: `tender-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+    payment_method_id: paymentMethodId,
+    amount: '',
+    card_number: '',
+    reference_number: '',
+  })
+
+  // Back to a single tender on the first payment method
+  const resetTenders = () => {
+    setTenders(paymentMethods.length > 0 ? [createTender(paymentMethods[0].id)] : [])
+  }
+
+  const updateTender = (key: string, changes: Partial<TenderInput>) => {
+    setTenders(prev => prev.map(tender => tender.key === key ? { ...tender, ...changes } : tender))
+  }
+
+  const addTender = () => {
+    // Suggest a method that is not used yet
+    const unused = checkoutPaymentMethods.find(method => !tenders.some(tender => tender.payment_method_id === method.id))
+    setTenders(prev => [...prev, createTender(unused?.id || null)])
+  }
+
+  const removeTender = (key: string) => {
+    setTenders(prev => prev.filter(tender => tender.key !== key))
+  }
 
   // Add service to cart
   const addServiceToCart = (service: Service) => {
+    // Weighed services ask for the weight first
+    if (isWeightBased(service.pricing_mode)) {
+      const existing = cart.find(item => item.type === 'service' && item.service_id === service.id)
+      setWeightInput(existing?.weight ? existing.weight.toString() : '')
+      setWeighingService(service)
+      return
+    }
+
     setCart(prev => {
       const existing = prev.find(item => item.type === 'service' && item.service_id === service.id)
       if (existing) {
@@ -412,40 +602,112 @@ const POSScreen: React.FC = () => {
           quantity: 1,
           type: 'service',
           service_id: service.id,
-          icon: service.icon
+          icon: service.icon,
+          category: service.category,
+          vat_exempt: !!service.is_vat_exempt,
         }]
       }
     })
   }
 
-  const addProductToCart = (product: InventoryItem) => {
+  /**
+   * Add or update a weighed service line from the entered weight
+   */
+  const confirmServiceWeight = () => {
+    if (!weighingService) return
+
+    const weight = parseFloat(weightInput)
+    if (isNaN(weight) || weight <= 0) {
+      Alert.alert('Invalid Weight', 'Please enter the weight in kilograms')
+      return
+    }
+
+    const service = weighingService
+    const charge = calculateServiceCharge(service, weight)
+
     setCart(prev => {
-      const existing = prev.find(item => item.type === 'product' && item.inventory_item_id === product.id)
-      
-      // Check if adding would exceed stock
-      const newQuantity = existing ? existing.quantity + 1 : 1
-      if (newQuantity > product.current_stock) {
-        Alert.alert('Out of Stock', `Only ${product.current_stock} ${product.unit_of_measure} available`)
-        return prev
+      const line: CartItem = {
+        id: service.id,
+        name: service.name,
+        price: service.price,
+        quantity: charge.quantity,
+        type: 'service',
+        service_id: service.id,
+        icon: service.icon,
+        category: service.category,
+        pricing_mode: service.pricing_mode,
+        weight: charge.weight,
+        vat_exempt: !!service.is_vat_exempt,
       }
-      
-      if (existing) {
-        return prev.map(item => 
-          item.type === 'product' && item.inventory_item_id === product.id
-            ? { ...item, quantity: newQuantity }
-            : item
-        )
+      const exists = prev.some(item => item.type === 'service' && item.service_id === service.id)
+      return exists
+        ? prev.map(item => (item.type === 'service' && item.service_id === service.id ? line : item))
+        : [...prev, line]
+    })
+
+    setWeighingService(null)
+    setWeightInput('')
+  }
+
+  /**
+   * Enforce the store's oversell policy when a product quantity exceeds stock.
+   * Blocks the change, or asks for confirmation when the policy is 'warn'.
+   */
+  const confirmStockAvailable = (
+    name: string,
+    quantity: number,
+    available: number,
+    unit: string,
+    onConfirm: () => void
+  ) => {
+    if (quantity <= available) {
+      onConfirm()
+      return
+    }
+
+    if (oversellPolicy === 'warn') {
+      Alert.alert(
+        'Low Stock',
+        `Only ${available} ${unit} of ${name} in stock. Sell ${quantity} anyway?`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Sell Anyway', onPress: onConfirm },
+        ]
+      )
     } else {
-        return [...prev, {
-          id: product.id,
-          name: product.name,
-          price: product.unit_price,
-          quantity: 1,
-          type: 'product',
-          inventory_item_id: product.id,
-          stock: product.current_stock
-        }]
-      }
+      Alert.alert('Out of Stock', `Only ${available} ${unit} available`)
+    }
+  }
+
+  const addProductToCart = (product: InventoryItem) => {
+    const inCart = cart.find(item => item.type === 'product' && item.inventory_item_id === product.id)
+    const requestedQuantity = inCart ? inCart.quantity + 1 : 1
+
+    // Check if adding would exceed stock
+    confirmStockAvailable(product.name, requestedQuantity, product.current_stock, product.unit_of_measure, () => {
+      setCart(prev => {
+        const existing = prev.find(item => item.type === 'product' && item.inventory_item_id === product.id)
+        const newQuantity = existing ? existing.quantity + 1 : 1
+
+        if (existing) {
+          return prev.map(item =>
+            item.type === 'product' && item.inventory_item_id === product.id
+              ? { ...item, quantity: newQuantity }
+              : item
+          )
+        } else {
+          return [...prev, {
+            id: product.id,
+            name: product.name,
+            price: product.unit_price,
+            quantity: 1,
+            type: 'product',
+            inventory_item_id: product.id,
+            stock: product.current_stock,
+            category: product.category,
+          }]
+        }
+      })
     })
   }
 
@@ -463,20 +725,173 @@ const POSScreen: React.FC = () => {
       return
     }
     
+    const applyQuantity = () => {
+      setCart(prev => prev.map(item => 
+        item.id === itemId && item.type === itemType
+            ? { ...item, quantity }
+            : item
+        ))
+    }
+
     // Check stock for products
     if (itemType === 'product') {
       const cartItem = cart.find(item => item.id === itemId && item.type === 'product')
-      if (cartItem && cartItem.stock && quantity > cartItem.stock) {
-        Alert.alert('Out of Stock', `Only ${cartItem.stock} available`)
+      if (cartItem && cartItem.stock !== undefined && quantity > cartItem.quantity) {
+        const product = inventoryItems.find(p => p.id === cartItem.inventory_item_id)
+        confirmStockAvailable(cartItem.name, quantity, cartItem.stock, product?.unit_of_measure || 'pcs', applyQuantity)
         return
       }
     }
     
-    setCart(prev => prev.map(item => 
-      item.id === itemId && item.type === itemType
-          ? { ...item, quantity }
-          : item
-      ))
+    applyQuantity()
+  }
+
+  const resetDiscountForm = () => {
+    setShowDiscountForm(false)
+    setDiscountItemKey(null)
+    setDiscountType('percent')
+    setDiscountValue('')
+    setDiscountReason('')
+  }
+
+  // Add a checkout discount, asking for a manager PIN when the discount total goes over the
+  // store's threshold and over what a manager already approved. Returns false while the
+  // discount waits for approval.
+  const addManualDiscount = (discount: ManualDiscount): boolean => {
+    const result = applyManualDiscounts(rulePricing, pricingLines, [...manualDiscounts, discount])
+    const approval = getDiscountApproval(manualDiscounts)
+    if (requiresManagerApproval(result, discountApprovalThreshold, approval?.max_amount ?? 0)) {
+      setPendingDiscount(discount)
+      setDiscountApprovalAmount(getManualDiscountTotal(result))
+      return false
+    }
+    // Still over the threshold but within the approved total: the same approval covers it
+    const needsApproval = requiresManagerApproval(result, discountApprovalThreshold)
+    setManualDiscounts([...manualDiscounts, { ...discount, approval: needsApproval ? approval : null }])
+    return true
+  }
+
+  const handleDiscountApproved = (approval: ManagerApproval) => {
+    if (pendingDiscount) {
+      setManualDiscounts(prev => [...prev, { ...pendingDiscount, approval }])
+      if (pendingDiscount.source === 'voucher') {
+        setVoucherCode('')
+      } else {
+        resetDiscountForm()
+      }
+    } else {
+      // Re-approval of discounts that changed or whose approval expired: the new approval
+      // replaces the old ones, or goes on the last discount when none was approved
+      setManualDiscounts(prev => {
+        const hadApproval = prev.some(discount => discount.approval)
+        return prev.map((discount, index) =>
+          (hadApproval ? discount.approval : index === prev.length - 1) ? { ...discount, approval } : discount
+        )
+      })
+    }
+    setPendingDiscount(null)
+    setDiscountApprovalAmount(null)
+  }
+
+  const cancelDiscountApproval = () => {
+    setPendingDiscount(null)
+    setDiscountApprovalAmount(null)
+  }
+
+  const handleAddDiscount = () => {
+    const value = parseFloat(discountValue)
+    if (isNaN(value) || value <= 0) {
+      Alert.alert('Invalid Discount', 'Please enter a discount greater than zero')
+      return
+    }
+    if (discountType === 'percent' && value > 100) {
+      Alert.alert('Invalid Discount', 'A percentage discount cannot exceed 100%')
+      return
+    }
+
+    const label = discountType === 'percent' ? `${value}%` : `₱${value.toFixed(2)}`
+    const added = addManualDiscount({
+      id: `manual-${Date.now()}`,
+      source: 'manual',
+      item_key: discountItemKey,
+      discount_type: discountType,
+      discount_value: value,
+      description: discountReason.trim() || `Discount ${label}`,
+    })
+    if (added) resetDiscountForm()
+  }
+
+  const handleApplyVoucher = async () => {
+    if (!currentStore) return
+
+    // Codes are stored uppercase
+    const code = voucherCode.trim().toUpperCase()
+    if (!code) {
+      Alert.alert('Voucher', 'Please enter a voucher code')
+      return
+    }
+    if (manualDiscounts.some(discount => discount.source === 'voucher')) {
+      Alert.alert('Voucher', 'Only one voucher can be used per order')
+      return
+    }
+
+    setApplyingVoucher(true)
+    try {
+      const { data, error } = await supabase
+        .from('vouchers')
+        .select('*')
+        .eq('code', code)
+        .or(`store_id.is.null,store_id.eq.${currentStore.id}`)
+        .limit(1)
+
+      if (error) throw error
+
+      const voucher = (data && data[0]) as Voucher | undefined
+      if (!voucher) {
+        Alert.alert('Voucher', 'Voucher code not found')
+        return
+      }
+
+      const { data: usage, error: usageError } = await supabase.rpc('get_voucher_usage', {
+        p_voucher_id: voucher.id,
+      })
+
+      if (usageError) throw usageError
+
+      const problem = validateVoucher(voucher, currentStore.id, subtotalAmount, usage || 0)
+      if (problem) {
+        Alert.alert('Voucher', problem)
+        return
+      }
+
+      console.log('✅ Voucher applied:', voucher.code)
+      const discount: ManualDiscount = {
+        id: `voucher-${voucher.id}`,
+        source: 'voucher',
+        item_key: null,
+        discount_type: voucher.discount_type,
+        discount_value: voucher.discount_value,
+        max_discount: voucher.max_discount,
+        description: `Voucher ${voucher.code.toUpperCase()}`,
+        voucher_id: voucher.id,
+      }
+
+      if (addManualDiscount(discount)) setVoucherCode('')
+    } catch (error: any) {
+      console.error('❌ Error applying voucher:', error)
+      Alert.alert(
+        'Error',
+        isNetworkError(error)
+          ? 'Vouchers need an internet connection'
+          : error.message || 'Failed to apply voucher'
+      )
+    } finally {
+      setApplyingVoucher(false)
+    }
+  }
+
+  const removeManualDiscount = (id: string) => {
+    setManualDiscounts(prev => prev.filter(discount => discount.id !== id))
   }
 
   // Process payment and create order
@@ -491,11 +906,27 @@ const POSScreen: React.FC = () => {
       return
     }
 
+    if (taxEnabled && seniorPwdType && (!seniorPwdId.trim() || !seniorPwdName.trim())) {
+      Alert.alert('Error', `Please enter the ${getSeniorPwdLabel(seniorPwdType)} ID number and name`)
+      return
+    }
+
     if (!selectedCustomer) {
       Alert.alert('Customer Required', 'Please select a customer before completing the order')
       return
     }
 
+    // The cart changed or the approval expired since a manager approved the discounts
+    const now = new Date()
+    const approvalExpired = manualDiscounts.some(discount =>
+      discount.approval && new Date(discount.approval.expires_at) <= now
+    )
+    const discountApproval = getDiscountApproval(manualDiscounts, now)
+    if (approvalExpired || requiresManagerApproval(pricing, discountApprovalThreshold, discountApproval?.max_amount ?? 0)) {
+      setDiscountApprovalAmount(getManualDiscountTotal(pricing))
+      return
+    }
+
     let amountPaid = 0
     let balanceDue = 0
 
@@ -519,119 +950,157 @@ const POSScreen: React.FC = () => {
         return
       }
 
+    // Validate the tenders before anything is written
+    const resolved = resolveTenders(tenders, checkoutPaymentMethods, amountPaid, `Initial ${paymentType} payment`)
+    if (resolved.error) {
+      Alert.alert('Validation Error', resolved.error)
+      return
+    }
+
+    const pointsAmount = resolved.payments
+      .filter(payment => payment.payment_method === LOYALTY_PAYMENT_METHOD)
+      .reduce((sum, payment) => sum + payment.amount, 0)
+    if (pointsAmount > loyaltyBalanceValue) {
+      Alert.alert(
+        'Not Enough Points',
+        `${selectedCustomer.loyalty_points} pts can pay up to ₱${loyaltyBalanceValue.toFixed(2)}. Pay the rest with another payment method.`
+      )
+      return
+    }
+
     setPaymentProcessing(true)
     try {
-      // Get current user
-      const { data: { user } } = await supabase.auth.getUser()
-      if (!user) {
+      // Get current user from the stored session so this also works offline
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session?.user) {
+        setPaymentProcessing(false)
         Alert.alert('Error', 'User not authenticated')
         return
       }
 
-      // Determine payment status
-      let paymentStatus = 'unpaid'
-      if (amountPaid === totalAmount) {
-        paymentStatus = 'paid'
-      } else if (amountPaid > 0) {
-        paymentStatus = 'partial'
+      const orderInput: CreateOrderInput = {
+        storeId: currentStore.id,
+        customerId: selectedCustomer?.id || null,
+        items: cart.map(item => ({
+          item_type: item.type,
+          service_id: item.type === 'service' ? item.service_id : null,
+          inventory_item_id: item.type === 'product' ? item.inventory_item_id : null,
+          name: item.name, // Works for both services and products
+          quantity: item.quantity,
+          unit_price: item.price,
+          pricing_mode: item.type === 'service' ? item.pricing_mode || 'per_piece' : 'per_piece',
+          weight: item.weight ?? null,
+          vat_exempt: !!item.vat_exempt,
+        })),
+        payments: resolved.payments.length > 0 ? resolved.payments : null,
+        notes: selectedCustomer ? `Customer: ${selectedCustomer.first_name} ${selectedCustomer.last_name}` : null,
+        adjustments: orderAdjustments,
+        tax: taxResult ? taxResult.breakdown : null,
+        promisedAt: readyBy ? readyBy.toISOString() : null,
+        bagCount: readyBy ? bagCount : null,
       }
 
-      // Create order
-      const { data: orderData, error: orderError } = await supabase
-        .from('orders')
-        .insert({
-          store_id: currentStore.id,
-          customer_id: selectedCustomer?.id || null,
-          subtotal: totalAmount,
-          tax: 0,
-          discount: 0,
-          total_amount: totalAmount,
-          paid_amount: amountPaid,
-          balance: balanceDue,
-          payment_status: paymentStatus,
-          order_status: 'pending',
-          created_by: user.id,
-          notes: selectedCustomer ? `Customer: ${selectedCustomer.first_name} ${selectedCustomer.last_name}` : null,
-        })
-        .select()
-        .single()
-
-      if (orderError) throw orderError
-      if (!orderData) throw new Error('Failed to create order')
-
-      console.log('Order created:', orderData)
-
-      // Create order items
-      const orderItems = cart.map(item => ({
-        order_id: orderData.id,
-        service_id: item.type === 'service' ? item.service_id : null,
-        inventory_item_id: item.type === 'product' ? item.inventory_item_id : null,
-        item_type: item.type,
-        service_name: item.name, // Works for both services and products
-        quantity: item.quantity,
-        unit_price: item.price,
-        total_price: item.price * item.quantity,
-      }))
-
-      const { error: itemsError } = await supabase
-        .from('order_items')
-        .insert(orderItems)
-
-      if (itemsError) throw itemsError
-
-      console.log('Order items created:', orderItems.length)
+      // Create order, items, payment and inventory deductions in one transaction.
+      // If the server can't be reached, queue the order and print with a provisional number.
+      let orderData: Pick<OrderRecord, 'id' | 'order_number' | 'order_date' | 'created_at'>
+      let savedOffline = false
+      try {
+        orderData = await OrderService.createOrderWithItems(orderInput)
+        console.log('Order created:', orderData)
+
+        // Refresh stock levels after products were deducted
+        if (cart.some(item => item.type === 'product')) {
+          loadInventoryItems()
+        }
+      } catch (createError) {
+        if (!isNetworkError(createError)) throw createError
 
-      // Create payment record if amount was paid
-      if (amountPaid > 0) {
-        const selectedMethod = paymentMethods.find(m => m.id === selectedPaymentMethodId)
-        if (!selectedMethod) {
-          throw new Error('No payment method selected')
+        const queued = await OfflineQueueService.queueOrder(orderInput, {
+          customerName: `${selectedCustomer.first_name} ${selectedCustomer.last_name}`.trim(),
+          totalAmount,
+        })
+        orderData = {
+          id: queued.clientReference,
+          order_number: queued.provisionalOrderNumber,
+          order_date: queued.createdAt,
+          created_at: queued.createdAt,
         }
+        savedOffline = true
+      }
 
-        // Validate required fields based on payment method
-        const methodName = selectedMethod.name.toLowerCase()
-        if (methodName === 'card' || methodName.includes('card')) {
-          if (!cardNumber.trim()) {
-            Alert.alert('Validation Error', 'Please enter Card Number for Credit/Debit Card payment')
-            return
-          }
-        } else if (methodName === 'gcash' || methodName === 'paymaya') {
-          if (!referenceNumber.trim()) {
-            Alert.alert('Validation Error', `Please enter Reference Number for ${selectedMethod.display_name} payment`)
-            return
-          }
+      // Numbered receipts are issued online only; offline orders print the claim stub alone
+      let salesReceipt: SalesReceipt | null = null
+      if (!savedOffline && resolved.payments.length > 0) {
+        try {
+          salesReceipt = await SalesReceiptService.issueReceipt(orderData.id)
+        } catch (receiptError) {
+          console.error('⚠️ Failed to issue sales receipt:', receiptError)
         }
+      }
 
-        const { error: paymentError } = await supabase
-          .from('payments')
-          .insert({
-            order_id: orderData.id,
-            amount: amountPaid,
-            payment_method: selectedMethod.name, // Store the method name for backward compatibility
-            payment_method_id: selectedMethod.id, // Link to payment_methods table
-            card_number: (methodName === 'card' || methodName.includes('card')) ? cardNumber.trim() : null,
-            reference_number: (methodName === 'gcash' || methodName === 'paymaya') ? referenceNumber.trim() : null,
-            received_by: user.id,
-            notes: `Initial ${paymentType} payment`,
-          })
-
-        if (paymentError) throw paymentError
-        console.log('Payment recorded:', amountPaid)
+      // Points are posted by the database for each payment row
+      let loyaltyMessage = ''
+      if (loyaltyEnabled && resolved.payments.length > 0) {
+        const pointsRedeemed = resolved.payments
+          .filter(payment => payment.payment_method === LOYALTY_PAYMENT_METHOD)
+          .reduce((sum, payment) => sum + getPointsNeeded(payment.amount, loyaltyPointValue), 0)
+        const pointsEarned = resolved.payments
+          .filter(payment => payment.payment_method !== LOYALTY_PAYMENT_METHOD)
+          .reduce((sum, payment) => sum + calculatePointsEarned(payment.amount, loyaltyPointsRate), 0)
+        if (pointsRedeemed > 0) loyaltyMessage += `\nPoints Redeemed: ${pointsRedeemed}`
+        if (pointsEarned > 0) loyaltyMessage += `\nPoints Earned: ${pointsEarned}`
       }
 
       setPaymentProcessing(false)
       // Show success message first
       Alert.alert(
-        'Order Created Successfully!', 
-        `Order Number: ${orderData.order_number}\nTotal: ₱${totalAmount.toFixed(2)}\nPaid: ₱${amountPaid.toFixed(2)}\nBalance: ₱${balanceDue.toFixed(2)}`,
+        savedOffline ? 'Order Saved Offline' : 'Order Created Successfully!',
+        `Order Number: ${orderData.order_number}\nTotal: ₱${totalAmount.toFixed(2)}\nPaid: ₱${amountPaid.toFixed(2)}\nBalance: ₱${balanceDue.toFixed(2)}` +
+          (resolved.change > 0 ? `\nChange: ₱${resolved.change.toFixed(2)}` : '') +
+          (salesReceipt ? `\nOR No.: ${formatReceiptNumber(salesReceipt.receipt_number)}` : '') +
+          (readyBy ? `\nReady By: ${formatPromisedAt(readyBy)}` : '') +
+          loyaltyMessage +
+          (savedOffline ? '\n\nNo connection. The order will be uploaded automatically when the device is back online.' : ''),
         [
           {
             text: 'OK',
-            onPress: () => {
+            onPress: async () => {
+              // Tell the customer the order was received when auto-send is on. Offline orders
+              // only have a provisional number, so they are not texted.
+              if (!savedOffline && currentStore && selectedCustomer?.phone && isSmsAutoSendEnabled(currentStore as any)) {
+                try {
+                  await SMSService.sendNotification({
+                    storeId: currentStore.id,
+                    phoneNumber: selectedCustomer.phone,
+                    event: 'order_received',
+                    language: getSmsLanguage(currentStore as any),
+                    values: getOrderSmsValues(
+                      {
+                        customerFirstName: selectedCustomer.first_name,
+                        orderNumber: orderData.order_number,
+                        balance: balanceDue,
+                        promisedAt: orderInput.promisedAt,
+                        items: cart.map(item => ({
+                          service_name: item.name,
+                          quantity: item.quantity,
+                          pricing_mode: item.pricing_mode,
+                          weight: item.weight,
+                        })),
+                      },
+                      { name: currentStore.name, phone: currentStore.phone }
+                    ),
+                  })
+                } catch (smsError) {
+                  console.error('❌ Error sending order received SMS:', smsError)
+                }
+              }
+
               // Prompt to print claim ticket after success
               Alert.alert(
                 'Print Claim Ticket',
-                'Would you like to print the claim ticket?',
+                salesReceipt
+                  ? 'Would you like to print the claim ticket and the official receipt?'
+                  : 'Would you like to print the claim ticket?',
                 [
                   {
                     text: 'Cancel',
@@ -639,16 +1108,17 @@ const POSScreen: React.FC = () => {
                     onPress: () => {
                       // Reset form
                       setCart([])
+                      setManualDiscounts([])
+                      setSeniorPwdType(null)
+                      setSeniorPwdId('')
+                      setSeniorPwdName('')
+                      setPromisedAt(null)
+                      setBagCount(1)
                       setSelectedCustomer(null)
                       setShowPaymentModal(false)
                       setPartialAmount('')
                       setPaymentType('full')
-                      setCardNumber('')
-                      setReferenceNumber('')
-                      // Reset to first payment method
-                      if (paymentMethods.length > 0) {
-                        setSelectedPaymentMethodId(paymentMethods[0].id)
-                      }
+                      resetTenders()
                     }
                   },
                   {
@@ -710,10 +1180,24 @@ const POSScreen: React.FC = () => {
                           customerName: customerName,
                           orderDate: orderDate,
                           totalAmount: totalAmount,
+                          subtotal: subtotalAmount,
+                          discounts: summarizeDiscounts(orderAdjustments),
+                          tax: taxResult ? taxResult.breakdown : null,
+                          payments: resolved.payments.map(payment => ({
+                            method: checkoutPaymentMethods.find(m => m.id === payment.payment_method_id)?.display_name || payment.payment_method,
+                            amount: payment.amount,
+                            reference: payment.reference_number || (payment.card_number ? `****${payment.card_number.slice(-4)}` : null),
+                            tendered: payment.amount_tendered,
+                          })),
+                          change: resolved.change,
+                          balance: balanceDue,
+                          promisedAt: orderInput.promisedAt,
                           items: cart.map(item => ({
                             name: item.name,
                             quantity: item.quantity,
                             price: item.price,
+                            pricing_mode: item.pricing_mode,
+                            weight: item.weight,
                           })),
                           storeInfo: storeInfo,
                         }
@@ -722,15 +1206,31 @@ const POSScreen: React.FC = () => {
                         console.log('📋 Print order data:', JSON.stringify(printOrder, null, 2))
                         console.log('📞 Store phone:', storeInfo?.phone)
                         console.log('📧 Store email:', storeInfo?.email)
-                        const printSuccess = await ThermalPrinterService.getInstance().printOrderClaimStub(printOrder)
-                        
-                        if (printSuccess) {
-                          console.log('✅ Claim ticket printed successfully')
-                          // Exit after printing: close modal and reset (no success alert)
-                        } else {
-                          console.log('⚠️ Claim ticket printing failed or printer not available')
-                          Alert.alert('Print Failed', 'Failed to print claim ticket. Please check your printer connection.')
+                        // Jobs print in order; any that pause or fail stay in Print Queue for staff
+                        // to resume or retry
+                        const claimStubJob = await PrintQueueService.printClaimStub(orderInput.storeId, printOrder)
+                        const jobs = [claimStubJob]
+
+                        if (salesReceipt) {
+                          jobs.push(await SalesReceiptService.printReceipt(salesReceipt))
                         }
+                        // One tag per bag of laundry; product-only orders have no bags
+                        if (orderInput.bagCount) {
+                          jobs.push(await PrintQueueService.printGarmentTags(orderInput.storeId, {
+                            orderId: orderData.id,
+                            orderNumber: orderData.order_number,
+                            customerName,
+                            bagCount: orderInput.bagCount,
+                            promisedAt: orderInput.promisedAt,
+                          }))
+                        }
+
+                        const unprinted = jobs.filter(job => job.status !== 'printed')
+                        if (unprinted.length > 0) {
+                          console.log('⚠️ Some print jobs did not print:', unprinted.map(job => job.title).join(', '))
+                          Alert.alert('Print Failed', unprinted.map(describePrintJob).join('\n\n'))
+                        }
+                        // Exit after printing: close modal and reset (no success alert)
                       } catch (printError: any) {
                         console.error('❌ Error printing claim ticket:', printError)
                         Alert.alert('Print Error', `Failed to print claim ticket: ${printError.message || 'Unknown error'}`)
@@ -738,16 +1238,17 @@ const POSScreen: React.FC = () => {
                         setPrintingTicket(false)
                         // Exit after printing: reset form and close payment modal
                         setCart([])
+                        setManualDiscounts([])
+                        setSeniorPwdType(null)
+                        setSeniorPwdId('')
+                        setSeniorPwdName('')
+                        setPromisedAt(null)
+                        setBagCount(1)
                         setSelectedCustomer(null)
                         setShowPaymentModal(false)
                         setPartialAmount('')
                         setPaymentType('full')
-                        setCardNumber('')
-                        setReferenceNumber('')
-                        // Reset to first payment method
-                        if (paymentMethods.length > 0) {
-                          setSelectedPaymentMethodId(paymentMethods[0].id)
-                        }
+                        resetTenders()
                       }
                     }
                   }
@@ -783,6 +1284,9 @@ const POSScreen: React.FC = () => {
               </TouchableOpacity>
       </View>
           )}
+
+          {/* Orders and payments waiting to sync */}
+          <SyncStatusBanner style={styles.syncBanner} />
         </View>
 
       <ScrollView style={styles.content}>
@@ -790,7 +1294,7 @@ const POSScreen: React.FC = () => {
         {cart.length > 0 && (
           <View style={styles.cartSection}>
             <Text style={styles.sectionTitle}>Cart Items</Text>
-            {cart.map((item) => (
+            {cart.map((item, index) => (
               <View key={`${item.type}-${item.id}`} style={styles.cartItem}>
                 <View style={styles.cartItemInfo}>
                   <View style={styles.cartItemHeader}>
@@ -801,25 +1305,53 @@ const POSScreen: React.FC = () => {
                       color={item.type === 'product' ? '#10b981' : '#3b82f6'} 
                     />
                   </View>
-                  <Text style={styles.cartItemPrice}>₱{item.price.toFixed(2)} each</Text>
+                  {isWeightBased(item.pricing_mode) ? (
+                    <Text style={styles.cartItemPrice}>
+                      {formatItemQuantity(item)} × ₱{item.price.toFixed(2)}{getPriceUnitLabel(item.pricing_mode)} = ₱{(item.price * item.quantity).toFixed(2)}
+                    </Text>
+                  ) : (
+                    <Text style={styles.cartItemPrice}>₱{item.price.toFixed(2)} each</Text>
+                  )}
+                  {item.pricing_mode === 'per_kilo' && item.weight !== undefined && item.weight !== item.quantity && (
+                    <Text style={styles.cartItemStock}>Weighed {formatWeight(item.weight)}, billed {formatWeight(item.quantity)}</Text>
+                  )}
                   {item.type === 'product' && item.stock && (
                     <Text style={styles.cartItemStock}>Stock: {item.stock} available</Text>
                   )}
+                  {pricing.lineDiscounts[index] > 0 && (
+                    <Text style={styles.cartItemDiscount}>
+                      {pricing.adjustments.filter(adj => adj.item_index === index).map(adj => adj.description).join(', ')}: -₱{pricing.lineDiscounts[index].toFixed(2)}
+                    </Text>
+                  )}
                 </View>
                 <View style={styles.quantityControls}>
-                  <TouchableOpacity 
-                    style={styles.quantityButton}
-                    onPress={() => updateQuantity(item.id, item.type, item.quantity - 1)}
-                  >
-                    <Ionicons name="remove" size={16} color="#ef4444" />
-                  </TouchableOpacity>
-                  <Text style={styles.quantityText}>{item.quantity}</Text>
-                  <TouchableOpacity 
-                    style={styles.quantityButton}
-                    onPress={() => updateQuantity(item.id, item.type, item.quantity + 1)}
-                  >
-                    <Ionicons name="add" size={16} color="#10b981" />
-                  </TouchableOpacity>
+                  {isWeightBased(item.pricing_mode) ? (
+                    <TouchableOpacity 
+                      style={styles.quantityButton}
+                      onPress={() => {
+                        const service = services.find(svc => svc.id === item.service_id)
+                        if (service) addServiceToCart(service)
+                      }}
+                    >
+                      <Ionicons name="scale-outline" size={16} color="#3b82f6" />
+                    </TouchableOpacity>
+                  ) : (
+                    <>
+                      <TouchableOpacity 
+                        style={styles.quantityButton}
+                        onPress={() => updateQuantity(item.id, item.type, item.quantity - 1)}
+                      >
+                        <Ionicons name="remove" size={16} color="#ef4444" />
+                      </TouchableOpacity>
+                      <Text style={styles.quantityText}>{item.quantity}</Text>
+                      <TouchableOpacity 
+                        style={styles.quantityButton}
+                        onPress={() => updateQuantity(item.id, item.type, item.quantity + 1)}
+                      >
+                        <Ionicons name="add" size={16} color="#10b981" />
+                      </TouchableOpacity>
+                    </>
+                  )}
                   <TouchableOpacity 
                     style={styles.removeButton}
                     onPress={() => removeFromCart(item.id, item.type)}
@@ -891,7 +1423,7 @@ const POSScreen: React.FC = () => {
                     <Ionicons name={service.icon as any} size={32} color="#3b82f6" />
                   </View>
                   <Text style={styles.serviceName}>{service.name}</Text>
-                  <Text style={styles.servicePrice}>₱{service.price.toFixed(2)}</Text>
+                  <Text style={styles.servicePrice}>₱{service.price.toFixed(2)}{getPriceUnitLabel(service.pricing_mode)}</Text>
                 </TouchableOpacity>
               ))
             )
@@ -970,6 +1502,9 @@ const POSScreen: React.FC = () => {
       <View style={styles.bottomBar}>
         <View style={styles.cartSummary}>
           <Text style={styles.cartText}>Cart: {totalItems} items</Text>
+          {discountAmount > 0 && (
+            <Text style={styles.cartDiscount}>Discount: -₱{discountAmount.toFixed(2)}</Text>
+          )}
           <Text style={styles.cartTotal}>Total: ₱{totalAmount.toFixed(2)}</Text>
         </View>
         <TouchableOpacity 
@@ -983,6 +1518,61 @@ const POSScreen: React.FC = () => {
         </TouchableOpacity>
       </View>
 
+      {/* Weight Entry Modal */}
+      <Modal
+        visible={weighingService !== null}
+        animationType="fade"
+        transparent={true}
+        onRequestClose={() => setWeighingService(null)}
+      >
+        <KeyboardAvoidingView
+          style={{ flex: 1 }}
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        >
+          <View style={styles.modalOverlay}>
+            <View style={styles.modalContentLarge}>
+              <View style={styles.modalHeader}>
+                <Text style={styles.modalTitle}>{weighingService?.name}</Text>
+                <TouchableOpacity onPress={() => setWeighingService(null)}>
+                  <Ionicons name="close" size={24} color="#6b7280" />
+                </TouchableOpacity>
+              </View>
+
+              <View style={styles.weightEntry}>
+                <Text style={styles.label}>Weight (kg)</Text>
+                <TextInput
+                  style={styles.input}
+                  value={weightInput}
+                  onChangeText={setWeightInput}
+                  placeholder="e.g., 5.3"
+                  keyboardType="decimal-pad"
+                  autoFocus
+                />
+                {weighingService && parseFloat(weightInput) > 0 && (() => {
+                  const charge = calculateServiceCharge(weighingService, parseFloat(weightInput))
+                  return (
+                    <Text style={styles.weightPreview}>
+                      Billed {formatWeight(charge.billableWeight)}
+                      {weighingService.pricing_mode === 'per_load' ? ` • ${formatItemQuantity({ quantity: charge.quantity, pricing_mode: 'per_load' })}` : ''}
+                      {' '}= ₱{charge.amount.toFixed(2)}
+                    </Text>
+                  )
+                })()}
+              </View>
+
+              <View style={styles.modalActions}>
+                <TouchableOpacity style={styles.cancelButton} onPress={() => setWeighingService(null)}>
+                  <Text style={styles.cancelButtonText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.processButton} onPress={confirmServiceWeight}>
+                  <Text style={styles.processButtonText}>Add to Cart</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+
       {/* Customer Search Modal */}
       <Modal
         visible={showCustomerSearch}
@@ -1061,6 +1651,14 @@ const POSScreen: React.FC = () => {
                           <Text style={styles.customerResultPhone}>{customer.phone}</Text>
                         )}
                       </View>
+                      {loyaltyEnabled && (
+                        <TouchableOpacity
+                          style={styles.loyaltyHistoryButton}
+                          onPress={() => setLoyaltyHistoryCustomer(customer)}
+                        >
+                          <Ionicons name="star-outline" size={20} color="#f59e0b" />
+                        </TouchableOpacity>
+                      )}
                       <Ionicons name="chevron-forward" size={20} color="#d1d5db" />
                     </TouchableOpacity>
                   ))}
@@ -1080,6 +1678,17 @@ const POSScreen: React.FC = () => {
             </ScrollView>
           </View>
         </View>
+
+        {currentStore && (
+          <LoyaltyHistoryModal
+            visible={!!loyaltyHistoryCustomer}
+            storeId={currentStore.id}
+            customerId={loyaltyHistoryCustomer?.id || null}
+            customerName={loyaltyHistoryCustomer ? `${loyaltyHistoryCustomer.first_name} ${loyaltyHistoryCustomer.last_name}`.trim() : ''}
+            balance={loyaltyHistoryCustomer?.loyalty_points || 0}
+            onClose={() => setLoyaltyHistoryCustomer(null)}
+          />
+        )}
       </Modal>
 
       {/* New Customer Modal */}
@@ -1198,8 +1807,7 @@ const POSScreen: React.FC = () => {
                 onPress={() => {
                   if (paymentProcessing || printingTicket) return
                   setShowPaymentModal(false)
-                  setCardNumber('')
-                  setReferenceNumber('')
+                  resetTenders()
                 }}
                 disabled={paymentProcessing || printingTicket}
                 style={{ opacity: (paymentProcessing || printingTicket) ? 0.5 : 1 }}
@@ -1216,39 +1824,287 @@ const POSScreen: React.FC = () => {
             >
               <View style={styles.paymentSummary}>
                 <Text style={styles.paymentSummaryTitle}>Order Summary</Text>
+                {(discountAmount > 0 || taxAmount > 0) && (
+                  <>
+                    <Text style={styles.paymentSummaryLine}>Subtotal: ₱{subtotalAmount.toFixed(2)}</Text>
+                    {summarizeDiscounts(orderAdjustments).map(discount => (
+                      <Text key={discount.description} style={styles.paymentSummaryDiscount}>
+                        {discount.description}: -₱{discount.amount.toFixed(2)}
+                      </Text>
+                    ))}
+                  </>
+                )}
+                {taxAmount > 0 && taxResult && (
+                  <Text style={styles.paymentSummaryLine}>
+                    VAT {taxResult.breakdown.tax_rate}%: +₱{taxAmount.toFixed(2)}
+                  </Text>
+                )}
                 <Text style={styles.paymentSummaryTotal}>Total Amount: ₱{totalAmount.toFixed(2)}</Text>
+                {taxResult && (
+                  <Text style={styles.paymentSummaryVat}>
+                    VATable ₱{taxResult.breakdown.vatable_sales.toFixed(2)} • VAT ₱{taxResult.breakdown.vat_amount.toFixed(2)} • Exempt ₱{taxResult.breakdown.vat_exempt_sales.toFixed(2)}
+                  </Text>
+                )}
                   </View>
 
-            {/* Payment Type Selection */}
-            <View style={styles.paymentSection}>
-              <Text style={styles.paymentSectionTitle}>Payment Type</Text>
-              
-                  <TouchableOpacity
-                style={[styles.paymentOption, paymentType === 'full' && styles.paymentOptionSelected]}
-                onPress={() => setPaymentType('full')}
-              >
-                <View style={styles.paymentOptionContent}>
-                  <Ionicons name="checkmark-circle" size={20} color={paymentType === 'full' ? '#10b981' : '#6b7280'} />
-                  <Text style={[styles.paymentOptionText, paymentType === 'full' && styles.paymentOptionTextSelected]}>
-                    Pay in Full
-                  </Text>
+            {/* Promised ready date */}
+            {readyBy && (
+              <View style={styles.paymentSection}>
+                <Text style={styles.paymentSectionTitle}>Ready By</Text>
+                <View style={styles.readyByRow}>
+                  <Ionicons name="calendar-outline" size={20} color="#3b82f6" />
+                  <Text style={styles.readyByText}>{formatPromisedAt(readyBy)}</Text>
                 </View>
-                <Text style={styles.paymentOptionAmount}>₱{totalAmount.toFixed(2)}</Text>
-                  </TouchableOpacity>
+                <View style={styles.discountChipRow}>
+                  {[
+                    { label: '-1 hr', hours: -1 },
+                    { label: '+1 hr', hours: 1 },
+                    { label: '-1 day', hours: -24 },
+                    { label: '+1 day', hours: 24 },
+                  ].map(step => (
+                    <TouchableOpacity
+                      key={step.label}
+                      style={styles.discountChip}
+                      onPress={() => adjustPromisedAt(step.hours)}
+                    >
+                      <Text style={styles.discountChipText}>{step.label}</Text>
+                    </TouchableOpacity>
+                  ))}
+                  {promisedAt && (
+                    <TouchableOpacity style={styles.discountChip} onPress={() => setPromisedAt(null)}>
+                      <Text style={styles.discountChipText}>Reset</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+                <Text style={styles.discountHint}>
+                  {promisedAt ? 'Changed at checkout' : 'From the turnaround time of the services'}
+                </Text>
+              </View>
+            )}
 
+            {/* Bags, one tag printed per bag */}
+            {readyBy && (
+              <View style={styles.paymentSection}>
+                <Text style={styles.paymentSectionTitle}>Bags</Text>
+                <View style={styles.readyByRow}>
                   <TouchableOpacity
-                style={[styles.paymentOption, paymentType === 'partial' && styles.paymentOptionSelected]}
-                onPress={() => setPaymentType('partial')}
-              >
-                <View style={styles.paymentOptionContent}>
-                  <Ionicons name="card" size={20} color={paymentType === 'partial' ? '#f59e0b' : '#6b7280'} />
-                  <Text style={[styles.paymentOptionText, paymentType === 'partial' && styles.paymentOptionTextSelected]}>
-                    Partial Payment
-                  </Text>
-                </View>
-                <View style={styles.partialPaymentInput}>
-                  <TextInput
-                    style={styles.partialAmountInput}
+                    style={styles.discountChip}
+                    onPress={() => setBagCount(clampBagCount(bagCount - 1))}
+                    disabled={bagCount <= 1}
+                  >
+                    <Ionicons name="remove" size={18} color={bagCount <= 1 ? '#d1d5db' : '#374151'} />
+                  </TouchableOpacity>
+                  <Ionicons name="bag-handle-outline" size={20} color="#3b82f6" />
+                  <Text style={styles.readyByText}>{bagCount} bag{bagCount !== 1 ? 's' : ''}</Text>
+                  <TouchableOpacity
+                    style={styles.discountChip}
+                    onPress={() => setBagCount(clampBagCount(bagCount + 1))}
+                    disabled={bagCount >= MAX_BAG_COUNT}
+                  >
+                    <Ionicons name="add" size={18} color={bagCount >= MAX_BAG_COUNT ? '#d1d5db' : '#374151'} />
+                  </TouchableOpacity>
+                </View>
+                <Text style={styles.discountHint}>A tag with the order number is printed for each bag</Text>
+              </View>
+            )}
+
+            {/* Senior Citizen / PWD */}
+            {taxEnabled && (
+              <View style={styles.paymentSection}>
+                <Text style={styles.paymentSectionTitle}>Senior Citizen / PWD</Text>
+                <View style={styles.discountChipRow}>
+                  {([null, 'senior', 'pwd'] as Array<SeniorPwdType | null>).map(type => (
+                    <TouchableOpacity
+                      key={type || 'none'}
+                      style={[styles.discountChip, seniorPwdType === type && styles.discountChipSelected]}
+                      onPress={() => setSeniorPwdType(type)}
+                    >
+                      <Text style={[styles.discountChipText, seniorPwdType === type && styles.discountChipTextSelected]}>
+                        {type ? getSeniorPwdLabel(type) : 'None'}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                {seniorPwdType && (
+                  <>
+                    <TextInput
+                      style={styles.discountInput}
+                      value={seniorPwdId}
+                      onChangeText={setSeniorPwdId}
+                      placeholder={seniorPwdType === 'senior' ? 'OSCA ID number' : 'PWD ID number'}
+                      autoCapitalize="characters"
+                    />
+                    <TextInput
+                      style={styles.discountInput}
+                      value={seniorPwdName}
+                      onChangeText={setSeniorPwdName}
+                      placeholder="Name on ID"
+                    />
+                    <Text style={styles.discountHint}>
+                      The order is VAT-exempt and gets the {getStoreSetting(currentStore as any, 'senior_pwd_discount_rate') ?? 20}% statutory discount
+                    </Text>
+                  </>
+                )}
+              </View>
+            )}
+
+            {/* Checkout Discounts & Vouchers */}
+            <View style={styles.paymentSection}>
+              <Text style={styles.paymentSectionTitle}>Discounts & Vouchers</Text>
+
+              {manualDiscounts.map(discount => {
+                const adjustment = pricing.adjustments.find(a =>
+                  a.source === discount.source && a.description === discount.description
+                )
+                const line = discount.item_key ? cart.find(item => `${item.type}-${item.id}` === discount.item_key) : null
+                return (
+                  <View key={discount.id} style={styles.appliedDiscount}>
+                    <Ionicons name={discount.source === 'voucher' ? 'ticket' : 'pricetag'} size={16} color="#10b981" />
+                    <View style={styles.appliedDiscountInfo}>
+                      <Text style={styles.appliedDiscountText}>{discount.description}</Text>
+                      <Text style={styles.appliedDiscountScope}>{line ? line.name : 'Whole order'}</Text>
+                      {discount.approval && (
+                        <Text style={styles.discountApprovedText}>Approved by {discount.approval.full_name}</Text>
+                      )}
+                    </View>
+                    <Text style={styles.appliedDiscountAmount}>-₱{(adjustment?.amount || 0).toFixed(2)}</Text>
+                    <TouchableOpacity onPress={() => removeManualDiscount(discount.id)}>
+                      <Ionicons name="close-circle" size={20} color="#ef4444" />
+                    </TouchableOpacity>
+                  </View>
+                )
+              })}
+
+              <View style={styles.voucherRow}>
+                <TextInput
+                  style={styles.voucherInput}
+                  value={voucherCode}
+                  onChangeText={setVoucherCode}
+                  placeholder="Voucher code"
+                  autoCapitalize="characters"
+                  autoCorrect={false}
+                />
+                <TouchableOpacity
+                  style={styles.voucherButton}
+                  onPress={handleApplyVoucher}
+                  disabled={applyingVoucher}
+                >
+                  {applyingVoucher ? (
+                    <ActivityIndicator size="small" color="#ffffff" />
+                  ) : (
+                    <Text style={styles.voucherButtonText}>Apply</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+
+              {showDiscountForm ? (
+                <View style={styles.discountForm}>
+                  <Text style={styles.discountFormLabel}>Apply to</Text>
+                  <View style={styles.discountChipRow}>
+                    <TouchableOpacity
+                      style={[styles.discountChip, discountItemKey === null && styles.discountChipSelected]}
+                      onPress={() => setDiscountItemKey(null)}
+                    >
+                      <Text style={[styles.discountChipText, discountItemKey === null && styles.discountChipTextSelected]}>
+                        Whole order
+                      </Text>
+                    </TouchableOpacity>
+                    {cart.map(item => {
+                      const key = `${item.type}-${item.id}`
+                      return (
+                        <TouchableOpacity
+                          key={key}
+                          style={[styles.discountChip, discountItemKey === key && styles.discountChipSelected]}
+                          onPress={() => setDiscountItemKey(key)}
+                        >
+                          <Text style={[styles.discountChipText, discountItemKey === key && styles.discountChipTextSelected]}>
+                            {item.name}
+                          </Text>
+                        </TouchableOpacity>
+                      )
+                    })}
+                  </View>
+
+                  <View style={styles.discountChipRow}>
+                    {(['percent', 'fixed'] as const).map(type => (
+                      <TouchableOpacity
+                        key={type}
+                        style={[styles.discountChip, discountType === type && styles.discountChipSelected]}
+                        onPress={() => setDiscountType(type)}
+                      >
+                        <Text style={[styles.discountChipText, discountType === type && styles.discountChipTextSelected]}>
+                          {type === 'percent' ? 'Percent (%)' : 'Amount (₱)'}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+
+                  <TextInput
+                    style={styles.discountInput}
+                    value={discountValue}
+                    onChangeText={setDiscountValue}
+                    placeholder={discountType === 'percent' ? 'e.g. 10' : 'e.g. 50.00'}
+                    keyboardType="decimal-pad"
+                  />
+                  <TextInput
+                    style={styles.discountInput}
+                    value={discountReason}
+                    onChangeText={setDiscountReason}
+                    placeholder="Reason (printed on the receipt)"
+                  />
+
+                  <View style={styles.discountFormActions}>
+                    <TouchableOpacity style={styles.discountCancelButton} onPress={resetDiscountForm}>
+                      <Text style={styles.discountCancelText}>Cancel</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.discountAddButton} onPress={handleAddDiscount}>
+                      <Text style={styles.discountAddText}>Add Discount</Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              ) : (
+                <TouchableOpacity style={styles.addDiscountLink} onPress={() => setShowDiscountForm(true)}>
+                  <Ionicons name="add-circle-outline" size={18} color="#3b82f6" />
+                  <Text style={styles.addDiscountLinkText}>Add Discount</Text>
+                </TouchableOpacity>
+              )}
+              {discountApprovalThreshold > 0 && !manualDiscounts.some(discount => discount.approval) && (
+                <Text style={styles.discountHint}>
+                  Discounts over {discountApprovalThreshold}% of the order need a manager PIN
+                </Text>
+              )}
+            </View>
+
+            {/* Payment Type Selection */}
+            <View style={styles.paymentSection}>
+              <Text style={styles.paymentSectionTitle}>Payment Type</Text>
+              
+                  <TouchableOpacity
+                style={[styles.paymentOption, paymentType === 'full' && styles.paymentOptionSelected]}
+                onPress={() => setPaymentType('full')}
+              >
+                <View style={styles.paymentOptionContent}>
+                  <Ionicons name="checkmark-circle" size={20} color={paymentType === 'full' ? '#10b981' : '#6b7280'} />
+                  <Text style={[styles.paymentOptionText, paymentType === 'full' && styles.paymentOptionTextSelected]}>
+                    Pay in Full
+                  </Text>
+                </View>
+                <Text style={styles.paymentOptionAmount}>₱{totalAmount.toFixed(2)}</Text>
+                  </TouchableOpacity>
+
+                  <TouchableOpacity
+                style={[styles.paymentOption, paymentType === 'partial' && styles.paymentOptionSelected]}
+                onPress={() => setPaymentType('partial')}
+              >
+                <View style={styles.paymentOptionContent}>
+                  <Ionicons name="card" size={20} color={paymentType === 'partial' ? '#f59e0b' : '#6b7280'} />
+                  <Text style={[styles.paymentOptionText, paymentType === 'partial' && styles.paymentOptionTextSelected]}>
+                    Partial Payment
+                  </Text>
+                </View>
+                <View style={styles.partialPaymentInput}>
+                  <TextInput
+                    style={styles.partialAmountInput}
                     value={partialAmount}
                     onChangeText={setPartialAmount}
                     placeholder="0.00"
@@ -1273,101 +2129,171 @@ const POSScreen: React.FC = () => {
               </TouchableOpacity>
               </View>
 
-            {/* Payment Method Selection */}
+            {/* Payment Methods - one card per tender */}
+            {paymentType !== 'later' && (
             <View style={styles.paymentSection}>
               <Text style={styles.paymentSectionTitle}>Payment Method</Text>
-              {paymentMethods.length === 0 ? (
+              {checkoutPaymentMethods.length === 0 ? (
                 <Text style={styles.noPaymentMethodsText}>No payment methods available. Please configure payment methods in Settings.</Text>
               ) : (
-                <View style={styles.paymentMethods}>
-                  {paymentMethods.map((method) => (
-                    <TouchableOpacity
-                      key={method.id}
-                      style={[
-                        styles.paymentMethodButton, 
-                        selectedPaymentMethodId === method.id && styles.paymentMethodSelected
-                      ]}
-                      onPress={() => {
-                        setSelectedPaymentMethodId(method.id)
-                        // Clear fields when switching payment methods
-                        setCardNumber('')
-                        setReferenceNumber('')
-                      }}
-                    >
-                      {method.icon && (
-                        <Ionicons 
-                          name={method.icon as any} 
-                          size={18} 
-                          color={selectedPaymentMethodId === method.id ? '#3b82f6' : '#6b7280'} 
-                          style={styles.paymentMethodIcon}
+                <>
+                  {tenders.map((tender, index) => {
+                    const tenderMethod = checkoutPaymentMethods.find(m => m.id === tender.payment_method_id)
+                    const requirement = tenderMethod ? getTenderRequirement(tenderMethod) : null
+                    const isCash = !!tenderMethod && isCashMethod(tenderMethod)
+                    return (
+                      <View key={tender.key} style={tenders.length > 1 ? styles.tenderCard : undefined}>
+                        {tenders.length > 1 && (
+                          <View style={styles.tenderHeader}>
+                            <Text style={styles.tenderTitle}>Payment {index + 1}</Text>
+                            <TouchableOpacity onPress={() => removeTender(tender.key)}>
+                              <Ionicons name="close-circle" size={20} color="#ef4444" />
+                            </TouchableOpacity>
+                          </View>
+                        )}
+                        <View style={styles.paymentMethods}>
+                          {checkoutPaymentMethods.map((method) => (
+                            <TouchableOpacity
+                              key={method.id}
+                              style={[
+                                styles.paymentMethodButton, 
+                                tender.payment_method_id === method.id && styles.paymentMethodSelected
+                              ]}
+                              onPress={() => {
+                                // Clear fields when switching payment methods
+                                updateTender(tender.key, { payment_method_id: method.id, card_number: '', reference_number: '' })
+                              }}
+                            >
+                              {method.icon && (
+                                <Ionicons 
+                                  name={method.icon as any} 
+                                  size={18} 
+                                  color={tender.payment_method_id === method.id ? '#3b82f6' : '#6b7280'} 
+                                  style={styles.paymentMethodIcon}
+                                />
+                              )}
+                              <Text style={[
+                                styles.paymentMethodText, 
+                                tender.payment_method_id === method.id && styles.paymentMethodTextSelected
+                              ]}>
+                                {method.display_name}
+                              </Text>
+                            </TouchableOpacity>
+                          ))}
+                        </View>
+
+                        <Text style={styles.tenderLabel}>{isCash ? 'Amount Received' : 'Amount'}</Text>
+                        <TextInput
+                          style={styles.paymentDetailInput}
+                          value={tender.amount}
+                          onChangeText={(text) => updateTender(tender.key, { amount: text })}
+                          placeholder="Leave blank to pay the remaining amount"
+                          keyboardType="numeric"
                         />
-                      )}
-                      <Text style={[
-                        styles.paymentMethodText, 
-                        selectedPaymentMethodId === method.id && styles.paymentMethodTextSelected
-                      ]}>
-                        {method.display_name}
-                      </Text>
-                    </TouchableOpacity>
-                  ))}
-                </View>
+
+                        {/* Quick cash buttons - bills add up, Exact fills in what this tender still owes */}
+                        {isCash && (
+                          <View style={styles.cashBillButtons}>
+                            <TouchableOpacity
+                              style={styles.cashBillButton}
+                              onPress={() => {
+                                const otherTenders = tenders
+                                  .filter(other => other.key !== tender.key)
+                                  .reduce((sum, other) => sum + (parseFloat(other.amount) || 0), 0)
+                                const exact = Math.max(0, Math.round((checkoutAmountDue - otherTenders) * 100) / 100)
+                                updateTender(tender.key, { amount: exact.toString() })
+                              }}
+                            >
+                              <Text style={styles.cashBillText}>Exact</Text>
+                            </TouchableOpacity>
+                            {CASH_BILLS.map(bill => (
+                              <TouchableOpacity
+                                key={bill}
+                                style={styles.cashBillButton}
+                                onPress={() => updateTender(tender.key, { amount: addCashBill(tender.amount, bill) })}
+                              >
+                                <Text style={styles.cashBillText}>₱{bill}</Text>
+                              </TouchableOpacity>
+                            ))}
+                            <TouchableOpacity
+                              style={styles.cashBillButton}
+                              onPress={() => updateTender(tender.key, { amount: '' })}
+                            >
+                              <Ionicons name="backspace-outline" size={18} color="#6b7280" />
+                            </TouchableOpacity>
+                          </View>
+                        )}
+
+                        {/* Card Number Input - Show for Credit/Debit Card */}
+                        {requirement === 'card' && (
+                          <>
+                            <Text style={styles.tenderLabel}>Card Number</Text>
+                            <TextInput
+                              style={styles.paymentDetailInput}
+                              value={tender.card_number}
+                              onChangeText={(text) => updateTender(tender.key, { card_number: text })}
+                              placeholder="Enter card number (last 4 digits or full)"
+                              keyboardType="numeric"
+                              maxLength={19}
+                              autoCapitalize="none"
+                            />
+                            <Text style={styles.paymentDetailHint}>
+                              Enter the last 4 digits or full card number
+                            </Text>
+                          </>
+                        )}
+
+                        {/* Reference Number Input - Show for methods that require a reference */}
+                        {requirement === 'reference' && (
+                          <>
+                            <Text style={styles.tenderLabel}>Reference Number</Text>
+                            <TextInput
+                              style={styles.paymentDetailInput}
+                              value={tender.reference_number}
+                              onChangeText={(text) => updateTender(tender.key, { reference_number: text })}
+                              placeholder={`Enter ${tenderMethod?.display_name} reference number`}
+                              keyboardType="default"
+                              autoCapitalize="none"
+                            />
+                            <Text style={styles.paymentDetailHint}>
+                              Enter the transaction reference number from {tenderMethod?.display_name}
+                            </Text>
+                          </>
+                        )}
+                      </View>
+                    )
+                  })}
+
+                  <TouchableOpacity style={styles.addTenderButton} onPress={addTender}>
+                    <Ionicons name="add-circle-outline" size={18} color="#3b82f6" />
+                    <Text style={styles.addTenderText}>Split Payment</Text>
+                  </TouchableOpacity>
+
+                  {tenderRemaining > 0 && (
+                    <Text style={styles.tenderShort}>Remaining: ₱{tenderRemaining.toFixed(2)}</Text>
+                  )}
+                  {tenderChange > 0 && (
+                    <Text style={styles.tenderChange}>Change: ₱{tenderChange.toFixed(2)}</Text>
+                  )}
+                </>
               )}
             </View>
+            )}
 
-            {/* Card Number Input - Show for Credit/Debit Card */}
-            {selectedPaymentMethodId && (() => {
-              const selectedMethod = paymentMethods.find(m => m.id === selectedPaymentMethodId)
-              const methodName = selectedMethod?.name.toLowerCase() || ''
-              const isCard = methodName === 'card' || methodName.includes('card')
-              
-              if (isCard && paymentType !== 'later') {
-                return (
-                  <View style={styles.paymentSection}>
-                    <Text style={styles.paymentSectionTitle}>Card Number</Text>
-                    <TextInput
-                      style={styles.paymentDetailInput}
-                      value={cardNumber}
-                      onChangeText={setCardNumber}
-                      placeholder="Enter card number (last 4 digits or full)"
-                      keyboardType="numeric"
-                      maxLength={19}
-                      autoCapitalize="none"
-                    />
-                    <Text style={styles.paymentDetailHint}>
-                      Enter the last 4 digits or full card number
-                    </Text>
-                  </View>
-                )
-              }
-              return null
-            })()}
-
-            {/* Reference Number Input - Show for GCash/PayMaya */}
-            {selectedPaymentMethodId && (() => {
-              const selectedMethod = paymentMethods.find(m => m.id === selectedPaymentMethodId)
-              const methodName = selectedMethod?.name.toLowerCase() || ''
-              const isDigitalWallet = methodName === 'gcash' || methodName === 'paymaya'
-              
-              if (isDigitalWallet && paymentType !== 'later') {
-                return (
-                  <View style={styles.paymentSection}>
-                    <Text style={styles.paymentSectionTitle}>Reference Number</Text>
-                    <TextInput
-                      style={styles.paymentDetailInput}
-                      value={referenceNumber}
-                      onChangeText={setReferenceNumber}
-                      placeholder={`Enter ${selectedMethod?.display_name} reference number`}
-                      keyboardType="default"
-                      autoCapitalize="none"
-                    />
-                    <Text style={styles.paymentDetailHint}>
-                      Enter the transaction reference number from {selectedMethod?.display_name}
-                    </Text>
-                  </View>
-                )
-              }
-              return null
-            })()}
+            {/* Loyalty Points Balance - Show when paying with points */}
+            {selectedCustomer && paymentType !== 'later' && hasLoyaltyTender && (
+              <View style={styles.paymentSection}>
+                <Text style={styles.paymentSectionTitle}>Loyalty Points</Text>
+                <Text style={styles.paymentSummaryLine}>
+                  Available: {selectedCustomer.loyalty_points} pts (₱{loyaltyBalanceValue.toFixed(2)})
+                </Text>
+                <Text style={styles.paymentDetailHint}>
+                  {loyaltyBalanceValue < checkoutAmountDue
+                    ? 'Points do not cover the amount due. Split the payment to pay the rest another way.'
+                    : `Uses ${getPointsNeeded(checkoutAmountDue, loyaltyPointValue)} pts for the full amount`}
+                </Text>
+              </View>
+            )}
 
             {/* Balance Due */}
             {paymentType !== 'full' && (
@@ -1386,8 +2312,7 @@ const POSScreen: React.FC = () => {
                 style={styles.cancelButton}
                 onPress={() => {
                   setShowPaymentModal(false)
-                  setCardNumber('')
-                  setReferenceNumber('')
+                  resetTenders()
                 }}
                 disabled={paymentProcessing}
               >
@@ -1413,6 +2338,18 @@ const POSScreen: React.FC = () => {
             )}
           </View>
         </KeyboardAvoidingView>
+
+        {currentStore && (
+          <ManagerPinModal
+            visible={discountApprovalAmount !== null}
+            storeId={currentStore.id}
+            title="Discount Approval"
+            message={`Discounts over ${discountApprovalThreshold}% of the order need a manager's PIN. Approve ₱${(discountApprovalAmount ?? 0).toFixed(2)} in discounts?`}
+            amount={discountApprovalAmount}
+            onApproved={handleDiscountApproved}
+            onCancel={cancelDiscountApproval}
+          />
+        )}
       </Modal>
 
       {/* Store Selection Modal */}
@@ -1512,6 +2449,10 @@ const styles = StyleSheet.create({
     marginTop: 8,
     textAlign: 'center',
   },
+  syncBanner: {
+    marginTop: 12,
+    marginHorizontal: 16,
+  },
   storeSelector: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1662,6 +2603,10 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#111827',
   },
+  cartDiscount: {
+    fontSize: 12,
+    color: '#10b981',
+  },
   checkoutButton: {
     backgroundColor: '#10b981',
     paddingHorizontal: 24,
@@ -1793,6 +2738,183 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#3b82f6',
   },
+  paymentSummaryLine: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginBottom: 4,
+  },
+  paymentSummaryDiscount: {
+    fontSize: 14,
+    color: '#10b981',
+    marginBottom: 4,
+  },
+  paymentSummaryVat: {
+    fontSize: 12,
+    color: '#9ca3af',
+    marginTop: 4,
+  },
+  appliedDiscount: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: '#ecfdf5',
+    marginBottom: 8,
+  },
+  appliedDiscountInfo: {
+    flex: 1,
+  },
+  appliedDiscountText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#111827',
+  },
+  appliedDiscountScope: {
+    fontSize: 12,
+    color: '#6b7280',
+  },
+  appliedDiscountAmount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#10b981',
+  },
+  discountApprovedText: {
+    fontSize: 12,
+    color: '#f59e0b',
+    marginTop: 2,
+  },
+  voucherRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  voucherInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: '#111827',
+  },
+  voucherButton: {
+    backgroundColor: '#3b82f6',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+    minWidth: 72,
+  },
+  voucherButtonText: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  discountForm: {
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 12,
+    padding: 12,
+  },
+  discountFormLabel: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  readyByRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 10,
+  },
+  readyByText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  discountChipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 10,
+  },
+  discountChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    backgroundColor: '#ffffff',
+  },
+  discountChipSelected: {
+    borderColor: '#3b82f6',
+    backgroundColor: '#eff6ff',
+  },
+  discountChipText: {
+    fontSize: 13,
+    color: '#6b7280',
+  },
+  discountChipTextSelected: {
+    color: '#3b82f6',
+    fontWeight: '600',
+  },
+  discountInput: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: '#111827',
+    marginBottom: 10,
+  },
+  discountFormActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  discountCancelButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    alignItems: 'center',
+  },
+  discountCancelText: {
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  discountAddButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#10b981',
+    alignItems: 'center',
+  },
+  discountAddText: {
+    fontSize: 14,
+    color: '#ffffff',
+    fontWeight: '600',
+  },
+  addDiscountLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 4,
+  },
+  addDiscountLinkText: {
+    fontSize: 14,
+    color: '#3b82f6',
+    fontWeight: '500',
+  },
+  discountHint: {
+    fontSize: 12,
+    color: '#9ca3af',
+    marginTop: 8,
+  },
   paymentSection: {
     padding: 20,
     marginBottom: 10,
@@ -1919,6 +3041,15 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#dc2626',
   },
+  weightEntry: {
+    padding: 20,
+  },
+  weightPreview: {
+    marginTop: 12,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#10b981',
+  },
   modalActions: {
     flexDirection: 'row',
     padding: 20,
@@ -2074,6 +3205,10 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: '#f3f4f6',
   },
+  loyaltyHistoryButton: {
+    padding: 8,
+    marginRight: 4,
+  },
   customerResultIcon: {
     width: 40,
     height: 40,
@@ -2240,6 +3375,11 @@ const styles = StyleSheet.create({
     color: '#10b981',
     marginTop: 2,
   },
+  cartItemDiscount: {
+    fontSize: 11,
+    color: '#f59e0b',
+    marginTop: 2,
+  },
   // Product stock display
   productStock: {
     fontSize: 12,
@@ -2263,6 +3403,73 @@ const styles = StyleSheet.create({
     marginTop: 6,
     fontStyle: 'italic',
   },
+  tenderCard: {
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+  },
+  tenderHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  tenderTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  tenderLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#374151',
+    marginTop: 12,
+  },
+  addTenderButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 8,
+  },
+  addTenderText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#3b82f6',
+  },
+  tenderShort: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ef4444',
+    marginTop: 4,
+  },
+  tenderChange: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#10b981',
+    marginTop: 4,
+  },
+  cashBillButtons: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  cashBillButton: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    backgroundColor: '#f9fafb',
+  },
+  cashBillText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+  },
 })
 
 export default POSScreen
\ No newline at end of file
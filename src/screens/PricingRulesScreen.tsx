@@ -0,0 +1,1007 @@
+import React, { useState, useEffect } from 'react'
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+  Switch
+} from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
+import { supabase } from '../../lib/supabase'
+import { useStore } from '../context/StoreContext'
+import {
+  BundleConditions,
+  CategoryDiscountConditions,
+  DiscountType,
+  HappyHourConditions,
+  PricingRule,
+  PricingRuleConditions,
+  PricingRuleType,
+  QuantityTierConditions,
+} from '../types/pricingRule'
+import { getRuleTypeLabel, isRuleInEffect } from '../utils/pricingRules'
+
+interface ServiceOption {
+  id: string
+  name: string
+  category?: string | null
+}
+
+const ruleTypes: Array<{ value: PricingRuleType; label: string; hint: string }> = [
+  { value: 'bundle', label: 'Bundle', hint: 'Discount when all selected services are in the same order' },
+  { value: 'quantity_tier', label: 'Quantity Tier', hint: 'Discount once a line reaches a quantity (pieces, kg or loads)' },
+  { value: 'happy_hour', label: 'Happy Hour', hint: 'Discount during a time window on selected days' },
+  { value: 'category_discount', label: 'Category', hint: 'Discount on every item in a category' },
+]
+
+const categories = [
+  { value: 'wash', label: 'Wash' },
+  { value: 'dry-clean', label: 'Dry Clean' },
+  { value: 'press', label: 'Press' },
+  { value: 'alterations', label: 'Alterations' },
+  { value: 'express', label: 'Express' },
+  { value: 'other', label: 'Other' },
+]
+
+const weekDays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+const PricingRulesScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
+  const { currentStore } = useStore()
+  const [rules, setRules] = useState<PricingRule[]>([])
+  const [services, setServices] = useState<ServiceOption[]>([])
+  const [loading, setLoading] = useState(true)
+  const [showModal, setShowModal] = useState(false)
+  const [editingRule, setEditingRule] = useState<PricingRule | null>(null)
+
+  // Form state
+  const [name, setName] = useState('')
+  const [ruleType, setRuleType] = useState<PricingRuleType>('bundle')
+  const [discountType, setDiscountType] = useState<DiscountType>('percent')
+  const [discountValue, setDiscountValue] = useState('')
+  const [priority, setPriority] = useState('0')
+  const [stackable, setStackable] = useState(true)
+  const [isActive, setIsActive] = useState(true)
+  const [serviceIds, setServiceIds] = useState<string[]>([])
+  const [category, setCategory] = useState('')
+  const [minQuantity, setMinQuantity] = useState('')
+  const [applyTo, setApplyTo] = useState<'all' | 'additional'>('additional')
+  const [startTime, setStartTime] = useState('')
+  const [endTime, setEndTime] = useState('')
+  const [days, setDays] = useState<number[]>([])
+
+  useEffect(() => {
+    loadRules()
+    loadServices()
+  }, [currentStore])
+
+  const loadRules = async () => {
+    if (!currentStore) return
+
+    try {
+      setLoading(true)
+      const { data, error } = await supabase
+        .from('pricing_rules')
+        .select('*')
+        .eq('store_id', currentStore.id)
+        .order('priority', { ascending: true })
+        .order('created_at', { ascending: true })
+
+      if (error) throw error
+      setRules(data || [])
+    } catch (error: any) {
+      console.error('Error loading pricing rules:', error)
+      Alert.alert('Error', 'Failed to load pricing rules')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const loadServices = async () => {
+    if (!currentStore) return
+
+    try {
+      const { data, error } = await supabase
+        .from('services')
+        .select('id, name, category')
+        .or(`is_global.eq.true,store_id.eq.${currentStore.id}`)
+        .eq('is_active', true)
+        .order('sort_order', { ascending: true })
+
+      if (error) throw error
+      setServices(data || [])
+    } catch (error: any) {
+      console.error('Error loading services:', error)
+    }
+  }
+
+  const openModal = (rule?: PricingRule) => {
+    resetForm()
+    if (rule) {
+      const conditions = rule.conditions as BundleConditions & QuantityTierConditions & HappyHourConditions
+      setEditingRule(rule)
+      setName(rule.name)
+      setRuleType(rule.rule_type)
+      setDiscountType(rule.discount_type)
+      setDiscountValue(rule.discount_value.toString())
+      setPriority(rule.priority.toString())
+      setStackable(rule.stackable)
+      setIsActive(rule.is_active)
+      setServiceIds(conditions.service_ids || [])
+      setCategory(conditions.category || '')
+      setMinQuantity(conditions.min_quantity ? conditions.min_quantity.toString() : '')
+      setApplyTo(conditions.apply_to || 'all')
+      setStartTime(conditions.start_time || '')
+      setEndTime(conditions.end_time || '')
+      setDays(conditions.days || [])
+    }
+    setShowModal(true)
+  }
+
+  const resetForm = () => {
+    setEditingRule(null)
+    setName('')
+    setRuleType('bundle')
+    setDiscountType('percent')
+    setDiscountValue('')
+    setPriority('0')
+    setStackable(true)
+    setIsActive(true)
+    setServiceIds([])
+    setCategory('')
+    setMinQuantity('')
+    setApplyTo('additional')
+    setStartTime('')
+    setEndTime('')
+    setDays([])
+  }
+
+  const toggleService = (serviceId: string) => {
+    setServiceIds(prev => prev.includes(serviceId) ? prev.filter(id => id !== serviceId) : [...prev, serviceId])
+  }
+
+  const toggleDay = (day: number) => {
+    setDays(prev => prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day].sort())
+  }
+
+  /**
+   * Build the conditions JSON for the selected rule type, or return an error message
+   */
+  const buildConditions = (): PricingRuleConditions | string => {
+    const filter = serviceIds.length > 0
+      ? { service_ids: serviceIds }
+      : category.trim() ? { category: category.trim() } : {}
+
+    switch (ruleType) {
+      case 'bundle':
+        if (serviceIds.length < 2) return 'Select at least two services for the bundle'
+        return { service_ids: serviceIds } as BundleConditions
+      case 'quantity_tier': {
+        const min = parseFloat(minQuantity)
+        if (isNaN(min) || min <= 0) return 'Please enter the minimum quantity'
+        return { ...filter, min_quantity: min, apply_to: applyTo } as QuantityTierConditions
+      }
+      case 'happy_hour':
+        if (!/^\d{1,2}:\d{2}$/.test(startTime.trim()) || !/^\d{1,2}:\d{2}$/.test(endTime.trim())) {
+          return 'Please enter start and end times as HH:MM (e.g., 14:00)'
+        }
+        return { ...filter, start_time: startTime.trim(), end_time: endTime.trim(), days } as HappyHourConditions
+      case 'category_discount':
+        if (!category.trim()) return 'Please enter a category'
+        return { category: category.trim() } as CategoryDiscountConditions
+    }
+  }
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      Alert.alert('Validation Error', 'Please enter a rule name')
+      return
+    }
+
+    const value = parseFloat(discountValue)
+    if (isNaN(value) || value <= 0 || (discountType === 'percent' && value > 100)) {
+      Alert.alert('Validation Error', discountType === 'percent'
+        ? 'Please enter a percentage between 0 and 100'
+        : 'Please enter a valid discount amount')
+      return
+    }
+
+    const priorityNum = parseInt(priority)
+    if (isNaN(priorityNum) || priorityNum < 0) {
+      Alert.alert('Validation Error', 'Please enter a valid priority (0 or greater)')
+      return
+    }
+
+    const conditions = buildConditions()
+    if (typeof conditions === 'string') {
+      Alert.alert('Validation Error', conditions)
+      return
+    }
+
+    if (!currentStore) {
+      Alert.alert('Error', 'No store selected')
+      return
+    }
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) throw new Error('User not authenticated')
+
+      const ruleData = {
+        store_id: currentStore.id,
+        name: name.trim(),
+        rule_type: ruleType,
+        conditions,
+        discount_type: discountType,
+        discount_value: value,
+        priority: priorityNum,
+        stackable,
+        is_active: isActive,
+      }
+
+      if (editingRule) {
+        const { error } = await supabase
+          .from('pricing_rules')
+          .update(ruleData)
+          .eq('id', editingRule.id)
+
+        if (error) throw error
+        Alert.alert('Success', 'Pricing rule updated successfully')
+      } else {
+        const { error } = await supabase
+          .from('pricing_rules')
+          .insert({ ...ruleData, created_by: user.id })
+
+        if (error) throw error
+        Alert.alert('Success', 'Pricing rule created successfully')
+      }
+
+      setShowModal(false)
+      resetForm()
+      loadRules()
+    } catch (error: any) {
+      console.error('Error saving pricing rule:', error)
+      Alert.alert('Error', error.message || 'Failed to save pricing rule')
+    }
+  }
+
+  const handleDelete = (rule: PricingRule) => {
+    Alert.alert(
+      'Delete Pricing Rule',
+      `Are you sure you want to delete "${rule.name}"? Past orders keep their discounts.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              const { error } = await supabase
+                .from('pricing_rules')
+                .delete()
+                .eq('id', rule.id)
+
+              if (error) throw error
+              loadRules()
+            } catch (error: any) {
+              console.error('Error deleting pricing rule:', error)
+              Alert.alert('Error', 'Failed to delete pricing rule')
+            }
+          },
+        },
+      ]
+    )
+  }
+
+  const toggleRuleStatus = async (rule: PricingRule) => {
+    try {
+      const { error } = await supabase
+        .from('pricing_rules')
+        .update({ is_active: !rule.is_active })
+        .eq('id', rule.id)
+
+      if (error) throw error
+      loadRules()
+    } catch (error: any) {
+      console.error('Error updating pricing rule status:', error)
+      Alert.alert('Error', 'Failed to update pricing rule status')
+    }
+  }
+
+  /**
+   * One-line summary of a rule's conditions and discount
+   */
+  const describeRule = (rule: PricingRule): string => {
+    const conditions = rule.conditions as BundleConditions & QuantityTierConditions & HappyHourConditions
+    const discount = rule.discount_type === 'percent'
+      ? `${rule.discount_value}% off`
+      : `₱${rule.discount_value.toFixed(2)} off${rule.rule_type === 'bundle' ? '' : ' per unit'}`
+    const serviceNames = (conditions.service_ids || [])
+      .map(id => services.find(s => s.id === id)?.name || 'Unknown service')
+      .join(' + ')
+    const target = serviceNames || conditions.category || 'all items'
+
+    switch (rule.rule_type) {
+      case 'bundle':
+        return `${serviceNames}: ${discount}`
+      case 'quantity_tier':
+        return conditions.apply_to === 'additional'
+          ? `${target}: ${discount} from unit ${conditions.min_quantity}`
+          : `${target}: ${discount} at ${conditions.min_quantity}+`
+      case 'happy_hour': {
+        const dayNames = conditions.days && conditions.days.length > 0
+          ? conditions.days.map(d => weekDays[d]).join(', ')
+          : 'Daily'
+        return `${target}: ${discount}, ${dayNames} ${conditions.start_time}-${conditions.end_time}`
+      }
+      case 'category_discount':
+        return `${conditions.category}: ${discount}`
+    }
+  }
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.centerContent]}>
+        <ActivityIndicator size="large" color="#3b82f6" />
+        <Text style={styles.loadingText}>Loading pricing rules...</Text>
+      </View>
+    )
+  }
+
+  const selectedType = ruleTypes.find(t => t.value === ruleType)
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color="#111827" />
+        </TouchableOpacity>
+        <View style={styles.headerContent}>
+          <Text style={styles.title}>Pricing Rules</Text>
+          <Text style={styles.subtitle}>{currentStore?.name}</Text>
+        </View>
+        <TouchableOpacity onPress={() => openModal()} style={styles.addButton}>
+          <Ionicons name="add" size={24} color="#ffffff" />
+        </TouchableOpacity>
+      </View>
+
+      {/* Rules List */}
+      <ScrollView style={styles.content}>
+        {rules.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Ionicons name="pricetags-outline" size={64} color="#d1d5db" />
+            <Text style={styles.emptyTitle}>No Pricing Rules Yet</Text>
+            <Text style={styles.emptySubtitle}>Add bundles, quantity tiers, happy hours or category discounts</Text>
+            <TouchableOpacity style={styles.emptyButton} onPress={() => openModal()}>
+              <Text style={styles.emptyButtonText}>Add Pricing Rule</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          rules.map((rule) => {
+            const inEffect = isRuleInEffect(rule)
+            return (
+              <View key={rule.id} style={styles.ruleCard}>
+                <View style={styles.ruleHeader}>
+                  <View style={styles.ruleInfo}>
+                    <Text style={[styles.ruleName, { opacity: rule.is_active ? 1 : 0.5 }]}>{rule.name}</Text>
+                    <Text style={styles.ruleDescription}>{describeRule(rule)}</Text>
+                    <View style={styles.ruleTags}>
+                      <View style={styles.typeBadge}>
+                        <Text style={styles.typeBadgeText}>{getRuleTypeLabel(rule.rule_type)}</Text>
+                      </View>
+                      <Text style={styles.ruleTag}>Priority {rule.priority}</Text>
+                      {!rule.stackable && <Text style={styles.ruleTag}>Not stackable</Text>}
+                    </View>
+                  </View>
+                  <View style={[styles.statusBadge, inEffect ? styles.activeBadge : styles.inactiveBadge]}>
+                    <Text style={[styles.statusText, inEffect ? styles.activeText : styles.inactiveText]}>
+                      {inEffect
+                        ? 'Active'
+                        : !rule.is_active
+                          ? 'Inactive'
+                          : rule.ends_at && new Date(rule.ends_at) <= new Date() ? 'Expired' : 'Scheduled'}
+                    </Text>
+                  </View>
+                </View>
+
+                {/* Action Buttons */}
+                <View style={styles.ruleActions}>
+                  <TouchableOpacity style={styles.actionButton} onPress={() => toggleRuleStatus(rule)}>
+                    <Ionicons name={rule.is_active ? 'eye-off' : 'eye'} size={18} color="#6b7280" />
+                    <Text style={styles.actionButtonText}>{rule.is_active ? 'Deactivate' : 'Activate'}</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.actionButton} onPress={() => openModal(rule)}>
+                    <Ionicons name="create" size={18} color="#3b82f6" />
+                    <Text style={[styles.actionButtonText, { color: '#3b82f6' }]}>Edit</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.actionButton} onPress={() => handleDelete(rule)}>
+                    <Ionicons name="trash" size={18} color="#ef4444" />
+                    <Text style={[styles.actionButtonText, { color: '#ef4444' }]}>Delete</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            )
+          })
+        )}
+      </ScrollView>
+
+      {/* Pricing Rule Modal */}
+      <Modal
+        visible={showModal}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setShowModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>
+                {editingRule ? 'Edit Pricing Rule' : 'Add Pricing Rule'}
+              </Text>
+              <TouchableOpacity onPress={() => setShowModal(false)}>
+                <Ionicons name="close" size={24} color="#6b7280" />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.modalBody}>
+              {/* Name */}
+              <View style={styles.formGroup}>
+                <Text style={styles.label}>Rule Name *</Text>
+                <Text style={styles.hint}>Printed on receipts next to the discount</Text>
+                <TextInput
+                  style={styles.input}
+                  value={name}
+                  onChangeText={setName}
+                  placeholder="e.g., Wash+Dry+Fold Bundle"
+                />
+              </View>
+
+              {/* Rule Type */}
+              <View style={styles.formGroup}>
+                <Text style={styles.label}>Rule Type</Text>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipScroll}>
+                  {ruleTypes.map((type) => (
+                    <TouchableOpacity
+                      key={type.value}
+                      style={[styles.chip, ruleType === type.value && styles.chipSelected]}
+                      onPress={() => setRuleType(type.value)}
+                    >
+                      <Text style={[styles.chipText, ruleType === type.value && styles.chipTextSelected]}>
+                        {type.label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </ScrollView>
+                {selectedType && <Text style={[styles.hint, { marginTop: 8 }]}>{selectedType.hint}</Text>}
+              </View>
+
+              {/* Services */}
+              {ruleType !== 'category_discount' && (
+                <View style={styles.formGroup}>
+                  <Text style={styles.label}>{ruleType === 'bundle' ? 'Bundled Services *' : 'Services'}</Text>
+                  {ruleType !== 'bundle' && (
+                    <Text style={styles.hint}>Leave empty to use the category below, or all items</Text>
+                  )}
+                  <View style={styles.chipWrap}>
+                    {services.map((service) => (
+                      <TouchableOpacity
+                        key={service.id}
+                        style={[styles.chip, styles.chipWrapped, serviceIds.includes(service.id) && styles.chipSelected]}
+                        onPress={() => toggleService(service.id)}
+                      >
+                        <Text style={[styles.chipText, serviceIds.includes(service.id) && styles.chipTextSelected]}>
+                          {service.name}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </View>
+              )}
+
+              {/* Category */}
+              {ruleType !== 'bundle' && (ruleType === 'category_discount' || serviceIds.length === 0) && (
+                <View style={styles.formGroup}>
+                  <Text style={styles.label}>Category{ruleType === 'category_discount' ? ' *' : ''}</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={category}
+                    onChangeText={setCategory}
+                    placeholder="e.g., wash, comforter"
+                    autoCapitalize="none"
+                  />
+                  <ScrollView horizontal showsHorizontalScrollIndicator={false} style={[styles.chipScroll, { marginTop: 8 }]}>
+                    {categories.map((cat) => (
+                      <TouchableOpacity
+                        key={cat.value}
+                        style={[styles.chip, category === cat.value && styles.chipSelected]}
+                        onPress={() => setCategory(cat.value)}
+                      >
+                        <Text style={[styles.chipText, category === cat.value && styles.chipTextSelected]}>
+                          {cat.label}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </ScrollView>
+                </View>
+              )}
+
+              {/* Quantity Tier */}
+              {ruleType === 'quantity_tier' && (
+                <View style={styles.formGroup}>
+                  <Text style={styles.label}>Minimum Quantity *</Text>
+                  <Text style={styles.hint}>Pieces, kg or loads, depending on the service</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={minQuantity}
+                    onChangeText={setMinQuantity}
+                    placeholder="e.g., 3"
+                    keyboardType="decimal-pad"
+                  />
+                  <View style={[styles.chipWrap, { marginTop: 8 }]}>
+                    <TouchableOpacity
+                      style={[styles.chip, styles.chipWrapped, applyTo === 'additional' && styles.chipSelected]}
+                      onPress={() => setApplyTo('additional')}
+                    >
+                      <Text style={[styles.chipText, applyTo === 'additional' && styles.chipTextSelected]}>
+                        From this unit onwards
+                      </Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.chip, styles.chipWrapped, applyTo === 'all' && styles.chipSelected]}
+                      onPress={() => setApplyTo('all')}
+                    >
+                      <Text style={[styles.chipText, applyTo === 'all' && styles.chipTextSelected]}>
+                        Whole line
+                      </Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              )}
+
+              {/* Happy Hour */}
+              {ruleType === 'happy_hour' && (
+                <View style={styles.formGroup}>
+                  <Text style={styles.label}>Time Window *</Text>
+                  <View style={styles.timeRow}>
+                    <TextInput
+                      style={[styles.input, styles.timeInput]}
+                      value={startTime}
+                      onChangeText={setStartTime}
+                      placeholder="14:00"
+                      keyboardType="numbers-and-punctuation"
+                    />
+                    <Text style={styles.timeSeparator}>to</Text>
+                    <TextInput
+                      style={[styles.input, styles.timeInput]}
+                      value={endTime}
+                      onChangeText={setEndTime}
+                      placeholder="17:00"
+                      keyboardType="numbers-and-punctuation"
+                    />
+                  </View>
+                  <Text style={[styles.hint, { marginTop: 8 }]}>Days (leave empty for every day)</Text>
+                  <View style={styles.chipWrap}>
+                    {weekDays.map((day, index) => (
+                      <TouchableOpacity
+                        key={day}
+                        style={[styles.chip, styles.chipWrapped, days.includes(index) && styles.chipSelected]}
+                        onPress={() => toggleDay(index)}
+                      >
+                        <Text style={[styles.chipText, days.includes(index) && styles.chipTextSelected]}>{day}</Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </View>
+              )}
+
+              {/* Discount */}
+              <View style={styles.formGroup}>
+                <Text style={styles.label}>Discount *</Text>
+                <View style={[styles.chipWrap, { marginBottom: 8 }]}>
+                  <TouchableOpacity
+                    style={[styles.chip, styles.chipWrapped, discountType === 'percent' && styles.chipSelected]}
+                    onPress={() => setDiscountType('percent')}
+                  >
+                    <Text style={[styles.chipText, discountType === 'percent' && styles.chipTextSelected]}>Percent (%)</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.chip, styles.chipWrapped, discountType === 'fixed' && styles.chipSelected]}
+                    onPress={() => setDiscountType('fixed')}
+                  >
+                    <Text style={[styles.chipText, discountType === 'fixed' && styles.chipTextSelected]}>Fixed (₱)</Text>
+                  </TouchableOpacity>
+                </View>
+                {discountType === 'fixed' && (
+                  <Text style={styles.hint}>
+                    {ruleType === 'bundle' ? 'Taken off once per order' : 'Taken off per piece, kg or load'}
+                  </Text>
+                )}
+                <TextInput
+                  style={styles.input}
+                  value={discountValue}
+                  onChangeText={setDiscountValue}
+                  placeholder={discountType === 'percent' ? 'e.g., 20' : 'e.g., 50.00'}
+                  keyboardType="decimal-pad"
+                />
+              </View>
+
+              {/* Priority */}
+              <View style={styles.formGroup}>
+                <Text style={styles.label}>Priority</Text>
+                <Text style={styles.hint}>Lower numbers are applied first (0, 1, 2, ...)</Text>
+                <TextInput
+                  style={styles.input}
+                  value={priority}
+                  onChangeText={setPriority}
+                  placeholder="0"
+                  keyboardType="numeric"
+                />
+              </View>
+
+              {/* Stackable */}
+              <View style={styles.formGroup}>
+                <View style={styles.switchRow}>
+                  <View style={styles.switchLabelContainer}>
+                    <Text style={styles.label}>Combine With Other Rules</Text>
+                    <Text style={styles.hint}>When off, later rules don't apply to the same items</Text>
+                  </View>
+                  <Switch
+                    value={stackable}
+                    onValueChange={setStackable}
+                    trackColor={{ false: '#d1d5db', true: '#3b82f6' }}
+                    thumbColor={stackable ? '#ffffff' : '#f4f3f4'}
+                  />
+                </View>
+              </View>
+
+              {/* Status Toggle */}
+              <View style={styles.formGroup}>
+                <View style={styles.switchRow}>
+                  <Text style={styles.label}>Rule Active</Text>
+                  <Switch
+                    value={isActive}
+                    onValueChange={setIsActive}
+                    trackColor={{ false: '#d1d5db', true: '#3b82f6' }}
+                    thumbColor={isActive ? '#ffffff' : '#f4f3f4'}
+                  />
+                </View>
+              </View>
+            </ScrollView>
+
+            {/* Modal Actions */}
+            <View style={styles.modalActions}>
+              <TouchableOpacity
+                style={styles.cancelButton}
+                onPress={() => setShowModal(false)}
+              >
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.saveButton}
+                onPress={handleSave}
+              >
+                <Text style={styles.saveButtonText}>Save Rule</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  centerContent: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#6b7280',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    backgroundColor: '#ffffff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  backButton: {
+    padding: 4,
+    marginRight: 12,
+  },
+  headerContent: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  addButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#3b82f6',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 64,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#111827',
+    marginTop: 16,
+  },
+  emptySubtitle: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  emptyButton: {
+    marginTop: 24,
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    backgroundColor: '#3b82f6',
+    borderRadius: 8,
+  },
+  emptyButtonText: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#ffffff',
+  },
+  ruleCard: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  ruleHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  ruleInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  ruleName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 4,
+  },
+  ruleDescription: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginBottom: 6,
+  },
+  ruleTags: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 8,
+  },
+  ruleTag: {
+    fontSize: 12,
+    color: '#9ca3af',
+  },
+  typeBadge: {
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    backgroundColor: '#eff6ff',
+    borderRadius: 4,
+  },
+  typeBadgeText: {
+    fontSize: 10,
+    color: '#3b82f6',
+    fontWeight: '600',
+  },
+  statusBadge: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 6,
+  },
+  activeBadge: {
+    backgroundColor: '#d1fae5',
+  },
+  inactiveBadge: {
+    backgroundColor: '#fee2e2',
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  activeText: {
+    color: '#10b981',
+  },
+  inactiveText: {
+    color: '#ef4444',
+  },
+  ruleActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    borderTopWidth: 1,
+    borderTopColor: '#f3f4f6',
+    paddingTop: 12,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  actionButtonText: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginLeft: 6,
+  },
+  // Modal styles
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#ffffff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  modalBody: {
+    padding: 20,
+  },
+  formGroup: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#111827',
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginBottom: 4,
+    fontStyle: 'italic',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#111827',
+  },
+  chipScroll: {
+    flexGrow: 0,
+  },
+  chipWrap: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    marginRight: 8,
+  },
+  chipWrapped: {
+    marginBottom: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#eff6ff',
+    borderColor: '#3b82f6',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  chipTextSelected: {
+    color: '#3b82f6',
+    fontWeight: '500',
+  },
+  timeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  timeInput: {
+    flex: 1,
+  },
+  timeSeparator: {
+    marginHorizontal: 12,
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  switchLabelContainer: {
+    flex: 1,
+    marginRight: 12,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    padding: 20,
+    gap: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+  },
+  cancelButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    color: '#6b7280',
+    fontWeight: '500',
+  },
+  saveButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: '#10b981',
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    fontSize: 16,
+    color: '#ffffff',
+    fontWeight: '600',
+  },
+})
+
+export default PricingRulesScreen
@@ -0,0 +1,387 @@
+import React, { useState, useEffect } from 'react'
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
+import { useStore } from '../context/StoreContext'
+import PrintQueueService from '../services/PrintQueueService'
+import { PrintJob, PrinterState } from '../types/printQueue'
+import { PRINTER_STATES, PRINT_JOB_STATUSES, describePrintJob } from '../utils/printQueue'
+
+const PrintQueueScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
+  const { currentStore } = useStore()
+  const [loading, setLoading] = useState(true)
+  const [refreshing, setRefreshing] = useState(false)
+  const [jobs, setJobs] = useState<PrintJob[]>([])
+  const [printerState, setPrinterState] = useState<PrinterState | null>(null)
+  const [checkingPrinter, setCheckingPrinter] = useState(false)
+  const [busyJobId, setBusyJobId] = useState<string | null>(null)
+  const [resumingAll, setResumingAll] = useState(false)
+
+  useEffect(() => {
+    loadJobs()
+    checkPrinter()
+
+    // Jobs change status while they print
+    return PrintQueueService.subscribe(() => {
+      loadJobs()
+    })
+  }, [currentStore])
+
+  const loadJobs = async () => {
+    if (!currentStore) return
+
+    try {
+      setJobs(await PrintQueueService.getJobs(currentStore.id))
+    } catch (error: any) {
+      console.error('❌ Error loading print queue:', error)
+    } finally {
+      setLoading(false)
+      setRefreshing(false)
+    }
+  }
+
+  const checkPrinter = async () => {
+    setCheckingPrinter(true)
+    try {
+      setPrinterState(await PrintQueueService.getPrinterState())
+    } catch (error) {
+      console.error('❌ Error checking printer state:', error)
+      setPrinterState('unknown')
+    } finally {
+      setCheckingPrinter(false)
+    }
+  }
+
+  const onRefresh = async () => {
+    setRefreshing(true)
+    await Promise.all([loadJobs(), checkPrinter()])
+  }
+
+  const runJobAction = async (job: PrintJob, action: () => Promise<PrintJob | void>) => {
+    setBusyJobId(job.id)
+    try {
+      const result = await action()
+      if (result && result.status !== 'printed') {
+        Alert.alert('Print Failed', describePrintJob(result))
+      }
+    } catch (error: any) {
+      console.error('❌ Print queue action failed:', error)
+      Alert.alert('Error', error.message || 'Print queue action failed')
+    } finally {
+      setBusyJobId(null)
+      checkPrinter()
+    }
+  }
+
+  const handleCancel = (job: PrintJob) => {
+    Alert.alert(
+      'Cancel Print Job',
+      `${job.title} will not be printed.`,
+      [
+        { text: 'Keep', style: 'cancel' },
+        {
+          text: 'Cancel Job',
+          style: 'destructive',
+          onPress: () => runJobAction(job, () => PrintQueueService.cancel(job.id)),
+        },
+      ]
+    )
+  }
+
+  const resumeAll = async () => {
+    if (!currentStore) return
+
+    setResumingAll(true)
+    try {
+      await PrintQueueService.resumeAll(currentStore.id)
+    } catch (error: any) {
+      console.error('❌ Error resuming print queue:', error)
+      Alert.alert('Error', error.message || 'Failed to resume the print queue')
+    } finally {
+      setResumingAll(false)
+      checkPrinter()
+    }
+  }
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.centerContent]}>
+        <ActivityIndicator size="large" color="#3b82f6" />
+        <Text style={styles.loadingText}>Loading print queue...</Text>
+      </View>
+    )
+  }
+
+  const pausedCount = jobs.filter(job => job.status === 'paused').length
+  const printerReady = printerState === 'ready'
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color="#111827" />
+        </TouchableOpacity>
+        <View style={styles.headerContent}>
+          <Text style={styles.title}>Print Queue</Text>
+          <Text style={styles.subtitle}>{currentStore?.name}</Text>
+        </View>
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      >
+        {/* Printer */}
+        <View style={styles.card}>
+          <View style={styles.printerRow}>
+            <Ionicons
+              name={printerReady ? 'checkmark-circle' : 'alert-circle'}
+              size={28}
+              color={printerReady ? '#10b981' : '#f59e0b'}
+            />
+            <View style={{ flex: 1, marginLeft: 12 }}>
+              <Text style={styles.rowTitle}>
+                {printerState ? PRINTER_STATES[printerState].label : 'Checking printer...'}
+              </Text>
+              {printerState && <Text style={styles.hint}>{PRINTER_STATES[printerState].hint}</Text>}
+            </View>
+            <TouchableOpacity onPress={checkPrinter} disabled={checkingPrinter} style={styles.iconButton}>
+              {checkingPrinter ? (
+                <ActivityIndicator size="small" color="#3b82f6" />
+              ) : (
+                <Ionicons name="refresh" size={22} color="#3b82f6" />
+              )}
+            </TouchableOpacity>
+          </View>
+
+          {pausedCount > 0 && (
+            <TouchableOpacity
+              style={[styles.primaryButton, resumingAll && { opacity: 0.6 }]}
+              onPress={resumeAll}
+              disabled={resumingAll || busyJobId !== null}
+            >
+              {resumingAll ? (
+                <ActivityIndicator size="small" color="#ffffff" />
+              ) : (
+                <Text style={styles.primaryButtonText}>Resume {pausedCount} Paused Job{pausedCount !== 1 ? 's' : ''}</Text>
+              )}
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {/* Jobs */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Jobs</Text>
+          {jobs.length === 0 && <Text style={styles.hint}>Nothing has been printed on this device yet</Text>}
+          {jobs.map(job => (
+            <View key={job.id} style={styles.row}>
+              <View style={{ flex: 1 }}>
+                <Text style={styles.rowTitle}>
+                  {job.title}{job.reprintOf ? ' • Reprint' : ''}
+                </Text>
+                <Text style={styles.hint}>
+                  {new Date(job.createdAt).toLocaleString()}
+                  {job.attempts > 0 ? ` • ${job.attempts} attempt${job.attempts !== 1 ? 's' : ''}` : ''}
+                </Text>
+                {job.lastError && job.status !== 'printed' && (
+                  <Text style={[styles.hint, styles.errorText]}>{job.lastError}</Text>
+                )}
+              </View>
+              <View style={{ alignItems: 'flex-end' }}>
+                <View style={[styles.statusBadge, { backgroundColor: PRINT_JOB_STATUSES[job.status].color }]}>
+                  <Text style={styles.statusBadgeText}>{PRINT_JOB_STATUSES[job.status].label}</Text>
+                </View>
+                {busyJobId === job.id ? (
+                  <ActivityIndicator size="small" color="#3b82f6" style={{ marginTop: 8 }} />
+                ) : (
+                  <View style={styles.jobButtons}>
+                    {job.status === 'paused' && (
+                      <TouchableOpacity
+                        style={styles.smallButton}
+                        onPress={() => runJobAction(job, () => PrintQueueService.resume(job.id))}
+                        disabled={busyJobId !== null}
+                      >
+                        <Text style={styles.smallButtonText}>Resume</Text>
+                      </TouchableOpacity>
+                    )}
+                    {job.status === 'failed' && (
+                      <TouchableOpacity
+                        style={styles.smallButton}
+                        onPress={() => runJobAction(job, () => PrintQueueService.retry(job.id))}
+                        disabled={busyJobId !== null}
+                      >
+                        <Text style={styles.smallButtonText}>Retry</Text>
+                      </TouchableOpacity>
+                    )}
+                    {(job.status === 'queued' || job.status === 'paused' || job.status === 'failed') && (
+                      <TouchableOpacity
+                        style={[styles.smallButton, styles.secondaryButton]}
+                        onPress={() => handleCancel(job)}
+                        disabled={busyJobId !== null}
+                      >
+                        <Text style={styles.secondaryButtonText}>Cancel</Text>
+                      </TouchableOpacity>
+                    )}
+                    {/* Official receipts are reprinted from Sales Receipts so the reprint is logged */}
+                    {job.status === 'printed' && job.kind !== 'sales_receipt' && (
+                      <TouchableOpacity
+                        style={[styles.smallButton, styles.secondaryButton]}
+                        onPress={() => runJobAction(job, () => PrintQueueService.reprint(job.id))}
+                        disabled={busyJobId !== null}
+                      >
+                        <Text style={styles.secondaryButtonText}>Reprint</Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                )}
+              </View>
+            </View>
+          ))}
+        </View>
+      </ScrollView>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  centerContent: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#6b7280',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    backgroundColor: '#ffffff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  backButton: {
+    padding: 4,
+    marginRight: 12,
+  },
+  headerContent: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginBottom: 4,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  errorText: {
+    color: '#ef4444',
+  },
+  printerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  iconButton: {
+    padding: 6,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+  rowTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 10,
+  },
+  statusBadgeText: {
+    color: '#ffffff',
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  jobButtons: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  smallButton: {
+    marginTop: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+    backgroundColor: '#3b82f6',
+  },
+  smallButtonText: {
+    color: '#ffffff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    backgroundColor: '#f3f4f6',
+  },
+  secondaryButtonText: {
+    color: '#374151',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  primaryButton: {
+    marginTop: 12,
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: '#3b82f6',
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#ffffff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+})
+
+export default PrintQueueScreen
@@ -8,11 +8,17 @@ import {
   ActivityIndicator,
   ScrollView,
   NativeModules,
-  Platform
+  Platform,
+  Switch,
+  TextInput
 } from 'react-native'
 import { Ionicons } from '@expo/vector-icons'
 import ThermalPrinterService from '../services/ThermalPrinterService'
 import POSTerminalPrinterService from '../services/POSTerminalPrinterService'
+import EscPosPrinterService from '../services/EscPosPrinterService'
+import { useStore } from '../context/StoreContext'
+import { EscPosCodePage, ExternalPrinterConfig, PairedPrinter, PaperWidth } from '../types/escpos'
+import { DEFAULT_CODE_PAGE, DEFAULT_NETWORK_PRINTER_PORT, ESC_POS_CODE_PAGES, PAPER_WIDTHS } from '../utils/escpos'
 
 interface AvailablePrinter {
   id: string
@@ -28,11 +34,159 @@ export default function PrinterConfigScreen() {
   const [selectedPrinter, setSelectedPrinter] = useState<string | null>(null)
   const [loading, setLoading] = useState(false)
   const [scanning, setScanning] = useState(false)
+  const { currentStore } = useStore()
+  const [escPosPrinter] = useState(EscPosPrinterService.getInstance())
+  const [savedExternalPrinter, setSavedExternalPrinter] = useState<ExternalPrinterConfig | null>(null)
+  const [connectionType, setConnectionType] = useState<'bluetooth' | 'network'>('bluetooth')
+  const [pairedPrinters, setPairedPrinters] = useState<PairedPrinter[]>([])
+  const [bluetoothPrinter, setBluetoothPrinter] = useState<PairedPrinter | null>(null)
+  const [networkHost, setNetworkHost] = useState('')
+  const [networkPort, setNetworkPort] = useState(String(DEFAULT_NETWORK_PRINTER_PORT))
+  const [paperWidth, setPaperWidth] = useState<PaperWidth>(58)
+  const [codePage, setCodePage] = useState<EscPosCodePage>(DEFAULT_CODE_PAGE)
+  const [hasCutter, setHasCutter] = useState(false)
 
   useEffect(() => {
     scanForPrinters()
   }, [])
 
+  useEffect(() => {
+    loadExternalPrinter()
+  }, [currentStore?.id])
+
+  const loadExternalPrinter = async () => {
+    if (!currentStore) return
+
+    const config = await escPosPrinter.loadConfig(currentStore.id)
+    setSavedExternalPrinter(config)
+    if (!config) return
+
+    setConnectionType(config.connection.type)
+    if (config.connection.type === 'bluetooth') {
+      setBluetoothPrinter({ name: config.connection.name, address: config.connection.address })
+    } else {
+      setNetworkHost(config.connection.host)
+      setNetworkPort(String(config.connection.port))
+    }
+    setPaperWidth(config.paperWidth)
+    setCodePage(config.codePage)
+    setHasCutter(config.hasCutter)
+  }
+
+  const findPairedPrinters = async () => {
+    setLoading(true)
+    try {
+      const printers = await escPosPrinter.getPairedPrinters()
+      setPairedPrinters(printers)
+      if (printers.length === 0) {
+        Alert.alert(
+          'No Paired Printers',
+          'Pair the printer in the phone\'s Bluetooth settings first, then search again.'
+        )
+      }
+    } catch (error: any) {
+      console.error('Paired printer search error:', error)
+      Alert.alert('Error', error?.message || 'Failed to list paired printers. Make sure Bluetooth is on.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const saveExternalPrinter = async () => {
+    if (!currentStore) {
+      Alert.alert('Error', 'Select a store first')
+      return
+    }
+
+    let connection: ExternalPrinterConfig['connection']
+    if (connectionType === 'bluetooth') {
+      if (!bluetoothPrinter) {
+        Alert.alert('Error', 'Choose a paired Bluetooth printer')
+        return
+      }
+      connection = { type: 'bluetooth', ...bluetoothPrinter }
+    } else {
+      const host = networkHost.trim()
+      const port = parseInt(networkPort, 10)
+      if (!host) {
+        Alert.alert('Error', 'Enter the printer\'s IP address')
+        return
+      }
+      if (isNaN(port) || port < 1 || port > 65535) {
+        Alert.alert('Error', 'Enter a port between 1 and 65535')
+        return
+      }
+      connection = { type: 'network', name: `${host}:${port}`, host, port }
+    }
+
+    setLoading(true)
+    try {
+      const config: ExternalPrinterConfig = { connection, paperWidth, codePage, hasCutter }
+      await escPosPrinter.saveConfig(currentStore.id, config)
+      await printerService.loadStorePrinter(currentStore.id)
+      setSavedExternalPrinter(config)
+
+      const connected = await printerService.initializePrinter()
+      Alert.alert(
+        connected ? 'Printer Saved' : 'Saved, Not Connected',
+        connected
+          ? `${connection.name} will be used for all printing in ${currentStore.name} on this device.`
+          : `Could not reach ${connection.name}. Check that it is on and in range, then try a test print.`
+      )
+    } catch (error: any) {
+      console.error('Save printer error:', error)
+      Alert.alert('Error', error?.message || 'Failed to save printer')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const removeExternalPrinter = () => {
+    if (!currentStore) return
+
+    Alert.alert(
+      'Remove Printer',
+      'Stop using this printer and go back to the built-in printer?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            await escPosPrinter.saveConfig(currentStore.id, null)
+            await printerService.loadStorePrinter(currentStore.id)
+            setSavedExternalPrinter(null)
+          },
+        },
+      ]
+    )
+  }
+
+  const testExternalPrinter = async () => {
+    setLoading(true)
+    try {
+      await printerService.initializePrinter()
+      const success = await printerService.testPrint()
+      Alert.alert(success ? 'Success' : 'Print Failed', success
+        ? 'Test print sent to the external printer!'
+        : 'Could not print. Check that the printer is on, paired or on the same network.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const openCashDrawer = async () => {
+    setLoading(true)
+    try {
+      const success = await printerService.openCashDrawer()
+      if (!success) {
+        Alert.alert('Error', 'Could not open the cash drawer. Is it connected to the printer?')
+      }
+    } finally {
+      setLoading(false)
+    }
+  }
+
   const scanForPrinters = async () => {
     setScanning(true)
     const foundPrinters: AvailablePrinter[] = []
@@ -586,6 +740,169 @@ export default function PrinterConfigScreen() {
             )}
           </View>
 
+          {/* External Printer */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>External Printer</Text>
+            <Text style={styles.sectionSubtitle}>
+              Bluetooth or network ESC/POS printer for {currentStore?.name || 'this store'}. Saved on this device only.
+            </Text>
+
+            {savedExternalPrinter && (
+              <View style={styles.savedPrinterBox}>
+                <Ionicons
+                  name={savedExternalPrinter.connection.type === 'bluetooth' ? 'bluetooth' : 'wifi'}
+                  size={20}
+                  color="#10b981"
+                />
+                <Text style={styles.savedPrinterText}>
+                  In use: {savedExternalPrinter.connection.name} ({savedExternalPrinter.paperWidth}mm)
+                </Text>
+              </View>
+            )}
+
+            <View style={styles.chipRow}>
+              {(['bluetooth', 'network'] as const).map(type => (
+                <TouchableOpacity
+                  key={type}
+                  style={[styles.chip, connectionType === type && styles.chipSelected]}
+                  onPress={() => setConnectionType(type)}
+                >
+                  <Text style={[styles.chipText, connectionType === type && styles.chipTextSelected]}>
+                    {type === 'bluetooth' ? 'Bluetooth' : 'Network (TCP)'}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {connectionType === 'bluetooth' ? (
+              <>
+                <TouchableOpacity
+                  style={[styles.button, styles.findButton]}
+                  onPress={findPairedPrinters}
+                  disabled={loading}
+                >
+                  <Ionicons name="bluetooth" size={20} color="#ffffff" />
+                  <Text style={styles.buttonText}>Find Paired Printers</Text>
+                </TouchableOpacity>
+                {(pairedPrinters.length > 0 ? pairedPrinters : bluetoothPrinter ? [bluetoothPrinter] : []).map(printer => (
+                  <TouchableOpacity
+                    key={printer.address}
+                    style={[
+                      styles.printerItem,
+                      bluetoothPrinter?.address === printer.address && styles.printerItemSelected
+                    ]}
+                    onPress={() => setBluetoothPrinter(printer)}
+                  >
+                    <View style={styles.printerInfo}>
+                      <Text style={styles.printerName}>{printer.name}</Text>
+                      <Text style={styles.printerType}>{printer.address}</Text>
+                    </View>
+                    {bluetoothPrinter?.address === printer.address && (
+                      <Ionicons name="checkmark-circle" size={24} color="#10b981" />
+                    )}
+                  </TouchableOpacity>
+                ))}
+              </>
+            ) : (
+              <View style={styles.networkRow}>
+                <View style={{ flex: 3 }}>
+                  <Text style={styles.label}>IP Address</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={networkHost}
+                    onChangeText={setNetworkHost}
+                    placeholder="192.168.1.100"
+                    keyboardType="numbers-and-punctuation"
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                  />
+                </View>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.label}>Port</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={networkPort}
+                    onChangeText={setNetworkPort}
+                    keyboardType="number-pad"
+                  />
+                </View>
+              </View>
+            )}
+
+            <Text style={styles.label}>Paper width</Text>
+            <View style={styles.chipRow}>
+              {([58, 80] as PaperWidth[]).map(width => (
+                <TouchableOpacity
+                  key={width}
+                  style={[styles.chip, paperWidth === width && styles.chipSelected]}
+                  onPress={() => setPaperWidth(width)}
+                >
+                  <Text style={[styles.chipText, paperWidth === width && styles.chipTextSelected]}>
+                    {width}mm ({PAPER_WIDTHS[width].lineWidth} chars)
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.label}>Character set</Text>
+            <View style={[styles.chipRow, styles.chipRowWrap]}>
+              {ESC_POS_CODE_PAGES.map(option => (
+                <TouchableOpacity
+                  key={option.key}
+                  style={[styles.chip, codePage === option.key && styles.chipSelected]}
+                  onPress={() => setCodePage(option.key)}
+                >
+                  <Text style={[styles.chipText, codePage === option.key && styles.chipTextSelected]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <View style={styles.switchRow}>
+              <Text style={[styles.label, { flex: 1 }]}>Printer has an auto-cutter</Text>
+              <Switch value={hasCutter} onValueChange={setHasCutter} />
+            </View>
+
+            <TouchableOpacity
+              style={[styles.button, styles.testButton]}
+              onPress={saveExternalPrinter}
+              disabled={loading || !currentStore}
+            >
+              <Ionicons name="save" size={20} color="#ffffff" />
+              <Text style={styles.buttonText}>Save Printer</Text>
+            </TouchableOpacity>
+
+            {savedExternalPrinter && (
+              <>
+                <TouchableOpacity
+                  style={[styles.button, styles.sampleButton, { marginBottom: 12 }]}
+                  onPress={testExternalPrinter}
+                  disabled={loading}
+                >
+                  <Ionicons name="print-outline" size={20} color="#ffffff" />
+                  <Text style={styles.buttonText}>Test Print</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.button, styles.qrButton]}
+                  onPress={openCashDrawer}
+                  disabled={loading}
+                >
+                  <Ionicons name="cash-outline" size={20} color="#ffffff" />
+                  <Text style={styles.buttonText}>Open Cash Drawer</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.button, styles.removeButton]}
+                  onPress={removeExternalPrinter}
+                  disabled={loading}
+                >
+                  <Ionicons name="trash-outline" size={20} color="#ffffff" />
+                  <Text style={styles.buttonText}>Remove Printer</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+
           {/* Test Functions */}
           {selectedPrinter && (
             <View style={styles.section}>
@@ -870,6 +1187,81 @@ const styles = StyleSheet.create({
   sampleButton: {
     backgroundColor: '#8b5cf6',
   },
+  findButton: {
+    marginBottom: 12,
+  },
+  removeButton: {
+    backgroundColor: '#ef4444',
+  },
+  savedPrinterBox: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#f0fdf4',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 16,
+  },
+  savedPrinterText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#065f46',
+    fontWeight: '500',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chipRowWrap: {
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    backgroundColor: '#ffffff',
+  },
+  chipSelected: {
+    borderColor: '#3b82f6',
+    backgroundColor: '#eff6ff',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  chipTextSelected: {
+    color: '#3b82f6',
+    fontWeight: '600',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#111827',
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#111827',
+    backgroundColor: '#ffffff',
+  },
+  networkRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 16,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
   debugButton: {
     backgroundColor: '#6b7280',
     marginBottom: 0,
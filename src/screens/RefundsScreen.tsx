@@ -0,0 +1,309 @@
+import React, { useState, useEffect } from 'react'
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
+import { supabase } from '../../lib/supabase'
+import { useStore } from '../context/StoreContext'
+import RefundService from '../services/RefundService'
+import RefundModal, { RefundTarget } from '../components/RefundModal'
+import { PendingRefund, Refund } from '../types/refund'
+
+const RefundsScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
+  const { currentStore } = useStore()
+  const [loading, setLoading] = useState(true)
+  const [refreshing, setRefreshing] = useState(false)
+  const [isManager, setIsManager] = useState(false)
+  const [pendingRefunds, setPendingRefunds] = useState<PendingRefund[]>([])
+  const [recentRefunds, setRecentRefunds] = useState<Refund[]>([])
+  const [userNames, setUserNames] = useState<Record<string, string>>({})
+  const [methodNames, setMethodNames] = useState<Record<string, string>>({})
+  const [refundTarget, setRefundTarget] = useState<RefundTarget | null>(null)
+
+  useEffect(() => {
+    loadRefunds()
+  }, [currentStore])
+
+  const loadRefunds = async () => {
+    if (!currentStore) return
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session?.user) return
+
+      const { data: userDetails } = await supabase
+        .from('users')
+        .select('role')
+        .eq('id', session.user.id)
+        .single()
+      const manager = ['super_admin', 'store_owner', 'manager'].includes(userDetails?.role || '')
+      setIsManager(manager)
+
+      const { data: methods } = await supabase
+        .from('payment_methods')
+        .select('name, display_name')
+      const names: Record<string, string> = {}
+      methods?.forEach((method: any) => {
+        names[method.name] = method.display_name
+      })
+      setMethodNames(names)
+
+      setPendingRefunds(await RefundService.getPendingRefunds(currentStore.id))
+
+      // Managers review refunds already given
+      if (manager) {
+        const refunds = await RefundService.getRecentRefunds(currentStore.id)
+        setRecentRefunds(refunds)
+
+        const userIds = Array.from(new Set(refunds.flatMap(refund => [refund.approved_by, refund.refunded_by])))
+        if (userIds.length > 0) {
+          const { data: users } = await supabase
+            .from('users')
+            .select('id, first_name, last_name')
+            .in('id', userIds)
+          const staffNames: Record<string, string> = {}
+          users?.forEach((user: any) => {
+            staffNames[user.id] = `${user.first_name || ''} ${user.last_name || ''}`.trim() || 'Unknown'
+          })
+          setUserNames(staffNames)
+        }
+      }
+    } catch (error: any) {
+      console.error('❌ Error loading refunds:', error)
+      Alert.alert('Error', error.message || 'Failed to load refunds')
+    } finally {
+      setLoading(false)
+      setRefreshing(false)
+    }
+  }
+
+  const onRefresh = async () => {
+    setRefreshing(true)
+    await loadRefunds()
+  }
+
+  const totalOwed = pendingRefunds.reduce((sum, pending) => sum + Number(pending.amount_owed), 0)
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.centerContent]}>
+        <ActivityIndicator size="large" color="#3b82f6" />
+        <Text style={styles.loadingText}>Loading refunds...</Text>
+      </View>
+    )
+  }
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color="#111827" />
+        </TouchableOpacity>
+        <View style={styles.headerContent}>
+          <Text style={styles.title}>Refunds</Text>
+          <Text style={styles.subtitle}>{currentStore?.name}</Text>
+        </View>
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      >
+        {/* Pending Refunds */}
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Ionicons name="return-down-back-outline" size={24} color="#ef4444" />
+            <View style={{ flex: 1 }}>
+              <Text style={styles.cardTitle}>Owed to Customers</Text>
+              <Text style={styles.hint}>
+                {pendingRefunds.length === 0
+                  ? 'No refunds pending'
+                  : `${pendingRefunds.length} pending • ₱${totalOwed.toFixed(2)}`}
+              </Text>
+            </View>
+          </View>
+
+          {pendingRefunds.map(pending => (
+            <View key={`${pending.source}-${pending.cancelled_order_id || pending.order_id}`} style={styles.row}>
+              <View style={{ flex: 1 }}>
+                <Text style={styles.rowTitle}>
+                  {pending.order_number} • {pending.customer_name || 'Walk-in Customer'}
+                </Text>
+                <Text style={styles.hint}>
+                  {pending.source === 'cancelled' ? 'Cancelled' : 'Overpaid'} {new Date(pending.since).toLocaleDateString()} • {pending.reason}
+                </Text>
+                {Number(pending.refunded_amount) > 0 && (
+                  <Text style={styles.hint}>
+                    ₱{Number(pending.refunded_amount).toFixed(2)} of ₱{Number(pending.refund_amount).toFixed(2)} refunded
+                  </Text>
+                )}
+              </View>
+              <View style={{ alignItems: 'flex-end' }}>
+                <Text style={styles.owedAmount}>₱{Number(pending.amount_owed).toFixed(2)}</Text>
+                <TouchableOpacity
+                  style={styles.refundButton}
+                  onPress={() => setRefundTarget({
+                    orderId: pending.order_id,
+                    cancelledOrderId: pending.cancelled_order_id,
+                    orderNumber: pending.order_number,
+                    customerName: pending.customer_name || 'Walk-in Customer',
+                    amountOwed: Number(pending.amount_owed),
+                  })}
+                >
+                  <Text style={styles.refundButtonText}>Refund</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          ))}
+        </View>
+
+        {/* Recent Refunds - managers only */}
+        {isManager && recentRefunds.length > 0 && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Recent Refunds</Text>
+            {recentRefunds.map(refund => (
+              <View key={refund.id} style={styles.row}>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.rowTitle}>{refund.order_number} • {refund.reason}</Text>
+                  <Text style={styles.hint}>
+                    {new Date(refund.refunded_at).toLocaleString()} • {methodNames[refund.refund_method] || refund.refund_method.toUpperCase()}
+                    {refund.reference_number ? ` • Ref ${refund.reference_number}` : ''}
+                  </Text>
+                  <Text style={styles.hint}>
+                    By {userNames[refund.refunded_by] || 'Unknown'} • Approved by {userNames[refund.approved_by] || 'Unknown'}
+                  </Text>
+                </View>
+                <Text style={styles.refundedAmount}>-₱{Number(refund.amount).toFixed(2)}</Text>
+              </View>
+            ))}
+          </View>
+        )}
+      </ScrollView>
+
+      {currentStore && (
+        <RefundModal
+          visible={refundTarget !== null}
+          storeId={currentStore.id}
+          storeName={currentStore.name}
+          target={refundTarget}
+          onClose={() => setRefundTarget(null)}
+          onRefunded={() => loadRefunds()}
+        />
+      )}
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  centerContent: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#6b7280',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    backgroundColor: '#ffffff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  backButton: {
+    padding: 4,
+    marginRight: 12,
+  },
+  headerContent: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 12,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+  rowTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  owedAmount: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: '#ef4444',
+  },
+  refundedAmount: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: '#ef4444',
+    marginLeft: 8,
+  },
+  refundButton: {
+    marginTop: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+    backgroundColor: '#ef4444',
+  },
+  refundButtonText: {
+    color: '#ffffff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+})
+
+export default RefundsScreen
@@ -5,6 +5,8 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context'
 import RNFS from 'react-native-fs'
 import { supabase } from '../../lib/supabase'
 import { useStore } from '../context/StoreContext'
+import { formatWeight } from '../utils/servicePricing'
+import { formatDuration, getOrderTurnaround } from '../utils/orderStatus'
 import * as Print from 'expo-print'
 import * as Sharing from 'expo-sharing'
 
@@ -33,10 +35,32 @@ interface Transaction {
   card_number: string | null
   is_cancelled: boolean
   cancelled_at: string | null
+  tender_group?: string | null // Shared by the payments of one split-tender checkout
+  amount_tendered?: number | null // Cash received
+  change_given?: number | null
+  split_tenders?: string[] // The other tenders of the same checkout
   order_number?: string
   customer_name?: string
+  order_discount?: number // Total discount on the order
+  order_discounts?: string[] // Promotion, discount and voucher names
 }
 
+const discountSourceLabels: Record<string, string> = {
+  pricing_rule: 'Promotions',
+  manual: 'Manual Discounts',
+  voucher: 'Vouchers',
+  vat_exemption: 'VAT Exemptions (SC/PWD)',
+  senior_pwd: 'Senior Citizen / PWD Discounts',
+}
+
+// Average stage times shown in the order summary
+const TURNAROUND_ROWS: [string, string][] = [
+  ['processing', 'Processing (started to ready)'],
+  ['readyTime', 'Turnaround (received to ready)'],
+  ['pickupWait', 'Waiting for pickup'],
+  ['total', 'Received to pickup'],
+]
+
 interface ReportData {
   salesReport?: any
   orderSummary?: any
@@ -105,6 +129,7 @@ const ReportsScreen: React.FC = () => {
         .from('orders')
         .select('total_amount, paid_amount')
         .eq('store_id', currentStore.id)
+        .neq('order_status', 'cancelled')
         .gte('order_date', today.toISOString())
         .lt('order_date', new Date(today.getTime() + 24 * 60 * 60 * 1000).toISOString())
 
@@ -115,6 +140,7 @@ const ReportsScreen: React.FC = () => {
         .from('orders')
         .select('total_amount, paid_amount')
         .eq('store_id', currentStore.id)
+        .neq('order_status', 'cancelled')
         .gte('order_date', yesterday.toISOString())
         .lt('order_date', today.toISOString())
 
@@ -125,6 +151,7 @@ const ReportsScreen: React.FC = () => {
         .from('orders')
         .select('total_amount, paid_amount')
         .eq('store_id', currentStore.id)
+        .neq('order_status', 'cancelled')
         .gte('order_date', weekStart.toISOString())
         .lt('order_date', new Date(today.getTime() + 24 * 60 * 60 * 1000).toISOString())
 
@@ -135,6 +162,7 @@ const ReportsScreen: React.FC = () => {
         .from('orders')
         .select('total_amount, paid_amount')
         .eq('store_id', currentStore.id)
+        .neq('order_status', 'cancelled')
         .gte('order_date', lastWeekStart.toISOString())
         .lt('order_date', lastWeekEnd.toISOString())
 
@@ -145,6 +173,7 @@ const ReportsScreen: React.FC = () => {
         .from('orders')
         .select('total_amount, paid_amount')
         .eq('store_id', currentStore.id)
+        .neq('order_status', 'cancelled')
         .gte('order_date', monthStart.toISOString())
 
       if (monthError) throw monthError
@@ -154,6 +183,7 @@ const ReportsScreen: React.FC = () => {
         .from('orders')
         .select('total_amount, paid_amount')
         .eq('store_id', currentStore.id)
+        .neq('order_status', 'cancelled')
         .gte('order_date', lastMonthStart.toISOString())
         .lt('order_date', monthStart.toISOString())
 
@@ -162,11 +192,21 @@ const ReportsScreen: React.FC = () => {
       // Fetch all orders for total orders and avg order value
       const { data: allOrders, error: allOrdersError } = await supabase
         .from('orders')
-        .select('total_amount, paid_amount, order_date')
+        .select('id, total_amount, paid_amount, order_date')
         .eq('store_id', currentStore.id)
+        .neq('order_status', 'cancelled')
 
       if (allOrdersError) throw allOrdersError
 
+      // Refunds since last month, deducted from sales when they were given
+      const { data: recentRefunds, error: refundsError } = await supabase
+        .from('refunds')
+        .select('order_id, amount, refunded_at')
+        .eq('store_id', currentStore.id)
+        .gte('refunded_at', lastMonthStart.toISOString())
+
+      if (refundsError) throw refundsError
+
       // Fetch previous period orders for comparison (30 days ago)
       const thirtyDaysAgo = new Date(today)
       thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30)
@@ -177,6 +217,7 @@ const ReportsScreen: React.FC = () => {
         .from('orders')
         .select('total_amount, paid_amount, order_date')
         .eq('store_id', currentStore.id)
+        .neq('order_status', 'cancelled')
         .gte('order_date', sixtyDaysAgo.toISOString())
         .lt('order_date', thirtyDaysAgo.toISOString())
 
@@ -201,13 +242,21 @@ const ReportsScreen: React.FC = () => {
 
       if (previousCustomerError) throw previousCustomerError
 
-      // Calculate sales
-      const dailySales = todayOrders?.reduce((sum, o) => sum + Number(o.paid_amount || 0), 0) || 0
-      const yesterdaySales = yesterdayOrders?.reduce((sum, o) => sum + Number(o.paid_amount || 0), 0) || 0
-      const weeklySales = weekOrders?.reduce((sum, o) => sum + Number(o.paid_amount || 0), 0) || 0
-      const lastWeekSales = lastWeekOrders?.reduce((sum, o) => sum + Number(o.paid_amount || 0), 0) || 0
-      const monthlySales = monthOrders?.reduce((sum, o) => sum + Number(o.paid_amount || 0), 0) || 0
-      const lastMonthSales = lastMonthOrders?.reduce((sum, o) => sum + Number(o.paid_amount || 0), 0) || 0
+      // Refunds of orders counted in sales; cancelled orders are left out of sales altogether
+      const existingOrderIds = new Set((allOrders || []).map(o => o.id))
+      const refundsBetween = (from: Date, to?: Date) => (recentRefunds || [])
+        .filter(refund => existingOrderIds.has(refund.order_id))
+        .filter(refund => new Date(refund.refunded_at) >= from && (!to || new Date(refund.refunded_at) < to))
+        .reduce((sum, refund) => sum + Number(refund.amount || 0), 0)
+      const tomorrow = new Date(today.getTime() + 24 * 60 * 60 * 1000)
+
+      // Calculate sales, net of refunds
+      const dailySales = (todayOrders?.reduce((sum, o) => sum + Number(o.paid_amount || 0), 0) || 0) - refundsBetween(today, tomorrow)
+      const yesterdaySales = (yesterdayOrders?.reduce((sum, o) => sum + Number(o.paid_amount || 0), 0) || 0) - refundsBetween(yesterday, today)
+      const weeklySales = (weekOrders?.reduce((sum, o) => sum + Number(o.paid_amount || 0), 0) || 0) - refundsBetween(weekStart, tomorrow)
+      const lastWeekSales = (lastWeekOrders?.reduce((sum, o) => sum + Number(o.paid_amount || 0), 0) || 0) - refundsBetween(lastWeekStart, lastWeekEnd)
+      const monthlySales = (monthOrders?.reduce((sum, o) => sum + Number(o.paid_amount || 0), 0) || 0) - refundsBetween(monthStart)
+      const lastMonthSales = (lastMonthOrders?.reduce((sum, o) => sum + Number(o.paid_amount || 0), 0) || 0) - refundsBetween(lastMonthStart, monthStart)
 
       // Calculate total orders
       const totalOrders = allOrders?.length || 0
@@ -267,6 +316,16 @@ const ReportsScreen: React.FC = () => {
     return num.toLocaleString()
   }
 
+  /**
+   * Describe how much of a service was sold, e.g. "12 sold • 45.5kg"
+   */
+  const formatServiceVolume = (service: { quantity: number; weight?: number }) => {
+    const parts: string[] = []
+    if (service.quantity > 0) parts.push(`${formatNumber(service.quantity)} sold`)
+    if (service.weight && service.weight > 0) parts.push(formatWeight(service.weight))
+    return parts.length > 0 ? parts.join(' • ') : '0 sold'
+  }
+
   const formatChange = (change: number) => {
     const sign = change >= 0 ? '+' : ''
     return `${sign}${change.toFixed(0)}%`
@@ -376,8 +435,9 @@ const ReportsScreen: React.FC = () => {
     // Get orders for this store first
     const { data: storeOrders, error: ordersError } = await supabase
       .from('orders')
-      .select('id')
+      .select('id, order_number, order_date, order_status, tax_rate, vatable_sales, vat_amount, vat_exempt_sales, senior_pwd_type')
       .eq('store_id', currentStore.id)
+      .neq('order_status', 'cancelled')
 
     if (ordersError) throw ordersError
 
@@ -390,6 +450,10 @@ const ReportsScreen: React.FC = () => {
           byMethod: {},
           daily: {},
           total: 0,
+          refunds: 0,
+          discountsBySource: {},
+          checkoutDiscounts: [],
+          vatSummary: null,
         }
       })
       return
@@ -407,12 +471,27 @@ const ReportsScreen: React.FC = () => {
 
     const storePayments = payments || []
 
+    // Refunds of these orders this month, taken off the method they were paid back with
+    const { data: refunds, error: refundsError } = await supabase
+      .from('refunds')
+      .select('amount, refund_method, refunded_at, order_id')
+      .in('order_id', orderIds)
+      .gte('refunded_at', monthStart.toISOString())
+
+    if (refundsError) throw refundsError
+
+    const storeRefunds = refunds || []
+    const totalRefunds = storeRefunds.reduce((sum: number, r: any) => sum + Number(r.amount || 0), 0)
+
     // Group by payment method
     const salesByMethod: Record<string, number> = {}
     storePayments.forEach((payment: any) => {
       const method = payment.payment_method || 'unknown'
       salesByMethod[method] = (salesByMethod[method] || 0) + Number(payment.amount || 0)
     })
+    storeRefunds.forEach((refund: any) => {
+      salesByMethod[refund.refund_method] = (salesByMethod[refund.refund_method] || 0) - Number(refund.amount || 0)
+    })
 
     // Get daily sales for last 7 days
     const sevenDaysAgo = new Date()
@@ -434,13 +513,80 @@ const ReportsScreen: React.FC = () => {
       const date = new Date(payment.payment_date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
       dailySales[date] = (dailySales[date] || 0) + Number(payment.amount || 0)
     })
+    storeRefunds
+      .filter((refund: any) => new Date(refund.refunded_at) >= sevenDaysAgo)
+      .forEach((refund: any) => {
+        const date = new Date(refund.refunded_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+        dailySales[date] = (dailySales[date] || 0) - Number(refund.amount || 0)
+      })
+
+    // Discounts given this month, split by where they came from
+    const { data: adjustments, error: adjustmentsError } = await supabase
+      .from('order_adjustments')
+      .select('order_id, amount, source, description, created_at, created_by, approved_by')
+      .in('order_id', orderIds)
+      .gte('created_at', monthStart.toISOString())
+      .order('created_at', { ascending: false })
+
+    if (adjustmentsError) throw adjustmentsError
+
+    const discountsBySource: Record<string, number> = {}
+    ;(adjustments || []).forEach((adjustment: any) => {
+      discountsBySource[adjustment.source] = (discountsBySource[adjustment.source] || 0) + Number(adjustment.amount || 0)
+    })
+
+    // Manual discounts and vouchers are listed with who gave and approved them
+    const checkoutDiscounts = (adjustments || []).filter((a: any) => a.source === 'manual' || a.source === 'voucher')
+    const userIds = Array.from(new Set(checkoutDiscounts
+      .flatMap((a: any) => [a.created_by, a.approved_by])
+      .filter(Boolean))) as string[]
+    const userNames: Record<string, string> = {}
+    if (userIds.length > 0) {
+      const { data: users } = await supabase
+        .from('users')
+        .select('id, first_name, last_name')
+        .in('id', userIds)
+      users?.forEach((user: any) => {
+        userNames[user.id] = `${user.first_name || ''} ${user.last_name || ''}`.trim() || 'Unknown'
+      })
+    }
+    const orderNumbers: Record<string, string> = {}
+    storeOrders?.forEach((order: any) => {
+      orderNumbers[order.id] = order.order_number
+    })
+
+    // VAT breakdown of this month's orders that were saved with VAT details
+    const vatOrders = (storeOrders || []).filter((order: any) =>
+      order.tax_rate !== null &&
+      new Date(order.order_date) >= monthStart
+    )
+    const vatSummary = vatOrders.length > 0
+      ? vatOrders.reduce((summary: any, order: any) => ({
+          vatableSales: summary.vatableSales + Number(order.vatable_sales || 0),
+          vatAmount: summary.vatAmount + Number(order.vat_amount || 0),
+          vatExemptSales: summary.vatExemptSales + Number(order.vat_exempt_sales || 0),
+          seniorPwdOrders: summary.seniorPwdOrders + (order.senior_pwd_type ? 1 : 0),
+        }), { vatableSales: 0, vatAmount: 0, vatExemptSales: 0, seniorPwdOrders: 0 })
+      : null
 
     setReportData({
       ...reportData,
       salesReport: {
         byMethod: salesByMethod,
         daily: dailySales,
-        total: storePayments.reduce((sum: number, p: any) => sum + Number(p.amount || 0), 0),
+        total: storePayments.reduce((sum: number, p: any) => sum + Number(p.amount || 0), 0) - totalRefunds,
+        refunds: totalRefunds,
+        discountsBySource,
+        checkoutDiscounts: checkoutDiscounts.map((a: any) => ({
+          order_number: orderNumbers[a.order_id] || 'N/A',
+          description: a.description,
+          amount: Number(a.amount),
+          source: a.source,
+          created_at: a.created_at,
+          applied_by: a.created_by ? userNames[a.created_by] || 'Unknown' : 'Unknown',
+          approved_by: a.approved_by ? userNames[a.approved_by] || 'Unknown' : null,
+        })),
+        vatSummary,
       }
     })
   }
@@ -459,15 +605,29 @@ const ReportsScreen: React.FC = () => {
     const byStatus: Record<string, number> = {}
     const byPaymentStatus: Record<string, number> = {}
     let totalRevenue = 0
+    let storageFees = 0
     let totalPaid = 0
 
     orders?.forEach(order => {
       byStatus[order.order_status] = (byStatus[order.order_status] || 0) + 1
+      // Cancelled orders are counted by status but are not revenue
+      if (order.order_status === 'cancelled') return
       byPaymentStatus[order.payment_status] = (byPaymentStatus[order.payment_status] || 0) + 1
       totalRevenue += Number(order.total_amount || 0)
+      // Storage fees are charged on top of the order total and are not part of its sales or VAT
+      storageFees += Number(order.storage_fee || 0)
       totalPaid += Number(order.paid_amount || 0)
     })
 
+    // Average time per stage, from orders that reached the stage
+    const turnarounds = (orders || [])
+      .filter(order => order.order_status !== 'cancelled')
+      .map(order => getOrderTurnaround(order))
+    const average = (values: (number | null)[]) => {
+      const measured = values.filter((value): value is number => value !== null)
+      return measured.length > 0 ? measured.reduce((sum, value) => sum + value, 0) / measured.length : null
+    }
+
     setReportData({
       ...reportData,
       orderSummary: {
@@ -475,8 +635,15 @@ const ReportsScreen: React.FC = () => {
         byPaymentStatus,
         total: orders?.length || 0,
         totalRevenue,
+        storageFees,
         totalPaid,
-        outstanding: totalRevenue - totalPaid,
+        outstanding: totalRevenue + storageFees - totalPaid,
+        turnaround: {
+          processing: average(turnarounds.map(t => t.processing)),
+          readyTime: average(turnarounds.map(t => t.turnaround)),
+          pickupWait: average(turnarounds.map(t => t.pickup)),
+          total: average(turnarounds.map(t => t.total)),
+        },
       }
     })
   }
@@ -498,6 +665,7 @@ const ReportsScreen: React.FC = () => {
       .from('orders')
       .select('customer_id, total_amount, paid_amount')
       .eq('store_id', currentStore.id)
+      .neq('order_status', 'cancelled')
       .not('customer_id', 'is', null)
 
     if (ordersError) throw ordersError
@@ -557,6 +725,7 @@ const ReportsScreen: React.FC = () => {
       .from('orders')
       .select('id')
       .eq('store_id', currentStore.id)
+      .neq('order_status', 'cancelled')
 
     if (ordersError) throw ordersError
 
@@ -577,13 +746,14 @@ const ReportsScreen: React.FC = () => {
     // Get order items for these orders
     const { data: orderItems, error: itemsError } = await supabase
       .from('order_items')
-      .select('service_name, quantity, total_price, service_id')
+      .select('service_name, quantity, total_price, service_id, pricing_mode, weight')
       .in('order_id', orderIds)
 
     if (itemsError) throw itemsError
 
     // Group by service
-    const serviceStats: Record<string, { name: string; quantity: number; revenue: number; orders: number }> = {}
+    // quantity counts pieces and loads; weight sums kg across weighed items
+    const serviceStats: Record<string, { name: string; quantity: number; weight: number; revenue: number; orders: number }> = {}
     
     orderItems?.forEach(item => {
       const serviceName = item.service_name || 'Unknown Service'
@@ -591,11 +761,17 @@ const ReportsScreen: React.FC = () => {
         serviceStats[serviceName] = {
           name: serviceName,
           quantity: 0,
+          weight: 0,
           revenue: 0,
           orders: 0
         }
       }
-      serviceStats[serviceName].quantity += item.quantity || 0
+      if (item.pricing_mode === 'per_kilo') {
+        serviceStats[serviceName].weight += Number(item.weight || item.quantity || 0)
+      } else {
+        serviceStats[serviceName].quantity += Number(item.quantity || 0)
+        serviceStats[serviceName].weight += Number(item.weight || 0)
+      }
       serviceStats[serviceName].revenue += Number(item.total_price || 0)
       serviceStats[serviceName].orders += 1
     })
@@ -627,6 +803,7 @@ const ReportsScreen: React.FC = () => {
       .from('orders')
       .select('id')
       .eq('store_id', currentStore.id)
+      .neq('order_status', 'cancelled')
 
     if (ordersError) throw ordersError
 
@@ -657,12 +834,30 @@ const ReportsScreen: React.FC = () => {
 
     const storePayments = payments || []
 
+    const { data: refunds, error: refundsError } = await supabase
+      .from('refunds')
+      .select('amount, refunded_at, order_id')
+      .in('order_id', orderIds)
+      .gte('refunded_at', thirtyDaysAgo.toISOString())
+
+    if (refundsError) throw refundsError
+
+    // Refunds count as negative revenue on the day they were given
+    const revenueEntries = [
+      ...storePayments.map((payment: any) => ({ date: payment.payment_date, amount: Number(payment.amount || 0) })),
+      ...(refunds || []).map((refund: any) => ({ date: refund.refunded_at, amount: -Number(refund.amount || 0) })),
+    ]
+
     // Group by date
     const dailyRevenue: Record<string, number> = {}
     storePayments.forEach((payment: any) => {
       const date = new Date(payment.payment_date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
       dailyRevenue[date] = (dailyRevenue[date] || 0) + Number(payment.amount || 0)
     })
+    ;(refunds || []).forEach((refund: any) => {
+      const date = new Date(refund.refunded_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+      dailyRevenue[date] = (dailyRevenue[date] || 0) - Number(refund.amount || 0)
+    })
 
     // Calculate weekly totals
     const weeklyRevenue: Record<string, number> = {}
@@ -679,10 +874,10 @@ const ReportsScreen: React.FC = () => {
       weekLabels.push(weekLabel)
       
       let weekTotal = 0
-      storePayments.forEach((payment: any) => {
-        const paymentDate = new Date(payment.payment_date)
-        if (paymentDate >= weekStart && paymentDate <= weekEnd) {
-          weekTotal += Number(payment.amount || 0)
+      revenueEntries.forEach(entry => {
+        const entryDate = new Date(entry.date)
+        if (entryDate >= weekStart && entryDate <= weekEnd) {
+          weekTotal += entry.amount
         }
       })
       weeklyRevenue[weekLabel] = weekTotal
@@ -694,7 +889,7 @@ const ReportsScreen: React.FC = () => {
         daily: dailyRevenue,
         weekly: weeklyRevenue,
         weekLabels,
-        total: storePayments.reduce((sum: number, p: any) => sum + Number(p.amount || 0), 0),
+        total: revenueEntries.reduce((sum, entry) => sum + entry.amount, 0),
       }
     })
   }
@@ -706,20 +901,22 @@ const ReportsScreen: React.FC = () => {
       // Get orders for this store first
       const { data: storeOrders, error: ordersError } = await supabase
         .from('orders')
-        .select('id, order_number, customer_id, customers(first_name, last_name)')
+        .select('id, order_number, customer_id, discount, customers(first_name, last_name), order_adjustments(description, amount, source)')
         .eq('store_id', currentStore.id)
 
       if (ordersError) throw ordersError
 
       const orderIds = storeOrders?.map(o => o.id) || []
-      const orderMap: Record<string, { order_number: string; customer_name: string }> = {}
+      const orderMap: Record<string, { order_number: string; customer_name: string; discount: number; discounts: string[] }> = {}
       
-      storeOrders?.forEach(order => {
+      storeOrders?.forEach((order: any) => {
         orderMap[order.id] = {
           order_number: order.order_number,
           customer_name: order.customers 
             ? `${order.customers.first_name} ${order.customers.last_name}`.trim()
-            : 'Walk-in Customer'
+            : 'Walk-in Customer',
+          discount: Number(order.discount || 0),
+          discounts: (order.order_adjustments || []).map((a: any) => a.description),
         }
       })
 
@@ -737,7 +934,7 @@ const ReportsScreen: React.FC = () => {
 
       const { data: payments, error: paymentsError } = await supabase
         .from('payments')
-        .select('id, order_id, amount, payment_method, payment_date, reference_number, card_number, is_cancelled, cancelled_at')
+        .select('id, order_id, amount, payment_method, payment_date, reference_number, card_number, is_cancelled, cancelled_at, tender_group, amount_tendered, change_given')
         .in('order_id', orderIds)
         .gte('payment_date', thirtyDaysAgo.toISOString())
         .order('payment_date', { ascending: false })
@@ -755,10 +952,23 @@ const ReportsScreen: React.FC = () => {
         card_number: payment.card_number,
         is_cancelled: payment.is_cancelled || false,
         cancelled_at: payment.cancelled_at,
+        tender_group: payment.tender_group,
+        amount_tendered: payment.amount_tendered,
+        change_given: payment.change_given,
         order_number: orderMap[payment.order_id]?.order_number || 'N/A',
-        customer_name: orderMap[payment.order_id]?.customer_name || 'Unknown'
+        customer_name: orderMap[payment.order_id]?.customer_name || 'Unknown',
+        order_discount: orderMap[payment.order_id]?.discount || 0,
+        order_discounts: orderMap[payment.order_id]?.discounts || [],
       }))
 
+      // List the other tenders of each split-tender checkout
+      transactions.forEach(transaction => {
+        if (!transaction.tender_group) return
+        transaction.split_tenders = transactions
+          .filter(other => other.tender_group === transaction.tender_group && other.id !== transaction.id)
+          .map(other => `${other.payment_method.toUpperCase()} ${formatCurrency(other.amount)}`)
+      })
+
       setReportData({
         ...reportData,
         transactions
@@ -803,7 +1013,7 @@ const ReportsScreen: React.FC = () => {
       // Get the order to update paid_amount
       const { data: orderData, error: orderError } = await supabase
         .from('orders')
-        .select('paid_amount, total_amount')
+        .select('paid_amount, total_amount, storage_fee')
         .eq('id', selectedTransaction.order_id)
         .single()
 
@@ -812,11 +1022,12 @@ const ReportsScreen: React.FC = () => {
       // Calculate new paid_amount (subtract cancelled payment)
       const newPaidAmount = Math.max(0, (orderData.paid_amount || 0) - selectedTransaction.amount)
       
-      // Determine new payment_status
+      // Determine new payment_status; storage fees are due on top of the order total
+      const amountDue = Number(orderData.total_amount || 0) + Number(orderData.storage_fee || 0)
       let newPaymentStatus = 'unpaid'
-      if (newPaidAmount > 0 && newPaidAmount < orderData.total_amount) {
+      if (newPaidAmount > 0 && newPaidAmount < amountDue) {
         newPaymentStatus = 'partial'
-      } else if (newPaidAmount >= orderData.total_amount) {
+      } else if (newPaidAmount >= amountDue) {
         newPaymentStatus = 'paid'
       }
 
@@ -1131,6 +1342,7 @@ const ReportsScreen: React.FC = () => {
           <div class="section">
             <div class="section-title">Sales Report (This Month)</div>
             <p><strong>Total Sales:</strong> ${formatCurrency(data.salesReport.total)}</p>
+            ${data.salesReport.refunds > 0 ? `<p><strong>Refunds:</strong> ${formatCurrency(data.salesReport.refunds)} (deducted)</p>` : ''}
             <table>
               <thead>
                 <tr>
@@ -1164,6 +1376,73 @@ const ReportsScreen: React.FC = () => {
                 `).join('')}
               </tbody>
             </table>
+            ${data.salesReport.vatSummary ? `
+            <h3 style="margin-top: 20px;">VAT Summary</h3>
+            <table>
+              <tbody>
+                <tr>
+                  <td>VATable Sales</td>
+                  <td style="text-align: right;">${formatCurrency(data.salesReport.vatSummary.vatableSales)}</td>
+                </tr>
+                <tr>
+                  <td>VAT Amount</td>
+                  <td style="text-align: right;">${formatCurrency(data.salesReport.vatSummary.vatAmount)}</td>
+                </tr>
+                <tr>
+                  <td>VAT-Exempt Sales</td>
+                  <td style="text-align: right;">${formatCurrency(data.salesReport.vatSummary.vatExemptSales)}</td>
+                </tr>
+                <tr>
+                  <td>Senior Citizen / PWD Orders</td>
+                  <td style="text-align: right;">${formatNumber(data.salesReport.vatSummary.seniorPwdOrders)}</td>
+                </tr>
+              </tbody>
+            </table>
+            ` : ''}
+            ${Object.keys(data.salesReport.discountsBySource || {}).length > 0 ? `
+            <h3 style="margin-top: 20px;">Discounts Given</h3>
+            <table>
+              <thead>
+                <tr>
+                  <th>Type</th>
+                  <th style="text-align: right;">Amount</th>
+                </tr>
+              </thead>
+              <tbody>
+                ${Object.entries(data.salesReport.discountsBySource).map(([source, amount]) => `
+                  <tr>
+                    <td>${discountSourceLabels[source] || source}</td>
+                    <td style="text-align: right;">-${formatCurrency(amount as number)}</td>
+                  </tr>
+                `).join('')}
+              </tbody>
+            </table>
+            ` : ''}
+            ${data.salesReport.checkoutDiscounts?.length > 0 ? `
+            <h3 style="margin-top: 20px;">Manual Discounts & Vouchers</h3>
+            <table>
+              <thead>
+                <tr>
+                  <th>Order</th>
+                  <th>Discount</th>
+                  <th>Applied By</th>
+                  <th>Approved By</th>
+                  <th style="text-align: right;">Amount</th>
+                </tr>
+              </thead>
+              <tbody>
+                ${data.salesReport.checkoutDiscounts.map((discount: any) => `
+                  <tr>
+                    <td>${discount.order_number}</td>
+                    <td>${discount.description}</td>
+                    <td>${discount.applied_by}</td>
+                    <td>${discount.approved_by || '-'}</td>
+                    <td style="text-align: right;">-${formatCurrency(discount.amount)}</td>
+                  </tr>
+                `).join('')}
+              </tbody>
+            </table>
+            ` : ''}
           </div>
           ` : ''}
 
@@ -1213,6 +1492,12 @@ const ReportsScreen: React.FC = () => {
                   <td><strong>Total Revenue</strong></td>
                   <td style="text-align: right;"><strong>${formatCurrency(data.orderSummary.totalRevenue)}</strong></td>
                 </tr>
+                ${data.orderSummary.storageFees > 0 ? `
+                <tr>
+                  <td>Storage Fees</td>
+                  <td style="text-align: right;">${formatCurrency(data.orderSummary.storageFees)}</td>
+                </tr>
+                ` : ''}
                 <tr>
                   <td>Total Paid</td>
                   <td style="text-align: right;">${formatCurrency(data.orderSummary.totalPaid)}</td>
@@ -1223,6 +1508,17 @@ const ReportsScreen: React.FC = () => {
                 </tr>
               </tbody>
             </table>
+            <h3>Average Turnaround</h3>
+            <table>
+              <tbody>
+                ${TURNAROUND_ROWS.map(([key, label]) => `
+                <tr>
+                  <td>${label}</td>
+                  <td style="text-align: right;">${data.orderSummary.turnaround?.[key] != null ? formatDuration(data.orderSummary.turnaround[key]) : '-'}</td>
+                </tr>
+                `).join('')}
+              </tbody>
+            </table>
           </div>
           ` : ''}
 
@@ -1279,7 +1575,7 @@ const ReportsScreen: React.FC = () => {
                   <tr>
                     <td>${index + 1}</td>
                     <td>${service.name}</td>
-                    <td style="text-align: right;">${formatNumber(service.quantity)}</td>
+                    <td style="text-align: right;">${formatServiceVolume(service)}</td>
                     <td style="text-align: right;">${formatNumber(service.orders)}</td>
                     <td style="text-align: right;">${formatCurrency(service.revenue)}</td>
                   </tr>
@@ -1452,6 +1748,9 @@ const ReportsScreen: React.FC = () => {
                     <View style={styles.reportSection}>
                       <Text style={styles.reportSectionTitle}>Total Sales (This Month)</Text>
                       <Text style={styles.reportValue}>{formatCurrency(reportData.salesReport.total)}</Text>
+                      {reportData.salesReport.refunds > 0 && (
+                        <Text style={styles.reportLabel}>After {formatCurrency(reportData.salesReport.refunds)} in refunds</Text>
+                      )}
           </View>
 
                     <View style={styles.reportSection}>
@@ -1473,6 +1772,57 @@ const ReportsScreen: React.FC = () => {
                         </View>
                       ))}
                     </View>
+
+                    {reportData.salesReport.vatSummary && (
+                      <View style={styles.reportSection}>
+                        <Text style={styles.reportSectionTitle}>VAT Summary (This Month)</Text>
+                        <View style={styles.reportRow}>
+                          <Text style={styles.reportLabel}>VATable Sales</Text>
+                          <Text style={styles.reportAmount}>{formatCurrency(reportData.salesReport.vatSummary.vatableSales)}</Text>
+                        </View>
+                        <View style={styles.reportRow}>
+                          <Text style={styles.reportLabel}>VAT Amount</Text>
+                          <Text style={styles.reportAmount}>{formatCurrency(reportData.salesReport.vatSummary.vatAmount)}</Text>
+                        </View>
+                        <View style={styles.reportRow}>
+                          <Text style={styles.reportLabel}>VAT-Exempt Sales</Text>
+                          <Text style={styles.reportAmount}>{formatCurrency(reportData.salesReport.vatSummary.vatExemptSales)}</Text>
+                        </View>
+                        <Text style={styles.reportSubtext}>
+                          {reportData.salesReport.vatSummary.seniorPwdOrders} senior citizen / PWD orders
+                        </Text>
+                      </View>
+                    )}
+
+                    {Object.keys(reportData.salesReport.discountsBySource || {}).length > 0 && (
+                      <View style={styles.reportSection}>
+                        <Text style={styles.reportSectionTitle}>Discounts Given (This Month)</Text>
+                        {Object.entries(reportData.salesReport.discountsBySource).map(([source, amount]) => (
+                          <View key={source} style={styles.reportRow}>
+                            <Text style={styles.reportLabel}>{discountSourceLabels[source] || source}</Text>
+                            <Text style={styles.reportAmount}>-{formatCurrency(amount as number)}</Text>
+                          </View>
+                        ))}
+                      </View>
+                    )}
+
+                    {reportData.salesReport.checkoutDiscounts?.length > 0 && (
+                      <View style={styles.reportSection}>
+                        <Text style={styles.reportSectionTitle}>Manual Discounts & Vouchers</Text>
+                        {reportData.salesReport.checkoutDiscounts.map((discount: any, index: number) => (
+                          <View key={`${discount.order_number}-${index}`} style={styles.discountRow}>
+                            <View style={styles.reportRow}>
+                              <Text style={styles.reportLabel}>{discount.order_number} • {discount.description}</Text>
+                              <Text style={styles.reportAmount}>-{formatCurrency(discount.amount)}</Text>
+                            </View>
+                            <Text style={styles.reportSubtext}>
+                              {new Date(discount.created_at).toLocaleDateString()} • By {discount.applied_by}
+                              {discount.approved_by ? ` • Approved by ${discount.approved_by}` : ''}
+                            </Text>
+                          </View>
+                        ))}
+                      </View>
+                    )}
                   </View>
                 )}
 
@@ -1509,6 +1859,12 @@ const ReportsScreen: React.FC = () => {
                         <Text style={styles.reportLabel}>Total Revenue</Text>
                         <Text style={styles.reportAmount}>{formatCurrency(reportData.orderSummary.totalRevenue)}</Text>
                       </View>
+                      {reportData.orderSummary.storageFees > 0 && (
+                        <View style={styles.reportRow}>
+                          <Text style={styles.reportLabel}>Storage Fees</Text>
+                          <Text style={styles.reportAmount}>{formatCurrency(reportData.orderSummary.storageFees)}</Text>
+                        </View>
+                      )}
                       <View style={styles.reportRow}>
                         <Text style={styles.reportLabel}>Total Paid</Text>
                         <Text style={styles.reportAmount}>{formatCurrency(reportData.orderSummary.totalPaid)}</Text>
@@ -1520,6 +1876,18 @@ const ReportsScreen: React.FC = () => {
                         </Text>
                       </View>
                     </View>
+
+                    <View style={styles.reportSection}>
+                      <Text style={styles.reportSectionTitle}>Average Turnaround</Text>
+                      {TURNAROUND_ROWS.map(([key, label]) => (
+                        <View key={key} style={styles.reportRow}>
+                          <Text style={styles.reportLabel}>{label}</Text>
+                          <Text style={styles.reportAmount}>
+                            {reportData.orderSummary.turnaround?.[key] != null ? formatDuration(reportData.orderSummary.turnaround[key]) : '-'}
+                          </Text>
+                        </View>
+                      ))}
+                    </View>
                   </View>
                 )}
 
@@ -1579,7 +1947,7 @@ const ReportsScreen: React.FC = () => {
                             <View>
                               <Text style={styles.reportLabel}>{service.name}</Text>
                               <Text style={styles.reportSubtext}>
-                                {service.quantity} sold • {service.orders} orders
+                                {formatServiceVolume(service)} • {service.orders} orders
                               </Text>
                             </View>
                           </View>
@@ -1663,9 +2031,27 @@ const ReportsScreen: React.FC = () => {
                             <Text style={styles.transactionDetail}>
                               Method: {transaction.payment_method.toUpperCase()}
                             </Text>
+                            {!!transaction.change_given && transaction.change_given > 0 && (
+                              <Text style={styles.transactionDetail}>
+                                Received: {formatCurrency(Number(transaction.amount_tendered || 0))} · Change: {formatCurrency(Number(transaction.change_given))}
+                              </Text>
+                            )}
+                            {transaction.split_tenders && transaction.split_tenders.length > 0 && (
+                              <Text style={styles.transactionDetail}>
+                                Split with: {transaction.split_tenders.join(', ')}
+                              </Text>
+                            )}
                             <Text style={styles.transactionDetail}>
                               Date: {new Date(transaction.payment_date).toLocaleString()}
                             </Text>
+                            {!!transaction.order_discount && transaction.order_discount > 0 && (
+                              <Text style={[styles.transactionDetail, styles.discountText]}>
+                                Discount: -{formatCurrency(transaction.order_discount)}
+                                {transaction.order_discounts && transaction.order_discounts.length > 0
+                                  ? ` (${transaction.order_discounts.join(', ')})`
+                                  : ''}
+                              </Text>
+                            )}
                             {transaction.reference_number && (
                               <Text style={styles.transactionDetail}>
                                 Ref: {transaction.reference_number}
@@ -2021,6 +2407,11 @@ const styles = StyleSheet.create({
     color: '#9ca3af',
     marginTop: 2,
   },
+  discountRow: {
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
   customerRank: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -2114,6 +2505,9 @@ const styles = StyleSheet.create({
     color: '#ef4444',
     fontWeight: '500',
   },
+  discountText: {
+    color: '#10b981',
+  },
   cancelTransactionButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -0,0 +1,460 @@
+import React, { useState, useEffect } from 'react'
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  Alert,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
+import { supabase } from '../../lib/supabase'
+import { useStore } from '../context/StoreContext'
+import SalesReceiptService from '../services/SalesReceiptService'
+import { SalesReceipt } from '../types/salesReceipt'
+import { formatReceiptNumber } from '../utils/salesReceipts'
+import { describePrintJob } from '../utils/printQueue'
+
+const SalesReceiptsScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
+  const { currentStore } = useStore()
+  const [loading, setLoading] = useState(true)
+  const [refreshing, setRefreshing] = useState(false)
+  const [isManager, setIsManager] = useState(false)
+  const [receipts, setReceipts] = useState<SalesReceipt[]>([])
+  const [search, setSearch] = useState('')
+  const [printingId, setPrintingId] = useState<string | null>(null)
+
+  // Reprint
+  const [reprintTarget, setReprintTarget] = useState<SalesReceipt | null>(null)
+  const [reprintReason, setReprintReason] = useState('')
+
+  // Business details printed on receipts (managers)
+  const [businessNameInput, setBusinessNameInput] = useState('')
+  const [tinInput, setTinInput] = useState('')
+  const [savingDetails, setSavingDetails] = useState(false)
+
+  useEffect(() => {
+    loadReceipts()
+  }, [currentStore])
+
+  const loadReceipts = async (searchTerm: string = search) => {
+    if (!currentStore) return
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session?.user) return
+
+      const { data: userDetails } = await supabase
+        .from('users')
+        .select('role')
+        .eq('id', session.user.id)
+        .single()
+      setIsManager(['super_admin', 'store_owner', 'manager'].includes(userDetails?.role || ''))
+
+      const { data: store } = await supabase
+        .from('stores')
+        .select('business_name, tin')
+        .eq('id', currentStore.id)
+        .single()
+      setBusinessNameInput(store?.business_name || '')
+      setTinInput(store?.tin || '')
+
+      setReceipts(await SalesReceiptService.getReceipts(currentStore.id, searchTerm))
+    } catch (error: any) {
+      console.error('❌ Error loading sales receipts:', error)
+      Alert.alert('Error', error.message || 'Failed to load sales receipts')
+    } finally {
+      setLoading(false)
+      setRefreshing(false)
+    }
+  }
+
+  const onRefresh = async () => {
+    setRefreshing(true)
+    await loadReceipts()
+  }
+
+  const printReceipt = async (receipt: SalesReceipt, reason?: string) => {
+    setPrintingId(receipt.id)
+    try {
+      const job = await SalesReceiptService.printReceipt(receipt, reason)
+      if (job.status !== 'printed') {
+        Alert.alert('Print Failed', describePrintJob(job))
+      }
+      await loadReceipts()
+    } catch (error: any) {
+      console.error('❌ Error printing sales receipt:', error)
+      Alert.alert('Error', error.message || 'Failed to print receipt')
+    } finally {
+      setPrintingId(null)
+    }
+  }
+
+  const handlePrint = (receipt: SalesReceipt) => {
+    if (!receipt.printed_at) {
+      printReceipt(receipt)
+      return
+    }
+    setReprintReason('')
+    setReprintTarget(receipt)
+  }
+
+  const confirmReprint = () => {
+    if (!reprintTarget) return
+
+    const target = reprintTarget
+    setReprintTarget(null)
+    printReceipt(target, reprintReason)
+  }
+
+  const saveBusinessDetails = async () => {
+    if (!currentStore) return
+
+    if (tinInput.trim() && !/^[\d-]+$/.test(tinInput.trim())) {
+      Alert.alert('Validation Error', 'TIN may only contain digits and dashes, e.g. 123-456-789-000')
+      return
+    }
+
+    try {
+      setSavingDetails(true)
+      await SalesReceiptService.updateBusinessDetails(currentStore.id, {
+        businessName: businessNameInput,
+        tin: tinInput,
+      })
+      Alert.alert('Success', 'Receipt details updated')
+    } catch (error: any) {
+      console.error('Error saving receipt details:', error)
+      Alert.alert('Error', error.message || 'Failed to save receipt details')
+    } finally {
+      setSavingDetails(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.centerContent]}>
+        <ActivityIndicator size="large" color="#3b82f6" />
+        <Text style={styles.loadingText}>Loading sales receipts...</Text>
+      </View>
+    )
+  }
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color="#111827" />
+        </TouchableOpacity>
+        <View style={styles.headerContent}>
+          <Text style={styles.title}>Sales Receipts</Text>
+          <Text style={styles.subtitle}>{currentStore?.name}</Text>
+        </View>
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      >
+        {/* Receipts */}
+        <View style={styles.card}>
+          <View style={styles.searchRow}>
+            <Ionicons name="search" size={18} color="#9ca3af" />
+            <TextInput
+              style={styles.searchInput}
+              value={search}
+              onChangeText={setSearch}
+              onSubmitEditing={() => loadReceipts(search)}
+              placeholder="OR No. or order number"
+              returnKeyType="search"
+              autoCapitalize="characters"
+            />
+          </View>
+
+          {receipts.length === 0 && <Text style={styles.hint}>No receipts</Text>}
+          {receipts.map(receipt => (
+            <View key={receipt.id} style={styles.row}>
+              <View style={{ flex: 1 }}>
+                <Text style={styles.rowTitle}>
+                  OR {formatReceiptNumber(receipt.receipt_number)} • {receipt.order_number}
+                </Text>
+                <Text style={styles.hint}>
+                  {receipt.customer_name || 'Walk-in Customer'} • {new Date(receipt.issued_at).toLocaleString()}
+                </Text>
+                <Text style={styles.hint}>
+                  {receipt.payments.map(payment => payment.method_name).join(', ')}
+                  {Number(receipt.balance_after) > 0 ? ` • Balance ₱${Number(receipt.balance_after).toFixed(2)}` : ' • Paid in full'}
+                </Text>
+                <Text style={[styles.hint, receipt.reprint_count > 0 && styles.reprintText]}>
+                  {!receipt.printed_at
+                    ? 'Not printed'
+                    : receipt.reprint_count > 0
+                      ? `Reprinted ${receipt.reprint_count} time${receipt.reprint_count !== 1 ? 's' : ''}`
+                      : 'Printed'}
+                </Text>
+              </View>
+              <View style={{ alignItems: 'flex-end' }}>
+                <Text style={styles.amount}>₱{Number(receipt.amount).toFixed(2)}</Text>
+                <TouchableOpacity
+                  style={styles.smallButton}
+                  onPress={() => handlePrint(receipt)}
+                  disabled={printingId !== null}
+                >
+                  {printingId === receipt.id ? (
+                    <ActivityIndicator size="small" color="#ffffff" />
+                  ) : (
+                    <Text style={styles.smallButtonText}>{receipt.printed_at ? 'Reprint' : 'Print'}</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            </View>
+          ))}
+        </View>
+
+        {/* Business details - managers only */}
+        {isManager && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Receipt Details</Text>
+            <Text style={styles.hint}>Printed under the store name on every sales receipt</Text>
+            <Text style={styles.label}>Registered business name</Text>
+            <TextInput
+              style={styles.input}
+              value={businessNameInput}
+              onChangeText={setBusinessNameInput}
+              placeholder="Leave blank to use the store name"
+            />
+            <Text style={styles.label}>TIN</Text>
+            <TextInput
+              style={styles.input}
+              value={tinInput}
+              onChangeText={setTinInput}
+              placeholder="e.g., 123-456-789-000"
+              keyboardType="numbers-and-punctuation"
+            />
+            <TouchableOpacity
+              style={[styles.primaryButton, savingDetails && { opacity: 0.6 }]}
+              onPress={saveBusinessDetails}
+              disabled={savingDetails}
+            >
+              {savingDetails ? (
+                <ActivityIndicator size="small" color="#ffffff" />
+              ) : (
+                <Text style={styles.primaryButtonText}>Save Details</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        )}
+      </ScrollView>
+
+      {/* Reprint reason */}
+      <Modal
+        visible={reprintTarget !== null}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setReprintTarget(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.cardTitle}>Reprint Receipt</Text>
+            {reprintTarget && (
+              <Text style={styles.hint}>
+                OR {formatReceiptNumber(reprintTarget.receipt_number)} will be printed marked REPRINT and the reprint logged.
+              </Text>
+            )}
+            <Text style={styles.label}>Reason (optional)</Text>
+            <TextInput
+              style={styles.input}
+              value={reprintReason}
+              onChangeText={setReprintReason}
+              placeholder="e.g., Customer lost receipt"
+            />
+            <View style={styles.modalButtons}>
+              <TouchableOpacity style={[styles.modalButton, styles.cancelButton]} onPress={() => setReprintTarget(null)}>
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={[styles.modalButton, styles.primaryButton]} onPress={confirmReprint}>
+                <Text style={styles.primaryButtonText}>Reprint</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  centerContent: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#6b7280',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    backgroundColor: '#ffffff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  backButton: {
+    padding: 4,
+    marginRight: 12,
+  },
+  headerContent: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    marginBottom: 8,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#111827',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+  rowTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  reprintText: {
+    color: '#f59e0b',
+  },
+  amount: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  smallButton: {
+    marginTop: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+    backgroundColor: '#3b82f6',
+  },
+  smallButtonText: {
+    color: '#ffffff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  primaryButton: {
+    marginTop: 8,
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: '#3b82f6',
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#ffffff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#111827',
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#111827',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  modalContent: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 20,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+  modalButton: {
+    flex: 1,
+  },
+  cancelButton: {
+    marginTop: 8,
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: '#f3f4f6',
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    color: '#374151',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+})
+
+export default SalesReceiptsScreen
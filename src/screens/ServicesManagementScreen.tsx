@@ -14,6 +14,10 @@ import { Ionicons } from '@expo/vector-icons'
 import { useSafeAreaInsets } from 'react-native-safe-area-context'
 import { supabase } from '../../lib/supabase'
 import { useStore } from '../context/StoreContext'
+import { ServiceSupplyWithItem } from '../types/serviceSupply'
+import { PricingMode } from '../types/servicePricing'
+import { formatWeight, getPriceUnitLabel } from '../utils/servicePricing'
+import { getStoreSetting } from '../utils/featureFlags'
 
 interface Service {
   id: string
@@ -26,6 +30,18 @@ interface Service {
   is_active: boolean
   is_global: boolean
   sort_order: number
+  pricing_mode: PricingMode
+  min_weight: number | null
+  weight_rounding: number | null
+  max_weight_per_load: number | null
+  is_vat_exempt: boolean
+  turnaround_hours: number | null
+}
+
+interface SupplyItem {
+  id: string
+  name: string
+  unit_of_measure: string
 }
 
 const ServicesManagementScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
@@ -43,6 +59,21 @@ const ServicesManagementScreen: React.FC<{ navigation: any }> = ({ navigation })
   const [serviceIcon, setServiceIcon] = useState('shirt-outline')
   const [serviceCategory, setServiceCategory] = useState('wash')
   const [isActive, setIsActive] = useState(true)
+  const [pricingMode, setPricingMode] = useState<PricingMode>('per_piece')
+  const [minWeight, setMinWeight] = useState('')
+  const [weightRounding, setWeightRounding] = useState('')
+  const [maxWeightPerLoad, setMaxWeightPerLoad] = useState('')
+  const [isVatExempt, setIsVatExempt] = useState(false)
+  const [turnaroundHours, setTurnaroundHours] = useState('')
+
+  // Supplies (bill of materials) state
+  const [showSuppliesModal, setShowSuppliesModal] = useState(false)
+  const [suppliesService, setSuppliesService] = useState<Service | null>(null)
+  const [serviceSupplies, setServiceSupplies] = useState<ServiceSupplyWithItem[]>([])
+  const [supplyCounts, setSupplyCounts] = useState<Record<string, number>>({})
+  const [supplyItems, setSupplyItems] = useState<SupplyItem[]>([])
+  const [selectedSupplyItemId, setSelectedSupplyItemId] = useState<string | null>(null)
+  const [supplyQuantity, setSupplyQuantity] = useState('')
 
   const availableIcons = [
     { name: 'shirt-outline', label: 'Shirt' },
@@ -55,6 +86,12 @@ const ServicesManagementScreen: React.FC<{ navigation: any }> = ({ navigation })
     { name: 'snow-outline', label: 'Snow' },
   ]
 
+  const pricingModes: { value: PricingMode; label: string }[] = [
+    { value: 'per_piece', label: 'Per Piece' },
+    { value: 'per_kilo', label: 'Per Kilo' },
+    { value: 'per_load', label: 'Per Load' },
+  ]
+
   const categories = [
     { value: 'wash', label: 'Wash' },
     { value: 'dry-clean', label: 'Dry Clean' },
@@ -83,6 +120,7 @@ const ServicesManagementScreen: React.FC<{ navigation: any }> = ({ navigation })
 
       if (error) throw error
       setServices(data || [])
+      await loadSupplyCounts()
     } catch (error: any) {
       console.error('Error loading services:', error)
       Alert.alert('Error', 'Failed to load services')
@@ -91,6 +129,125 @@ const ServicesManagementScreen: React.FC<{ navigation: any }> = ({ navigation })
     }
   }
 
+  /**
+   * Count recipe lines per service for this store
+   */
+  const loadSupplyCounts = async () => {
+    if (!currentStore) return
+
+    const { data, error } = await supabase
+      .from('service_supplies')
+      .select('service_id')
+      .eq('store_id', currentStore.id)
+
+    if (error) {
+      console.error('Error loading service supplies:', error)
+      return
+    }
+
+    const counts: Record<string, number> = {}
+    for (const row of data || []) {
+      counts[row.service_id] = (counts[row.service_id] || 0) + 1
+    }
+    setSupplyCounts(counts)
+  }
+
+  const loadServiceSupplies = async (serviceId: string) => {
+    if (!currentStore) return
+
+    const { data, error } = await supabase
+      .from('service_supplies')
+      .select('*, inventory_items (name, unit_of_measure, current_stock)')
+      .eq('store_id', currentStore.id)
+      .eq('service_id', serviceId)
+      .order('created_at', { ascending: true })
+
+    if (error) throw error
+    setServiceSupplies(data || [])
+  }
+
+  const openSuppliesModal = async (service: Service) => {
+    if (!currentStore) return
+
+    try {
+      const { data: items, error: itemsError } = await supabase
+        .from('inventory_items')
+        .select('id, name, unit_of_measure')
+        .eq('store_id', currentStore.id)
+        .eq('is_active', true)
+        .order('name')
+
+      if (itemsError) throw itemsError
+
+      setSupplyItems(items || [])
+      setSuppliesService(service)
+      setSelectedSupplyItemId(null)
+      setSupplyQuantity('')
+      await loadServiceSupplies(service.id)
+      setShowSuppliesModal(true)
+    } catch (error: any) {
+      console.error('Error loading supplies:', error)
+      Alert.alert('Error', 'Failed to load service supplies')
+    }
+  }
+
+  const handleAddSupply = async () => {
+    if (!currentStore || !suppliesService) return
+
+    if (!selectedSupplyItemId) {
+      Alert.alert('Validation Error', 'Please select an inventory item')
+      return
+    }
+
+    const quantity = parseFloat(supplyQuantity)
+    if (isNaN(quantity) || quantity <= 0) {
+      Alert.alert('Validation Error', 'Please enter the quantity used per unit of service')
+      return
+    }
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+
+      // Re-adding an item replaces its quantity
+      const { error } = await supabase
+        .from('service_supplies')
+        .upsert({
+          store_id: currentStore.id,
+          service_id: suppliesService.id,
+          inventory_item_id: selectedSupplyItemId,
+          quantity_per_unit: quantity,
+          created_by: session?.user.id,
+        }, { onConflict: 'store_id,service_id,inventory_item_id' })
+
+      if (error) throw error
+
+      setSelectedSupplyItemId(null)
+      setSupplyQuantity('')
+      await loadServiceSupplies(suppliesService.id)
+      await loadSupplyCounts()
+    } catch (error: any) {
+      console.error('Error saving supply:', error)
+      Alert.alert('Error', 'Failed to save supply')
+    }
+  }
+
+  const handleRemoveSupply = async (supply: ServiceSupplyWithItem) => {
+    try {
+      const { error } = await supabase
+        .from('service_supplies')
+        .delete()
+        .eq('id', supply.id)
+
+      if (error) throw error
+
+      await loadServiceSupplies(supply.service_id)
+      await loadSupplyCounts()
+    } catch (error: any) {
+      console.error('Error removing supply:', error)
+      Alert.alert('Error', 'Failed to remove supply')
+    }
+  }
+
   const openModal = (service?: Service) => {
     if (service) {
       // Don't allow editing global services
@@ -105,6 +262,12 @@ const ServicesManagementScreen: React.FC<{ navigation: any }> = ({ navigation })
       setServiceIcon(service.icon)
       setServiceCategory(service.category || 'wash')
       setIsActive(service.is_active)
+      setPricingMode(service.pricing_mode || 'per_piece')
+      setMinWeight(service.min_weight ? service.min_weight.toString() : '')
+      setWeightRounding(service.weight_rounding ? service.weight_rounding.toString() : '')
+      setMaxWeightPerLoad(service.max_weight_per_load ? service.max_weight_per_load.toString() : '')
+      setIsVatExempt(service.is_vat_exempt || false)
+      setTurnaroundHours(service.turnaround_hours != null ? service.turnaround_hours.toString() : '')
     } else {
       resetForm()
     }
@@ -119,6 +282,46 @@ const ServicesManagementScreen: React.FC<{ navigation: any }> = ({ navigation })
     setServiceIcon('shirt-outline')
     setServiceCategory('wash')
     setIsActive(true)
+    setPricingMode('per_piece')
+    setMinWeight('')
+    setWeightRounding('')
+    setMaxWeightPerLoad('')
+    setIsVatExempt(false)
+    setTurnaroundHours('')
+  }
+
+  /**
+   * Parse an optional weight field; empty means "not set"
+   */
+  const parseOptionalWeight = (value: string): number | null | undefined => {
+    if (!value.trim()) return null
+    const weight = parseFloat(value)
+    return isNaN(weight) || weight <= 0 ? undefined : weight
+  }
+
+  /**
+   * Describe the weight rules of a service, e.g. "Min 3kg • Round up 0.5kg • 8kg per load"
+   */
+  const describePricingRules = (service: Service): string | null => {
+    if (!service.pricing_mode || service.pricing_mode === 'per_piece') return null
+    const rules: string[] = []
+    if (service.min_weight) rules.push(`Min ${formatWeight(service.min_weight)}`)
+    if (service.weight_rounding) rules.push(`Round up ${formatWeight(service.weight_rounding)}`)
+    if (service.pricing_mode === 'per_load' && service.max_weight_per_load) {
+      rules.push(`${formatWeight(service.max_weight_per_load)} per load`)
+    }
+    return rules.length > 0 ? rules.join(' • ') : null
+  }
+
+  /**
+   * Describe the turnaround of a service, e.g. "Ready in 6h" or "Ready in 2 days"
+   */
+  const describeTurnaround = (hours: number): string => {
+    if (hours > 0 && hours % 24 === 0) {
+      const days = hours / 24
+      return `Ready in ${days} day${days !== 1 ? 's' : ''}`
+    }
+    return `Ready in ${hours}h`
   }
 
   const handleSave = async () => {
@@ -133,6 +336,22 @@ const ServicesManagementScreen: React.FC<{ navigation: any }> = ({ navigation })
       return
     }
 
+    const isWeighed = pricingMode !== 'per_piece'
+    const minWeightValue = isWeighed ? parseOptionalWeight(minWeight) : null
+    const roundingValue = isWeighed ? parseOptionalWeight(weightRounding) : null
+    const loadCapValue = pricingMode === 'per_load' ? parseOptionalWeight(maxWeightPerLoad) : null
+    if (minWeightValue === undefined || roundingValue === undefined || loadCapValue === undefined) {
+      Alert.alert('Validation Error', 'Weights must be numbers greater than zero')
+      return
+    }
+
+    // Empty turnaround uses the store default
+    const turnaroundValue = turnaroundHours.trim() ? parseInt(turnaroundHours, 10) : null
+    if (turnaroundValue !== null && (isNaN(turnaroundValue) || turnaroundValue < 0)) {
+      Alert.alert('Validation Error', 'Turnaround must be a whole number of hours')
+      return
+    }
+
     if (!currentStore) {
       Alert.alert('Error', 'No store selected')
       return
@@ -147,6 +366,12 @@ const ServicesManagementScreen: React.FC<{ navigation: any }> = ({ navigation })
         icon: serviceIcon,
         category: serviceCategory,
         is_active: isActive,
+        pricing_mode: pricingMode,
+        min_weight: minWeightValue,
+        weight_rounding: roundingValue,
+        max_weight_per_load: loadCapValue,
+        is_vat_exempt: isVatExempt,
+        turnaround_hours: turnaroundValue,
         is_global: false, // Always create as custom service
         sort_order: editingService ? editingService.sort_order : services.length,
       }
@@ -293,6 +518,15 @@ const ServicesManagementScreen: React.FC<{ navigation: any }> = ({ navigation })
                       {service.description && (
                         <Text style={styles.serviceDescription}>{service.description}</Text>
                       )}
+                      {describePricingRules(service) && (
+                        <Text style={styles.serviceDescription}>{describePricingRules(service)}</Text>
+                      )}
+                      {service.is_vat_exempt && (
+                        <Text style={styles.serviceDescription}>VAT Exempt</Text>
+                      )}
+                      {service.turnaround_hours != null && (
+                        <Text style={styles.serviceDescription}>{describeTurnaround(service.turnaround_hours)}</Text>
+                      )}
                       {service.category && (
                         <View style={styles.categoryBadge}>
                           <Text style={styles.categoryText}>
@@ -304,10 +538,23 @@ const ServicesManagementScreen: React.FC<{ navigation: any }> = ({ navigation })
                   </View>
                   <View style={styles.serviceRight}>
                     <Text style={[styles.servicePrice, { opacity: service.is_active ? 1 : 0.5 }]}>
-                      ₱{service.price.toFixed(2)}
+                      ₱{service.price.toFixed(2)}{getPriceUnitLabel(service.pricing_mode)}
                     </Text>
                   </View>
                 </View>
+
+                {/* Action Buttons */}
+                <View style={styles.serviceActions}>
+                  <TouchableOpacity 
+                    style={styles.actionButton} 
+                    onPress={() => openSuppliesModal(service)}
+                  >
+                    <Ionicons name="flask" size={18} color="#8b5cf6" />
+                    <Text style={[styles.actionButtonText, { color: '#8b5cf6' }]}>
+                      Supplies{supplyCounts[service.id] ? ` (${supplyCounts[service.id]})` : ''}
+                    </Text>
+                  </TouchableOpacity>
+                </View>
               </View>
             ))}
 
@@ -332,6 +579,15 @@ const ServicesManagementScreen: React.FC<{ navigation: any }> = ({ navigation })
                       {service.description && (
                         <Text style={styles.serviceDescription}>{service.description}</Text>
                       )}
+                      {describePricingRules(service) && (
+                        <Text style={styles.serviceDescription}>{describePricingRules(service)}</Text>
+                      )}
+                      {service.is_vat_exempt && (
+                        <Text style={styles.serviceDescription}>VAT Exempt</Text>
+                      )}
+                      {service.turnaround_hours != null && (
+                        <Text style={styles.serviceDescription}>{describeTurnaround(service.turnaround_hours)}</Text>
+                      )}
                       {service.category && (
                         <View style={styles.categoryBadge}>
                           <Text style={styles.categoryText}>
@@ -343,7 +599,7 @@ const ServicesManagementScreen: React.FC<{ navigation: any }> = ({ navigation })
                   </View>
                   <View style={styles.serviceRight}>
                     <Text style={[styles.servicePrice, { opacity: service.is_active ? 1 : 0.5 }]}>
-                      ₱{service.price.toFixed(2)}
+                      ₱{service.price.toFixed(2)}{getPriceUnitLabel(service.pricing_mode)}
                     </Text>
                     <View style={[styles.statusBadge, service.is_active ? styles.activeBadge : styles.inactiveBadge]}>
                       <Text style={[styles.statusText, service.is_active ? styles.activeText : styles.inactiveText]}>
@@ -369,6 +625,16 @@ const ServicesManagementScreen: React.FC<{ navigation: any }> = ({ navigation })
                     </Text>
                   </TouchableOpacity>
 
+                  <TouchableOpacity 
+                    style={styles.actionButton} 
+                    onPress={() => openSuppliesModal(service)}
+                  >
+                    <Ionicons name="flask" size={18} color="#8b5cf6" />
+                    <Text style={[styles.actionButtonText, { color: '#8b5cf6' }]}>
+                      Supplies{supplyCounts[service.id] ? ` (${supplyCounts[service.id]})` : ''}
+                    </Text>
+                  </TouchableOpacity>
+
                   <TouchableOpacity 
                     style={styles.actionButton} 
                     onPress={() => openModal(service)}
@@ -439,7 +705,9 @@ const ServicesManagementScreen: React.FC<{ navigation: any }> = ({ navigation })
 
               {/* Price */}
               <View style={styles.formGroup}>
-                <Text style={styles.label}>Price (₱) *</Text>
+                <Text style={styles.label}>
+                  Price (₱{pricingMode === 'per_kilo' ? ' per kg' : pricingMode === 'per_load' ? ' per load' : ''}) *
+                </Text>
                 <TextInput
                   style={styles.input}
                   value={servicePrice}
@@ -449,6 +717,69 @@ const ServicesManagementScreen: React.FC<{ navigation: any }> = ({ navigation })
                 />
               </View>
 
+              {/* Pricing Mode */}
+              <View style={styles.formGroup}>
+                <Text style={styles.label}>Pricing</Text>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.categoryScroll}>
+                  {pricingModes.map((mode) => (
+                    <TouchableOpacity
+                      key={mode.value}
+                      style={[
+                        styles.categoryChip,
+                        pricingMode === mode.value && styles.categoryChipSelected
+                      ]}
+                      onPress={() => setPricingMode(mode.value)}
+                    >
+                      <Text style={[
+                        styles.categoryChipText,
+                        pricingMode === mode.value && styles.categoryChipTextSelected
+                      ]}>
+                        {mode.label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </ScrollView>
+              </View>
+
+              {pricingMode !== 'per_piece' && (
+                <>
+                  <View style={styles.formGroup}>
+                    <Text style={styles.label}>Minimum Weight (kg)</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={minWeight}
+                      onChangeText={setMinWeight}
+                      placeholder="e.g., 3"
+                      keyboardType="decimal-pad"
+                    />
+                  </View>
+
+                  <View style={styles.formGroup}>
+                    <Text style={styles.label}>Round Up To (kg)</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={weightRounding}
+                      onChangeText={setWeightRounding}
+                      placeholder="e.g., 0.5"
+                      keyboardType="decimal-pad"
+                    />
+                  </View>
+                </>
+              )}
+
+              {pricingMode === 'per_load' && (
+                <View style={styles.formGroup}>
+                  <Text style={styles.label}>Maximum Weight per Load (kg)</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={maxWeightPerLoad}
+                    onChangeText={setMaxWeightPerLoad}
+                    placeholder="e.g., 8"
+                    keyboardType="decimal-pad"
+                  />
+                </View>
+              )}
+
               {/* Category */}
               <View style={styles.formGroup}>
                 <Text style={styles.label}>Category</Text>
@@ -473,6 +804,19 @@ const ServicesManagementScreen: React.FC<{ navigation: any }> = ({ navigation })
                 </ScrollView>
               </View>
 
+              {/* Turnaround */}
+              <View style={styles.formGroup}>
+                <Text style={styles.label}>Turnaround (hours)</Text>
+                <TextInput
+                  style={styles.input}
+                  value={turnaroundHours}
+                  onChangeText={setTurnaroundHours}
+                  placeholder={`Store default (${getStoreSetting(currentStore as any, 'default_turnaround_hours') ?? 24})`}
+                  keyboardType="number-pad"
+                />
+                <Text style={[styles.helpText, { marginTop: 6 }]}>Sets the default ready by time at checkout, e.g. 6 for same-day express</Text>
+              </View>
+
               {/* Icon */}
               <View style={styles.formGroup}>
                 <Text style={styles.label}>Icon</Text>
@@ -508,6 +852,20 @@ const ServicesManagementScreen: React.FC<{ navigation: any }> = ({ navigation })
                   </TouchableOpacity>
                 </View>
               </View>
+
+              {/* VAT Exempt Toggle */}
+              <View style={styles.formGroup}>
+                <View style={styles.switchRow}>
+                  <Text style={styles.label}>VAT Exempt</Text>
+                  <TouchableOpacity 
+                    style={[styles.switchButton, isVatExempt && styles.switchButtonActive]}
+                    onPress={() => setIsVatExempt(!isVatExempt)}
+                  >
+                    <View style={[styles.switchThumb, isVatExempt && styles.switchThumbActive]} />
+                  </TouchableOpacity>
+                </View>
+                <Text style={styles.helpText}>Exempt sales are not charged VAT for any customer</Text>
+              </View>
             </ScrollView>
 
             {/* Modal Actions */}
@@ -528,6 +886,112 @@ const ServicesManagementScreen: React.FC<{ navigation: any }> = ({ navigation })
           </View>
         </View>
       </Modal>
+
+      {/* Supplies Modal */}
+      <Modal
+        visible={showSuppliesModal}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setShowSuppliesModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, { paddingBottom: Math.max(insets.bottom, 20) }]}>
+            <View style={styles.modalHeader}>
+              <View style={{ flex: 1 }}>
+                <Text style={styles.modalTitle}>Supplies Used</Text>
+                <Text style={styles.subtitle}>{suppliesService?.name} • per unit</Text>
+              </View>
+              <TouchableOpacity onPress={() => setShowSuppliesModal(false)}>
+                <Ionicons name="close" size={24} color="#6b7280" />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView 
+              style={styles.modalBody}
+              contentContainerStyle={{ paddingBottom: 10 }}
+            >
+              {/* Current recipe */}
+              <View style={styles.formGroup}>
+                {serviceSupplies.length === 0 ? (
+                  <Text style={styles.emptySubtitle}>
+                    No supplies yet. Stock is not deducted when this service is sold.
+                  </Text>
+                ) : (
+                  serviceSupplies.map(supply => (
+                    <View key={supply.id} style={styles.supplyRow}>
+                      <View style={{ flex: 1 }}>
+                        <Text style={styles.supplyName}>{supply.inventory_items?.name || 'Unknown item'}</Text>
+                        <Text style={styles.supplyQuantity}>
+                          {supply.quantity_per_unit} {supply.inventory_items?.unit_of_measure} per unit
+                        </Text>
+                      </View>
+                      <TouchableOpacity onPress={() => handleRemoveSupply(supply)} style={styles.actionButton}>
+                        <Ionicons name="trash" size={18} color="#ef4444" />
+                      </TouchableOpacity>
+                    </View>
+                  ))
+                )}
+              </View>
+
+              {/* Add supply */}
+              <View style={styles.formGroup}>
+                <Text style={styles.label}>Inventory Item</Text>
+                {supplyItems.length === 0 ? (
+                  <Text style={styles.emptySubtitle}>Add consumables in Inventory first</Text>
+                ) : (
+                  <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.categoryScroll}>
+                    {supplyItems.map(item => (
+                      <TouchableOpacity
+                        key={item.id}
+                        style={[
+                          styles.categoryChip,
+                          selectedSupplyItemId === item.id && styles.categoryChipSelected
+                        ]}
+                        onPress={() => setSelectedSupplyItemId(item.id)}
+                      >
+                        <Text style={[
+                          styles.categoryChipText,
+                          selectedSupplyItemId === item.id && styles.categoryChipTextSelected
+                        ]}>
+                          {item.name}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </ScrollView>
+                )}
+              </View>
+
+              <View style={styles.formGroup}>
+                <Text style={styles.label}>
+                  Quantity per Unit{selectedSupplyItemId ? ` (${supplyItems.find(i => i.id === selectedSupplyItemId)?.unit_of_measure})` : ''}
+                </Text>
+                <TextInput
+                  style={styles.input}
+                  value={supplyQuantity}
+                  onChangeText={setSupplyQuantity}
+                  placeholder="e.g., 0.05"
+                  keyboardType="decimal-pad"
+                />
+              </View>
+            </ScrollView>
+
+            <View style={styles.modalActions}>
+              <TouchableOpacity 
+                style={styles.cancelButton}
+                onPress={() => setShowSuppliesModal(false)}
+              >
+                <Text style={styles.cancelButtonText}>Done</Text>
+              </TouchableOpacity>
+              <TouchableOpacity 
+                style={styles.saveButton}
+                onPress={handleAddSupply}
+              >
+                <Text style={styles.saveButtonText}>Add Supply</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
     </View>
   )
 }
@@ -750,6 +1214,23 @@ const styles = StyleSheet.create({
     color: '#6b7280',
     marginLeft: 6,
   },
+  supplyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+  supplyName: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#111827',
+  },
+  supplyQuantity: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginTop: 2,
+  },
   // Modal styles
   modalOverlay: {
     flex: 1,
@@ -787,6 +1268,10 @@ const styles = StyleSheet.create({
     color: '#111827',
     marginBottom: 8,
   },
+  helpText: {
+    fontSize: 12,
+    color: '#6b7280',
+  },
   input: {
     borderWidth: 1,
     borderColor: '#d1d5db',
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react'
-import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Switch, Alert, Modal, ActivityIndicator } from 'react-native'
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Switch, Alert, Modal, ActivityIndicator, TextInput } from 'react-native'
 import { Ionicons } from '@expo/vector-icons'
 import { supabase } from '../../lib/supabase'
 import AsyncStorage from '@react-native-async-storage/async-storage'
@@ -31,6 +31,13 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) => {
   const [showPrinterConfig, setShowPrinterConfig] = useState(false)
   const [checkingUpdate, setCheckingUpdate] = useState(false)
   const [downloadingUpdate, setDownloadingUpdate] = useState(false)
+  const [showManagerPinModal, setShowManagerPinModal] = useState(false)
+  const [managerPin, setManagerPin] = useState('')
+  const [confirmManagerPin, setConfirmManagerPin] = useState('')
+  const [savingManagerPin, setSavingManagerPin] = useState(false)
+
+  // Roles that can approve discounts with a PIN
+  const isManager = ['super_admin', 'store_owner', 'manager'].includes(userData?.role || '')
 
   useEffect(() => {
     fetchUserData()
@@ -78,8 +85,21 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) => {
         { icon: 'swap-horizontal', title: 'Switch Store', subtitle: currentStore?.name || 'Select a store', color: '#3b82f6', action: 'switchStore' },
         { icon: 'storefront', title: 'Store Information', subtitle: 'Business details', color: '#f59e0b' },
         { icon: 'pricetag', title: 'Services & Pricing', subtitle: 'Manage laundry services', color: '#10b981', action: 'services' },
+        { icon: 'pricetags', title: 'Promotions', subtitle: 'Bundles, tiers and happy hours', color: '#ec4899', action: 'pricingRules' },
+        { icon: 'ticket', title: 'Vouchers & Discounts', subtitle: 'Voucher codes and approval limit', color: '#14b8a6', action: 'vouchers' },
         { icon: 'print', title: 'Printer Configuration', subtitle: 'Setup and select printer', color: '#8b5cf6', action: 'printer' },
         { icon: 'card', title: 'Payment Methods', subtitle: 'Accept payment types', color: '#ef4444', action: 'paymentMethods' },
+        { icon: 'cash', title: 'Cash Drawer', subtitle: 'Shifts, paid in/out and X/Z reports', color: '#10b981', action: 'cashDrawer' },
+        { icon: 'hourglass', title: 'Unclaimed Orders', subtitle: 'Aging, pickup reminders and storage fees', color: '#f59e0b', action: 'unclaimedOrders' },
+        { icon: 'receipt', title: 'Sales Receipts', subtitle: 'Official receipts and reprints', color: '#8b5cf6', action: 'salesReceipts' },
+        { icon: 'layers', title: 'Print Queue', subtitle: 'Print jobs, printer status and reprints', color: '#6b7280', action: 'printQueue' },
+        ...(isManager
+          ? [
+              { icon: 'return-down-back', title: 'Refunds', subtitle: 'Refunds owed to customers', color: '#ef4444', action: 'refunds' },
+              { icon: 'chatbubbles', title: 'SMS Notifications', subtitle: 'Message templates and auto-send', color: '#3b82f6', action: 'smsTemplates' },
+              { icon: 'keypad', title: 'Manager PIN', subtitle: 'PIN for approving discounts and refunds', color: '#f59e0b', action: 'managerPin' },
+            ]
+          : []),
       ]
     },
     {
@@ -99,6 +119,26 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) => {
       navigation.navigate('ServicesManagement')
     } else if (item.action === 'paymentMethods' && navigation) {
       navigation.navigate('PaymentMethods')
+    } else if (item.action === 'pricingRules' && navigation) {
+      navigation.navigate('PricingRules')
+    } else if (item.action === 'vouchers' && navigation) {
+      navigation.navigate('Vouchers')
+    } else if (item.action === 'cashDrawer' && navigation) {
+      navigation.navigate('CashDrawer')
+    } else if (item.action === 'refunds' && navigation) {
+      navigation.navigate('Refunds')
+    } else if (item.action === 'unclaimedOrders' && navigation) {
+      navigation.navigate('UnclaimedOrders')
+    } else if (item.action === 'salesReceipts' && navigation) {
+      navigation.navigate('SalesReceipts')
+    } else if (item.action === 'printQueue' && navigation) {
+      navigation.navigate('PrintQueue')
+    } else if (item.action === 'smsTemplates' && navigation) {
+      navigation.navigate('SmsTemplates')
+    } else if (item.action === 'managerPin') {
+      setManagerPin('')
+      setConfirmManagerPin('')
+      setShowManagerPinModal(true)
     } else if (item.action === 'printer') {
       setShowPrinterConfig(true)
     } else if (item.action === 'switchStore') {
@@ -112,6 +152,33 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) => {
     }
   }
 
+  const handleSaveManagerPin = async () => {
+    if (!/^\d{4,8}$/.test(managerPin)) {
+      Alert.alert('Invalid PIN', 'The PIN must be 4 to 8 digits')
+      return
+    }
+    if (managerPin !== confirmManagerPin) {
+      Alert.alert('Invalid PIN', 'The PINs do not match')
+      return
+    }
+
+    try {
+      setSavingManagerPin(true)
+      const { error } = await supabase.rpc('set_manager_pin', { p_pin: managerPin })
+      if (error) throw error
+
+      setShowManagerPinModal(false)
+      Alert.alert('Success', 'Manager PIN saved')
+    } catch (error: any) {
+      console.error('Error saving manager PIN:', error)
+      Alert.alert('Error', error.message || 'Failed to save manager PIN')
+    } finally {
+      setSavingManagerPin(false)
+      setManagerPin('')
+      setConfirmManagerPin('')
+    }
+  }
+
   const handleStoreSwitch = (storeId: string) => {
     switchStore(storeId)
     setShowStoreSwitchModal(false)
@@ -425,6 +492,63 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) => {
           </View>
         </View>
       </Modal>
+
+      {/* Manager PIN Modal */}
+      <Modal
+        visible={showManagerPinModal}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setShowManagerPinModal(false)}
+      >
+        <View style={styles.storeModalOverlay}>
+          <View style={styles.storeModalContent}>
+            <View style={styles.storeModalHeader}>
+              <Text style={styles.storeModalTitle}>Manager PIN</Text>
+              <TouchableOpacity
+                style={styles.storeModalCloseButton}
+                onPress={() => setShowManagerPinModal(false)}
+              >
+                <Ionicons name="close" size={24} color="#111827" />
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.pinForm}>
+              <Text style={styles.pinHint}>
+                Used to approve discounts above the store's limit. Enter 4 to 8 digits.
+              </Text>
+              <TextInput
+                style={styles.pinInput}
+                value={managerPin}
+                onChangeText={(text) => setManagerPin(text.replace(/[^0-9]/g, ''))}
+                placeholder="New PIN"
+                keyboardType="number-pad"
+                secureTextEntry
+                maxLength={8}
+              />
+              <TextInput
+                style={styles.pinInput}
+                value={confirmManagerPin}
+                onChangeText={(text) => setConfirmManagerPin(text.replace(/[^0-9]/g, ''))}
+                placeholder="Confirm PIN"
+                keyboardType="number-pad"
+                secureTextEntry
+                maxLength={8}
+              />
+              <TouchableOpacity
+                style={styles.pinSaveButton}
+                onPress={handleSaveManagerPin}
+                disabled={savingManagerPin}
+              >
+                {savingManagerPin ? (
+                  <ActivityIndicator size="small" color="#ffffff" />
+                ) : (
+                  <Text style={styles.pinSaveButtonText}>Save PIN</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
     </ScrollView>
   )
 }
@@ -674,6 +798,37 @@ const styles = StyleSheet.create({
   storeModalSelectedSubtext: {
     color: '#60a5fa',
   },
+  pinForm: {
+    padding: 20,
+  },
+  pinHint: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginBottom: 16,
+  },
+  pinInput: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 18,
+    letterSpacing: 4,
+    color: '#111827',
+    marginBottom: 12,
+  },
+  pinSaveButton: {
+    backgroundColor: '#f59e0b',
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  pinSaveButtonText: {
+    fontSize: 16,
+    color: '#ffffff',
+    fontWeight: '600',
+  },
 })
 
 export default SettingsScreen
@@ -0,0 +1,543 @@
+import React, { useState, useEffect } from 'react'
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+  Switch,
+} from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
+import { supabase } from '../../lib/supabase'
+import { useStore } from '../context/StoreContext'
+import SMSService from '../services/SMSService'
+import { SmsEvent, SmsLanguage, SmsTemplate } from '../types/sms'
+import { StoreSettings, getStoreSetting, isFeatureEnabled } from '../utils/featureFlags'
+import {
+  DEFAULT_SMS_TEMPLATES,
+  SAMPLE_SMS_VALUES,
+  SMS_EVENTS,
+  SMS_LANGUAGES,
+  SMS_PLACEHOLDERS,
+  getSmsLanguage,
+  getSmsSegmentInfo,
+  getUnknownPlaceholders,
+  renderSmsTemplate,
+  resolveSmsTemplate,
+} from '../utils/smsTemplates'
+
+const draftKey = (event: SmsEvent, language: SmsLanguage) => `${event}:${language}`
+
+const SmsTemplatesScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
+  const { currentStore, refreshStores } = useStore()
+  const [loading, setLoading] = useState(true)
+  const [templates, setTemplates] = useState<SmsTemplate[]>([])
+  const [drafts, setDrafts] = useState<Record<string, string>>({})
+  const [editLanguage, setEditLanguage] = useState<SmsLanguage>('en')
+  const [savingKey, setSavingKey] = useState<string | null>(null)
+  const [savingSettings, setSavingSettings] = useState(false)
+
+  const smsEnabled = isFeatureEnabled(currentStore as any, 'sms_notifications')
+  const storeLanguage = getSmsLanguage(currentStore as any)
+  const autoSend = getStoreSetting(currentStore as any, 'sms_auto_send') === true
+
+  useEffect(() => {
+    setEditLanguage(storeLanguage)
+    loadTemplates()
+  }, [currentStore])
+
+  const loadTemplates = async () => {
+    if (!currentStore) return
+
+    try {
+      const storeTemplates = await SMSService.getTemplates(currentStore.id)
+      setTemplates(storeTemplates)
+
+      const nextDrafts: Record<string, string> = {}
+      SMS_EVENTS.forEach(({ key }) => {
+        SMS_LANGUAGES.forEach(language => {
+          nextDrafts[draftKey(key, language.key)] = resolveSmsTemplate(storeTemplates, key, language.key)
+        })
+      })
+      setDrafts(nextDrafts)
+    } catch (error: any) {
+      console.error('❌ Error loading SMS templates:', error)
+      Alert.alert('Error', error.message || 'Failed to load SMS templates')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const saveSettings = async (changes: Partial<StoreSettings>) => {
+    if (!currentStore) return
+
+    try {
+      setSavingSettings(true)
+      const { data: store, error: fetchError } = await supabase
+        .from('stores')
+        .select('settings')
+        .eq('id', currentStore.id)
+        .single()
+
+      if (fetchError) throw fetchError
+
+      const { error } = await supabase
+        .from('stores')
+        .update({ settings: { ...(store?.settings || {}), ...changes } })
+        .eq('id', currentStore.id)
+
+      if (error) throw error
+      await refreshStores()
+    } catch (error: any) {
+      console.error('Error saving SMS settings:', error)
+      Alert.alert('Error', error.message || 'Failed to save SMS settings')
+    } finally {
+      setSavingSettings(false)
+    }
+  }
+
+  const insertPlaceholder = (event: SmsEvent, placeholder: string) => {
+    const key = draftKey(event, editLanguage)
+    setDrafts(prev => {
+      const current = prev[key] || ''
+      const separator = current.length > 0 && !/\s$/.test(current) ? ' ' : ''
+      return { ...prev, [key]: `${current}${separator}{${placeholder}}` }
+    })
+  }
+
+  const saveTemplate = async (event: SmsEvent) => {
+    if (!currentStore) return
+
+    const key = draftKey(event, editLanguage)
+    const body = (drafts[key] || '').trim()
+    if (!body) {
+      Alert.alert('Validation Error', 'The message cannot be empty')
+      return
+    }
+
+    const unknown = getUnknownPlaceholders(body)
+    if (unknown.length > 0) {
+      Alert.alert(
+        'Unknown Placeholder',
+        `${unknown.map(name => `{${name}}`).join(', ')} will be sent as typed. Use the placeholder buttons to insert customer and order details.`
+      )
+      return
+    }
+
+    try {
+      setSavingKey(key)
+      await SMSService.saveTemplate(currentStore.id, event, editLanguage, body)
+      await loadTemplates()
+      Alert.alert('Success', 'Template saved')
+    } catch (error: any) {
+      console.error('Error saving SMS template:', error)
+      Alert.alert('Error', error.message || 'Failed to save template')
+    } finally {
+      setSavingKey(null)
+    }
+  }
+
+  const resetTemplate = (event: SmsEvent) => {
+    if (!currentStore) return
+
+    const key = draftKey(event, editLanguage)
+    const isCustom = templates.some(template => template.event === event && template.language === editLanguage)
+    if (!isCustom) {
+      // Nothing saved yet; just drop the unsaved edits
+      setDrafts(prev => ({ ...prev, [key]: DEFAULT_SMS_TEMPLATES[event][editLanguage] }))
+      return
+    }
+
+    Alert.alert(
+      'Reset Template',
+      'Go back to the default wording for this message?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Reset',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              setSavingKey(key)
+              await SMSService.resetTemplate(currentStore.id, event, editLanguage)
+              await loadTemplates()
+            } catch (error: any) {
+              console.error('Error resetting SMS template:', error)
+              Alert.alert('Error', error.message || 'Failed to reset template')
+            } finally {
+              setSavingKey(null)
+            }
+          },
+        },
+      ]
+    )
+  }
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.centerContent]}>
+        <ActivityIndicator size="large" color="#3b82f6" />
+        <Text style={styles.loadingText}>Loading SMS templates...</Text>
+      </View>
+    )
+  }
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color="#111827" />
+        </TouchableOpacity>
+        <View style={styles.headerContent}>
+          <Text style={styles.title}>SMS Notifications</Text>
+          <Text style={styles.subtitle}>{currentStore?.name}</Text>
+        </View>
+        {savingSettings && <ActivityIndicator size="small" color="#3b82f6" />}
+      </View>
+
+      <ScrollView style={styles.content}>
+        {/* Sending */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Sending</Text>
+
+          <Text style={styles.label}>Customer language</Text>
+          <View style={styles.chipRow}>
+            {SMS_LANGUAGES.map(language => (
+              <TouchableOpacity
+                key={language.key}
+                style={[styles.chip, storeLanguage === language.key && styles.chipSelected]}
+                onPress={() => saveSettings({ sms_language: language.key })}
+                disabled={savingSettings}
+              >
+                <Text style={[styles.chipText, storeLanguage === language.key && styles.chipTextSelected]}>
+                  {language.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.switchRow}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.label}>Send on status change</Text>
+              <Text style={styles.hint}>
+                {smsEnabled
+                  ? 'Open the message without asking when an order is received or marked ready'
+                  : 'Needs SMS notifications turned on for this store'}
+              </Text>
+            </View>
+            <Switch
+              value={smsEnabled && autoSend}
+              onValueChange={value => saveSettings({ sms_auto_send: value })}
+              disabled={!smsEnabled || savingSettings}
+            />
+          </View>
+        </View>
+
+        {/* Template language */}
+        <View style={styles.chipRow}>
+          {SMS_LANGUAGES.map(language => (
+            <TouchableOpacity
+              key={language.key}
+              style={[styles.tab, editLanguage === language.key && styles.tabSelected]}
+              onPress={() => setEditLanguage(language.key)}
+            >
+              <Text style={[styles.tabText, editLanguage === language.key && styles.tabTextSelected]}>
+                {language.label} Templates
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {/* Templates */}
+        {SMS_EVENTS.map(event => {
+          const key = draftKey(event.key, editLanguage)
+          const body = drafts[key] || ''
+          const saved = resolveSmsTemplate(templates, event.key, editLanguage)
+          const isCustom = templates.some(template => template.event === event.key && template.language === editLanguage)
+          const preview = renderSmsTemplate(body, SAMPLE_SMS_VALUES)
+          const segments = getSmsSegmentInfo(preview)
+          const saving = savingKey === key
+
+          return (
+            <View key={event.key} style={styles.card}>
+              <View style={styles.cardHeader}>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.cardTitle}>{event.label}</Text>
+                  <Text style={styles.hint}>{event.description}</Text>
+                </View>
+                <View style={[styles.badge, isCustom && styles.badgeCustom]}>
+                  <Text style={[styles.badgeText, isCustom && styles.badgeTextCustom]}>
+                    {isCustom ? 'Custom' : 'Default'}
+                  </Text>
+                </View>
+              </View>
+
+              <TextInput
+                style={styles.templateInput}
+                value={body}
+                onChangeText={text => setDrafts(prev => ({ ...prev, [key]: text }))}
+                multiline
+                textAlignVertical="top"
+              />
+
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.placeholderRow}>
+                {SMS_PLACEHOLDERS.map(placeholder => (
+                  <TouchableOpacity
+                    key={placeholder.key}
+                    style={styles.placeholderChip}
+                    onPress={() => insertPlaceholder(event.key, placeholder.key)}
+                  >
+                    <Text style={styles.placeholderChipText}>+ {placeholder.label}</Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+
+              <Text style={styles.label}>Preview</Text>
+              <View style={styles.preview}>
+                <Text style={styles.previewText}>{preview}</Text>
+              </View>
+              <Text style={[styles.hint, segments.segments > 1 && styles.warningText]}>
+                {segments.characters} characters • {segments.segments} SMS • {segments.remaining} left
+                {segments.encoding === 'UCS-2' ? ' • Special characters limit each SMS to 70' : ''}
+              </Text>
+
+              <View style={styles.buttonRow}>
+                <TouchableOpacity
+                  style={styles.secondaryButton}
+                  onPress={() => resetTemplate(event.key)}
+                  disabled={saving || (!isCustom && body === saved)}
+                >
+                  <Text style={styles.secondaryButtonText}>Reset to Default</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.primaryButton, (saving || body === saved) && { opacity: 0.6 }]}
+                  onPress={() => saveTemplate(event.key)}
+                  disabled={saving || body === saved}
+                >
+                  {saving ? (
+                    <ActivityIndicator size="small" color="#ffffff" />
+                  ) : (
+                    <Text style={styles.primaryButtonText}>Save</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            </View>
+          )
+        })}
+      </ScrollView>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  centerContent: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#6b7280',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    backgroundColor: '#ffffff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  backButton: {
+    padding: 4,
+    marginRight: 12,
+  },
+  headerContent: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 12,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  warningText: {
+    color: '#f59e0b',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#111827',
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    backgroundColor: '#ffffff',
+  },
+  chipSelected: {
+    borderColor: '#3b82f6',
+    backgroundColor: '#eff6ff',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  chipTextSelected: {
+    color: '#3b82f6',
+    fontWeight: '600',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  tab: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+    backgroundColor: '#e5e7eb',
+  },
+  tabSelected: {
+    backgroundColor: '#3b82f6',
+  },
+  tabText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  tabTextSelected: {
+    color: '#ffffff',
+  },
+  badge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 6,
+    backgroundColor: '#f3f4f6',
+  },
+  badgeCustom: {
+    backgroundColor: '#dbeafe',
+  },
+  badgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  badgeTextCustom: {
+    color: '#1d4ed8',
+  },
+  templateInput: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: '#111827',
+    minHeight: 110,
+  },
+  placeholderRow: {
+    marginTop: 8,
+  },
+  placeholderChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 6,
+    backgroundColor: '#f3f4f6',
+    marginRight: 6,
+  },
+  placeholderChipText: {
+    fontSize: 12,
+    color: '#374151',
+  },
+  preview: {
+    backgroundColor: '#f0fdf4',
+    borderRadius: 8,
+    padding: 12,
+  },
+  previewText: {
+    fontSize: 14,
+    color: '#111827',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  primaryButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: '#3b82f6',
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#ffffff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: '#374151',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+})
+
+export default SmsTemplatesScreen
@@ -158,6 +158,7 @@ const StoreSelectionScreen: React.FC<StoreSelectionScreenProps> = ({
         .from('orders')
         .select('*', { count: 'exact', head: true })
         .eq('store_id', storeId)
+        .neq('order_status', 'cancelled')
 
       if (ordersCountError) {
         console.error('Error loading orders count:', ordersCountError)
@@ -169,6 +170,7 @@ const StoreSelectionScreen: React.FC<StoreSelectionScreenProps> = ({
         .from('orders')
         .select('*')
         .eq('store_id', storeId)
+        .neq('order_status', 'cancelled')
         .gte('order_date', today.toISOString())
         .lte('order_date', endOfDay.toISOString())
 
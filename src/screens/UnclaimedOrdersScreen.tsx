@@ -0,0 +1,633 @@
+import React, { useState, useEffect, useRef } from 'react'
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
+import { supabase } from '../../lib/supabase'
+import { useStore } from '../context/StoreContext'
+import UnclaimedOrderService from '../services/UnclaimedOrderService'
+import OrderService from '../services/OrderService'
+import ManagerPinModal from '../components/ManagerPinModal'
+import { ManagerApproval } from '../types/voucher'
+import { AgingBucket, UnclaimedOrder } from '../types/unclaimed'
+import {
+  AGING_BUCKETS,
+  canAbandonOrder,
+  getAgingBucket,
+  getDaysUntilStorageFee,
+  getDueReminderDay,
+  getUnclaimedPolicy,
+  parseReminderDays,
+} from '../utils/unclaimed'
+import { getSmsLanguage } from '../utils/smsTemplates'
+
+const UnclaimedOrdersScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
+  const { currentStore, refreshStores } = useStore()
+  const [loading, setLoading] = useState(true)
+  const [refreshing, setRefreshing] = useState(false)
+  const [isManager, setIsManager] = useState(false)
+  const [orders, setOrders] = useState<UnclaimedOrder[]>([])
+  const [selectedBucket, setSelectedBucket] = useState<AgingBucket | null>(null)
+  const [sendingReminders, setSendingReminders] = useState(false)
+  const remindersPrompted = useRef(false)
+
+  // Abandoned disposition
+  const [abandonTarget, setAbandonTarget] = useState<UnclaimedOrder | null>(null)
+  const [showAbandonApproval, setShowAbandonApproval] = useState(false)
+  const [abandoning, setAbandoning] = useState(false)
+
+  // Policy settings (managers)
+  const [reminderDaysInput, setReminderDaysInput] = useState('')
+  const [graceDaysInput, setGraceDaysInput] = useState('')
+  const [feePerDayInput, setFeePerDayInput] = useState('')
+  const [abandonAfterInput, setAbandonAfterInput] = useState('')
+  const [savingPolicy, setSavingPolicy] = useState(false)
+
+  const policy = getUnclaimedPolicy(currentStore as any)
+
+  useEffect(() => {
+    setReminderDaysInput(policy.reminderDays.join(', '))
+    setGraceDaysInput(String(policy.storageGraceDays))
+    setFeePerDayInput(String(policy.storageFeePerDay))
+    setAbandonAfterInput(String(policy.abandonAfterDays))
+    loadOrders()
+  }, [currentStore])
+
+  const loadOrders = async () => {
+    if (!currentStore) return
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session?.user) return
+
+      const { data: userDetails } = await supabase
+        .from('users')
+        .select('role')
+        .eq('id', session.user.id)
+        .single()
+      setIsManager(['super_admin', 'store_owner', 'manager'].includes(userDetails?.role || ''))
+
+      // Bring storage fees up to date before showing balances
+      await UnclaimedOrderService.accrueStorageFees(currentStore.id)
+      const unclaimed = await UnclaimedOrderService.getUnclaimedOrders(currentStore.id)
+      setOrders(unclaimed)
+
+      // Offer to send the reminders that are due once per visit
+      const due = getRemindersDue(unclaimed)
+      if (due.length > 0 && !remindersPrompted.current) {
+        remindersPrompted.current = true
+        Alert.alert(
+          'Pickup Reminders Due',
+          `${due.length} customer${due.length !== 1 ? 's are' : ' is'} due a pickup reminder. Send them now?`,
+          [
+            { text: 'Later', style: 'cancel' },
+            { text: 'Send', onPress: () => sendReminders(due) },
+          ]
+        )
+      }
+    } catch (error: any) {
+      console.error('❌ Error loading unclaimed orders:', error)
+      Alert.alert('Error', error.message || 'Failed to load unclaimed orders')
+    } finally {
+      setLoading(false)
+      setRefreshing(false)
+    }
+  }
+
+  const onRefresh = async () => {
+    setRefreshing(true)
+    await loadOrders()
+  }
+
+  /**
+   * Orders due a reminder that can be texted, with the reminder day to send
+   */
+  const getRemindersDue = (unclaimed: UnclaimedOrder[]) =>
+    unclaimed
+      .filter(order => !!order.customer_phone)
+      .map(order => ({ order, reminderDay: getDueReminderDay(order, policy.reminderDays) }))
+      .filter((entry): entry is { order: UnclaimedOrder; reminderDay: number } => entry.reminderDay !== null)
+
+  /**
+   * Send reminders one at a time; stops when the user cancels a message
+   */
+  const sendReminders = async (due: { order: UnclaimedOrder; reminderDay: number }[]) => {
+    if (!currentStore) return
+
+    setSendingReminders(true)
+    let sent = 0
+    try {
+      for (const { order, reminderDay } of due) {
+        const delivered = await UnclaimedOrderService.sendReminder(
+          order,
+          reminderDay,
+          { name: currentStore.name, phone: currentStore.phone, language: getSmsLanguage(currentStore as any) },
+          policy
+        )
+        if (!delivered) break
+        sent++
+      }
+    } catch (error: any) {
+      console.error('❌ Error sending reminders:', error)
+      Alert.alert('SMS Error', error.message || 'Failed to send reminder')
+    } finally {
+      setSendingReminders(false)
+      if (sent > 0) {
+        Alert.alert('Reminders Sent', `${sent} of ${due.length} reminder${due.length !== 1 ? 's' : ''} sent.`)
+      }
+      await loadOrders()
+    }
+  }
+
+  const handleAbandon = (order: UnclaimedOrder) => {
+    Alert.alert(
+      'Mark Abandoned',
+      `Order ${order.order_number} has been ready for ${order.days_ready} days. Mark it abandoned? This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Mark Abandoned',
+          style: 'destructive',
+          onPress: () => {
+            setAbandonTarget(order)
+            // Managers sign off themselves; anyone else needs a manager's PIN
+            if (isManager) {
+              abandonOrder(order, null)
+            } else {
+              setShowAbandonApproval(true)
+            }
+          },
+        },
+      ]
+    )
+  }
+
+  const abandonOrder = async (order: UnclaimedOrder | null, approval: ManagerApproval | null) => {
+    setShowAbandonApproval(false)
+    if (!order) return
+
+    setAbandoning(true)
+    try {
+      await OrderService.abandonOrder(
+        order.order_id,
+        approval?.approval_id,
+        `Unclaimed for ${order.days_ready} days`
+      )
+      Alert.alert('Order Abandoned', `Order ${order.order_number} was marked abandoned.`)
+      await loadOrders()
+    } catch (error: any) {
+      console.error('Error marking order abandoned:', error)
+      Alert.alert('Error', error.message || 'Failed to mark order abandoned')
+    } finally {
+      setAbandoning(false)
+      setAbandonTarget(null)
+    }
+  }
+
+  const savePolicy = async () => {
+    if (!currentStore) return
+
+    const reminderDays = parseReminderDays(reminderDaysInput)
+    const graceDays = parseInt(graceDaysInput, 10)
+    const feePerDay = parseFloat(feePerDayInput || '0')
+    const abandonAfterDays = parseInt(abandonAfterInput, 10)
+
+    if (!reminderDays) {
+      Alert.alert('Validation Error', 'Reminder days must be whole numbers separated by commas, e.g. 7, 14, 30')
+      return
+    }
+    if (isNaN(graceDays) || graceDays < 0 || isNaN(abandonAfterDays) || abandonAfterDays <= 0) {
+      Alert.alert('Validation Error', 'Please enter the grace period and abandon days as whole numbers')
+      return
+    }
+    if (isNaN(feePerDay) || feePerDay < 0) {
+      Alert.alert('Validation Error', 'Please enter a valid storage fee')
+      return
+    }
+
+    try {
+      setSavingPolicy(true)
+      const { data: store, error: fetchError } = await supabase
+        .from('stores')
+        .select('settings')
+        .eq('id', currentStore.id)
+        .single()
+
+      if (fetchError) throw fetchError
+
+      const { error } = await supabase
+        .from('stores')
+        .update({
+          settings: {
+            ...(store?.settings || {}),
+            unclaimed_reminder_days: reminderDays,
+            storage_grace_days: graceDays,
+            storage_fee_per_day: feePerDay,
+            abandon_after_days: abandonAfterDays,
+          },
+        })
+        .eq('id', currentStore.id)
+
+      if (error) throw error
+      await refreshStores()
+      Alert.alert('Success', 'Unclaimed order policy updated')
+    } catch (error: any) {
+      console.error('Error saving unclaimed order policy:', error)
+      Alert.alert('Error', error.message || 'Failed to save policy')
+    } finally {
+      setSavingPolicy(false)
+    }
+  }
+
+  const remindersDue = getRemindersDue(orders)
+  const listedOrders = selectedBucket
+    ? orders.filter(order => getAgingBucket(order.days_ready) === selectedBucket)
+    : orders
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.centerContent]}>
+        <ActivityIndicator size="large" color="#3b82f6" />
+        <Text style={styles.loadingText}>Loading unclaimed orders...</Text>
+      </View>
+    )
+  }
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color="#111827" />
+        </TouchableOpacity>
+        <View style={styles.headerContent}>
+          <Text style={styles.title}>Unclaimed Orders</Text>
+          <Text style={styles.subtitle}>{currentStore?.name}</Text>
+        </View>
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      >
+        {/* Aging Report */}
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Ionicons name="hourglass-outline" size={24} color="#f59e0b" />
+            <View style={{ flex: 1 }}>
+              <Text style={styles.cardTitle}>Aging</Text>
+              <Text style={styles.hint}>
+                {orders.length} ready order{orders.length !== 1 ? 's' : ''} not picked up • ₱
+                {orders.reduce((sum, order) => sum + Number(order.balance), 0).toFixed(2)} due
+              </Text>
+            </View>
+          </View>
+
+          {AGING_BUCKETS.map(bucket => {
+            const bucketOrders = orders.filter(order => getAgingBucket(order.days_ready) === bucket.key)
+            const selected = selectedBucket === bucket.key
+            return (
+              <TouchableOpacity
+                key={bucket.key}
+                style={[styles.bucketRow, selected && styles.bucketRowSelected]}
+                onPress={() => setSelectedBucket(selected ? null : bucket.key)}
+              >
+                <Text style={[styles.bucketLabel, selected && styles.bucketLabelSelected]}>{bucket.label}</Text>
+                <Text style={styles.bucketCount}>{bucketOrders.length}</Text>
+                <Text style={styles.bucketAmount}>
+                  ₱{bucketOrders.reduce((sum, order) => sum + Number(order.balance), 0).toFixed(2)}
+                </Text>
+              </TouchableOpacity>
+            )
+          })}
+        </View>
+
+        {/* Reminders */}
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Ionicons name="chatbubble-ellipses-outline" size={24} color="#3b82f6" />
+            <View style={{ flex: 1 }}>
+              <Text style={styles.cardTitle}>Pickup Reminders</Text>
+              <Text style={styles.hint}>
+                Sent {policy.reminderDays.length > 0 ? `on days ${policy.reminderDays.join(', ')}` : 'never'} after an order is ready
+              </Text>
+            </View>
+          </View>
+          {remindersDue.length === 0 ? (
+            <Text style={styles.hint}>No reminders due</Text>
+          ) : (
+            <TouchableOpacity
+              style={[styles.primaryButton, sendingReminders && { opacity: 0.6 }]}
+              onPress={() => sendReminders(remindersDue)}
+              disabled={sendingReminders}
+            >
+              {sendingReminders ? (
+                <ActivityIndicator size="small" color="#ffffff" />
+              ) : (
+                <Text style={styles.primaryButtonText}>
+                  Send {remindersDue.length} Reminder{remindersDue.length !== 1 ? 's' : ''}
+                </Text>
+              )}
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {/* Orders */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>
+            {selectedBucket ? AGING_BUCKETS.find(b => b.key === selectedBucket)?.label : 'All Unclaimed'}
+          </Text>
+          {listedOrders.length === 0 && <Text style={styles.hint}>No orders</Text>}
+          {listedOrders.map(order => {
+            const reminderDay = order.customer_phone ? getDueReminderDay(order, policy.reminderDays) : null
+            const daysUntilFee = getDaysUntilStorageFee(order.days_ready, policy)
+            return (
+              <View key={order.order_id} style={styles.row}>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.rowTitle}>
+                    {order.order_number} • {order.customer_name || 'Walk-in Customer'}
+                  </Text>
+                  <Text style={styles.hint}>
+                    Ready {order.days_ready} day{order.days_ready !== 1 ? 's' : ''} • since {new Date(order.ready_at).toLocaleDateString()}
+                  </Text>
+                  {Number(order.storage_fee) > 0 ? (
+                    <Text style={styles.feeText}>Storage fee ₱{Number(order.storage_fee).toFixed(2)}</Text>
+                  ) : policy.storageFeePerDay > 0 && (
+                    <Text style={styles.hint}>Storage fee starts in {daysUntilFee} day{daysUntilFee !== 1 ? 's' : ''}</Text>
+                  )}
+                  <Text style={styles.hint}>
+                    {order.reminder_days && order.reminder_days.length > 0
+                      ? `Reminded on day ${order.reminder_days.join(', ')}`
+                      : 'No reminders sent'}
+                    {!order.customer_phone ? ' • No phone number' : ''}
+                  </Text>
+                </View>
+                <View style={{ alignItems: 'flex-end' }}>
+                  <Text style={styles.balanceAmount}>₱{Number(order.balance).toFixed(2)}</Text>
+                  {reminderDay !== null && (
+                    <TouchableOpacity
+                      style={styles.smallButton}
+                      onPress={() => sendReminders([{ order, reminderDay }])}
+                      disabled={sendingReminders}
+                    >
+                      <Text style={styles.smallButtonText}>Remind</Text>
+                    </TouchableOpacity>
+                  )}
+                  {canAbandonOrder(order.days_ready, policy) && (
+                    <TouchableOpacity
+                      style={[styles.smallButton, styles.abandonButton]}
+                      onPress={() => handleAbandon(order)}
+                      disabled={abandoning}
+                    >
+                      {abandoning && abandonTarget?.order_id === order.order_id ? (
+                        <ActivityIndicator size="small" color="#ffffff" />
+                      ) : (
+                        <Text style={styles.smallButtonText}>Abandon</Text>
+                      )}
+                    </TouchableOpacity>
+                  )}
+                </View>
+              </View>
+            )
+          })}
+        </View>
+
+        {/* Policy - managers only */}
+        {isManager && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Policy</Text>
+            <Text style={styles.label}>Reminder days after ready</Text>
+            <TextInput
+              style={styles.input}
+              value={reminderDaysInput}
+              onChangeText={setReminderDaysInput}
+              placeholder="e.g., 7, 14, 30"
+            />
+            <Text style={styles.label}>Storage fee grace period (days)</Text>
+            <TextInput
+              style={styles.input}
+              value={graceDaysInput}
+              onChangeText={setGraceDaysInput}
+              keyboardType="number-pad"
+            />
+            <Text style={styles.label}>Storage fee per day (₱, 0 for none)</Text>
+            <TextInput
+              style={styles.input}
+              value={feePerDayInput}
+              onChangeText={setFeePerDayInput}
+              keyboardType="decimal-pad"
+            />
+            <Text style={styles.label}>Can be marked abandoned after (days)</Text>
+            <TextInput
+              style={styles.input}
+              value={abandonAfterInput}
+              onChangeText={setAbandonAfterInput}
+              keyboardType="number-pad"
+            />
+            <TouchableOpacity
+              style={[styles.primaryButton, savingPolicy && { opacity: 0.6 }]}
+              onPress={savePolicy}
+              disabled={savingPolicy}
+            >
+              {savingPolicy ? (
+                <ActivityIndicator size="small" color="#ffffff" />
+              ) : (
+                <Text style={styles.primaryButtonText}>Save Policy</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        )}
+      </ScrollView>
+
+      {currentStore && (
+        <ManagerPinModal
+          visible={showAbandonApproval}
+          storeId={currentStore.id}
+          title="Abandon Approval"
+          message="Marking an order abandoned needs a manager's PIN."
+          onApproved={approval => abandonOrder(abandonTarget, approval)}
+          onCancel={() => {
+            setShowAbandonApproval(false)
+            setAbandonTarget(null)
+          }}
+        />
+      )}
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  centerContent: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#6b7280',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    backgroundColor: '#ffffff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  backButton: {
+    padding: 4,
+    marginRight: 12,
+  },
+  headerContent: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 12,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  bucketRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    paddingHorizontal: 8,
+    borderRadius: 8,
+  },
+  bucketRowSelected: {
+    backgroundColor: '#eff6ff',
+  },
+  bucketLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: '#374151',
+  },
+  bucketLabelSelected: {
+    color: '#3b82f6',
+    fontWeight: '600',
+  },
+  bucketCount: {
+    width: 40,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+    textAlign: 'right',
+  },
+  bucketAmount: {
+    width: 100,
+    fontSize: 14,
+    color: '#6b7280',
+    textAlign: 'right',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+  rowTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  feeText: {
+    fontSize: 12,
+    color: '#ef4444',
+    marginTop: 2,
+  },
+  balanceAmount: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  smallButton: {
+    marginTop: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+    backgroundColor: '#3b82f6',
+  },
+  abandonButton: {
+    backgroundColor: '#6b7280',
+  },
+  smallButtonText: {
+    color: '#ffffff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  primaryButton: {
+    marginTop: 8,
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: '#3b82f6',
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#ffffff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#111827',
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#111827',
+  },
+})
+
+export default UnclaimedOrdersScreen
@@ -0,0 +1,948 @@
+import React, { useState, useEffect } from 'react'
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+  Switch
+} from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
+import { supabase } from '../../lib/supabase'
+import { useStore } from '../context/StoreContext'
+import { getStoreSetting } from '../utils/featureFlags'
+import { DiscountType } from '../types/pricingRule'
+import { Voucher } from '../types/voucher'
+import { describeVoucherDiscount } from '../utils/discounts'
+
+/**
+ * Parse a YYYY-MM-DD date typed in the form; returns null for blank input
+ * and undefined when the date is invalid
+ */
+const parseDateInput = (value: string, endOfDay: boolean): string | null | undefined => {
+  const trimmed = value.trim()
+  if (!trimmed) return null
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) return undefined
+  const date = new Date(`${trimmed}T${endOfDay ? '23:59:59' : '00:00:00'}`)
+  return isNaN(date.getTime()) ? undefined : date.toISOString()
+}
+
+const formatDateInput = (value?: string | null): string => {
+  if (!value) return ''
+  const date = new Date(value)
+  const month = `${date.getMonth() + 1}`.padStart(2, '0')
+  const day = `${date.getDate()}`.padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+const VouchersScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
+  const { currentStore, refreshStores } = useStore()
+  const [vouchers, setVouchers] = useState<Voucher[]>([])
+  const [usage, setUsage] = useState<Record<string, number>>({})
+  const [loading, setLoading] = useState(true)
+  const [showModal, setShowModal] = useState(false)
+  const [editingVoucher, setEditingVoucher] = useState<Voucher | null>(null)
+  const [threshold, setThreshold] = useState('')
+  const [savingThreshold, setSavingThreshold] = useState(false)
+
+  // Form state
+  const [code, setCode] = useState('')
+  const [description, setDescription] = useState('')
+  const [discountType, setDiscountType] = useState<DiscountType>('percent')
+  const [discountValue, setDiscountValue] = useState('')
+  const [maxDiscount, setMaxDiscount] = useState('')
+  const [minSpend, setMinSpend] = useState('')
+  const [usageLimit, setUsageLimit] = useState('')
+  const [startsAt, setStartsAt] = useState('')
+  const [endsAt, setEndsAt] = useState('')
+  const [isActive, setIsActive] = useState(true)
+
+  useEffect(() => {
+    loadVouchers()
+    setThreshold(String(getStoreSetting(currentStore as any, 'discount_approval_threshold') ?? 10))
+  }, [currentStore])
+
+  const loadVouchers = async () => {
+    if (!currentStore) return
+
+    try {
+      setLoading(true)
+      const { data, error } = await supabase
+        .from('vouchers')
+        .select('*')
+        .or(`store_id.is.null,store_id.eq.${currentStore.id}`)
+        .order('created_at', { ascending: false })
+
+      if (error) throw error
+      setVouchers(data || [])
+
+      // Usage counts come from orders across stores, so they go through the RPC
+      const counts: Record<string, number> = {}
+      await Promise.all((data || []).map(async (voucher: Voucher) => {
+        const { data: count } = await supabase.rpc('get_voucher_usage', { p_voucher_id: voucher.id })
+        counts[voucher.id] = count || 0
+      }))
+      setUsage(counts)
+    } catch (error: any) {
+      console.error('Error loading vouchers:', error)
+      Alert.alert('Error', 'Failed to load vouchers')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const saveThreshold = async () => {
+    if (!currentStore) return
+
+    const value = parseFloat(threshold)
+    if (isNaN(value) || value < 0 || value > 100) {
+      Alert.alert('Validation Error', 'Please enter a percentage between 0 and 100')
+      return
+    }
+
+    try {
+      setSavingThreshold(true)
+      const { data: store, error: fetchError } = await supabase
+        .from('stores')
+        .select('settings')
+        .eq('id', currentStore.id)
+        .single()
+
+      if (fetchError) throw fetchError
+
+      const { error } = await supabase
+        .from('stores')
+        .update({ settings: { ...(store?.settings || {}), discount_approval_threshold: value } })
+        .eq('id', currentStore.id)
+
+      if (error) throw error
+      await refreshStores()
+      Alert.alert('Success', 'Approval threshold updated')
+    } catch (error: any) {
+      console.error('Error saving approval threshold:', error)
+      Alert.alert('Error', error.message || 'Failed to save approval threshold')
+    } finally {
+      setSavingThreshold(false)
+    }
+  }
+
+  const openModal = (voucher?: Voucher) => {
+    resetForm()
+    if (voucher) {
+      setEditingVoucher(voucher)
+      setCode(voucher.code)
+      setDescription(voucher.description || '')
+      setDiscountType(voucher.discount_type)
+      setDiscountValue(voucher.discount_value.toString())
+      setMaxDiscount(voucher.max_discount ? voucher.max_discount.toString() : '')
+      setMinSpend(voucher.min_spend ? voucher.min_spend.toString() : '')
+      setUsageLimit(voucher.usage_limit ? voucher.usage_limit.toString() : '')
+      setStartsAt(formatDateInput(voucher.starts_at))
+      setEndsAt(formatDateInput(voucher.ends_at))
+      setIsActive(voucher.is_active)
+    }
+    setShowModal(true)
+  }
+
+  const resetForm = () => {
+    setEditingVoucher(null)
+    setCode('')
+    setDescription('')
+    setDiscountType('percent')
+    setDiscountValue('')
+    setMaxDiscount('')
+    setMinSpend('')
+    setUsageLimit('')
+    setStartsAt('')
+    setEndsAt('')
+    setIsActive(true)
+  }
+
+  const handleSave = async () => {
+    const trimmedCode = code.trim().toUpperCase()
+    if (!/^[A-Z0-9-]{3,32}$/.test(trimmedCode)) {
+      Alert.alert('Validation Error', 'Codes must be 3 to 32 letters, numbers or dashes')
+      return
+    }
+
+    const value = parseFloat(discountValue)
+    if (isNaN(value) || value <= 0 || (discountType === 'percent' && value > 100)) {
+      Alert.alert('Validation Error', discountType === 'percent'
+        ? 'Please enter a percentage between 0 and 100'
+        : 'Please enter a valid discount amount')
+      return
+    }
+
+    const max = maxDiscount.trim() ? parseFloat(maxDiscount) : null
+    const min = minSpend.trim() ? parseFloat(minSpend) : 0
+    const limit = usageLimit.trim() ? parseInt(usageLimit) : null
+    if ((max !== null && (isNaN(max) || max <= 0)) || isNaN(min) || min < 0 || (limit !== null && (isNaN(limit) || limit <= 0))) {
+      Alert.alert('Validation Error', 'Please check the cap, minimum spend and usage limit')
+      return
+    }
+
+    const starts = parseDateInput(startsAt, false)
+    const ends = parseDateInput(endsAt, true)
+    if (starts === undefined || ends === undefined) {
+      Alert.alert('Validation Error', 'Please enter dates as YYYY-MM-DD')
+      return
+    }
+    if (starts && ends && new Date(ends) <= new Date(starts)) {
+      Alert.alert('Validation Error', 'The end date must be after the start date')
+      return
+    }
+
+    if (!currentStore) {
+      Alert.alert('Error', 'No store selected')
+      return
+    }
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) throw new Error('User not authenticated')
+
+      const voucherData = {
+        store_id: currentStore.id,
+        code: trimmedCode,
+        description: description.trim() || null,
+        discount_type: discountType,
+        discount_value: value,
+        max_discount: discountType === 'percent' ? max : null,
+        min_spend: min,
+        usage_limit: limit,
+        starts_at: starts,
+        ends_at: ends,
+        is_active: isActive,
+      }
+
+      if (editingVoucher) {
+        const { error } = await supabase
+          .from('vouchers')
+          .update(voucherData)
+          .eq('id', editingVoucher.id)
+
+        if (error) throw error
+        Alert.alert('Success', 'Voucher updated successfully')
+      } else {
+        const { error } = await supabase
+          .from('vouchers')
+          .insert({ ...voucherData, created_by: user.id })
+
+        if (error) throw error
+        Alert.alert('Success', 'Voucher created successfully')
+      }
+
+      setShowModal(false)
+      resetForm()
+      loadVouchers()
+    } catch (error: any) {
+      console.error('Error saving voucher:', error)
+      Alert.alert('Error', error.code === '23505'
+        ? 'A voucher with this code already exists'
+        : error.message || 'Failed to save voucher')
+    }
+  }
+
+  const handleDelete = (voucher: Voucher) => {
+    Alert.alert(
+      'Delete Voucher',
+      `Are you sure you want to delete "${voucher.code}"? Past orders keep their discounts.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              const { error } = await supabase
+                .from('vouchers')
+                .delete()
+                .eq('id', voucher.id)
+
+              if (error) throw error
+              loadVouchers()
+            } catch (error: any) {
+              console.error('Error deleting voucher:', error)
+              Alert.alert('Error', 'Failed to delete voucher')
+            }
+          },
+        },
+      ]
+    )
+  }
+
+  const toggleVoucherStatus = async (voucher: Voucher) => {
+    try {
+      const { error } = await supabase
+        .from('vouchers')
+        .update({ is_active: !voucher.is_active })
+        .eq('id', voucher.id)
+
+      if (error) throw error
+      loadVouchers()
+    } catch (error: any) {
+      console.error('Error updating voucher status:', error)
+      Alert.alert('Error', 'Failed to update voucher status')
+    }
+  }
+
+  const getVoucherStatus = (voucher: Voucher): { label: string; active: boolean } => {
+    const now = new Date()
+    if (!voucher.is_active) return { label: 'Inactive', active: false }
+    if (voucher.ends_at && new Date(voucher.ends_at) <= now) return { label: 'Expired', active: false }
+    if (voucher.usage_limit && (usage[voucher.id] || 0) >= voucher.usage_limit) return { label: 'Used Up', active: false }
+    if (voucher.starts_at && new Date(voucher.starts_at) > now) return { label: 'Scheduled', active: false }
+    return { label: 'Active', active: true }
+  }
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.centerContent]}>
+        <ActivityIndicator size="large" color="#3b82f6" />
+        <Text style={styles.loadingText}>Loading vouchers...</Text>
+      </View>
+    )
+  }
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color="#111827" />
+        </TouchableOpacity>
+        <View style={styles.headerContent}>
+          <Text style={styles.title}>Vouchers & Discounts</Text>
+          <Text style={styles.subtitle}>{currentStore?.name}</Text>
+        </View>
+        <TouchableOpacity onPress={() => openModal()} style={styles.addButton}>
+          <Ionicons name="add" size={24} color="#ffffff" />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.content}>
+        {/* Approval Threshold */}
+        <View style={styles.thresholdCard}>
+          <Text style={styles.thresholdTitle}>Manager Approval</Text>
+          <Text style={styles.thresholdHint}>
+            Manual discounts and vouchers above this percentage of the order subtotal need a manager's PIN at checkout
+          </Text>
+          <View style={styles.thresholdRow}>
+            <TextInput
+              style={[styles.input, styles.thresholdInput]}
+              value={threshold}
+              onChangeText={setThreshold}
+              placeholder="10"
+              keyboardType="decimal-pad"
+            />
+            <Text style={styles.thresholdUnit}>%</Text>
+            <TouchableOpacity
+              style={styles.thresholdButton}
+              onPress={saveThreshold}
+              disabled={savingThreshold}
+            >
+              {savingThreshold ? (
+                <ActivityIndicator size="small" color="#ffffff" />
+              ) : (
+                <Text style={styles.thresholdButtonText}>Save</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {/* Vouchers List */}
+        {vouchers.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Ionicons name="ticket-outline" size={64} color="#d1d5db" />
+            <Text style={styles.emptyTitle}>No Vouchers Yet</Text>
+            <Text style={styles.emptySubtitle}>Create codes customers can redeem at checkout</Text>
+            <TouchableOpacity style={styles.emptyButton} onPress={() => openModal()}>
+              <Text style={styles.emptyButtonText}>Add Voucher</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          vouchers.map((voucher) => {
+            const status = getVoucherStatus(voucher)
+            const isGlobal = !voucher.store_id
+            return (
+              <View key={voucher.id} style={styles.voucherCard}>
+                <View style={styles.voucherHeader}>
+                  <View style={styles.voucherInfo}>
+                    <Text style={[styles.voucherCode, { opacity: voucher.is_active ? 1 : 0.5 }]}>{voucher.code}</Text>
+                    <Text style={styles.voucherDescription}>
+                      {describeVoucherDiscount(voucher)}
+                      {voucher.min_spend > 0 ? ` • Min. spend ₱${voucher.min_spend.toFixed(2)}` : ''}
+                    </Text>
+                    {voucher.description ? (
+                      <Text style={styles.voucherNote}>{voucher.description}</Text>
+                    ) : null}
+                    <View style={styles.voucherTags}>
+                      {isGlobal && (
+                        <View style={styles.globalBadge}>
+                          <Text style={styles.globalBadgeText}>All Stores</Text>
+                        </View>
+                      )}
+                      <Text style={styles.voucherTag}>
+                        Used {usage[voucher.id] || 0}{voucher.usage_limit ? ` / ${voucher.usage_limit}` : ''}
+                      </Text>
+                      {voucher.ends_at && (
+                        <Text style={styles.voucherTag}>Until {formatDateInput(voucher.ends_at)}</Text>
+                      )}
+                    </View>
+                  </View>
+                  <View style={[styles.statusBadge, status.active ? styles.activeBadge : styles.inactiveBadge]}>
+                    <Text style={[styles.statusText, status.active ? styles.activeText : styles.inactiveText]}>
+                      {status.label}
+                    </Text>
+                  </View>
+                </View>
+
+                {/* Action Buttons - vouchers for all stores are managed by the business owner */}
+                {!isGlobal && (
+                  <View style={styles.voucherActions}>
+                    <TouchableOpacity style={styles.actionButton} onPress={() => toggleVoucherStatus(voucher)}>
+                      <Ionicons name={voucher.is_active ? 'eye-off' : 'eye'} size={18} color="#6b7280" />
+                      <Text style={styles.actionButtonText}>{voucher.is_active ? 'Deactivate' : 'Activate'}</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.actionButton} onPress={() => openModal(voucher)}>
+                      <Ionicons name="create" size={18} color="#3b82f6" />
+                      <Text style={[styles.actionButtonText, { color: '#3b82f6' }]}>Edit</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.actionButton} onPress={() => handleDelete(voucher)}>
+                      <Ionicons name="trash" size={18} color="#ef4444" />
+                      <Text style={[styles.actionButtonText, { color: '#ef4444' }]}>Delete</Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+              </View>
+            )
+          })
+        )}
+      </ScrollView>
+
+      {/* Voucher Modal */}
+      <Modal
+        visible={showModal}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setShowModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>
+                {editingVoucher ? 'Edit Voucher' : 'Add Voucher'}
+              </Text>
+              <TouchableOpacity onPress={() => setShowModal(false)}>
+                <Ionicons name="close" size={24} color="#6b7280" />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.modalBody}>
+              {/* Code */}
+              <View style={styles.formGroup}>
+                <Text style={styles.label}>Voucher Code *</Text>
+                <Text style={styles.hint}>Customers give this code at checkout; not case-sensitive</Text>
+                <TextInput
+                  style={styles.input}
+                  value={code}
+                  onChangeText={(text) => setCode(text.toUpperCase())}
+                  placeholder="e.g., WELCOME20"
+                  autoCapitalize="characters"
+                  autoCorrect={false}
+                />
+              </View>
+
+              {/* Description */}
+              <View style={styles.formGroup}>
+                <Text style={styles.label}>Description</Text>
+                <TextInput
+                  style={styles.input}
+                  value={description}
+                  onChangeText={setDescription}
+                  placeholder="e.g., New customer promo"
+                />
+              </View>
+
+              {/* Discount */}
+              <View style={styles.formGroup}>
+                <Text style={styles.label}>Discount *</Text>
+                <View style={[styles.chipWrap, { marginBottom: 8 }]}>
+                  <TouchableOpacity
+                    style={[styles.chip, styles.chipWrapped, discountType === 'percent' && styles.chipSelected]}
+                    onPress={() => setDiscountType('percent')}
+                  >
+                    <Text style={[styles.chipText, discountType === 'percent' && styles.chipTextSelected]}>Percent (%)</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.chip, styles.chipWrapped, discountType === 'fixed' && styles.chipSelected]}
+                    onPress={() => setDiscountType('fixed')}
+                  >
+                    <Text style={[styles.chipText, discountType === 'fixed' && styles.chipTextSelected]}>Fixed (₱)</Text>
+                  </TouchableOpacity>
+                </View>
+                <TextInput
+                  style={styles.input}
+                  value={discountValue}
+                  onChangeText={setDiscountValue}
+                  placeholder={discountType === 'percent' ? 'e.g., 20' : 'e.g., 50.00'}
+                  keyboardType="decimal-pad"
+                />
+              </View>
+
+              {/* Max Discount */}
+              {discountType === 'percent' && (
+                <View style={styles.formGroup}>
+                  <Text style={styles.label}>Maximum Discount (₱)</Text>
+                  <Text style={styles.hint}>Leave empty for no cap</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={maxDiscount}
+                    onChangeText={setMaxDiscount}
+                    placeholder="e.g., 100.00"
+                    keyboardType="decimal-pad"
+                  />
+                </View>
+              )}
+
+              {/* Minimum Spend */}
+              <View style={styles.formGroup}>
+                <Text style={styles.label}>Minimum Spend (₱)</Text>
+                <TextInput
+                  style={styles.input}
+                  value={minSpend}
+                  onChangeText={setMinSpend}
+                  placeholder="0.00"
+                  keyboardType="decimal-pad"
+                />
+              </View>
+
+              {/* Usage Limit */}
+              <View style={styles.formGroup}>
+                <Text style={styles.label}>Usage Limit</Text>
+                <Text style={styles.hint}>Total number of orders that can use this code; leave empty for unlimited</Text>
+                <TextInput
+                  style={styles.input}
+                  value={usageLimit}
+                  onChangeText={setUsageLimit}
+                  placeholder="e.g., 100"
+                  keyboardType="numeric"
+                />
+              </View>
+
+              {/* Validity */}
+              <View style={styles.formGroup}>
+                <Text style={styles.label}>Valid Dates</Text>
+                <Text style={styles.hint}>YYYY-MM-DD; leave empty for no limit</Text>
+                <View style={styles.dateRow}>
+                  <TextInput
+                    style={[styles.input, styles.dateInput]}
+                    value={startsAt}
+                    onChangeText={setStartsAt}
+                    placeholder="Start"
+                    keyboardType="numbers-and-punctuation"
+                  />
+                  <Text style={styles.dateSeparator}>to</Text>
+                  <TextInput
+                    style={[styles.input, styles.dateInput]}
+                    value={endsAt}
+                    onChangeText={setEndsAt}
+                    placeholder="End"
+                    keyboardType="numbers-and-punctuation"
+                  />
+                </View>
+              </View>
+
+              {/* Status Toggle */}
+              <View style={styles.formGroup}>
+                <View style={styles.switchRow}>
+                  <Text style={styles.label}>Voucher Active</Text>
+                  <Switch
+                    value={isActive}
+                    onValueChange={setIsActive}
+                    trackColor={{ false: '#d1d5db', true: '#3b82f6' }}
+                    thumbColor={isActive ? '#ffffff' : '#f4f3f4'}
+                  />
+                </View>
+              </View>
+            </ScrollView>
+
+            {/* Modal Actions */}
+            <View style={styles.modalActions}>
+              <TouchableOpacity
+                style={styles.cancelButton}
+                onPress={() => setShowModal(false)}
+              >
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.saveButton}
+                onPress={handleSave}
+              >
+                <Text style={styles.saveButtonText}>Save Voucher</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  centerContent: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#6b7280',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    backgroundColor: '#ffffff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  backButton: {
+    padding: 4,
+    marginRight: 12,
+  },
+  headerContent: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  addButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#3b82f6',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  thresholdCard: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderLeftWidth: 4,
+    borderLeftColor: '#f59e0b',
+  },
+  thresholdTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 4,
+  },
+  thresholdHint: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginBottom: 12,
+  },
+  thresholdRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  thresholdInput: {
+    flex: 1,
+  },
+  thresholdUnit: {
+    fontSize: 16,
+    color: '#6b7280',
+    marginHorizontal: 8,
+  },
+  thresholdButton: {
+    backgroundColor: '#3b82f6',
+    borderRadius: 8,
+    paddingHorizontal: 20,
+    paddingVertical: 11,
+    minWidth: 72,
+    alignItems: 'center',
+  },
+  thresholdButtonText: {
+    fontSize: 14,
+    color: '#ffffff',
+    fontWeight: '600',
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 64,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#111827',
+    marginTop: 16,
+  },
+  emptySubtitle: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  emptyButton: {
+    marginTop: 24,
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    backgroundColor: '#3b82f6',
+    borderRadius: 8,
+  },
+  emptyButtonText: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#ffffff',
+  },
+  voucherCard: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  voucherHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  voucherInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  voucherCode: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#111827',
+    letterSpacing: 1,
+    marginBottom: 4,
+  },
+  voucherDescription: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginBottom: 4,
+  },
+  voucherNote: {
+    fontSize: 13,
+    color: '#9ca3af',
+    marginBottom: 4,
+  },
+  voucherTags: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 8,
+  },
+  voucherTag: {
+    fontSize: 12,
+    color: '#9ca3af',
+  },
+  globalBadge: {
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    backgroundColor: '#f3e8ff',
+    borderRadius: 4,
+  },
+  globalBadgeText: {
+    fontSize: 10,
+    color: '#8b5cf6',
+    fontWeight: '600',
+  },
+  statusBadge: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 6,
+  },
+  activeBadge: {
+    backgroundColor: '#d1fae5',
+  },
+  inactiveBadge: {
+    backgroundColor: '#fee2e2',
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  activeText: {
+    color: '#10b981',
+  },
+  inactiveText: {
+    color: '#ef4444',
+  },
+  voucherActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    borderTopWidth: 1,
+    borderTopColor: '#f3f4f6',
+    paddingTop: 12,
+    marginTop: 12,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  actionButtonText: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginLeft: 6,
+  },
+  // Modal styles
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#ffffff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  modalBody: {
+    padding: 20,
+  },
+  formGroup: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#111827',
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginBottom: 4,
+    fontStyle: 'italic',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#111827',
+  },
+  chipWrap: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    marginRight: 8,
+  },
+  chipWrapped: {
+    marginBottom: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#eff6ff',
+    borderColor: '#3b82f6',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  chipTextSelected: {
+    color: '#3b82f6',
+    fontWeight: '500',
+  },
+  dateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  dateInput: {
+    flex: 1,
+  },
+  dateSeparator: {
+    marginHorizontal: 12,
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  modalActions: {
+    flexDirection: 'row',
+    padding: 20,
+    gap: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+  },
+  cancelButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    color: '#6b7280',
+    fontWeight: '500',
+  },
+  saveButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: '#10b981',
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    fontSize: 16,
+    color: '#ffffff',
+    fontWeight: '600',
+  },
+})
+
+export default VouchersScreen
@@ -0,0 +1,138 @@
+import { supabase } from '../../lib/supabase'
+import { CashDrawerEntry, CashDrawerEntryType, CashDrawerShift, ShiftSummary } from '../types/shift'
+
+/**
+ * Cash Drawer Service - Handles cashier shifts against the database
+ *
+ * Shifts are opened, adjusted and closed through database functions so that
+ * only the cashier who opened a shift (or a store manager) can change it, and
+ * the expected totals at close are computed from the payments tied to the shift.
+ */
+class CashDrawerService {
+  /**
+   * The current user's open shift in a store
+   *
+   * @returns The open shift, or null when the user has none
+   */
+  async getOpenShift(storeId: string, userId: string): Promise<CashDrawerShift | null> {
+    const { data, error } = await supabase
+      .from('cash_drawer_shifts')
+      .select('*')
+      .eq('store_id', storeId)
+      .eq('opened_by', userId)
+      .eq('status', 'open')
+      .maybeSingle()
+
+    if (error) throw error
+    return data as CashDrawerShift | null
+  }
+
+  /**
+   * Recent shifts of a store, newest first, for managers to audit
+   */
+  async getRecentShifts(storeId: string, limit: number = 20): Promise<CashDrawerShift[]> {
+    const { data, error } = await supabase
+      .from('cash_drawer_shifts')
+      .select('*')
+      .eq('store_id', storeId)
+      .order('opened_at', { ascending: false })
+      .limit(limit)
+
+    if (error) throw error
+    return (data || []) as CashDrawerShift[]
+  }
+
+  /**
+   * Opens a shift for the current user
+   *
+   * @throws Error if the user already has an open shift in the store
+   */
+  async openShift(storeId: string, openingFloat: number): Promise<CashDrawerShift> {
+    const { data, error } = await supabase.rpc('open_cash_drawer_shift', {
+      p_store_id: storeId,
+      p_opening_float: openingFloat,
+    })
+
+    if (error) {
+      console.error('❌ open_cash_drawer_shift failed:', error)
+      throw new Error(error.message || 'Failed to open shift')
+    }
+
+    console.log('✅ Shift opened with float:', openingFloat)
+    return data as CashDrawerShift
+  }
+
+  /**
+   * Records cash put into or taken out of the drawer
+   */
+  async addEntry(shiftId: string, entryType: CashDrawerEntryType, amount: number, reason: string): Promise<CashDrawerEntry> {
+    const { data, error } = await supabase.rpc('add_cash_drawer_entry', {
+      p_shift_id: shiftId,
+      p_entry_type: entryType,
+      p_amount: amount,
+      p_reason: reason,
+    })
+
+    if (error) {
+      console.error('❌ add_cash_drawer_entry failed:', error)
+      throw new Error(error.message || 'Failed to record cash entry')
+    }
+
+    return data as CashDrawerEntry
+  }
+
+  /**
+   * Paid-in and paid-out entries of a shift, oldest first
+   */
+  async getEntries(shiftId: string): Promise<CashDrawerEntry[]> {
+    const { data, error } = await supabase
+      .from('cash_drawer_entries')
+      .select('*')
+      .eq('shift_id', shiftId)
+      .order('created_at', { ascending: true })
+
+    if (error) throw error
+    return (data || []) as CashDrawerEntry[]
+  }
+
+  /**
+   * Payments per method, paid-in/out and expected cash of a shift so far
+   */
+  async getSummary(shiftId: string): Promise<ShiftSummary> {
+    const { data, error } = await supabase.rpc('get_cash_drawer_shift_summary', {
+      p_shift_id: shiftId,
+    })
+
+    if (error) {
+      console.error('❌ get_cash_drawer_shift_summary failed:', error)
+      throw new Error(error.message || 'Failed to load shift totals')
+    }
+
+    return data as ShiftSummary
+  }
+
+  /**
+   * Closes a shift with the amounts counted per payment method
+   *
+   * @param counts - Counted amount per payment method name; cash is required
+   * @returns The closed shift with expected, counted and variance per method
+   */
+  async closeShift(shiftId: string, counts: Record<string, number>, notes: string | null): Promise<CashDrawerShift> {
+    const { data, error } = await supabase.rpc('close_cash_drawer_shift', {
+      p_shift_id: shiftId,
+      p_counts: counts,
+      p_notes: notes,
+    })
+
+    if (error) {
+      console.error('❌ close_cash_drawer_shift failed:', error)
+      throw new Error(error.message || 'Failed to close shift')
+    }
+
+    console.log('✅ Shift closed:', shiftId)
+    return data as CashDrawerShift
+  }
+}
+
+// Export singleton instance
+export default new CashDrawerService()
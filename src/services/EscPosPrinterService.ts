@@ -0,0 +1,264 @@
+import { NativeModules, PermissionsAndroid, Platform } from 'react-native'
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { BLEPrinter, NetPrinter } from '@diiix7/react-native-pos-print'
+import { ExternalPrinterConfig, PairedPrinter } from '../types/escpos'
+import { ReceiptDocument } from '../types/receipt'
+import { EscPosEncoder, PAPER_WIDTHS, encodeReceiptDocument, toBase64 } from '../utils/escpos'
+
+const PRINTER_CONFIG_KEY_PREFIX = '@printer_config_'
+
+// Raw writes are fire-and-forget on the native side; errors are reported within this time
+const WRITE_ERROR_WINDOW_MS = 500
+
+type RawPrinterModule = {
+  printRawData: (base64Data: string, errorCallback: (error: string) => void) => void
+}
+
+/**
+ * EscPosPrinterService - External ESC/POS receipt printers
+ *
+ * Sends ESC/POS bytes to a printer over Bluetooth (serial port profile) or the network
+ * (raw TCP, usually port 9100). The printer chosen for a store is saved on this device,
+ * since Bluetooth printers are paired per phone.
+ */
+class EscPosPrinterService {
+  private static instance: EscPosPrinterService
+  private config: ExternalPrinterConfig | null = null
+  private isConnected: boolean = false
+
+  static getInstance(): EscPosPrinterService {
+    if (!EscPosPrinterService.instance) {
+      EscPosPrinterService.instance = new EscPosPrinterService()
+    }
+    return EscPosPrinterService.instance
+  }
+
+  /**
+   * Printer saved for a store on this device, if any
+   */
+  async loadConfig(storeId: string): Promise<ExternalPrinterConfig | null> {
+    try {
+      const json = await AsyncStorage.getItem(PRINTER_CONFIG_KEY_PREFIX + storeId)
+      return json ? JSON.parse(json) : null
+    } catch (error) {
+      console.error('❌ Failed to load printer config:', error)
+      return null
+    }
+  }
+
+  /**
+   * Save the printer for a store on this device; null forgets it
+   */
+  async saveConfig(storeId: string, config: ExternalPrinterConfig | null): Promise<void> {
+    if (config) {
+      await AsyncStorage.setItem(PRINTER_CONFIG_KEY_PREFIX + storeId, JSON.stringify(config))
+    } else {
+      await AsyncStorage.removeItem(PRINTER_CONFIG_KEY_PREFIX + storeId)
+    }
+    console.log(`✅ Printer config ${config ? 'saved' : 'cleared'} for store ${storeId}`)
+  }
+
+  /**
+   * Use a printer from now on, closing the connection to the previous one
+   */
+  async setConfig(config: ExternalPrinterConfig | null): Promise<void> {
+    if (JSON.stringify(config) === JSON.stringify(this.config)) return
+
+    await this.disconnect()
+    this.config = config
+  }
+
+  getConfig(): ExternalPrinterConfig | null {
+    return this.config
+  }
+
+  getIsConnected(): boolean {
+    return this.isConnected
+  }
+
+  /**
+   * Characters per line of the configured paper
+   */
+  getLineWidth(): number | null {
+    return this.config ? PAPER_WIDTHS[this.config.paperWidth].lineWidth : null
+  }
+
+  /**
+   * Printers paired with this device in the system Bluetooth settings
+   */
+  async getPairedPrinters(): Promise<PairedPrinter[]> {
+    if (Platform.OS !== 'android') {
+      return []
+    }
+
+    if (!(await this.requestBluetoothPermission())) {
+      throw new Error('Bluetooth permission denied')
+    }
+
+    await BLEPrinter.init()
+    try {
+      const devices = await BLEPrinter.getDeviceList()
+      return devices.map(device => ({ name: device.deviceName, address: device.innerMacAddress }))
+    } catch (error) {
+      // The native module reports an empty list as an error
+      if (String(error).includes('No Device Found')) return []
+      throw error
+    }
+  }
+
+  /**
+   * Connect to the configured printer
+   */
+  async connect(): Promise<boolean> {
+    if (!this.config) {
+      console.log('⚠️ ESC/POS: No printer configured')
+      return false
+    }
+
+    const { connection } = this.config
+    try {
+      if (connection.type === 'bluetooth') {
+        if (!(await this.requestBluetoothPermission())) {
+          console.log('❌ ESC/POS: Bluetooth permission denied')
+          return false
+        }
+        console.log(`🔌 ESC/POS: Connecting to ${connection.name} (${connection.address})...`)
+        await BLEPrinter.init()
+        await BLEPrinter.connectPrinter(connection.address)
+      } else {
+        console.log(`🔌 ESC/POS: Connecting to ${connection.host}:${connection.port}...`)
+        await NetPrinter.init()
+        await NetPrinter.connectPrinter(connection.host, connection.port)
+      }
+
+      this.isConnected = true
+      console.log('✅ ESC/POS printer connected')
+      return true
+    } catch (error) {
+      console.error('❌ ESC/POS: Connection failed:', error)
+      this.isConnected = false
+      return false
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    if (!this.config || !this.isConnected) return
+
+    try {
+      if (this.config.connection.type === 'bluetooth') {
+        await BLEPrinter.closeConn()
+      } else {
+        await NetPrinter.closeConn()
+      }
+    } catch (error) {
+      console.log('⚠️ ESC/POS: Failed to close connection:', error)
+    }
+    this.isConnected = false
+  }
+
+  async printDocument(document: ReceiptDocument): Promise<boolean> {
+    if (!this.config) return false
+
+    console.log('🖨️ Printing document via ESC/POS printer...')
+    return await this.write(
+      encodeReceiptDocument(document, { codePage: this.config.codePage, hasCutter: this.config.hasCutter })
+    )
+  }
+
+  async printReport(reportLines: string[]): Promise<boolean> {
+    if (!this.config) return false
+
+    const encoder = new EscPosEncoder({ codePage: this.config.codePage }).initialize()
+    reportLines.forEach(line => encoder.line(line))
+    encoder.feed(3)
+    if (this.config.hasCutter) encoder.cut()
+
+    console.log('🖨️ Printing report via ESC/POS printer...')
+    return await this.write(encoder.encode())
+  }
+
+  async testPrint(): Promise<boolean> {
+    if (!this.config) return false
+
+    const { connection, paperWidth } = this.config
+    const encoder = new EscPosEncoder({ codePage: this.config.codePage })
+      .initialize()
+      .align('center')
+      .bold(true)
+      .size('large')
+      .line('PRINTER TEST')
+      .size('normal')
+      .bold(false)
+      .line('ESC/POS Printer OK')
+      .line(connection.type === 'bluetooth' ? `Bluetooth: ${connection.name}` : `Network: ${connection.host}:${connection.port}`)
+      .line(`Paper: ${paperWidth}mm, ${PAPER_WIDTHS[paperWidth].lineWidth} characters`)
+      .line('-'.repeat(PAPER_WIDTHS[paperWidth].lineWidth))
+      .qr('LaundroPOS printer test', { size: 6 })
+      .line()
+      .align('left')
+      .feed(3)
+    if (this.config.hasCutter) encoder.cut()
+
+    return await this.write(encoder.encode())
+  }
+
+  /**
+   * Pulse the cash drawer connected to the printer
+   */
+  async openCashDrawer(): Promise<boolean> {
+    if (!this.config) return false
+
+    console.log('💰 Opening cash drawer via ESC/POS printer...')
+    return await this.write(new EscPosEncoder().initialize().openCashDrawer().encode())
+  }
+
+  private async write(bytes: Uint8Array): Promise<boolean> {
+    if (!this.config) return false
+
+    if (!this.isConnected && !(await this.connect())) {
+      return false
+    }
+
+    const module = this.getRawModule()
+    if (!module) {
+      console.error('❌ ESC/POS: Printer module not found in NativeModules')
+      return false
+    }
+
+    const success = await new Promise<boolean>(resolve => {
+      const timer = setTimeout(() => resolve(true), WRITE_ERROR_WINDOW_MS)
+      module.printRawData(toBase64(bytes), error => {
+        clearTimeout(timer)
+        console.error('❌ ESC/POS: Write failed:', error)
+        resolve(false)
+      })
+    })
+
+    if (success) {
+      console.log(`✅ ESC/POS: Sent ${bytes.length} bytes`)
+    } else {
+      // The connection is gone; reconnect on the next print
+      this.isConnected = false
+    }
+    return success
+  }
+
+  private getRawModule(): RawPrinterModule | null {
+    const modules = NativeModules as { RNBLEPrinter?: RawPrinterModule; RNNetPrinter?: RawPrinterModule }
+    return (this.config?.connection.type === 'bluetooth' ? modules.RNBLEPrinter : modules.RNNetPrinter) || null
+  }
+
+  /**
+   * Android 12 and later ask for permission to connect to paired devices
+   */
+  private async requestBluetoothPermission(): Promise<boolean> {
+    if (Platform.OS !== 'android' || Platform.Version < 31) {
+      return true
+    }
+
+    const result = await PermissionsAndroid.request(PermissionsAndroid.PERMISSIONS.BLUETOOTH_CONNECT)
+    return result === PermissionsAndroid.RESULTS.GRANTED
+  }
+}
+
+export default EscPosPrinterService
@@ -0,0 +1,501 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { supabase } from '../../lib/supabase'
+import OrderService from './OrderService'
+import { CreateOrderInput } from '../types/order'
+import { ManagerApproval } from '../types/voucher'
+import {
+  OutboxCounts,
+  OutboxEntry,
+  OutboxEntryType,
+  QueuedOrderPayload,
+  QueuedPaymentPayload,
+  QueuedStatusPayload,
+} from '../types/offlineQueue'
+import { generateUUID, isNetworkError } from '../utils/network'
+import { getDeviceTag } from '../utils/device'
+
+const OUTBOX_KEY = '@offline_outbox'
+const ORDER_REFS_KEY = '@offline_outbox_order_refs'
+const ORDER_SEQUENCE_KEY_PREFIX = '@offline_order_seq_'
+
+// Stock errors raised by create_order_with_items
+const CONFLICT_ERROR_CODES = ['P0001', 'P0002']
+
+// Status changes refused by set_order_status
+const INVALID_TRANSITION_CODE = '22023'
+
+// Discount approvals refused by create_order_with_items. Approvals expire 15 minutes after
+// the PIN is entered, so one taken at an offline checkout may be gone by the time it syncs.
+const APPROVAL_ERROR_CODE = '42501'
+const APPROVAL_ERROR_PREFIX = 'Manager approval'
+
+type ReplayOutcome = 'done' | 'blocked'
+
+interface SyncResult {
+  synced: number
+  failed: number
+  offline: boolean
+}
+
+class OutboxConflictError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'OutboxConflictError'
+  }
+}
+
+class OutboxApprovalError extends OutboxConflictError {
+  constructor(message: string) {
+    super(message)
+    this.name = 'OutboxApprovalError'
+  }
+}
+
+/**
+ * Offline Queue Service - Persistent outbox for writes made while offline
+ *
+ * Orders, payments and status changes that cannot reach the server are stored
+ * in AsyncStorage and replayed in the order they were recorded once the
+ * network is back. Every entry carries a client-generated reference so a
+ * replay after a lost response never writes the same record twice.
+ */
+class OfflineQueueService {
+  private listeners = new Set<() => void>()
+  private writeChain: Promise<unknown> = Promise.resolve()
+  private syncing = false
+
+  /**
+   * Subscribe to queue changes
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Get queued entries, optionally limited to a store
+   */
+  async getEntries(storeId?: string): Promise<OutboxEntry[]> {
+    const entries = await this.load()
+    return storeId ? entries.filter(entry => entry.storeId === storeId) : entries
+  }
+
+  /**
+   * Count queued entries by status
+   */
+  async getCounts(storeId?: string): Promise<OutboxCounts> {
+    const entries = await this.getEntries(storeId)
+    return {
+      pending: entries.filter(entry => entry.status === 'pending').length,
+      failed: entries.filter(entry => entry.status === 'failed').length,
+      conflict: entries.filter(entry => entry.status === 'conflict').length,
+    }
+  }
+
+  isSyncing(): boolean {
+    return this.syncing
+  }
+
+  /**
+   * Queue an order that could not be created online
+   *
+   * @param input - The same input that would be passed to OrderService.createOrderWithItems
+   * @returns The client reference and provisional order number to print on the claim stub
+   */
+  async queueOrder(
+    input: CreateOrderInput,
+    details: { customerName: string; totalAmount: number }
+  ): Promise<{ clientReference: string; provisionalOrderNumber: string; createdAt: string }> {
+    const clientReference = input.clientReference || generateUUID()
+    const provisionalOrderNumber = input.provisionalOrderNumber || await this.nextProvisionalOrderNumber(input.storeId)
+
+    const payload: QueuedOrderPayload = {
+      input: {
+        ...input,
+        clientReference,
+        provisionalOrderNumber,
+        payment: input.payment
+          ? { ...input.payment, client_reference: input.payment.client_reference || generateUUID() }
+          : null,
+        payments: input.payments
+          ? input.payments.map(tender => ({ ...tender, client_reference: tender.client_reference || generateUUID() }))
+          : null,
+      },
+      customerName: details.customerName,
+      totalAmount: details.totalAmount,
+    }
+
+    const entry = await this.enqueue(input.storeId, 'create_order', payload)
+    console.log(`📥 Order queued offline as ${provisionalOrderNumber}`)
+    return { clientReference, provisionalOrderNumber, createdAt: entry.createdAt }
+  }
+
+  /**
+   * Queue a follow-up payment that could not be recorded online
+   *
+   * Pass the client reference already sent to the server, if any, so a payment
+   * whose response was lost is not recorded twice.
+   */
+  async queuePayment(
+    storeId: string,
+    payment: Omit<QueuedPaymentPayload, 'client_reference'> & { client_reference?: string }
+  ): Promise<void> {
+    await this.enqueue(storeId, 'add_payment', {
+      ...payment,
+      client_reference: payment.client_reference || generateUUID(),
+    })
+    console.log(`📥 Payment of ₱${payment.amount.toFixed(2)} queued offline for ${payment.orderNumber}`)
+  }
+
+  /**
+   * Queue an order status change that could not be saved online
+   */
+  async queueStatusChange(storeId: string, change: QueuedStatusPayload): Promise<void> {
+    await this.enqueue(storeId, 'update_status', change)
+    console.log(`📥 Status change ${change.fromStatus} → ${change.toStatus} queued offline for ${change.orderNumber}`)
+  }
+
+  /**
+   * Replay pending entries against the server, oldest first
+   *
+   * Stops at the first connectivity failure so entries stay in order.
+   */
+  async sync(): Promise<SyncResult> {
+    const result: SyncResult = { synced: 0, failed: 0, offline: false }
+    if (this.syncing) {
+      return result
+    }
+
+    this.syncing = true
+    this.notify()
+
+    try {
+      const entries = await this.load()
+      const pendingEntries = entries.filter(entry => entry.status === 'pending')
+      if (pendingEntries.length === 0) {
+        return result
+      }
+
+      console.log(`🔄 Syncing ${pendingEntries.length} offline entries...`)
+
+      for (const entry of pendingEntries) {
+        try {
+          const outcome = await this.replay(entry)
+          if (outcome === 'done') {
+            await this.removeEntry(entry.id)
+            result.synced++
+          }
+        } catch (error) {
+          if (isNetworkError(error)) {
+            console.log('📴 Still offline, sync paused')
+            result.offline = true
+            break
+          }
+
+          const message = error instanceof Error ? error.message : String(error)
+          const code = (error as { code?: string })?.code
+          const isConflict = error instanceof OutboxConflictError || (!!code && CONFLICT_ERROR_CODES.includes(code))
+
+          console.error(`❌ Offline entry ${entry.type} ${isConflict ? 'conflicted' : 'failed'}:`, message)
+          await this.updateEntry(entry.id, current => ({
+            ...current,
+            status: isConflict ? 'conflict' : 'failed',
+            needsApproval: error instanceof OutboxApprovalError,
+            attempts: current.attempts + 1,
+            lastError: message,
+            updatedAt: new Date().toISOString(),
+          }))
+          result.failed++
+        }
+      }
+
+      console.log(`✅ Offline sync finished: ${result.synced} synced, ${result.failed} failed`)
+      return result
+    } finally {
+      this.syncing = false
+      this.notify()
+    }
+  }
+
+  /**
+   * Put a failed or conflicting entry back in the queue
+   *
+   * @param force - Skip the conflict checks for this entry (staff confirmed it should be applied)
+   */
+  async retryEntry(entryId: string, force: boolean = false): Promise<void> {
+    await this.updateEntry(entryId, entry => ({
+      ...entry,
+      status: 'pending',
+      force: force || entry.force,
+      updatedAt: new Date().toISOString(),
+    }))
+    await this.sync()
+  }
+
+  /**
+   * Send a queued order again with a new manager approval for its discounts
+   *
+   * Used when the approval taken at checkout expired or was refused before the order
+   * reached the server. The new approval replaces it on the manual discounts and vouchers.
+   *
+   * @param approval - Approval from verify_manager_pin covering the order's discounts
+   */
+  async reapproveOrder(entryId: string, approval: ManagerApproval): Promise<void> {
+    await this.updateEntry(entryId, entry => {
+      if (entry.type !== 'create_order') return entry
+
+      const adjustments = entry.payload.input.adjustments?.map(adjustment =>
+        adjustment.approval_id || adjustment.source === 'manual' || adjustment.source === 'voucher'
+          ? { ...adjustment, approved_by: approval.user_id, approval_id: approval.approval_id }
+          : adjustment
+      )
+      return {
+        ...entry,
+        payload: { ...entry.payload, input: { ...entry.payload.input, adjustments } },
+        status: 'pending',
+        needsApproval: false,
+        updatedAt: new Date().toISOString(),
+      }
+    })
+    await this.sync()
+  }
+
+  /**
+   * Drop an entry from the queue without applying it
+   */
+  async discardEntry(entryId: string): Promise<void> {
+    await this.removeEntry(entryId)
+    console.log(`🗑️ Offline entry ${entryId} discarded`)
+  }
+
+  private async replay(entry: OutboxEntry): Promise<ReplayOutcome> {
+    switch (entry.type) {
+      case 'create_order':
+        return await this.replayOrder(entry.payload)
+      case 'add_payment':
+        return await this.replayPayment(entry.payload, entry.force === true)
+      case 'update_status':
+        return await this.replayStatusChange(entry.payload, entry.force === true)
+    }
+  }
+
+  private async replayOrder(payload: QueuedOrderPayload): Promise<ReplayOutcome> {
+    let order
+    try {
+      order = await OrderService.createOrderWithItems(payload.input)
+    } catch (error: any) {
+      // Retrying cannot bring an approval back; a manager has to approve the discount again
+      if (error?.code === APPROVAL_ERROR_CODE && error.message?.startsWith(APPROVAL_ERROR_PREFIX)) {
+        throw new OutboxApprovalError(`${error.message}. A manager must approve the discount on ${payload.input.provisionalOrderNumber} again.`)
+      }
+      throw error
+    }
+    if (payload.input.clientReference) {
+      await this.saveOrderRef(payload.input.clientReference, order.id)
+    }
+    console.log(`✅ Offline order ${payload.input.provisionalOrderNumber} synced as ${order.order_number}`)
+    return 'done'
+  }
+
+  private async replayPayment(payload: QueuedPaymentPayload, force: boolean): Promise<ReplayOutcome> {
+    let orderId = payload.orderId || null
+    if (!orderId && payload.orderClientReference) {
+      orderId = await this.getOrderRef(payload.orderClientReference)
+      if (!orderId) {
+        // The order itself is still waiting in the queue
+        const entries = await this.load()
+        const orderStillQueued = entries.some(entry =>
+          entry.type === 'create_order' && entry.payload.input.clientReference === payload.orderClientReference
+        )
+        if (orderStillQueued) {
+          return 'blocked'
+        }
+        throw new OutboxConflictError(`Order ${payload.orderNumber} was never created on the server`)
+      }
+    }
+
+    if (!orderId) {
+      throw new OutboxConflictError(`Payment for ${payload.orderNumber} has no order`)
+    }
+
+    // Skip the insert if a previous attempt already reached the server
+    const { data: existingPayment, error: existingError } = await supabase
+      .from('payments')
+      .select('id')
+      .eq('client_reference', payload.client_reference)
+      .maybeSingle()
+
+    if (existingError) throw existingError
+
+    if (!existingPayment) {
+      const { data: order, error: orderError } = await supabase
+        .from('orders')
+        .select('id, balance')
+        .eq('id', orderId)
+        .maybeSingle()
+
+      if (orderError) throw orderError
+      if (!order) {
+        throw new OutboxConflictError(`Order ${payload.orderNumber} no longer exists`)
+      }
+      if (!force && payload.amount > order.balance + 0.005) {
+        throw new OutboxConflictError(
+          `Order ${payload.orderNumber} balance is now ₱${Number(order.balance).toFixed(2)}, but ₱${payload.amount.toFixed(2)} was collected offline`
+        )
+      }
+
+      // Recorded through the same function as online payments so the payment method
+      // rules and the balance update apply; a concurrent replay returns the same payment
+      const { error: paymentError } = await supabase.rpc('record_order_payment', {
+        p_order_id: orderId,
+        p_payment: {
+          amount: payload.amount,
+          payment_method: payload.payment_method,
+          payment_method_id: payload.payment_method_id,
+          card_number: payload.card_number || null,
+          reference_number: payload.reference_number || null,
+          amount_tendered: payload.amount_tendered ?? null,
+          notes: payload.notes || 'Additional payment (offline)',
+          client_reference: payload.client_reference,
+        },
+        p_force: force,
+      })
+
+      if (paymentError) throw paymentError
+    }
+
+    return 'done'
+  }
+
+  private async replayStatusChange(payload: QueuedStatusPayload, force: boolean): Promise<ReplayOutcome> {
+    const { data: order, error: orderError } = await supabase
+      .from('orders')
+      .select('id, order_status')
+      .eq('id', payload.orderId)
+      .maybeSingle()
+
+    if (orderError) throw orderError
+    if (!order) {
+      throw new OutboxConflictError(`Order ${payload.orderNumber} no longer exists`)
+    }
+
+    if (order.order_status === payload.toStatus) {
+      return 'done'
+    }
+
+    if (!force && order.order_status !== payload.fromStatus) {
+      throw new OutboxConflictError(
+        `Order ${payload.orderNumber} was changed to ${order.order_status} while offline`
+      )
+    }
+
+    try {
+      await OrderService.setOrderStatus(payload.orderId, payload.toStatus)
+    } catch (error: any) {
+      // Moves the status rules do not allow, e.g. the order was completed on another device
+      if (error?.code === INVALID_TRANSITION_CODE) {
+        throw new OutboxConflictError(error.message)
+      }
+      throw error
+    }
+    return 'done'
+  }
+
+  private async enqueue<T extends OutboxEntryType>(
+    storeId: string,
+    type: T,
+    payload: Extract<OutboxEntry, { type: T }>['payload']
+  ): Promise<OutboxEntry> {
+    const now = new Date().toISOString()
+    const entry = {
+      id: generateUUID(),
+      storeId,
+      type,
+      payload,
+      status: 'pending',
+      attempts: 0,
+      lastError: null,
+      createdAt: now,
+      updatedAt: now,
+    } as OutboxEntry
+
+    await this.mutate(entries => [...entries, entry])
+    return entry
+  }
+
+  private async updateEntry(entryId: string, updater: (entry: OutboxEntry) => OutboxEntry): Promise<void> {
+    await this.mutate(entries => entries.map(entry => (entry.id === entryId ? updater(entry) : entry)))
+  }
+
+  private async removeEntry(entryId: string): Promise<void> {
+    await this.mutate(entries => entries.filter(entry => entry.id !== entryId))
+  }
+
+  /**
+   * Serialize read-modify-write cycles so concurrent callers never overwrite each other
+   */
+  private async mutate(updater: (entries: OutboxEntry[]) => OutboxEntry[]): Promise<void> {
+    const run = this.writeChain.then(async () => {
+      const entries = await this.load()
+      await AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(updater(entries)))
+    })
+    this.writeChain = run.catch(() => undefined)
+    await run
+    this.notify()
+  }
+
+  private async load(): Promise<OutboxEntry[]> {
+    try {
+      const json = await AsyncStorage.getItem(OUTBOX_KEY)
+      return json ? (JSON.parse(json) as OutboxEntry[]) : []
+    } catch (error) {
+      console.error('Error reading offline outbox:', error)
+      return []
+    }
+  }
+
+  private async saveOrderRef(clientReference: string, orderId: string): Promise<void> {
+    const json = await AsyncStorage.getItem(ORDER_REFS_KEY)
+    const refs: Record<string, string> = json ? JSON.parse(json) : {}
+    refs[clientReference] = orderId
+    await AsyncStorage.setItem(ORDER_REFS_KEY, JSON.stringify(refs))
+  }
+
+  private async getOrderRef(clientReference: string): Promise<string | null> {
+    const json = await AsyncStorage.getItem(ORDER_REFS_KEY)
+    const refs: Record<string, string> = json ? JSON.parse(json) : {}
+    return refs[clientReference] || null
+  }
+
+  /**
+   * Generate a provisional order number: OFF-<device tag>-<YYMMDD>-<sequence>
+   * The device tag keeps numbers unique when several devices go offline at once.
+   */
+  private async nextProvisionalOrderNumber(storeId: string): Promise<string> {
+    const deviceTag = await getDeviceTag()
+
+    const now = new Date()
+    const datePart = `${String(now.getFullYear()).slice(-2)}${String(now.getMonth() + 1).padStart(2, '0')}${String(now.getDate()).padStart(2, '0')}`
+    const sequenceKey = `${ORDER_SEQUENCE_KEY_PREFIX}${storeId}_${datePart}`
+    const sequence = parseInt((await AsyncStorage.getItem(sequenceKey)) || '0', 10) + 1
+    await AsyncStorage.setItem(sequenceKey, String(sequence))
+
+    return `OFF-${deviceTag}-${datePart}-${String(sequence).padStart(3, '0')}`
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener()
+      } catch (error) {
+        console.error('Offline queue listener error:', error)
+      }
+    })
+  }
+}
+
+// Export singleton instance
+export default new OfflineQueueService()
@@ -0,0 +1,172 @@
+import { supabase } from '../../lib/supabase'
+import { CancelledOrderRecord, CreateOrderInput, OrderRecord, OrderStatus, OrderStatusHistoryEntry } from '../types/order'
+import { getDeviceId } from '../utils/device'
+
+/**
+ * Order Service - Handles order creation and cancellation against the database
+ *
+ * Orders are created through the create_order_with_items database function
+ * so that the order, its items, the initial payment and inventory deductions
+ * are written in a single transaction. Status changes go through
+ * set_order_status, cancel_order, uncancel_order and abandon_order, which enforce
+ * the order status rules and record each change with this device in order_status_history.
+ * Cancelling keeps the order with status cancelled and moves stock and loyalty
+ * points in the same transaction as the status change.
+ */
+class OrderService {
+  /**
+   * Creates an order with its items and optional initial payment
+   *
+   * @param input - Store, customer, cart items, discounts, VAT and initial payment or split tenders
+   * @returns The created order row, including the generated order number
+   * @throws Error if the database rejects the order; nothing is written in that case
+   */
+  async createOrderWithItems(input: CreateOrderInput): Promise<OrderRecord> {
+    const { storeId, customerId, items, payment, payments, notes, clientReference, provisionalOrderNumber, adjustments, tax, promisedAt, bagCount } = input
+
+    if (items.length === 0) {
+      throw new Error('Order must contain at least one item')
+    }
+
+    // The database function accepts one payment or an array of tenders
+    const tenders = (payments || (payment ? [payment] : [])).filter(tender => tender.amount > 0)
+
+    const { data, error } = await supabase.rpc('create_order_with_items', {
+      p_store_id: storeId,
+      p_customer_id: customerId,
+      p_items: items,
+      p_payment: tenders.length > 1 ? tenders : tenders[0] ?? null,
+      p_notes: notes ?? null,
+      p_client_reference: clientReference ?? null,
+      p_provisional_order_number: provisionalOrderNumber ?? null,
+      p_adjustments: adjustments && adjustments.length > 0 ? adjustments : null,
+      p_tax: tax ?? null,
+      p_promised_at: promisedAt ?? null,
+      p_bag_count: bagCount ?? null,
+    })
+
+    if (error) {
+      console.error('❌ create_order_with_items failed:', error)
+      const createError: Error & { code?: string } = new Error(error.message || 'Failed to create order')
+      createError.code = error.code
+      throw createError
+    }
+
+    if (!data) {
+      throw new Error('Failed to create order')
+    }
+
+    console.log('✅ Order created:', (data as OrderRecord).order_number)
+    return data as OrderRecord
+  }
+
+  /**
+   * Moves an order to its next status
+   *
+   * @returns The updated order, with the stage timestamp set
+   * @throws Error with code 22023 if the status rules do not allow the move
+   */
+  async setOrderStatus(orderId: string, status: OrderStatus, notes?: string | null): Promise<OrderRecord> {
+    const { data, error } = await supabase.rpc('set_order_status', {
+      p_order_id: orderId,
+      p_status: status,
+      p_device_id: await getDeviceId(),
+      p_notes: notes ?? null,
+    })
+
+    if (error) {
+      console.error('❌ set_order_status failed:', error)
+      const statusError: Error & { code?: string } = new Error(error.message || 'Failed to update order status')
+      statusError.code = error.code
+      throw statusError
+    }
+
+    console.log(`✅ Order ${(data as OrderRecord).order_number} is now ${status}`)
+    return data as OrderRecord
+  }
+
+  /**
+   * Status changes of an order, oldest first
+   */
+  async getStatusHistory(orderId: string): Promise<OrderStatusHistoryEntry[]> {
+    const { data, error } = await supabase
+      .from('order_status_history')
+      .select('*')
+      .eq('order_id', orderId)
+      .order('changed_at', { ascending: true })
+
+    if (error) throw error
+    return (data || []) as OrderStatusHistoryEntry[]
+  }
+
+  /**
+   * Cancels an order, restocking its products and reversing its loyalty points
+   *
+   * @returns The cancellation record, with the amount owed back to the customer
+   * @throws Error if the order is completed or already cancelled
+   */
+  async cancelOrder(orderId: string, reason: string, notes?: string | null): Promise<CancelledOrderRecord> {
+    const { data, error } = await supabase.rpc('cancel_order', {
+      p_order_id: orderId,
+      p_reason: reason,
+      p_notes: notes ?? null,
+      p_device_id: await getDeviceId(),
+    })
+
+    if (error) {
+      console.error('❌ cancel_order failed:', error)
+      throw new Error(error.message || 'Failed to cancel order')
+    }
+
+    console.log('✅ Order cancelled:', (data as CancelledOrderRecord).order_number)
+    return data as CancelledOrderRecord
+  }
+
+  /**
+   * Restores a cancelled order to the status it was cancelled from
+   *
+   * @param approvalId - Manager approval from verify_manager_pin, when the current user is not a manager
+   * @throws Error if the un-cancel window has passed or refunds were already given
+   */
+  async uncancelOrder(orderId: string, approvalId?: string | null): Promise<OrderRecord> {
+    const { data, error } = await supabase.rpc('uncancel_order', {
+      p_order_id: orderId,
+      p_approval_id: approvalId ?? null,
+      p_device_id: await getDeviceId(),
+    })
+
+    if (error) {
+      console.error('❌ uncancel_order failed:', error)
+      throw new Error(error.message || 'Failed to un-cancel order')
+    }
+
+    console.log('✅ Order un-cancelled:', (data as OrderRecord).order_number)
+    return data as OrderRecord
+  }
+
+  /**
+   * Marks a ready order that was never picked up as abandoned. This is final.
+   *
+   * @param approvalId - Manager approval from verify_manager_pin, when the current user is not a manager
+   * @throws Error if the order has not been ready for the store abandon_after_days
+   */
+  async abandonOrder(orderId: string, approvalId?: string | null, notes?: string | null): Promise<OrderRecord> {
+    const { data, error } = await supabase.rpc('abandon_order', {
+      p_order_id: orderId,
+      p_approval_id: approvalId ?? null,
+      p_notes: notes ?? null,
+      p_device_id: await getDeviceId(),
+    })
+
+    if (error) {
+      console.error('❌ abandon_order failed:', error)
+      throw new Error(error.message || 'Failed to mark order abandoned')
+    }
+
+    console.log('✅ Order marked abandoned:', (data as OrderRecord).order_number)
+    return data as OrderRecord
+  }
+}
+
+// Export singleton instance
+export default new OrderService()
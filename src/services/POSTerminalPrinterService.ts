@@ -1,30 +1,16 @@
 import { NativeModules, Platform } from 'react-native'
-import { supabase } from '../../lib/supabase'
-
-interface Order {
-  orderId: string
-  orderNumber?: string
-  orderDate: string
-  customerName: string
-  items: Array<{
-    name: string
-    quantity: number
-    price: number
-  }>
-  totalAmount: number
-  storeInfo?: {
-    name: string
-    address?: string
-    phone?: string
-    email?: string
-  }
-}
+import { ReceiptAlign, ReceiptBlock, ReceiptDocument, ReceiptTextSize } from '../types/receipt'
+import { resolveColumnWidths } from '../utils/receiptDocument'
+import { PrinterState } from '../types/printQueue'
+import { PRINTER_STATES, PrinterStateError, getPOSTerminalPrinterState } from '../utils/printQueue'
 
-interface Store {
-  id: string
-  name: string
-  address?: string
-}
+const ALIGNMENTS: Record<ReceiptAlign, number> = { left: 0, center: 1, right: 2 }
+
+// Font sizes accepted by printSpecFormatText
+const FONT_SIZES: Record<ReceiptTextSize, number> = { normal: 24, large: 32, xlarge: 48 }
+
+// printBarCode symbology codes
+const BARCODE_SYMBOLOGIES = { EAN13: 2, CODE39: 4, CODE128: 8 }
 
 class POSTerminalPrinterService {
   private isConnected: boolean = false
@@ -205,17 +191,23 @@ class POSTerminalPrinterService {
     }
   }
 
-  async printOrderClaimStub(order: Order): Promise<boolean> {
+  /**
+   * Print a receipt document. Blocks are buffered, then printed in one go. The printer has
+   * no cutter, so a cut prints tear-off lines and feeds the paper out instead.
+   * @throws PrinterStateError when the printer does not report a normal status; the print
+   *   queue waits, pauses or retries the job
+   */
+  async printDocument(document: ReceiptDocument): Promise<boolean> {
     try {
       // Always initialize printer before printing to ensure clean state
       console.log('🔌 Ensuring printer is initialized before printing...')
       const initialized = await this.initializePrinter()
       if (!initialized) {
-        console.log('❌ Failed to initialize printer for claim ticket')
+        console.log('❌ Failed to initialize printer for document')
         return false
       }
 
-      console.log('🖨️ Printing claim ticket via POS Terminal printer...')
+      console.log('🖨️ Printing document via POS Terminal printer...')
       
       const { POSTerminalPrinter } = NativeModules
       
@@ -230,179 +222,32 @@ class POSTerminalPrinterService {
       console.log('⏳ Waiting for printer to be ready after initialization...')
       await new Promise(resolve => setTimeout(resolve, 500))
       
-      // Check printer status before starting
-      let initialStatus = await this.getPrinterStatus()
-      console.log(`📊 Initial printer status: ${initialStatus}`)
-      
-      // Wait for printer to be in normal state
-      let statusRetries = 0
-      while (initialStatus !== 0 && statusRetries < 5) {
-        console.log(`⏳ Waiting for printer to be ready (status: ${initialStatus}, attempt ${statusRetries + 1})...`)
-        await new Promise(resolve => setTimeout(resolve, 500))
-        initialStatus = await this.getPrinterStatus()
-        statusRetries++
-      }
-      
-      if (initialStatus !== 0) {
-        console.log(`⚠️ Printer not in normal state after initialization (status: ${initialStatus}), but will attempt to print`)
-      } else {
-        console.log('✅ Printer is in normal state, ready to buffer content')
-      }
-      
-      // Fetch selected store information
-      console.log('🏪 Fetching selected store information...')
-      const selectedStore = await this.fetchSelectedStore()
-      if (selectedStore) {
-        console.log(`✅ Selected store fetched: ${selectedStore.name}`)
-        // Merge store info with order data
-        order.storeInfo = {
-          name: selectedStore.name,
-          address: selectedStore.address,
-          ...order.storeInfo // Allow order.storeInfo to override if present
-        }
-      } else {
-        console.log('⚠️ Could not fetch selected store, using order.storeInfo if available')
+      // The printer must be ready (PRINTER_NORMAL = 0) before anything is buffered
+      const state = await this.getPrinterState()
+      if (state !== 'ready') {
+        console.log(`⚠️ Printer not ready (${PRINTER_STATES[state].label}) - cannot print`)
+        throw new PrinterStateError(state)
       }
+      console.log('✅ Printer is in normal state, ready to buffer content')
       
-      const claimStubText = this.generateClaimStubText(order)
-
       try {
-        // Step 1: Ensure printer is in normal state before buffering text
-        let textStatus = await this.getPrinterStatus()
-        if (textStatus !== 0) {
-          console.log(`⚠️ Printer status before text: ${textStatus}, waiting...`)
-          await new Promise(resolve => setTimeout(resolve, 500))
-          textStatus = await this.getPrinterStatus()
-        }
-        
-        // Step 1: Print the text part (buffers, doesn't execute yet)
-        console.log('📝 Buffering claim ticket text...')
-        try {
-          const textSuccess = await POSTerminalPrinter.printText(claimStubText)
-          if (!textSuccess) {
-            console.log('❌ Claim ticket text buffer failed - printText returned false')
-            return false
-          }
-          console.log('✅ Text buffered successfully')
-        } catch (textError: any) {
-          console.error('❌ Text buffer error:', textError)
-          if (textError?.message?.includes('PRINTER_NOT_READY') || textError?.code === 'PRINTER_NOT_READY') {
-            console.error('❌ Printer not ready for text printing')
+        // Steps 1-8: Buffer every block of the document (nothing prints yet)
+        console.log('📝 Buffering document...')
+        for (const block of document.blocks) {
+          const buffered = await this.bufferBlock(block, document.lineWidth)
+          if (!buffered && block.type === 'text') {
+            console.log('❌ Document text buffer failed')
             return false
           }
-          throw textError
-        }
-        await new Promise(resolve => setTimeout(resolve, 200)) // Delay after text
-
-        // Step 2: Add spacing before QR code (buffers)
-        console.log('📄 Adding spacing before QR code...')
-        await POSTerminalPrinter.printerFeedLines(2)
-        await new Promise(resolve => setTimeout(resolve, 100)) // Small delay
-
-        // Step 3: Center align for QR code
-        console.log('🎯 Setting alignment for QR code...')
-        await this.setPrinterPrintAlignment(1) // 1 = center
-        await new Promise(resolve => setTimeout(resolve, 100)) // Small delay
-
-        // Step 4: Print QR code with order information (buffers)
-        console.log('📱 Buffering QR code...')
-        const qrCodeData = this.generateQRCodeData(order)
-        
-        try {
-          // Use slightly smaller QR code size (14) to avoid printing issues
-          const qrSuccess = await this.printQRCode(qrCodeData, 14, 1) // modulesize=14, errorCorrectionLevel=M
-          if (!qrSuccess) {
-            console.log('⚠️ QR code buffer failed, but continuing with text only')
-          } else {
-            console.log('✅ QR code buffered successfully')
-          }
-        } catch (qrError) {
-          console.error('⚠️ QR code error (continuing anyway):', qrError)
-          // Continue even if QR code fails
+          await new Promise(resolve => setTimeout(resolve, 100)) // Small delay between blocks
         }
-        await new Promise(resolve => setTimeout(resolve, 200)) // Delay after QR code
-        
-        // Step 5: Reset alignment to left after QR code
-        await this.setPrinterPrintAlignment(0) // 0 = left
-        await new Promise(resolve => setTimeout(resolve, 100)) // Small delay
-
-        // Step 6: Add 5 blank lines after QR code
-        console.log('📄 Adding 5 blank lines after QR code...')
-        await POSTerminalPrinter.printerFeedLines(5)
-        await new Promise(resolve => setTimeout(resolve, 100)) // Small delay
-
-        // Step 7: Print 2 lines of dashed lines
-        console.log('📄 Printing 2 lines of dashed lines...')
-        const dashedLine = '--------------------------------\n'
-        await POSTerminalPrinter.printText(dashedLine)
-        await POSTerminalPrinter.printText(dashedLine)
-        await new Promise(resolve => setTimeout(resolve, 100)) // Small delay
-
-        // Step 8: Add extra spacing after dashed lines for manual tearing (printer has no cutter)
-        console.log('📄 Adding extra spacing after dashed lines for manual tear...')
-        await POSTerminalPrinter.printerFeedLines(40)
-        await new Promise(resolve => setTimeout(resolve, 200)) // Delay after feed lines
 
         // Step 9: Wait a moment for all operations to complete
         console.log('⏳ Waiting for all buffered operations to complete...')
         await new Promise(resolve => setTimeout(resolve, 500)) // Wait 500ms
 
-        // Step 10: Check printer status and ensure it's ready (must be PRINTER_NORMAL = 0)
-        let status = -1
-        let retries = 0
-        const maxRetries = 10
-        
-        while (retries < maxRetries) {
-          try {
-            status = await this.getPrinterStatus()
-            console.log(`📊 Printer status check (attempt ${retries + 1}/${maxRetries}): ${status}`)
-            
-            if (status === 0) { // PRINTER_NORMAL - ready to print
-              console.log('✅ Printer is in NORMAL state, ready for execution')
-              break
-            } else if (status === 1) { // PRINTER_IS_BUSY
-              console.log('⏳ Printer is busy, waiting 1 second...')
-              await new Promise(resolve => setTimeout(resolve, 1000))
-              retries++
-            } else {
-              console.warn(`⚠️ Printer status: ${status} (0=Normal, 1=Busy, 2=PaperOut, 3=Error)`)
-              if (status === 2) {
-                console.error('❌ Printer has no paper!')
-                return false
-              } else if (status === 3) {
-                console.error('❌ Printer has an error!')
-                return false
-              }
-              // For other statuses, wait and retry
-              await new Promise(resolve => setTimeout(resolve, 500))
-              retries++
-            }
-          } catch (statusError) {
-            console.warn('⚠️ Could not check printer status:', statusError)
-            retries++
-            await new Promise(resolve => setTimeout(resolve, 500))
-          }
-        }
-
-        // Only proceed if printer is in normal state
-        if (status !== 0) {
-          console.error(`❌ Printer not in normal state after ${maxRetries} attempts. Status: ${status}`)
-          console.error('❌ Cannot execute print - printer is not ready')
-          return false
-        }
-
-        // Step 11: Execute all buffered content with extra feed for manual tearing
+        // Step 10: Execute all buffered content with extra feed for manual tearing
         console.log('🖨️ Executing all buffered content and feeding paper for manual tear...')
-        console.log(`📊 Printer status confirmed: ${status} (PRINTER_NORMAL)`)
-        
-        // Double-check status right before execution
-        const finalStatusCheck = await this.getPrinterStatus()
-        console.log(`📊 Final status check before printerPerformPrint: ${finalStatusCheck}`)
-        
-        if (finalStatusCheck !== 0) {
-          console.error(`❌ Printer status is not normal (${finalStatusCheck}) - cannot execute print`)
-          return false
-        }
         
         // printerPerformPrint executes all buffered content and feeds additional lines
         // Feed 50 more lines to push paper out for easy manual tearing (printer has no cutter)
@@ -417,24 +262,16 @@ class POSTerminalPrinterService {
           return false
         }
         
-        // Wait a moment after execution to ensure print completes
-        console.log('⏳ Waiting for print to complete...')
-        await new Promise(resolve => setTimeout(resolve, 1000))
-        
-        // Check status after execution
-        const postPrintStatus = await this.getPrinterStatus()
-        console.log(`📊 Printer status after execution: ${postPrintStatus}`)
-        
         if (printSuccess) {
-          console.log('✅ Claim ticket printed successfully via POS Terminal printer')
+          console.log('✅ Document printed successfully via POS Terminal printer')
           return true
         } else {
-          console.log('❌ Claim ticket print execution failed - printerPerformPrint returned false')
+          console.log('❌ Document print execution failed - printerPerformPrint returned false')
           console.log('⚠️ Printer may have clicked but did not print - check printer status and buffer')
           return false
         }
       } catch (error) {
-        console.error('❌ Error during claim ticket printing:', error)
+        console.error('❌ Error during document printing:', error)
         // Try to execute whatever was buffered and feed paper for manual tear
         try {
           await POSTerminalPrinter.printerPerformPrint(50)
@@ -444,7 +281,31 @@ class POSTerminalPrinterService {
         return false
       }
     } catch (error) {
-      console.error('Print order claim ticket failed:', error)
+      if (error instanceof PrinterStateError) throw error
+      console.error('Print document failed:', error)
+      return false
+    }
+  }
+
+  async printReport(reportLines: string[]): Promise<boolean> {
+    try {
+      // Initialize first, as for claim tickets, so the printer starts from a clean state
+      const initialized = await this.initializePrinter()
+      if (!initialized) {
+        console.log('❌ Failed to initialize printer for report')
+        return false
+      }
+
+      const printed = await this.printText(reportLines.join('\n') + '\n')
+      if (!printed) {
+        return false
+      }
+
+      await this.printerFeedLines(3)
+      await this.cutPaper()
+      return true
+    } catch (error) {
+      console.error('Print report failed:', error)
       return false
     }
   }
@@ -514,6 +375,17 @@ class POSTerminalPrinterService {
     }
   }
 
+  /**
+   * Printer status in plain terms; offline when the status cannot be read
+   */
+  async getPrinterState(): Promise<PrinterState> {
+    try {
+      return getPOSTerminalPrinterState(await this.getPrinterStatus())
+    } catch (error) {
+      return 'offline'
+    }
+  }
+
   /**
    * Feed paper lines (forced line feed, motor idling, no data sent to printer)
    * @param lines Number of printer feed lines (each line is one pixel)
@@ -1030,220 +902,70 @@ class POSTerminalPrinterService {
   }
 
   /**
-   * Fetch the currently selected store for the logged-in user
-   * Tries to get primary store first, otherwise gets first assigned store
+   * Buffer one block of a document
+   * @returns False if the printer refused the block
    */
-  private async fetchSelectedStore(): Promise<Store | null> {
-    try {
-      // Get current user
-      const { data: { user }, error: userError } = await supabase.auth.getUser()
-      if (userError || !user) {
-        console.log('⚠️ No user found when fetching store:', userError?.message)
-        return null
-      }
-
-      // Get user details
-      const { data: userData, error: userDataError } = await supabase
-        .from('users')
-        .select('id, role')
-        .eq('email', user.email)
-        .single()
+  private async bufferBlock(block: ReceiptBlock, lineWidth: number): Promise<boolean> {
+    const { POSTerminalPrinter } = NativeModules
 
-      if (userDataError || !userData) {
-        console.log('⚠️ User data not found when fetching store:', userDataError?.message)
-        return null
-      }
-
-      // Try to get primary store first
-      const { data: primaryAssignment, error: primaryError } = await supabase
-        .from('user_store_assignments')
-        .select(`
-          store_id,
-          stores (
-            id,
-            name,
-            address
-          )
-        `)
-        .eq('user_id', userData.id)
-        .eq('is_primary', true)
-        .single()
-
-      if (!primaryError && primaryAssignment) {
-        const store = (primaryAssignment as any).stores
-        if (store && store.name) {
-          console.log(`✅ Found primary store: ${store.name}`)
-          return {
-            id: store.id,
-            name: store.name,
-            address: store.address
+    try {
+      switch (block.type) {
+        case 'text':
+          // Plain left-aligned text goes through printText, which wraps long lines
+          if ((block.align ?? 'left') === 'left' && (block.size ?? 'normal') === 'normal') {
+            return await POSTerminalPrinter.printText(block.text + '\n')
           }
-        }
-      }
-
-      // If no primary store, get first assigned store
-      const { data: assignments, error: assignmentsError } = await supabase
-        .from('user_store_assignments')
-        .select(`
-          store_id,
-          stores (
-            id,
-            name,
-            address
+          return await POSTerminalPrinter.printSpecFormatText(
+            block.text + '\n',
+            'ST',
+            FONT_SIZES[block.size ?? 'normal'],
+            ALIGNMENTS[block.align ?? 'left']
           )
-        `)
-        .eq('user_id', userData.id)
-        .limit(1)
-
-      if (!assignmentsError && assignments && assignments.length > 0) {
-        const assignment = assignments[0] as any
-        const store = assignment?.stores
-        if (store && store.name) {
-          console.log(`✅ Found first assigned store: ${store.name}`)
-          return {
-            id: store.id,
-            name: store.name,
-            address: store.address
-          }
+        case 'columns':
+          return await this.printColumnsText(
+            block.columns.map(column => column.text),
+            resolveColumnWidths(block.columns, lineWidth),
+            block.columns.map(column => ALIGNMENTS[column.align ?? 'left']),
+            0
+          )
+        case 'divider':
+          return await POSTerminalPrinter.printText(block.char.repeat(lineWidth).substring(0, lineWidth) + '\n')
+        case 'qr': {
+          await this.setPrinterPrintAlignment(ALIGNMENTS[block.align])
+          const printed = await this.printQRCode(block.data, block.size, 1)
+          await this.setPrinterPrintAlignment(0)
+          if (!printed) console.log('⚠️ QR code buffer failed, continuing without it')
+          return printed
+        }
+        case 'barcode': {
+          await this.setPrinterPrintAlignment(ALIGNMENTS[block.align])
+          // Height is in 24-dot units on this printer
+          const height = Math.min(16, Math.max(1, Math.round(block.height / 24)))
+          const printed = await this.printBarCode(block.data, BARCODE_SYMBOLOGIES[block.symbology], height, 2, block.showText ? 2 : 0)
+          await this.setPrinterPrintAlignment(0)
+          if (!printed) console.log('⚠️ Barcode buffer failed, continuing without it')
+          return printed
+        }
+        case 'image':
+          return await this.printBitmap(ALIGNMENTS[block.align], block.width, block.base64)
+        case 'feed':
+          return await POSTerminalPrinter.printerFeedLines(block.lines)
+        case 'cut': {
+          // No cutter: tear-off lines, then feed the paper out for tearing by hand
+          const dashedLine = '-'.repeat(lineWidth) + '\n'
+          await POSTerminalPrinter.printerFeedLines(5)
+          await POSTerminalPrinter.printText(dashedLine)
+          await POSTerminalPrinter.printText(dashedLine)
+          return await POSTerminalPrinter.printerFeedLines(40)
         }
       }
-
-      console.log('⚠️ No store assignments found for user')
-      return null
-    } catch (error) {
-      console.error('❌ Error fetching selected store:', error)
-      return null
-    }
-  }
-
-  private generateClaimStubText(order: Order): string {
-    const orderNumber = order.orderNumber || `ORD-${order.orderId.substring(0, 8).toUpperCase()}`
-    const date = new Date(order.orderDate)
-    const dateStr = this.formatDate(date)
-    const timeStr = this.formatTime(date)
-
-    console.log('📋 POSTerminalPrinterService - Generating claim stub with store info:', {
-      name: order.storeInfo?.name,
-      address: order.storeInfo?.address,
-      phone: order.storeInfo?.phone,
-      email: order.storeInfo?.email
-    })
-
-    let text = `\n`
-    
-    // Store details (centered)
-    if (order.storeInfo?.name) {
-      const storeName = order.storeInfo.name.toUpperCase()
-      // Center the store name (assuming 32 character width)
-      const padding = Math.max(0, Math.floor((32 - storeName.length) / 2))
-      text += ' '.repeat(padding) + storeName + `\n`
-    }
-    
-    // Store address (centered)
-    if (order.storeInfo?.address) {
-      const address = order.storeInfo.address
-      const padding = Math.max(0, Math.floor((32 - address.length) / 2))
-      text += ' '.repeat(padding) + address + `\n`
-    }
-    
-    // Contact No. (centered)
-    if (order.storeInfo?.phone && order.storeInfo.phone.trim()) {
-      const contactLine = `Contact No.: ${order.storeInfo.phone.trim()}`
-      const padding = Math.max(0, Math.floor((32 - contactLine.length) / 2))
-      text += ' '.repeat(padding) + contactLine + `\n`
-      console.log('✅ POSTerminalPrinterService - Added phone:', contactLine)
-    } else {
-      console.log('⚠️ POSTerminalPrinterService - No phone number:', order.storeInfo?.phone)
-    }
-    
-    // Email Address (centered) - label on one line, email on next line
-    if (order.storeInfo?.email && order.storeInfo.email.trim()) {
-      const emailLabel = 'Email Address:'
-      const emailValue = order.storeInfo.email.trim()
-      // Center the label
-      const labelPadding = Math.max(0, Math.floor((32 - emailLabel.length) / 2))
-      text += ' '.repeat(labelPadding) + emailLabel + `\n`
-      // Center the email value on next line
-      const emailPadding = Math.max(0, Math.floor((32 - emailValue.length) / 2))
-      text += ' '.repeat(emailPadding) + emailValue + `\n`
-      console.log('✅ POSTerminalPrinterService - Added email:', emailLabel, emailValue)
-    } else {
-      console.log('⚠️ POSTerminalPrinterService - No email:', order.storeInfo?.email)
+    } catch (error: any) {
+      console.error(`❌ Failed to buffer ${block.type} block:`, error)
+      if (error?.message?.includes('PRINTER_NOT_READY') || error?.code === 'PRINTER_NOT_READY') {
+        throw error
+      }
+      return false
     }
-    
-    text += `\n`
-    
-    // Divider
-    text += `================================\n`
-    
-    // Claim Ticket Header
-    text += `CLAIM TICKET\n`
-    text += `\n`
-    
-    // Order Number
-    text += `Order #: ${orderNumber}\n`
-    
-    // Date and Time
-    text += `Date: ${dateStr}\n`
-    text += `Time: ${timeStr}\n`
-    text += `\n`
-    
-    // Divider
-    text += `================================\n`
-    text += `\n`
-    
-    // Customer Information
-    text += `Customer:\n`
-    text += `${order.customerName}\n`
-    text += `\n`
-    
-    // Services/Items
-    text += `Services:\n`
-    order.items.forEach((item) => {
-      const line = `${item.quantity}x ${item.name.substring(0, 20)}`
-      const price = `₱${item.price.toFixed(2)}`
-      const spaces = Math.max(1, 32 - line.length - price.length)
-      text += line + ' '.repeat(spaces) + price + '\n'
-    })
-    
-    text += `\n`
-    
-    // Divider
-    text += `================================\n`
-    
-    // Total
-    text += `TOTAL: ₱${order.totalAmount.toFixed(2)}\n`
-    text += `\n`
-    
-    // Footer message
-    text += `Thank you for your business!\n`
-    text += `Please keep this stub for pickup.\n`
-    text += `\n\n\n`
-    
-    return text
-  }
-
-  private formatDate(date: Date): string {
-    const year = date.getFullYear()
-    const month = String(date.getMonth() + 1).padStart(2, '0')
-    const day = String(date.getDate()).padStart(2, '0')
-    return `${month}/${day}/${year}`
-  }
-
-  private formatTime(date: Date): string {
-    const hours = String(date.getHours()).padStart(2, '0')
-    const minutes = String(date.getMinutes()).padStart(2, '0')
-    return `${hours}:${minutes}`
-  }
-
-  /**
-   * Generate QR code data for the order
-   * @param order Order object
-   * @returns QR code data string (order number only)
-   */
-  private generateQRCodeData(order: Order): string {
-    // Return only the order number, with fallback if not available
-    return order.orderNumber || `ORD-${order.orderId.substring(0, 8).toUpperCase()}`
   }
 }
 
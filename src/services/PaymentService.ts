@@ -0,0 +1,89 @@
+import { supabase } from '../../lib/supabase'
+import OfflineQueueService from './OfflineQueueService'
+import PrintQueueService from './PrintQueueService'
+import { PaymentReceipt, RecordPaymentInput, RecordPaymentResult } from '../types/payment'
+import { PrintJob } from '../types/printQueue'
+import { formatPaymentReceiptLines } from '../utils/payments'
+import { generateUUID, isNetworkError } from '../utils/network'
+
+/**
+ * Payment Service - Records payments against existing orders
+ *
+ * Payments go through the record_order_payment database function, which checks
+ * the payment against its payment method (reference numbers, card numbers,
+ * inactive methods), inserts it and updates the order balance in one
+ * transaction. Payments taken while offline are queued and recorded through
+ * the same function when the device reconnects.
+ */
+class PaymentService {
+  /**
+   * Records a payment against an order
+   *
+   * @returns The order totals after the payment, or queued: true when the device is offline
+   * @throws Error if the server rejects the payment
+   */
+  async recordPayment(input: RecordPaymentInput): Promise<RecordPaymentResult> {
+    // Idempotency key so a payment queued after a lost response is not recorded twice
+    const payment = {
+      ...input.payment,
+      client_reference: input.payment.client_reference || generateUUID(),
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('record_order_payment', {
+        p_order_id: input.orderId,
+        p_payment: payment,
+      })
+
+      if (error) throw error
+
+      console.log(`✅ Payment of ₱${payment.amount.toFixed(2)} recorded for ${input.orderNumber}`)
+      return {
+        queued: false,
+        paymentId: data.payment.id,
+        paidAmount: Number(data.order.paid_amount),
+        balance: Number(data.order.balance),
+        paymentStatus: data.order.payment_status,
+      }
+    } catch (error: any) {
+      if (isNetworkError(error)) {
+        // No connection: keep the payment on the device and record it when back online
+        await OfflineQueueService.queuePayment(input.storeId, {
+          orderId: input.orderId,
+          orderNumber: input.orderNumber,
+          amount: payment.amount,
+          payment_method: payment.payment_method,
+          payment_method_id: payment.payment_method_id,
+          card_number: payment.card_number || null,
+          reference_number: payment.reference_number || null,
+          amount_tendered: payment.amount_tendered ?? null,
+          notes: payment.notes || 'Additional payment',
+          client_reference: payment.client_reference,
+        })
+        return { queued: true, paymentId: null, paidAmount: null, balance: null, paymentStatus: null }
+      }
+
+      console.error('❌ record_order_payment failed:', error)
+      throw new Error(error.message || 'Failed to record payment')
+    }
+  }
+
+  /**
+   * Queues the receipt for a payment made against an order
+   *
+   * @returns The print job once it has printed, failed or been paused
+   */
+  async printPaymentReceipt(receipt: PaymentReceipt, order: { storeId: string; orderId: string }): Promise<PrintJob> {
+    return await PrintQueueService.print({
+      storeId: order.storeId,
+      kind: 'payment_receipt',
+      title: `Payment receipt ${receipt.orderNumber}`,
+      orderId: order.orderId,
+      orderNumber: receipt.orderNumber,
+      content: { type: 'lines', lines: formatPaymentReceiptLines(receipt) },
+    })
+  }
+}
+
+// Export singleton instance
+export default new PaymentService()
@@ -0,0 +1,535 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { supabase } from '../../lib/supabase'
+import ThermalPrinterService from './ThermalPrinterService'
+import { ClaimStubOrder, GarmentTagOrder } from '../types/receipt'
+import { SalesReceiptPrintData } from '../types/salesReceipt'
+import { PrintHistoryEntry, PrintJob, PrintJobInput, PrinterState } from '../types/printQueue'
+import { buildClaimStubDocument, buildGarmentTagsDocument, buildSalesReceiptDocument } from '../utils/receiptLayouts'
+import { formatReceiptNumber } from '../utils/salesReceipts'
+import { getPrinterStateAction, PRINTER_STATES, PrinterStateError } from '../utils/printQueue'
+import { generateUUID, isNetworkError } from '../utils/network'
+import { getDeviceId } from '../utils/device'
+
+const PRINT_QUEUE_KEY = '@print_queue'
+
+// Attempts before a job is marked failed
+const MAX_ATTEMPTS = 3
+const RETRY_DELAY_MS = 2000
+
+// How long to wait for a busy or overheated printer before pausing the job
+const MAX_WAIT_CHECKS = 10
+const WAIT_DELAY_MS = 3000
+
+// Ended jobs kept on the device for reprints
+const MAX_ENDED_JOBS = 50
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+/**
+ * Print Queue Service - Persistent queue for receipts, claim stubs and bag tags
+ *
+ * Jobs are stored in AsyncStorage and sent to the printer one at a time, oldest
+ * first, whichever printer backend is connected. Before each attempt the printer
+ * state is checked: a busy or overheated printer is waited for, and a printer
+ * that is out of paper or has its cover open pauses the queue until staff fix it
+ * and resume. A transport that finds the printer not ready throws PrinterStateError
+ * and the job is handled the same way. Jobs of an order are logged to print_history
+ * when they end.
+ */
+class PrintQueueService {
+  private listeners = new Set<() => void>()
+  private writeChain: Promise<unknown> = Promise.resolve()
+  private processing: Promise<void> | null = null
+  private rerunRequested = false
+  private recovery: Promise<void> | null = null
+
+  /**
+   * Subscribe to queue changes
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Get jobs of a store, newest first
+   */
+  async getJobs(storeId: string): Promise<PrintJob[]> {
+    const jobs = await this.load()
+    return jobs
+      .filter(job => job.storeId === storeId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  }
+
+  isProcessing(): boolean {
+    return this.processing !== null
+  }
+
+  /**
+   * Current printer state, for the print queue screen
+   */
+  async getPrinterState(): Promise<PrinterState> {
+    return await ThermalPrinterService.getInstance().getPrinterState()
+  }
+
+  /**
+   * Queue a claim stub
+   */
+  async printClaimStub(storeId: string, order: ClaimStubOrder): Promise<PrintJob> {
+    const printer = ThermalPrinterService.getInstance()
+    return await this.print({
+      storeId,
+      kind: 'claim_stub',
+      title: `Claim stub ${order.orderNumber || ''}`.trim(),
+      orderId: order.orderId,
+      orderNumber: order.orderNumber || null,
+      content: { type: 'document', document: buildClaimStubDocument(order, printer.getLineWidth()) },
+    })
+  }
+
+  /**
+   * Queue an official receipt
+   * The print itself is recorded by SalesReceiptService before the job is queued.
+   */
+  async printSalesReceipt(data: SalesReceiptPrintData): Promise<PrintJob> {
+    const printer = ThermalPrinterService.getInstance()
+    const { receipt } = data
+    return await this.print({
+      storeId: receipt.store_id,
+      kind: 'sales_receipt',
+      title: `Receipt ${formatReceiptNumber(receipt.receipt_number)}${data.reprint ? ' (reprint)' : ''}`,
+      orderId: receipt.order_id,
+      orderNumber: receipt.order_number,
+      content: { type: 'document', document: buildSalesReceiptDocument(data, printer.getLineWidth()) },
+    })
+  }
+
+  /**
+   * Queue the tags of an order's bags
+   */
+  async printGarmentTags(storeId: string, order: GarmentTagOrder): Promise<PrintJob> {
+    const printer = ThermalPrinterService.getInstance()
+    return await this.print({
+      storeId,
+      kind: 'bag_tags',
+      title: `Bag tags ${order.orderNumber || ''}`.trim(),
+      orderId: order.orderId,
+      orderNumber: order.orderNumber || null,
+      content: { type: 'document', document: buildGarmentTagsDocument(order, printer.getLineWidth()) },
+    })
+  }
+
+  /**
+   * Queue a job and process the queue
+   *
+   * @returns The job once it has printed, failed or been paused
+   */
+  async print(input: PrintJobInput): Promise<PrintJob> {
+    const now = new Date().toISOString()
+    const job: PrintJob = {
+      id: generateUUID(),
+      storeId: input.storeId,
+      kind: input.kind,
+      title: input.title,
+      orderId: input.orderId || null,
+      orderNumber: input.orderNumber || null,
+      content: input.content,
+      status: 'queued',
+      attempts: 0,
+      printerState: null,
+      lastError: null,
+      reprintOf: input.reprintOf || null,
+      historyId: null,
+      historyLogged: false,
+      createdAt: now,
+      updatedAt: now,
+      printedAt: null,
+    }
+
+    await this.mutate(jobs => [...jobs, job])
+    console.log(`🖨️ Print job queued: ${job.title}`)
+    return await this.processAndGet(job.id)
+  }
+
+  /**
+   * Put a paused job back in the queue, e.g. after loading paper
+   */
+  async resume(jobId: string): Promise<PrintJob> {
+    await this.requeue(jobId, ['paused'])
+    return await this.processAndGet(jobId)
+  }
+
+  /**
+   * Put every paused job of a store back in the queue, oldest first
+   */
+  async resumeAll(storeId: string): Promise<void> {
+    const now = new Date().toISOString()
+    await this.mutate(jobs => jobs.map(job =>
+      job.storeId === storeId && job.status === 'paused'
+        ? { ...job, status: 'queued', attempts: 0, updatedAt: now }
+        : job
+    ))
+    await this.processQueue()
+  }
+
+  /**
+   * Try a failed job again with a fresh set of attempts
+   */
+  async retry(jobId: string): Promise<PrintJob> {
+    await this.requeue(jobId, ['failed'])
+    return await this.processAndGet(jobId)
+  }
+
+  /**
+   * Drop a job that has not printed
+   */
+  async cancel(jobId: string): Promise<void> {
+    const now = new Date().toISOString()
+    await this.mutate(jobs => jobs.map(job => {
+      if (job.id !== jobId) return job
+      if (job.status !== 'queued' && job.status !== 'paused' && job.status !== 'failed') {
+        throw new Error(`A ${job.status} job cannot be cancelled`)
+      }
+      return { ...job, status: 'cancelled', historyId: generateUUID(), historyLogged: false, updatedAt: now }
+    }))
+    console.log(`🗑️ Print job ${jobId} cancelled`)
+    await this.logHistory()
+  }
+
+  /**
+   * Print a job again as a new job
+   * Official receipts are reprinted from Sales Receipts so the reprint is numbered and marked.
+   */
+  async reprint(jobId: string): Promise<PrintJob> {
+    const job = (await this.load()).find(current => current.id === jobId)
+    if (!job) {
+      throw new Error('Print job not found')
+    }
+    if (job.kind === 'sales_receipt') {
+      throw new Error('Reprint official receipts from Sales Receipts')
+    }
+
+    return await this.print({
+      storeId: job.storeId,
+      kind: job.kind,
+      title: job.title,
+      orderId: job.orderId,
+      orderNumber: job.orderNumber,
+      content: job.content,
+      reprintOf: job.reprintOf || job.id,
+    })
+  }
+
+  /**
+   * Print jobs logged for an order, newest first
+   */
+  async getOrderPrintHistory(orderId: string): Promise<PrintHistoryEntry[]> {
+    const { data, error } = await supabase
+      .from('print_history')
+      .select('*')
+      .eq('order_id', orderId)
+      .order('finished_at', { ascending: false })
+
+    if (error) throw error
+    return (data || []) as PrintHistoryEntry[]
+  }
+
+  /**
+   * Print queued jobs one at a time, oldest first
+   * Callers that arrive while the queue is running wait for the same run.
+   */
+  processQueue(): Promise<void> {
+    if (this.processing) {
+      this.rerunRequested = true
+      return this.processing
+    }
+
+    this.processing = (async () => {
+      try {
+        do {
+          this.rerunRequested = false
+          await this.runQueue()
+        } while (this.rerunRequested)
+      } finally {
+        this.processing = null
+        this.notify()
+      }
+    })()
+    this.notify()
+    return this.processing
+  }
+
+  private async runQueue(): Promise<void> {
+    for (;;) {
+      const job = (await this.load())
+        .filter(current => current.status === 'queued')
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt))[0]
+      if (!job) break
+      await this.runJob(job.id)
+    }
+
+    await this.logHistory()
+    await this.trimEndedJobs()
+  }
+
+  private async runJob(jobId: string): Promise<void> {
+    const printer = ThermalPrinterService.getInstance()
+    let waitChecks = 0
+    let reportedState: PrinterState | null = null
+
+    for (;;) {
+      // Staff may have cancelled the job in the meantime
+      const job = (await this.load()).find(current => current.id === jobId)
+      if (!job || job.status !== 'queued') return
+
+      const printerState = reportedState ?? await printer.getPrinterState().catch((): PrinterState => 'unknown')
+      reportedState = null
+      const action = getPrinterStateAction(printerState)
+
+      if (action === 'wait' && waitChecks < MAX_WAIT_CHECKS) {
+        waitChecks++
+        await this.updateJob(jobId, current => ({ ...current, printerState }))
+        console.log(`⏳ Printer ${PRINTER_STATES[printerState].label.toLowerCase()}, waiting before ${job.title}...`)
+        await sleep(WAIT_DELAY_MS)
+        continue
+      }
+
+      if (action !== 'print') {
+        await this.pauseQueue(job.storeId, printerState)
+        console.log(`⏸️ Print queue paused: ${PRINTER_STATES[printerState].label}`)
+        return
+      }
+
+      await this.updateJob(jobId, current => ({
+        ...current,
+        status: 'printing',
+        attempts: current.attempts + 1,
+        printerState,
+      }))
+
+      let printed = false
+      let lastError: string | null = null
+      try {
+        printed = job.content.type === 'document'
+          ? await printer.printDocument(job.content.document)
+          : await printer.printReport(job.content.lines)
+        if (!printed) {
+          lastError = printerState === 'ready' || printerState === 'unknown'
+            ? 'The printer did not accept the job'
+            : PRINTER_STATES[printerState].label
+        }
+      } catch (error) {
+        if (error instanceof PrinterStateError && getPrinterStateAction(error.state) !== 'print') {
+          // The printer changed state since the check above; wait or pause as the check would have
+          await this.updateJob(jobId, current => ({ ...current, status: 'queued', attempts: current.attempts - 1 }))
+          reportedState = error.state
+          continue
+        }
+        lastError = error instanceof Error ? error.message : String(error)
+      }
+
+      if (printed) {
+        await this.updateJob(jobId, current => ({
+          ...current,
+          status: 'printed',
+          lastError: null,
+          historyId: generateUUID(),
+          historyLogged: false,
+          printedAt: new Date().toISOString(),
+        }))
+        console.log(`✅ ${job.title} printed`)
+        return
+      }
+
+      const attempts = job.attempts + 1
+      const failed = attempts >= MAX_ATTEMPTS
+      await this.updateJob(jobId, current => ({
+        ...current,
+        status: failed ? 'failed' : 'queued',
+        lastError,
+        ...(failed ? { historyId: generateUUID(), historyLogged: false } : {}),
+      }))
+
+      if (failed) {
+        console.error(`❌ ${job.title} failed after ${attempts} attempts:`, lastError)
+        return
+      }
+
+      console.log(`🔄 ${job.title} attempt ${attempts} failed, retrying...`)
+      await sleep(RETRY_DELAY_MS)
+    }
+  }
+
+  /**
+   * Pause the store's queued jobs so they print in order once the printer is fixed
+   */
+  private async pauseQueue(storeId: string, printerState: PrinterState): Promise<void> {
+    const now = new Date().toISOString()
+    await this.mutate(jobs => jobs.map(job =>
+      job.storeId === storeId && job.status === 'queued'
+        ? { ...job, status: 'paused', printerState, lastError: PRINTER_STATES[printerState].label, updatedAt: now }
+        : job
+    ))
+  }
+
+  private async requeue(jobId: string, fromStatuses: PrintJob['status'][]): Promise<void> {
+    await this.mutate(jobs => jobs.map(job => {
+      if (job.id !== jobId) return job
+      if (!fromStatuses.includes(job.status)) {
+        throw new Error(`A ${job.status} job cannot be put back in the queue`)
+      }
+      return { ...job, status: 'queued', attempts: 0, updatedAt: new Date().toISOString() }
+    }))
+  }
+
+  private async processAndGet(jobId: string): Promise<PrintJob> {
+    await this.processQueue()
+    const job = (await this.load()).find(current => current.id === jobId)
+    if (!job) {
+      throw new Error('Print job not found')
+    }
+    return job
+  }
+
+  /**
+   * Write ended jobs of orders to print_history
+   * Jobs that cannot be logged now, e.g. while offline, are logged on a later run.
+   */
+  private async logHistory(): Promise<void> {
+    const jobs = (await this.load()).filter(job => job.historyId && !job.historyLogged)
+    if (jobs.length === 0) return
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session?.user) return
+
+      const deviceId = await getDeviceId()
+      for (const job of jobs) {
+        if (!job.orderId || (job.status !== 'printed' && job.status !== 'failed' && job.status !== 'cancelled')) {
+          await this.updateJob(job.id, current => ({ ...current, historyLogged: true }))
+          continue
+        }
+
+        const { error } = await supabase
+          .from('print_history')
+          .insert({
+            id: job.historyId,
+            store_id: job.storeId,
+            order_id: job.orderId,
+            order_number: job.orderNumber,
+            job_id: job.id,
+            job_kind: job.kind,
+            title: job.title,
+            status: job.status,
+            attempts: job.attempts,
+            printer_state: job.printerState,
+            error: job.status === 'printed' ? null : job.lastError,
+            is_reprint: !!job.reprintOf,
+            printed_by: session.user.id,
+            device_id: deviceId,
+            queued_at: job.createdAt,
+            finished_at: job.updatedAt,
+          })
+
+        // 23505: the row reached the server on an earlier run
+        if (error && error.code !== '23505') throw error
+        await this.updateJob(job.id, current => (
+          current.historyId === job.historyId ? { ...current, historyLogged: true } : current
+        ))
+      }
+    } catch (error) {
+      if (isNetworkError(error)) {
+        console.log('📴 Offline, print history will be logged later')
+      } else {
+        console.error('❌ Error logging print history:', error)
+      }
+    }
+  }
+
+  /**
+   * Keep the latest ended jobs on the device
+   */
+  private async trimEndedJobs(): Promise<void> {
+    await this.mutate(jobs => {
+      const ended = jobs
+        .filter(job => (job.status === 'printed' || job.status === 'cancelled') && (job.historyLogged || !job.historyId))
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      if (ended.length <= MAX_ENDED_JOBS) return jobs
+
+      const removed = new Set(ended.slice(MAX_ENDED_JOBS).map(job => job.id))
+      return jobs.filter(job => !removed.has(job.id))
+    })
+  }
+
+  private async updateJob(jobId: string, updater: (job: PrintJob) => PrintJob): Promise<void> {
+    await this.mutate(jobs => jobs.map(job =>
+      job.id === jobId ? { ...updater(job), updatedAt: new Date().toISOString() } : job
+    ))
+  }
+
+  private async mutate(updater: (jobs: PrintJob[]) => PrintJob[]): Promise<void> {
+    await this.recoverInterruptedJobs()
+    await this.write(updater)
+    this.notify()
+  }
+
+  private async load(): Promise<PrintJob[]> {
+    await this.recoverInterruptedJobs()
+    return await this.read()
+  }
+
+  /**
+   * Jobs left queued or printing when the app closed wait for staff instead of
+   * printing unexpectedly on the next start
+   */
+  private recoverInterruptedJobs(): Promise<void> {
+    if (!this.recovery) {
+      this.recovery = this.write(jobs => jobs.map(job =>
+        job.status === 'queued' || job.status === 'printing'
+          ? { ...job, status: 'paused', lastError: 'Printing was interrupted' }
+          : job
+      )).catch(error => {
+        console.error('Error recovering interrupted print jobs:', error)
+      })
+    }
+    return this.recovery
+  }
+
+  /**
+   * Serialize read-modify-write cycles so concurrent callers never overwrite each other
+   */
+  private async write(updater: (jobs: PrintJob[]) => PrintJob[]): Promise<void> {
+    const run = this.writeChain.then(async () => {
+      const jobs = await this.read()
+      await AsyncStorage.setItem(PRINT_QUEUE_KEY, JSON.stringify(updater(jobs)))
+    })
+    this.writeChain = run.catch(() => undefined)
+    await run
+  }
+
+  private async read(): Promise<PrintJob[]> {
+    try {
+      const json = await AsyncStorage.getItem(PRINT_QUEUE_KEY)
+      return json ? (JSON.parse(json) as PrintJob[]) : []
+    } catch (error) {
+      console.error('Error reading print queue:', error)
+      return []
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener()
+      } catch (error) {
+        console.error('Print queue listener error:', error)
+      }
+    })
+  }
+}
+
+// Export singleton instance
+export default new PrintQueueService()
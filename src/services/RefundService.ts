@@ -0,0 +1,129 @@
+import { supabase } from '../../lib/supabase'
+import ThermalPrinterService from './ThermalPrinterService'
+import { PendingRefund, RecordRefundInput, Refund, RefundablePayment, RefundSlip } from '../types/refund'
+import { formatRefundSlipLines, getRefundablePayments } from '../utils/refunds'
+
+/**
+ * Refund Service - Handles money given back to customers
+ *
+ * Refunds are recorded through the record_refund database function, which
+ * uses up the manager approval, checks what is left to refund on the payment,
+ * settles refund_required on cancelled orders and ties cash refunds to the
+ * refunder's open cash drawer shift.
+ */
+class RefundService {
+  /**
+   * Refunds still owed to customers of a store, oldest first
+   */
+  async getPendingRefunds(storeId: string): Promise<PendingRefund[]> {
+    const { data, error } = await supabase
+      .from('pending_refunds')
+      .select('*')
+      .eq('store_id', storeId)
+      .order('since', { ascending: true })
+
+    if (error) throw error
+    return (data || []) as PendingRefund[]
+  }
+
+  /**
+   * Recent refunds of a store, newest first
+   */
+  async getRecentRefunds(storeId: string, limit: number = 20): Promise<Refund[]> {
+    const { data, error } = await supabase
+      .from('refunds')
+      .select('*')
+      .eq('store_id', storeId)
+      .order('refunded_at', { ascending: false })
+      .limit(limit)
+
+    if (error) throw error
+    return (data || []) as Refund[]
+  }
+
+  /**
+   * Payments of an order that can still be refunded
+   *
+   * Orders cancelled before cancellation kept the order were deleted with their
+   * payments; for those the payments saved on the cancelled order are used.
+   *
+   * @param orderId - Order the payments belong to
+   * @param cancelledOrderId - Cancelled order record, when the order was cancelled
+   */
+  async getRefundablePayments(orderId: string, cancelledOrderId?: string | null): Promise<RefundablePayment[]> {
+    let payments: any[] = []
+
+    if (cancelledOrderId) {
+      const { data, error } = await supabase
+        .from('cancelled_orders')
+        .select('metadata')
+        .eq('id', cancelledOrderId)
+        .single()
+
+      if (error) throw error
+      payments = data?.metadata?.payments || []
+    }
+
+    if (payments.length === 0) {
+      const { data, error } = await supabase
+        .from('payments')
+        .select('id, amount, payment_method, payment_date, reference_number')
+        .eq('order_id', orderId)
+        .or('is_cancelled.eq.false,is_cancelled.is.null')
+        .order('payment_date', { ascending: true })
+
+      if (error) throw error
+      payments = data || []
+    }
+
+    const { data: refunds, error: refundsError } = await supabase
+      .from('refunds')
+      .select('payment_id, amount')
+      .eq('order_id', orderId)
+
+    if (refundsError) throw refundsError
+
+    return getRefundablePayments(payments, refunds || [])
+  }
+
+  /**
+   * Records a refund approved by a store manager
+   *
+   * @throws Error if the refund is more than what is left of the payment or order
+   */
+  async recordRefund(input: RecordRefundInput): Promise<Refund> {
+    const { data, error } = await supabase.rpc('record_refund', {
+      p_refund: {
+        order_id: input.orderId,
+        cancelled_order_id: input.cancelledOrderId || null,
+        payment_id: input.paymentId,
+        amount: input.amount,
+        refund_method_id: input.refundMethodId,
+        reference_number: input.referenceNumber || null,
+        reason: input.reason,
+        approval_id: input.approvalId,
+        notes: input.notes || null,
+      },
+    })
+
+    if (error) {
+      console.error('❌ record_refund failed:', error)
+      throw new Error(error.message || 'Failed to record refund')
+    }
+
+    console.log(`✅ Refund of ₱${input.amount.toFixed(2)} recorded`)
+    return data as Refund
+  }
+
+  /**
+   * Prints the slip given to the customer with their refund
+   *
+   * @returns True if the slip was printed
+   */
+  async printRefundSlip(slip: RefundSlip): Promise<boolean> {
+    return await ThermalPrinterService.getInstance().printReport(formatRefundSlipLines(slip))
+  }
+}
+
+// Export singleton instance
+export default new RefundService()
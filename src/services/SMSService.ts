@@ -1,51 +1,143 @@
 import SendSMS from 'react-native-sms'
+import { supabase } from '../../lib/supabase'
+import { SmsEvent, SmsLanguage, SmsTemplate, SmsTemplateValues } from '../types/sms'
+import { formatStorageNotice, getOrderSmsValues, renderSmsTemplate, resolveSmsTemplate } from '../utils/smsTemplates'
 
 type SMSCallbackError = unknown
 
-interface OrderItem {
-  service_name: string
-  quantity: number
-  unit_price: number
-  total_price: number
+interface SendNotificationParams {
+  storeId: string
+  phoneNumber: string
+  event: SmsEvent
+  language: SmsLanguage
+  values: SmsTemplateValues
 }
 
-interface SendOrderCompletionSMSParams {
+interface SendUnclaimedReminderSMSParams {
+  storeId: string
   phoneNumber: string
   customerFirstName: string
   orderNumber: string
   storeName: string
-  orderItems: OrderItem[]
+  storePhone?: string | null
+  daysReady: number
+  balance: number // Amount due at pickup, storage fees included
+  storageFeePerDay: number // 0 when the store charges no storage fee
+  daysUntilStorageFee: number // 0 once storage fees apply
+  language: SmsLanguage
 }
 
 /**
  * SMS Service - Handles sending SMS notifications
  * 
  * This service wraps the react-native-sms library to provide
- * a clean interface for sending SMS messages, particularly
- * for order completion notifications.
+ * a clean interface for sending SMS messages. Messages are built from
+ * the store's templates for each event (order received, ready for pickup,
+ * payment received, pickup reminder and overdue), falling back to the
+ * built-in templates for events the store has not edited.
  */
 class SMSService {
   /**
-   * Sends an SMS notification when an order is marked as complete
-   * 
-   * @param params - Object containing phone number, customer first name, order number, store name, and order items
-   * @returns Promise that resolves when SMS is sent/cancelled, rejects on error
+   * Templates a store has edited. Events without a row use the defaults.
+   */
+  async getTemplates(storeId: string): Promise<SmsTemplate[]> {
+    const { data, error } = await supabase
+      .from('sms_templates')
+      .select('*')
+      .eq('store_id', storeId)
+
+    if (error) throw error
+    return (data || []) as SmsTemplate[]
+  }
+
+  /**
+   * Saves a store's wording for an event in one language
+   */
+  async saveTemplate(storeId: string, event: SmsEvent, language: SmsLanguage, body: string): Promise<SmsTemplate> {
+    const { data, error } = await supabase
+      .from('sms_templates')
+      .upsert(
+        { store_id: storeId, event, language, body },
+        { onConflict: 'store_id,event,language' }
+      )
+      .select()
+      .single()
+
+    if (error) {
+      console.error('❌ Failed to save SMS template:', error)
+      throw new Error(error.message || 'Failed to save template')
+    }
+
+    console.log(`✅ SMS template saved: ${event} (${language})`)
+    return data as SmsTemplate
+  }
+
+  /**
+   * Goes back to the default template for an event in one language
+   */
+  async resetTemplate(storeId: string, event: SmsEvent, language: SmsLanguage): Promise<void> {
+    const { error } = await supabase
+      .from('sms_templates')
+      .delete()
+      .eq('store_id', storeId)
+      .eq('event', event)
+      .eq('language', language)
+
+    if (error) {
+      console.error('❌ Failed to reset SMS template:', error)
+      throw new Error(error.message || 'Failed to reset template')
+    }
+  }
+
+  /**
+   * Sends a notification built from the store's template for an event
+   *
+   * @param params - Object containing the store, phone number, event, language and placeholder values
+   * @returns True unless sending was cancelled by the user; rejects on error
    */
-  async sendOrderCompletionSMS(params: SendOrderCompletionSMSParams): Promise<void> {
-    const { phoneNumber, customerFirstName, orderNumber, storeName, orderItems } = params
-
-    // Format order items list
-    let itemsList = ''
-    if (orderItems && orderItems.length > 0) {
-      const itemsText = orderItems
-        .map(item => `${item.quantity}x ${item.service_name}`)
-        .join(', ')
-      itemsList = `\n\nItems: ${itemsText}`
+  async sendNotification(params: SendNotificationParams): Promise<boolean> {
+    const { storeId, phoneNumber, event, language, values } = params
+
+    // Without a connection the default wording is better than no message
+    let templates: SmsTemplate[] = []
+    try {
+      templates = await this.getTemplates(storeId)
+    } catch (error) {
+      console.warn('⚠️ Could not load SMS templates, using the defaults:', error)
     }
 
-    // Format the message according to specification
-    const message = `Good day ${customerFirstName}, your laundry #${orderNumber} is ready for pickup.${itemsList}\n\nThank you! - ${storeName}`
+    const message = renderSmsTemplate(resolveSmsTemplate(templates, event, language), values)
+    return this.send(phoneNumber, message)
+  }
 
+  /**
+   * Sends a reminder to pick up an order that has been ready for a while
+   *
+   * @param params - Object containing the customer, order, days since ready, balance and storage fee terms
+   * @returns True unless sending was cancelled by the user; rejects on error
+   */
+  async sendUnclaimedReminderSMS(params: SendUnclaimedReminderSMSParams): Promise<boolean> {
+    const { storeId, phoneNumber, customerFirstName, orderNumber, storeName, storePhone, daysReady, balance, storageFeePerDay, daysUntilStorageFee, language } = params
+
+    return this.sendNotification({
+      storeId,
+      phoneNumber,
+      event: 'pickup_reminder',
+      language,
+      values: {
+        ...getOrderSmsValues({ customerFirstName, orderNumber, balance }, { name: storeName, phone: storePhone }),
+        days_ready: String(daysReady),
+        storage_notice: formatStorageNotice(language, storageFeePerDay, daysUntilStorageFee),
+      },
+    })
+  }
+
+  /**
+   * Opens the SMS composer with a message for one recipient
+   *
+   * @returns Resolves false if the user cancelled
+   */
+  private send(phoneNumber: string, message: string): Promise<boolean> {
     return new Promise((resolve, reject) => {
       SendSMS.send(
         {
@@ -75,18 +167,18 @@ class SMSService {
 
           if (cancelled) {
             console.log('⚠️ SMS sending was cancelled by user')
-            resolve()
+            resolve(false)
             return
           }
 
           if (completed) {
             console.log('✅ SMS sent successfully')
-            resolve()
+            resolve(true)
             return
           }
 
           // Default: resolve if no error
-          resolve()
+          resolve(true)
         }
       )
     })
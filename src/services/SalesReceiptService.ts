@@ -0,0 +1,185 @@
+import { supabase } from '../../lib/supabase'
+import PrintQueueService from './PrintQueueService'
+import { SalesReceipt, SalesReceiptPrintData, SalesReceiptReprint } from '../types/salesReceipt'
+import { PrintJob } from '../types/printQueue'
+import { summarizeDiscounts } from '../utils/pricingRules'
+import { getOrderTaxBreakdown } from '../utils/tax'
+import { formatReceiptNumber } from '../utils/salesReceipts'
+
+/**
+ * Sales Receipt Service - Issues and prints customer sales receipts
+ *
+ * Receipts are issued by the issue_sales_receipt database function, which takes
+ * the next receipt number of the store and attaches the order payments that are
+ * not on a receipt yet, in one transaction. Each print goes through
+ * record_sales_receipt_print first: the first print is stamped on the receipt
+ * and every later one is logged as a reprint and printed marked REPRINT.
+ */
+class SalesReceiptService {
+  /**
+   * Issues a receipt for the payments of an order that are not on a receipt yet
+   *
+   * @param paymentIds - Only put these payments on the receipt, e.g. the payment just collected
+   * @throws Error if the order has no such payments or the server rejects the request
+   */
+  async issueReceipt(orderId: string, paymentIds?: string[]): Promise<SalesReceipt> {
+    const { data, error } = await supabase.rpc('issue_sales_receipt', {
+      p_order_id: orderId,
+      p_payment_ids: paymentIds || null,
+    })
+
+    if (error) {
+      console.error('❌ issue_sales_receipt failed:', error)
+      throw new Error(error.message || 'Failed to issue receipt')
+    }
+
+    const receipt = data as SalesReceipt
+    console.log(`✅ Receipt ${formatReceiptNumber(receipt.receipt_number)} issued for ${receipt.order_number}`)
+    return receipt
+  }
+
+  /**
+   * Receipts of a store, latest first
+   *
+   * @param search - Receipt number or order number to look for
+   */
+  async getReceipts(storeId: string, search?: string, limit: number = 50): Promise<SalesReceipt[]> {
+    let query = supabase
+      .from('sales_receipts')
+      .select('*')
+      .eq('store_id', storeId)
+
+    const term = search?.trim()
+    if (term) {
+      const number = parseInt(term, 10)
+      query = /^\d+$/.test(term)
+        ? query.or(`receipt_number.eq.${number},order_number.ilike.%${term}%`)
+        : query.ilike('order_number', `%${term}%`)
+    }
+
+    const { data, error } = await query
+      .order('receipt_number', { ascending: false })
+      .limit(limit)
+
+    if (error) throw error
+    return (data || []) as SalesReceipt[]
+  }
+
+  /**
+   * Reprints of a receipt, latest first
+   */
+  async getReprints(receiptId: string): Promise<SalesReceiptReprint[]> {
+    const { data, error } = await supabase
+      .from('sales_receipt_reprints')
+      .select('*')
+      .eq('receipt_id', receiptId)
+      .order('reprinted_at', { ascending: false })
+
+    if (error) throw error
+    return (data || []) as SalesReceiptReprint[]
+  }
+
+  /**
+   * Records the print of a receipt and queues it
+   *
+   * The print is recorded before it is sent to the printer, so a reprint is
+   * logged even when the printer fails after paper came out.
+   *
+   * @param reason - Why the receipt is reprinted; ignored on the first print
+   * @returns The print job once it has printed, failed or been paused
+   * @throws Error if the server rejects the print
+   */
+  async printReceipt(receipt: SalesReceipt, reason?: string): Promise<PrintJob> {
+    const { data, error } = await supabase.rpc('record_sales_receipt_print', {
+      p_receipt_id: receipt.id,
+      p_reason: reason || null,
+    })
+
+    if (error) {
+      console.error('❌ record_sales_receipt_print failed:', error)
+      throw new Error(error.message || 'Failed to record receipt print')
+    }
+
+    const printData = await this.loadPrintData(data as SalesReceipt)
+    return await PrintQueueService.printSalesReceipt(printData)
+  }
+
+  /**
+   * Updates the business details a store prints on its receipts
+   */
+  async updateBusinessDetails(storeId: string, details: { businessName: string; tin: string }): Promise<void> {
+    const { error } = await supabase
+      .from('stores')
+      .update({
+        business_name: details.businessName.trim() || null,
+        tin: details.tin.trim() || null,
+      })
+      .eq('id', storeId)
+
+    if (error) throw error
+    console.log(`✅ Receipt business details updated for store ${storeId}`)
+  }
+
+  /**
+   * Store, cashier and order details printed on a receipt
+   */
+  private async loadPrintData(receipt: SalesReceipt): Promise<SalesReceiptPrintData> {
+    const [storeResult, cashierResult, orderResult] = await Promise.all([
+      supabase
+        .from('stores')
+        .select('name, address, phone, email, business_name, tin')
+        .eq('id', receipt.store_id)
+        .single(),
+      supabase
+        .from('users')
+        .select('first_name, last_name')
+        .eq('id', receipt.issued_by)
+        .maybeSingle(),
+      supabase
+        .from('orders')
+        .select('*, order_items (*), order_adjustments (*)')
+        .eq('id', receipt.order_id)
+        .maybeSingle(),
+    ])
+
+    if (storeResult.error) {
+      console.log('⚠️ Failed to load store details for the receipt:', storeResult.error)
+    }
+    const store = storeResult.data
+    const cashier = cashierResult.data
+    const order = orderResult.data
+
+    return {
+      receipt,
+      reprint: receipt.reprint_count > 0,
+      cashierName: cashier ? `${cashier.first_name || ''} ${cashier.last_name || ''}`.trim() || null : null,
+      storeInfo: {
+        name: store?.name || 'LaundroPOS',
+        address: store?.address || '',
+        phone: store?.phone || '',
+        email: store?.email || '',
+        businessName: store?.business_name || null,
+        tin: store?.tin || null,
+      },
+      order: order
+        ? {
+            items: (order.order_items || []).map((item: any) => ({
+              name: item.service_name,
+              quantity: item.quantity,
+              price: Number(item.unit_price),
+              pricing_mode: item.pricing_mode,
+              weight: item.weight,
+            })),
+            totalAmount: Number(order.total_amount),
+            subtotal: Number(order.subtotal),
+            discounts: summarizeDiscounts(order.order_adjustments || []),
+            tax: getOrderTaxBreakdown(order),
+            storageFee: Number(order.storage_fee || 0),
+          }
+        : null,
+    }
+  }
+}
+
+// Export singleton instance
+export default new SalesReceiptService()
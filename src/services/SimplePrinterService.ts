@@ -1,26 +1,7 @@
 import { NativeModules, Platform } from 'react-native'
 import PrinterDebugger from './PrinterDebugger'
-
-interface OrderItem {
-  name: string
-  quantity: number
-  price: number
-}
-
-interface Order {
-  orderId: string
-  customerName: string
-  orderDate: string
-  totalAmount: number
-  items: OrderItem[]
-  storeInfo?: {
-    name: string
-    address: string
-    phone?: string
-    email?: string
-  }
-  orderNumber?: string
-}
+import { ReceiptDocument } from '../types/receipt'
+import { renderReceiptText } from '../utils/receiptDocument'
 
 class SimplePrinterService {
   private static instance: SimplePrinterService
@@ -75,17 +56,33 @@ class SimplePrinterService {
     }
   }
 
-  async printOrderClaimStub(order: Order): Promise<boolean> {
+  /**
+   * Print a receipt document as plain text; QR codes, barcodes and images are left out
+   */
+  async printDocument(document: ReceiptDocument): Promise<boolean> {
+    try {
+      if (!this.isConnected) {
+        console.error('Printer not connected')
+        return false
+      }
+
+      return await this.printText(renderReceiptText(document, { omitGraphics: true }).join('\n') + '\n')
+    } catch (error) {
+      console.error('Print document failed:', error)
+      return false
+    }
+  }
+
+  async printReport(reportLines: string[]): Promise<boolean> {
     try {
       if (!this.isConnected) {
         console.error('Printer not connected')
         return false
       }
 
-      const claimStubText = this.generateClaimStubText(order)
-      return await this.printText(claimStubText)
+      return await this.printText(reportLines.join('\n') + '\n\n\n')
     } catch (error) {
-      console.error('Print order claim stub failed:', error)
+      console.error('Print report failed:', error)
       return false
     }
   }
@@ -100,111 +97,6 @@ Test completed successfully!
 `
   }
 
-  private generateClaimStubText(order: Order): string {
-    const orderNumber = order.orderNumber || `ORD-${order.orderId.substring(0, 8).toUpperCase()}`
-    const date = new Date(order.orderDate)
-    const dateStr = this.formatDate(date)
-    const timeStr = this.formatTime(date)
-
-    console.log('📋 SimplePrinterService - Generating claim stub with store info:', {
-      name: order.storeInfo?.name,
-      address: order.storeInfo?.address,
-      phone: order.storeInfo?.phone,
-      email: order.storeInfo?.email
-    })
-
-    let text = `\n`
-    
-    // Store details (centered)
-    if (order.storeInfo?.name) {
-      const storeName = order.storeInfo.name.toUpperCase()
-      // Center the store name (assuming 32 character width)
-      const padding = Math.max(0, Math.floor((32 - storeName.length) / 2))
-      text += ' '.repeat(padding) + storeName + `\n`
-    }
-    
-    // Store address (centered)
-    if (order.storeInfo?.address) {
-      const address = order.storeInfo.address
-      const padding = Math.max(0, Math.floor((32 - address.length) / 2))
-      text += ' '.repeat(padding) + address + `\n`
-    }
-    
-    // Contact No. (centered)
-    if (order.storeInfo?.phone && order.storeInfo.phone.trim()) {
-      const contactLine = `Contact No.: ${order.storeInfo.phone.trim()}`
-      const padding = Math.max(0, Math.floor((32 - contactLine.length) / 2))
-      text += ' '.repeat(padding) + contactLine + `\n`
-      console.log('✅ SimplePrinterService - Added phone:', contactLine)
-    } else {
-      console.log('⚠️ SimplePrinterService - No phone number:', order.storeInfo?.phone)
-    }
-    
-    // Email Address (centered) - label on one line, email on next line
-    if (order.storeInfo?.email && order.storeInfo.email.trim()) {
-      const emailLabel = 'Email Address:'
-      const emailValue = order.storeInfo.email.trim()
-      // Center the label
-      const labelPadding = Math.max(0, Math.floor((32 - emailLabel.length) / 2))
-      text += ' '.repeat(labelPadding) + emailLabel + `\n`
-      // Center the email value on next line
-      const emailPadding = Math.max(0, Math.floor((32 - emailValue.length) / 2))
-      text += ' '.repeat(emailPadding) + emailValue + `\n`
-      console.log('✅ SimplePrinterService - Added email:', emailLabel, emailValue)
-    } else {
-      console.log('⚠️ SimplePrinterService - No email:', order.storeInfo?.email)
-    }
-    
-    // Divider
-    text += `================================\n`
-    
-    // Claim Stub Header
-    text += `CLAIM STUB\n`
-    text += `\n`
-    
-    // Order Number
-    text += `Order #: ${orderNumber}\n`
-    
-    // Date and Time
-    text += `Date: ${dateStr}\n`
-    text += `Time: ${timeStr}\n`
-    text += `\n`
-    
-    // Divider
-    text += `================================\n`
-    text += `\n`
-    
-    // Customer Information
-    text += `Customer:\n`
-    text += `${order.customerName}\n`
-    text += `\n`
-    
-    // Services/Items
-    text += `Services:\n`
-    order.items.forEach((item) => {
-      const line = `${item.quantity}x ${item.name.substring(0, 20)}`
-      const price = `₱${item.price.toFixed(2)}`
-      const spaces = Math.max(1, 32 - line.length - price.length)
-      text += line + ' '.repeat(spaces) + price + '\n'
-    })
-    
-    text += `\n`
-    
-    // Divider
-    text += `================================\n`
-    
-    // Total
-    text += `TOTAL: ₱${order.totalAmount.toFixed(2)}\n`
-    text += `\n`
-    
-    // Footer message
-    text += `Thank you for your business!\n`
-    text += `Please keep this stub for pickup.\n`
-    text += `\n\n\n`
-    
-    return text
-  }
-
   private async printText(text: string): Promise<boolean> {
     try {
       console.log('🖨️ Attempting to print via built-in printer...')
@@ -383,19 +275,6 @@ Test completed successfully!
       return false
     }
   }
-
-  private formatDate(date: Date): string {
-    const year = date.getFullYear()
-    const month = String(date.getMonth() + 1).padStart(2, '0')
-    const day = String(date.getDate()).padStart(2, '0')
-    return `${month}/${day}/${year}`
-  }
-
-  private formatTime(date: Date): string {
-    const hours = String(date.getHours()).padStart(2, '0')
-    const minutes = String(date.getMinutes()).padStart(2, '0')
-    return `${hours}:${minutes}`
-  }
 }
 
 export default SimplePrinterService
@@ -1,25 +1,8 @@
 import { NativeModules, Platform } from 'react-native'
-
-interface OrderItem {
-  name: string
-  quantity: number
-  price: number
-}
-
-interface Order {
-  orderId: string
-  customerName: string
-  orderDate: string
-  totalAmount: number
-  items: OrderItem[]
-  storeInfo?: {
-    name: string
-    address: string
-    phone?: string
-    email?: string
-  }
-  orderNumber?: string
-}
+import { ReceiptDocument, ReceiptTextSize } from '../types/receipt'
+import { alignText, formatColumnsLine } from '../utils/receiptDocument'
+import { PrinterState } from '../types/printQueue'
+import { getSunmiPrinterState } from '../utils/printQueue'
 
 type SunmiModule = {
   initPrinter: (success: () => void, fail: (message: string) => void) => void
@@ -32,11 +15,32 @@ type SunmiModule = {
     fail: (message: string) => void
   ) => void
   printLine: (line: number, success: () => void, fail: (message: string) => void) => void
+  printQRCode?: (data: string, moduleSize: number, errorLevel: number, success: () => void, fail: (message: string) => void) => void
+  printBarCode?: (
+    data: string,
+    symbology: number,
+    height: number,
+    width: number,
+    textPosition: number,
+    success: () => void,
+    fail: (message: string) => void
+  ) => void
+  printBitmapBase64?: (base64: string, width: number, success: () => void, fail: (message: string) => void) => void
   cutPaper?: (success: () => void, fail: (message: string) => void) => void
+  updatePrinterState?: () => Promise<number>
 }
 
 const DEFAULT_FONT_SIZE = 24
 
+const FONT_SIZES: Record<ReceiptTextSize, number> = {
+  normal: DEFAULT_FONT_SIZE,
+  large: 26,
+  xlarge: 28,
+}
+
+// Sunmi barcode symbology codes
+const BARCODE_SYMBOLOGIES = { EAN13: 2, CODE39: 4, CODE128: 8 }
+
 class SunmiPrinterService {
   private static instance: SunmiPrinterService
   private isConnected: boolean = false
@@ -103,32 +107,97 @@ class SunmiPrinterService {
     }
   }
 
-  async printOrderClaimStub(order: Order): Promise<boolean> {
+  /**
+   * Print a receipt document. The printer has no alignment command, so centered and
+   * right-aligned text is padded to the line width.
+   */
+  async printDocument(document: ReceiptDocument): Promise<boolean> {
     try {
       if (!this.ensureReady()) {
         return false
       }
 
-      console.log('🖨️ Printing claim stub via Sunmi printer...')
-      const lines = this.generateClaimStubLines(order)
-      for (const line of lines) {
-        if (line.type === 'text') {
-          await this.printLine(line.value, { bold: line.bold, size: line.size })
-        } else if (line.type === 'divider') {
-          await this.printDivider()
-        } else if (line.type === 'space') {
-          await this.feedLines(line.count ?? 1)
+      console.log('🖨️ Printing document via Sunmi printer...')
+      const width = document.lineWidth
+      for (const block of document.blocks) {
+        switch (block.type) {
+          case 'text': {
+            const text = block.align && block.align !== 'left'
+              ? alignText(block.text, width, block.align).replace(/\s+$/, '')
+              : block.text
+            await this.printLine(text, { bold: block.bold, size: FONT_SIZES[block.size ?? 'normal'] })
+            break
+          }
+          case 'columns':
+            await this.printLine(formatColumnsLine(block.columns, width), { bold: block.bold })
+            break
+          case 'divider':
+            await this.printLine(block.char.repeat(width).substring(0, width))
+            break
+          case 'qr':
+            if (!(await this.callSunmiMethod('printQRCode', [block.data, block.size, 1]))) {
+              console.log('⚠️ Sunmi: QR codes not supported, printing the data instead')
+              await this.printLine(alignText(block.data, width, 'center'))
+            }
+            await this.feedLines(1)
+            break
+          case 'barcode':
+            if (!(await this.callSunmiMethod('printBarCode', [
+              block.data,
+              BARCODE_SYMBOLOGIES[block.symbology],
+              block.height,
+              2,
+              block.showText ? 2 : 0,
+            ]))) {
+              console.log('⚠️ Sunmi: Barcodes not supported, printing the data instead')
+              await this.printLine(alignText(block.data, width, 'center'))
+            }
+            await this.feedLines(1)
+            break
+          case 'image':
+            if (!(await this.callSunmiMethod('printBitmapBase64', [block.base64, block.width]))) {
+              console.log('⚠️ Sunmi: Images not supported, skipped')
+            }
+            break
+          case 'feed':
+            await this.feedLines(block.lines)
+            break
+          case 'cut':
+            if (await this.callSunmiMethod('cutPaper')) {
+              console.log('✂️ Paper cut')
+            }
+            break
         }
       }
 
+      console.log('✅ Document printed successfully via Sunmi printer')
+      return true
+    } catch (error) {
+      console.error('❌ Sunmi document print failed:', error)
+      return false
+    }
+  }
+
+  async printReport(reportLines: string[]): Promise<boolean> {
+    try {
+      if (!this.ensureReady()) {
+        return false
+      }
+
+      console.log('🖨️ Printing report via Sunmi printer...')
+      for (const line of reportLines) {
+        await this.printLine(line)
+      }
+      await this.feedLines(3)
+
       if (await this.callSunmiMethod('cutPaper')) {
         console.log('✂️ Paper cut')
       }
 
-      console.log('✅ Claim stub printed successfully via Sunmi printer')
+      console.log('✅ Report printed successfully via Sunmi printer')
       return true
     } catch (error) {
-      console.error('❌ Sunmi claim stub print failed:', error)
+      console.error('❌ Sunmi report print failed:', error)
       return false
     }
   }
@@ -137,6 +206,22 @@ class SunmiPrinterService {
     return this.isConnected
   }
 
+  /**
+   * Printer status in plain terms; unknown when the module cannot report it
+   */
+  async getPrinterState(): Promise<PrinterState> {
+    const module = this.getModule()
+    if (!module) return 'offline'
+    if (typeof module.updatePrinterState !== 'function') return 'unknown'
+
+    try {
+      return getSunmiPrinterState(await module.updatePrinterState())
+    } catch (error) {
+      console.log('⚠️ Sunmi: Could not read printer state:', error)
+      return 'unknown'
+    }
+  }
+
   canUseSunmiPrinter(): boolean {
     if (Platform.OS !== 'android') {
       return false
@@ -220,104 +305,6 @@ class SunmiPrinterService {
       }
     })
   }
-
-  private generateClaimStubLines(order: Order) {
-    const orderNumber = order.orderNumber || `ORD-${order.orderId.substring(0, 8).toUpperCase()}`
-    const date = new Date(order.orderDate)
-    const dateStr = this.formatDate(date)
-    const timeStr = this.formatTime(date)
-
-    const lines: Array<
-      | { type: 'text'; value: string; bold?: boolean; size?: number }
-      | { type: 'divider' }
-      | { type: 'space'; count?: number }
-    > = []
-
-    lines.push({ type: 'space', count: 1 })
-
-    console.log('📋 SunmiPrinterService - Generating claim stub with store info:', {
-      name: order.storeInfo?.name,
-      address: order.storeInfo?.address,
-      phone: order.storeInfo?.phone,
-      email: order.storeInfo?.email
-    })
-
-    // Store details (centered)
-    if (order.storeInfo?.name) {
-      const storeName = order.storeInfo.name.toUpperCase()
-      lines.push({ type: 'text', value: storeName, bold: true, size: 28 })
-    }
-    
-    // Store address (centered)
-    if (order.storeInfo?.address) {
-      lines.push({ type: 'text', value: order.storeInfo.address })
-    }
-    
-    // Contact No. (centered)
-    if (order.storeInfo?.phone && order.storeInfo.phone.trim()) {
-      const contactLine = `Contact No.: ${order.storeInfo.phone.trim()}`
-      lines.push({ type: 'text', value: contactLine })
-      console.log('✅ SunmiPrinterService - Added phone:', contactLine)
-    } else {
-      console.log('⚠️ SunmiPrinterService - No phone number:', order.storeInfo?.phone)
-    }
-    
-    // Email Address (centered) - label on one line, email on next line
-    if (order.storeInfo?.email && order.storeInfo.email.trim()) {
-      const emailLabel = 'Email Address:'
-      const emailValue = order.storeInfo.email.trim()
-      lines.push({ type: 'text', value: emailLabel })
-      lines.push({ type: 'text', value: emailValue })
-      console.log('✅ SunmiPrinterService - Added email:', emailLabel, emailValue)
-    } else {
-      console.log('⚠️ SunmiPrinterService - No email:', order.storeInfo?.email)
-    }
-
-    lines.push({ type: 'divider' })
-    lines.push({ type: 'text', value: 'CLAIM STUB', bold: true, size: 26 })
-    lines.push({ type: 'space', count: 1 })
-    lines.push({ type: 'text', value: `Order #: ${orderNumber}`, bold: true })
-    lines.push({ type: 'text', value: `Date: ${dateStr}` })
-    lines.push({ type: 'text', value: `Time: ${timeStr}` })
-    lines.push({ type: 'space', count: 1 })
-    lines.push({ type: 'divider' })
-    lines.push({ type: 'space', count: 1 })
-    lines.push({ type: 'text', value: 'Customer:', bold: true })
-    lines.push({ type: 'text', value: order.customerName })
-    lines.push({ type: 'space', count: 1 })
-    lines.push({ type: 'text', value: 'Services:', bold: true })
-
-    order.items.forEach(item => {
-      const line = `${item.quantity}x ${item.name.substring(0, 18)}`
-      const price = `₱${item.price.toFixed(2)}`
-      const spaces = Math.max(1, 32 - line.length - price.length)
-      const itemLine = line + ' '.repeat(spaces) + price
-      lines.push({ type: 'text', value: itemLine })
-    })
-
-    lines.push({ type: 'space', count: 1 })
-    lines.push({ type: 'divider' })
-    lines.push({ type: 'text', value: `TOTAL: ₱${order.totalAmount.toFixed(2)}`, bold: true, size: 26 })
-    lines.push({ type: 'space', count: 1 })
-    lines.push({ type: 'text', value: 'Thank you for your business!' })
-    lines.push({ type: 'text', value: 'Please keep this stub for pickup.' })
-    lines.push({ type: 'space', count: 2 })
-
-    return lines
-  }
-
-  private formatDate(date: Date): string {
-    const year = date.getFullYear()
-    const month = String(date.getMonth() + 1).padStart(2, '0')
-    const day = String(date.getDate()).padStart(2, '0')
-    return `${month}/${day}/${year}`
-  }
-
-  private formatTime(date: Date): string {
-    const hours = String(date.getHours()).padStart(2, '0')
-    const minutes = String(date.getMinutes()).padStart(2, '0')
-    return `${hours}:${minutes}`
-  }
 }
 
 export default SunmiPrinterService
@@ -2,39 +2,26 @@ import { NativeModules, Platform } from 'react-native'
 import SimplePrinterService from './SimplePrinterService'
 import POSTerminalPrinterService from './POSTerminalPrinterService'
 import SunmiPrinterService from './SunmiPrinterService'
+import EscPosPrinterService from './EscPosPrinterService'
+import { ClaimStubOrder, GarmentTagOrder, ReceiptDocument } from '../types/receipt'
+import { SalesReceiptPrintData } from '../types/salesReceipt'
+import { PrinterState } from '../types/printQueue'
+import { DEFAULT_LINE_WIDTH, renderReceiptText } from '../utils/receiptDocument'
+import { PrinterStateError } from '../utils/printQueue'
+import { buildClaimStubDocument, buildGarmentTagsDocument, buildSalesReceiptDocument } from '../utils/receiptLayouts'
 
 interface PrinterDevice {
   name: string
   address: string
 }
 
-interface OrderItem {
-  name: string
-  quantity: number
-  price: number
-}
-
-interface Order {
-  orderId: string
-  customerName: string
-  orderDate: string
-  totalAmount: number
-  items: OrderItem[]
-  storeInfo?: {
-    name: string
-    address: string
-    phone?: string
-    email?: string
-  }
-  orderNumber?: string
-}
-
-type PrinterServiceType = 'pos-terminal' | 'built-in' | 'simple' | 'pda' | 'sunmi' | null
+type PrinterServiceType = 'pos-terminal' | 'built-in' | 'simple' | 'pda' | 'sunmi' | 'escpos' | null
 
 /**
  * ThermalPrinterService - Main service for managing thermal printer functionality
  * 
  * This service acts as a facade that coordinates multiple printer services:
+ * - ESC/POS Printer (external Bluetooth or network printer chosen for the store)
  * - Sunmi Printer (for Sunmi/Q-series devices)
  * - POS Terminal Printer (for built-in PDA printers)
  * - Simple Printer (fallback for built-in printers)
@@ -50,12 +37,14 @@ class ThermalPrinterService {
   private simplePrinter: SimplePrinterService
   private posTerminalPrinter: typeof POSTerminalPrinterService
   private sunmiPrinter: SunmiPrinterService
+  private escPosPrinter: EscPosPrinterService
 
   private constructor() {
     // Initialize service
     this.simplePrinter = SimplePrinterService.getInstance()
     this.posTerminalPrinter = POSTerminalPrinterService
     this.sunmiPrinter = SunmiPrinterService.getInstance()
+    this.escPosPrinter = EscPosPrinterService.getInstance()
   }
 
   static getInstance(): ThermalPrinterService {
@@ -68,7 +57,8 @@ class ThermalPrinterService {
   /**
    * Initialize the printer by trying different printer services in order of preference.
    * 
-   * Tries services in this order:
+   * When the store has an external ESC/POS printer, only that printer is used.
+   * Otherwise tries services in this order:
    * 1. Sunmi Printer (Q-series handhelds)
    * 2. POS Terminal Printer (for built-in PDA printers)
    * 3. Built-in printer detection
@@ -85,6 +75,18 @@ class ThermalPrinterService {
         return false
       }
 
+      // An external printer chosen for the store takes the place of built-in printers
+      if (this.escPosPrinter.getConfig()) {
+        console.log('🔌 Trying external ESC/POS printer...')
+        const escPosSuccess = await this.escPosPrinter.connect()
+        this.isConnected = escPosSuccess
+        this.connectedDevice = escPosSuccess ? 'escpos' : null
+        if (!escPosSuccess) {
+          console.error('❌ External printer not reachable')
+        }
+        return escPosSuccess
+      }
+
       // Try Sunmi printer first (for Sunmi Q-series devices)
       console.log('🔌 Trying Sunmi printer service...')
       try {
@@ -285,22 +287,45 @@ class ThermalPrinterService {
   }
 
   /**
-   * Get list of paired printer devices.
-   * For built-in printers, no pairing is needed.
+   * Use the external printer saved for a store on this device, or the built-in printers
+   * when the store has none. Called when the current store changes.
    * 
-   * @returns {Promise<PrinterDevice[]>} Empty array for built-in printers
+   * @param {string | null} storeId - The current store
+   */
+  async loadStorePrinter(storeId: string | null): Promise<void> {
+    const config = storeId ? await this.escPosPrinter.loadConfig(storeId) : null
+    if (JSON.stringify(config) === JSON.stringify(this.escPosPrinter.getConfig())) {
+      return
+    }
+
+    await this.escPosPrinter.setConfig(config)
+    // Pick the printer again on the next print
+    this.isConnected = false
+    this.connectedDevice = null
+    console.log(config ? `🖨️ Using external printer ${config.connection.name}` : '🖨️ Using built-in printers')
+  }
+
+  /**
+   * Get list of Bluetooth printers paired with this device.
+   * Built-in printers need no pairing and are not listed.
+   * 
+   * @returns {Promise<PrinterDevice[]>} Paired Bluetooth printers
    */
   async getPairedDevices(): Promise<PrinterDevice[]> {
     if (Platform.OS !== 'android') {
       return []
     }
-    // For built-in printers, no pairing needed
-    return []
+
+    try {
+      return await this.escPosPrinter.getPairedPrinters()
+    } catch (error) {
+      console.error('❌ Failed to list paired printers:', error)
+      return []
+    }
   }
 
   /**
-   * Connect to a specific printer device by address.
-   * For built-in printers, connection is automatic upon initialization.
+   * Connect to a paired Bluetooth printer by address, keeping the current paper settings.
    * 
    * @param {string} deviceAddress - The address of the device to connect to
    * @returns {Promise<boolean>} True if connection was successful
@@ -311,22 +336,27 @@ class ThermalPrinterService {
       return false
     }
 
-    // For built-in printers, connection is automatic
-    // Try to initialize if not already connected
-    if (!this.isConnected) {
-      return await this.initializePrinter()
+    const device = (await this.getPairedDevices()).find(paired => paired.address === deviceAddress)
+    if (!device) {
+      console.error(`❌ Printer ${deviceAddress} is not paired with this device`)
+      return false
     }
 
-    this.connectedDevice = 'built-in'
-    this.isConnected = true
-    console.log('✅ Built-in printer ready')
-    return true
+    const current = this.escPosPrinter.getConfig()
+    await this.escPosPrinter.setConfig({
+      connection: { type: 'bluetooth', name: device.name, address: device.address },
+      paperWidth: current?.paperWidth ?? 58,
+      codePage: current?.codePage ?? 'cp437',
+      hasCutter: current?.hasCutter ?? false,
+    })
+    return await this.initializePrinter()
   }
 
   /**
    * Disconnect from the printer.
    */
   async disconnect(): Promise<void> {
+    await this.escPosPrinter.disconnect()
     this.connectedDevice = null
     this.isConnected = false
     console.log('✅ Disconnected from printer')
@@ -389,6 +419,10 @@ class ThermalPrinterService {
       console.log('🧪 Starting comprehensive test print...')
       console.log(`📍 Current printer state: connected=${this.isConnected}, device=${this.connectedDevice}`)
 
+      if (this.connectedDevice === 'escpos') {
+        return await this.escPosPrinter.testPrint()
+      }
+
       const testText = [
         '\n',
         'PRINTER TEST\n',
@@ -449,10 +483,87 @@ class ThermalPrinterService {
   /**
    * Print an order claim stub.
    * 
-   * @param {Order} order - The order object containing claim stub information
+   * @param {ClaimStubOrder} order - The order object containing claim stub information
+   * @returns {Promise<boolean>} True if print was successful
+   */
+  async printOrderClaimStub(order: ClaimStubOrder): Promise<boolean> {
+    return await this.printDocument(buildClaimStubDocument(order, this.getLineWidth()))
+  }
+
+  /**
+   * Print a sales receipt.
+   * 
+   * @param {SalesReceiptPrintData} data - The receipt, its order and the store details
+   * @returns {Promise<boolean>} True if print was successful
+   */
+  async printSalesReceipt(data: SalesReceiptPrintData): Promise<boolean> {
+    return await this.printDocument(buildSalesReceiptDocument(data, this.getLineWidth()))
+  }
+
+  /**
+   * Print the tags of an order, one per bag.
+   * 
+   * @param {GarmentTagOrder} order - The order number, customer, bag count and due date
+   * @returns {Promise<boolean>} True if print was successful
+   */
+  async printGarmentTags(order: GarmentTagOrder): Promise<boolean> {
+    return await this.printDocument(buildGarmentTagsDocument(order, this.getLineWidth()))
+  }
+
+  /**
+   * Characters per line of the printer in use, for laying out documents.
+   * 
+   * @returns {number} The external printer's paper width, or the built-in 58mm width
+   */
+  getLineWidth(): number {
+    return this.escPosPrinter.getLineWidth() ?? DEFAULT_LINE_WIDTH
+  }
+
+  /**
+   * Status of the printer in use, in plain terms.
+   * 
+   * @returns {Promise<PrinterState>} offline when no printer can be initialized, unknown
+   *          for printers that do not report their status
+   */
+  async getPrinterState(): Promise<PrinterState> {
+    if (Platform.OS !== 'android' || !(await this.ensurePrinterReady())) {
+      return 'offline'
+    }
+
+    switch (this.connectedDevice) {
+      case 'sunmi':
+        return await this.sunmiPrinter.getPrinterState()
+      case 'pos-terminal':
+        return await this.posTerminalPrinter.getPrinterState()
+      case 'escpos':
+        // ESC/POS writes are one-way here; a printer that accepts a connection is ready
+        return this.escPosPrinter.getIsConnected() || (await this.escPosPrinter.connect()) ? 'ready' : 'offline'
+      default:
+        return 'unknown'
+    }
+  }
+
+  /**
+   * Open the cash drawer connected to an external ESC/POS printer.
+   * Built-in printers have no drawer port.
+   * 
+   * @returns {Promise<boolean>} True if the drawer was pulsed
+   */
+  async openCashDrawer(): Promise<boolean> {
+    if (!(await this.ensurePrinterReady()) || this.connectedDevice !== 'escpos') {
+      return false
+    }
+    return await this.escPosPrinter.openCashDrawer()
+  }
+
+  /**
+   * Print a receipt document with the connected printer's renderer.
+   * 
+   * @param {ReceiptDocument} document - The document to print
    * @returns {Promise<boolean>} True if print was successful
+   * @throws {PrinterStateError} When the printer reports it is not ready
    */
-  async printOrderClaimStub(order: Order): Promise<boolean> {
+  async printDocument(document: ReceiptDocument): Promise<boolean> {
     try {
       if (Platform.OS !== 'android') {
         console.log('⚠️ Print only supported on Android')
@@ -464,60 +575,129 @@ class ThermalPrinterService {
         return false
       }
 
-      console.log('🖨️ Starting comprehensive claim stub print...')
+      console.log('🖨️ Starting document print...')
       console.log(`📍 Current printer state: connected=${this.isConnected}, device=${this.connectedDevice}`)
 
+      if (this.connectedDevice === 'escpos') {
+        return await this.escPosPrinter.printDocument(document)
+      }
+
       // Try services in order of preference
       console.log('🔄 Attempting to print with available services...')
       const success = await this.tryPrintWithServices(
-        () => this.sunmiPrinter.printOrderClaimStub(order),
-        () => this.posTerminalPrinter.printOrderClaimStub(order),
-        () => this.handleClaimStubPrintByDeviceType(order)
+        () => this.sunmiPrinter.printDocument(document),
+        () => this.posTerminalPrinter.printDocument(document),
+        () => this.handleDocumentPrintByDeviceType(document)
+      )
+
+      if (success) {
+        console.log('✅ Document print successful')
+        return true
+      }
+
+      console.error('❌ Document print failed with all methods')
+      return false
+    } catch (error) {
+      if (error instanceof PrinterStateError) throw error
+      console.error('❌ Print document failed:', error)
+      return false
+    }
+  }
+
+  /**
+   * Print a plain text report, such as a shift X or Z report.
+   * 
+   * @param {string[]} reportLines - The report lines, without line breaks
+   * @returns {Promise<boolean>} True if print was successful
+   */
+  async printReport(reportLines: string[]): Promise<boolean> {
+    try {
+      if (Platform.OS !== 'android') {
+        console.log('⚠️ Print only supported on Android')
+        return false
+      }
+
+      if (!(await this.ensurePrinterReady())) {
+        console.error('❌ Printer not connected')
+        return false
+      }
+
+      console.log('🖨️ Starting report print...')
+      if (this.connectedDevice === 'escpos') {
+        return await this.escPosPrinter.printReport(reportLines)
+      }
+
+      const success = await this.tryPrintWithServices(
+        () => this.sunmiPrinter.printReport(reportLines),
+        () => this.posTerminalPrinter.printReport(reportLines),
+        () => this.handleReportPrintByDeviceType(reportLines)
       )
 
       if (success) {
-        console.log('✅ Claim stub print successful')
+        console.log('✅ Report print successful')
         return true
       }
 
-      console.error('❌ Claim stub print failed with all methods')
+      console.error('❌ Report print failed with all methods')
       return false
     } catch (error) {
-      console.error('❌ Print order claim stub failed:', error)
+      console.error('❌ Print report failed:', error)
       return false
     }
   }
 
   /**
-   * Handle claim stub print based on the connected device type.
+   * Handle report print based on the connected device type.
    * 
-   * @param {Order} order - The order object to print
+   * @param {string[]} reportLines - The report lines to print
    * @returns {Promise<boolean>} True if print was successful
    */
-  private async handleClaimStubPrintByDeviceType(order: Order): Promise<boolean> {
+  private async handleReportPrintByDeviceType(reportLines: string[]): Promise<boolean> {
     switch (this.connectedDevice) {
       case 'sunmi':
-        return await this.sunmiPrinter.printOrderClaimStub(order)
+        return await this.sunmiPrinter.printReport(reportLines)
       
-      case 'built-in':
-      case 'pda':
-        return await this.printClaimStubToBuiltInPrinter(order)
+      case 'simple':
+        return await this.simplePrinter.printReport(reportLines)
+      
+      case 'pos-terminal':
+        return await this.posTerminalPrinter.printReport(reportLines)
+      
+      default:
+        // Built-in and PDA printers take the lines as they are
+        return await this.printToBuiltInPrinter(reportLines.map(line => line + '\n').concat('\n\n\n'))
+    }
+  }
+
+  /**
+   * Handle document print based on the connected device type.
+   * 
+   * @param {ReceiptDocument} document - The document to print
+   * @returns {Promise<boolean>} True if print was successful
+   */
+  private async handleDocumentPrintByDeviceType(document: ReceiptDocument): Promise<boolean> {
+    switch (this.connectedDevice) {
+      case 'sunmi':
+        return await this.sunmiPrinter.printDocument(document)
       
       case 'simple':
-        return await this.simplePrinter.printOrderClaimStub(order)
+        return await this.simplePrinter.printDocument(document)
       
       case 'pos-terminal':
-        return await this.posTerminalPrinter.printOrderClaimStub(order)
+        return await this.posTerminalPrinter.printDocument(document)
       
       default:
-        // Fallback to built-in printer method
-        return await this.printClaimStubToBuiltInPrinter(order)
+        // Built-in and PDA printers print the text rendering
+        return await this.printToBuiltInPrinter(
+          renderReceiptText(document, { omitGraphics: true }).map(line => line + '\n')
+        )
     }
   }
 
   /**
    * Try printing with multiple services in order of preference.
-   * Each service is tried until one succeeds, or all fail.
+   * Each service is tried until one succeeds, or all fail. A printer that reports it is not
+   * ready ends the attempt, so the print queue can wait for it or pause.
    * 
    * @param {...(() => Promise<boolean>)} printMethods - Array of async print functions to try
    * @returns {Promise<boolean>} True if any print method succeeded
@@ -540,6 +720,7 @@ class ThermalPrinterService {
           console.log(`⚠️ ${serviceName} returned false`)
         }
       } catch (error) {
+        if (error instanceof PrinterStateError) throw error
         const serviceName = serviceNames[i] || `Service ${i + 1}`
         console.log(`⚠️ ${serviceName} threw error:`, error instanceof Error ? error.message : String(error))
         // Continue to next method
@@ -644,162 +825,6 @@ class ThermalPrinterService {
       return false
     }
   }
-
-  /**
-   * Print claim stub to built-in printer.
-   * 
-   * @param {Order} order - The order object to print
-   * @returns {Promise<boolean>} True if print was successful
-   */
-  private async printClaimStubToBuiltInPrinter(order: Order): Promise<boolean> {
-    try {
-      const printLines = this.generateClaimStubLines(order)
-      return await this.printToBuiltInPrinter(printLines)
-    } catch (error) {
-      console.error('❌ Print claim stub to built-in printer failed:', error)
-      return false
-    }
-  }
-
-  /**
-   * Generate formatted claim stub lines from an order object.
-   * 
-   * @param {Order} order - The order object to format
-   * @returns {string[]} Array of formatted text lines for the claim stub
-   */
-  private generateClaimStubLines(order: Order): string[] {
-    const lines: string[] = []
-    
-    console.log('📋 Generating claim stub lines with store info:', {
-      name: order.storeInfo?.name,
-      address: order.storeInfo?.address,
-      phone: order.storeInfo?.phone,
-      email: order.storeInfo?.email
-    })
-    
-    // Store details (centered)
-    if (order.storeInfo?.name) {
-      lines.push('\n')
-      const storeName = order.storeInfo.name.toUpperCase()
-      // Center the store name (assuming 32 character width)
-      const padding = Math.max(0, Math.floor((32 - storeName.length) / 2))
-      lines.push(' '.repeat(padding) + storeName + '\n')
-    }
-    
-    // Store address (centered)
-    if (order.storeInfo?.address) {
-      const address = order.storeInfo.address
-      const padding = Math.max(0, Math.floor((32 - address.length) / 2))
-      lines.push(' '.repeat(padding) + address + '\n')
-    }
-    
-    // Contact No. (centered)
-    if (order.storeInfo?.phone && order.storeInfo.phone.trim()) {
-      const contactLine = `Contact No.: ${order.storeInfo.phone.trim()}`
-      const padding = Math.max(0, Math.floor((32 - contactLine.length) / 2))
-      lines.push(' '.repeat(padding) + contactLine + '\n')
-      console.log('✅ Added phone to print:', contactLine)
-    } else {
-      console.log('⚠️ No phone number in storeInfo:', order.storeInfo?.phone)
-    }
-    
-    // Email Address (centered) - label on one line, email on next line
-    if (order.storeInfo?.email && order.storeInfo.email.trim()) {
-      const emailLabel = 'Email Address:'
-      const emailValue = order.storeInfo.email.trim()
-      // Center the label
-      const labelPadding = Math.max(0, Math.floor((32 - emailLabel.length) / 2))
-      lines.push(' '.repeat(labelPadding) + emailLabel + '\n')
-      // Center the email value on next line
-      const emailPadding = Math.max(0, Math.floor((32 - emailValue.length) / 2))
-      lines.push(' '.repeat(emailPadding) + emailValue + '\n')
-      console.log('✅ Added email to print:', emailLabel, emailValue)
-    } else {
-      console.log('⚠️ No email in storeInfo:', order.storeInfo?.email)
-    }
-    
-    // Divider
-    lines.push('================================\n')
-    
-    // Claim Stub Header
-    lines.push('CLAIM STUB\n')
-    lines.push('\n')
-    
-    // Order Number
-    const orderNumber = order.orderNumber || `ORD-${order.orderId.substring(0, 8).toUpperCase()}`
-    lines.push(`Order #: ${orderNumber}\n`)
-    
-    // Date and Time
-    const date = new Date(order.orderDate)
-    const dateStr = this.formatDate(date)
-    const timeStr = this.formatTime(date)
-    lines.push(`Date: ${dateStr}\n`)
-    lines.push(`Time: ${timeStr}\n`)
-    lines.push('\n')
-    
-    // Divider
-    lines.push('================================\n')
-    lines.push('\n')
-    
-    // Customer Information
-    lines.push('Customer:\n')
-    lines.push(`${order.customerName}\n`)
-    lines.push('\n')
-    
-    // Services/Items
-    lines.push('Services:\n')
-    order.items.forEach((item) => {
-      const line = `${item.quantity}x ${item.name.substring(0, 20)}`
-      const price = `₱${item.price.toFixed(2)}`
-      const spaces = Math.max(1, 32 - line.length - price.length)
-      const itemLine = line + ' '.repeat(spaces) + price + '\n'
-      lines.push(itemLine)
-    })
-    
-    lines.push('\n')
-    
-    // Divider
-    lines.push('================================\n')
-    
-    // Total
-    const totalStr = `TOTAL: ₱${order.totalAmount.toFixed(2)}\n`
-    lines.push(totalStr)
-    lines.push('\n')
-    
-    // Footer message
-    lines.push('Thank you for your business!\n')
-    lines.push('Please keep this stub for pickup.\n')
-    lines.push('\n\n\n')
-    
-    return lines
-  }
-
-
-
-  /**
-   * Format a date object to MM/DD/YYYY format.
-   * 
-   * @param {Date} date - The date to format
-   * @returns {string} Formatted date string (MM/DD/YYYY)
-   */
-  private formatDate(date: Date): string {
-    const year = date.getFullYear()
-    const month = String(date.getMonth() + 1).padStart(2, '0')
-    const day = String(date.getDate()).padStart(2, '0')
-    return `${month}/${day}/${year}`
-  }
-
-  /**
-   * Format a date object to HH:MM format (24-hour).
-   * 
-   * @param {Date} date - The date to format
-   * @returns {string} Formatted time string (HH:MM)
-   */
-  private formatTime(date: Date): string {
-    const hours = String(date.getHours()).padStart(2, '0')
-    const minutes = String(date.getMinutes()).padStart(2, '0')
-    return `${hours}:${minutes}`
-  }
 }
 
 export default ThermalPrinterService
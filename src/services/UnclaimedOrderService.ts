@@ -0,0 +1,102 @@
+import { supabase } from '../../lib/supabase'
+import SMSService from './SMSService'
+import { UnclaimedOrder, UnclaimedPolicy } from '../types/unclaimed'
+import { SmsLanguage } from '../types/sms'
+import { getDaysUntilStorageFee } from '../utils/unclaimed'
+
+/**
+ * Unclaimed Order Service - Handles ready orders that are not picked up
+ *
+ * Unclaimed orders are read from the unclaimed_orders view. Storage fees are
+ * brought up to date by the accrue_storage_fees database function, which adds
+ * them to the balance but keeps them out of the order total and its VAT. Pickup reminders are sent through
+ * SMSService and recorded in order_reminders so each interval is sent once.
+ */
+class UnclaimedOrderService {
+  /**
+   * Ready orders of a store waiting for pickup, longest waiting first
+   */
+  async getUnclaimedOrders(storeId: string): Promise<UnclaimedOrder[]> {
+    const { data, error } = await supabase
+      .from('unclaimed_orders')
+      .select('*')
+      .eq('store_id', storeId)
+      .order('ready_at', { ascending: true })
+
+    if (error) throw error
+    return (data || []) as UnclaimedOrder[]
+  }
+
+  /**
+   * Adds the storage fees due on the store's ready orders
+   *
+   * @returns Number of orders whose fee went up
+   */
+  async accrueStorageFees(storeId: string): Promise<number> {
+    const { data, error } = await supabase.rpc('accrue_storage_fees', { p_store_id: storeId })
+
+    if (error) {
+      console.error('❌ accrue_storage_fees failed:', error)
+      throw new Error(error.message || 'Failed to update storage fees')
+    }
+
+    if (data > 0) {
+      console.log(`✅ Storage fees updated on ${data} order(s)`)
+    }
+    return data as number
+  }
+
+  /**
+   * Sends a pickup reminder SMS and records it
+   *
+   * @param reminderDay - Reminder interval the message is for
+   * @param store - Store name and phone for the message, and the language to send it in
+   * @returns True if the reminder was sent, false if sending was cancelled
+   * @throws Error if the customer has no phone number or the SMS fails
+   */
+  async sendReminder(
+    order: UnclaimedOrder,
+    reminderDay: number,
+    store: { name: string; phone?: string | null; language: SmsLanguage },
+    policy: UnclaimedPolicy
+  ): Promise<boolean> {
+    if (!order.customer_phone) {
+      throw new Error(`No phone number for order ${order.order_number}`)
+    }
+
+    const sent = await SMSService.sendUnclaimedReminderSMS({
+      storeId: order.store_id,
+      phoneNumber: order.customer_phone,
+      customerFirstName: order.customer_first_name || 'Customer',
+      orderNumber: order.order_number,
+      storeName: store.name,
+      storePhone: store.phone,
+      daysReady: order.days_ready,
+      balance: Number(order.balance),
+      storageFeePerDay: policy.storageFeePerDay,
+      daysUntilStorageFee: getDaysUntilStorageFee(order.days_ready, policy),
+      language: store.language,
+    })
+
+    if (!sent) return false
+
+    // A reminder already recorded for this day (e.g. from another device) is kept
+    const { error } = await supabase
+      .from('order_reminders')
+      .upsert(
+        { order_id: order.order_id, store_id: order.store_id, reminder_day: reminderDay, channel: 'sms' },
+        { onConflict: 'order_id,reminder_day', ignoreDuplicates: true }
+      )
+
+    if (error) {
+      console.error('❌ Failed to record reminder:', error)
+      throw new Error(error.message || 'Failed to record reminder')
+    }
+
+    console.log(`✅ Day ${reminderDay} reminder sent for order ${order.order_number}`)
+    return true
+  }
+}
+
+// Export singleton instance
+export default new UnclaimedOrderService()
@@ -0,0 +1,38 @@
+/**
+ * Customer Type Definitions
+ *
+ * These types correspond to the customers table and the customer_stats view
+ * in the database.
+ */
+
+export interface Customer {
+  id: string
+  store_id: string
+  customer_number: string
+  first_name: string
+  last_name: string
+  phone: string | null
+  email: string | null
+  address: string | null
+  loyalty_points: number
+  tags: string[] // Free-form labels such as VIP or Corporate
+  notes: string | null
+  is_active: boolean
+  merged_into_id?: string | null // Set when this duplicate was merged into another customer
+  merged_at?: string | null
+  phone_key?: string | null // Last 10 digits of the phone number
+  created_at: string
+}
+
+/**
+ * Order totals for a customer, excluding cancelled orders
+ */
+export interface CustomerStats {
+  customer_id: string
+  store_id: string
+  visit_count: number
+  lifetime_spend: number
+  lifetime_paid: number
+  outstanding_balance: number
+  last_order_date: string | null
+}
@@ -0,0 +1,51 @@
+/**
+ * ESC/POS Printer Type Definitions
+ *
+ * These types describe external receipt printers that speak ESC/POS, reached over
+ * Bluetooth (serial port profile) or the network (raw TCP, usually port 9100).
+ */
+
+/**
+ * Paper roll width in millimetres
+ */
+export type PaperWidth = 58 | 80
+
+/**
+ * Character tables the encoder can select on the printer
+ * - cp437:   US / standard Europe, the factory default on most printers
+ * - cp850:   Multilingual Latin-1
+ * - cp858:   cp850 with the euro sign
+ * - wpc1252: Windows Latin-1
+ */
+export type EscPosCodePage = 'cp437' | 'cp850' | 'cp858' | 'wpc1252'
+
+export type ExternalPrinterConnection =
+  | { type: 'bluetooth'; name: string; address: string } // address: MAC of the paired printer
+  | { type: 'network'; name: string; host: string; port: number }
+
+/**
+ * The external printer chosen for a store on this device
+ */
+export interface ExternalPrinterConfig {
+  connection: ExternalPrinterConnection
+  paperWidth: PaperWidth
+  codePage: EscPosCodePage
+  hasCutter: boolean // Cut the paper after each receipt; otherwise feed it out for tearing
+}
+
+/**
+ * A bitmap to print, one byte of luminance (0 black - 255 white) per pixel, row by row
+ */
+export interface MonochromeImage {
+  width: number
+  height: number
+  pixels: Uint8Array | number[]
+}
+
+/**
+ * Bluetooth printer paired with this device
+ */
+export interface PairedPrinter {
+  name: string
+  address: string
+}
@@ -0,0 +1,29 @@
+/**
+ * Loyalty Points Type Definitions
+ *
+ * These types correspond to the loyalty_points_ledger table in the database.
+ */
+
+/**
+ * - earn:     points given on a payment
+ * - redeem:   points used as payment
+ * - reversal: points taken back or returned when a payment or order is cancelled
+ * - merge:    points moved from a duplicate customer
+ */
+export type LoyaltyEntryType = 'earn' | 'redeem' | 'reversal' | 'merge'
+
+export interface LoyaltyLedgerEntry {
+  id: string
+  store_id: string
+  customer_id: string
+  order_id: string | null
+  order_number: string | null // Kept after the order is cancelled
+  payment_id: string | null
+  entry_type: LoyaltyEntryType
+  points: number // Positive when earned or returned, negative when spent or reversed
+  balance_after: number
+  amount: number | null // Payment amount the points were earned on or redeemed for
+  description: string | null
+  created_at: string
+  created_by: string | null
+}
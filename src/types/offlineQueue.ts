@@ -0,0 +1,67 @@
+/**
+ * Offline Queue Type Definitions
+ *
+ * Entries recorded on the device while the server is unreachable and
+ * replayed by OfflineQueueService once connectivity returns.
+ */
+
+import { CreateOrderInput, OrderStatus } from './order'
+
+export type OutboxEntryType = 'create_order' | 'add_payment' | 'update_status'
+
+/**
+ * - pending:  waiting to be sent (or blocked on an earlier entry)
+ * - failed:   the server rejected the entry; can be retried or discarded
+ * - conflict: the server state changed while offline; staff must decide
+ */
+export type OutboxEntryStatus = 'pending' | 'failed' | 'conflict'
+
+export interface QueuedOrderPayload {
+  input: CreateOrderInput
+  customerName: string
+  totalAmount: number
+}
+
+export interface QueuedPaymentPayload {
+  orderId?: string | null // Server order ID, when the order already exists
+  orderClientReference?: string | null // Offline order this payment belongs to
+  orderNumber: string
+  amount: number
+  payment_method: string
+  payment_method_id: string | null
+  card_number?: string | null
+  reference_number?: string | null
+  amount_tendered?: number | null // Cash received, for cash payments
+  notes?: string | null
+  client_reference: string
+}
+
+export interface QueuedStatusPayload {
+  orderId: string
+  orderNumber: string
+  fromStatus: OrderStatus
+  toStatus: OrderStatus
+}
+
+interface OutboxEntryBase {
+  id: string
+  storeId: string
+  status: OutboxEntryStatus
+  attempts: number
+  lastError: string | null
+  force?: boolean // Staff chose to apply despite a conflict
+  needsApproval?: boolean // The manager approval of the order's discounts expired or was refused
+  createdAt: string
+  updatedAt: string
+}
+
+export type OutboxEntry =
+  | (OutboxEntryBase & { type: 'create_order'; payload: QueuedOrderPayload })
+  | (OutboxEntryBase & { type: 'add_payment'; payload: QueuedPaymentPayload })
+  | (OutboxEntryBase & { type: 'update_status'; payload: QueuedStatusPayload })
+
+export interface OutboxCounts {
+  pending: number
+  failed: number
+  conflict: number
+}
@@ -0,0 +1,167 @@
+/**
+ * Order Type Definitions
+ *
+ * These types correspond to the orders, cancelled_orders and order_status_history
+ * tables and the create_order_with_items, set_order_status, cancel_order,
+ * uncancel_order and abandon_order database functions.
+ */
+
+import { PricingMode } from './servicePricing'
+import { PricingAdjustment } from './pricingRule'
+import { SeniorPwdType, TaxBreakdown } from './tax'
+
+export type OrderStatus = 'pending' | 'in_progress' | 'ready' | 'completed' | 'cancelled' | 'abandoned'
+
+export type PaymentStatus = 'unpaid' | 'partial' | 'paid' | 'refunded'
+
+export interface OrderRecord {
+  id: string
+  order_number: string
+  store_id: string
+  customer_id: string | null
+  subtotal: number
+  tax: number // VAT added on top of the prices
+  discount: number
+  total_amount: number
+  paid_amount: number
+  balance: number
+  payment_status: PaymentStatus
+  order_status: OrderStatus
+  order_date: string
+  promised_at?: string | null // When the order was promised ready for pickup
+  bag_count?: number // Bags the load was dropped off in, one tag each
+  notes: string | null
+  client_reference?: string | null
+  provisional_order_number?: string | null
+  tax_inclusive?: boolean | null // NULL when VAT was not calculated
+  tax_rate?: number | null
+  vatable_sales?: number | null
+  vat_amount?: number | null
+  vat_exempt_sales?: number | null
+  senior_pwd_type?: SeniorPwdType | null
+  senior_pwd_id?: string | null
+  senior_pwd_name?: string | null
+  refunded_amount?: number
+  in_progress_at?: string | null
+  ready_at?: string | null
+  actual_completion?: string | null // When the order was completed
+  completed_by?: string | null
+  cancelled_at?: string | null
+  cancelled_by?: string | null
+  cancellation_reason?: string | null
+  storage_fee?: number // Storage fee for waiting past the grace period; due on top of total_amount, included in balance
+  abandoned_at?: string | null
+  abandoned_by?: string | null
+  abandon_approved_by?: string | null
+  abandon_notes?: string | null
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * One entry of an order's status timeline
+ */
+export interface OrderStatusHistoryEntry {
+  id: string
+  order_id: string
+  store_id: string
+  from_status: OrderStatus | null // NULL for the entry written when the order was created
+  to_status: OrderStatus
+  changed_by: string | null
+  changed_at: string
+  device_id: string | null
+  notes: string | null
+}
+
+/**
+ * Time spent in each stage of an order, in milliseconds; null until the stage is finished
+ */
+export interface OrderTurnaround {
+  waiting: number | null // Received until work started
+  processing: number | null // Work started until ready
+  pickup: number | null // Ready until completed
+  turnaround: number | null // Received until ready
+  total: number | null // Received until completed
+}
+
+/**
+ * Where an open order stands against its promised date
+ * - overdue:      past the promised date and not ready yet
+ * - due_today:    promised for later today
+ * - due_tomorrow: promised for tomorrow
+ * - later:        promised after tomorrow
+ * - none:         no promised date, or the order is already ready, completed, cancelled or abandoned
+ */
+export type OrderDueStatus = 'overdue' | 'due_today' | 'due_tomorrow' | 'later' | 'none'
+
+/**
+ * One cancellation of an order; the order itself stays in orders with status cancelled
+ */
+export interface CancelledOrderRecord {
+  id: string
+  order_id: string
+  store_id: string
+  order_number: string
+  customer_id: string | null
+  cancellation_reason: string
+  cancelled_by: string
+  cancelled_at: string
+  total_amount: number
+  paid_amount: number
+  balance: number
+  payment_status: PaymentStatus
+  order_status: OrderStatus // Status the order was cancelled from
+  refund_required: boolean
+  refund_amount: number
+  refunded_amount: number
+  refund_status: 'pending' | 'processed' | 'failed'
+  notes: string | null
+  uncancelled_at: string | null
+  uncancelled_by: string | null
+  uncancel_approved_by: string | null
+}
+
+/**
+ * A single line item passed to create_order_with_items
+ */
+export interface CreateOrderItemInput {
+  item_type: 'service' | 'product'
+  service_id?: string | null
+  inventory_item_id?: string | null
+  name: string
+  quantity: number // Billable kg or loads for weighed services
+  unit_price: number
+  pricing_mode?: PricingMode | null
+  weight?: number | null // Measured weight in kg
+  vat_exempt?: boolean
+}
+
+/**
+ * A payment passed to create_order_with_items; a split-tender checkout passes one per tender
+ */
+export interface CreateOrderPaymentInput {
+  amount: number
+  payment_method: string // Method name for backward compatibility
+  payment_method_id: string
+  card_number?: string | null
+  reference_number?: string | null
+  notes?: string | null
+  client_reference?: string | null // Idempotency key for offline replays
+  amount_tendered?: number | null // Cash received; the change given is amount_tendered - amount
+}
+
+export interface CreateOrderInput {
+  storeId: string
+  customerId: string | null
+  items: CreateOrderItemInput[]
+  payment?: CreateOrderPaymentInput | null // Single payment; kept for orders queued before split tender
+  payments?: CreateOrderPaymentInput[] | null // One entry per tender
+  notes?: string | null
+  clientReference?: string | null // Idempotency key for offline replays
+  provisionalOrderNumber?: string | null // Number printed on an offline claim stub
+  adjustments?: PricingAdjustment[] | null // Discounts from the pricing rules engine
+  tax?: TaxBreakdown | null // VAT breakdown when the store calculates tax
+  promisedAt?: string | null // When the order is promised ready; defaults from the service turnaround times
+  bagCount?: number | null // Bags the load was dropped off in; defaults to 1
+}
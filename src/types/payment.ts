@@ -0,0 +1,76 @@
+/**
+ * Payment Type Definitions
+ *
+ * These types correspond to the payments table in the database. A customer can
+ * split a payment across several tenders; each tender becomes one payments row.
+ */
+
+import { CreateOrderPaymentInput } from './order'
+
+/**
+ * A tender as entered in the payment modal
+ */
+export interface TenderInput {
+  key: string // Local key for the tender row
+  payment_method_id: string | null
+  amount: string // As typed; blank means the rest of the amount due
+  card_number: string
+  reference_number: string
+}
+
+/**
+ * Tenders checked against the amount due
+ */
+export interface ResolvedTenders {
+  payments: CreateOrderPaymentInput[] // Amounts applied to the order; cash is reduced by the change
+  tendered: number // Total handed over by the customer
+  change: number // Cash to give back
+  error: string | null // Why the tenders cannot be accepted
+}
+
+/**
+ * A payment as printed on receipts
+ */
+export interface ReceiptPayment {
+  method: string // Display name, e.g. GCash
+  amount: number
+  reference?: string | null // Reference or card number
+  tendered?: number | null // Cash received, when more than the amount
+}
+
+/**
+ * A payment recorded against an existing order, e.g. the balance collected at pickup
+ */
+export interface RecordPaymentInput {
+  storeId: string
+  orderId: string
+  orderNumber: string
+  payment: CreateOrderPaymentInput
+}
+
+/**
+ * Outcome of recording a payment
+ */
+export interface RecordPaymentResult {
+  queued: boolean // True when the device was offline and the payment was queued
+  paymentId: string | null
+  paidAmount: number | null // Order totals after the payment; null when queued
+  balance: number | null
+  paymentStatus: 'unpaid' | 'partial' | 'paid' | null
+}
+
+/**
+ * An official receipt for a payment made against an existing order
+ */
+export interface PaymentReceipt {
+  storeName: string
+  orderNumber: string
+  customerName: string
+  cashierName?: string | null
+  payment: ReceiptPayment
+  change?: number
+  previousBalance: number
+  newBalance: number
+  paidAt: string
+  offline?: boolean // Printed before the payment reached the server
+}
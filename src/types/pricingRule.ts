@@ -0,0 +1,140 @@
+/**
+ * Pricing Rule Type Definitions
+ *
+ * These types correspond to the pricing_rules and order_adjustments tables
+ * in the database.
+ */
+
+import { PricingMode } from './servicePricing'
+
+/**
+ * Kinds of promotion
+ * - bundle:            discount when every listed service is in the cart (order-level)
+ * - quantity_tier:     discount on a line once its quantity reaches min_quantity
+ * - happy_hour:        discount on matching lines during a time-of-day window
+ * - category_discount: discount on every line in a category
+ */
+export type PricingRuleType = 'bundle' | 'quantity_tier' | 'happy_hour' | 'category_discount'
+
+export type DiscountType = 'percent' | 'fixed'
+
+/**
+ * Optional line filter shared by line-level rules. service_ids takes
+ * precedence over category; an empty filter matches every line.
+ */
+export interface PricingRuleLineFilter {
+  service_ids?: string[]
+  category?: string | null
+}
+
+export interface BundleConditions {
+  service_ids: string[]
+}
+
+export interface QuantityTierConditions extends PricingRuleLineFilter {
+  min_quantity: number // Pieces, kg or loads depending on the line
+  apply_to?: 'all' | 'additional' // 'additional' discounts units from min_quantity onwards
+}
+
+export interface HappyHourConditions extends PricingRuleLineFilter {
+  days?: number[] // 0 = Sunday; empty means every day
+  start_time: string // HH:MM, store local time
+  end_time: string // HH:MM; may be earlier than start_time for windows past midnight
+}
+
+export interface CategoryDiscountConditions {
+  category: string
+}
+
+export type PricingRuleConditions =
+  | BundleConditions
+  | QuantityTierConditions
+  | HappyHourConditions
+  | CategoryDiscountConditions
+
+export interface PricingRule {
+  id: string
+  store_id: string
+  name: string // Printed on receipts
+  description?: string | null
+  rule_type: PricingRuleType
+  conditions: PricingRuleConditions
+  discount_type: DiscountType
+  discount_value: number // Percent, or a fixed amount per unit (per order for bundles)
+  priority: number // Lower numbers are applied first
+  stackable: boolean
+  is_active: boolean
+  starts_at?: string | null
+  ends_at?: string | null
+  created_at: string
+  updated_at: string
+  created_by?: string | null
+}
+
+/**
+ * Where an order adjustment came from
+ * - pricing_rule: a store promotion evaluated by the engine
+ * - manual:       a discount entered by the cashier
+ * - voucher:      a voucher code redeemed at checkout
+ * - vat_exemption: VAT removed from VAT-inclusive prices for a senior citizen or PWD
+ * - senior_pwd:   the statutory senior citizen / PWD discount
+ */
+export type AdjustmentSource = 'pricing_rule' | 'manual' | 'voucher' | 'vat_exemption' | 'senior_pwd'
+
+export interface OrderAdjustment {
+  id: string
+  order_id: string
+  order_item_id: string | null // NULL for order-level adjustments
+  pricing_rule_id: string | null
+  voucher_id?: string | null
+  source: AdjustmentSource
+  description: string
+  amount: number // Positive amount taken off the order
+  created_at: string
+  created_by?: string | null // User who applied the discount
+  approved_by?: string | null // Manager who approved it
+}
+
+/**
+ * A cart line as seen by the pricing rules engine
+ */
+export interface PricingLine {
+  key?: string // Identifies the cart line for manual line discounts
+  item_type: 'service' | 'product'
+  service_id?: string | null
+  inventory_item_id?: string | null
+  category?: string | null
+  quantity: number
+  unit_price: number
+  pricing_mode?: PricingMode | null
+}
+
+/**
+ * A discount produced by the engine, in the shape create_order_with_items expects
+ */
+export interface PricingAdjustment {
+  pricing_rule_id: string | null
+  source: AdjustmentSource
+  description: string
+  amount: number
+  item_index: number | null // Index into the order items; NULL for order-level adjustments
+  voucher_id?: string | null
+  approved_by?: string | null
+  approval_id?: string | null // Approval from verify_manager_pin; the database takes approved_by from it
+}
+
+export interface PricingResult {
+  subtotal: number
+  discount: number
+  total: number
+  adjustments: PricingAdjustment[]
+  lineDiscounts: number[] // Line-level discount per cart line
+}
+
+/**
+ * A discount line as printed on receipts
+ */
+export interface ReceiptDiscount {
+  description: string
+  amount: number
+}
@@ -0,0 +1,93 @@
+/**
+ * Print Queue Type Definitions
+ *
+ * These types describe print jobs kept on the device by PrintQueueService and the
+ * print_history table in the database, where jobs of an order are logged once they end.
+ */
+
+import { ReceiptDocument } from './receipt'
+
+/**
+ * What the printer reports, across printer backends
+ */
+export type PrinterState =
+  | 'ready'
+  | 'busy'
+  | 'paper_out'
+  | 'overheated'
+  | 'cover_open'
+  | 'error'
+  | 'offline'
+  | 'unknown'
+
+export type PrintJobKind = 'claim_stub' | 'sales_receipt' | 'bag_tags' | 'payment_receipt' | 'report'
+
+/**
+ * - queued:    waiting for the jobs before it
+ * - printing:  being sent to the printer
+ * - paused:    stopped until staff resume it, e.g. after loading paper
+ * - failed:    still failing after its retries; can be retried
+ * - printed:   done
+ * - cancelled: dropped by staff
+ */
+export type PrintJobStatus = 'queued' | 'printing' | 'paused' | 'failed' | 'printed' | 'cancelled'
+
+export type PrintJobContent =
+  | { type: 'document'; document: ReceiptDocument }
+  | { type: 'lines'; lines: string[] } // Plain report lines, see ThermalPrinterService.printReport
+
+export interface PrintJob {
+  id: string
+  storeId: string
+  kind: PrintJobKind
+  title: string // e.g. Claim stub ORD-0042
+  orderId: string | null
+  orderNumber: string | null
+  content: PrintJobContent
+  status: PrintJobStatus
+  attempts: number
+  printerState: PrinterState | null // Last state seen while printing
+  lastError: string | null
+  reprintOf: string | null // Job this one reprints
+  historyId: string | null // print_history row for the last time the job ended
+  historyLogged: boolean // That row was written
+  createdAt: string
+  updatedAt: string
+  printedAt: string | null
+}
+
+/**
+ * A job to add to the queue
+ */
+export interface PrintJobInput {
+  storeId: string
+  kind: PrintJobKind
+  title: string
+  orderId?: string | null
+  orderNumber?: string | null
+  content: PrintJobContent
+  reprintOf?: string | null
+}
+
+/**
+ * A print job of an order as logged in print_history
+ */
+export interface PrintHistoryEntry {
+  id: string
+  store_id: string
+  order_id: string | null
+  order_number: string | null
+  job_id: string
+  job_kind: PrintJobKind
+  title: string
+  status: 'printed' | 'failed' | 'cancelled'
+  attempts: number
+  printer_state: PrinterState | null
+  error: string | null
+  is_reprint: boolean
+  printed_by: string
+  device_id: string | null
+  queued_at: string
+  finished_at: string
+  created_at: string
+}
@@ -0,0 +1,96 @@
+/**
+ * Receipt Document Type Definitions
+ *
+ * These types describe a printed receipt independently of the printer. Layouts are built
+ * once as a ReceiptDocument and each printer service renders the document its own way.
+ */
+
+import { PricingMode } from './servicePricing'
+import { ReceiptDiscount } from './pricingRule'
+import { ReceiptTax } from './tax'
+import { ReceiptPayment } from './payment'
+
+export type ReceiptAlign = 'left' | 'center' | 'right'
+
+/**
+ * Text size relative to the printer's normal font
+ */
+export type ReceiptTextSize = 'normal' | 'large' | 'xlarge'
+
+export interface ReceiptTextStyle {
+  align?: ReceiptAlign // Default left
+  bold?: boolean
+  size?: ReceiptTextSize // Default normal
+}
+
+/**
+ * One column of a row. Widths are in characters; columns without a width share the rest of the line.
+ */
+export interface ReceiptColumn {
+  text: string
+  width?: number
+  align?: ReceiptAlign
+}
+
+export type ReceiptBarcodeSymbology = 'CODE128' | 'CODE39' | 'EAN13'
+
+export type ReceiptBlock =
+  | ({ type: 'text'; text: string } & ReceiptTextStyle)
+  | { type: 'columns'; columns: ReceiptColumn[]; bold?: boolean }
+  | { type: 'divider'; char: string }
+  | { type: 'qr'; data: string; size: number; align: ReceiptAlign } // size: module size in dots, 1-16
+  | { type: 'barcode'; data: string; symbology: ReceiptBarcodeSymbology; height: number; showText: boolean; align: ReceiptAlign }
+  | { type: 'image'; base64: string; width: number; align: ReceiptAlign } // width in dots
+  | { type: 'feed'; lines: number }
+  | { type: 'cut' }
+
+/**
+ * A receipt to print, laid out for a line width in characters
+ */
+export interface ReceiptDocument {
+  lineWidth: number
+  blocks: ReceiptBlock[]
+}
+
+/**
+ * Order details printed on a claim stub
+ */
+export interface ClaimStubOrder {
+  orderId: string
+  orderNumber?: string
+  orderDate: string
+  customerName: string
+  items: Array<{
+    name: string
+    quantity: number
+    price: number
+    pricing_mode?: PricingMode | null
+    weight?: number | null
+  }>
+  totalAmount: number
+  subtotal?: number // Before discounts
+  discounts?: ReceiptDiscount[]
+  tax?: ReceiptTax | null // VAT breakdown when the store calculates tax
+  storageFee?: number // Storage fee due on top of the total; not part of its VAT
+  payments?: ReceiptPayment[] // One entry per tender
+  change?: number // Cash change given
+  balance?: number // Amount still unpaid
+  promisedAt?: string | null // When the order is promised ready
+  storeInfo?: {
+    name: string
+    address?: string
+    phone?: string
+    email?: string
+  }
+}
+
+/**
+ * Order details printed on the tags of its bags, one tag per bag
+ */
+export interface GarmentTagOrder {
+  orderId: string
+  orderNumber?: string
+  customerName: string
+  bagCount: number
+  promisedAt?: string | null // When the order is promised ready
+}
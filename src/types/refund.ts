@@ -0,0 +1,91 @@
+/**
+ * Refund Type Definitions
+ *
+ * These types correspond to the refunds table and the pending_refunds view in the
+ * database. A refund gives back all or part of one payment of an order or of a
+ * cancelled order.
+ */
+
+/**
+ * - cancelled:   the paid amount of a cancelled order
+ * - overpayment: an order paid more than its total
+ */
+export type PendingRefundSource = 'cancelled' | 'overpayment'
+
+export interface Refund {
+  id: string
+  store_id: string
+  order_id: string
+  order_number: string
+  cancelled_order_id: string | null
+  payment_id: string | null
+  payment_method: string | null // Method of the payment being refunded
+  amount: number
+  refund_method: string // Method the money was given back with
+  refund_method_id: string | null
+  reference_number: string | null
+  reason: string
+  approved_by: string
+  refunded_by: string
+  shift_id: string | null
+  refunded_at: string
+  notes: string | null
+}
+
+/**
+ * A refund still owed to a customer, from the pending_refunds view
+ */
+export interface PendingRefund {
+  source: PendingRefundSource
+  cancelled_order_id: string | null
+  order_id: string
+  store_id: string
+  order_number: string
+  customer_id: string | null
+  customer_name: string
+  customer_phone: string | null
+  reason: string
+  since: string // Cancelled at, or the order date for overpayments
+  refund_amount: number
+  refunded_amount: number
+  amount_owed: number
+}
+
+/**
+ * A payment that can be refunded, with what is left of it
+ */
+export interface RefundablePayment {
+  id: string
+  amount: number
+  payment_method: string
+  payment_date: string
+  reference_number: string | null
+  refunded: number
+  refundable: number
+}
+
+export interface RecordRefundInput {
+  orderId: string
+  cancelledOrderId?: string | null
+  paymentId: string | null // Null only for orders cancelled before their payments were saved
+  amount: number
+  refundMethodId: string
+  referenceNumber?: string | null
+  reason: string
+  approvalId: string | null // Approval from verify_manager_pin; null when a store manager refunds
+  notes?: string | null
+}
+
+/**
+ * Printed when money is given back to a customer
+ */
+export interface RefundSlip {
+  storeName: string
+  orderNumber: string
+  customerName: string
+  refund: Refund
+  refundMethodName: string
+  paymentMethodName: string
+  approvedByName: string
+  refundedByName?: string | null
+}
@@ -0,0 +1,63 @@
+/**
+ * Sales Receipt Type Definitions
+ *
+ * These types correspond to the sales_receipts and sales_receipt_reprints tables in
+ * the database. A sales receipt is the customer's proof of payment, issued for the
+ * payments of an order that were not on a receipt yet and numbered in sequence per store.
+ */
+
+import { ClaimStubOrder } from './receipt'
+
+/**
+ * A tender on a sales receipt, as snapshotted when the receipt was issued
+ */
+export interface SalesReceiptPayment {
+  id: string
+  payment_method: string
+  method_name: string // Display name, e.g. GCash
+  amount: number
+  reference: string | null // Reference or masked card number
+  amount_tendered: number | null
+  change_given: number
+}
+
+export interface SalesReceipt {
+  id: string
+  store_id: string
+  receipt_number: number
+  order_id: string
+  order_number: string
+  customer_name: string | null
+  amount: number // Total of the payments on the receipt
+  payments: SalesReceiptPayment[]
+  paid_to_date: number // Paid on the order including this receipt
+  balance_after: number // Balance due on the order after this receipt
+  issued_by: string
+  issued_at: string
+  printed_at: string | null // First print; null if never printed
+  reprint_count: number
+  created_at: string
+}
+
+export interface SalesReceiptReprint {
+  id: string
+  receipt_id: string
+  store_id: string
+  reason: string | null
+  reprinted_by: string
+  reprinted_at: string
+}
+
+/**
+ * Everything printed on a sales receipt
+ */
+export interface SalesReceiptPrintData {
+  receipt: SalesReceipt
+  reprint: boolean // Print is not the first one
+  cashierName: string | null
+  storeInfo: NonNullable<ClaimStubOrder['storeInfo']> & {
+    businessName?: string | null // Registered business name, when different from the store name
+    tin?: string | null
+  }
+  order: Pick<ClaimStubOrder, 'items' | 'totalAmount' | 'subtotal' | 'discounts' | 'tax' | 'storageFee'> | null // Null when the order was deleted
+}
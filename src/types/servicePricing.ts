@@ -0,0 +1,32 @@
+/**
+ * Service Pricing Type Definitions
+ *
+ * These types correspond to the pricing columns on the services table
+ * (pricing_mode, min_weight, weight_rounding, max_weight_per_load).
+ */
+
+/**
+ * How a service is charged
+ * - per_piece: flat price per item (quantity is a whole count)
+ * - per_kilo:  price per kilogram of the measured weight
+ * - per_load:  price per machine load; loads are derived from the weight and load cap
+ */
+export type PricingMode = 'per_piece' | 'per_kilo' | 'per_load'
+
+export interface ServicePricing {
+  price: number
+  pricing_mode?: PricingMode | null
+  min_weight?: number | null // Minimum billable weight in kg
+  weight_rounding?: number | null // Round weight up to this increment in kg (e.g. 0.5)
+  max_weight_per_load?: number | null // Load cap in kg for per_load services (e.g. 8)
+}
+
+/**
+ * Result of pricing a weighed service
+ */
+export interface ServiceCharge {
+  weight: number // Measured weight in kg
+  billableWeight: number // Weight after minimum and rounding
+  quantity: number // Billable quantity: kg for per_kilo, loads for per_load
+  amount: number
+}
@@ -0,0 +1,28 @@
+/**
+ * Service Supply Type Definitions
+ *
+ * These types correspond to the service_supplies table in the database.
+ * Each row is one line of a service's bill of materials for a store.
+ */
+
+export interface ServiceSupply {
+  id: string
+  store_id: string
+  service_id: string
+  inventory_item_id: string
+  quantity_per_unit: number // In the inventory item's unit of measure
+  created_at: string
+  updated_at: string
+  created_by?: string | null
+}
+
+/**
+ * Service supply joined with the inventory item it consumes
+ */
+export interface ServiceSupplyWithItem extends ServiceSupply {
+  inventory_items: {
+    name: string
+    unit_of_measure: string
+    current_stock: number
+  } | null
+}
@@ -0,0 +1,67 @@
+/**
+ * Cash Drawer Shift Type Definitions
+ *
+ * These types correspond to the cash_drawer_shifts and cash_drawer_entries tables
+ * in the database.
+ */
+
+export type ShiftStatus = 'open' | 'closed'
+
+/**
+ * - paid_in:  cash put into the drawer, e.g. extra change from the owner
+ * - paid_out: cash taken out of the drawer, e.g. buying detergent
+ */
+export type CashDrawerEntryType = 'paid_in' | 'paid_out'
+
+/**
+ * Expected and counted amount of one payment method at close
+ */
+export interface ShiftMethodCount {
+  payment_method: string
+  expected: number
+  counted: number
+  variance: number // Counted minus expected; negative when short
+}
+
+export interface CashDrawerShift {
+  id: string
+  store_id: string
+  status: ShiftStatus
+  opening_float: number
+  opened_by: string
+  opened_at: string
+  closed_by: string | null
+  closed_at: string | null
+  expected_cash: number | null // Set at close
+  counted_cash: number | null
+  cash_variance: number | null
+  closing_counts: ShiftMethodCount[] | null
+  notes: string | null
+}
+
+export interface CashDrawerEntry {
+  id: string
+  shift_id: string
+  store_id: string
+  entry_type: CashDrawerEntryType
+  amount: number
+  reason: string
+  created_at: string
+  created_by: string | null
+}
+
+/**
+ * Shift totals returned by get_cash_drawer_shift_summary (X report)
+ */
+export interface ShiftSummary {
+  shift_id: string
+  opening_float: number
+  payments: Array<{ payment_method: string; count: number; amount: number }>
+  refunds?: Array<{ payment_method: string; count: number; amount: number }> // Per refund method
+  cash_payments: number
+  change_given: number
+  cash_refunds?: number
+  paid_in: number
+  paid_out: number
+  expected_cash: number // Float + cash payments - cash refunds + paid-in - paid-out
+}
@@ -0,0 +1,62 @@
+/**
+ * SMS Notification Type Definitions
+ *
+ * These types correspond to the sms_templates table in the database.
+ * A store only has rows for the templates it has edited; the others use the built-in defaults.
+ */
+
+/**
+ * What a notification is sent for
+ */
+export type SmsEvent =
+  | 'order_received'
+  | 'ready_for_pickup'
+  | 'payment_received'
+  | 'pickup_reminder'
+  | 'overdue'
+
+/**
+ * Language of a template: English or Filipino
+ */
+export type SmsLanguage = 'en' | 'fil'
+
+/**
+ * A store's own wording for an event in one language
+ */
+export interface SmsTemplate {
+  id: string
+  store_id: string
+  event: SmsEvent
+  language: SmsLanguage
+  body: string
+  created_at: string
+  updated_at: string
+  updated_by: string | null
+}
+
+/**
+ * Values filled into the {placeholders} of a template. Missing values are left blank.
+ */
+export interface SmsTemplateValues {
+  customer_name?: string
+  order_number?: string
+  balance?: string
+  due_date?: string
+  store_name?: string
+  store_phone?: string
+  items?: string
+  amount_paid?: string
+  days_ready?: string
+  storage_notice?: string
+}
+
+/**
+ * How a message will be split into SMS segments
+ */
+export interface SmsSegmentInfo {
+  characters: number
+  segments: number
+  encoding: 'GSM-7' | 'UCS-2' // UCS-2 when the message has characters outside the GSM alphabet
+  charactersPerSegment: number
+  remaining: number // Characters left in the last segment
+}
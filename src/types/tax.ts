@@ -0,0 +1,57 @@
+/**
+ * Tax Type Definitions
+ *
+ * These types correspond to the VAT columns on the orders table and the
+ * p_tax argument of the create_order_with_items database function.
+ */
+
+import { PricingAdjustment } from './pricingRule'
+
+/**
+ * Senior citizen and PWD purchases are VAT-exempt and get a statutory discount
+ */
+export type SeniorPwdType = 'senior' | 'pwd'
+
+export interface SeniorPwdInfo {
+  type: SeniorPwdType
+  id_number: string // OSCA or PWD ID number, printed on the receipt
+  name: string
+}
+
+/**
+ * A cart line as seen by the tax calculation
+ */
+export interface TaxLine {
+  vat_exempt: boolean // Service is VAT-exempt regardless of the customer
+}
+
+export interface TaxOptions {
+  rate: number // VAT rate in percent (e.g. 12)
+  inclusive: boolean // Prices already include VAT
+  seniorPwd?: SeniorPwdInfo | null
+  seniorPwdDiscountRate: number // Percent taken off the VAT-exclusive amount
+}
+
+/**
+ * VAT breakdown stored on the order. Amount due = vatable_sales + vat_amount + vat_exempt_sales.
+ */
+export interface TaxBreakdown {
+  tax_inclusive: boolean
+  tax_rate: number
+  tax: number // VAT added on top of the prices (VAT-exclusive pricing only)
+  vatable_sales: number // Sales subject to VAT, net of VAT
+  vat_amount: number
+  vat_exempt_sales: number
+  senior_pwd?: SeniorPwdInfo | null
+}
+
+export interface TaxResult {
+  breakdown: TaxBreakdown
+  adjustments: PricingAdjustment[] // VAT exemption and SC/PWD discount
+  total: number // Amount due after VAT
+}
+
+/**
+ * The VAT breakdown as printed on receipts
+ */
+export type ReceiptTax = TaxBreakdown
@@ -0,0 +1,54 @@
+/**
+ * Unclaimed Order Type Definitions
+ *
+ * These types correspond to the unclaimed_orders view and the order_reminders table
+ * in the database. An unclaimed order is a ready order that has not been picked up.
+ */
+
+/**
+ * How long an order has waited since it was ready
+ */
+export type AgingBucket = 'under_7' | '7_13' | '14_29' | '30_59' | '60_plus'
+
+/**
+ * A ready order waiting for pickup, from the unclaimed_orders view
+ */
+export interface UnclaimedOrder {
+  order_id: string
+  store_id: string
+  order_number: string
+  customer_id: string | null
+  customer_name: string | null
+  customer_first_name: string | null
+  customer_phone: string | null
+  ready_at: string
+  days_ready: number
+  total_amount: number
+  balance: number
+  storage_fee: number // Due on top of total_amount; included in balance
+  reminder_days: number[] | null // Reminder days already sent
+  last_reminder_at: string | null
+}
+
+/**
+ * A pickup reminder sent to a customer
+ */
+export interface OrderReminder {
+  id: string
+  order_id: string
+  store_id: string
+  reminder_day: number
+  channel: 'sms'
+  sent_by: string | null
+  sent_at: string
+}
+
+/**
+ * Store rules for unclaimed orders, from the store settings
+ */
+export interface UnclaimedPolicy {
+  reminderDays: number[] // Days after ready to send a reminder
+  storageGraceDays: number // Days before storage fees start
+  storageFeePerDay: number // 0 for no fee
+  abandonAfterDays: number // Days after ready an order may be marked abandoned
+}
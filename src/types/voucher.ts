@@ -0,0 +1,52 @@
+/**
+ * Voucher and Manual Discount Type Definitions
+ *
+ * Vouchers correspond to the vouchers table in the database. Manual discounts
+ * live in the POS cart until the order is created, then become order_adjustments.
+ */
+
+import { DiscountType } from './pricingRule'
+
+export interface Voucher {
+  id: string
+  store_id: string | null // NULL = valid in every store
+  code: string
+  description?: string | null
+  discount_type: DiscountType
+  discount_value: number
+  max_discount?: number | null // Cap for percent vouchers
+  min_spend: number // Minimum order subtotal
+  usage_limit?: number | null // NULL = unlimited
+  is_active: boolean
+  starts_at?: string | null
+  ends_at?: string | null
+  created_at: string
+  updated_at: string
+  created_by?: string | null
+}
+
+/**
+ * A discount added at checkout by the cashier or from a voucher
+ */
+export interface ManualDiscount {
+  id: string // Local id for removing it from the cart
+  source: 'manual' | 'voucher'
+  item_key: string | null // Cart line key; NULL for the whole order
+  discount_type: DiscountType
+  discount_value: number
+  max_discount?: number | null
+  description: string
+  voucher_id?: string | null
+  approval?: ManagerApproval | null // Manager approval covering the discount total when it was added
+}
+
+/**
+ * Manager returned by verify_manager_pin, with the single-use approval issued for them
+ */
+export interface ManagerApproval {
+  user_id: string
+  full_name: string
+  approval_id: string
+  max_amount: number | null // Discount total or refund amount the manager approved
+  expires_at: string
+}
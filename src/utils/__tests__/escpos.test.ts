@@ -0,0 +1,151 @@
+import { ReceiptDocument } from '../../types/receipt'
+import { EscPosEncoder, encodeReceiptDocument, encodeText, toHex } from '../escpos'
+
+// Fixtures are written from the ESC/POS command reference, one command per line
+const hex = (...commands: string[]) => commands.join(' ')
+
+const INITIALIZE = hex('1B 40', '1B 74 00') // ESC @, ESC t PC437
+
+describe('EscPosEncoder', () => {
+  it('encodes alignment, bold, underline and sizes', () => {
+    const bytes = new EscPosEncoder()
+      .initialize()
+      .align('center')
+      .bold(true)
+      .size('xlarge')
+      .line('Hi')
+      .size('large')
+      .line('Hi')
+      .size('normal')
+      .bold(false)
+      .align('right')
+      .underline(true)
+      .text('A')
+      .underline(false)
+      .align('left')
+      .encode()
+
+    expect(toHex(bytes)).toBe(hex(
+      INITIALIZE,
+      '1B 61 01', // Center
+      '1B 45 01', // Bold on
+      '1D 21 11', // Double width and height
+      '48 69 0A',
+      '1D 21 01', // Double height
+      '48 69 0A',
+      '1D 21 00',
+      '1B 45 00',
+      '1B 61 02', // Right
+      '1B 2D 01', // Underline on
+      '41',
+      '1B 2D 00',
+      '1B 61 00'
+    ))
+  })
+
+  it('selects the code page table and maps text into it', () => {
+    const bytes = new EscPosEncoder({ codePage: 'cp858' })
+      .initialize()
+      .text('€')
+      .codePage('wpc1252')
+      .text('€')
+      .encode()
+
+    expect(toHex(bytes)).toBe(hex('1B 40', '1B 74 13', 'D5', '1B 74 10', '80'))
+  })
+
+  it('encodes a model 2 QR code', () => {
+    const bytes = new EscPosEncoder().qr('ORD-1', { size: 6 }).encode()
+
+    expect(toHex(bytes)).toBe(hex(
+      '1D 28 6B 04 00 31 41 32 00', // Model 2
+      '1D 28 6B 03 00 31 43 06', // Module size 6
+      '1D 28 6B 03 00 31 45 31', // Error correction M
+      '1D 28 6B 08 00 31 50 30 4F 52 44 2D 31', // Store ORD-1
+      '1D 28 6B 03 00 31 51 30' // Print
+    ))
+  })
+
+  it('encodes Code 128 barcodes in code set B with literal braces doubled', () => {
+    const bytes = new EscPosEncoder().barcode('AB{1', 'CODE128', { height: 50, showText: false }).encode()
+
+    expect(toHex(bytes)).toBe(hex(
+      '1D 68 32', // Height 50
+      '1D 77 02', // Module width 2
+      '1D 48 00', // No text
+      '1D 6B 49 07 7B 42 41 42 7B 7B 31'
+    ))
+  })
+
+  it('encodes EAN-13 barcodes and rejects data they cannot hold', () => {
+    const bytes = new EscPosEncoder().barcode('480000000001', 'EAN13').encode()
+
+    expect(toHex(bytes)).toBe(hex(
+      '1D 68 50',
+      '1D 77 02',
+      '1D 48 02', // Text below
+      '1D 6B 43 0C 34 38 30 30 30 30 30 30 30 30 30 31'
+    ))
+    expect(() => new EscPosEncoder().barcode('4800', 'EAN13')).toThrow('EAN-13')
+    expect(() => new EscPosEncoder().barcode('ord-1', 'CODE39')).toThrow('Code 39')
+  })
+
+  it('encodes full and partial cuts', () => {
+    expect(toHex(new EscPosEncoder().cut().encode())).toBe('1D 56 42 00')
+    expect(toHex(new EscPosEncoder().cut({ partial: false }).encode())).toBe('1D 56 41 00')
+  })
+})
+
+describe('encodeText', () => {
+  it('maps accented characters to their code page bytes', () => {
+    expect(toHex(Uint8Array.from(encodeText('é ñ', 'cp437')))).toBe('82 20 A4')
+    expect(toHex(Uint8Array.from(encodeText('é ñ', 'cp850')))).toBe('82 20 A4')
+    expect(toHex(Uint8Array.from(encodeText('é ñ', 'wpc1252')))).toBe('E9 20 F1')
+  })
+
+  it('falls back to ASCII for characters the code page lacks', () => {
+    // ₱ and the dash have ASCII replacements, ã loses its accent, € has no replacement
+    expect(toHex(Uint8Array.from(encodeText('₱5 – ã €', 'cp437')))).toBe('50 35 20 2D 20 61 20 3F')
+  })
+})
+
+describe('encodeReceiptDocument', () => {
+  const document: ReceiptDocument = {
+    lineWidth: 8,
+    blocks: [
+      { type: 'text', text: '₱1', align: 'center', bold: true, size: 'large' },
+      { type: 'columns', columns: [{ text: 'A' }, { text: '1', align: 'right' }], bold: true },
+      { type: 'divider', char: '-' },
+      { type: 'qr', data: 'A', size: 4, align: 'center' },
+      { type: 'image', base64: 'iVBORw0KGgo=', width: 8, align: 'center' },
+      { type: 'feed', lines: 2 },
+      { type: 'cut' },
+    ],
+  }
+
+  const body = hex(
+    INITIALIZE,
+    '1B 61 01 1B 45 01 1D 21 01', // Center, bold, double height
+    '50 31 0A',
+    '1D 21 00 1B 45 00 1B 61 00',
+    '1B 45 01 41 20 20 20 20 20 31 0A 1B 45 00', // Columns share the width
+    '2D 2D 2D 2D 2D 2D 2D 2D 0A',
+    '1B 61 01',
+    '1D 28 6B 04 00 31 41 32 00',
+    '1D 28 6B 03 00 31 43 04',
+    '1D 28 6B 03 00 31 45 31',
+    '1D 28 6B 04 00 31 50 30 41',
+    '1D 28 6B 03 00 31 51 30',
+    '0A 1B 61 00',
+    // The image is left out without a decoder
+    '1B 64 02'
+  )
+
+  it('cuts at cut blocks on printers with a cutter', () => {
+    expect(toHex(encodeReceiptDocument(document, { hasCutter: true }))).toBe(hex(body, '1D 56 42 00'))
+  })
+
+  it('feeds the paper out for tearing on printers without a cutter', () => {
+    expect(toHex(encodeReceiptDocument(document))).toBe(hex(body, '1B 64 04'))
+  })
+})
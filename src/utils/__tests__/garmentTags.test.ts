@@ -0,0 +1,28 @@
+import { getGarmentTagCode, getScannedOrderFilter, parseGarmentTagCode } from '../garmentTags'
+
+describe('parseGarmentTagCode', () => {
+  it('reads the order number and bag back from a tag code', () => {
+    expect(parseGarmentTagCode(getGarmentTagCode('ORD-0042', 2))).toEqual({ orderNumber: 'ORD-0042', bag: 2 })
+    expect(parseGarmentTagCode('ORD-0042')).toBeNull()
+    expect(parseGarmentTagCode('ORD-0042/0')).toBeNull()
+  })
+})
+
+describe('getScannedOrderFilter', () => {
+  it('matches the order id only when the code is a UUID', () => {
+    expect(getScannedOrderFilter('3f2a9c1e-5b7d-4e8f-9a0b-1c2d3e4f5a6b')).toBe(
+      'id.eq.3f2a9c1e-5b7d-4e8f-9a0b-1c2d3e4f5a6b,' +
+        'order_number.eq."3f2a9c1e-5b7d-4e8f-9a0b-1c2d3e4f5a6b",' +
+        'provisional_order_number.eq."3f2a9c1e-5b7d-4e8f-9a0b-1c2d3e4f5a6b"'
+    )
+    expect(getScannedOrderFilter('ORD-0042/2')).toBe(
+      'order_number.eq."ORD-0042/2",provisional_order_number.eq."ORD-0042/2"'
+    )
+  })
+
+  it('quotes codes so their punctuation stays part of the value', () => {
+    expect(getScannedOrderFilter('A,B"(1)')).toBe(
+      'order_number.eq."A,B\\"(1)",provisional_order_number.eq."A,B\\"(1)"'
+    )
+  })
+})
@@ -0,0 +1,25 @@
+import { isNetworkError } from '../network'
+
+describe('isNetworkError', () => {
+  it('treats a fetch that never got a response as offline', () => {
+    expect(isNetworkError(new TypeError('Network request failed'))).toBe(true)
+    expect(isNetworkError(new TypeError('Failed to fetch'))).toBe(true)
+  })
+
+  it('treats a rejected fetch reported by supabase-js as offline', () => {
+    expect(isNetworkError({ message: 'TypeError: Network request failed', details: '', hint: '', code: '' })).toBe(true)
+  })
+
+  it('does not treat errors the server answered with as offline', () => {
+    expect(isNetworkError({ message: 'canceling statement due to statement timeout', code: '57014' })).toBe(false)
+    expect(isNetworkError({ message: 'upstream request timeout', status: 504 })).toBe(false)
+    expect(isNetworkError({ message: 'The operation was aborted', code: '' })).toBe(false)
+    expect(isNetworkError(new Error('Request timed out'))).toBe(false)
+    expect(isNetworkError(new TypeError("Cannot read properties of undefined (reading 'id')"))).toBe(false)
+  })
+
+  it('ignores empty values', () => {
+    expect(isNetworkError(null)).toBe(false)
+    expect(isNetworkError(undefined)).toBe(false)
+  })
+})
@@ -0,0 +1,195 @@
+import { ClaimStubOrder } from '../../types/receipt'
+import { SalesReceiptPrintData } from '../../types/salesReceipt'
+import { renderReceiptText } from '../receiptDocument'
+import { buildClaimStubDocument, buildGarmentTagsDocument, buildSalesReceiptDocument } from '../receiptLayouts'
+
+// Dates without a time zone are local, so the printed times do not depend on where tests run
+const storeInfo = {
+  name: 'Suds Laundry',
+  address: '12 Rizal St',
+  phone: '0917 123 4567',
+}
+
+const order: ClaimStubOrder = {
+  orderId: '3f2a9c1e-0000-4000-8000-000000000000',
+  orderNumber: 'ORD-0042',
+  orderDate: '2026-03-05T09:07:00',
+  customerName: 'Maria Santos',
+  items: [
+    { name: 'Wash & Fold', quantity: 2, price: 150 },
+    { name: 'Fabric Softener', quantity: 1, price: 25 },
+  ],
+  subtotal: 325,
+  totalAmount: 300,
+  discounts: [{ description: 'Regular customer', amount: 25 }],
+  payments: [{ method: 'Cash', amount: 200, tendered: 500 }],
+  change: 300,
+  balance: 100,
+  promisedAt: '2026-03-06T17:00:00',
+  storeInfo,
+}
+
+const salesReceipt: SalesReceiptPrintData = {
+  receipt: {
+    id: 'receipt-1',
+    store_id: 'store-1',
+    receipt_number: 17,
+    order_id: order.orderId,
+    order_number: 'ORD-0042',
+    customer_name: 'Maria Santos',
+    amount: 175,
+    payments: [{
+      id: 'payment-1',
+      payment_method: 'gcash',
+      method_name: 'GCash',
+      amount: 175,
+      reference: '1234567890',
+      amount_tendered: null,
+      change_given: 0,
+    }],
+    paid_to_date: 375, // ₱325 total and ₱50 storage fee
+    balance_after: 0,
+    issued_by: 'user-1',
+    issued_at: '2026-03-07T14:30:00',
+    printed_at: null,
+    reprint_count: 0,
+    created_at: '2026-03-07T14:30:00',
+  },
+  reprint: false,
+  cashierName: 'Ana Cruz',
+  storeInfo: { ...storeInfo, businessName: 'Suds Laundry Services Inc.', tin: '123-456-789-000' },
+  order: {
+    items: order.items,
+    subtotal: 325,
+    totalAmount: 325,
+    tax: {
+      tax_inclusive: true,
+      tax_rate: 12,
+      tax: 0,
+      vatable_sales: 290.18,
+      vat_amount: 34.82,
+      vat_exempt_sales: 0,
+    },
+    storageFee: 50,
+  },
+}
+
+describe('buildClaimStubDocument', () => {
+  it('prints the store, order, items, totals and payments with a QR code for pickup', () => {
+    expect(renderReceiptText(buildClaimStubDocument(order))).toEqual([
+      '',
+      '          SUDS LAUNDRY',
+      '          12 Rizal St',
+      '   Contact No.: 0917 123 4567',
+      '================================',
+      '           CLAIM STUB',
+      '',
+      'Order #: ORD-0042',
+      'Date: 03/05/2026',
+      'Time: 09:07',
+      'Ready by: 03/06/2026 17:00',
+      '',
+      '================================',
+      '',
+      'Customer:',
+      'Maria Santos',
+      '',
+      'Services:',
+      '2x Wash & Fold           ₱150.00',
+      '1x Fabric Softener        ₱25.00',
+      '',
+      '================================',
+      'Subtotal:                ₱325.00',
+      'Less Regular customer    -₱25.00',
+      'TOTAL:                   ₱300.00',
+      'Payments:',
+      '  Cash                   ₱200.00',
+      '    Received             ₱500.00',
+      'Change:                  ₱300.00',
+      'Balance Due:             ₱100.00',
+      '',
+      '  Thank you for your business!',
+      '   Please keep this stub for',
+      '            pickup.',
+      '',
+      '         [QR: ORD-0042]',
+      '',
+      '',
+      '',
+    ])
+  })
+})
+
+describe('buildSalesReceiptDocument', () => {
+  it('prints the business details, VAT breakdown, storage fee and tenders', () => {
+    expect(renderReceiptText(buildSalesReceiptDocument(salesReceipt))).toEqual([
+      '',
+      '          SUDS LAUNDRY',
+      '          12 Rizal St',
+      '   Contact No.: 0917 123 4567',
+      '   Suds Laundry Services Inc.',
+      '  VAT REG TIN: 123-456-789-000',
+      '================================',
+      '        OFFICIAL RECEIPT',
+      '',
+      'OR No.: 00000017',
+      'Date: 03/07/2026',
+      'Time: 14:30',
+      'Order #: ORD-0042',
+      'Customer: Maria Santos',
+      'Cashier: Ana Cruz',
+      '================================',
+      'Services:',
+      '2x Wash & Fold           ₱150.00',
+      '1x Fabric Softener        ₱25.00',
+      '--------------------------------',
+      'TOTAL:                   ₱325.00',
+      'VATable Sales:           ₱290.18',
+      'VAT Amount (12%):         ₱34.82',
+      'VAT-Exempt Sales:          ₱0.00',
+      'Storage Fee:              ₱50.00',
+      '--------------------------------',
+      'Payments:',
+      '  GCash                  ₱175.00',
+      '    Ref: 1234567890',
+      'AMOUNT PAID:             ₱175.00',
+      'Paid to Date:            ₱375.00',
+      'BALANCE DUE:               ₱0.00',
+      '      *** PAID IN FULL ***',
+      '================================',
+      '  Thank you for your business!',
+      '',
+      '',
+      '',
+    ])
+  })
+})
+
+describe('buildGarmentTagsDocument', () => {
+  it('prints one tag per bag', () => {
+    expect(renderReceiptText(buildGarmentTagsDocument({
+      orderId: order.orderId,
+      orderNumber: 'ORD-0042',
+      customerName: 'Maria Santos',
+      bagCount: 2,
+      promisedAt: order.promisedAt,
+    }))).toEqual([
+      '',
+      '            ORD-0042',
+      '          Maria Santos',
+      '           BAG 1 OF 2',
+      '   Ready by: 03/06/2026 17:00',
+      '        [QR: ORD-0042/1]',
+      '',
+      '',
+      '',
+      '            ORD-0042',
+      '          Maria Santos',
+      '           BAG 2 OF 2',
+      '   Ready by: 03/06/2026 17:00',
+      '        [QR: ORD-0042/2]',
+      '',
+      '',
+    ])
+  })
+})
@@ -0,0 +1,112 @@
+/**
+ * Cash Drawer Utility
+ * Builds the X (shift so far) and Z (end of shift) reports printed on the receipt printer
+ */
+
+import { CashDrawerEntry, CashDrawerShift, ShiftSummary } from '../types/shift'
+import { padLine, round2 } from './money'
+
+/**
+ * Format a signed money value, e.g. -₱20.00
+ */
+export const formatVariance = (value: number): string =>
+  `${value < 0 ? '-' : value > 0 ? '+' : ''}₱${Math.abs(round2(value)).toFixed(2)}`
+
+/**
+ * Build the lines of a shift report
+ *
+ * An X report shows the shift totals so far and can be printed any time. A Z report
+ * is printed at close and adds the counted amounts and variance per payment method.
+ *
+ * @param report - Shift, its totals and entries, and the names to print
+ * @param lineWidth - Characters per printed line
+ */
+export const formatShiftReportLines = (
+  report: {
+    kind: 'X' | 'Z'
+    storeName: string
+    cashierName: string
+    shift: CashDrawerShift
+    summary: ShiftSummary
+    entries: CashDrawerEntry[]
+    methodNames?: Record<string, string> // Display name per payment method name
+  },
+  lineWidth: number = 32
+): string[] => {
+  const { kind, shift, summary, entries, methodNames = {} } = report
+  const center = (text: string) => ' '.repeat(Math.max(0, Math.floor((lineWidth - text.length) / 2))) + text
+  const money = (value: number) => `₱${round2(value).toFixed(2)}`
+  const divider = '='.repeat(lineWidth)
+  const methodName = (name: string) => methodNames[name] || name.toUpperCase()
+
+  const lines: string[] = []
+  if (report.storeName) lines.push(center(report.storeName.toUpperCase()))
+  lines.push(divider)
+  lines.push(kind === 'X' ? 'X REPORT - SHIFT TOTALS' : 'Z REPORT - END OF SHIFT')
+  lines.push(`Cashier: ${report.cashierName}`)
+  lines.push(`Opened: ${new Date(shift.opened_at).toLocaleString()}`)
+  if (kind === 'Z' && shift.closed_at) {
+    lines.push(`Closed: ${new Date(shift.closed_at).toLocaleString()}`)
+  } else {
+    lines.push(`Printed: ${new Date().toLocaleString()}`)
+  }
+  lines.push(divider)
+
+  // Payments per method
+  lines.push('Payments:')
+  if (summary.payments.length === 0) {
+    lines.push('  No payments')
+  }
+  summary.payments.forEach(payment => {
+    lines.push(padLine(`  ${methodName(payment.payment_method)} (${payment.count})`, money(payment.amount), lineWidth))
+  })
+  const paymentsTotal = summary.payments.reduce((sum, payment) => sum + Number(payment.amount), 0)
+  lines.push(padLine('  Total', money(paymentsTotal), lineWidth))
+  if (summary.change_given > 0) {
+    lines.push(padLine('  Change Given', money(summary.change_given), lineWidth))
+  }
+  if (summary.refunds && summary.refunds.length > 0) {
+    lines.push('Refunds:')
+    summary.refunds.forEach(refund => {
+      lines.push(padLine(`  ${methodName(refund.payment_method)} (${refund.count})`, `-${money(refund.amount)}`, lineWidth))
+    })
+  }
+  lines.push('-'.repeat(lineWidth))
+
+  // Cash drawer
+  lines.push('Cash Drawer:')
+  lines.push(padLine('  Opening Float', money(summary.opening_float), lineWidth))
+  lines.push(padLine('  Cash Payments', money(summary.cash_payments), lineWidth))
+  if (summary.cash_refunds) {
+    lines.push(padLine('  Cash Refunds', `-${money(summary.cash_refunds)}`, lineWidth))
+  }
+  lines.push(padLine('  Paid In', money(summary.paid_in), lineWidth))
+  lines.push(padLine('  Paid Out', money(summary.paid_out), lineWidth))
+  lines.push(padLine('  Expected Cash', money(summary.expected_cash), lineWidth))
+
+  if (entries.length > 0) {
+    lines.push('Paid In / Out:')
+    entries.forEach(entry => {
+      const amount = `${entry.entry_type === 'paid_out' ? '-' : '+'}${money(entry.amount)}`
+      lines.push(padLine(`  ${entry.reason}`.substring(0, lineWidth - amount.length - 1), amount, lineWidth))
+    })
+  }
+
+  // Counted amounts at close
+  if (kind === 'Z' && shift.closing_counts) {
+    lines.push('-'.repeat(lineWidth))
+    lines.push('Count:')
+    shift.closing_counts.forEach(count => {
+      lines.push(`  ${methodName(count.payment_method)}`)
+      lines.push(padLine('    Expected', money(count.expected), lineWidth))
+      lines.push(padLine('    Counted', money(count.counted), lineWidth))
+      lines.push(padLine('    Variance', formatVariance(count.variance), lineWidth))
+    })
+    if (shift.notes) {
+      lines.push(`Notes: ${shift.notes}`)
+    }
+  }
+
+  lines.push(divider)
+  return lines
+}
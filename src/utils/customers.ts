@@ -0,0 +1,27 @@
+/**
+ * Customers Utility
+ * Helpers for customer duplicate detection and tags
+ */
+
+/**
+ * Key used to match phone numbers: the last 10 digits, so 0917 123 4567 and
+ * +63 917 123 4567 are the same number. Mirrors customers.phone_key in the database.
+ */
+export const getPhoneKey = (phone: string | null | undefined): string | null => {
+  const digits = (phone || '').replace(/\D/g, '')
+  return digits ? digits.slice(-10) : null
+}
+
+/**
+ * Parse comma-separated tags, dropping blanks and duplicates (case-insensitive)
+ */
+export const parseTags = (value: string): string[] => {
+  const tags: string[] = []
+  value.split(',').forEach(part => {
+    const tag = part.trim()
+    if (tag && !tags.some(existing => existing.toLowerCase() === tag.toLowerCase())) {
+      tags.push(tag)
+    }
+  })
+  return tags
+}
@@ -0,0 +1,29 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { Platform } from 'react-native'
+
+/**
+ * Device Utility
+ * Identifies this device on records it writes, e.g. order status history
+ */
+
+const DEVICE_TAG_KEY = '@offline_device_tag'
+
+/**
+ * Short random tag generated once per install
+ * Also used in provisional order numbers so they stay unique across devices
+ */
+export const getDeviceTag = async (): Promise<string> => {
+  let deviceTag = await AsyncStorage.getItem(DEVICE_TAG_KEY)
+  if (!deviceTag) {
+    deviceTag = Math.random().toString(36).substring(2, 5).toUpperCase()
+    await AsyncStorage.setItem(DEVICE_TAG_KEY, deviceTag)
+  }
+  return deviceTag
+}
+
+/**
+ * Device id sent with changes made from this device, e.g. "android-K3F"
+ */
+export const getDeviceId = async (): Promise<string> => {
+  return `${Platform.OS}-${await getDeviceTag()}`
+}
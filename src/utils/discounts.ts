@@ -0,0 +1,145 @@
+/**
+ * Discounts Utility
+ * Applies cashier discounts and vouchers on top of the pricing rules result
+ */
+
+import { PricingLine, PricingResult } from '../types/pricingRule'
+import { ManagerApproval, ManualDiscount, Voucher } from '../types/voucher'
+import { round2 } from './money'
+
+/**
+ * Apply manual discounts and vouchers after the pricing rules
+ *
+ * Discounts are applied in the order they were added. Line discounts are capped
+ * at what is left of the line; order discounts and vouchers at what is left of
+ * the order. Discounts on lines no longer in the cart are skipped.
+ *
+ * @param result - Result of evaluatePricingRules for the same lines
+ * @param lines - Cart lines, with key set for lines that can take a line discount
+ * @param discounts - Discounts added at checkout, each with the manager approval it was added under
+ */
+export const applyManualDiscounts = (
+  result: PricingResult,
+  lines: PricingLine[],
+  discounts: ManualDiscount[]
+): PricingResult => {
+  const adjustments = [...result.adjustments]
+  const lineDiscounts = [...result.lineDiscounts]
+  let total = result.total
+
+  discounts.forEach(discount => {
+    let available = total
+    let itemIndex: number | null = null
+
+    if (discount.item_key) {
+      itemIndex = lines.findIndex(line => line.key === discount.item_key)
+      if (itemIndex === -1) return
+      const line = lines[itemIndex]
+      available = Math.min(available, round2(line.quantity * line.unit_price - lineDiscounts[itemIndex]))
+    }
+
+    let amount = discount.discount_type === 'percent'
+      ? (available * discount.discount_value) / 100
+      : discount.discount_value
+    if (discount.max_discount && discount.max_discount > 0) {
+      amount = Math.min(amount, discount.max_discount)
+    }
+    amount = round2(Math.min(amount, available))
+    if (amount <= 0) return
+
+    total = round2(total - amount)
+    if (itemIndex !== null) {
+      lineDiscounts[itemIndex] = round2(lineDiscounts[itemIndex] + amount)
+    }
+
+    adjustments.push({
+      pricing_rule_id: null,
+      voucher_id: discount.voucher_id ?? null,
+      source: discount.source,
+      description: discount.description,
+      amount,
+      item_index: itemIndex,
+      approved_by: discount.approval?.user_id ?? null,
+      approval_id: discount.approval?.approval_id ?? null,
+    })
+  })
+
+  return {
+    subtotal: result.subtotal,
+    discount: round2(result.subtotal - total),
+    total,
+    adjustments,
+    lineDiscounts,
+  }
+}
+
+/**
+ * Total of the discounts entered at checkout (manual discounts and vouchers)
+ */
+export const getManualDiscountTotal = (result: PricingResult): number => {
+  return round2(result.adjustments
+    .filter(adjustment => adjustment.source === 'manual' || adjustment.source === 'voucher')
+    .reduce((sum, adjustment) => sum + adjustment.amount, 0))
+}
+
+/**
+ * Manager approval covering the largest discount total among the discounts
+ * @param discounts - Discounts added at checkout
+ * @param now - Approvals that expired before this time are ignored
+ */
+export const getDiscountApproval = (discounts: ManualDiscount[], now: Date = new Date()): ManagerApproval | null => {
+  return discounts.reduce<ManagerApproval | null>((best, discount) => {
+    const approval = discount.approval
+    if (!approval || new Date(approval.expires_at) <= now) return best
+    return !best || (approval.max_amount ?? 0) > (best.max_amount ?? 0) ? approval : best
+  }, null)
+}
+
+/**
+ * Check if checkout discounts exceed the store's approval threshold and what a manager approved
+ * @param result - Pricing result including manual discounts
+ * @param thresholdPercent - Percent of the subtotal cashiers may discount without a manager
+ * @param approvedAmount - Discount total already approved by a manager
+ */
+export const requiresManagerApproval = (
+  result: PricingResult,
+  thresholdPercent: number,
+  approvedAmount: number = 0
+): boolean => {
+  const total = getManualDiscountTotal(result)
+  return total > round2((result.subtotal * thresholdPercent) / 100) && total > approvedAmount
+}
+
+/**
+ * Check a voucher against the order
+ * @param voucher - Voucher found by code
+ * @param storeId - Store the order is for
+ * @param subtotal - Order subtotal before discounts
+ * @param usage - Number of orders that already used the voucher
+ * @returns An error message, or null when the voucher can be used
+ */
+export const validateVoucher = (
+  voucher: Voucher,
+  storeId: string,
+  subtotal: number,
+  usage: number,
+  now: Date = new Date()
+): string | null => {
+  if (!voucher.is_active) return 'This voucher is no longer active'
+  if (voucher.store_id && voucher.store_id !== storeId) return 'This voucher is not valid in this store'
+  if (voucher.starts_at && new Date(voucher.starts_at) > now) return 'This voucher is not valid yet'
+  if (voucher.ends_at && new Date(voucher.ends_at) <= now) return 'This voucher has expired'
+  if (subtotal < voucher.min_spend) return `This voucher requires a minimum spend of ₱${voucher.min_spend.toFixed(2)}`
+  if (voucher.usage_limit && usage >= voucher.usage_limit) return 'This voucher has reached its usage limit'
+  return null
+}
+
+/**
+ * Short description of a voucher's discount (e.g. "20% off, up to ₱100.00")
+ */
+export const describeVoucherDiscount = (voucher: Pick<Voucher, 'discount_type' | 'discount_value' | 'max_discount'>): string => {
+  if (voucher.discount_type === 'fixed') return `₱${voucher.discount_value.toFixed(2)} off`
+  return voucher.max_discount
+    ? `${voucher.discount_value}% off, up to ₱${voucher.max_discount.toFixed(2)}`
+    : `${voucher.discount_value}% off`
+}
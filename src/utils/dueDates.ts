@@ -0,0 +1,116 @@
+/**
+ * Due Dates Utility
+ * Promised ready dates of orders: the default from the service turnaround times,
+ * where an order stands against its promised date and how the date is shown
+ */
+
+import { OrderDueStatus, OrderStatus } from '../types/order'
+
+const HOUR = 60 * 60 * 1000
+
+/**
+ * Statuses of orders that still have to be made ready
+ */
+export const OPEN_ORDER_STATUSES: OrderStatus[] = ['pending', 'in_progress']
+
+/**
+ * Labels for the due filters and badges
+ */
+export const DUE_STATUS_LABELS: Record<Exclude<OrderDueStatus, 'none'>, string> = {
+  overdue: 'Overdue',
+  due_today: 'Due Today',
+  due_tomorrow: 'Due Tomorrow',
+  later: 'Due Later',
+}
+
+const startOfDay = (date: Date, addDays: number = 0): Date => {
+  const start = new Date(date)
+  start.setHours(0, 0, 0, 0)
+  start.setDate(start.getDate() + addDays)
+  return start
+}
+
+/**
+ * Default promised ready date of a new order: the longest turnaround of its services.
+ * Must match the default in create_order_with_items.
+ *
+ * @param turnaroundHours - Turnaround of each service on the order; null when the service has none
+ * @param defaultHours - Store default_turnaround_hours setting
+ * @param from - Drop-off time
+ * @returns The promised date, or null when the order has no services
+ */
+export const getDefaultPromisedAt = (
+  turnaroundHours: (number | null | undefined)[],
+  defaultHours: number,
+  from: Date = new Date()
+): Date | null => {
+  if (turnaroundHours.length === 0) return null
+
+  const hours = Math.max(...turnaroundHours.map(value => value ?? defaultHours))
+  return new Date(from.getTime() + hours * HOUR)
+}
+
+/**
+ * Where an order stands against its promised date
+ */
+export const getOrderDueStatus = (
+  order: { promised_at?: string | null; order_status: OrderStatus },
+  now: Date = new Date()
+): OrderDueStatus => {
+  if (!order.promised_at || !OPEN_ORDER_STATUSES.includes(order.order_status)) return 'none'
+
+  const promisedAt = new Date(order.promised_at)
+  if (promisedAt < now) return 'overdue'
+  if (promisedAt < startOfDay(now, 1)) return 'due_today'
+  if (promisedAt < startOfDay(now, 2)) return 'due_tomorrow'
+  return 'later'
+}
+
+/**
+ * Promised date range of a due filter, for querying open orders
+ *
+ * @returns ISO timestamps; from is null for overdue (anything before now)
+ */
+export const getDueWindow = (
+  dueStatus: 'overdue' | 'due_today' | 'due_tomorrow',
+  now: Date = new Date()
+): { from: string | null; to: string } => {
+  switch (dueStatus) {
+    case 'overdue':
+      return { from: null, to: now.toISOString() }
+    case 'due_today':
+      return { from: now.toISOString(), to: startOfDay(now, 1).toISOString() }
+    case 'due_tomorrow':
+      return { from: startOfDay(now, 1).toISOString(), to: startOfDay(now, 2).toISOString() }
+  }
+}
+
+/**
+ * Format a promised date for screens, e.g. Today 5:00 PM, Tomorrow 10:00 AM or Mar 4, 9:00 AM
+ */
+export const formatPromisedAt = (promisedAt: string | Date, now: Date = new Date()): string => {
+  const date = new Date(promisedAt)
+  const time = date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })
+
+  if (date >= startOfDay(now) && date < startOfDay(now, 1)) return `Today ${time}`
+  if (date >= startOfDay(now, 1) && date < startOfDay(now, 2)) return `Tomorrow ${time}`
+  if (date >= startOfDay(now, -1) && date < startOfDay(now)) return `Yesterday ${time}`
+
+  return `${date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}, ${time}`
+}
+
+/**
+ * Build the promised date line printed on claim stubs
+ * @param order - Order as passed to the printer services
+ * @returns The Ready by line; empty when the order has no promised date
+ */
+export const formatClaimStubDueLines = (order: { promisedAt?: string | null }): string[] => {
+  if (!order.promisedAt) return []
+
+  const date = new Date(order.promisedAt)
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return [
+    `Ready by: ${pad(date.getMonth() + 1)}/${pad(date.getDate())}/${date.getFullYear()} ` +
+      `${pad(date.getHours())}:${pad(date.getMinutes())}`,
+  ]
+}
@@ -0,0 +1,383 @@
+/**
+ * ESC/POS Utility
+ * Encodes receipts into the ESC/POS command bytes understood by most external receipt
+ * printers. Encoding is pure: the same input always gives the same bytes, so output can
+ * be checked against recorded byte streams.
+ */
+
+import { EscPosCodePage, MonochromeImage, PaperWidth } from '../types/escpos'
+import { ReceiptAlign, ReceiptBarcodeSymbology, ReceiptDocument, ReceiptTextSize } from '../types/receipt'
+import { formatColumnsLine } from './receiptDocument'
+
+const ESC = 0x1b
+const GS = 0x1d
+const LF = 0x0a
+
+/**
+ * Characters per line and printable dots per line of each paper width (font A)
+ */
+export const PAPER_WIDTHS: Record<PaperWidth, { lineWidth: number; dots: number }> = {
+  58: { lineWidth: 32, dots: 384 },
+  80: { lineWidth: 48, dots: 576 },
+}
+
+export const DEFAULT_CODE_PAGE: EscPosCodePage = 'cp437'
+
+export const ESC_POS_CODE_PAGES: { key: EscPosCodePage; label: string }[] = [
+  { key: 'cp437', label: 'PC437 (USA)' },
+  { key: 'cp850', label: 'PC850 (Latin-1)' },
+  { key: 'cp858', label: 'PC858 (Latin-1 + €)' },
+  { key: 'wpc1252', label: 'WPC1252 (Windows)' },
+]
+
+export const DEFAULT_NETWORK_PRINTER_PORT = 9100
+
+// ESC t table numbers, and the characters at 0x80-0xFF of each table
+const CODE_PAGES: Record<EscPosCodePage, { table: number; characters: string }> = {
+  cp437: {
+    table: 0,
+    characters:
+      'ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜ¢£¥₧ƒáíóúñÑªº¿⌐¬½¼¡«»░▒▓│┤╡╢╖╕╣║╗╝╜╛┐' +
+      '└┴┬├─┼╞╟╚╔╩╦╠═╬╧╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀αßΓπΣσµτΦΘΩδ∞φε∩≡±≥≤⌠⌡÷≈°∙·√ⁿ²■ ',
+  },
+  cp850: {
+    table: 2,
+    characters:
+      'ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜø£Ø×ƒáíóúñÑªº¿®¬½¼¡«»░▒▓│┤ÁÂÀ©╣║╗╝¢¥┐' +
+      '└┴┬├─┼ãÃ╚╔╩╦╠═╬¤ðÐÊËÈıÍÎÏ┘┌█▄¦Ì▀ÓßÔÒõÕµþÞÚÛÙýÝ¯´\u00ad±‗¾¶§÷¸°¨·¹³²■ ',
+  },
+  cp858: {
+    table: 19,
+    characters:
+      'ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜø£Ø×ƒáíóúñÑªº¿®¬½¼¡«»░▒▓│┤ÁÂÀ©╣║╗╝¢¥┐' +
+      '└┴┬├─┼ãÃ╚╔╩╦╠═╬¤ðÐÊËÈ€ÍÎÏ┘┌█▄¦Ì▀ÓßÔÒõÕµþÞÚÛÙýÝ¯´\u00ad±‗¾¶§÷¸°¨·¹³²■ ',
+  },
+  wpc1252: {
+    table: 16,
+    characters:
+      '€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008dŽ\u008f\u0090‘’“”•–—˜™š›œ\u009džŸ' +
+      Array.from({ length: 96 }, (_, index) => String.fromCharCode(0xa0 + index)).join(''),
+  },
+}
+
+// Characters no table has, printed as the closest ASCII
+const ASCII_REPLACEMENTS: Record<string, string> = {
+  '₱': 'P',
+  '‘': "'",
+  '’': "'",
+  '“': '"',
+  '”': '"',
+  '–': '-',
+  '—': '-',
+  '…': '...',
+  '•': '*',
+}
+
+// GS ! character sizes: normal, double height, double width and height
+const TEXT_SIZES: Record<ReceiptTextSize, number> = { normal: 0x00, large: 0x01, xlarge: 0x11 }
+
+const ALIGNMENTS: Record<ReceiptAlign, number> = { left: 0, center: 1, right: 2 }
+
+// GS k function B barcode systems
+const BARCODE_SYSTEMS: Record<ReceiptBarcodeSymbology, number> = { EAN13: 67, CODE39: 69, CODE128: 73 }
+
+const QR_ERROR_CORRECTION = { L: 48, M: 49, Q: 50, H: 51 }
+
+/**
+ * Encode text in a printer code page. Characters the code page lacks are printed without
+ * accents where possible, otherwise as '?'.
+ */
+export const encodeText = (text: string, codePage: EscPosCodePage = DEFAULT_CODE_PAGE): number[] => {
+  const characters = CODE_PAGES[codePage].characters
+  const bytes: number[] = []
+
+  for (const character of text) {
+    const code = character.charCodeAt(0)
+    if (code < 0x80) {
+      bytes.push(code)
+      continue
+    }
+
+    const index = characters.indexOf(character)
+    if (index >= 0) {
+      bytes.push(0x80 + index)
+      continue
+    }
+
+    const replacement = ASCII_REPLACEMENTS[character] ?? character.normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+    for (const replacementCharacter of replacement) {
+      const replacementCode = replacementCharacter.charCodeAt(0)
+      bytes.push(replacementCode < 0x80 ? replacementCode : 0x3f)
+    }
+  }
+
+  return bytes
+}
+
+/**
+ * Builds an ESC/POS byte stream command by command
+ *
+ * @example
+ * const bytes = new EscPosEncoder({ codePage: 'cp850' })
+ *   .initialize()
+ *   .align('center')
+ *   .bold(true)
+ *   .line('CLAIM STUB')
+ *   .bold(false)
+ *   .qr('ORD-000123')
+ *   .cut()
+ *   .encode()
+ */
+export class EscPosEncoder {
+  private bytes: number[] = []
+  private currentCodePage: EscPosCodePage
+
+  constructor(options: { codePage?: EscPosCodePage } = {}) {
+    this.currentCodePage = options.codePage ?? DEFAULT_CODE_PAGE
+  }
+
+  /**
+   * Reset the printer (ESC @) and select the code page
+   */
+  initialize(): this {
+    return this.raw([ESC, 0x40]).codePage(this.currentCodePage)
+  }
+
+  codePage(codePage: EscPosCodePage): this {
+    this.currentCodePage = codePage
+    return this.raw([ESC, 0x74, CODE_PAGES[codePage].table])
+  }
+
+  align(align: ReceiptAlign): this {
+    return this.raw([ESC, 0x61, ALIGNMENTS[align]])
+  }
+
+  bold(enabled: boolean): this {
+    return this.raw([ESC, 0x45, enabled ? 1 : 0])
+  }
+
+  underline(enabled: boolean): this {
+    return this.raw([ESC, 0x2d, enabled ? 1 : 0])
+  }
+
+  size(size: ReceiptTextSize): this {
+    return this.raw([GS, 0x21, TEXT_SIZES[size]])
+  }
+
+  /**
+   * Text without a line break
+   */
+  text(text: string): this {
+    return this.raw(encodeText(text, this.currentCodePage))
+  }
+
+  /**
+   * Text followed by a line break
+   */
+  line(text: string = ''): this {
+    return this.text(text).raw([LF])
+  }
+
+  /**
+   * Print the buffer and feed paper (ESC d)
+   */
+  feed(lines: number = 1): this {
+    return this.raw([ESC, 0x64, Math.min(255, Math.max(0, lines))])
+  }
+
+  /**
+   * QR code (GS ( k) with model 2
+   * @param size Module size in dots, 1-16
+   */
+  qr(data: string, options: { size?: number; errorCorrection?: keyof typeof QR_ERROR_CORRECTION } = {}): this {
+    const content = encodeText(data, this.currentCodePage)
+    const storeLength = content.length + 3
+    const size = Math.min(16, Math.max(1, options.size ?? 8))
+
+    return this.raw([GS, 0x28, 0x6b, 0x04, 0x00, 0x31, 0x41, 0x32, 0x00]) // Model 2
+      .raw([GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x43, size])
+      .raw([GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x45, QR_ERROR_CORRECTION[options.errorCorrection ?? 'M']])
+      .raw([GS, 0x28, 0x6b, storeLength & 0xff, (storeLength >> 8) & 0xff, 0x31, 0x50, 0x30])
+      .raw(content)
+      .raw([GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x51, 0x30]) // Print the stored symbol
+  }
+
+  /**
+   * One-dimensional barcode (GS k, function B)
+   * @param options.height Bar height in dots, 1-255
+   * @param options.width Module width in dots, 2-6
+   */
+  barcode(
+    data: string,
+    symbology: ReceiptBarcodeSymbology,
+    options: { height?: number; width?: number; showText?: boolean } = {}
+  ): this {
+    if (symbology === 'EAN13' && !/^\d{12,13}$/.test(data)) {
+      throw new Error('EAN-13 barcodes need 12 or 13 digits')
+    }
+    if (symbology === 'CODE39' && !/^[0-9A-Z \-.$/+%]+$/.test(data)) {
+      throw new Error('Code 39 barcodes take digits, capital letters and - . $ / + % only')
+    }
+
+    // Code 128 data starts with the code set to use (set B covers printable ASCII); a literal { is doubled
+    const content = symbology === 'CODE128'
+      ? [0x7b, 0x42, ...encodeText(data.replace(/\{/g, '{{'))]
+      : encodeText(data)
+
+    return this.raw([GS, 0x68, Math.min(255, Math.max(1, options.height ?? 80))])
+      .raw([GS, 0x77, Math.min(6, Math.max(2, options.width ?? 2))])
+      .raw([GS, 0x48, options.showText === false ? 0 : 2]) // Human readable text below
+      .raw([GS, 0x6b, BARCODE_SYSTEMS[symbology], content.length])
+      .raw(content)
+  }
+
+  /**
+   * Raster bitmap (GS v 0). Pixels darker than the threshold print black.
+   */
+  image(image: MonochromeImage, options: { threshold?: number } = {}): this {
+    const threshold = options.threshold ?? 128
+    const bytesPerRow = Math.ceil(image.width / 8)
+    const data: number[] = []
+
+    for (let y = 0; y < image.height; y++) {
+      for (let byteIndex = 0; byteIndex < bytesPerRow; byteIndex++) {
+        let byte = 0
+        for (let bit = 0; bit < 8; bit++) {
+          const x = byteIndex * 8 + bit
+          if (x < image.width && image.pixels[y * image.width + x] < threshold) {
+            byte |= 0x80 >> bit
+          }
+        }
+        data.push(byte)
+      }
+    }
+
+    return this.raw([
+      GS, 0x76, 0x30, 0x00,
+      bytesPerRow & 0xff, (bytesPerRow >> 8) & 0xff,
+      image.height & 0xff, (image.height >> 8) & 0xff,
+    ]).raw(data)
+  }
+
+  /**
+   * Feed to the cutter and cut (GS V, function B)
+   */
+  cut(options: { partial?: boolean } = {}): this {
+    return this.raw([GS, 0x56, options.partial === false ? 0x41 : 0x42, 0x00])
+  }
+
+  /**
+   * Pulse the cash drawer kick-out connector (ESC p)
+   * @param options.pin 0 for connector pin 2, 1 for pin 5
+   */
+  openCashDrawer(options: { pin?: 0 | 1 } = {}): this {
+    return this.raw([ESC, 0x70, options.pin ?? 0, 0x19, 0xfa]) // 50ms on, 500ms off
+  }
+
+  raw(bytes: number[]): this {
+    bytes.forEach(byte => this.bytes.push(byte & 0xff))
+    return this
+  }
+
+  encode(): Uint8Array {
+    return Uint8Array.from(this.bytes)
+  }
+}
+
+/**
+ * Encode a receipt document for an ESC/POS printer
+ * @param options.hasCutter Cut at cut blocks; otherwise the paper is fed out for tearing
+ * @param options.decodeImage Turns an image block's base64 file into a bitmap; image blocks
+ *   are left out without it
+ */
+export const encodeReceiptDocument = (
+  document: ReceiptDocument,
+  options: {
+    codePage?: EscPosCodePage
+    hasCutter?: boolean
+    decodeImage?: (base64: string, width: number) => MonochromeImage | null
+  } = {}
+): Uint8Array => {
+  const encoder = new EscPosEncoder({ codePage: options.codePage }).initialize()
+  const width = document.lineWidth
+
+  document.blocks.forEach(block => {
+    switch (block.type) {
+      case 'text': {
+        const align = block.align ?? 'left'
+        const size = block.size ?? 'normal'
+        if (align !== 'left') encoder.align(align)
+        if (block.bold) encoder.bold(true)
+        if (size !== 'normal') encoder.size(size)
+        encoder.line(block.text)
+        if (size !== 'normal') encoder.size('normal')
+        if (block.bold) encoder.bold(false)
+        if (align !== 'left') encoder.align('left')
+        break
+      }
+      case 'columns':
+        if (block.bold) encoder.bold(true)
+        encoder.line(formatColumnsLine(block.columns, width))
+        if (block.bold) encoder.bold(false)
+        break
+      case 'divider':
+        encoder.line(block.char.repeat(width).substring(0, width))
+        break
+      case 'qr':
+        encoder.align(block.align).qr(block.data, { size: block.size }).line().align('left')
+        break
+      case 'barcode':
+        encoder
+          .align(block.align)
+          .barcode(block.data, block.symbology, { height: block.height, showText: block.showText })
+          .line()
+          .align('left')
+        break
+      case 'image': {
+        const image = options.decodeImage?.(block.base64, block.width)
+        if (image) {
+          encoder.align(block.align).image(image).align('left')
+        }
+        break
+      }
+      case 'feed':
+        encoder.feed(block.lines)
+        break
+      case 'cut':
+        if (options.hasCutter) {
+          encoder.cut()
+        } else {
+          encoder.feed(4)
+        }
+        break
+    }
+  })
+
+  return encoder.encode()
+}
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+
+/**
+ * Base64 of a byte stream, the form printer transports accept
+ */
+export const toBase64 = (bytes: Uint8Array): string => {
+  let output = ''
+  for (let index = 0; index < bytes.length; index += 3) {
+    const byte1 = bytes[index]
+    const byte2 = index + 1 < bytes.length ? bytes[index + 1] : 0
+    const byte3 = index + 2 < bytes.length ? bytes[index + 2] : 0
+    const triple = (byte1 << 16) | (byte2 << 8) | byte3
+
+    output += BASE64_ALPHABET[(triple >> 18) & 0x3f] + BASE64_ALPHABET[(triple >> 12) & 0x3f]
+    output += index + 1 < bytes.length ? BASE64_ALPHABET[(triple >> 6) & 0x3f] : '='
+    output += index + 2 < bytes.length ? BASE64_ALPHABET[triple & 0x3f] : '='
+  }
+  return output
+}
+
+/**
+ * Bytes as spaced hex, e.g. "1B 40 1B 74 00", for logs and comparing against fixtures
+ */
+export const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes, byte => byte.toString(16).toUpperCase().padStart(2, '0')).join(' ')
@@ -5,6 +5,8 @@
  * Each store can enable/disable features independently.
  */
 
+import { SmsLanguage } from '../types/sms'
+
 export interface StoreFeatures {
   inventory_tracking: boolean
   loyalty_points: boolean
@@ -19,11 +21,31 @@ export interface StoreFeatures {
 export interface StoreSettings {
   currency: string
   currency_symbol: string
-  tax_rate: number
-  loyalty_points_rate: number
+  tax_rate: number // VAT rate in percent (e.g. 12)
+  tax_inclusive: boolean // Prices already include VAT
+  senior_pwd_discount_rate: number // Statutory senior citizen / PWD discount in percent
+  loyalty_points_rate: number // Points earned per 100 paid
+  loyalty_points_value: number // Value of one point when redeemed
   low_stock_threshold: number
+  oversell_policy: OversellPolicy
+  discount_approval_threshold: number // Percent of subtotal cashiers may discount without a manager PIN
+  uncancel_window_hours: number // How long after cancelling a manager can still un-cancel an order
+  default_turnaround_hours: number // Turnaround of services that don't set their own
+  unclaimed_reminder_days: number[] // Days after an order is ready to remind the customer to pick it up
+  storage_grace_days: number // Days a ready order is kept before storage fees start
+  storage_fee_per_day: number // Storage fee per day after the grace period; 0 for none
+  abandon_after_days: number // Days after ready a manager may mark an order abandoned
+  sms_language: SmsLanguage // Language of customer notifications
+  sms_auto_send: boolean // Send notifications on status changes without asking (needs sms_notifications)
 }
 
+/**
+ * What to do when a product sale exceeds the stock on hand
+ * - block: refuse the sale
+ * - warn:  ask the cashier to confirm, then allow stock to go negative
+ */
+export type OversellPolicy = 'block' | 'warn'
+
 export interface StoreWithFeatures {
   id: string
   name: string
@@ -107,7 +129,20 @@ export const DEFAULT_SETTINGS: StoreSettings = {
   currency: 'PHP',
   currency_symbol: '₱',
   tax_rate: 0,
+  tax_inclusive: true,
+  senior_pwd_discount_rate: 20,
   loyalty_points_rate: 1,
+  loyalty_points_value: 1,
   low_stock_threshold: 10,
+  oversell_policy: 'block',
+  discount_approval_threshold: 10,
+  uncancel_window_hours: 24,
+  default_turnaround_hours: 24,
+  unclaimed_reminder_days: [7, 14, 30],
+  storage_grace_days: 30,
+  storage_fee_per_day: 0,
+  abandon_after_days: 60,
+  sms_language: 'en',
+  sms_auto_send: false,
 }
 
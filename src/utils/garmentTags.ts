@@ -0,0 +1,49 @@
+/**
+ * Garment Tags Utility
+ * Codes printed on the tags of each bag of an order and read back when a tag is scanned
+ */
+
+/**
+ * Most bags one order can be tagged with
+ */
+export const MAX_BAG_COUNT = 99
+
+/**
+ * Code printed on a bag tag: the order number and the bag, e.g. ORD-0042/2
+ */
+export const getGarmentTagCode = (orderNumber: string, bag: number): string => `${orderNumber}/${bag}`
+
+/**
+ * Read a scanned bag tag code back
+ * @returns The order number and bag, or null when the code is not a bag tag
+ */
+export const parseGarmentTagCode = (code: string): { orderNumber: string; bag: number } | null => {
+  const match = code.trim().match(/^(.+)\/(\d{1,2})$/)
+  if (!match) return null
+
+  const bag = parseInt(match[2], 10)
+  return bag >= 1 && bag <= MAX_BAG_COUNT ? { orderNumber: match[1], bag } : null
+}
+
+/**
+ * Keep a bag count within 1 and MAX_BAG_COUNT
+ */
+export const clampBagCount = (count: number): number =>
+  Math.min(MAX_BAG_COUNT, Math.max(1, Math.round(count) || 1))
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * PostgREST or filter finding the order a scanned code points to. Codes are matched against
+ * the order number and provisional order number, and against the order id only when the code
+ * is a UUID, since the id column rejects anything else.
+ */
+export const getScannedOrderFilter = (code: string): string => {
+  // Quoted so commas, parentheses and dots in the code are read as part of the value
+  const value = `"${code.replace(/["\\]/g, '\\$&')}"`
+  const filters = [`order_number.eq.${value}`, `provisional_order_number.eq.${value}`]
+  if (UUID_PATTERN.test(code)) {
+    filters.unshift(`id.eq.${code}`)
+  }
+  return filters.join(',')
+}
@@ -0,0 +1,39 @@
+/**
+ * Loyalty Points Utility
+ * Mirrors the earning and redemption rules of the payments trigger in the database
+ */
+
+import { round2 } from './money'
+
+/**
+ * Name of the payment method that pays with loyalty points
+ */
+export const LOYALTY_PAYMENT_METHOD = 'loyalty_points'
+
+/**
+ * Points earned on a payment
+ * @param amount - Amount paid
+ * @param rate - Points per 100 paid (settings.loyalty_points_rate)
+ */
+export const calculatePointsEarned = (amount: number, rate: number): number => {
+  if (amount <= 0 || rate <= 0) return 0
+  return Math.floor((amount * rate) / 100)
+}
+
+/**
+ * Money value of a points balance
+ * @param points - Points available
+ * @param value - Value of one point (settings.loyalty_points_value)
+ */
+export const getPointsValue = (points: number, value: number): number => {
+  if (points <= 0 || value <= 0) return 0
+  return round2(points * value)
+}
+
+/**
+ * Points needed to pay an amount; partial points are rounded up
+ */
+export const getPointsNeeded = (amount: number, value: number): number => {
+  if (amount <= 0 || value <= 0) return 0
+  return Math.ceil(round2(amount / value))
+}
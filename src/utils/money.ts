@@ -0,0 +1,16 @@
+/**
+ * Money Utility
+ * Rounding and receipt line helpers shared by the pricing, payment and receipt utilities
+ */
+
+/**
+ * Round a money or weight value to 2 decimal places
+ */
+export const round2 = (value: number): number => Math.round(value * 100) / 100
+
+/**
+ * Put a label and an amount on one receipt line, at least one space apart
+ * @param lineWidth - Characters per line of the printer
+ */
+export const padLine = (left: string, right: string, lineWidth: number): string =>
+  left + ' '.repeat(Math.max(1, lineWidth - left.length - right.length)) + right
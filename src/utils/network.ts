@@ -0,0 +1,53 @@
+/**
+ * Network Utility
+ * Helpers for telling connectivity failures apart from server-side errors
+ */
+
+// Messages fetch rejects with when no response came back
+// (React Native, browsers, Safari and Node respectively)
+const FETCH_FAILURE_MESSAGES = [
+  'network request failed',
+  'failed to fetch',
+  'load failed',
+  'fetch failed',
+]
+
+const isFetchFailureMessage = (message: string): boolean => {
+  const normalized = message.toLowerCase()
+  return FETCH_FAILURE_MESSAGES.some(pattern => normalized.includes(pattern))
+}
+
+/**
+ * Check if an error was caused by the device being unable to reach the server
+ * (as opposed to the server rejecting the request). Timeouts and other errors the
+ * server answers with carry an HTTP status or a Postgres code and are not offline.
+ * @param error - Error thrown by fetch or returned by supabase-js
+ * @returns True if the request never reached the server
+ */
+export const isNetworkError = (error: unknown): boolean => {
+  if (!error || typeof error !== 'object') return false
+
+  // fetch itself only rejects with a TypeError when the transport fails
+  if (error instanceof TypeError) return isFetchFailureMessage(error.message)
+
+  const { message, code, status } = error as { message?: unknown; code?: unknown; status?: unknown }
+
+  // The server answered
+  if (typeof status === 'number' && status > 0) return false
+  if (typeof code === 'string' && code !== '') return false
+
+  // supabase-js reports a rejected fetch as "TypeError: <message>" with no status or code
+  return typeof message === 'string' && message.startsWith('TypeError:') && isFetchFailureMessage(message)
+}
+
+/**
+ * Generate a random RFC 4122 version 4 UUID
+ * Used as idempotency keys for records created on the device
+ */
+export const generateUUID = (): string => {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, char => {
+    const random = (Math.random() * 16) | 0
+    const value = char === 'x' ? random : (random & 0x3) | 0x8
+    return value.toString(16)
+  })
+}
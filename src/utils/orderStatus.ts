@@ -0,0 +1,78 @@
+/**
+ * Order Status Utility
+ * The order status rules enforced by the database (see create_order_status_history.sql)
+ * and turnaround times computed from the stage timestamps
+ */
+
+import { OrderStatus, OrderTurnaround } from '../types/order'
+
+/**
+ * Statuses an order may move to from each status.
+ * Cancelling goes through cancel_order and abandoning through abandon_order; leaving
+ * cancelled is only done by un-cancelling.
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['in_progress', 'cancelled'],
+  in_progress: ['ready', 'cancelled'],
+  ready: ['completed', 'cancelled', 'abandoned'],
+  completed: [],
+  cancelled: [],
+  abandoned: [],
+}
+
+/**
+ * Check if an order may move directly from one status to another
+ */
+export const canChangeOrderStatus = (from: OrderStatus, to: OrderStatus): boolean =>
+  ORDER_STATUS_TRANSITIONS[from]?.includes(to) ?? false
+
+/**
+ * The next step along pending, in_progress, ready, completed, or null when the order is
+ * completed, cancelled or abandoned
+ */
+export const getNextOrderStatus = (status: OrderStatus): OrderStatus | null =>
+  ORDER_STATUS_TRANSITIONS[status]?.find(next => next !== 'cancelled' && next !== 'abandoned') ?? null
+
+/**
+ * Check if an order can still be cancelled
+ */
+export const canCancelOrder = (status: OrderStatus): boolean => canChangeOrderStatus(status, 'cancelled')
+
+/**
+ * Milliseconds between two timestamps, or null if either is missing
+ */
+const between = (from?: string | null, to?: string | null): number | null => {
+  if (!from || !to) return null
+  return Math.max(new Date(to).getTime() - new Date(from).getTime(), 0)
+}
+
+/**
+ * Time an order spent in each stage, from its stage timestamps
+ *
+ * @param order - Order date and the times it reached in_progress, ready and completed
+ */
+export const getOrderTurnaround = (order: {
+  order_date: string
+  in_progress_at?: string | null
+  ready_at?: string | null
+  actual_completion?: string | null
+}): OrderTurnaround => ({
+  waiting: between(order.order_date, order.in_progress_at),
+  processing: between(order.in_progress_at, order.ready_at),
+  pickup: between(order.ready_at, order.actual_completion),
+  turnaround: between(order.order_date, order.ready_at),
+  total: between(order.order_date, order.actual_completion),
+})
+
+/**
+ * Format a duration, e.g. 2d 4h, 3h 15m or 12m
+ */
+export const formatDuration = (milliseconds: number): string => {
+  const minutes = Math.round(milliseconds / 60000)
+  if (minutes < 60) return `${minutes}m`
+
+  const hours = Math.floor(minutes / 60)
+  if (hours < 24) return `${hours}h ${minutes % 60}m`
+
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`
+}
@@ -0,0 +1,204 @@
+/**
+ * Payments Utility
+ * Validates split-tender payments and formats them for receipts
+ */
+
+import { PaymentMethod } from '../types/paymentMethod'
+import { PaymentReceipt, ReceiptPayment, ResolvedTenders, TenderInput } from '../types/payment'
+import { padLine, round2 } from './money'
+
+/**
+ * Bills offered as quick buttons when receiving cash
+ */
+export const CASH_BILLS = [100, 500, 1000]
+
+/**
+ * Extra detail a payment method needs: a card number for cards, or a
+ * reference number when the method is configured with requires_reference
+ */
+export const getTenderRequirement = (method: PaymentMethod): 'card' | 'reference' | null => {
+  const name = method.name.toLowerCase()
+  if (name === 'card' || name.includes('card')) return 'card'
+  if (method.requires_reference) return 'reference'
+  return null
+}
+
+/**
+ * Only cash can be handed over in excess and given back as change
+ */
+export const isCashMethod = (method: PaymentMethod): boolean => method.name.toLowerCase() === 'cash'
+
+/**
+ * Check the tenders against the amount due and work out the change
+ *
+ * One tender may leave its amount blank to pay the rest. Tenders must cover the
+ * amount due; anything over it is change and must come from cash, so the cash
+ * tenders are recorded net of the change.
+ *
+ * @param tenders - Tenders as entered
+ * @param methods - Payment methods available at checkout
+ * @param amountDue - Amount being paid now
+ * @param notes - Notes stored on each payment
+ */
+export const resolveTenders = (
+  tenders: TenderInput[],
+  methods: PaymentMethod[],
+  amountDue: number,
+  notes: string | null = null
+): ResolvedTenders => {
+  const result = (error: string | null, payments: ResolvedTenders['payments'] = [], tendered = 0, change = 0): ResolvedTenders =>
+    ({ payments, tendered, change, error })
+
+  if (amountDue <= 0) return result(null)
+  if (tenders.length === 0) return result('Please add a payment method')
+
+  const blankTenders = tenders.filter(tender => !tender.amount.trim())
+  if (blankTenders.length > 1) {
+    return result('Enter an amount for each payment method except one')
+  }
+
+  // Typed amounts first, then the blank tender takes what is left
+  const amounts: number[] = []
+  for (const tender of tenders) {
+    if (!tender.amount.trim()) {
+      amounts.push(0)
+      continue
+    }
+    const amount = parseFloat(tender.amount)
+    if (isNaN(amount) || amount <= 0) {
+      return result('Please enter a valid amount for each payment method')
+    }
+    amounts.push(round2(amount))
+  }
+  const typedTotal = round2(amounts.reduce((sum, amount) => sum + amount, 0))
+  const blankIndex = tenders.findIndex(tender => !tender.amount.trim())
+  if (blankIndex >= 0) {
+    amounts[blankIndex] = round2(Math.max(0, amountDue - typedTotal))
+  }
+
+  const tendered = round2(amounts.reduce((sum, amount) => sum + amount, 0))
+  if (tendered < amountDue) {
+    return result(`Payments total ₱${tendered.toFixed(2)}, ₱${round2(amountDue - tendered).toFixed(2)} short`, [], tendered)
+  }
+
+  const tenderMethods: PaymentMethod[] = []
+  for (const tender of tenders) {
+    const method = methods.find(m => m.id === tender.payment_method_id)
+    if (!method) return result('Please select a payment method for each payment')
+
+    const requirement = getTenderRequirement(method)
+    if (requirement === 'card' && !tender.card_number.trim()) {
+      return result(`Please enter Card Number for ${method.display_name} payment`)
+    }
+    if (requirement === 'reference' && !tender.reference_number.trim()) {
+      return result(`Please enter Reference Number for ${method.display_name} payment`)
+    }
+    tenderMethods.push(method)
+  }
+
+  // Give change from cash, starting with the last cash tender
+  const change = round2(tendered - amountDue)
+  const applied = [...amounts]
+  let changeLeft = change
+  for (let i = tenders.length - 1; i >= 0 && changeLeft > 0; i--) {
+    if (!isCashMethod(tenderMethods[i])) continue
+    const fromThis = Math.min(applied[i], changeLeft)
+    applied[i] = round2(applied[i] - fromThis)
+    changeLeft = round2(changeLeft - fromThis)
+  }
+  if (changeLeft > 0) {
+    return result('Only cash can be more than the amount due', [], tendered)
+  }
+
+  const payments = tenders
+    .map((tender, i) => {
+      const requirement = getTenderRequirement(tenderMethods[i])
+      return {
+        amount: applied[i],
+        payment_method: tenderMethods[i].name, // Store the method name for backward compatibility
+        payment_method_id: tenderMethods[i].id, // Link to payment_methods table
+        card_number: requirement === 'card' ? tender.card_number.trim() : null,
+        reference_number: requirement === 'reference' ? tender.reference_number.trim() : null,
+        notes,
+        amount_tendered: isCashMethod(tenderMethods[i]) ? amounts[i] : null, // Cash received before change
+      }
+    })
+    .filter(payment => payment.amount > 0)
+
+  return result(null, payments, tendered, change)
+}
+
+/**
+ * Amount to fill in when a quick cash button is tapped: the bill is added to what
+ * was already entered, so tapping ₱500 twice receives ₱1000
+ */
+export const addCashBill = (currentAmount: string, bill: number): string => {
+  const current = parseFloat(currentAmount) || 0
+  return round2(current + bill).toString()
+}
+
+/**
+ * Build the payment lines printed on receipts
+ * @param order - Order as passed to the printer services
+ * @param lineWidth - Characters per printed line
+ * @returns Lines for each payment, the change and the balance; empty when there are no payments
+ */
+export const formatClaimStubPaymentLines = (
+  order: { payments?: ReceiptPayment[]; change?: number; balance?: number },
+  lineWidth: number = 32
+): string[] => {
+  if (!order.payments || order.payments.length === 0) return []
+
+  const lines = ['Payments:']
+  order.payments.forEach(payment => {
+    const amount = `₱${payment.amount.toFixed(2)}`
+    lines.push(padLine(`  ${payment.method}`.substring(0, lineWidth - amount.length - 1), amount, lineWidth))
+    if (payment.reference) {
+      lines.push(`    Ref: ${payment.reference}`.substring(0, lineWidth))
+    }
+    if (payment.tendered && payment.tendered > payment.amount) {
+      lines.push(padLine('    Received', `₱${payment.tendered.toFixed(2)}`, lineWidth))
+    }
+  })
+  if (order.change && order.change > 0) {
+    lines.push(padLine('Change:', `₱${order.change.toFixed(2)}`, lineWidth))
+  }
+  if (order.balance && order.balance > 0) {
+    lines.push(padLine('Balance Due:', `₱${order.balance.toFixed(2)}`, lineWidth))
+  }
+  return lines
+}
+
+/**
+ * Build the lines of the receipt printed for a payment made against an existing order
+ * @param receipt - Payment, order and balances to print
+ * @param lineWidth - Characters per printed line
+ */
+export const formatPaymentReceiptLines = (receipt: PaymentReceipt, lineWidth: number = 32): string[] => {
+  const center = (text: string) => ' '.repeat(Math.max(0, Math.floor((lineWidth - text.length) / 2))) + text
+  const money = (value: number) => `₱${round2(value).toFixed(2)}`
+  const divider = '='.repeat(lineWidth)
+
+  const lines: string[] = []
+  if (receipt.storeName) lines.push(center(receipt.storeName.toUpperCase()))
+  lines.push(divider)
+  lines.push(center('PAYMENT RECEIPT'))
+  lines.push(`Order: ${receipt.orderNumber}`)
+  lines.push(`Customer: ${receipt.customerName}`.substring(0, lineWidth))
+  lines.push(`Date: ${new Date(receipt.paidAt).toLocaleString()}`)
+  if (receipt.cashierName) {
+    lines.push(`Received by: ${receipt.cashierName}`.substring(0, lineWidth))
+  }
+  lines.push(divider)
+  lines.push(padLine('Previous Balance:', money(receipt.previousBalance), lineWidth))
+  lines.push(...formatClaimStubPaymentLines({ payments: [receipt.payment], change: receipt.change }, lineWidth))
+  lines.push(padLine('New Balance:', money(receipt.newBalance), lineWidth))
+  if (receipt.newBalance <= 0) {
+    lines.push(center('*** PAID IN FULL ***'))
+  }
+  if (receipt.offline) {
+    lines.push(center('(Pending sync)'))
+  }
+  lines.push(divider)
+  return lines
+}
@@ -0,0 +1,273 @@
+/**
+ * Pricing Rules Utility
+ * Evaluates a store's promotions against the cart and itemizes the discounts
+ */
+
+import {
+  BundleConditions,
+  CategoryDiscountConditions,
+  HappyHourConditions,
+  PricingAdjustment,
+  PricingLine,
+  PricingResult,
+  PricingRule,
+  PricingRuleLineFilter,
+  PricingRuleType,
+  QuantityTierConditions,
+  ReceiptDiscount,
+} from '../types/pricingRule'
+import { padLine, round2 } from './money'
+
+/**
+ * Parse an HH:MM time into minutes after midnight
+ */
+const parseTimeOfDay = (value?: string | null): number | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec((value || '').trim())
+  if (!match) return null
+  const hours = parseInt(match[1], 10)
+  const minutes = parseInt(match[2], 10)
+  if (hours > 23 || minutes > 59) return null
+  return hours * 60 + minutes
+}
+
+/**
+ * Check if a rule is active and inside its start/end dates
+ */
+export const isRuleInEffect = (rule: PricingRule, now: Date = new Date()): boolean => {
+  if (!rule.is_active) return false
+  if (rule.starts_at && new Date(rule.starts_at) > now) return false
+  if (rule.ends_at && new Date(rule.ends_at) <= now) return false
+  return true
+}
+
+/**
+ * Check if a time falls inside a happy hour window
+ *
+ * Windows that end before they start (e.g. 22:00-02:00) run past midnight;
+ * the day check uses the day the window started.
+ */
+export const isWithinHappyHour = (conditions: HappyHourConditions, now: Date = new Date()): boolean => {
+  const start = parseTimeOfDay(conditions.start_time)
+  const end = parseTimeOfDay(conditions.end_time)
+  if (start === null || end === null || start === end) return false
+
+  const minutes = now.getHours() * 60 + now.getMinutes()
+  const days = conditions.days && conditions.days.length > 0 ? conditions.days : null
+
+  if (start < end) {
+    return minutes >= start && minutes < end && (!days || days.includes(now.getDay()))
+  }
+
+  if (minutes >= start) return !days || days.includes(now.getDay())
+  if (minutes < end) return !days || days.includes((now.getDay() + 6) % 7)
+  return false
+}
+
+/**
+ * Check if a cart line matches a rule's service or category filter
+ */
+const matchesLine = (line: PricingLine, filter: PricingRuleLineFilter): boolean => {
+  if (filter.service_ids && filter.service_ids.length > 0) {
+    return !!line.service_id && filter.service_ids.includes(line.service_id)
+  }
+  if (filter.category) {
+    return !!line.category && line.category.trim().toLowerCase() === filter.category.trim().toLowerCase()
+  }
+  return true
+}
+
+/**
+ * Units and amount of a line that a line-level rule discounts, or null when the rule doesn't apply
+ */
+const getDiscountableUnits = (
+  rule: PricingRule,
+  line: PricingLine,
+  now: Date
+): { units: number; base: number } | null => {
+  const all = { units: line.quantity, base: round2(line.quantity * line.unit_price) }
+
+  switch (rule.rule_type) {
+    case 'quantity_tier': {
+      const conditions = rule.conditions as QuantityTierConditions
+      if (!matchesLine(line, conditions) || !conditions.min_quantity || line.quantity < conditions.min_quantity) {
+        return null
+      }
+      if (conditions.apply_to === 'additional') {
+        // e.g. "3rd load 20% off": min_quantity 3 discounts the 3rd load onwards
+        const units = round2(line.quantity - (conditions.min_quantity - 1))
+        return { units, base: round2(units * line.unit_price) }
+      }
+      return all
+    }
+    case 'happy_hour': {
+      const conditions = rule.conditions as HappyHourConditions
+      return isWithinHappyHour(conditions, now) && matchesLine(line, conditions) ? all : null
+    }
+    case 'category_discount': {
+      const conditions = rule.conditions as CategoryDiscountConditions
+      return conditions.category && matchesLine(line, { category: conditions.category }) ? all : null
+    }
+    default:
+      return null
+  }
+}
+
+/**
+ * Evaluate pricing rules against the cart
+ *
+ * Rules are applied in priority order (lowest first). Line-level rules discount
+ * individual lines; bundles produce one order-level adjustment. Each discount is
+ * capped at what is left of the lines it applies to, and a non-stackable rule
+ * stops later rules from touching the same lines.
+ *
+ * @param rules - The store's pricing rules; inactive and expired rules are skipped
+ * @param lines - Cart lines in the order they will be submitted
+ * @param now - Evaluation time for date ranges and happy hours
+ * @returns Subtotal, discount, total and the itemized adjustments
+ */
+export const evaluatePricingRules = (
+  rules: PricingRule[],
+  lines: PricingLine[],
+  now: Date = new Date()
+): PricingResult => {
+  const lineTotals = lines.map(line => round2(line.quantity * line.unit_price))
+  const remaining = [...lineTotals]
+  const locked = lines.map(() => false)
+  const lineDiscounts = lines.map(() => 0)
+  const adjustments: PricingAdjustment[] = []
+
+  const applicable = rules
+    .filter(rule => isRuleInEffect(rule, now) && rule.discount_value > 0)
+    .sort((a, b) => a.priority - b.priority)
+
+  applicable.forEach(rule => {
+    if (rule.rule_type === 'bundle') {
+      const serviceIds = (rule.conditions as BundleConditions).service_ids || []
+      if (serviceIds.length === 0) return
+
+      const indexes: number[] = []
+      for (const serviceId of serviceIds) {
+        const index = lines.findIndex((line, i) =>
+          line.service_id === serviceId && !locked[i] && remaining[i] > 0 && !indexes.includes(i)
+        )
+        if (index === -1) return
+        indexes.push(index)
+      }
+
+      const base = round2(indexes.reduce((sum, i) => sum + remaining[i], 0))
+      const amount = round2(Math.min(
+        base,
+        rule.discount_type === 'percent' ? (base * rule.discount_value) / 100 : rule.discount_value
+      ))
+      if (amount <= 0) return
+
+      // Take the bundle discount off its lines in order so later rules see what is left
+      let unallocated = amount
+      indexes.forEach(i => {
+        const share = Math.min(remaining[i], unallocated)
+        remaining[i] = round2(remaining[i] - share)
+        unallocated = round2(unallocated - share)
+        if (!rule.stackable) locked[i] = true
+      })
+
+      adjustments.push({
+        pricing_rule_id: rule.id,
+        source: 'pricing_rule',
+        description: rule.name,
+        amount,
+        item_index: null,
+      })
+      return
+    }
+
+    lines.forEach((line, i) => {
+      if (locked[i] || remaining[i] <= 0) return
+
+      const discountable = getDiscountableUnits(rule, line, now)
+      if (!discountable || discountable.units <= 0) return
+
+      const amount = round2(Math.min(
+        remaining[i],
+        rule.discount_type === 'percent'
+          ? (discountable.base * rule.discount_value) / 100
+          : discountable.units * rule.discount_value
+      ))
+      if (amount <= 0) return
+
+      remaining[i] = round2(remaining[i] - amount)
+      lineDiscounts[i] = round2(lineDiscounts[i] + amount)
+      if (!rule.stackable) locked[i] = true
+
+      adjustments.push({
+        pricing_rule_id: rule.id,
+        source: 'pricing_rule',
+        description: rule.name,
+        amount,
+        item_index: i,
+      })
+    })
+  })
+
+  const subtotal = round2(lineTotals.reduce((sum, total) => sum + total, 0))
+  const discount = round2(adjustments.reduce((sum, adjustment) => sum + adjustment.amount, 0))
+
+  return {
+    subtotal,
+    discount,
+    total: round2(subtotal - discount),
+    adjustments,
+    lineDiscounts,
+  }
+}
+
+/**
+ * Combine adjustments with the same description into receipt lines
+ */
+export const summarizeDiscounts = (adjustments: Array<{ description: string; amount: number }>): ReceiptDiscount[] => {
+  const summary: ReceiptDiscount[] = []
+  adjustments.forEach(adjustment => {
+    const existing = summary.find(d => d.description === adjustment.description)
+    if (existing) {
+      existing.amount = round2(existing.amount + Number(adjustment.amount))
+    } else {
+      summary.push({ description: adjustment.description, amount: Number(adjustment.amount) })
+    }
+  })
+  return summary
+}
+
+/**
+ * Build the subtotal and discount lines printed above the total
+ * @param order - Order as passed to the printer services
+ * @param lineWidth - Characters per printed line
+ * @returns No lines when the order has no discounts
+ */
+export const formatClaimStubDiscountLines = (
+  order: { subtotal?: number; discounts?: ReceiptDiscount[] },
+  lineWidth: number = 32
+): string[] => {
+  if (!order.discounts || order.discounts.length === 0) return []
+
+  const lines: string[] = []
+  if (order.subtotal !== undefined) {
+    lines.push(padLine('Subtotal:', `₱${order.subtotal.toFixed(2)}`, lineWidth))
+  }
+  order.discounts.forEach(discount => {
+    const amount = `-₱${discount.amount.toFixed(2)}`
+    const label = `Less ${discount.description}`.substring(0, Math.max(1, lineWidth - amount.length - 1))
+    lines.push(padLine(label, amount, lineWidth))
+  })
+  return lines
+}
+
+/**
+ * Human-readable rule type
+ */
+export const getRuleTypeLabel = (type: PricingRuleType): string => {
+  switch (type) {
+    case 'bundle': return 'Bundle'
+    case 'quantity_tier': return 'Quantity Tier'
+    case 'happy_hour': return 'Happy Hour'
+    case 'category_discount': return 'Category Discount'
+  }
+}
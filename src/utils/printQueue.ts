@@ -0,0 +1,124 @@
+/**
+ * Print Queue Utility
+ * Printer states in plain words, the status codes of the built-in printers and what the
+ * print queue does in each state
+ */
+
+import { PrintJob, PrintJobStatus, PrinterState } from '../types/printQueue'
+
+/**
+ * Label and what staff should do, for each printer state
+ */
+export const PRINTER_STATES: Record<PrinterState, { label: string; hint: string }> = {
+  ready: { label: 'Ready', hint: 'The printer is ready' },
+  busy: { label: 'Busy', hint: 'The printer is finishing another job' },
+  paper_out: { label: 'Out of paper', hint: 'Load a new paper roll, then resume' },
+  overheated: { label: 'Overheated', hint: 'Let the printer cool down; printing resumes by itself' },
+  cover_open: { label: 'Cover open', hint: 'Close the paper cover, then resume' },
+  error: { label: 'Printer error', hint: 'Check the printer, then retry' },
+  offline: { label: 'Not connected', hint: 'Check that the printer is on and connected, then retry' },
+  unknown: { label: 'Status unknown', hint: 'This printer does not report its status' },
+}
+
+/**
+ * Label and badge color for each job status
+ */
+export const PRINT_JOB_STATUSES: Record<PrintJobStatus, { label: string; color: string }> = {
+  queued: { label: 'Queued', color: '#3b82f6' },
+  printing: { label: 'Printing', color: '#8b5cf6' },
+  paused: { label: 'Paused', color: '#f59e0b' },
+  failed: { label: 'Failed', color: '#ef4444' },
+  printed: { label: 'Printed', color: '#10b981' },
+  cancelled: { label: 'Cancelled', color: '#6b7280' },
+}
+
+/**
+ * Thrown by a printer transport that finds the printer not ready to print. Transports check
+ * once and throw; the print queue decides whether to wait, pause or retry.
+ */
+export class PrinterStateError extends Error {
+  readonly state: PrinterState
+
+  constructor(state: PrinterState) {
+    super(PRINTER_STATES[state].label)
+    this.name = 'PrinterStateError'
+    this.state = state
+  }
+}
+
+/**
+ * What the queue does before sending a job to a printer in a state
+ * - print: send the job
+ * - wait:  wait and check again; the printer recovers by itself
+ * - pause: stop the job until staff fix the printer and resume it
+ */
+export const getPrinterStateAction = (state: PrinterState): 'print' | 'wait' | 'pause' => {
+  switch (state) {
+    case 'busy':
+    case 'overheated':
+      return 'wait'
+    case 'paper_out':
+    case 'cover_open':
+      return 'pause'
+    default:
+      return 'print'
+  }
+}
+
+/**
+ * State of a POS terminal (IPOS) printer from getPrinterStatus
+ * 0 = normal, 1 = busy, 2 = paper out, 3 = error
+ */
+export const getPOSTerminalPrinterState = (status: number): PrinterState => {
+  switch (status) {
+    case 0: return 'ready'
+    case 1: return 'busy'
+    case 2: return 'paper_out'
+    case 3: return 'error'
+    default: return 'unknown'
+  }
+}
+
+/**
+ * State of a Sunmi printer from updatePrinterState
+ * 1 = normal, 2 = preparing, 3 = communication error, 4 = out of paper, 5 = overheated,
+ * 6 = cover open, 7 = cutter error, 505 = no printer
+ */
+export const getSunmiPrinterState = (status: number): PrinterState => {
+  switch (status) {
+    case 1: return 'ready'
+    case 2: return 'busy'
+    case 3:
+    case 7: return 'error'
+    case 4: return 'paper_out'
+    case 5: return 'overheated'
+    case 6: return 'cover_open'
+    case 505: return 'offline'
+    default: return 'unknown'
+  }
+}
+
+/**
+ * Jobs that have not ended yet
+ */
+export const isPrintJobOpen = (job: PrintJob): boolean =>
+  job.status === 'queued' || job.status === 'printing' || job.status === 'paused' || job.status === 'failed'
+
+/**
+ * Outcome of a job in plain words, for alerts after printing
+ */
+export const describePrintJob = (job: PrintJob): string => {
+  switch (job.status) {
+    case 'printed':
+      return `${job.title} printed`
+    case 'paused':
+      return `${job.title} is waiting in the print queue. ` +
+        (job.printerState ? PRINTER_STATES[job.printerState].hint : 'Resume it from Print Queue') + '.'
+    case 'failed':
+      return `${job.title} could not be printed${job.lastError ? `: ${job.lastError}` : ''}. Retry it from Print Queue.`
+    case 'cancelled':
+      return `${job.title} was cancelled`
+    default:
+      return `${job.title} is in the print queue`
+  }
+}
@@ -0,0 +1,218 @@
+/**
+ * Receipt Document Utility
+ * Builder for printer-agnostic receipt documents, and the plain-text renderer used by
+ * text-only printers and for checking layouts without a printer
+ */
+
+import {
+  ReceiptAlign,
+  ReceiptBarcodeSymbology,
+  ReceiptBlock,
+  ReceiptColumn,
+  ReceiptDocument,
+  ReceiptTextStyle,
+} from '../types/receipt'
+
+/**
+ * Characters per line of a 58mm receipt printer
+ */
+export const DEFAULT_LINE_WIDTH = 32
+
+/**
+ * Builds a receipt document block by block
+ *
+ * @example
+ * const document = new ReceiptBuilder()
+ *   .text('CLAIM STUB', { align: 'center', bold: true })
+ *   .row('TOTAL:', '₱150.00', { bold: true })
+ *   .qr('ORD-000123')
+ *   .cut()
+ *   .build()
+ */
+export class ReceiptBuilder {
+  private blocks: ReceiptBlock[] = []
+  private lineWidth: number
+
+  constructor(lineWidth: number = DEFAULT_LINE_WIDTH) {
+    this.lineWidth = lineWidth
+  }
+
+  text(text: string, style: ReceiptTextStyle = {}): this {
+    this.blocks.push({ type: 'text', text, ...style })
+    return this
+  }
+
+  /**
+   * Adds lines that are already laid out for the line width, e.g. from the claim stub formatters
+   */
+  lines(lines: string[], style: ReceiptTextStyle = {}): this {
+    lines.forEach(line => this.text(line, style))
+    return this
+  }
+
+  columns(columns: ReceiptColumn[], options: { bold?: boolean } = {}): this {
+    this.blocks.push({ type: 'columns', columns, bold: options.bold })
+    return this
+  }
+
+  /**
+   * Label on the left and value on the right, e.g. TOTAL: ... ₱150.00
+   */
+  row(left: string, right: string, options: { bold?: boolean } = {}): this {
+    return this.columns(
+      [
+        { text: left, align: 'left' },
+        { text: right, width: right.length, align: 'right' },
+      ],
+      options
+    )
+  }
+
+  divider(char: string = '-'): this {
+    this.blocks.push({ type: 'divider', char })
+    return this
+  }
+
+  qr(data: string, options: { size?: number; align?: ReceiptAlign } = {}): this {
+    this.blocks.push({ type: 'qr', data, size: options.size ?? 8, align: options.align ?? 'center' })
+    return this
+  }
+
+  barcode(
+    data: string,
+    options: { symbology?: ReceiptBarcodeSymbology; height?: number; showText?: boolean; align?: ReceiptAlign } = {}
+  ): this {
+    this.blocks.push({
+      type: 'barcode',
+      data,
+      symbology: options.symbology ?? 'CODE128',
+      height: options.height ?? 80,
+      showText: options.showText ?? true,
+      align: options.align ?? 'center',
+    })
+    return this
+  }
+
+  image(base64: string, options: { width?: number; align?: ReceiptAlign } = {}): this {
+    this.blocks.push({ type: 'image', base64, width: options.width ?? 384, align: options.align ?? 'center' })
+    return this
+  }
+
+  feed(lines: number = 1): this {
+    this.blocks.push({ type: 'feed', lines })
+    return this
+  }
+
+  cut(): this {
+    this.blocks.push({ type: 'cut' })
+    return this
+  }
+
+  build(): ReceiptDocument {
+    return { lineWidth: this.lineWidth, blocks: [...this.blocks] }
+  }
+}
+
+/**
+ * Width of each column in characters. Columns without a width share what the others leave,
+ * with one space kept between columns.
+ */
+export const resolveColumnWidths = (columns: ReceiptColumn[], lineWidth: number): number[] => {
+  const gaps = Math.max(0, columns.length - 1)
+  const fixed = columns.reduce((sum, column) => sum + (column.width ?? 0), 0)
+  const flexible = columns.filter(column => column.width === undefined).length
+  const share = flexible > 0 ? Math.max(1, Math.floor((lineWidth - fixed - gaps) / flexible)) : 0
+  return columns.map(column => column.width ?? share)
+}
+
+/**
+ * Place text in a width: cut when too long, padded for the alignment otherwise
+ */
+export const alignText = (text: string, width: number, align: ReceiptAlign = 'left'): string => {
+  if (text.length >= width) return text.substring(0, width)
+
+  const space = width - text.length
+  switch (align) {
+    case 'center': {
+      const left = Math.floor(space / 2)
+      return ' '.repeat(left) + text + ' '.repeat(space - left)
+    }
+    case 'right':
+      return ' '.repeat(space) + text
+    default:
+      return text + ' '.repeat(space)
+  }
+}
+
+/**
+ * Break text into lines of at most the width, at spaces where possible
+ */
+export const wrapText = (text: string, width: number): string[] => {
+  if (text.length <= width) return [text]
+
+  const lines: string[] = []
+  let line = ''
+  text.split(' ').forEach(word => {
+    const candidate = line ? `${line} ${word}` : word
+    if (candidate.length <= width) {
+      line = candidate
+      return
+    }
+    if (line) lines.push(line)
+    line = word
+    while (line.length > width) {
+      lines.push(line.substring(0, width))
+      line = line.substring(width)
+    }
+  })
+  if (line) lines.push(line)
+  return lines
+}
+
+/**
+ * Lay out a columns block as one line of text
+ */
+export const formatColumnsLine = (columns: ReceiptColumn[], lineWidth: number): string => {
+  const widths = resolveColumnWidths(columns, lineWidth)
+  return columns
+    .map((column, index) => alignText(column.text, widths[index], column.align))
+    .join(' ')
+    .replace(/\s+$/, '')
+}
+
+/**
+ * Render a document as plain text lines. Sizes and bold are not shown; QR codes, barcodes
+ * and images become bracketed placeholders, or are left out with omitGraphics for
+ * printers that can only print text.
+ */
+export const renderReceiptText = (
+  document: ReceiptDocument,
+  options: { omitGraphics?: boolean } = {}
+): string[] => {
+  const width = document.lineWidth
+  const graphic = (label: string, align: ReceiptAlign) =>
+    options.omitGraphics ? [] : [alignText(label, width, align).replace(/\s+$/, '')]
+
+  return document.blocks.flatMap(block => {
+    switch (block.type) {
+      case 'text':
+        return wrapText(block.text, width).map(line =>
+          block.align && block.align !== 'left' ? alignText(line, width, block.align).replace(/\s+$/, '') : line
+        )
+      case 'columns':
+        return [formatColumnsLine(block.columns, width)]
+      case 'divider':
+        return [block.char.repeat(width).substring(0, width)]
+      case 'qr':
+        return graphic(`[QR: ${block.data}]`, block.align)
+      case 'barcode':
+        return graphic(`[BARCODE: ${block.data}]`, block.align)
+      case 'image':
+        return graphic('[IMAGE]', block.align)
+      case 'feed':
+        return Array(block.lines).fill('')
+      case 'cut':
+        return []
+    }
+  })
+}
@@ -0,0 +1,216 @@
+/**
+ * Receipt Layouts Utility
+ * The printed layouts of the app as receipt documents, shared by every printer service
+ */
+
+import { ClaimStubOrder, GarmentTagOrder, ReceiptDocument } from '../types/receipt'
+import { SalesReceiptPrintData } from '../types/salesReceipt'
+import { DEFAULT_LINE_WIDTH, ReceiptBuilder } from './receiptDocument'
+import { formatClaimStubItemLines } from './servicePricing'
+import { formatClaimStubDiscountLines } from './pricingRules'
+import { formatClaimStubTaxLines } from './tax'
+import { formatClaimStubPaymentLines } from './payments'
+import { formatClaimStubDueLines } from './dueDates'
+import { formatReceiptNumber, getReceiptChange, getReceiptPayments } from './salesReceipts'
+import { clampBagCount, getGarmentTagCode } from './garmentTags'
+import { formatClaimStubStorageFeeLines } from './unclaimed'
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+const formatDate = (date: Date) => `${pad(date.getMonth() + 1)}/${pad(date.getDate())}/${date.getFullYear()}`
+
+const formatTime = (date: Date) => `${pad(date.getHours())}:${pad(date.getMinutes())}`
+
+/**
+ * Order number printed for an order, with a fallback from the order id
+ */
+export const getPrintedOrderNumber = (order: { orderId: string; orderNumber?: string }): string =>
+  order.orderNumber || `ORD-${order.orderId.substring(0, 8).toUpperCase()}`
+
+/**
+ * Store name, address and contact details, centered
+ */
+const addStoreHeader = (builder: ReceiptBuilder, storeInfo: ClaimStubOrder['storeInfo']) => {
+  if (!storeInfo) return
+
+  if (storeInfo.name) {
+    builder.text(storeInfo.name.toUpperCase(), { align: 'center', bold: true, size: 'xlarge' })
+  }
+  if (storeInfo.address) {
+    builder.text(storeInfo.address, { align: 'center' })
+  }
+  if (storeInfo.phone && storeInfo.phone.trim()) {
+    builder.text(`Contact No.: ${storeInfo.phone.trim()}`, { align: 'center' })
+  }
+  if (storeInfo.email && storeInfo.email.trim()) {
+    builder.text('Email Address:', { align: 'center' })
+    builder.text(storeInfo.email.trim(), { align: 'center' })
+  }
+}
+
+/**
+ * Claim stub given to the customer at drop-off, with a QR code of the order number for pickup
+ */
+export const buildClaimStubDocument = (
+  order: ClaimStubOrder,
+  lineWidth: number = DEFAULT_LINE_WIDTH
+): ReceiptDocument => {
+  const orderNumber = getPrintedOrderNumber(order)
+  const date = new Date(order.orderDate)
+  const builder = new ReceiptBuilder(lineWidth)
+
+  builder.feed(1)
+  addStoreHeader(builder, order.storeInfo)
+
+  builder
+    .divider('=')
+    .text('CLAIM STUB', { align: 'center', bold: true, size: 'large' })
+    .feed(1)
+    .text(`Order #: ${orderNumber}`, { bold: true })
+    .text(`Date: ${formatDate(date)}`)
+    .text(`Time: ${formatTime(date)}`)
+    .lines(formatClaimStubDueLines(order), { bold: true })
+    .feed(1)
+    .divider('=')
+    .feed(1)
+    .text('Customer:', { bold: true })
+    .text(order.customerName)
+    .feed(1)
+    .text('Services:', { bold: true })
+
+  order.items.forEach(item => {
+    builder.lines(formatClaimStubItemLines(item, 20, lineWidth))
+  })
+
+  const taxLines = formatClaimStubTaxLines(order, lineWidth)
+  builder
+    .feed(1)
+    .divider('=')
+    .lines(formatClaimStubDiscountLines(order, lineWidth))
+    .lines(taxLines.beforeTotal)
+    .row('TOTAL:', `₱${order.totalAmount.toFixed(2)}`, { bold: true })
+    .lines(taxLines.afterTotal)
+    .lines(formatClaimStubStorageFeeLines(order, lineWidth))
+    .lines(formatClaimStubPaymentLines(order, lineWidth))
+    .feed(1)
+    .text('Thank you for your business!', { align: 'center' })
+    .text('Please keep this stub for pickup.', { align: 'center' })
+    .feed(1)
+    .qr(orderNumber)
+    .feed(3)
+    .cut()
+
+  return builder.build()
+}
+
+/**
+ * Sales receipt printed after a payment, with the store business details, the tenders
+ * and the balance left. Every print after the first is marked REPRINT.
+ */
+export const buildSalesReceiptDocument = (
+  data: SalesReceiptPrintData,
+  lineWidth: number = DEFAULT_LINE_WIDTH
+): ReceiptDocument => {
+  const { receipt, storeInfo, order } = data
+  const issuedAt = new Date(receipt.issued_at)
+  const builder = new ReceiptBuilder(lineWidth)
+
+  builder.feed(1)
+  if (data.reprint) {
+    builder.text('*** REPRINT ***', { align: 'center', bold: true, size: 'large' }).feed(1)
+  }
+  addStoreHeader(builder, storeInfo)
+  if (storeInfo.businessName && storeInfo.businessName.trim() && storeInfo.businessName.trim() !== storeInfo.name) {
+    builder.text(storeInfo.businessName.trim(), { align: 'center' })
+  }
+  if (storeInfo.tin && storeInfo.tin.trim()) {
+    // Stores that charge VAT are VAT-registered
+    builder.text(`${order?.tax ? 'VAT REG' : 'NON-VAT REG'} TIN: ${storeInfo.tin.trim()}`, { align: 'center' })
+  }
+
+  builder
+    .divider('=')
+    .text('OFFICIAL RECEIPT', { align: 'center', bold: true, size: 'large' })
+    .feed(1)
+    .text(`OR No.: ${formatReceiptNumber(receipt.receipt_number)}`, { bold: true })
+    .text(`Date: ${formatDate(issuedAt)}`)
+    .text(`Time: ${formatTime(issuedAt)}`)
+    .text(`Order #: ${receipt.order_number}`)
+    .text(`Customer: ${receipt.customer_name || 'Walk-in Customer'}`)
+  if (data.cashierName) {
+    builder.text(`Cashier: ${data.cashierName}`)
+  }
+  builder.divider('=')
+
+  if (order) {
+    builder.text('Services:', { bold: true })
+    order.items.forEach(item => {
+      builder.lines(formatClaimStubItemLines(item, 20, lineWidth))
+    })
+
+    const taxLines = formatClaimStubTaxLines(order, lineWidth)
+    builder
+      .divider()
+      .lines(formatClaimStubDiscountLines(order, lineWidth))
+      .lines(taxLines.beforeTotal)
+      .row('TOTAL:', `₱${order.totalAmount.toFixed(2)}`, { bold: true })
+      .lines(taxLines.afterTotal)
+      .lines(formatClaimStubStorageFeeLines(order, lineWidth))
+      .divider()
+  }
+
+  builder
+    .lines(formatClaimStubPaymentLines(
+      { payments: getReceiptPayments(receipt), change: getReceiptChange(receipt) },
+      lineWidth
+    ))
+    .row('AMOUNT PAID:', `₱${Number(receipt.amount).toFixed(2)}`, { bold: true })
+    .row('Paid to Date:', `₱${Number(receipt.paid_to_date).toFixed(2)}`)
+    .row('BALANCE DUE:', `₱${Math.max(0, Number(receipt.balance_after)).toFixed(2)}`, { bold: true })
+  if (Number(receipt.balance_after) <= 0) {
+    builder.text('*** PAID IN FULL ***', { align: 'center', bold: true })
+  }
+
+  if (data.reprint) {
+    const now = new Date()
+    builder
+      .feed(1)
+      .text(`REPRINT #${receipt.reprint_count}`, { align: 'center', bold: true })
+      .text(`Reprinted: ${formatDate(now)} ${formatTime(now)}`, { align: 'center' })
+  }
+
+  builder
+    .divider('=')
+    .text('Thank you for your business!', { align: 'center' })
+    .feed(3)
+    .cut()
+
+  return builder.build()
+}
+
+/**
+ * One tag per bag of an order, each with the order number, customer, bag i of N, due date
+ * and a QR code of the tag to scan at pickup. Tags are cut (or torn) apart.
+ */
+export const buildGarmentTagsDocument = (
+  order: GarmentTagOrder,
+  lineWidth: number = DEFAULT_LINE_WIDTH
+): ReceiptDocument => {
+  const orderNumber = getPrintedOrderNumber(order)
+  const bagCount = clampBagCount(order.bagCount)
+  const builder = new ReceiptBuilder(lineWidth)
+
+  for (let bag = 1; bag <= bagCount; bag++) {
+    builder
+      .feed(1)
+      .text(orderNumber, { align: 'center', bold: true, size: 'xlarge' })
+      .text(order.customerName, { align: 'center', bold: true })
+      .text(`BAG ${bag} OF ${bagCount}`, { align: 'center', bold: true, size: 'large' })
+      .lines(formatClaimStubDueLines(order), { align: 'center' })
+      .qr(getGarmentTagCode(orderNumber, bag), { size: 5 })
+      .feed(2)
+      .cut()
+  }
+
+  return builder.build()
+}
@@ -0,0 +1,75 @@
+/**
+ * Refunds Utility
+ * Works out what is left to refund on each payment and builds the printed refund slip
+ */
+
+import { Refund, RefundablePayment, RefundSlip } from '../types/refund'
+import { padLine, round2 } from './money'
+
+/**
+ * Subtract earlier refunds from each payment
+ * @param payments - Payments of the order (or the payments saved on a cancelled order)
+ * @param refunds - Refunds already made on the order
+ * @returns The payments with the amount refunded and still refundable, largest refundable first
+ */
+export const getRefundablePayments = (
+  payments: Array<{ id: string; amount: number; payment_method: string; payment_date: string; reference_number?: string | null }>,
+  refunds: Pick<Refund, 'payment_id' | 'amount'>[]
+): RefundablePayment[] =>
+  payments
+    .map(payment => {
+      const refunded = round2(refunds
+        .filter(refund => refund.payment_id === payment.id)
+        .reduce((sum, refund) => sum + Number(refund.amount), 0))
+      return {
+        id: payment.id,
+        amount: Number(payment.amount),
+        payment_method: payment.payment_method,
+        payment_date: payment.payment_date,
+        reference_number: payment.reference_number || null,
+        refunded,
+        refundable: round2(Math.max(0, Number(payment.amount) - refunded)),
+      }
+    })
+    .sort((a, b) => b.refundable - a.refundable)
+
+/**
+ * Build the lines of the slip printed when money is given back to a customer
+ * @param slip - Refund and the names to print
+ * @param lineWidth - Characters per printed line
+ */
+export const formatRefundSlipLines = (slip: RefundSlip, lineWidth: number = 32): string[] => {
+  const { refund } = slip
+  const center = (text: string) => ' '.repeat(Math.max(0, Math.floor((lineWidth - text.length) / 2))) + text
+  const divider = '='.repeat(lineWidth)
+
+  const lines: string[] = []
+  if (slip.storeName) lines.push(center(slip.storeName.toUpperCase()))
+  lines.push(divider)
+  lines.push(center('REFUND SLIP'))
+  lines.push(`Order: ${refund.order_number}`)
+  lines.push(`Customer: ${slip.customerName}`.substring(0, lineWidth))
+  lines.push(`Date: ${new Date(refund.refunded_at).toLocaleString()}`)
+  lines.push(divider)
+  lines.push(`Original Payment: ${slip.paymentMethodName}`.substring(0, lineWidth))
+  lines.push(padLine('Refunded via:', slip.refundMethodName, lineWidth))
+  if (refund.reference_number) {
+    lines.push(`Ref: ${refund.reference_number}`.substring(0, lineWidth))
+  }
+  lines.push(padLine('REFUND AMOUNT:', `₱${round2(Number(refund.amount)).toFixed(2)}`, lineWidth))
+  lines.push('-'.repeat(lineWidth))
+  lines.push(`Reason: ${refund.reason}`)
+  if (refund.notes) {
+    lines.push(`Notes: ${refund.notes}`)
+  }
+  lines.push(`Approved by: ${slip.approvedByName}`.substring(0, lineWidth))
+  if (slip.refundedByName) {
+    lines.push(`Refunded by: ${slip.refundedByName}`.substring(0, lineWidth))
+  }
+  lines.push('')
+  lines.push('Received by customer:')
+  lines.push('')
+  lines.push('_'.repeat(Math.min(lineWidth, 28)))
+  lines.push(divider)
+  return lines
+}
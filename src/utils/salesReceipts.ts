@@ -0,0 +1,29 @@
+/**
+ * Sales Receipts Utility
+ * Receipt numbers and tenders of sales receipts as printed
+ */
+
+import { ReceiptPayment } from '../types/payment'
+import { SalesReceipt } from '../types/salesReceipt'
+
+/**
+ * Receipt number as printed, zero-padded to 8 digits, e.g. 00000042
+ */
+export const formatReceiptNumber = (receiptNumber: number): string => String(receiptNumber).padStart(8, '0')
+
+/**
+ * Tenders of a receipt in the shape the receipt layouts print
+ */
+export const getReceiptPayments = (receipt: SalesReceipt): ReceiptPayment[] =>
+  receipt.payments.map(payment => ({
+    method: payment.method_name,
+    amount: Number(payment.amount),
+    reference: payment.reference,
+    tendered: payment.amount_tendered !== null ? Number(payment.amount_tendered) : null,
+  }))
+
+/**
+ * Cash change given across the tenders of a receipt
+ */
+export const getReceiptChange = (receipt: SalesReceipt): number =>
+  receipt.payments.reduce((sum, payment) => sum + Number(payment.change_given || 0), 0)
@@ -0,0 +1,126 @@
+/**
+ * Service Pricing Utility
+ * Computes charges for per-piece, per-kilo and per-load services
+ */
+
+import { PricingMode, ServiceCharge, ServicePricing } from '../types/servicePricing'
+import { padLine, round2 } from './money'
+
+/**
+ * Check if a pricing mode is charged by weight
+ */
+export const isWeightBased = (mode?: PricingMode | null): boolean => {
+  return mode === 'per_kilo' || mode === 'per_load'
+}
+
+/**
+ * Round a weight up to the next increment
+ * @param weight - Weight in kg
+ * @param increment - Increment in kg (e.g. 0.5); no rounding when empty
+ */
+export const roundUpWeight = (weight: number, increment?: number | null): number => {
+  if (!increment || increment <= 0) return round2(weight)
+  // Subtract a tiny epsilon so exact multiples (e.g. 5.0 at 0.5) are not bumped up
+  return round2(Math.ceil(weight / increment - 1e-9) * increment)
+}
+
+/**
+ * Price a weighed service
+ *
+ * The billable weight is the measured weight raised to the minimum and rounded up
+ * to the configured increment. Per-load services charge one load for every
+ * max_weight_per_load kg (or part of it).
+ *
+ * @param service - Service price and pricing rules
+ * @param weight - Measured weight in kg
+ * @returns Billable weight, quantity for the order item and the charge
+ */
+export const calculateServiceCharge = (service: ServicePricing, weight: number): ServiceCharge => {
+  const minimum = service.min_weight && service.min_weight > 0 ? service.min_weight : 0
+  const billableWeight = roundUpWeight(Math.max(weight, minimum), service.weight_rounding)
+
+  let quantity = billableWeight
+  if (service.pricing_mode === 'per_load') {
+    const cap = service.max_weight_per_load && service.max_weight_per_load > 0 ? service.max_weight_per_load : null
+    quantity = cap ? Math.max(1, Math.ceil(billableWeight / cap - 1e-9)) : 1
+  }
+
+  return {
+    weight: round2(weight),
+    billableWeight,
+    quantity,
+    amount: round2(quantity * service.price),
+  }
+}
+
+/**
+ * Format a weight in kg without trailing zeros (e.g. 5.5kg, 8kg)
+ */
+export const formatWeight = (kg: number): string => `${Number(kg.toFixed(2))}kg`
+
+/**
+ * Unit suffix for a service price (e.g. "/kg")
+ */
+export const getPriceUnitLabel = (mode?: PricingMode | null): string => {
+  switch (mode) {
+    case 'per_kilo': return '/kg'
+    case 'per_load': return '/load'
+    default: return ''
+  }
+}
+
+/**
+ * Format the quantity of an order or cart line for display
+ * @returns e.g. "2x", "5.5kg", "2 loads (12.3kg)"
+ */
+export const formatItemQuantity = (item: {
+  quantity: number
+  pricing_mode?: PricingMode | null
+  weight?: number | null
+}): string => {
+  switch (item.pricing_mode) {
+    case 'per_kilo':
+      return formatWeight(item.quantity)
+    case 'per_load': {
+      const loads = `${item.quantity} load${item.quantity === 1 ? '' : 's'}`
+      return item.weight ? `${loads} (${formatWeight(item.weight)})` : loads
+    }
+    default:
+      return `${item.quantity}x`
+  }
+}
+
+/**
+ * Build the claim stub lines for one item
+ *
+ * Per-piece items keep the "2x Name   ₱unit" layout. Weighed items print the
+ * line total with the rate and measured weight on a second line.
+ *
+ * @param item - Item as passed to the printer services
+ * @param nameWidth - Maximum characters of the item name
+ * @param lineWidth - Characters per printed line
+ */
+export const formatClaimStubItemLines = (
+  item: { name: string; quantity: number; price: number; pricing_mode?: PricingMode | null; weight?: number | null },
+  nameWidth: number,
+  lineWidth: number = 32
+): string[] => {
+  if (!isWeightBased(item.pricing_mode)) {
+    return [padLine(`${item.quantity}x ${item.name.substring(0, nameWidth)}`, `₱${item.price.toFixed(2)}`, lineWidth)]
+  }
+
+  const quantity = item.pricing_mode === 'per_kilo'
+    ? formatWeight(item.quantity)
+    : `${item.quantity} load${item.quantity === 1 ? '' : 's'}`
+  const amount = `₱${round2(item.quantity * item.price).toFixed(2)}`
+  const availableNameWidth = Math.min(nameWidth, lineWidth - quantity.length - amount.length - 2)
+  const lines = [
+    padLine(`${quantity} ${item.name.substring(0, availableNameWidth)}`, amount, lineWidth),
+  ]
+
+  const rate = `@ ₱${item.price.toFixed(2)}${getPriceUnitLabel(item.pricing_mode)}`
+  const measured = item.weight && item.weight !== item.quantity ? ` (${formatWeight(item.weight)} weighed)` : ''
+  lines.push(`  ${rate}${measured}`.substring(0, lineWidth))
+
+  return lines
+}
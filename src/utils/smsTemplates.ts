@@ -0,0 +1,242 @@
+/**
+ * SMS Templates Utility
+ * Built-in notification templates, placeholder filling, SMS segment counting and
+ * which notifications apply to an order
+ */
+
+import { SmsEvent, SmsLanguage, SmsSegmentInfo, SmsTemplate, SmsTemplateValues } from '../types/sms'
+import { OrderStatus } from '../types/order'
+import { PricingMode } from '../types/servicePricing'
+import { StoreWithFeatures, getStoreSetting, isFeatureEnabled } from './featureFlags'
+import { formatItemQuantity } from './servicePricing'
+import { getOrderDueStatus } from './dueDates'
+
+/**
+ * Notification events in the order they happen
+ */
+export const SMS_EVENTS: { key: SmsEvent; label: string; description: string }[] = [
+  { key: 'order_received', label: 'Order Received', description: 'When an order is dropped off' },
+  { key: 'ready_for_pickup', label: 'Ready for Pickup', description: 'When an order is marked ready' },
+  { key: 'payment_received', label: 'Payment Received', description: 'After a payment on an order' },
+  { key: 'pickup_reminder', label: 'Pickup Reminder', description: 'For ready orders that are not picked up' },
+  { key: 'overdue', label: 'Overdue', description: 'When an order is past its promised date' },
+]
+
+export const SMS_LANGUAGES: { key: SmsLanguage; label: string }[] = [
+  { key: 'en', label: 'English' },
+  { key: 'fil', label: 'Filipino' },
+]
+
+/**
+ * Placeholders that can be used in templates, with sample values for previews
+ */
+export const SMS_PLACEHOLDERS: { key: keyof SmsTemplateValues; label: string; sample: string }[] = [
+  { key: 'customer_name', label: 'Customer name', sample: 'Maria' },
+  { key: 'order_number', label: 'Order number', sample: 'ORD-000123' },
+  { key: 'balance', label: 'Balance', sample: 'P150.00' },
+  { key: 'due_date', label: 'Due date', sample: 'Mar 4, 5:00 PM' },
+  { key: 'store_name', label: 'Store name', sample: 'Fresh Laundry' },
+  { key: 'store_phone', label: 'Store phone', sample: '0917 123 4567' },
+  { key: 'items', label: 'Items', sample: '6.5 kg Wash & Fold, 2 Comforter' },
+  { key: 'amount_paid', label: 'Amount paid', sample: 'P200.00' },
+  { key: 'days_ready', label: 'Days ready', sample: '14' },
+  { key: 'storage_notice', label: 'Storage fee notice', sample: 'A storage fee of P20.00/day applies after 16 more days.' },
+]
+
+export const SAMPLE_SMS_VALUES: SmsTemplateValues = SMS_PLACEHOLDERS.reduce(
+  (values, placeholder) => ({ ...values, [placeholder.key]: placeholder.sample }),
+  {} as SmsTemplateValues
+)
+
+/**
+ * Templates used until a store edits its own
+ */
+export const DEFAULT_SMS_TEMPLATES: Record<SmsEvent, Record<SmsLanguage, string>> = {
+  order_received: {
+    en: 'Good day {customer_name}, we received your laundry #{order_number}. Ready by {due_date}.\nBalance: {balance}\n\nThank you! - {store_name}',
+    fil: 'Magandang araw {customer_name}, natanggap na namin ang labada mo #{order_number}. Handa ito sa {due_date}.\nBalanse: {balance}\n\nSalamat! - {store_name}',
+  },
+  ready_for_pickup: {
+    en: 'Good day {customer_name}, your laundry #{order_number} is ready for pickup.\n\nItems: {items}\nBalance: {balance}\n\nThank you! - {store_name}',
+    fil: 'Magandang araw {customer_name}, handa nang kunin ang labada mo #{order_number}.\n\nMga item: {items}\nBalanse: {balance}\n\nSalamat! - {store_name}',
+  },
+  payment_received: {
+    en: 'Good day {customer_name}, we received your payment of {amount_paid} for laundry #{order_number}.\nRemaining balance: {balance}\n\nThank you! - {store_name}',
+    fil: 'Magandang araw {customer_name}, natanggap na namin ang bayad mong {amount_paid} para sa labada #{order_number}.\nNatitirang balanse: {balance}\n\nSalamat! - {store_name}',
+  },
+  pickup_reminder: {
+    en: 'Good day {customer_name}, your laundry #{order_number} has been ready for pickup for {days_ready} days.\nAmount due: {balance}\n{storage_notice}\n\nThank you! - {store_name}',
+    fil: 'Magandang araw {customer_name}, {days_ready} araw nang handa ang labada mo #{order_number}. Pakikuha na po.\nBabayaran: {balance}\n{storage_notice}\n\nSalamat! - {store_name}',
+  },
+  overdue: {
+    en: 'Good day {customer_name}, sorry, your laundry #{order_number} is taking longer than promised. We will text you as soon as it is ready.\n\nQuestions? Call {store_phone}. - {store_name}',
+    fil: 'Magandang araw {customer_name}, paumanhin po, natatagalan ang labada mo #{order_number}. Ite-text ka namin agad kapag handa na.\n\nMay tanong? Tumawag sa {store_phone}. - {store_name}',
+  },
+}
+
+/**
+ * Status changes that send a notification when auto-send is on
+ */
+export const STATUS_SMS_EVENTS: Partial<Record<OrderStatus, SmsEvent>> = {
+  pending: 'order_received',
+  ready: 'ready_for_pickup',
+}
+
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g
+const PLACEHOLDER_KEYS = SMS_PLACEHOLDERS.map(placeholder => placeholder.key as string)
+
+const GSM_BASIC =
+  '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?' +
+  '¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà'
+const GSM_EXTENDED = '^{}\\[~]|€\f' // Each takes two characters
+
+/**
+ * The template a store uses for an event: its own if edited, otherwise the default
+ */
+export const resolveSmsTemplate = (
+  templates: SmsTemplate[],
+  event: SmsEvent,
+  language: SmsLanguage
+): string => {
+  const custom = templates.find(template => template.event === event && template.language === language)
+  return custom ? custom.body : DEFAULT_SMS_TEMPLATES[event][language]
+}
+
+/**
+ * Fill the {placeholders} of a template. Lines whose placeholders are all blank are left out,
+ * so optional details like a zero balance don't print as "Balance: ".
+ */
+export const renderSmsTemplate = (body: string, values: SmsTemplateValues): string => {
+  const lines = body.split('\n').flatMap(line => {
+    const keys = Array.from(line.matchAll(PLACEHOLDER_PATTERN)).map(match => match[1])
+    const filled = keys.filter(key => !!values[key as keyof SmsTemplateValues])
+    if (keys.length > 0 && filled.length === 0) return []
+
+    return [
+      line.replace(PLACEHOLDER_PATTERN, (placeholder, key: string) =>
+        PLACEHOLDER_KEYS.includes(key) ? values[key as keyof SmsTemplateValues] || '' : placeholder
+      ),
+    ]
+  })
+
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim()
+}
+
+/**
+ * Placeholders in a template that are not known, e.g. a misspelled {custmer_name}
+ */
+export const getUnknownPlaceholders = (body: string): string[] =>
+  Array.from(new Set(
+    Array.from(body.matchAll(PLACEHOLDER_PATTERN))
+      .map(match => match[1])
+      .filter(key => !PLACEHOLDER_KEYS.includes(key))
+  ))
+
+/**
+ * Characters and SMS segments a message takes. Messages with only GSM characters fit
+ * 160 per SMS (153 when split); any other character switches to UCS-2 at 70 (67 when split).
+ */
+export const getSmsSegmentInfo = (message: string): SmsSegmentInfo => {
+  const isGsm = Array.from(message).every(char => GSM_BASIC.includes(char) || GSM_EXTENDED.includes(char))
+
+  const characters = isGsm
+    ? Array.from(message).reduce((count, char) => count + (GSM_EXTENDED.includes(char) ? 2 : 1), 0)
+    : message.length // UTF-16 code units, so emoji count as two
+
+  const singleLimit = isGsm ? 160 : 70
+  const charactersPerSegment = characters <= singleLimit ? singleLimit : isGsm ? 153 : 67
+  const segments = Math.max(1, Math.ceil(characters / charactersPerSegment))
+
+  return {
+    characters,
+    segments,
+    encoding: isGsm ? 'GSM-7' : 'UCS-2',
+    charactersPerSegment,
+    remaining: segments * charactersPerSegment - characters,
+  }
+}
+
+/**
+ * Format an amount for SMS. The peso sign is outside the GSM alphabet and would cut
+ * a message to 70 characters per SMS, so amounts use P.
+ */
+export const formatSmsAmount = (amount: number): string => `P${amount.toFixed(2)}`
+
+/**
+ * Format a promised date for SMS, e.g. Mar 4, 5:00 PM
+ */
+export const formatSmsDate = (date: string | Date): string =>
+  new Date(date).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })
+
+/**
+ * Storage fee sentence of a pickup reminder
+ * @returns An empty string when the store charges no storage fee
+ */
+export const formatStorageNotice = (
+  language: SmsLanguage,
+  storageFeePerDay: number,
+  daysUntilStorageFee: number
+): string => {
+  if (storageFeePerDay <= 0) return ''
+
+  const fee = formatSmsAmount(storageFeePerDay)
+  if (language === 'fil') {
+    return daysUntilStorageFee > 0
+      ? `May storage fee na ${fee} kada araw pagkalipas ng ${daysUntilStorageFee} araw.`
+      : `May storage fee na ${fee} kada araw.`
+  }
+  return daysUntilStorageFee > 0
+    ? `A storage fee of ${fee}/day applies after ${daysUntilStorageFee} more day${daysUntilStorageFee !== 1 ? 's' : ''}.`
+    : `A storage fee of ${fee}/day now applies.`
+}
+
+/**
+ * Placeholder values of an order
+ */
+export const getOrderSmsValues = (
+  order: {
+    customerFirstName?: string | null
+    orderNumber: string
+    balance?: number | null
+    promisedAt?: string | null
+    items?: { service_name: string; quantity: number; pricing_mode?: PricingMode | null; weight?: number | null }[]
+  },
+  store: { name: string; phone?: string | null }
+): SmsTemplateValues => ({
+  customer_name: order.customerFirstName || 'Customer',
+  order_number: order.orderNumber,
+  balance: order.balance && order.balance > 0 ? formatSmsAmount(order.balance) : '',
+  due_date: order.promisedAt ? formatSmsDate(order.promisedAt) : '',
+  store_name: store.name,
+  store_phone: store.phone || '',
+  items: (order.items || []).map(item => `${formatItemQuantity(item)} ${item.service_name}`).join(', '),
+})
+
+/**
+ * Notifications that make sense to send for an order in its current state. Pickup reminders
+ * are sent from the unclaimed orders list, which records them.
+ */
+export const getSmsEventsForOrder = (
+  order: { order_status: OrderStatus; promised_at?: string | null },
+  hasPayments: boolean
+): SmsEvent[] => {
+  const events: SmsEvent[] = []
+  if (order.order_status === 'pending' || order.order_status === 'in_progress') events.push('order_received')
+  if (getOrderDueStatus(order) === 'overdue') events.push('overdue')
+  if (order.order_status === 'ready') events.push('ready_for_pickup')
+  if (hasPayments && order.order_status !== 'cancelled') events.push('payment_received')
+  return events
+}
+
+/**
+ * Language a store sends notifications in
+ */
+export const getSmsLanguage = (store: StoreWithFeatures | null): SmsLanguage =>
+  getStoreSetting(store, 'sms_language') ?? 'en'
+
+/**
+ * Check if notifications are sent on status changes without asking. Needs the
+ * sms_notifications feature as well as the store's auto-send setting.
+ */
+export const isSmsAutoSendEnabled = (store: StoreWithFeatures | null): boolean =>
+  isFeatureEnabled(store, 'sms_notifications') && getStoreSetting(store, 'sms_auto_send') === true
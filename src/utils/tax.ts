@@ -0,0 +1,198 @@
+/**
+ * Tax Utility
+ * Computes VAT on the discounted cart, including senior citizen and PWD exemptions
+ */
+
+import { PricingAdjustment, PricingLine, PricingResult } from '../types/pricingRule'
+import { ReceiptTax, SeniorPwdType, TaxBreakdown, TaxLine, TaxOptions, TaxResult } from '../types/tax'
+import { padLine, round2 } from './money'
+
+/**
+ * Human-readable senior citizen / PWD label
+ */
+export const getSeniorPwdLabel = (type: SeniorPwdType): string => {
+  return type === 'senior' ? 'Senior Citizen' : 'PWD'
+}
+
+/**
+ * Net amount of each line after line discounts and its share of order-level discounts
+ */
+const getNetLineAmounts = (pricing: PricingResult, lines: PricingLine[]): number[] => {
+  const afterLineDiscounts = lines.map((line, i) =>
+    Math.max(0, round2(line.quantity * line.unit_price - (pricing.lineDiscounts[i] || 0)))
+  )
+  const base = afterLineDiscounts.reduce((sum, amount) => sum + amount, 0)
+  const orderDiscount = round2(pricing.discount - pricing.lineDiscounts.reduce((sum, d) => sum + d, 0))
+  if (base <= 0 || orderDiscount <= 0) return afterLineDiscounts
+
+  // Spread order-level discounts over the lines by value; the last line takes the rounding
+  let allocated = 0
+  return afterLineDiscounts.map((amount, i) => {
+    const share = i === afterLineDiscounts.length - 1
+      ? round2(orderDiscount - allocated)
+      : round2((orderDiscount * amount) / base)
+    allocated = round2(allocated + share)
+    return Math.max(0, round2(amount - share))
+  })
+}
+
+/**
+ * Calculate VAT for the discounted cart
+ *
+ * With VAT-inclusive pricing the VAT is carved out of the price; with VAT-exclusive
+ * pricing it is added on top. VAT-exempt services are reported as exempt sales.
+ * For senior citizens and PWDs the whole order is VAT-exempt: the VAT in inclusive
+ * prices is removed, then the statutory discount is taken off the VAT-exclusive amount.
+ *
+ * @param pricing - Cart totals after promotions and checkout discounts
+ * @param lines - Cart lines in the same order as pricing
+ * @param taxLines - VAT-exempt flag for each line
+ * @param options - Store VAT settings and the senior citizen / PWD details
+ */
+export const calculateTax = (
+  pricing: PricingResult,
+  lines: PricingLine[],
+  taxLines: TaxLine[],
+  options: TaxOptions
+): TaxResult => {
+  const rate = Math.max(0, options.rate) / 100
+  const netAmounts = getNetLineAmounts(pricing, lines)
+  const seniorPwd = options.seniorPwd || null
+
+  let vatableGross = 0
+  let exemptGross = 0
+  let exemptFromVatable = 0 // Vatable lines made exempt by SC/PWD
+  netAmounts.forEach((amount, i) => {
+    if (taxLines[i]?.vat_exempt) {
+      exemptGross += amount
+    } else if (seniorPwd) {
+      exemptFromVatable += amount
+    } else {
+      vatableGross += amount
+    }
+  })
+  vatableGross = round2(vatableGross)
+  exemptGross = round2(exemptGross)
+  exemptFromVatable = round2(exemptFromVatable)
+
+  const adjustments: PricingAdjustment[] = []
+  let vatableSales: number
+  let vatAmount: number
+  let tax = 0
+
+  if (options.inclusive) {
+    vatAmount = round2(vatableGross - vatableGross / (1 + rate))
+    vatableSales = round2(vatableGross - vatAmount)
+
+    // SC/PWD: remove the VAT already in the price
+    const vatRemoved = round2(exemptFromVatable - exemptFromVatable / (1 + rate))
+    if (vatRemoved > 0) {
+      adjustments.push({
+        pricing_rule_id: null,
+        source: 'vat_exemption',
+        description: 'VAT Exemption',
+        amount: vatRemoved,
+        item_index: null,
+      })
+    }
+    exemptGross = round2(exemptGross + exemptFromVatable - vatRemoved)
+  } else {
+    vatableSales = vatableGross
+    vatAmount = round2(vatableGross * rate)
+    tax = vatAmount
+    exemptGross = round2(exemptGross + exemptFromVatable)
+  }
+
+  // SC/PWD statutory discount on the VAT-exclusive amount
+  let vatExemptSales = exemptGross
+  if (seniorPwd && options.seniorPwdDiscountRate > 0 && exemptGross > 0) {
+    const discount = round2((exemptGross * options.seniorPwdDiscountRate) / 100)
+    adjustments.push({
+      pricing_rule_id: null,
+      source: 'senior_pwd',
+      description: `${getSeniorPwdLabel(seniorPwd.type)} Discount ${options.seniorPwdDiscountRate}%`,
+      amount: discount,
+      item_index: null,
+    })
+    vatExemptSales = round2(exemptGross - discount)
+  }
+
+  return {
+    breakdown: {
+      tax_inclusive: options.inclusive,
+      tax_rate: options.rate,
+      tax,
+      vatable_sales: vatableSales,
+      vat_amount: vatAmount,
+      vat_exempt_sales: vatExemptSales,
+      senior_pwd: seniorPwd,
+    },
+    adjustments,
+    total: round2(vatableSales + vatAmount + vatExemptSales),
+  }
+}
+
+/**
+ * Build the VAT lines printed on receipts
+ * @param order - Order as passed to the printer services
+ * @param lineWidth - Characters per printed line
+ * @returns beforeTotal holds VAT added on top of the prices; afterTotal the VAT breakdown.
+ *          Both are empty when the order has no VAT details.
+ */
+export const formatClaimStubTaxLines = (
+  order: { subtotal?: number; discounts?: Array<unknown>; tax?: ReceiptTax | null },
+  lineWidth: number = 32
+): { beforeTotal: string[]; afterTotal: string[] } => {
+  const tax = order.tax
+  if (!tax) return { beforeTotal: [], afterTotal: [] }
+
+  const beforeTotal: string[] = []
+  if (tax.tax > 0) {
+    // The discount lines already print the subtotal when there are discounts
+    if ((!order.discounts || order.discounts.length === 0) && order.subtotal !== undefined) {
+      beforeTotal.push(padLine('Subtotal:', `₱${order.subtotal.toFixed(2)}`, lineWidth))
+    }
+    beforeTotal.push(padLine(`Add VAT ${tax.tax_rate}%`, `₱${tax.tax.toFixed(2)}`, lineWidth))
+  }
+
+  const afterTotal = [
+    padLine('VATable Sales:', `₱${tax.vatable_sales.toFixed(2)}`, lineWidth),
+    padLine(`VAT Amount (${tax.tax_rate}%):`, `₱${tax.vat_amount.toFixed(2)}`, lineWidth),
+    padLine('VAT-Exempt Sales:', `₱${tax.vat_exempt_sales.toFixed(2)}`, lineWidth),
+  ]
+  if (tax.senior_pwd) {
+    afterTotal.push(`${getSeniorPwdLabel(tax.senior_pwd.type)} ID: ${tax.senior_pwd.id_number}`.substring(0, lineWidth))
+    afterTotal.push(`Name: ${tax.senior_pwd.name}`.substring(0, lineWidth))
+  }
+
+  return { beforeTotal, afterTotal }
+}
+
+/**
+ * Read the VAT breakdown back from an order row; null for orders saved without VAT details
+ */
+export const getOrderTaxBreakdown = (order: {
+  tax?: number | null
+  tax_inclusive?: boolean | null
+  tax_rate?: number | null
+  vatable_sales?: number | null
+  vat_amount?: number | null
+  vat_exempt_sales?: number | null
+  senior_pwd_type?: SeniorPwdType | null
+  senior_pwd_id?: string | null
+  senior_pwd_name?: string | null
+}): TaxBreakdown | null => {
+  if (order.tax_rate === null || order.tax_rate === undefined) return null
+
+  return {
+    tax_inclusive: order.tax_inclusive !== false,
+    tax_rate: Number(order.tax_rate),
+    tax: Number(order.tax || 0),
+    vatable_sales: Number(order.vatable_sales || 0),
+    vat_amount: Number(order.vat_amount || 0),
+    vat_exempt_sales: Number(order.vat_exempt_sales || 0),
+    senior_pwd: order.senior_pwd_type
+      ? { type: order.senior_pwd_type, id_number: order.senior_pwd_id || '', name: order.senior_pwd_name || '' }
+      : null,
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Unclaimed Orders Utility
+ * Aging of ready orders waiting for pickup, reminder intervals, storage fees and the
+ * abandoned disposition, following the store unclaimed order settings
+ */
+
+import { AgingBucket, UnclaimedOrder, UnclaimedPolicy } from '../types/unclaimed'
+import { StoreWithFeatures, getStoreSetting } from './featureFlags'
+import { padLine } from './money'
+
+/**
+ * Aging buckets, youngest first
+ */
+export const AGING_BUCKETS: { key: AgingBucket; label: string; minDays: number }[] = [
+  { key: 'under_7', label: 'Under 7 days', minDays: 0 },
+  { key: '7_13', label: '7-13 days', minDays: 7 },
+  { key: '14_29', label: '14-29 days', minDays: 14 },
+  { key: '30_59', label: '30-59 days', minDays: 30 },
+  { key: '60_plus', label: '60+ days', minDays: 60 },
+]
+
+/**
+ * Bucket of an order that has been ready for a number of days
+ */
+export const getAgingBucket = (daysReady: number): AgingBucket => {
+  const bucket = [...AGING_BUCKETS].reverse().find(b => daysReady >= b.minDays)
+  return bucket ? bucket.key : 'under_7'
+}
+
+/**
+ * Unclaimed order rules of a store, with the defaults for settings that are not set
+ */
+export const getUnclaimedPolicy = (store: StoreWithFeatures | null): UnclaimedPolicy => {
+  const reminderDays = getStoreSetting(store, 'unclaimed_reminder_days')
+  return {
+    reminderDays: Array.isArray(reminderDays)
+      ? reminderDays.filter(day => day > 0).sort((a, b) => a - b)
+      : [7, 14, 30],
+    storageGraceDays: getStoreSetting(store, 'storage_grace_days') ?? 30,
+    storageFeePerDay: getStoreSetting(store, 'storage_fee_per_day') ?? 0,
+    abandonAfterDays: getStoreSetting(store, 'abandon_after_days') ?? 60,
+  }
+}
+
+/**
+ * Parse reminder days typed as a list, e.g. "7, 14, 30"
+ * @returns The days in order, or null if any entry is not a whole number of days
+ */
+export const parseReminderDays = (value: string): number[] | null => {
+  const entries = value.split(',').map(entry => entry.trim()).filter(Boolean)
+  const days = entries.map(entry => Number(entry))
+  if (days.some(day => !Number.isInteger(day) || day <= 0)) return null
+  return Array.from(new Set(days)).sort((a, b) => a - b)
+}
+
+/**
+ * The reminder an order is due for, if any. Only the latest interval reached is sent, so an
+ * order found late gets one reminder rather than every one it missed.
+ *
+ * @returns The reminder day to send, or null when no reminder is due
+ */
+export const getDueReminderDay = (
+  order: Pick<UnclaimedOrder, 'days_ready' | 'reminder_days'>,
+  reminderDays: number[]
+): number | null => {
+  const reached = reminderDays.filter(day => day <= order.days_ready)
+  if (reached.length === 0) return null
+
+  const day = reached[reached.length - 1]
+  const lastSent = Math.max(-1, ...(order.reminder_days || []))
+  return day > lastSent ? day : null
+}
+
+/**
+ * Days until storage fees start on an order, or 0 once they apply
+ */
+export const getDaysUntilStorageFee = (daysReady: number, policy: UnclaimedPolicy): number =>
+  Math.max(0, policy.storageGraceDays - daysReady)
+
+/**
+ * Check if an order has waited long enough to be marked abandoned
+ */
+export const canAbandonOrder = (daysReady: number, policy: UnclaimedPolicy): boolean =>
+  daysReady >= policy.abandonAfterDays
+
+/**
+ * Storage fee line printed after the total and its VAT breakdown
+ * @param order - Order with the storage fee accrued so far
+ * @param lineWidth - Characters per printed line
+ */
+export const formatClaimStubStorageFeeLines = (
+  order: { storageFee?: number },
+  lineWidth: number = 32
+): string[] => {
+  if (!order.storageFee || order.storageFee <= 0) return []
+  return [padLine('Storage Fee:', `₱${order.storageFee.toFixed(2)}`, lineWidth)]
+}
@@ -0,0 +1,501 @@
+-- Migration: Add cash tendering
+-- Cash payments record what the customer handed over and the change given back, so
+-- the change can be printed on the claim stub and counted in cash drawer reconciliation.
+-- payments.amount stays the amount applied to the order.
+
+ALTER TABLE public.payments
+ADD COLUMN IF NOT EXISTS amount_tendered NUMERIC(10, 2) NULL;
+
+ALTER TABLE public.payments
+ADD COLUMN IF NOT EXISTS change_given NUMERIC(10, 2) NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'payments_change_given_check'
+  ) THEN
+    ALTER TABLE public.payments
+    ADD CONSTRAINT payments_change_given_check CHECK (
+      (amount_tendered IS NULL AND change_given IS NULL)
+      OR (amount_tendered >= amount AND change_given = amount_tendered - amount)
+    );
+  END IF;
+END $$;
+
+COMMENT ON COLUMN public.payments.amount_tendered IS 'Cash handed over by the customer; NULL for non-cash payments';
+COMMENT ON COLUMN public.payments.change_given IS 'Cash given back: amount_tendered minus amount';
+
+-- Recreate create_order_with_items to store the cash received and change given. The signature is unchanged.
+CREATE OR REPLACE FUNCTION public.create_order_with_items(
+  p_store_id UUID,
+  p_customer_id UUID,
+  p_items JSONB,
+  p_payment JSONB DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_client_reference UUID DEFAULT NULL,
+  p_provisional_order_number VARCHAR(50) DEFAULT NULL,
+  p_adjustments JSONB DEFAULT NULL,
+  p_tax JSONB DEFAULT NULL
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_order public.orders;
+  v_item RECORD;
+  v_subtotal NUMERIC(10, 2) := 0;
+  v_discount NUMERIC(10, 2) := 0;
+  v_total NUMERIC(10, 2) := 0;
+  v_tax NUMERIC(10, 2) := 0;
+  v_tax_enabled BOOLEAN;
+  v_senior_pwd JSONB;
+  v_paid NUMERIC(10, 2) := 0;
+  v_payments JSONB := '[]'::jsonb;
+  v_tender JSONB;
+  v_tender_group UUID;
+  v_payment_status VARCHAR(20) := 'unpaid';
+  v_previous_stock NUMERIC;
+  v_oversell_policy TEXT;
+  v_approval_threshold NUMERIC;
+  v_voucher public.vouchers;
+  v_voucher_id UUID;
+  v_voucher_uses INTEGER;
+  v_supply RECORD;
+  v_item_index INTEGER := 0;
+  v_item_ids UUID[] := ARRAY[]::UUID[];
+  v_order_item_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  -- Replay of an order that was already created: return it as-is
+  IF p_client_reference IS NOT NULL THEN
+    SELECT * INTO v_order FROM public.orders WHERE client_reference = p_client_reference;
+    IF FOUND THEN
+      RETURN v_order;
+    END IF;
+  END IF;
+
+  SELECT
+    COALESCE(settings->>'oversell_policy', 'block'),
+    COALESCE((settings->>'discount_approval_threshold')::NUMERIC, 10),
+    COALESCE((features->>'tax_calculation')::BOOLEAN, false)
+  INTO v_oversell_policy, v_approval_threshold, v_tax_enabled
+  FROM public.stores
+  WHERE id = p_store_id;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item' USING ERRCODE = '22023';
+  END IF;
+
+  -- Compute totals server-side from the submitted items
+  SELECT COALESCE(SUM(ROUND((item->>'quantity')::NUMERIC * (item->>'unit_price')::NUMERIC, 2)), 0)
+  INTO v_subtotal
+  FROM jsonb_array_elements(p_items) AS item;
+
+  -- Discounts computed by the pricing rules engine
+  IF p_adjustments IS NOT NULL AND jsonb_typeof(p_adjustments) = 'array' THEN
+    IF EXISTS (
+      SELECT 1 FROM jsonb_array_elements(p_adjustments) AS adj
+      WHERE COALESCE((adj->>'amount')::NUMERIC, 0) <= 0
+    ) THEN
+      RAISE EXCEPTION 'Invalid discount amount' USING ERRCODE = '22023';
+    END IF;
+
+    SELECT COALESCE(SUM(ROUND((adj->>'amount')::NUMERIC, 2)), 0)
+    INTO v_discount
+    FROM jsonb_array_elements(p_adjustments) AS adj;
+  END IF;
+
+  IF v_discount > v_subtotal THEN
+    RAISE EXCEPTION 'Discount of % exceeds the order subtotal', v_discount USING ERRCODE = '22023';
+  END IF;
+
+  v_total := v_subtotal - v_discount;
+
+  -- Manual discounts, vouchers and discounts beyond their pricing rule or statutory rate need
+  -- an approval from verify_manager_pin above the store threshold (percent of subtotal). The
+  -- approver is taken from the approval.
+  p_adjustments := public.use_discount_approvals(p_store_id, p_adjustments, v_subtotal, v_approval_threshold, p_items);
+
+  -- Re-validate vouchers while holding a lock so usage limits can't be exceeded
+  FOR v_voucher_id IN
+    SELECT DISTINCT NULLIF(adj->>'voucher_id', '')::UUID
+    FROM jsonb_array_elements(COALESCE(p_adjustments, '[]'::jsonb)) AS adj
+    WHERE adj->>'source' = 'voucher'
+  LOOP
+    SELECT * INTO v_voucher FROM public.vouchers WHERE id = v_voucher_id FOR UPDATE;
+
+    IF NOT FOUND
+      OR NOT v_voucher.is_active
+      OR (v_voucher.store_id IS NOT NULL AND v_voucher.store_id <> p_store_id)
+      OR (v_voucher.starts_at IS NOT NULL AND v_voucher.starts_at > NOW())
+      OR (v_voucher.ends_at IS NOT NULL AND v_voucher.ends_at <= NOW())
+    THEN
+      RAISE EXCEPTION 'Voucher is no longer valid' USING ERRCODE = 'P0001';
+    END IF;
+
+    IF v_subtotal < v_voucher.min_spend THEN
+      RAISE EXCEPTION 'Voucher % requires a minimum spend of %', v_voucher.code, v_voucher.min_spend USING ERRCODE = 'P0001';
+    END IF;
+
+    IF v_voucher.usage_limit IS NOT NULL THEN
+      v_voucher_uses := public.get_voucher_usage(v_voucher.id);
+
+      IF v_voucher_uses >= v_voucher.usage_limit THEN
+        RAISE EXCEPTION 'Voucher % has reached its usage limit', v_voucher.code USING ERRCODE = 'P0001';
+      END IF;
+    END IF;
+  END LOOP;
+
+  -- VAT computed by the app from the store tax settings. The breakdown must add up
+  -- to the amount due: vatable_sales + vat_amount + vat_exempt_sales = total + tax.
+  IF p_tax IS NOT NULL AND jsonb_typeof(p_tax) = 'object' THEN
+    IF NOT v_tax_enabled THEN
+      RAISE EXCEPTION 'Tax calculation is not enabled for this store' USING ERRCODE = '22023';
+    END IF;
+
+    v_tax := ROUND(COALESCE((p_tax->>'tax')::NUMERIC, 0), 2);
+    IF v_tax < 0
+      OR COALESCE((p_tax->>'vatable_sales')::NUMERIC, 0) < 0
+      OR COALESCE((p_tax->>'vat_amount')::NUMERIC, 0) < 0
+      OR COALESCE((p_tax->>'vat_exempt_sales')::NUMERIC, 0) < 0
+    THEN
+      RAISE EXCEPTION 'Invalid VAT amounts' USING ERRCODE = '22023';
+    END IF;
+
+    IF ABS(
+      COALESCE((p_tax->>'vatable_sales')::NUMERIC, 0)
+      + COALESCE((p_tax->>'vat_amount')::NUMERIC, 0)
+      + COALESCE((p_tax->>'vat_exempt_sales')::NUMERIC, 0)
+      - (v_total + v_tax)
+    ) > 0.01 THEN
+      RAISE EXCEPTION 'VAT breakdown does not match the order total' USING ERRCODE = '22023';
+    END IF;
+
+    IF jsonb_typeof(p_tax->'senior_pwd') = 'object' THEN
+      v_senior_pwd := p_tax->'senior_pwd';
+    END IF;
+  END IF;
+
+  -- The VAT exemption and statutory discount need the senior citizen or PWD ID
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(COALESCE(p_adjustments, '[]'::jsonb)) AS adj
+    WHERE adj->>'source' IN ('vat_exemption', 'senior_pwd')
+  ) AND (
+    v_senior_pwd IS NULL
+    OR NULLIF(TRIM(v_senior_pwd->>'id_number'), '') IS NULL
+    OR v_senior_pwd->>'type' NOT IN ('senior', 'pwd')
+  ) THEN
+    RAISE EXCEPTION 'Senior citizen or PWD ID is required for this discount' USING ERRCODE = '22023';
+  END IF;
+
+  v_total := v_total + v_tax;
+
+  -- p_payment is one payment object or an array of tenders (split tender)
+  IF jsonb_typeof(p_payment) = 'array' THEN
+    v_payments := p_payment;
+  ELSIF jsonb_typeof(p_payment) = 'object' THEN
+    v_payments := jsonb_build_array(p_payment);
+  END IF;
+
+  FOR v_tender IN SELECT * FROM jsonb_array_elements(v_payments)
+  LOOP
+    IF COALESCE((v_tender->>'amount')::NUMERIC, 0) < 0
+      OR NULLIF(v_tender->>'payment_method', '') IS NULL
+      OR ROUND((v_tender->>'amount_tendered')::NUMERIC, 2) < ROUND(COALESCE((v_tender->>'amount')::NUMERIC, 0), 2)
+    THEN
+      RAISE EXCEPTION 'Invalid tender: %', v_tender USING ERRCODE = '22023';
+    END IF;
+    v_paid := v_paid + ROUND(COALESCE((v_tender->>'amount')::NUMERIC, 0), 2);
+  END LOOP;
+
+  IF v_paid < 0 OR v_paid > v_total THEN
+    RAISE EXCEPTION 'Invalid payment amount: %', v_paid USING ERRCODE = '22023';
+  END IF;
+
+  IF v_paid > 0 AND v_paid = v_total THEN
+    v_payment_status := 'paid';
+  ELSIF v_paid > 0 THEN
+    v_payment_status := 'partial';
+  END IF;
+
+  -- Create order
+  INSERT INTO public.orders (
+    store_id,
+    customer_id,
+    subtotal,
+    tax,
+    discount,
+    total_amount,
+    paid_amount,
+    balance,
+    payment_status,
+    order_status,
+    created_by,
+    notes,
+    client_reference,
+    provisional_order_number,
+    tax_inclusive,
+    tax_rate,
+    vatable_sales,
+    vat_amount,
+    vat_exempt_sales,
+    senior_pwd_type,
+    senior_pwd_id,
+    senior_pwd_name
+  ) VALUES (
+    p_store_id,
+    p_customer_id,
+    v_subtotal,
+    v_tax,
+    v_discount,
+    v_total,
+    v_paid,
+    v_total - v_paid,
+    v_payment_status,
+    'pending',
+    v_user_id,
+    p_notes,
+    p_client_reference,
+    p_provisional_order_number,
+    (p_tax->>'tax_inclusive')::BOOLEAN,
+    (p_tax->>'tax_rate')::NUMERIC,
+    ROUND((p_tax->>'vatable_sales')::NUMERIC, 2),
+    ROUND((p_tax->>'vat_amount')::NUMERIC, 2),
+    ROUND((p_tax->>'vat_exempt_sales')::NUMERIC, 2),
+    v_senior_pwd->>'type',
+    NULLIF(TRIM(v_senior_pwd->>'id_number'), ''),
+    NULLIF(TRIM(v_senior_pwd->>'name'), '')
+  )
+  RETURNING * INTO v_order;
+
+  -- Create order items and deduct inventory for products
+  FOR v_item IN
+    SELECT *
+    FROM jsonb_to_recordset(p_items) AS x(
+      item_type TEXT,
+      service_id UUID,
+      inventory_item_id UUID,
+      name TEXT,
+      quantity NUMERIC,
+      unit_price NUMERIC,
+      pricing_mode TEXT,
+      weight NUMERIC,
+      vat_exempt BOOLEAN
+    )
+  LOOP
+    IF v_item.quantity IS NULL OR v_item.quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for item %', v_item.name USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO public.order_items (
+      order_id,
+      service_id,
+      inventory_item_id,
+      item_type,
+      service_name,
+      quantity,
+      unit_price,
+      total_price,
+      pricing_mode,
+      weight,
+      discount,
+      vat_exempt
+    ) VALUES (
+      v_order.id,
+      CASE WHEN v_item.item_type = 'service' THEN v_item.service_id ELSE NULL END,
+      CASE WHEN v_item.item_type = 'product' THEN v_item.inventory_item_id ELSE NULL END,
+      v_item.item_type,
+      v_item.name,
+      v_item.quantity,
+      v_item.unit_price,
+      ROUND(v_item.quantity * v_item.unit_price, 2),
+      COALESCE(v_item.pricing_mode, 'per_piece'),
+      v_item.weight,
+      COALESCE((
+        SELECT SUM(ROUND((adj->>'amount')::NUMERIC, 2))
+        FROM jsonb_array_elements(COALESCE(p_adjustments, '[]'::jsonb)) AS adj
+        WHERE (adj->>'item_index')::INTEGER = v_item_index
+      ), 0),
+      COALESCE(v_item.vat_exempt, false)
+    )
+    RETURNING id INTO v_order_item_id;
+
+    v_item_ids := array_append(v_item_ids, v_order_item_id);
+    v_item_index := v_item_index + 1;
+
+    -- Consume supplies declared in the service recipe. Supply usage never blocks an order;
+    -- stock may go negative until the next purchase or count adjustment.
+    IF v_item.item_type = 'service' AND v_item.service_id IS NOT NULL THEN
+      FOR v_supply IN
+        SELECT ss.inventory_item_id, ss.quantity_per_unit * v_item.quantity AS quantity
+        FROM public.service_supplies ss
+        WHERE ss.service_id = v_item.service_id
+          AND ss.store_id = p_store_id
+      LOOP
+        SELECT current_stock
+        INTO v_previous_stock
+        FROM public.inventory_items
+        WHERE id = v_supply.inventory_item_id
+          AND store_id = p_store_id
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+          CONTINUE;
+        END IF;
+
+        UPDATE public.inventory_items
+        SET current_stock = v_previous_stock - v_supply.quantity,
+            updated_at = NOW()
+        WHERE id = v_supply.inventory_item_id;
+
+        INSERT INTO public.inventory_transactions (
+          store_id,
+          inventory_item_id,
+          transaction_type,
+          quantity,
+          previous_stock,
+          new_stock,
+          notes,
+          created_by,
+          order_id
+        ) VALUES (
+          p_store_id,
+          v_supply.inventory_item_id,
+          'usage',
+          -v_supply.quantity,
+          v_previous_stock,
+          v_previous_stock - v_supply.quantity,
+          'Used for ' || v_item.name || ' in order ' || v_order.order_number,
+          v_user_id,
+          v_order.id
+        );
+      END LOOP;
+    END IF;
+
+    IF v_item.item_type = 'product' AND v_item.inventory_item_id IS NOT NULL THEN
+      -- Lock the inventory row so concurrent checkouts cannot oversell
+      SELECT current_stock
+      INTO v_previous_stock
+      FROM public.inventory_items
+      WHERE id = v_item.inventory_item_id
+        AND store_id = p_store_id
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Inventory item % not found in store', v_item.name USING ERRCODE = 'P0002';
+      END IF;
+
+      IF v_previous_stock < v_item.quantity AND v_oversell_policy IS DISTINCT FROM 'warn' THEN
+        RAISE EXCEPTION 'Insufficient stock for %: % available', v_item.name, v_previous_stock USING ERRCODE = 'P0001';
+      END IF;
+
+      UPDATE public.inventory_items
+      SET current_stock = v_previous_stock - v_item.quantity,
+          updated_at = NOW()
+      WHERE id = v_item.inventory_item_id;
+
+      INSERT INTO public.inventory_transactions (
+        store_id,
+        inventory_item_id,
+        transaction_type,
+        quantity,
+        previous_stock,
+        new_stock,
+        notes,
+        created_by,
+        order_id
+      ) VALUES (
+        p_store_id,
+        v_item.inventory_item_id,
+        'usage',
+        -v_item.quantity,
+        v_previous_stock,
+        v_previous_stock - v_item.quantity,
+        'Sold in order ' || v_order.order_number,
+        v_user_id,
+        v_order.id
+      );
+    END IF;
+  END LOOP;
+
+  -- Itemize discounts. item_index refers to the position in p_items (0-based).
+  IF p_adjustments IS NOT NULL AND jsonb_typeof(p_adjustments) = 'array' THEN
+    INSERT INTO public.order_adjustments (
+      order_id,
+      order_item_id,
+      pricing_rule_id,
+      voucher_id,
+      source,
+      description,
+      amount,
+      created_by,
+      approved_by
+    )
+    SELECT
+      v_order.id,
+      CASE
+        WHEN adj->>'item_index' IS NULL THEN NULL
+        ELSE v_item_ids[(adj->>'item_index')::INTEGER + 1]
+      END,
+      NULLIF(adj->>'pricing_rule_id', '')::UUID,
+      NULLIF(adj->>'voucher_id', '')::UUID,
+      COALESCE(NULLIF(adj->>'source', ''), 'pricing_rule'),
+      COALESCE(NULLIF(adj->>'description', ''), 'Discount'),
+      ROUND((adj->>'amount')::NUMERIC, 2),
+      v_user_id,
+      NULLIF(adj->>'approved_by', '')::UUID
+    FROM jsonb_array_elements(p_adjustments) AS adj;
+  END IF;
+
+  -- Record the initial payment, one row per tender. Tenders of one checkout share a tender group.
+  IF jsonb_array_length(v_payments) > 1 THEN
+    v_tender_group := gen_random_uuid();
+  END IF;
+
+  FOR v_tender IN SELECT * FROM jsonb_array_elements(v_payments)
+  LOOP
+    IF ROUND(COALESCE((v_tender->>'amount')::NUMERIC, 0), 2) > 0 THEN
+      INSERT INTO public.payments (
+        order_id,
+        amount,
+        payment_method,
+        payment_method_id,
+        card_number,
+        reference_number,
+        received_by,
+        notes,
+        client_reference,
+        tender_group,
+        amount_tendered,
+        change_given
+      ) VALUES (
+        v_order.id,
+        ROUND((v_tender->>'amount')::NUMERIC, 2),
+        v_tender->>'payment_method',
+        NULLIF(v_tender->>'payment_method_id', '')::UUID,
+        NULLIF(v_tender->>'card_number', ''),
+        NULLIF(v_tender->>'reference_number', ''),
+        v_user_id,
+        v_tender->>'notes',
+        NULLIF(v_tender->>'client_reference', '')::UUID,
+        v_tender_group,
+        ROUND((v_tender->>'amount_tendered')::NUMERIC, 2),
+        ROUND((v_tender->>'amount_tendered')::NUMERIC, 2) - ROUND((v_tender->>'amount')::NUMERIC, 2)
+      );
+    END IF;
+  END LOOP;
+
+  -- Return the final state of the order
+  SELECT * INTO v_order FROM public.orders WHERE id = v_order.id;
+  RETURN v_order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_order_with_items(UUID, UUID, JSONB, JSONB, TEXT, UUID, VARCHAR, JSONB, JSONB) TO authenticated;
+
+COMMENT ON FUNCTION public.create_order_with_items(UUID, UUID, JSONB, JSONB, TEXT, UUID, VARCHAR, JSONB, JSONB) IS 'Atomically creates an order with its items, discounts, initial payment (one object or an array of tenders, with the cash received for cash tenders), product and supply inventory deductions. Any failure rolls back the whole order. Replays with the same client reference return the existing order. Overselling is blocked unless the store oversell_policy is warn. Manual discounts, vouchers and discounts beyond their pricing rule or statutory rate need a manager approval above the store discount_approval_threshold. The VAT breakdown in p_tax is stored when the store has tax_calculation enabled.';
@@ -0,0 +1,243 @@
+-- Migration: Add customer management
+-- Adds tags and notes to customers, per-customer order stats for the Customers
+-- screen, duplicate detection by phone number and a merge that moves orders,
+-- cancelled orders and loyalty points to the customer that is kept.
+
+ALTER TABLE public.customers
+ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.customers
+ADD COLUMN IF NOT EXISTS notes TEXT NULL;
+
+ALTER TABLE public.customers
+ADD COLUMN IF NOT EXISTS merged_into_id UUID NULL
+REFERENCES public.customers(id) ON DELETE SET NULL;
+
+ALTER TABLE public.customers
+ADD COLUMN IF NOT EXISTS merged_at TIMESTAMP WITH TIME ZONE NULL;
+
+-- Last 10 digits of the phone number, so 0917 123 4567 and +63 917 123 4567 match
+ALTER TABLE public.customers
+ADD COLUMN IF NOT EXISTS phone_key VARCHAR(10)
+GENERATED ALWAYS AS (NULLIF(RIGHT(regexp_replace(COALESCE(phone, ''), '\D', '', 'g'), 10), '')) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_customers_store_phone_key
+ON public.customers(store_id, phone_key)
+WHERE phone_key IS NOT NULL;
+
+COMMENT ON COLUMN public.customers.tags IS 'Free-form labels such as VIP or Corporate';
+COMMENT ON COLUMN public.customers.notes IS 'Staff notes about the customer';
+COMMENT ON COLUMN public.customers.merged_into_id IS 'Customer this duplicate was merged into; the duplicate is deactivated';
+COMMENT ON COLUMN public.customers.phone_key IS 'Last 10 digits of the phone number, used to find duplicates';
+
+-- Order totals per customer. Runs with the caller's permissions so store RLS applies.
+CREATE OR REPLACE VIEW public.customer_stats
+WITH (security_invoker = true)
+AS
+SELECT
+  o.customer_id,
+  o.store_id,
+  COUNT(*)::INTEGER AS visit_count,
+  COALESCE(SUM(o.total_amount), 0) AS lifetime_spend,
+  COALESCE(SUM(o.paid_amount), 0) AS lifetime_paid,
+  COALESCE(SUM(o.balance) FILTER (WHERE o.balance > 0), 0) AS outstanding_balance,
+  MAX(o.order_date) AS last_order_date
+FROM public.orders o
+WHERE o.customer_id IS NOT NULL
+  AND o.order_status <> 'cancelled'
+GROUP BY o.customer_id, o.store_id;
+
+GRANT SELECT ON public.customer_stats TO authenticated;
+
+COMMENT ON VIEW public.customer_stats IS 'Visit count, lifetime spend and outstanding balance per customer and store, excluding cancelled orders';
+
+-- Loyalty points move with a merge
+ALTER TABLE loyalty_points_ledger
+DROP CONSTRAINT IF EXISTS loyalty_points_ledger_entry_type_check;
+
+ALTER TABLE loyalty_points_ledger
+ADD CONSTRAINT loyalty_points_ledger_entry_type_check CHECK (entry_type IN ('earn', 'redeem', 'reversal', 'merge'));
+
+COMMENT ON COLUMN loyalty_points_ledger.entry_type IS 'earn (points from a payment), redeem (points used as payment), reversal (cancelled payment or order) or merge (points moved from a duplicate customer)';
+
+-- Recreate post_loyalty_points so points posted to a merged customer go to the customer it
+-- was merged into. Order and payment ledger entries stay on the merged customer, so reversals
+-- of those orders and payments are posted to the customer that is kept. The signature is
+-- unchanged.
+CREATE OR REPLACE FUNCTION public.post_loyalty_points(
+  p_store_id UUID,
+  p_customer_id UUID,
+  p_order_id UUID,
+  p_payment_id UUID,
+  p_entry_type VARCHAR,
+  p_points INTEGER,
+  p_amount NUMERIC,
+  p_description TEXT
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_customer_id UUID := p_customer_id;
+  v_merged_into_id UUID;
+  v_balance INTEGER;
+BEGIN
+  LOOP
+    SELECT merged_into_id INTO v_merged_into_id FROM customers WHERE id = v_customer_id;
+    EXIT WHEN v_merged_into_id IS NULL;
+    v_customer_id := v_merged_into_id;
+  END LOOP;
+
+  SELECT COALESCE(loyalty_points, 0)
+  INTO v_balance
+  FROM customers
+  WHERE id = v_customer_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_entry_type = 'redeem' AND v_balance + p_points < 0 THEN
+    RAISE EXCEPTION 'Not enough loyalty points: % available, % needed', v_balance, -p_points USING ERRCODE = '22023';
+  END IF;
+
+  v_balance := v_balance + p_points;
+
+  UPDATE customers
+  SET loyalty_points = v_balance
+  WHERE id = v_customer_id;
+
+  INSERT INTO loyalty_points_ledger (
+    store_id,
+    customer_id,
+    order_id,
+    order_number,
+    payment_id,
+    entry_type,
+    points,
+    balance_after,
+    amount,
+    description,
+    created_by
+  ) VALUES (
+    p_store_id,
+    v_customer_id,
+    p_order_id,
+    (SELECT order_number FROM orders WHERE id = p_order_id),
+    p_payment_id,
+    p_entry_type,
+    p_points,
+    v_balance,
+    p_amount,
+    p_description,
+    auth.uid()
+  );
+
+  RETURN v_balance;
+END;
+$$;
+
+-- Merge a duplicate customer into the customer that is kept. Orders and cancelled
+-- orders are re-pointed, loyalty points are moved, tags are combined, missing contact
+-- details are copied over and the duplicate is deactivated. Store managers only.
+CREATE OR REPLACE FUNCTION public.merge_customers(
+  p_source_id UUID,
+  p_target_id UUID
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_source public.customers;
+  v_target public.customers;
+  v_points INTEGER;
+  v_moved INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF p_source_id = p_target_id THEN
+    RAISE EXCEPTION 'Cannot merge a customer into itself' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_source FROM public.customers WHERE id = p_source_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO v_target FROM public.customers WHERE id = p_target_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_source.store_id IS DISTINCT FROM v_target.store_id THEN
+    RAISE EXCEPTION 'Customers belong to different stores' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_source.merged_into_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Customer was already merged' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_target.merged_into_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Cannot merge into a customer that was merged' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT public.is_store_manager(auth.uid(), v_target.store_id) THEN
+    RAISE EXCEPTION 'Only a store manager can merge customers' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.orders
+  SET customer_id = p_target_id
+  WHERE customer_id = p_source_id;
+  GET DIAGNOSTICS v_moved = ROW_COUNT;
+
+  UPDATE public.cancelled_orders
+  SET customer_id = p_target_id
+  WHERE customer_id = p_source_id;
+
+  -- Move the points balance through the ledger so both histories stay complete
+  v_points := COALESCE(v_source.loyalty_points, 0);
+  IF v_points <> 0 THEN
+    PERFORM public.post_loyalty_points(
+      v_source.store_id, p_source_id, NULL, NULL, 'merge', -v_points, NULL,
+      'Merged into ' || v_target.customer_number
+    );
+    PERFORM public.post_loyalty_points(
+      v_target.store_id, p_target_id, NULL, NULL, 'merge', v_points, NULL,
+      'Merged from ' || v_source.customer_number
+    );
+  END IF;
+
+  UPDATE public.customers
+  SET
+    phone = COALESCE(v_target.phone, v_source.phone),
+    email = COALESCE(v_target.email, v_source.email),
+    address = COALESCE(v_target.address, v_source.address),
+    tags = ARRAY(SELECT DISTINCT UNNEST(COALESCE(v_target.tags, '{}') || COALESCE(v_source.tags, '{}'))),
+    notes = CASE
+      WHEN v_source.notes IS NULL OR v_source.notes = '' THEN v_target.notes
+      WHEN v_target.notes IS NULL OR v_target.notes = '' THEN v_source.notes
+      ELSE v_target.notes || E'\n' || v_source.notes
+    END
+  WHERE id = p_target_id;
+
+  UPDATE public.customers
+  SET
+    is_active = false,
+    merged_into_id = p_target_id,
+    merged_at = NOW()
+  WHERE id = p_source_id;
+
+  RETURN v_moved;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.merge_customers(UUID, UUID) TO authenticated;
+
+COMMENT ON FUNCTION public.merge_customers(UUID, UUID) IS 'Merges a duplicate customer into another customer of the same store and deactivates the duplicate. Returns the number of orders moved.';
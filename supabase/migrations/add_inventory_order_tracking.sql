@@ -0,0 +1,322 @@
+-- Migration: Track inventory usage per order
+-- Product sales deduct stock through create_order_with_items. This migration links each
+-- inventory transaction to the order that caused it, adds a per-store oversell policy and
+-- a function that puts the stock back when an order is cancelled.
+
+-- Add settings column to stores (JSON object, see StoreSettings in src/utils/featureFlags.ts)
+ALTER TABLE public.stores
+ADD COLUMN IF NOT EXISTS settings JSONB DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN public.stores.settings IS 'Store-specific settings such as currency, tax_rate and oversell_policy';
+
+-- Add order_id column to inventory_transactions
+ALTER TABLE public.inventory_transactions
+ADD COLUMN IF NOT EXISTS order_id UUID NULL REFERENCES public.orders(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_inventory_transactions_order_id
+ON public.inventory_transactions(order_id)
+WHERE order_id IS NOT NULL;
+
+COMMENT ON COLUMN public.inventory_transactions.order_id IS 'Order that caused this stock movement (sale or cancellation restock)';
+
+-- Recreate create_order_with_items to honor the store oversell policy and link
+-- inventory transactions to the order.
+--   oversell_policy = 'block' (default): reject the order when stock is insufficient
+--   oversell_policy = 'warn': allow the sale; stock may go negative until restocked
+CREATE OR REPLACE FUNCTION public.create_order_with_items(
+  p_store_id UUID,
+  p_customer_id UUID,
+  p_items JSONB,
+  p_payment JSONB DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_client_reference UUID DEFAULT NULL,
+  p_provisional_order_number VARCHAR(50) DEFAULT NULL
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_order public.orders;
+  v_item RECORD;
+  v_subtotal NUMERIC(10, 2) := 0;
+  v_paid NUMERIC(10, 2) := 0;
+  v_payment_status VARCHAR(20) := 'unpaid';
+  v_previous_stock NUMERIC;
+  v_oversell_policy TEXT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  -- Replay of an order that was already created: return it as-is
+  IF p_client_reference IS NOT NULL THEN
+    SELECT * INTO v_order FROM public.orders WHERE client_reference = p_client_reference;
+    IF FOUND THEN
+      RETURN v_order;
+    END IF;
+  END IF;
+
+  SELECT COALESCE(settings->>'oversell_policy', 'block')
+  INTO v_oversell_policy
+  FROM public.stores
+  WHERE id = p_store_id;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item' USING ERRCODE = '22023';
+  END IF;
+
+  -- Compute totals server-side from the submitted items
+  SELECT COALESCE(SUM((item->>'quantity')::NUMERIC * (item->>'unit_price')::NUMERIC), 0)
+  INTO v_subtotal
+  FROM jsonb_array_elements(p_items) AS item;
+
+  IF p_payment IS NOT NULL THEN
+    v_paid := COALESCE((p_payment->>'amount')::NUMERIC, 0);
+  END IF;
+
+  IF v_paid < 0 OR v_paid > v_subtotal THEN
+    RAISE EXCEPTION 'Invalid payment amount: %', v_paid USING ERRCODE = '22023';
+  END IF;
+
+  IF v_paid > 0 AND v_paid = v_subtotal THEN
+    v_payment_status := 'paid';
+  ELSIF v_paid > 0 THEN
+    v_payment_status := 'partial';
+  END IF;
+
+  -- Create order
+  INSERT INTO public.orders (
+    store_id,
+    customer_id,
+    subtotal,
+    tax,
+    discount,
+    total_amount,
+    paid_amount,
+    balance,
+    payment_status,
+    order_status,
+    created_by,
+    notes,
+    client_reference,
+    provisional_order_number
+  ) VALUES (
+    p_store_id,
+    p_customer_id,
+    v_subtotal,
+    0,
+    0,
+    v_subtotal,
+    v_paid,
+    v_subtotal - v_paid,
+    v_payment_status,
+    'pending',
+    v_user_id,
+    p_notes,
+    p_client_reference,
+    p_provisional_order_number
+  )
+  RETURNING * INTO v_order;
+
+  -- Create order items and deduct inventory for products
+  FOR v_item IN
+    SELECT *
+    FROM jsonb_to_recordset(p_items) AS x(
+      item_type TEXT,
+      service_id UUID,
+      inventory_item_id UUID,
+      name TEXT,
+      quantity NUMERIC,
+      unit_price NUMERIC
+    )
+  LOOP
+    IF v_item.quantity IS NULL OR v_item.quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for item %', v_item.name USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO public.order_items (
+      order_id,
+      service_id,
+      inventory_item_id,
+      item_type,
+      service_name,
+      quantity,
+      unit_price,
+      total_price
+    ) VALUES (
+      v_order.id,
+      CASE WHEN v_item.item_type = 'service' THEN v_item.service_id ELSE NULL END,
+      CASE WHEN v_item.item_type = 'product' THEN v_item.inventory_item_id ELSE NULL END,
+      v_item.item_type,
+      v_item.name,
+      v_item.quantity,
+      v_item.unit_price,
+      v_item.quantity * v_item.unit_price
+    );
+
+    IF v_item.item_type = 'product' AND v_item.inventory_item_id IS NOT NULL THEN
+      -- Lock the inventory row so concurrent checkouts cannot oversell
+      SELECT current_stock
+      INTO v_previous_stock
+      FROM public.inventory_items
+      WHERE id = v_item.inventory_item_id
+        AND store_id = p_store_id
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Inventory item % not found in store', v_item.name USING ERRCODE = 'P0002';
+      END IF;
+
+      IF v_previous_stock < v_item.quantity AND v_oversell_policy IS DISTINCT FROM 'warn' THEN
+        RAISE EXCEPTION 'Insufficient stock for %: % available', v_item.name, v_previous_stock USING ERRCODE = 'P0001';
+      END IF;
+
+      UPDATE public.inventory_items
+      SET current_stock = v_previous_stock - v_item.quantity,
+          updated_at = NOW()
+      WHERE id = v_item.inventory_item_id;
+
+      INSERT INTO public.inventory_transactions (
+        store_id,
+        inventory_item_id,
+        transaction_type,
+        quantity,
+        previous_stock,
+        new_stock,
+        notes,
+        created_by,
+        order_id
+      ) VALUES (
+        p_store_id,
+        v_item.inventory_item_id,
+        'usage',
+        -v_item.quantity,
+        v_previous_stock,
+        v_previous_stock - v_item.quantity,
+        'Sold in order ' || v_order.order_number,
+        v_user_id,
+        v_order.id
+      );
+    END IF;
+  END LOOP;
+
+  -- Record initial payment
+  IF v_paid > 0 THEN
+    INSERT INTO public.payments (
+      order_id,
+      amount,
+      payment_method,
+      payment_method_id,
+      card_number,
+      reference_number,
+      received_by,
+      notes,
+      client_reference
+    ) VALUES (
+      v_order.id,
+      v_paid,
+      p_payment->>'payment_method',
+      NULLIF(p_payment->>'payment_method_id', '')::UUID,
+      NULLIF(p_payment->>'card_number', ''),
+      NULLIF(p_payment->>'reference_number', ''),
+      v_user_id,
+      p_payment->>'notes',
+      NULLIF(p_payment->>'client_reference', '')::UUID
+    );
+  END IF;
+
+  -- Return the final state of the order
+  SELECT * INTO v_order FROM public.orders WHERE id = v_order.id;
+  RETURN v_order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_order_with_items(UUID, UUID, JSONB, JSONB, TEXT, UUID, VARCHAR) TO authenticated;
+
+COMMENT ON FUNCTION public.create_order_with_items(UUID, UUID, JSONB, JSONB, TEXT, UUID, VARCHAR) IS 'Atomically creates an order with its items, initial payment and inventory deductions. Any failure rolls back the whole order. Replays with the same client reference return the existing order. Overselling is blocked unless the store oversell_policy is warn.';
+
+-- Restore stock deducted by an order.
+-- Returns the net quantity of each product still deducted for the order, so calling it twice
+-- never restocks the same sale twice.
+CREATE OR REPLACE FUNCTION public.restore_order_inventory(
+  p_order_id UUID,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_order public.orders;
+  v_usage RECORD;
+  v_previous_stock NUMERIC;
+  v_restored INTEGER := 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Net stock movement per item for this order (usage is negative, returns positive)
+  FOR v_usage IN
+    SELECT inventory_item_id, SUM(quantity) AS net_quantity
+    FROM public.inventory_transactions
+    WHERE order_id = p_order_id
+      AND transaction_type IN ('usage', 'return')
+    GROUP BY inventory_item_id
+    HAVING SUM(quantity) < 0
+  LOOP
+    SELECT current_stock
+    INTO v_previous_stock
+    FROM public.inventory_items
+    WHERE id = v_usage.inventory_item_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      CONTINUE;
+    END IF;
+
+    UPDATE public.inventory_items
+    SET current_stock = v_previous_stock - v_usage.net_quantity,
+        updated_at = NOW()
+    WHERE id = v_usage.inventory_item_id;
+
+    INSERT INTO public.inventory_transactions (
+      store_id,
+      inventory_item_id,
+      transaction_type,
+      quantity,
+      previous_stock,
+      new_stock,
+      notes,
+      created_by,
+      order_id
+    ) VALUES (
+      v_order.store_id,
+      v_usage.inventory_item_id,
+      'return',
+      -v_usage.net_quantity,
+      v_previous_stock,
+      v_previous_stock - v_usage.net_quantity,
+      'Restocked from cancelled order ' || v_order.order_number || COALESCE(': ' || p_reason, ''),
+      v_user_id,
+      p_order_id
+    );
+
+    v_restored := v_restored + 1;
+  END LOOP;
+
+  RETURN v_restored;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.restore_order_inventory(UUID, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.restore_order_inventory(UUID, TEXT) IS 'Returns stock deducted by an order back to inventory. Safe to call more than once. Returns the number of items restocked.';
@@ -0,0 +1,243 @@
+-- Migration: Add offline sync support
+-- Orders and payments captured while a device is offline are replayed from the device outbox
+-- once connectivity returns. Each queued entry carries a client-generated reference so that a
+-- replay after a dropped response never creates the same order or payment twice.
+
+-- Add client_reference column to orders (idempotency key from the device outbox)
+ALTER TABLE public.orders
+ADD COLUMN IF NOT EXISTS client_reference UUID NULL;
+
+-- Add provisional_order_number column to orders (number printed on offline claim stubs)
+ALTER TABLE public.orders
+ADD COLUMN IF NOT EXISTS provisional_order_number VARCHAR(50) NULL;
+
+-- Add client_reference column to payments
+ALTER TABLE public.payments
+ADD COLUMN IF NOT EXISTS client_reference UUID NULL;
+
+-- Unique indexes make replays idempotent
+CREATE UNIQUE INDEX IF NOT EXISTS idx_orders_client_reference
+ON public.orders(client_reference)
+WHERE client_reference IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payments_client_reference
+ON public.payments(client_reference)
+WHERE client_reference IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_orders_provisional_order_number
+ON public.orders(provisional_order_number)
+WHERE provisional_order_number IS NOT NULL;
+
+COMMENT ON COLUMN public.orders.client_reference IS 'Client-generated idempotency key for orders created from the offline outbox';
+COMMENT ON COLUMN public.orders.provisional_order_number IS 'Provisional order number printed on the claim stub while the order was offline';
+COMMENT ON COLUMN public.payments.client_reference IS 'Client-generated idempotency key for payments recorded from the offline outbox';
+
+-- Recreate create_order_with_items with idempotency support.
+-- When p_client_reference matches an existing order, that order is returned unchanged.
+DROP FUNCTION IF EXISTS public.create_order_with_items(UUID, UUID, JSONB, JSONB, TEXT);
+
+CREATE OR REPLACE FUNCTION public.create_order_with_items(
+  p_store_id UUID,
+  p_customer_id UUID,
+  p_items JSONB,
+  p_payment JSONB DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_client_reference UUID DEFAULT NULL,
+  p_provisional_order_number VARCHAR(50) DEFAULT NULL
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_order public.orders;
+  v_item RECORD;
+  v_subtotal NUMERIC(10, 2) := 0;
+  v_paid NUMERIC(10, 2) := 0;
+  v_payment_status VARCHAR(20) := 'unpaid';
+  v_previous_stock NUMERIC;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  -- Replay of an order that was already created: return it as-is
+  IF p_client_reference IS NOT NULL THEN
+    SELECT * INTO v_order FROM public.orders WHERE client_reference = p_client_reference;
+    IF FOUND THEN
+      RETURN v_order;
+    END IF;
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item' USING ERRCODE = '22023';
+  END IF;
+
+  -- Compute totals server-side from the submitted items
+  SELECT COALESCE(SUM((item->>'quantity')::NUMERIC * (item->>'unit_price')::NUMERIC), 0)
+  INTO v_subtotal
+  FROM jsonb_array_elements(p_items) AS item;
+
+  IF p_payment IS NOT NULL THEN
+    v_paid := COALESCE((p_payment->>'amount')::NUMERIC, 0);
+  END IF;
+
+  IF v_paid < 0 OR v_paid > v_subtotal THEN
+    RAISE EXCEPTION 'Invalid payment amount: %', v_paid USING ERRCODE = '22023';
+  END IF;
+
+  IF v_paid > 0 AND v_paid = v_subtotal THEN
+    v_payment_status := 'paid';
+  ELSIF v_paid > 0 THEN
+    v_payment_status := 'partial';
+  END IF;
+
+  -- Create order
+  INSERT INTO public.orders (
+    store_id,
+    customer_id,
+    subtotal,
+    tax,
+    discount,
+    total_amount,
+    paid_amount,
+    balance,
+    payment_status,
+    order_status,
+    created_by,
+    notes,
+    client_reference,
+    provisional_order_number
+  ) VALUES (
+    p_store_id,
+    p_customer_id,
+    v_subtotal,
+    0,
+    0,
+    v_subtotal,
+    v_paid,
+    v_subtotal - v_paid,
+    v_payment_status,
+    'pending',
+    v_user_id,
+    p_notes,
+    p_client_reference,
+    p_provisional_order_number
+  )
+  RETURNING * INTO v_order;
+
+  -- Create order items and deduct inventory for products
+  FOR v_item IN
+    SELECT *
+    FROM jsonb_to_recordset(p_items) AS x(
+      item_type TEXT,
+      service_id UUID,
+      inventory_item_id UUID,
+      name TEXT,
+      quantity NUMERIC,
+      unit_price NUMERIC
+    )
+  LOOP
+    IF v_item.quantity IS NULL OR v_item.quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for item %', v_item.name USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO public.order_items (
+      order_id,
+      service_id,
+      inventory_item_id,
+      item_type,
+      service_name,
+      quantity,
+      unit_price,
+      total_price
+    ) VALUES (
+      v_order.id,
+      CASE WHEN v_item.item_type = 'service' THEN v_item.service_id ELSE NULL END,
+      CASE WHEN v_item.item_type = 'product' THEN v_item.inventory_item_id ELSE NULL END,
+      v_item.item_type,
+      v_item.name,
+      v_item.quantity,
+      v_item.unit_price,
+      v_item.quantity * v_item.unit_price
+    );
+
+    IF v_item.item_type = 'product' AND v_item.inventory_item_id IS NOT NULL THEN
+      -- Lock the inventory row so concurrent checkouts cannot oversell
+      SELECT current_stock
+      INTO v_previous_stock
+      FROM public.inventory_items
+      WHERE id = v_item.inventory_item_id
+        AND store_id = p_store_id
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Inventory item % not found in store', v_item.name USING ERRCODE = 'P0002';
+      END IF;
+
+      IF v_previous_stock < v_item.quantity THEN
+        RAISE EXCEPTION 'Insufficient stock for %: % available', v_item.name, v_previous_stock USING ERRCODE = 'P0001';
+      END IF;
+
+      UPDATE public.inventory_items
+      SET current_stock = v_previous_stock - v_item.quantity,
+          updated_at = NOW()
+      WHERE id = v_item.inventory_item_id;
+
+      INSERT INTO public.inventory_transactions (
+        store_id,
+        inventory_item_id,
+        transaction_type,
+        quantity,
+        previous_stock,
+        new_stock,
+        notes,
+        created_by
+      ) VALUES (
+        p_store_id,
+        v_item.inventory_item_id,
+        'usage',
+        -v_item.quantity,
+        v_previous_stock,
+        v_previous_stock - v_item.quantity,
+        'Sold in order ' || v_order.order_number,
+        v_user_id
+      );
+    END IF;
+  END LOOP;
+
+  -- Record initial payment
+  IF v_paid > 0 THEN
+    INSERT INTO public.payments (
+      order_id,
+      amount,
+      payment_method,
+      payment_method_id,
+      card_number,
+      reference_number,
+      received_by,
+      notes,
+      client_reference
+    ) VALUES (
+      v_order.id,
+      v_paid,
+      p_payment->>'payment_method',
+      NULLIF(p_payment->>'payment_method_id', '')::UUID,
+      NULLIF(p_payment->>'card_number', ''),
+      NULLIF(p_payment->>'reference_number', ''),
+      v_user_id,
+      p_payment->>'notes',
+      NULLIF(p_payment->>'client_reference', '')::UUID
+    );
+  END IF;
+
+  -- Return the final state of the order
+  SELECT * INTO v_order FROM public.orders WHERE id = v_order.id;
+  RETURN v_order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_order_with_items(UUID, UUID, JSONB, JSONB, TEXT, UUID, VARCHAR) TO authenticated;
+
+COMMENT ON FUNCTION public.create_order_with_items(UUID, UUID, JSONB, JSONB, TEXT, UUID, VARCHAR) IS 'Atomically creates an order with its items, initial payment and inventory deductions. Any failure rolls back the whole order. Replays with the same client reference return the existing order.';
@@ -0,0 +1,350 @@
+-- Migration: Soft-cancel orders
+-- Cancelling an order used to copy a few fields into cancelled_orders and delete the
+-- order, losing its items, payments and place in reports. Orders now stay in the orders
+-- table with order_status = 'cancelled'. cancelled_orders becomes the audit trail of
+-- each cancellation (who, when, why, the status it was cancelled from and what is owed
+-- back), and a store manager can un-cancel an order within
+-- settings.uncancel_window_hours (default 24) of its cancellation.
+
+-- Cancellation details on the order itself
+ALTER TABLE public.orders
+ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMP WITH TIME ZONE NULL,
+ADD COLUMN IF NOT EXISTS cancelled_by UUID NULL REFERENCES auth.users(id),
+ADD COLUMN IF NOT EXISTS cancellation_reason TEXT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_orders_store_status
+ON public.orders(store_id, order_status);
+
+COMMENT ON COLUMN public.orders.cancelled_at IS 'When the order was cancelled; cleared when it is un-cancelled';
+COMMENT ON COLUMN public.orders.cancelled_by IS 'User who cancelled the order';
+COMMENT ON COLUMN public.orders.cancellation_reason IS 'Reason given for the cancellation';
+
+-- An order can be cancelled again after being un-cancelled, so keep one record per
+-- cancellation and only one open cancellation per order
+ALTER TABLE public.cancelled_orders
+ADD COLUMN IF NOT EXISTS uncancelled_at TIMESTAMP WITH TIME ZONE NULL,
+ADD COLUMN IF NOT EXISTS uncancelled_by UUID NULL REFERENCES auth.users(id),
+ADD COLUMN IF NOT EXISTS uncancel_approved_by UUID NULL REFERENCES auth.users(id);
+
+ALTER TABLE public.cancelled_orders
+DROP CONSTRAINT IF EXISTS cancelled_orders_order_id_unique;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cancelled_orders_open_order_id
+ON public.cancelled_orders(order_id)
+WHERE uncancelled_at IS NULL;
+
+COMMENT ON TABLE public.cancelled_orders IS 'One record per order cancellation, for auditing and refund processing. The order itself stays in orders with order_status cancelled.';
+COMMENT ON COLUMN public.cancelled_orders.order_status IS 'Status the order was cancelled from; restored when it is un-cancelled';
+COMMENT ON COLUMN public.cancelled_orders.uncancelled_at IS 'When the cancellation was undone; NULL while the order is cancelled';
+COMMENT ON COLUMN public.cancelled_orders.uncancelled_by IS 'User who un-cancelled the order';
+COMMENT ON COLUMN public.cancelled_orders.uncancel_approved_by IS 'Store manager who approved un-cancelling the order';
+COMMENT ON COLUMN public.refunds.payment_id IS 'Payment being refunded; for orders cancelled before they were kept it refers to the payments snapshot in cancelled_orders.metadata';
+
+-- Bring back orders deleted by earlier cancellations so they can be listed by status.
+-- Their items and payments were deleted with them, so only the totals remain.
+INSERT INTO public.orders (
+  id,
+  store_id,
+  order_number,
+  customer_id,
+  subtotal,
+  tax,
+  discount,
+  total_amount,
+  paid_amount,
+  balance,
+  payment_status,
+  order_status,
+  order_date,
+  created_by,
+  notes,
+  cancelled_at,
+  cancelled_by,
+  cancellation_reason
+)
+SELECT
+  co.order_id,
+  co.store_id,
+  co.order_number,
+  co.customer_id,
+  co.total_amount,
+  0,
+  0,
+  co.total_amount,
+  co.paid_amount,
+  co.balance,
+  co.payment_status,
+  'cancelled',
+  co.cancelled_at,
+  co.cancelled_by,
+  co.notes,
+  co.cancelled_at,
+  co.cancelled_by,
+  co.cancellation_reason
+FROM public.cancelled_orders co
+WHERE co.uncancelled_at IS NULL
+  AND NOT EXISTS (SELECT 1 FROM public.orders o WHERE o.id = co.order_id)
+ON CONFLICT (id) DO NOTHING;
+
+-- Cancel an order: restock its products, reverse its loyalty points and record the
+-- cancellation, keeping the order, its items and payments. Completed orders cannot be
+-- cancelled. The paid amount not yet refunded is owed back to the customer.
+CREATE OR REPLACE FUNCTION public.cancel_order(
+  p_order_id UUID,
+  p_reason TEXT,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS cancelled_orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders;
+  v_reason TEXT := NULLIF(TRIM(p_reason), '');
+  v_refund NUMERIC(10, 2);
+  v_cancelled cancelled_orders;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF v_reason IS NULL THEN
+    RAISE EXCEPTION 'A cancellation reason is required' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM user_store_assignments usa
+    WHERE usa.store_id = v_order.store_id
+    AND usa.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Access denied to this store' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_order.order_status = 'cancelled' THEN
+    RAISE EXCEPTION 'Order % is already cancelled', v_order.order_number USING ERRCODE = '22023';
+  END IF;
+
+  IF v_order.order_status = 'completed' THEN
+    RAISE EXCEPTION 'Completed orders cannot be cancelled' USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM public.restore_order_inventory(p_order_id, v_reason);
+  PERFORM public.reverse_order_loyalty_points(p_order_id, v_reason);
+
+  v_refund := GREATEST(v_order.paid_amount - v_order.refunded_amount, 0);
+
+  INSERT INTO cancelled_orders (
+    order_id,
+    store_id,
+    order_number,
+    customer_id,
+    cancellation_reason,
+    cancelled_by,
+    total_amount,
+    paid_amount,
+    balance,
+    payment_status,
+    order_status,
+    refund_required,
+    refund_amount,
+    notes
+  ) VALUES (
+    v_order.id,
+    v_order.store_id,
+    v_order.order_number,
+    v_order.customer_id,
+    v_reason,
+    auth.uid(),
+    v_order.total_amount,
+    v_order.paid_amount,
+    v_order.balance,
+    v_order.payment_status,
+    v_order.order_status,
+    v_refund > 0,
+    v_refund,
+    NULLIF(TRIM(p_notes), '')
+  )
+  RETURNING * INTO v_cancelled;
+
+  UPDATE orders
+  SET
+    order_status = 'cancelled',
+    cancelled_at = v_cancelled.cancelled_at,
+    cancelled_by = auth.uid(),
+    cancellation_reason = v_reason,
+    updated_at = NOW()
+  WHERE id = p_order_id;
+
+  RETURN v_cancelled;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.cancel_order(UUID, TEXT, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.cancel_order(UUID, TEXT, TEXT) IS 'Cancels an order in one transaction: restocks its products, reverses its loyalty points, records the cancellation and marks the order cancelled. The order, items and payments are kept.';
+
+-- Undo a cancellation within the store's un-cancel window. The order goes back to the
+-- status it was cancelled from, its products are taken out of stock again and its
+-- loyalty points are reinstated. Orders with refunds already given cannot be un-cancelled.
+-- Staff who are not managers pass the approval issued by verify_manager_pin.
+DROP FUNCTION IF EXISTS public.uncancel_order(UUID, UUID);
+CREATE OR REPLACE FUNCTION public.uncancel_order(
+  p_order_id UUID,
+  p_approval_id UUID DEFAULT NULL
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders;
+  v_cancelled cancelled_orders;
+  v_approved_by UUID;
+  v_window_hours INTEGER;
+  v_usage RECORD;
+  v_previous_stock NUMERIC;
+  v_entry RECORD;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM user_store_assignments usa
+    WHERE usa.store_id = v_order.store_id
+    AND usa.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Access denied to this store' USING ERRCODE = '42501';
+  END IF;
+
+  v_approved_by := public.use_manager_approval(v_order.store_id, p_approval_id);
+
+  IF v_order.order_status <> 'cancelled' THEN
+    RAISE EXCEPTION 'Order % is not cancelled', v_order.order_number USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_cancelled
+  FROM cancelled_orders
+  WHERE order_id = p_order_id
+    AND uncancelled_at IS NULL
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cancellation record not found for order %', v_order.order_number USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT COALESCE((settings->>'uncancel_window_hours')::INTEGER, 24)
+  INTO v_window_hours
+  FROM stores
+  WHERE id = v_order.store_id;
+
+  IF v_cancelled.cancelled_at + make_interval(hours => v_window_hours) < NOW() THEN
+    RAISE EXCEPTION 'Orders can only be un-cancelled within % hours of cancellation', v_window_hours USING ERRCODE = '22023';
+  END IF;
+
+  IF v_cancelled.refunded_amount > 0 THEN
+    RAISE EXCEPTION 'Order % has refunds and cannot be un-cancelled', v_order.order_number USING ERRCODE = '22023';
+  END IF;
+
+  -- Take out of stock again what the cancellation put back
+  FOR v_usage IN
+    SELECT inventory_item_id, SUM(quantity) AS restocked
+    FROM inventory_transactions
+    WHERE order_id = p_order_id
+      AND transaction_type = 'return'
+      AND created_at >= v_cancelled.cancelled_at
+    GROUP BY inventory_item_id
+    HAVING SUM(quantity) > 0
+  LOOP
+    SELECT current_stock
+    INTO v_previous_stock
+    FROM inventory_items
+    WHERE id = v_usage.inventory_item_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      CONTINUE;
+    END IF;
+
+    UPDATE inventory_items
+    SET current_stock = v_previous_stock - v_usage.restocked,
+        updated_at = NOW()
+    WHERE id = v_usage.inventory_item_id;
+
+    INSERT INTO inventory_transactions (
+      store_id,
+      inventory_item_id,
+      transaction_type,
+      quantity,
+      previous_stock,
+      new_stock,
+      notes,
+      created_by,
+      order_id
+    ) VALUES (
+      v_order.store_id,
+      v_usage.inventory_item_id,
+      'usage',
+      -v_usage.restocked,
+      v_previous_stock,
+      v_previous_stock - v_usage.restocked,
+      'Order ' || v_order.order_number || ' un-cancelled',
+      auth.uid(),
+      p_order_id
+    );
+  END LOOP;
+
+  -- Reinstate the points the cancellation reversed
+  FOR v_entry IN
+    SELECT store_id, customer_id, SUM(points) AS reversed_points
+    FROM loyalty_points_ledger
+    WHERE order_id = p_order_id
+      AND entry_type = 'reversal'
+      AND created_at >= v_cancelled.cancelled_at
+    GROUP BY store_id, customer_id
+    HAVING SUM(points) <> 0
+  LOOP
+    PERFORM public.post_loyalty_points(
+      v_entry.store_id, v_entry.customer_id, p_order_id, NULL, 'reversal', -v_entry.reversed_points::INTEGER, NULL,
+      'Order ' || v_order.order_number || ' un-cancelled'
+    );
+  END LOOP;
+
+  -- Nothing is owed back once the order is live again
+  UPDATE cancelled_orders
+  SET
+    uncancelled_at = NOW(),
+    uncancelled_by = auth.uid(),
+    uncancel_approved_by = v_approved_by,
+    refund_required = false,
+    refund_amount = 0
+  WHERE id = v_cancelled.id;
+
+  UPDATE orders
+  SET
+    order_status = v_cancelled.order_status,
+    cancelled_at = NULL,
+    cancelled_by = NULL,
+    cancellation_reason = NULL,
+    updated_at = NOW()
+  WHERE id = p_order_id
+  RETURNING * INTO v_order;
+
+  RETURN v_order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.uncancel_order(UUID, UUID) TO authenticated;
+
+COMMENT ON FUNCTION public.uncancel_order(UUID, UUID) IS 'Restores a cancelled order to the status it was cancelled from, within the store uncancel_window_hours (default 24). Needs a store manager or a single-use manager approval; orders with refunds cannot be un-cancelled.';
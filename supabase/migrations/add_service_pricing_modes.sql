@@ -0,0 +1,327 @@
+-- Migration: Add weight-based pricing to services
+-- Services can be priced per piece (default), per kilo or per load. Weighed services have a
+-- minimum billable weight, a rounding increment and, for per-load pricing, a load cap.
+-- Order items keep the measured weight and pricing mode so receipts and reports can show them.
+
+-- Add pricing columns to services
+ALTER TABLE public.services
+ADD COLUMN IF NOT EXISTS pricing_mode VARCHAR(20) NOT NULL DEFAULT 'per_piece';
+
+ALTER TABLE public.services
+ADD COLUMN IF NOT EXISTS min_weight NUMERIC(10, 2) NULL;
+
+ALTER TABLE public.services
+ADD COLUMN IF NOT EXISTS weight_rounding NUMERIC(10, 2) NULL;
+
+ALTER TABLE public.services
+ADD COLUMN IF NOT EXISTS max_weight_per_load NUMERIC(10, 2) NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'services_pricing_mode_check'
+  ) THEN
+    ALTER TABLE public.services
+    ADD CONSTRAINT services_pricing_mode_check CHECK (pricing_mode IN ('per_piece', 'per_kilo', 'per_load'));
+  END IF;
+END $$;
+
+COMMENT ON COLUMN public.services.pricing_mode IS 'How the service is charged: per_piece, per_kilo or per_load';
+COMMENT ON COLUMN public.services.min_weight IS 'Minimum billable weight in kg for weighed services';
+COMMENT ON COLUMN public.services.weight_rounding IS 'Weight is rounded up to this increment in kg (e.g. 0.5)';
+COMMENT ON COLUMN public.services.max_weight_per_load IS 'Maximum kg per load for per_load services (e.g. 8)';
+
+-- Allow decimal quantities on order items (kg for per-kilo services)
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+      AND table_name = 'order_items'
+      AND column_name = 'quantity'
+      AND data_type IN ('integer', 'smallint', 'bigint')
+  ) THEN
+    ALTER TABLE public.order_items ALTER COLUMN quantity TYPE NUMERIC(10, 2);
+  END IF;
+END $$;
+
+-- Add pricing details to order items
+ALTER TABLE public.order_items
+ADD COLUMN IF NOT EXISTS pricing_mode VARCHAR(20) NOT NULL DEFAULT 'per_piece';
+
+ALTER TABLE public.order_items
+ADD COLUMN IF NOT EXISTS weight NUMERIC(10, 2) NULL;
+
+COMMENT ON COLUMN public.order_items.pricing_mode IS 'Pricing mode of the service when sold: per_piece, per_kilo or per_load';
+COMMENT ON COLUMN public.order_items.weight IS 'Measured weight in kg for weighed services. quantity holds the billable kg or number of loads';
+
+-- Recreate create_order_with_items to store pricing mode and weight per item
+CREATE OR REPLACE FUNCTION public.create_order_with_items(
+  p_store_id UUID,
+  p_customer_id UUID,
+  p_items JSONB,
+  p_payment JSONB DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_client_reference UUID DEFAULT NULL,
+  p_provisional_order_number VARCHAR(50) DEFAULT NULL
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_order public.orders;
+  v_item RECORD;
+  v_subtotal NUMERIC(10, 2) := 0;
+  v_paid NUMERIC(10, 2) := 0;
+  v_payment_status VARCHAR(20) := 'unpaid';
+  v_previous_stock NUMERIC;
+  v_oversell_policy TEXT;
+  v_supply RECORD;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  -- Replay of an order that was already created: return it as-is
+  IF p_client_reference IS NOT NULL THEN
+    SELECT * INTO v_order FROM public.orders WHERE client_reference = p_client_reference;
+    IF FOUND THEN
+      RETURN v_order;
+    END IF;
+  END IF;
+
+  SELECT COALESCE(settings->>'oversell_policy', 'block')
+  INTO v_oversell_policy
+  FROM public.stores
+  WHERE id = p_store_id;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item' USING ERRCODE = '22023';
+  END IF;
+
+  -- Compute totals server-side from the submitted items
+  SELECT COALESCE(SUM(ROUND((item->>'quantity')::NUMERIC * (item->>'unit_price')::NUMERIC, 2)), 0)
+  INTO v_subtotal
+  FROM jsonb_array_elements(p_items) AS item;
+
+  IF p_payment IS NOT NULL THEN
+    v_paid := COALESCE((p_payment->>'amount')::NUMERIC, 0);
+  END IF;
+
+  IF v_paid < 0 OR v_paid > v_subtotal THEN
+    RAISE EXCEPTION 'Invalid payment amount: %', v_paid USING ERRCODE = '22023';
+  END IF;
+
+  IF v_paid > 0 AND v_paid = v_subtotal THEN
+    v_payment_status := 'paid';
+  ELSIF v_paid > 0 THEN
+    v_payment_status := 'partial';
+  END IF;
+
+  -- Create order
+  INSERT INTO public.orders (
+    store_id,
+    customer_id,
+    subtotal,
+    tax,
+    discount,
+    total_amount,
+    paid_amount,
+    balance,
+    payment_status,
+    order_status,
+    created_by,
+    notes,
+    client_reference,
+    provisional_order_number
+  ) VALUES (
+    p_store_id,
+    p_customer_id,
+    v_subtotal,
+    0,
+    0,
+    v_subtotal,
+    v_paid,
+    v_subtotal - v_paid,
+    v_payment_status,
+    'pending',
+    v_user_id,
+    p_notes,
+    p_client_reference,
+    p_provisional_order_number
+  )
+  RETURNING * INTO v_order;
+
+  -- Create order items and deduct inventory for products
+  FOR v_item IN
+    SELECT *
+    FROM jsonb_to_recordset(p_items) AS x(
+      item_type TEXT,
+      service_id UUID,
+      inventory_item_id UUID,
+      name TEXT,
+      quantity NUMERIC,
+      unit_price NUMERIC,
+      pricing_mode TEXT,
+      weight NUMERIC
+    )
+  LOOP
+    IF v_item.quantity IS NULL OR v_item.quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for item %', v_item.name USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO public.order_items (
+      order_id,
+      service_id,
+      inventory_item_id,
+      item_type,
+      service_name,
+      quantity,
+      unit_price,
+      total_price,
+      pricing_mode,
+      weight
+    ) VALUES (
+      v_order.id,
+      CASE WHEN v_item.item_type = 'service' THEN v_item.service_id ELSE NULL END,
+      CASE WHEN v_item.item_type = 'product' THEN v_item.inventory_item_id ELSE NULL END,
+      v_item.item_type,
+      v_item.name,
+      v_item.quantity,
+      v_item.unit_price,
+      ROUND(v_item.quantity * v_item.unit_price, 2),
+      COALESCE(v_item.pricing_mode, 'per_piece'),
+      v_item.weight
+    );
+
+    -- Consume supplies declared in the service recipe. Supply usage never blocks an order;
+    -- stock may go negative until the next purchase or count adjustment.
+    IF v_item.item_type = 'service' AND v_item.service_id IS NOT NULL THEN
+      FOR v_supply IN
+        SELECT ss.inventory_item_id, ss.quantity_per_unit * v_item.quantity AS quantity
+        FROM public.service_supplies ss
+        WHERE ss.service_id = v_item.service_id
+          AND ss.store_id = p_store_id
+      LOOP
+        SELECT current_stock
+        INTO v_previous_stock
+        FROM public.inventory_items
+        WHERE id = v_supply.inventory_item_id
+          AND store_id = p_store_id
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+          CONTINUE;
+        END IF;
+
+        UPDATE public.inventory_items
+        SET current_stock = v_previous_stock - v_supply.quantity,
+            updated_at = NOW()
+        WHERE id = v_supply.inventory_item_id;
+
+        INSERT INTO public.inventory_transactions (
+          store_id,
+          inventory_item_id,
+          transaction_type,
+          quantity,
+          previous_stock,
+          new_stock,
+          notes,
+          created_by,
+          order_id
+        ) VALUES (
+          p_store_id,
+          v_supply.inventory_item_id,
+          'usage',
+          -v_supply.quantity,
+          v_previous_stock,
+          v_previous_stock - v_supply.quantity,
+          'Used for ' || v_item.name || ' in order ' || v_order.order_number,
+          v_user_id,
+          v_order.id
+        );
+      END LOOP;
+    END IF;
+
+    IF v_item.item_type = 'product' AND v_item.inventory_item_id IS NOT NULL THEN
+      -- Lock the inventory row so concurrent checkouts cannot oversell
+      SELECT current_stock
+      INTO v_previous_stock
+      FROM public.inventory_items
+      WHERE id = v_item.inventory_item_id
+        AND store_id = p_store_id
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Inventory item % not found in store', v_item.name USING ERRCODE = 'P0002';
+      END IF;
+
+      IF v_previous_stock < v_item.quantity AND v_oversell_policy IS DISTINCT FROM 'warn' THEN
+        RAISE EXCEPTION 'Insufficient stock for %: % available', v_item.name, v_previous_stock USING ERRCODE = 'P0001';
+      END IF;
+
+      UPDATE public.inventory_items
+      SET current_stock = v_previous_stock - v_item.quantity,
+          updated_at = NOW()
+      WHERE id = v_item.inventory_item_id;
+
+      INSERT INTO public.inventory_transactions (
+        store_id,
+        inventory_item_id,
+        transaction_type,
+        quantity,
+        previous_stock,
+        new_stock,
+        notes,
+        created_by,
+        order_id
+      ) VALUES (
+        p_store_id,
+        v_item.inventory_item_id,
+        'usage',
+        -v_item.quantity,
+        v_previous_stock,
+        v_previous_stock - v_item.quantity,
+        'Sold in order ' || v_order.order_number,
+        v_user_id,
+        v_order.id
+      );
+    END IF;
+  END LOOP;
+
+  -- Record initial payment
+  IF v_paid > 0 THEN
+    INSERT INTO public.payments (
+      order_id,
+      amount,
+      payment_method,
+      payment_method_id,
+      card_number,
+      reference_number,
+      received_by,
+      notes,
+      client_reference
+    ) VALUES (
+      v_order.id,
+      v_paid,
+      p_payment->>'payment_method',
+      NULLIF(p_payment->>'payment_method_id', '')::UUID,
+      NULLIF(p_payment->>'card_number', ''),
+      NULLIF(p_payment->>'reference_number', ''),
+      v_user_id,
+      p_payment->>'notes',
+      NULLIF(p_payment->>'client_reference', '')::UUID
+    );
+  END IF;
+
+  -- Return the final state of the order
+  SELECT * INTO v_order FROM public.orders WHERE id = v_order.id;
+  RETURN v_order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_order_with_items(UUID, UUID, JSONB, JSONB, TEXT, UUID, VARCHAR) TO authenticated;
+
+COMMENT ON FUNCTION public.create_order_with_items(UUID, UUID, JSONB, JSONB, TEXT, UUID, VARCHAR) IS 'Atomically creates an order with its items, initial payment, product and supply inventory deductions. Any failure rolls back the whole order. Replays with the same client reference return the existing order. Overselling is blocked unless the store oversell_policy is warn.';
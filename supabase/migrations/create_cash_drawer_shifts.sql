@@ -0,0 +1,399 @@
+-- Migration: Create cash drawer shifts
+-- A cashier opens a shift with an opening float, records paid-in and paid-out cash with a
+-- reason, and closes the shift by counting the drawer. Every payment is tied to the open
+-- shift of the user who received it, so expected totals per payment method can be compared
+-- with the counted amounts and the variance is kept for managers to audit.
+
+CREATE TABLE IF NOT EXISTS cash_drawer_shifts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  store_id UUID NOT NULL REFERENCES stores(id) ON DELETE CASCADE,
+  status VARCHAR(10) NOT NULL DEFAULT 'open',
+  opening_float NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  opened_by UUID NOT NULL REFERENCES auth.users(id),
+  opened_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  closed_by UUID REFERENCES auth.users(id),
+  closed_at TIMESTAMP WITH TIME ZONE,
+  expected_cash NUMERIC(10, 2), -- Float + cash payments + paid-in - paid-out, set at close
+  counted_cash NUMERIC(10, 2),
+  cash_variance NUMERIC(10, 2), -- Counted minus expected; negative when cash is short
+  closing_counts JSONB, -- Expected, counted and variance per payment method
+  notes TEXT,
+
+  CONSTRAINT cash_drawer_shifts_status_check CHECK (status IN ('open', 'closed')),
+  CONSTRAINT cash_drawer_shifts_opening_float_check CHECK (opening_float >= 0)
+);
+
+-- One open shift per cashier per store
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cash_drawer_shifts_open
+ON cash_drawer_shifts(store_id, opened_by)
+WHERE status = 'open';
+
+CREATE INDEX IF NOT EXISTS idx_cash_drawer_shifts_store ON cash_drawer_shifts(store_id, opened_at DESC);
+
+CREATE TABLE IF NOT EXISTS cash_drawer_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shift_id UUID NOT NULL REFERENCES cash_drawer_shifts(id) ON DELETE CASCADE,
+  store_id UUID NOT NULL REFERENCES stores(id) ON DELETE CASCADE,
+  entry_type VARCHAR(10) NOT NULL,
+  amount NUMERIC(10, 2) NOT NULL,
+  reason TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+
+  CONSTRAINT cash_drawer_entries_entry_type_check CHECK (entry_type IN ('paid_in', 'paid_out')),
+  CONSTRAINT cash_drawer_entries_amount_check CHECK (amount > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_cash_drawer_entries_shift ON cash_drawer_entries(shift_id);
+
+-- Payments are tied to the shift that received them
+ALTER TABLE public.payments
+ADD COLUMN IF NOT EXISTS shift_id UUID NULL
+REFERENCES cash_drawer_shifts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_payments_shift ON public.payments(shift_id) WHERE shift_id IS NOT NULL;
+
+-- Enable RLS
+ALTER TABLE cash_drawer_shifts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cash_drawer_entries ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Allow authenticated users to read shifts and drawer entries for their assigned
+-- stores. Rows are only written by the functions below.
+DROP POLICY IF EXISTS "Allow authenticated users to read cash drawer shifts" ON cash_drawer_shifts;
+CREATE POLICY "Allow authenticated users to read cash drawer shifts"
+  ON cash_drawer_shifts
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_store_assignments usa
+      WHERE usa.store_id = cash_drawer_shifts.store_id
+      AND usa.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Allow authenticated users to read cash drawer entries" ON cash_drawer_entries;
+CREATE POLICY "Allow authenticated users to read cash drawer entries"
+  ON cash_drawer_entries
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_store_assignments usa
+      WHERE usa.store_id = cash_drawer_entries.store_id
+      AND usa.user_id = auth.uid()
+    )
+  );
+
+COMMENT ON TABLE cash_drawer_shifts IS 'Cashier shifts: opening float, and expected vs counted totals at close';
+COMMENT ON COLUMN cash_drawer_shifts.closing_counts IS 'Array of {payment_method, expected, counted, variance} recorded at close';
+COMMENT ON TABLE cash_drawer_entries IS 'Cash put into (paid_in) or taken out of (paid_out) the drawer during a shift';
+COMMENT ON COLUMN public.payments.shift_id IS 'Cash drawer shift of the user who received the payment; NULL when no shift was open';
+
+-- Attach new payments to the receiving user's open shift in the order's store
+CREATE OR REPLACE FUNCTION public.set_payment_shift()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.shift_id IS NULL THEN
+    SELECT s.id
+    INTO NEW.shift_id
+    FROM cash_drawer_shifts s
+    JOIN orders o ON o.store_id = s.store_id
+    WHERE o.id = NEW.order_id
+      AND s.opened_by = COALESCE(NEW.received_by, auth.uid())
+      AND s.status = 'open';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS payments_set_shift ON payments;
+CREATE TRIGGER payments_set_shift
+  BEFORE INSERT ON payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_payment_shift();
+
+-- Fail unless the caller may work with the shift: the cashier who opened it or a store manager
+CREATE OR REPLACE FUNCTION public.lock_cash_drawer_shift(p_shift_id UUID)
+RETURNS cash_drawer_shifts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_shift cash_drawer_shifts;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO v_shift FROM cash_drawer_shifts WHERE id = p_shift_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shift not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_shift.opened_by <> auth.uid() AND NOT public.is_store_manager(auth.uid(), v_shift.store_id) THEN
+    RAISE EXCEPTION 'Only the cashier who opened the shift or a store manager can do this' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN v_shift;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.lock_cash_drawer_shift(UUID) FROM PUBLIC;
+
+-- Open a shift for the current user
+CREATE OR REPLACE FUNCTION public.open_cash_drawer_shift(
+  p_store_id UUID,
+  p_opening_float NUMERIC
+)
+RETURNS cash_drawer_shifts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_shift cash_drawer_shifts;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM user_store_assignments usa
+    WHERE usa.store_id = p_store_id
+    AND usa.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Access denied to this store' USING ERRCODE = '42501';
+  END IF;
+
+  IF COALESCE(p_opening_float, 0) < 0 THEN
+    RAISE EXCEPTION 'Opening float cannot be negative' USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM cash_drawer_shifts
+    WHERE store_id = p_store_id AND opened_by = auth.uid() AND status = 'open'
+  ) THEN
+    RAISE EXCEPTION 'You already have an open shift in this store' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO cash_drawer_shifts (store_id, opening_float, opened_by)
+  VALUES (p_store_id, ROUND(COALESCE(p_opening_float, 0), 2), auth.uid())
+  RETURNING * INTO v_shift;
+
+  RETURN v_shift;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.open_cash_drawer_shift(UUID, NUMERIC) TO authenticated;
+
+-- Record cash put into or taken out of the drawer
+CREATE OR REPLACE FUNCTION public.add_cash_drawer_entry(
+  p_shift_id UUID,
+  p_entry_type VARCHAR,
+  p_amount NUMERIC,
+  p_reason TEXT
+)
+RETURNS cash_drawer_entries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_shift cash_drawer_shifts;
+  v_entry cash_drawer_entries;
+BEGIN
+  v_shift := public.lock_cash_drawer_shift(p_shift_id);
+
+  IF v_shift.status <> 'open' THEN
+    RAISE EXCEPTION 'Shift is already closed' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_entry_type NOT IN ('paid_in', 'paid_out') THEN
+    RAISE EXCEPTION 'Invalid entry type: %', p_entry_type USING ERRCODE = '22023';
+  END IF;
+
+  IF COALESCE(p_amount, 0) <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than zero' USING ERRCODE = '22023';
+  END IF;
+
+  IF NULLIF(TRIM(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO cash_drawer_entries (shift_id, store_id, entry_type, amount, reason, created_by)
+  VALUES (p_shift_id, v_shift.store_id, p_entry_type, ROUND(p_amount, 2), TRIM(p_reason), auth.uid())
+  RETURNING * INTO v_entry;
+
+  RETURN v_entry;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.add_cash_drawer_entry(UUID, VARCHAR, NUMERIC, TEXT) TO authenticated;
+
+-- Totals of a shift so far (X report): payments per method, paid-in/out and the cash
+-- expected in the drawer. Cancelled payments are left out.
+CREATE OR REPLACE FUNCTION public.get_cash_drawer_shift_summary(p_shift_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_shift cash_drawer_shifts;
+  v_methods JSONB;
+  v_cash_payments NUMERIC(10, 2);
+  v_change_given NUMERIC(10, 2);
+  v_paid_in NUMERIC(10, 2);
+  v_paid_out NUMERIC(10, 2);
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO v_shift FROM cash_drawer_shifts WHERE id = p_shift_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shift not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM user_store_assignments usa
+    WHERE usa.store_id = v_shift.store_id
+    AND usa.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Access denied to this store' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'payment_method', m.payment_method,
+    'count', m.payment_count,
+    'amount', m.amount
+  ) ORDER BY m.payment_method), '[]'::jsonb)
+  INTO v_methods
+  FROM (
+    SELECT payment_method, COUNT(*) AS payment_count, SUM(amount) AS amount
+    FROM payments
+    WHERE shift_id = p_shift_id AND COALESCE(is_cancelled, false) = false
+    GROUP BY payment_method
+  ) m;
+
+  SELECT COALESCE(SUM(amount), 0), COALESCE(SUM(change_given), 0)
+  INTO v_cash_payments, v_change_given
+  FROM payments
+  WHERE shift_id = p_shift_id AND COALESCE(is_cancelled, false) = false AND payment_method = 'cash';
+
+  SELECT
+    COALESCE(SUM(amount) FILTER (WHERE entry_type = 'paid_in'), 0),
+    COALESCE(SUM(amount) FILTER (WHERE entry_type = 'paid_out'), 0)
+  INTO v_paid_in, v_paid_out
+  FROM cash_drawer_entries
+  WHERE shift_id = p_shift_id;
+
+  RETURN jsonb_build_object(
+    'shift_id', v_shift.id,
+    'opening_float', v_shift.opening_float,
+    'payments', v_methods,
+    'cash_payments', v_cash_payments,
+    'change_given', v_change_given,
+    'paid_in', v_paid_in,
+    'paid_out', v_paid_out,
+    'expected_cash', v_shift.opening_float + v_cash_payments + v_paid_in - v_paid_out
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_cash_drawer_shift_summary(UUID) TO authenticated;
+
+-- Close a shift with the counted amounts per payment method, e.g. {"cash": 2450, "gcash": 800}.
+-- Expected cash is the float plus cash payments and paid-in, less paid-out; other methods are
+-- expected to match their payments. Methods that were not counted are recorded as 0.
+CREATE OR REPLACE FUNCTION public.close_cash_drawer_shift(
+  p_shift_id UUID,
+  p_counts JSONB,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS cash_drawer_shifts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_shift cash_drawer_shifts;
+  v_summary JSONB;
+  v_expected_cash NUMERIC(10, 2);
+  v_counted_cash NUMERIC(10, 2);
+  v_closing_counts JSONB;
+BEGIN
+  v_shift := public.lock_cash_drawer_shift(p_shift_id);
+
+  IF v_shift.status <> 'open' THEN
+    RAISE EXCEPTION 'Shift is already closed' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_counts IS NULL OR jsonb_typeof(p_counts) <> 'object' OR NOT (p_counts ? 'cash') THEN
+    RAISE EXCEPTION 'The counted cash is required' USING ERRCODE = '22023';
+  END IF;
+
+  v_summary := public.get_cash_drawer_shift_summary(p_shift_id);
+  v_expected_cash := (v_summary->>'expected_cash')::NUMERIC;
+  v_counted_cash := ROUND((p_counts->>'cash')::NUMERIC, 2);
+
+  -- Cash first, then every method that had payments or was counted
+  SELECT jsonb_agg(jsonb_build_object(
+    'payment_method', c.payment_method,
+    'expected', c.expected,
+    'counted', c.counted,
+    'variance', c.counted - c.expected
+  ) ORDER BY c.payment_method <> 'cash', c.payment_method)
+  INTO v_closing_counts
+  FROM (
+    SELECT
+      methods.payment_method,
+      CASE
+        WHEN methods.payment_method = 'cash' THEN v_expected_cash
+        ELSE COALESCE((
+          SELECT (p->>'amount')::NUMERIC
+          FROM jsonb_array_elements(v_summary->'payments') p
+          WHERE p->>'payment_method' = methods.payment_method
+        ), 0)
+      END AS expected,
+      ROUND(COALESCE((p_counts->>methods.payment_method)::NUMERIC, 0), 2) AS counted
+    FROM (
+      SELECT 'cash' AS payment_method
+      UNION
+      SELECT p->>'payment_method' FROM jsonb_array_elements(v_summary->'payments') p
+      UNION
+      SELECT key FROM jsonb_object_keys(p_counts) key
+    ) methods
+  ) c;
+
+  UPDATE cash_drawer_shifts
+  SET
+    status = 'closed',
+    closed_by = auth.uid(),
+    closed_at = NOW(),
+    expected_cash = v_expected_cash,
+    counted_cash = v_counted_cash,
+    cash_variance = v_counted_cash - v_expected_cash,
+    closing_counts = v_closing_counts,
+    notes = NULLIF(TRIM(p_notes), '')
+  WHERE id = p_shift_id
+  RETURNING * INTO v_shift;
+
+  RETURN v_shift;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.close_cash_drawer_shift(UUID, JSONB, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.open_cash_drawer_shift(UUID, NUMERIC) IS 'Opens a cash drawer shift for the current user. One open shift per cashier per store.';
+COMMENT ON FUNCTION public.add_cash_drawer_entry(UUID, VARCHAR, NUMERIC, TEXT) IS 'Records a paid-in or paid-out cash entry with a reason on an open shift.';
+COMMENT ON FUNCTION public.get_cash_drawer_shift_summary(UUID) IS 'Payments per method, paid-in/out and expected cash of a shift (X report).';
+COMMENT ON FUNCTION public.close_cash_drawer_shift(UUID, JSONB, TEXT) IS 'Closes a shift and records expected, counted and variance per payment method (Z report).';
@@ -0,0 +1,292 @@
+-- Migration: Create loyalty points ledger
+-- Stores with the loyalty_points feature give customers points on every payment
+-- (settings.loyalty_points_rate points per 100 paid) and accept points as a payment
+-- method (settings.loyalty_points_value per point). Every change to
+-- customers.loyalty_points is written to loyalty_points_ledger. Points are posted by
+-- a trigger on payments, so orders created at the POS, payments added later and
+-- offline payments replayed on sync all earn and redeem the same way.
+
+CREATE TABLE IF NOT EXISTS loyalty_points_ledger (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  store_id UUID NOT NULL REFERENCES stores(id) ON DELETE CASCADE,
+  customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+  order_number VARCHAR(50), -- Kept for history after an order is cancelled and deleted
+  payment_id UUID REFERENCES payments(id) ON DELETE SET NULL,
+  entry_type VARCHAR(20) NOT NULL,
+  points INTEGER NOT NULL, -- Positive when earned or returned, negative when spent or reversed
+  balance_after INTEGER NOT NULL,
+  amount NUMERIC(10, 2), -- Payment amount the points were earned on or redeemed for
+  description TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+
+  CONSTRAINT loyalty_points_ledger_entry_type_check CHECK (entry_type IN ('earn', 'redeem', 'reversal')),
+  CONSTRAINT loyalty_points_ledger_points_check CHECK (points <> 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_loyalty_points_ledger_customer ON loyalty_points_ledger(customer_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_loyalty_points_ledger_order ON loyalty_points_ledger(order_id);
+CREATE INDEX IF NOT EXISTS idx_loyalty_points_ledger_payment ON loyalty_points_ledger(payment_id);
+
+-- Enable RLS
+ALTER TABLE loyalty_points_ledger ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Allow authenticated users to read the ledger for their assigned stores.
+-- Entries are only written by the functions below.
+DROP POLICY IF EXISTS "Allow authenticated users to read loyalty points ledger" ON loyalty_points_ledger;
+CREATE POLICY "Allow authenticated users to read loyalty points ledger"
+  ON loyalty_points_ledger
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_store_assignments usa
+      WHERE usa.store_id = loyalty_points_ledger.store_id
+      AND usa.user_id = auth.uid()
+    )
+  );
+
+COMMENT ON TABLE loyalty_points_ledger IS 'Every change to a customer''s loyalty points balance';
+COMMENT ON COLUMN loyalty_points_ledger.entry_type IS 'earn (points from a payment), redeem (points used as payment) or reversal (cancelled payment or order)';
+COMMENT ON COLUMN loyalty_points_ledger.balance_after IS 'Customer balance after this entry';
+
+-- Points can pay for orders
+INSERT INTO payment_methods (name, display_name, description, icon, is_active, sort_order, requires_reference) VALUES
+  ('loyalty_points', 'Loyalty Points', 'Customer loyalty points redemption', 'star-outline', true, 5, false)
+ON CONFLICT (name) DO NOTHING;
+
+-- Add points to (or take points from) a customer and write the ledger entry.
+-- Reversals may take the balance below zero when earned points were already spent.
+CREATE OR REPLACE FUNCTION public.post_loyalty_points(
+  p_store_id UUID,
+  p_customer_id UUID,
+  p_order_id UUID,
+  p_payment_id UUID,
+  p_entry_type VARCHAR,
+  p_points INTEGER,
+  p_amount NUMERIC,
+  p_description TEXT
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_balance INTEGER;
+BEGIN
+  SELECT COALESCE(loyalty_points, 0)
+  INTO v_balance
+  FROM customers
+  WHERE id = p_customer_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_entry_type = 'redeem' AND v_balance + p_points < 0 THEN
+    RAISE EXCEPTION 'Not enough loyalty points: % available, % needed', v_balance, -p_points USING ERRCODE = '22023';
+  END IF;
+
+  v_balance := v_balance + p_points;
+
+  UPDATE customers
+  SET loyalty_points = v_balance
+  WHERE id = p_customer_id;
+
+  INSERT INTO loyalty_points_ledger (
+    store_id,
+    customer_id,
+    order_id,
+    order_number,
+    payment_id,
+    entry_type,
+    points,
+    balance_after,
+    amount,
+    description,
+    created_by
+  ) VALUES (
+    p_store_id,
+    p_customer_id,
+    p_order_id,
+    (SELECT order_number FROM orders WHERE id = p_order_id),
+    p_payment_id,
+    p_entry_type,
+    p_points,
+    v_balance,
+    p_amount,
+    p_description,
+    auth.uid()
+  );
+
+  RETURN v_balance;
+END;
+$$;
+
+-- Only the payment triggers and order functions post points. Supabase grants new functions
+-- to anon and authenticated by default, so those grants are taken back as well.
+REVOKE EXECUTE ON FUNCTION public.post_loyalty_points(UUID, UUID, UUID, UUID, VARCHAR, INTEGER, NUMERIC, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Earn points on new payments and spend points on loyalty point payments
+CREATE OR REPLACE FUNCTION public.post_payment_loyalty_points()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order RECORD;
+  v_enabled BOOLEAN;
+  v_rate NUMERIC;
+  v_value NUMERIC;
+  v_points INTEGER;
+BEGIN
+  IF COALESCE(NEW.is_cancelled, false) OR COALESCE(NEW.amount, 0) <= 0 THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT o.id, o.store_id, o.customer_id, o.order_number
+  INTO v_order
+  FROM orders o
+  WHERE o.id = NEW.order_id;
+
+  SELECT
+    COALESCE((features->>'loyalty_points')::BOOLEAN, false),
+    COALESCE((settings->>'loyalty_points_rate')::NUMERIC, 1),
+    COALESCE((settings->>'loyalty_points_value')::NUMERIC, 1)
+  INTO v_enabled, v_rate, v_value
+  FROM stores
+  WHERE id = v_order.store_id;
+
+  IF NEW.payment_method = 'loyalty_points' THEN
+    IF NOT COALESCE(v_enabled, false) THEN
+      RAISE EXCEPTION 'Loyalty points are not enabled for this store' USING ERRCODE = '22023';
+    END IF;
+    IF v_order.customer_id IS NULL THEN
+      RAISE EXCEPTION 'Loyalty points can only be used by a customer' USING ERRCODE = '22023';
+    END IF;
+    IF v_value <= 0 THEN
+      RAISE EXCEPTION 'Loyalty points have no redemption value in this store' USING ERRCODE = '22023';
+    END IF;
+
+    v_points := CEIL(NEW.amount / v_value);
+    PERFORM public.post_loyalty_points(
+      v_order.store_id, v_order.customer_id, v_order.id, NEW.id, 'redeem', -v_points, NEW.amount,
+      'Redeemed for order ' || v_order.order_number
+    );
+    RETURN NEW;
+  END IF;
+
+  IF NOT COALESCE(v_enabled, false) OR v_order.customer_id IS NULL OR v_rate <= 0 THEN
+    RETURN NEW;
+  END IF;
+
+  v_points := FLOOR(NEW.amount * v_rate / 100);
+  IF v_points > 0 THEN
+    PERFORM public.post_loyalty_points(
+      v_order.store_id, v_order.customer_id, v_order.id, NEW.id, 'earn', v_points, NEW.amount,
+      'Earned on order ' || v_order.order_number
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS payments_loyalty_points ON payments;
+CREATE TRIGGER payments_loyalty_points
+  AFTER INSERT ON payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.post_payment_loyalty_points();
+
+-- Undo the points of a payment when it is cancelled: earned points are taken back,
+-- redeemed points are returned
+CREATE OR REPLACE FUNCTION public.reverse_payment_loyalty_points()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry RECORD;
+BEGIN
+  FOR v_entry IN
+    SELECT store_id, customer_id, order_id, SUM(points) AS net_points
+    FROM loyalty_points_ledger
+    WHERE payment_id = NEW.id
+    GROUP BY store_id, customer_id, order_id
+    HAVING SUM(points) <> 0
+  LOOP
+    PERFORM public.post_loyalty_points(
+      v_entry.store_id, v_entry.customer_id, v_entry.order_id, NEW.id, 'reversal', -v_entry.net_points::INTEGER, NEW.amount,
+      'Payment cancelled' || COALESCE(': ' || NEW.cancellation_reason, '')
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS payments_loyalty_points_reversal ON payments;
+CREATE TRIGGER payments_loyalty_points_reversal
+  AFTER UPDATE OF is_cancelled ON payments
+  FOR EACH ROW
+  WHEN (NEW.is_cancelled IS TRUE AND OLD.is_cancelled IS DISTINCT FROM TRUE)
+  EXECUTE FUNCTION public.reverse_payment_loyalty_points();
+
+-- Undo all points of an order before it is cancelled
+CREATE OR REPLACE FUNCTION public.reverse_order_loyalty_points(
+  p_order_id UUID,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders;
+  v_entry RECORD;
+  v_reversed INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM user_store_assignments usa
+    WHERE usa.store_id = v_order.store_id
+    AND usa.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Access denied to this store' USING ERRCODE = '42501';
+  END IF;
+
+  FOR v_entry IN
+    SELECT store_id, customer_id, SUM(points) AS net_points
+    FROM loyalty_points_ledger
+    WHERE order_id = p_order_id
+    GROUP BY store_id, customer_id
+    HAVING SUM(points) <> 0
+  LOOP
+    PERFORM public.post_loyalty_points(
+      v_entry.store_id, v_entry.customer_id, p_order_id, NULL, 'reversal', -v_entry.net_points::INTEGER, NULL,
+      'Order ' || v_order.order_number || ' cancelled' || COALESCE(': ' || p_reason, '')
+    );
+    v_reversed := v_reversed + ABS(v_entry.net_points::INTEGER);
+  END LOOP;
+
+  RETURN v_reversed;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.reverse_order_loyalty_points(UUID, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.reverse_order_loyalty_points(UUID, TEXT) IS 'Takes back points earned and returns points redeemed on an order. Safe to call more than once. Returns the number of points reversed.';
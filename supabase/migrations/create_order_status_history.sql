@@ -0,0 +1,492 @@
+-- Migration: Create order status history
+-- Order status follows a fixed path: pending -> in_progress -> ready -> completed.
+-- Pending, in progress and ready orders can be cancelled with cancel_order, and a
+-- cancelled order only leaves that status through uncancel_order, back to the status it
+-- was cancelled from. Completed orders are final. Status changes are only accepted from
+-- set_order_status, cancel_order and uncancel_order; a trigger checks the move, stamps
+-- the time the order reached each stage and writes order_status_history with the user
+-- and device that made the change.
+
+-- Time the order reached each stage (actual_completion is the completed time)
+ALTER TABLE public.orders
+ADD COLUMN IF NOT EXISTS in_progress_at TIMESTAMP WITH TIME ZONE NULL,
+ADD COLUMN IF NOT EXISTS ready_at TIMESTAMP WITH TIME ZONE NULL;
+
+COMMENT ON COLUMN public.orders.in_progress_at IS 'When work on the order started';
+COMMENT ON COLUMN public.orders.ready_at IS 'When the order was ready for pickup';
+COMMENT ON COLUMN public.orders.actual_completion IS 'When the order was completed (picked up)';
+
+CREATE TABLE IF NOT EXISTS order_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  store_id UUID NOT NULL REFERENCES stores(id) ON DELETE CASCADE,
+  from_status VARCHAR(20) NULL, -- NULL when the order was created
+  to_status VARCHAR(20) NOT NULL,
+  changed_by UUID NULL REFERENCES auth.users(id),
+  changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  device_id VARCHAR(100) NULL, -- Device the change was made from
+  notes TEXT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_status_history_order ON order_status_history(order_id, changed_at);
+CREATE INDEX IF NOT EXISTS idx_order_status_history_store ON order_status_history(store_id, changed_at DESC);
+
+ALTER TABLE order_status_history ENABLE ROW LEVEL SECURITY;
+
+-- History is written by the orders triggers only
+DROP POLICY IF EXISTS "Allow authenticated users to read order status history" ON order_status_history;
+CREATE POLICY "Allow authenticated users to read order status history"
+  ON order_status_history
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_store_assignments usa
+      WHERE usa.store_id = order_status_history.store_id
+      AND usa.user_id = auth.uid()
+    )
+  );
+
+COMMENT ON TABLE order_status_history IS 'Every order status change, with who made it, when and from which device';
+COMMENT ON COLUMN order_status_history.device_id IS 'Device the change was made from, as sent by the app';
+COMMENT ON COLUMN order_status_history.notes IS 'Cancellation reason or other note given with the change';
+
+-- Whether an order may move directly between two statuses. Leaving cancelled is not a
+-- transition; it is only done by uncancel_order.
+CREATE OR REPLACE FUNCTION public.order_status_transition_allowed(p_from VARCHAR, p_to VARCHAR)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (p_from, p_to) IN (
+    ('pending', 'in_progress'),
+    ('in_progress', 'ready'),
+    ('ready', 'completed'),
+    ('pending', 'cancelled'),
+    ('in_progress', 'cancelled'),
+    ('ready', 'cancelled')
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.order_status_transition_allowed(VARCHAR, VARCHAR) TO authenticated;
+
+-- Check a status change and stamp the stage time. The calling function says what kind
+-- of change it is in app.order_status_source; direct updates of order_status are refused.
+CREATE OR REPLACE FUNCTION public.check_order_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_source TEXT := NULLIF(current_setting('app.order_status_source', true), '');
+BEGIN
+  IF v_source IS NULL THEN
+    RAISE EXCEPTION 'Order status can only be changed with set_order_status, cancel_order or uncancel_order' USING ERRCODE = '42501';
+  END IF;
+
+  IF OLD.order_status = 'cancelled' THEN
+    IF v_source <> 'uncancel' THEN
+      RAISE EXCEPTION 'Cancelled orders can only be un-cancelled' USING ERRCODE = '22023';
+    END IF;
+  ELSIF NEW.order_status = 'cancelled' AND v_source <> 'cancel' THEN
+    RAISE EXCEPTION 'Orders are cancelled with cancel_order' USING ERRCODE = '22023';
+  ELSIF NOT public.order_status_transition_allowed(OLD.order_status, NEW.order_status) THEN
+    RAISE EXCEPTION 'Order cannot move from % to %', OLD.order_status, NEW.order_status USING ERRCODE = '22023';
+  END IF;
+
+  -- Keep the first time a stage was reached, so un-cancelling does not reset it
+  CASE NEW.order_status
+    WHEN 'in_progress' THEN
+      NEW.in_progress_at := COALESCE(NEW.in_progress_at, NOW());
+    WHEN 'ready' THEN
+      NEW.ready_at := COALESCE(NEW.ready_at, NOW());
+    WHEN 'completed' THEN
+      NEW.actual_completion := COALESCE(NEW.actual_completion, NOW());
+      NEW.completed_by := COALESCE(NEW.completed_by, auth.uid());
+    ELSE
+      NULL;
+  END CASE;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS orders_check_status_change ON orders;
+CREATE TRIGGER orders_check_status_change
+  BEFORE UPDATE OF order_status ON orders
+  FOR EACH ROW
+  WHEN (OLD.order_status IS DISTINCT FROM NEW.order_status)
+  EXECUTE FUNCTION public.check_order_status_change();
+
+-- Write the history entry for a new order or a status change
+CREATE OR REPLACE FUNCTION public.log_order_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO order_status_history (
+    order_id,
+    store_id,
+    from_status,
+    to_status,
+    changed_by,
+    device_id,
+    notes
+  ) VALUES (
+    NEW.id,
+    NEW.store_id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.order_status END,
+    NEW.order_status,
+    COALESCE(auth.uid(), NEW.created_by),
+    NULLIF(current_setting('app.order_status_device', true), ''),
+    NULLIF(current_setting('app.order_status_notes', true), '')
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS orders_log_status_insert ON orders;
+CREATE TRIGGER orders_log_status_insert
+  AFTER INSERT ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_order_status_change();
+
+DROP TRIGGER IF EXISTS orders_log_status_change ON orders;
+CREATE TRIGGER orders_log_status_change
+  AFTER UPDATE OF order_status ON orders
+  FOR EACH ROW
+  WHEN (OLD.order_status IS DISTINCT FROM NEW.order_status)
+  EXECUTE FUNCTION public.log_order_status_change();
+
+-- Move an order to its next status. Setting the status it already has is a no-op, so
+-- changes replayed from the offline queue are safe. Use cancel_order to cancel.
+CREATE OR REPLACE FUNCTION public.set_order_status(
+  p_order_id UUID,
+  p_status VARCHAR,
+  p_device_id TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM user_store_assignments usa
+    WHERE usa.store_id = v_order.store_id
+    AND usa.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Access denied to this store' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_order.order_status = p_status THEN
+    RETURN v_order;
+  END IF;
+
+  IF p_status = 'cancelled' THEN
+    RAISE EXCEPTION 'Orders are cancelled with cancel_order' USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM set_config('app.order_status_source', 'transition', true);
+  PERFORM set_config('app.order_status_device', COALESCE(p_device_id, ''), true);
+  PERFORM set_config('app.order_status_notes', COALESCE(NULLIF(TRIM(p_notes), ''), ''), true);
+
+  UPDATE orders
+  SET
+    order_status = p_status,
+    updated_at = NOW()
+  WHERE id = p_order_id
+  RETURNING * INTO v_order;
+
+  RETURN v_order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_order_status(UUID, VARCHAR, TEXT, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.set_order_status(UUID, VARCHAR, TEXT, TEXT) IS 'Moves an order one step along pending, in_progress, ready, completed. Records the user and device in order_status_history and stamps the stage time.';
+
+-- Recreate cancel_order to record the device and go through the status rules.
+DROP FUNCTION IF EXISTS public.cancel_order(UUID, TEXT, TEXT);
+CREATE OR REPLACE FUNCTION public.cancel_order(
+  p_order_id UUID,
+  p_reason TEXT,
+  p_notes TEXT DEFAULT NULL,
+  p_device_id TEXT DEFAULT NULL
+)
+RETURNS cancelled_orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders;
+  v_reason TEXT := NULLIF(TRIM(p_reason), '');
+  v_refund NUMERIC(10, 2);
+  v_cancelled cancelled_orders;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF v_reason IS NULL THEN
+    RAISE EXCEPTION 'A cancellation reason is required' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM user_store_assignments usa
+    WHERE usa.store_id = v_order.store_id
+    AND usa.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Access denied to this store' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_order.order_status = 'cancelled' THEN
+    RAISE EXCEPTION 'Order % is already cancelled', v_order.order_number USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT public.order_status_transition_allowed(v_order.order_status, 'cancelled') THEN
+    RAISE EXCEPTION '% orders cannot be cancelled', initcap(replace(v_order.order_status, '_', ' ')) USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM public.restore_order_inventory(p_order_id, v_reason);
+  PERFORM public.reverse_order_loyalty_points(p_order_id, v_reason);
+
+  v_refund := GREATEST(v_order.paid_amount - v_order.refunded_amount, 0);
+
+  INSERT INTO cancelled_orders (
+    order_id,
+    store_id,
+    order_number,
+    customer_id,
+    cancellation_reason,
+    cancelled_by,
+    total_amount,
+    paid_amount,
+    balance,
+    payment_status,
+    order_status,
+    refund_required,
+    refund_amount,
+    notes
+  ) VALUES (
+    v_order.id,
+    v_order.store_id,
+    v_order.order_number,
+    v_order.customer_id,
+    v_reason,
+    auth.uid(),
+    v_order.total_amount,
+    v_order.paid_amount,
+    v_order.balance,
+    v_order.payment_status,
+    v_order.order_status,
+    v_refund > 0,
+    v_refund,
+    NULLIF(TRIM(p_notes), '')
+  )
+  RETURNING * INTO v_cancelled;
+
+  PERFORM set_config('app.order_status_source', 'cancel', true);
+  PERFORM set_config('app.order_status_device', COALESCE(p_device_id, ''), true);
+  PERFORM set_config('app.order_status_notes', v_reason, true);
+
+  UPDATE orders
+  SET
+    order_status = 'cancelled',
+    cancelled_at = v_cancelled.cancelled_at,
+    cancelled_by = auth.uid(),
+    cancellation_reason = v_reason,
+    updated_at = NOW()
+  WHERE id = p_order_id;
+
+  RETURN v_cancelled;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.cancel_order(UUID, TEXT, TEXT, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.cancel_order(UUID, TEXT, TEXT, TEXT) IS 'Cancels a pending, in progress or ready order in one transaction: restocks its products, reverses its loyalty points, records the cancellation and marks the order cancelled. The order, items and payments are kept.';
+
+-- Recreate uncancel_order to record the device; it is the only way out of cancelled.
+-- The approval is consumed here as well, so it cannot be reused or made up by the client.
+DROP FUNCTION IF EXISTS public.uncancel_order(UUID, UUID);
+DROP FUNCTION IF EXISTS public.uncancel_order(UUID, UUID, TEXT);
+CREATE OR REPLACE FUNCTION public.uncancel_order(
+  p_order_id UUID,
+  p_approval_id UUID DEFAULT NULL,
+  p_device_id TEXT DEFAULT NULL
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders;
+  v_cancelled cancelled_orders;
+  v_approved_by UUID;
+  v_window_hours INTEGER;
+  v_usage RECORD;
+  v_previous_stock NUMERIC;
+  v_entry RECORD;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM user_store_assignments usa
+    WHERE usa.store_id = v_order.store_id
+    AND usa.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Access denied to this store' USING ERRCODE = '42501';
+  END IF;
+
+  v_approved_by := public.use_manager_approval(v_order.store_id, p_approval_id);
+
+  IF v_order.order_status <> 'cancelled' THEN
+    RAISE EXCEPTION 'Order % is not cancelled', v_order.order_number USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_cancelled
+  FROM cancelled_orders
+  WHERE order_id = p_order_id
+    AND uncancelled_at IS NULL
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cancellation record not found for order %', v_order.order_number USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT COALESCE((settings->>'uncancel_window_hours')::INTEGER, 24)
+  INTO v_window_hours
+  FROM stores
+  WHERE id = v_order.store_id;
+
+  IF v_cancelled.cancelled_at + make_interval(hours => v_window_hours) < NOW() THEN
+    RAISE EXCEPTION 'Orders can only be un-cancelled within % hours of cancellation', v_window_hours USING ERRCODE = '22023';
+  END IF;
+
+  IF v_cancelled.refunded_amount > 0 THEN
+    RAISE EXCEPTION 'Order % has refunds and cannot be un-cancelled', v_order.order_number USING ERRCODE = '22023';
+  END IF;
+
+  -- Take out of stock again what the cancellation put back
+  FOR v_usage IN
+    SELECT inventory_item_id, SUM(quantity) AS restocked
+    FROM inventory_transactions
+    WHERE order_id = p_order_id
+      AND transaction_type = 'return'
+      AND created_at >= v_cancelled.cancelled_at
+    GROUP BY inventory_item_id
+    HAVING SUM(quantity) > 0
+  LOOP
+    SELECT current_stock
+    INTO v_previous_stock
+    FROM inventory_items
+    WHERE id = v_usage.inventory_item_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      CONTINUE;
+    END IF;
+
+    UPDATE inventory_items
+    SET current_stock = v_previous_stock - v_usage.restocked,
+        updated_at = NOW()
+    WHERE id = v_usage.inventory_item_id;
+
+    INSERT INTO inventory_transactions (
+      store_id,
+      inventory_item_id,
+      transaction_type,
+      quantity,
+      previous_stock,
+      new_stock,
+      notes,
+      created_by,
+      order_id
+    ) VALUES (
+      v_order.store_id,
+      v_usage.inventory_item_id,
+      'usage',
+      -v_usage.restocked,
+      v_previous_stock,
+      v_previous_stock - v_usage.restocked,
+      'Order ' || v_order.order_number || ' un-cancelled',
+      auth.uid(),
+      p_order_id
+    );
+  END LOOP;
+
+  -- Reinstate the points the cancellation reversed
+  FOR v_entry IN
+    SELECT store_id, customer_id, SUM(points) AS reversed_points
+    FROM loyalty_points_ledger
+    WHERE order_id = p_order_id
+      AND entry_type = 'reversal'
+      AND created_at >= v_cancelled.cancelled_at
+    GROUP BY store_id, customer_id
+    HAVING SUM(points) <> 0
+  LOOP
+    PERFORM public.post_loyalty_points(
+      v_entry.store_id, v_entry.customer_id, p_order_id, NULL, 'reversal', -v_entry.reversed_points::INTEGER, NULL,
+      'Order ' || v_order.order_number || ' un-cancelled'
+    );
+  END LOOP;
+
+  -- Nothing is owed back once the order is live again
+  UPDATE cancelled_orders
+  SET
+    uncancelled_at = NOW(),
+    uncancelled_by = auth.uid(),
+    uncancel_approved_by = v_approved_by,
+    refund_required = false,
+    refund_amount = 0
+  WHERE id = v_cancelled.id;
+
+  PERFORM set_config('app.order_status_source', 'uncancel', true);
+  PERFORM set_config('app.order_status_device', COALESCE(p_device_id, ''), true);
+  PERFORM set_config('app.order_status_notes', 'Un-cancelled', true);
+
+  UPDATE orders
+  SET
+    order_status = v_cancelled.order_status,
+    cancelled_at = NULL,
+    cancelled_by = NULL,
+    cancellation_reason = NULL,
+    updated_at = NOW()
+  WHERE id = p_order_id
+  RETURNING * INTO v_order;
+
+  RETURN v_order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.uncancel_order(UUID, UUID, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.uncancel_order(UUID, UUID, TEXT) IS 'Restores a cancelled order to the status it was cancelled from, within the store uncancel_window_hours (default 24). Needs a store manager or a single-use manager approval; orders with refunds cannot be un-cancelled.';
@@ -0,0 +1,207 @@
+-- Migration: Create create_order_with_items function
+-- Creates an order, its items, the initial payment and inventory deductions in a single transaction.
+-- Replaces the separate orders / order_items / payments inserts previously made from the POS screen,
+-- so a dropped connection can no longer leave orphan orders without items or unrecorded payments.
+--
+-- Parameters:
+--   p_store_id     Store the order belongs to
+--   p_customer_id  Customer placing the order (nullable for walk-ins)
+--   p_items        JSON array of items:
+--                  [{ "item_type": "service" | "product", "service_id": uuid, "inventory_item_id": uuid,
+--                     "name": text, "quantity": numeric, "unit_price": numeric }]
+--   p_payment      Optional JSON object for the initial payment:
+--                  { "amount": numeric, "payment_method": text, "payment_method_id": uuid,
+--                    "card_number": text, "reference_number": text, "notes": text }
+--   p_notes        Optional order notes
+--
+-- Returns the final orders row (including the generated order_number).
+
+CREATE OR REPLACE FUNCTION public.create_order_with_items(
+  p_store_id UUID,
+  p_customer_id UUID,
+  p_items JSONB,
+  p_payment JSONB DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_order public.orders;
+  v_item RECORD;
+  v_subtotal NUMERIC(10, 2) := 0;
+  v_paid NUMERIC(10, 2) := 0;
+  v_payment_status VARCHAR(20) := 'unpaid';
+  v_previous_stock NUMERIC;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item' USING ERRCODE = '22023';
+  END IF;
+
+  -- Compute totals server-side from the submitted items
+  SELECT COALESCE(SUM((item->>'quantity')::NUMERIC * (item->>'unit_price')::NUMERIC), 0)
+  INTO v_subtotal
+  FROM jsonb_array_elements(p_items) AS item;
+
+  IF p_payment IS NOT NULL THEN
+    v_paid := COALESCE((p_payment->>'amount')::NUMERIC, 0);
+  END IF;
+
+  IF v_paid < 0 OR v_paid > v_subtotal THEN
+    RAISE EXCEPTION 'Invalid payment amount: %', v_paid USING ERRCODE = '22023';
+  END IF;
+
+  IF v_paid > 0 AND v_paid = v_subtotal THEN
+    v_payment_status := 'paid';
+  ELSIF v_paid > 0 THEN
+    v_payment_status := 'partial';
+  END IF;
+
+  -- Create order
+  INSERT INTO public.orders (
+    store_id,
+    customer_id,
+    subtotal,
+    tax,
+    discount,
+    total_amount,
+    paid_amount,
+    balance,
+    payment_status,
+    order_status,
+    created_by,
+    notes
+  ) VALUES (
+    p_store_id,
+    p_customer_id,
+    v_subtotal,
+    0,
+    0,
+    v_subtotal,
+    v_paid,
+    v_subtotal - v_paid,
+    v_payment_status,
+    'pending',
+    v_user_id,
+    p_notes
+  )
+  RETURNING * INTO v_order;
+
+  -- Create order items and deduct inventory for products
+  FOR v_item IN
+    SELECT *
+    FROM jsonb_to_recordset(p_items) AS x(
+      item_type TEXT,
+      service_id UUID,
+      inventory_item_id UUID,
+      name TEXT,
+      quantity NUMERIC,
+      unit_price NUMERIC
+    )
+  LOOP
+    IF v_item.quantity IS NULL OR v_item.quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for item %', v_item.name USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO public.order_items (
+      order_id,
+      service_id,
+      inventory_item_id,
+      item_type,
+      service_name,
+      quantity,
+      unit_price,
+      total_price
+    ) VALUES (
+      v_order.id,
+      CASE WHEN v_item.item_type = 'service' THEN v_item.service_id ELSE NULL END,
+      CASE WHEN v_item.item_type = 'product' THEN v_item.inventory_item_id ELSE NULL END,
+      v_item.item_type,
+      v_item.name,
+      v_item.quantity,
+      v_item.unit_price,
+      v_item.quantity * v_item.unit_price
+    );
+
+    IF v_item.item_type = 'product' AND v_item.inventory_item_id IS NOT NULL THEN
+      -- Lock the inventory row so concurrent checkouts cannot oversell
+      SELECT current_stock
+      INTO v_previous_stock
+      FROM public.inventory_items
+      WHERE id = v_item.inventory_item_id
+        AND store_id = p_store_id
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Inventory item % not found in store', v_item.name USING ERRCODE = 'P0002';
+      END IF;
+
+      IF v_previous_stock < v_item.quantity THEN
+        RAISE EXCEPTION 'Insufficient stock for %: % available', v_item.name, v_previous_stock USING ERRCODE = 'P0001';
+      END IF;
+
+      UPDATE public.inventory_items
+      SET current_stock = v_previous_stock - v_item.quantity,
+          updated_at = NOW()
+      WHERE id = v_item.inventory_item_id;
+
+      INSERT INTO public.inventory_transactions (
+        store_id,
+        inventory_item_id,
+        transaction_type,
+        quantity,
+        previous_stock,
+        new_stock,
+        notes,
+        created_by
+      ) VALUES (
+        p_store_id,
+        v_item.inventory_item_id,
+        'usage',
+        -v_item.quantity,
+        v_previous_stock,
+        v_previous_stock - v_item.quantity,
+        'Sold in order ' || v_order.order_number,
+        v_user_id
+      );
+    END IF;
+  END LOOP;
+
+  -- Record initial payment
+  IF v_paid > 0 THEN
+    INSERT INTO public.payments (
+      order_id,
+      amount,
+      payment_method,
+      payment_method_id,
+      card_number,
+      reference_number,
+      received_by,
+      notes
+    ) VALUES (
+      v_order.id,
+      v_paid,
+      p_payment->>'payment_method',
+      NULLIF(p_payment->>'payment_method_id', '')::UUID,
+      NULLIF(p_payment->>'card_number', ''),
+      NULLIF(p_payment->>'reference_number', ''),
+      v_user_id,
+      p_payment->>'notes'
+    );
+  END IF;
+
+  -- Return the final state of the order
+  SELECT * INTO v_order FROM public.orders WHERE id = v_order.id;
+  RETURN v_order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_order_with_items(UUID, UUID, JSONB, JSONB, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.create_order_with_items(UUID, UUID, JSONB, JSONB, TEXT) IS 'Atomically creates an order with its items, initial payment and inventory deductions. Any failure rolls back the whole order.';
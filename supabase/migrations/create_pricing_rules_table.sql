@@ -0,0 +1,482 @@
+-- Migration: Create pricing rules and order adjustments
+-- Store-specific promotions (bundles, quantity tiers, happy hours and category discounts) are
+-- evaluated by the app against the cart. The resulting discounts are passed to
+-- create_order_with_items, which stores them in order_adjustments and fills orders.discount.
+
+CREATE TABLE IF NOT EXISTS pricing_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  store_id UUID NOT NULL REFERENCES stores(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL, -- Printed on receipts next to the discount
+  description TEXT,
+  rule_type VARCHAR(30) NOT NULL,
+  conditions JSONB NOT NULL DEFAULT '{}'::jsonb, -- Rule-specific: service_ids, category, min_quantity, times
+  discount_type VARCHAR(10) NOT NULL DEFAULT 'percent',
+  discount_value NUMERIC(10, 2) NOT NULL,
+  priority INTEGER NOT NULL DEFAULT 0, -- Lower numbers are applied first
+  stackable BOOLEAN NOT NULL DEFAULT true, -- When false, no later rule applies to the same lines
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  starts_at TIMESTAMP WITH TIME ZONE,
+  ends_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+
+  CONSTRAINT pricing_rules_rule_type_check CHECK (rule_type IN ('bundle', 'quantity_tier', 'happy_hour', 'category_discount')),
+  CONSTRAINT pricing_rules_discount_type_check CHECK (discount_type IN ('percent', 'fixed')),
+  CONSTRAINT pricing_rules_discount_value_check CHECK (
+    discount_value > 0 AND (discount_type <> 'percent' OR discount_value <= 100)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_pricing_rules_store_active ON pricing_rules(store_id, is_active);
+
+-- Create updated_at trigger
+CREATE OR REPLACE FUNCTION update_pricing_rules_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS pricing_rules_updated_at ON pricing_rules;
+CREATE TRIGGER pricing_rules_updated_at
+  BEFORE UPDATE ON pricing_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_pricing_rules_updated_at();
+
+-- Enable RLS
+ALTER TABLE pricing_rules ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Allow authenticated users to read pricing rules for their assigned stores
+DROP POLICY IF EXISTS "Allow authenticated users to read pricing rules" ON pricing_rules;
+CREATE POLICY "Allow authenticated users to read pricing rules"
+  ON pricing_rules
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_store_assignments usa
+      WHERE usa.store_id = pricing_rules.store_id
+      AND usa.user_id = auth.uid()
+    )
+  );
+
+-- Policy: Allow authenticated users to manage pricing rules for their assigned stores
+DROP POLICY IF EXISTS "Allow authenticated users to manage pricing rules" ON pricing_rules;
+CREATE POLICY "Allow authenticated users to manage pricing rules"
+  ON pricing_rules
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_store_assignments usa
+      WHERE usa.store_id = pricing_rules.store_id
+      AND usa.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM user_store_assignments usa
+      WHERE usa.store_id = pricing_rules.store_id
+      AND usa.user_id = auth.uid()
+    )
+  );
+
+COMMENT ON TABLE pricing_rules IS 'Store-specific promotions evaluated against the POS cart';
+COMMENT ON COLUMN pricing_rules.conditions IS 'bundle: {service_ids}; quantity_tier: {service_ids?, category?, min_quantity, apply_to}; happy_hour: {days?, start_time, end_time, service_ids?, category?}; category_discount: {category}';
+COMMENT ON COLUMN pricing_rules.discount_value IS 'Percent off, or a fixed amount. Fixed amounts are per unit (piece, kg or load) for line rules and per order for bundles';
+
+-- Discounts applied to an order, itemized for receipts and reports
+CREATE TABLE IF NOT EXISTS order_adjustments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  order_item_id UUID REFERENCES order_items(id) ON DELETE CASCADE, -- NULL for order-level adjustments
+  pricing_rule_id UUID REFERENCES pricing_rules(id) ON DELETE SET NULL,
+  source VARCHAR(20) NOT NULL DEFAULT 'pricing_rule',
+  description VARCHAR(255) NOT NULL,
+  amount NUMERIC(10, 2) NOT NULL, -- Positive amount taken off the order
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+
+  CONSTRAINT order_adjustments_amount_positive CHECK (amount > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_adjustments_order ON order_adjustments(order_id);
+CREATE INDEX IF NOT EXISTS idx_order_adjustments_rule ON order_adjustments(pricing_rule_id);
+
+ALTER TABLE order_adjustments ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Allow authenticated users to read adjustments of orders in their assigned stores
+DROP POLICY IF EXISTS "Allow authenticated users to read order adjustments" ON order_adjustments;
+CREATE POLICY "Allow authenticated users to read order adjustments"
+  ON order_adjustments
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders o
+      JOIN user_store_assignments usa ON usa.store_id = o.store_id
+      WHERE o.id = order_adjustments.order_id
+      AND usa.user_id = auth.uid()
+    )
+  );
+
+-- Policy: Allow authenticated users to add adjustments to orders in their assigned stores
+DROP POLICY IF EXISTS "Allow authenticated users to insert order adjustments" ON order_adjustments;
+CREATE POLICY "Allow authenticated users to insert order adjustments"
+  ON order_adjustments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM orders o
+      JOIN user_store_assignments usa ON usa.store_id = o.store_id
+      WHERE o.id = order_adjustments.order_id
+      AND usa.user_id = auth.uid()
+    )
+  );
+
+COMMENT ON TABLE order_adjustments IS 'Itemized discounts applied to orders';
+COMMENT ON COLUMN order_adjustments.source IS 'Where the adjustment came from: pricing_rule';
+
+-- Line-level discount total per order item
+ALTER TABLE public.order_items
+ADD COLUMN IF NOT EXISTS discount NUMERIC(10, 2) NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.order_items.discount IS 'Sum of line-level adjustments. total_price stays the undiscounted line amount';
+
+-- Recreate create_order_with_items with a p_adjustments parameter. The signature changes,
+-- so the previous version is dropped first.
+DROP FUNCTION IF EXISTS public.create_order_with_items(UUID, UUID, JSONB, JSONB, TEXT, UUID, VARCHAR);
+
+CREATE FUNCTION public.create_order_with_items(
+  p_store_id UUID,
+  p_customer_id UUID,
+  p_items JSONB,
+  p_payment JSONB DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_client_reference UUID DEFAULT NULL,
+  p_provisional_order_number VARCHAR(50) DEFAULT NULL,
+  p_adjustments JSONB DEFAULT NULL
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_order public.orders;
+  v_item RECORD;
+  v_subtotal NUMERIC(10, 2) := 0;
+  v_discount NUMERIC(10, 2) := 0;
+  v_total NUMERIC(10, 2) := 0;
+  v_paid NUMERIC(10, 2) := 0;
+  v_payment_status VARCHAR(20) := 'unpaid';
+  v_previous_stock NUMERIC;
+  v_oversell_policy TEXT;
+  v_supply RECORD;
+  v_item_index INTEGER := 0;
+  v_item_ids UUID[] := ARRAY[]::UUID[];
+  v_order_item_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  -- Replay of an order that was already created: return it as-is
+  IF p_client_reference IS NOT NULL THEN
+    SELECT * INTO v_order FROM public.orders WHERE client_reference = p_client_reference;
+    IF FOUND THEN
+      RETURN v_order;
+    END IF;
+  END IF;
+
+  SELECT COALESCE(settings->>'oversell_policy', 'block')
+  INTO v_oversell_policy
+  FROM public.stores
+  WHERE id = p_store_id;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item' USING ERRCODE = '22023';
+  END IF;
+
+  -- Compute totals server-side from the submitted items
+  SELECT COALESCE(SUM(ROUND((item->>'quantity')::NUMERIC * (item->>'unit_price')::NUMERIC, 2)), 0)
+  INTO v_subtotal
+  FROM jsonb_array_elements(p_items) AS item;
+
+  -- Discounts computed by the pricing rules engine
+  IF p_adjustments IS NOT NULL AND jsonb_typeof(p_adjustments) = 'array' THEN
+    IF EXISTS (
+      SELECT 1 FROM jsonb_array_elements(p_adjustments) AS adj
+      WHERE COALESCE((adj->>'amount')::NUMERIC, 0) <= 0
+    ) THEN
+      RAISE EXCEPTION 'Invalid discount amount' USING ERRCODE = '22023';
+    END IF;
+
+    SELECT COALESCE(SUM(ROUND((adj->>'amount')::NUMERIC, 2)), 0)
+    INTO v_discount
+    FROM jsonb_array_elements(p_adjustments) AS adj;
+  END IF;
+
+  IF v_discount > v_subtotal THEN
+    RAISE EXCEPTION 'Discount of % exceeds the order subtotal', v_discount USING ERRCODE = '22023';
+  END IF;
+
+  v_total := v_subtotal - v_discount;
+
+  IF p_payment IS NOT NULL THEN
+    v_paid := COALESCE((p_payment->>'amount')::NUMERIC, 0);
+  END IF;
+
+  IF v_paid < 0 OR v_paid > v_total THEN
+    RAISE EXCEPTION 'Invalid payment amount: %', v_paid USING ERRCODE = '22023';
+  END IF;
+
+  IF v_paid > 0 AND v_paid = v_total THEN
+    v_payment_status := 'paid';
+  ELSIF v_paid > 0 THEN
+    v_payment_status := 'partial';
+  END IF;
+
+  -- Create order
+  INSERT INTO public.orders (
+    store_id,
+    customer_id,
+    subtotal,
+    tax,
+    discount,
+    total_amount,
+    paid_amount,
+    balance,
+    payment_status,
+    order_status,
+    created_by,
+    notes,
+    client_reference,
+    provisional_order_number
+  ) VALUES (
+    p_store_id,
+    p_customer_id,
+    v_subtotal,
+    0,
+    v_discount,
+    v_total,
+    v_paid,
+    v_total - v_paid,
+    v_payment_status,
+    'pending',
+    v_user_id,
+    p_notes,
+    p_client_reference,
+    p_provisional_order_number
+  )
+  RETURNING * INTO v_order;
+
+  -- Create order items and deduct inventory for products
+  FOR v_item IN
+    SELECT *
+    FROM jsonb_to_recordset(p_items) AS x(
+      item_type TEXT,
+      service_id UUID,
+      inventory_item_id UUID,
+      name TEXT,
+      quantity NUMERIC,
+      unit_price NUMERIC,
+      pricing_mode TEXT,
+      weight NUMERIC
+    )
+  LOOP
+    IF v_item.quantity IS NULL OR v_item.quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for item %', v_item.name USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO public.order_items (
+      order_id,
+      service_id,
+      inventory_item_id,
+      item_type,
+      service_name,
+      quantity,
+      unit_price,
+      total_price,
+      pricing_mode,
+      weight,
+      discount
+    ) VALUES (
+      v_order.id,
+      CASE WHEN v_item.item_type = 'service' THEN v_item.service_id ELSE NULL END,
+      CASE WHEN v_item.item_type = 'product' THEN v_item.inventory_item_id ELSE NULL END,
+      v_item.item_type,
+      v_item.name,
+      v_item.quantity,
+      v_item.unit_price,
+      ROUND(v_item.quantity * v_item.unit_price, 2),
+      COALESCE(v_item.pricing_mode, 'per_piece'),
+      v_item.weight,
+      COALESCE((
+        SELECT SUM(ROUND((adj->>'amount')::NUMERIC, 2))
+        FROM jsonb_array_elements(COALESCE(p_adjustments, '[]'::jsonb)) AS adj
+        WHERE (adj->>'item_index')::INTEGER = v_item_index
+      ), 0)
+    )
+    RETURNING id INTO v_order_item_id;
+
+    v_item_ids := array_append(v_item_ids, v_order_item_id);
+    v_item_index := v_item_index + 1;
+
+    -- Consume supplies declared in the service recipe. Supply usage never blocks an order;
+    -- stock may go negative until the next purchase or count adjustment.
+    IF v_item.item_type = 'service' AND v_item.service_id IS NOT NULL THEN
+      FOR v_supply IN
+        SELECT ss.inventory_item_id, ss.quantity_per_unit * v_item.quantity AS quantity
+        FROM public.service_supplies ss
+        WHERE ss.service_id = v_item.service_id
+          AND ss.store_id = p_store_id
+      LOOP
+        SELECT current_stock
+        INTO v_previous_stock
+        FROM public.inventory_items
+        WHERE id = v_supply.inventory_item_id
+          AND store_id = p_store_id
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+          CONTINUE;
+        END IF;
+
+        UPDATE public.inventory_items
+        SET current_stock = v_previous_stock - v_supply.quantity,
+            updated_at = NOW()
+        WHERE id = v_supply.inventory_item_id;
+
+        INSERT INTO public.inventory_transactions (
+          store_id,
+          inventory_item_id,
+          transaction_type,
+          quantity,
+          previous_stock,
+          new_stock,
+          notes,
+          created_by,
+          order_id
+        ) VALUES (
+          p_store_id,
+          v_supply.inventory_item_id,
+          'usage',
+          -v_supply.quantity,
+          v_previous_stock,
+          v_previous_stock - v_supply.quantity,
+          'Used for ' || v_item.name || ' in order ' || v_order.order_number,
+          v_user_id,
+          v_order.id
+        );
+      END LOOP;
+    END IF;
+
+    IF v_item.item_type = 'product' AND v_item.inventory_item_id IS NOT NULL THEN
+      -- Lock the inventory row so concurrent checkouts cannot oversell
+      SELECT current_stock
+      INTO v_previous_stock
+      FROM public.inventory_items
+      WHERE id = v_item.inventory_item_id
+        AND store_id = p_store_id
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Inventory item % not found in store', v_item.name USING ERRCODE = 'P0002';
+      END IF;
+
+      IF v_previous_stock < v_item.quantity AND v_oversell_policy IS DISTINCT FROM 'warn' THEN
+        RAISE EXCEPTION 'Insufficient stock for %: % available', v_item.name, v_previous_stock USING ERRCODE = 'P0001';
+      END IF;
+
+      UPDATE public.inventory_items
+      SET current_stock = v_previous_stock - v_item.quantity,
+          updated_at = NOW()
+      WHERE id = v_item.inventory_item_id;
+
+      INSERT INTO public.inventory_transactions (
+        store_id,
+        inventory_item_id,
+        transaction_type,
+        quantity,
+        previous_stock,
+        new_stock,
+        notes,
+        created_by,
+        order_id
+      ) VALUES (
+        p_store_id,
+        v_item.inventory_item_id,
+        'usage',
+        -v_item.quantity,
+        v_previous_stock,
+        v_previous_stock - v_item.quantity,
+        'Sold in order ' || v_order.order_number,
+        v_user_id,
+        v_order.id
+      );
+    END IF;
+  END LOOP;
+
+  -- Itemize discounts. item_index refers to the position in p_items (0-based).
+  IF p_adjustments IS NOT NULL AND jsonb_typeof(p_adjustments) = 'array' THEN
+    INSERT INTO public.order_adjustments (
+      order_id,
+      order_item_id,
+      pricing_rule_id,
+      source,
+      description,
+      amount,
+      created_by
+    )
+    SELECT
+      v_order.id,
+      CASE
+        WHEN adj->>'item_index' IS NULL THEN NULL
+        ELSE v_item_ids[(adj->>'item_index')::INTEGER + 1]
+      END,
+      NULLIF(adj->>'pricing_rule_id', '')::UUID,
+      COALESCE(NULLIF(adj->>'source', ''), 'pricing_rule'),
+      COALESCE(NULLIF(adj->>'description', ''), 'Discount'),
+      ROUND((adj->>'amount')::NUMERIC, 2),
+      v_user_id
+    FROM jsonb_array_elements(p_adjustments) AS adj;
+  END IF;
+
+  -- Record initial payment
+  IF v_paid > 0 THEN
+    INSERT INTO public.payments (
+      order_id,
+      amount,
+      payment_method,
+      payment_method_id,
+      card_number,
+      reference_number,
+      received_by,
+      notes,
+      client_reference
+    ) VALUES (
+      v_order.id,
+      v_paid,
+      p_payment->>'payment_method',
+      NULLIF(p_payment->>'payment_method_id', '')::UUID,
+      NULLIF(p_payment->>'card_number', ''),
+      NULLIF(p_payment->>'reference_number', ''),
+      v_user_id,
+      p_payment->>'notes',
+      NULLIF(p_payment->>'client_reference', '')::UUID
+    );
+  END IF;
+
+  -- Return the final state of the order
+  SELECT * INTO v_order FROM public.orders WHERE id = v_order.id;
+  RETURN v_order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_order_with_items(UUID, UUID, JSONB, JSONB, TEXT, UUID, VARCHAR, JSONB) TO authenticated;
+
+COMMENT ON FUNCTION public.create_order_with_items(UUID, UUID, JSONB, JSONB, TEXT, UUID, VARCHAR, JSONB) IS 'Atomically creates an order with its items, discounts, initial payment, product and supply inventory deductions. Any failure rolls back the whole order. Replays with the same client reference return the existing order. Overselling is blocked unless the store oversell_policy is warn.';
@@ -0,0 +1,67 @@
+-- Migration: Create print history
+-- Every print job of an order (claim stub, sales receipt, bag tags, payment receipt) is
+-- logged each time it ends: printed, failed after its retries, or cancelled. A failed job
+-- that staff retry is logged again when it ends the next time. Jobs are queued
+-- and retried on the device; the log shows who printed what for an order, from which
+-- device, how many attempts it took and whether it was a reprint.
+
+CREATE TABLE IF NOT EXISTS print_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  store_id UUID NOT NULL REFERENCES stores(id) ON DELETE CASCADE,
+  order_id UUID NULL, -- No foreign key since cancelled orders are deleted
+  order_number VARCHAR(50) NULL,
+  job_id UUID NOT NULL, -- Print job on the device
+  job_kind VARCHAR(30) NOT NULL,
+  title VARCHAR(255) NOT NULL,
+  status VARCHAR(20) NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  printer_state VARCHAR(30) NULL, -- Last printer state seen, e.g. paper_out
+  error TEXT NULL,
+  is_reprint BOOLEAN NOT NULL DEFAULT false,
+  printed_by UUID NOT NULL REFERENCES auth.users(id),
+  device_id VARCHAR(100) NULL,
+  queued_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  finished_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT print_history_status_check CHECK (status IN ('printed', 'failed', 'cancelled'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_print_history_order ON print_history(order_id, finished_at DESC);
+CREATE INDEX IF NOT EXISTS idx_print_history_store ON print_history(store_id, finished_at DESC);
+CREATE INDEX IF NOT EXISTS idx_print_history_job ON print_history(job_id);
+
+ALTER TABLE print_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow authenticated users to read print history" ON print_history;
+CREATE POLICY "Allow authenticated users to read print history"
+  ON print_history
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_store_assignments usa
+      WHERE usa.store_id = print_history.store_id
+      AND usa.user_id = auth.uid()
+    )
+  );
+
+-- Staff log their own print jobs; the log cannot be changed afterwards
+DROP POLICY IF EXISTS "Allow authenticated users to record print history" ON print_history;
+CREATE POLICY "Allow authenticated users to record print history"
+  ON print_history
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    printed_by = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM user_store_assignments usa
+      WHERE usa.store_id = print_history.store_id
+      AND usa.user_id = auth.uid()
+    )
+  );
+
+COMMENT ON TABLE print_history IS 'Print jobs of orders as they ended on the device, for audits';
+COMMENT ON COLUMN print_history.job_kind IS 'claim_stub, sales_receipt, bag_tags, payment_receipt or report';
+COMMENT ON COLUMN print_history.status IS 'printed, failed (after its retries) or cancelled';
+COMMENT ON COLUMN print_history.is_reprint IS 'Job was a reprint of an earlier job from the print queue';
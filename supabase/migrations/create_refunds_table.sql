@@ -0,0 +1,504 @@
+-- Migration: Create refunds table
+-- Records money given back to customers: the paid amount of cancelled orders and
+-- overpayments or partial refunds on open orders. Each refund is made against a
+-- specific payment, with the method it was paid out with, a reason and the manager
+-- who approved it. Refunds settle refund_required on cancelled orders, are taken out
+-- of the cash drawer of the shift they were paid from, and can be listed while owed.
+
+-- How much has been refunded so far
+ALTER TABLE public.cancelled_orders
+ADD COLUMN IF NOT EXISTS refunded_amount DECIMAL(10, 2) NOT NULL DEFAULT 0;
+
+ALTER TABLE public.orders
+ADD COLUMN IF NOT EXISTS refunded_amount DECIMAL(10, 2) NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.cancelled_orders.refunded_amount IS 'Total refunded so far; the refund is processed once it reaches refund_amount';
+COMMENT ON COLUMN public.orders.refunded_amount IS 'Total refunded on the order; paid_amount and balance are left unchanged';
+COMMENT ON COLUMN public.cancelled_orders.metadata IS 'Additional data stored as JSON (e.g. the payments of the order at cancellation, used for refunds)';
+
+CREATE TABLE IF NOT EXISTS refunds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  store_id UUID NOT NULL REFERENCES stores(id) ON DELETE CASCADE,
+  order_id UUID NOT NULL, -- No foreign key since cancelled orders are deleted
+  order_number VARCHAR(50) NOT NULL,
+  cancelled_order_id UUID NULL REFERENCES cancelled_orders(id) ON DELETE SET NULL,
+  payment_id UUID NULL, -- Payment being refunded (no foreign key since it goes with a cancelled order)
+  payment_method VARCHAR(50) NULL, -- Method of the payment being refunded
+  amount DECIMAL(10, 2) NOT NULL,
+  refund_method VARCHAR(50) NOT NULL, -- Method the money was given back with
+  refund_method_id UUID NULL REFERENCES payment_methods(id) ON DELETE SET NULL,
+  reference_number VARCHAR(100) NULL,
+  reason TEXT NOT NULL,
+  approved_by UUID NOT NULL REFERENCES auth.users(id),
+  refunded_by UUID NOT NULL REFERENCES auth.users(id),
+  shift_id UUID NULL REFERENCES cash_drawer_shifts(id) ON DELETE SET NULL,
+  refunded_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  notes TEXT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT refunds_amount_check CHECK (amount > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_refunds_store_refunded_at ON refunds(store_id, refunded_at DESC);
+CREATE INDEX IF NOT EXISTS idx_refunds_order_id ON refunds(order_id);
+CREATE INDEX IF NOT EXISTS idx_refunds_payment_id ON refunds(payment_id) WHERE payment_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_refunds_shift_id ON refunds(shift_id) WHERE shift_id IS NOT NULL;
+
+ALTER TABLE refunds ENABLE ROW LEVEL SECURITY;
+
+-- Refunds are recorded through record_refund only
+DROP POLICY IF EXISTS "Allow authenticated users to read refunds" ON refunds;
+CREATE POLICY "Allow authenticated users to read refunds"
+  ON refunds
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_store_assignments usa
+      WHERE usa.store_id = refunds.store_id
+      AND usa.user_id = auth.uid()
+    )
+  );
+
+COMMENT ON TABLE refunds IS 'Money given back to customers, against a specific payment, with the approving manager';
+COMMENT ON COLUMN refunds.payment_id IS 'Payment being refunded; for cancelled orders it refers to the payments snapshot in cancelled_orders.metadata';
+COMMENT ON COLUMN refunds.refund_method IS 'Payment method name the money was given back with, e.g. cash';
+COMMENT ON COLUMN refunds.approved_by IS 'Store manager who approved the refund';
+COMMENT ON COLUMN refunds.shift_id IS 'Open cash drawer shift of the user who gave the refund';
+
+-- Refunds still owed: the paid amount of cancelled orders and overpayments on open orders
+CREATE OR REPLACE VIEW public.pending_refunds
+WITH (security_invoker = true)
+AS
+SELECT
+  'cancelled'::VARCHAR(20) AS source,
+  co.id AS cancelled_order_id,
+  co.order_id,
+  co.store_id,
+  co.order_number,
+  co.customer_id,
+  TRIM(COALESCE(c.first_name, '') || ' ' || COALESCE(c.last_name, '')) AS customer_name,
+  c.phone AS customer_phone,
+  co.cancellation_reason AS reason,
+  co.cancelled_at AS since,
+  co.refund_amount,
+  co.refunded_amount,
+  co.refund_amount - co.refunded_amount AS amount_owed
+FROM public.cancelled_orders co
+LEFT JOIN public.customers c ON c.id = co.customer_id
+WHERE co.refund_required
+  AND co.refund_status <> 'processed'
+  AND co.refund_amount > co.refunded_amount
+UNION ALL
+SELECT
+  'overpayment'::VARCHAR(20),
+  NULL,
+  o.id,
+  o.store_id,
+  o.order_number,
+  o.customer_id,
+  TRIM(COALESCE(c.first_name, '') || ' ' || COALESCE(c.last_name, '')),
+  c.phone,
+  'Overpayment',
+  o.order_date,
+  o.paid_amount - o.total_amount,
+  o.refunded_amount,
+  o.paid_amount - o.refunded_amount - o.total_amount
+FROM public.orders o
+LEFT JOIN public.customers c ON c.id = o.customer_id
+WHERE o.order_status <> 'cancelled'
+  AND o.paid_amount - o.refunded_amount > o.total_amount;
+
+GRANT SELECT ON public.pending_refunds TO authenticated;
+
+COMMENT ON VIEW public.pending_refunds IS 'Cancelled orders whose paid amount has not been refunded yet, and orders paid more than their total';
+
+-- Record a refund against one payment of an order or a cancelled order.
+-- p_refund: {order_id | cancelled_order_id, payment_id, amount, refund_method_id,
+-- reference_number, reason, approval_id, notes}. payment_id may be left out only for
+-- orders cancelled before their payments were saved. approval_id is the approval issued by
+-- verify_manager_pin for the refund amount; managers may leave it out for their own refunds. Refunds of a payment cannot exceed it, and refunds of a cancelled order cannot
+-- exceed its refund_amount; the cancelled order is marked processed once fully refunded.
+CREATE OR REPLACE FUNCTION public.record_refund(p_refund JSONB)
+RETURNS refunds
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_cancelled cancelled_orders;
+  v_order orders;
+  v_store_id UUID;
+  v_order_id UUID;
+  v_order_number VARCHAR(50);
+  v_payment_id UUID;
+  v_payment_method VARCHAR(50);
+  v_payment_amount NUMERIC(10, 2);
+  v_method payment_methods;
+  v_amount NUMERIC(10, 2);
+  v_refunded NUMERIC(10, 2);
+  v_limit NUMERIC(10, 2);
+  v_approved_by UUID;
+  v_reason TEXT;
+  v_reference TEXT;
+  v_shift_id UUID;
+  v_refund refunds;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  v_amount := ROUND(COALESCE((p_refund->>'amount')::NUMERIC, 0), 2);
+  IF v_amount <= 0 THEN
+    RAISE EXCEPTION 'Refund amount must be greater than zero' USING ERRCODE = '22023';
+  END IF;
+
+  v_reason := NULLIF(TRIM(p_refund->>'reason'), '');
+  IF v_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required' USING ERRCODE = '22023';
+  END IF;
+
+  v_payment_id := NULLIF(p_refund->>'payment_id', '')::UUID;
+
+  IF NULLIF(p_refund->>'cancelled_order_id', '') IS NOT NULL THEN
+    SELECT * INTO v_cancelled
+    FROM cancelled_orders
+    WHERE id = (p_refund->>'cancelled_order_id')::UUID
+    FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Cancelled order not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    v_store_id := v_cancelled.store_id;
+    v_order_id := v_cancelled.order_id;
+    v_order_number := v_cancelled.order_number;
+    v_limit := v_cancelled.refund_amount - v_cancelled.refunded_amount;
+
+    -- The order's payments were saved on the cancelled order. Orders cancelled before
+    -- payments were saved are refunded as a whole.
+    IF jsonb_array_length(COALESCE(v_cancelled.metadata->'payments', '[]'::jsonb)) = 0 THEN
+      IF v_payment_id IS NULL THEN
+        v_payment_method := '';
+        v_payment_amount := v_limit;
+      END IF;
+    ELSE
+      SELECT p->>'payment_method', (p->>'amount')::NUMERIC
+      INTO v_payment_method, v_payment_amount
+      FROM jsonb_array_elements(v_cancelled.metadata->'payments') p
+      WHERE p->>'id' = v_payment_id::TEXT;
+    END IF;
+  ELSE
+    SELECT * INTO v_order
+    FROM orders
+    WHERE id = NULLIF(p_refund->>'order_id', '')::UUID
+    FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Order not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    v_store_id := v_order.store_id;
+    v_order_id := v_order.id;
+    v_order_number := v_order.order_number;
+    v_limit := v_order.paid_amount - v_order.refunded_amount;
+  END IF;
+
+  IF v_payment_method IS NULL AND v_payment_id IS NULL THEN
+    RAISE EXCEPTION 'Select the payment to refund' USING ERRCODE = '22023';
+  END IF;
+
+  -- Payments that still exist (open orders, or cancelled orders that were kept)
+  IF v_payment_method IS NULL THEN
+    SELECT payment_method, amount
+    INTO v_payment_method, v_payment_amount
+    FROM payments
+    WHERE id = v_payment_id
+      AND order_id = v_order_id
+      AND COALESCE(is_cancelled, false) = false;
+  END IF;
+
+  IF v_payment_method IS NULL THEN
+    RAISE EXCEPTION 'Payment not found on order %', v_order_number USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM user_store_assignments usa
+    WHERE usa.store_id = v_store_id
+    AND usa.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Access denied to this store' USING ERRCODE = '42501';
+  END IF;
+
+  v_approved_by := public.use_manager_approval(v_store_id, NULLIF(p_refund->>'approval_id', '')::UUID, v_amount);
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_refunded FROM refunds WHERE payment_id = v_payment_id;
+  IF v_payment_id IS NOT NULL AND v_amount > v_payment_amount - v_refunded THEN
+    RAISE EXCEPTION 'Only % of this payment can still be refunded', v_payment_amount - v_refunded USING ERRCODE = '22023';
+  END IF;
+
+  IF v_amount > v_limit THEN
+    RAISE EXCEPTION 'Only % can still be refunded on order %', GREATEST(v_limit, 0), v_order_number USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_method
+  FROM payment_methods
+  WHERE id = NULLIF(p_refund->>'refund_method_id', '')::UUID
+    AND (store_id IS NULL OR store_id = v_store_id);
+  IF v_method.id IS NULL THEN
+    RAISE EXCEPTION 'Refund method not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT v_method.is_active THEN
+    RAISE EXCEPTION '% is not accepted', v_method.display_name USING ERRCODE = '22023';
+  END IF;
+
+  v_reference := NULLIF(TRIM(p_refund->>'reference_number'), '');
+  IF v_method.requires_reference AND v_reference IS NULL THEN
+    RAISE EXCEPTION 'Reference number is required for % refunds', v_method.display_name USING ERRCODE = '22023';
+  END IF;
+
+  -- Cash refunds come out of the drawer of the user's open shift
+  SELECT id INTO v_shift_id
+  FROM cash_drawer_shifts
+  WHERE store_id = v_store_id
+    AND opened_by = auth.uid()
+    AND status = 'open';
+
+  INSERT INTO refunds (
+    store_id,
+    order_id,
+    order_number,
+    cancelled_order_id,
+    payment_id,
+    payment_method,
+    amount,
+    refund_method,
+    refund_method_id,
+    reference_number,
+    reason,
+    approved_by,
+    refunded_by,
+    shift_id,
+    notes
+  ) VALUES (
+    v_store_id,
+    v_order_id,
+    v_order_number,
+    v_cancelled.id,
+    v_payment_id,
+    NULLIF(v_payment_method, ''),
+    v_amount,
+    v_method.name,
+    v_method.id,
+    v_reference,
+    v_reason,
+    v_approved_by,
+    auth.uid(),
+    v_shift_id,
+    NULLIF(TRIM(p_refund->>'notes'), '')
+  )
+  RETURNING * INTO v_refund;
+
+  IF v_cancelled.id IS NOT NULL THEN
+    UPDATE cancelled_orders
+    SET
+      refunded_amount = refunded_amount + v_amount,
+      refund_method = v_method.name,
+      refund_reference_number = COALESCE(v_reference, refund_reference_number),
+      refund_status = CASE WHEN refunded_amount + v_amount >= refund_amount THEN 'processed' ELSE refund_status END,
+      refund_processed_at = CASE WHEN refunded_amount + v_amount >= refund_amount THEN NOW() ELSE refund_processed_at END,
+      refund_processed_by = CASE WHEN refunded_amount + v_amount >= refund_amount THEN auth.uid() ELSE refund_processed_by END
+    WHERE id = v_cancelled.id;
+  ELSE
+    UPDATE orders
+    SET
+      refunded_amount = refunded_amount + v_amount,
+      payment_status = CASE WHEN refunded_amount + v_amount >= paid_amount THEN 'refunded' ELSE payment_status END
+    WHERE id = v_order.id;
+  END IF;
+
+  RETURN v_refund;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_refund(JSONB) TO authenticated;
+
+COMMENT ON FUNCTION public.record_refund(JSONB) IS 'Records a manager-approved refund against one payment of an order or cancelled order, and settles the cancelled order once fully refunded.';
+
+-- Recreate the shift totals to take refunds paid from the drawer into account
+CREATE OR REPLACE FUNCTION public.get_cash_drawer_shift_summary(p_shift_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_shift cash_drawer_shifts;
+  v_methods JSONB;
+  v_refunds JSONB;
+  v_cash_payments NUMERIC(10, 2);
+  v_change_given NUMERIC(10, 2);
+  v_cash_refunds NUMERIC(10, 2);
+  v_paid_in NUMERIC(10, 2);
+  v_paid_out NUMERIC(10, 2);
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO v_shift FROM cash_drawer_shifts WHERE id = p_shift_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shift not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM user_store_assignments usa
+    WHERE usa.store_id = v_shift.store_id
+    AND usa.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Access denied to this store' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'payment_method', m.payment_method,
+    'count', m.payment_count,
+    'amount', m.amount
+  ) ORDER BY m.payment_method), '[]'::jsonb)
+  INTO v_methods
+  FROM (
+    SELECT payment_method, COUNT(*) AS payment_count, SUM(amount) AS amount
+    FROM payments
+    WHERE shift_id = p_shift_id AND COALESCE(is_cancelled, false) = false
+    GROUP BY payment_method
+  ) m;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'payment_method', r.refund_method,
+    'count', r.refund_count,
+    'amount', r.amount
+  ) ORDER BY r.refund_method), '[]'::jsonb)
+  INTO v_refunds
+  FROM (
+    SELECT refund_method, COUNT(*) AS refund_count, SUM(amount) AS amount
+    FROM refunds
+    WHERE shift_id = p_shift_id
+    GROUP BY refund_method
+  ) r;
+
+  SELECT COALESCE(SUM(amount), 0), COALESCE(SUM(change_given), 0)
+  INTO v_cash_payments, v_change_given
+  FROM payments
+  WHERE shift_id = p_shift_id AND COALESCE(is_cancelled, false) = false AND payment_method = 'cash';
+
+  SELECT COALESCE(SUM(amount), 0)
+  INTO v_cash_refunds
+  FROM refunds
+  WHERE shift_id = p_shift_id AND refund_method = 'cash';
+
+  SELECT
+    COALESCE(SUM(amount) FILTER (WHERE entry_type = 'paid_in'), 0),
+    COALESCE(SUM(amount) FILTER (WHERE entry_type = 'paid_out'), 0)
+  INTO v_paid_in, v_paid_out
+  FROM cash_drawer_entries
+  WHERE shift_id = p_shift_id;
+
+  RETURN jsonb_build_object(
+    'shift_id', v_shift.id,
+    'opening_float', v_shift.opening_float,
+    'payments', v_methods,
+    'refunds', v_refunds,
+    'cash_payments', v_cash_payments,
+    'change_given', v_change_given,
+    'cash_refunds', v_cash_refunds,
+    'paid_in', v_paid_in,
+    'paid_out', v_paid_out,
+    'expected_cash', v_shift.opening_float + v_cash_payments - v_cash_refunds + v_paid_in - v_paid_out
+  );
+END;
+$$;
+
+-- Recreate close_cash_drawer_shift so the other methods are expected net of their refunds
+CREATE OR REPLACE FUNCTION public.close_cash_drawer_shift(
+  p_shift_id UUID,
+  p_counts JSONB,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS cash_drawer_shifts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_shift cash_drawer_shifts;
+  v_summary JSONB;
+  v_expected_cash NUMERIC(10, 2);
+  v_counted_cash NUMERIC(10, 2);
+  v_closing_counts JSONB;
+BEGIN
+  v_shift := public.lock_cash_drawer_shift(p_shift_id);
+
+  IF v_shift.status <> 'open' THEN
+    RAISE EXCEPTION 'Shift is already closed' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_counts IS NULL OR jsonb_typeof(p_counts) <> 'object' OR NOT (p_counts ? 'cash') THEN
+    RAISE EXCEPTION 'The counted cash is required' USING ERRCODE = '22023';
+  END IF;
+
+  v_summary := public.get_cash_drawer_shift_summary(p_shift_id);
+  v_expected_cash := (v_summary->>'expected_cash')::NUMERIC;
+  v_counted_cash := ROUND((p_counts->>'cash')::NUMERIC, 2);
+
+  -- Cash first, then every method that had payments or refunds or was counted
+  SELECT jsonb_agg(jsonb_build_object(
+    'payment_method', c.payment_method,
+    'expected', c.expected,
+    'counted', c.counted,
+    'variance', c.counted - c.expected
+  ) ORDER BY c.payment_method <> 'cash', c.payment_method)
+  INTO v_closing_counts
+  FROM (
+    SELECT
+      methods.payment_method,
+      CASE
+        WHEN methods.payment_method = 'cash' THEN v_expected_cash
+        ELSE COALESCE((
+          SELECT (p->>'amount')::NUMERIC
+          FROM jsonb_array_elements(v_summary->'payments') p
+          WHERE p->>'payment_method' = methods.payment_method
+        ), 0) - COALESCE((
+          SELECT (r->>'amount')::NUMERIC
+          FROM jsonb_array_elements(v_summary->'refunds') r
+          WHERE r->>'payment_method' = methods.payment_method
+        ), 0)
+      END AS expected,
+      ROUND(COALESCE((p_counts->>methods.payment_method)::NUMERIC, 0), 2) AS counted
+    FROM (
+      SELECT 'cash' AS payment_method
+      UNION
+      SELECT p->>'payment_method' FROM jsonb_array_elements(v_summary->'payments') p
+      UNION
+      SELECT r->>'payment_method' FROM jsonb_array_elements(v_summary->'refunds') r
+      UNION
+      SELECT key FROM jsonb_object_keys(p_counts) key
+    ) methods
+  ) c;
+
+  UPDATE cash_drawer_shifts
+  SET
+    status = 'closed',
+    closed_by = auth.uid(),
+    closed_at = NOW(),
+    expected_cash = v_expected_cash,
+    counted_cash = v_counted_cash,
+    cash_variance = v_counted_cash - v_expected_cash,
+    closing_counts = v_closing_counts,
+    notes = NULLIF(TRIM(p_notes), '')
+  WHERE id = p_shift_id
+  RETURNING * INTO v_shift;
+
+  RETURN v_shift;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_cash_drawer_shift_summary(UUID) IS 'Payments and refunds per method, paid-in/out and expected cash of a shift (X report).';
@@ -0,0 +1,269 @@
+-- Migration: Create sales receipts
+-- Sales receipts are the customer's proof of payment, printed after each payment and
+-- separate from the claim stub. Each receipt covers the payments of an order that were
+-- not on a receipt yet, and snapshots them so reprints match the original. Receipts are
+-- numbered in sequence per store: the number is taken in the same transaction that
+-- attaches the payments, so numbers have no gaps or duplicates. The first print is
+-- recorded on the receipt; every later print is logged as a reprint.
+
+-- Business details printed on receipts
+ALTER TABLE public.stores
+ADD COLUMN IF NOT EXISTS business_name VARCHAR(255) NULL;
+
+ALTER TABLE public.stores
+ADD COLUMN IF NOT EXISTS tin VARCHAR(20) NULL;
+
+COMMENT ON COLUMN public.stores.business_name IS 'Registered business name printed on sales receipts, when different from the store name';
+COMMENT ON COLUMN public.stores.tin IS 'Taxpayer identification number printed on sales receipts';
+
+-- Last receipt number issued by each store. Only issue_sales_receipt touches it.
+CREATE TABLE IF NOT EXISTS sales_receipt_sequences (
+  store_id UUID PRIMARY KEY REFERENCES stores(id) ON DELETE CASCADE,
+  last_number INTEGER NOT NULL DEFAULT 0
+);
+
+ALTER TABLE sales_receipt_sequences ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS sales_receipts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  store_id UUID NOT NULL REFERENCES stores(id) ON DELETE CASCADE,
+  receipt_number INTEGER NOT NULL,
+  order_id UUID NOT NULL, -- No foreign key since cancelled orders are deleted
+  order_number VARCHAR(50) NOT NULL,
+  customer_name VARCHAR(255) NULL,
+  amount DECIMAL(10, 2) NOT NULL,
+  payments JSONB NOT NULL DEFAULT '[]'::jsonb,
+  paid_to_date DECIMAL(10, 2) NOT NULL,
+  balance_after DECIMAL(10, 2) NOT NULL,
+  issued_by UUID NOT NULL REFERENCES auth.users(id),
+  issued_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  printed_at TIMESTAMP WITH TIME ZONE NULL,
+  reprint_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT sales_receipts_amount_check CHECK (amount > 0),
+  CONSTRAINT sales_receipts_store_number_unique UNIQUE (store_id, receipt_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sales_receipts_store_issued_at ON sales_receipts(store_id, issued_at DESC);
+CREATE INDEX IF NOT EXISTS idx_sales_receipts_order_id ON sales_receipts(order_id);
+
+ALTER TABLE public.payments
+ADD COLUMN IF NOT EXISTS sales_receipt_id UUID NULL REFERENCES sales_receipts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_payments_sales_receipt_id
+ON public.payments(sales_receipt_id)
+WHERE sales_receipt_id IS NOT NULL;
+
+COMMENT ON COLUMN public.payments.sales_receipt_id IS 'Sales receipt the payment was printed on; NULL until a receipt is issued';
+
+CREATE TABLE IF NOT EXISTS sales_receipt_reprints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  receipt_id UUID NOT NULL REFERENCES sales_receipts(id) ON DELETE CASCADE,
+  store_id UUID NOT NULL REFERENCES stores(id) ON DELETE CASCADE,
+  reason TEXT NULL,
+  reprinted_by UUID NOT NULL REFERENCES auth.users(id),
+  reprinted_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_sales_receipt_reprints_receipt_id ON sales_receipt_reprints(receipt_id, reprinted_at DESC);
+
+ALTER TABLE sales_receipts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sales_receipt_reprints ENABLE ROW LEVEL SECURITY;
+
+-- Receipts are issued and printed through the functions below only
+DROP POLICY IF EXISTS "Allow authenticated users to read sales receipts" ON sales_receipts;
+CREATE POLICY "Allow authenticated users to read sales receipts"
+  ON sales_receipts
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_store_assignments usa
+      WHERE usa.store_id = sales_receipts.store_id
+      AND usa.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Allow authenticated users to read sales receipt reprints" ON sales_receipt_reprints;
+CREATE POLICY "Allow authenticated users to read sales receipt reprints"
+  ON sales_receipt_reprints
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_store_assignments usa
+      WHERE usa.store_id = sales_receipt_reprints.store_id
+      AND usa.user_id = auth.uid()
+    )
+  );
+
+COMMENT ON TABLE sales_receipts IS 'Customer sales receipts, numbered in sequence per store, one per payment event';
+COMMENT ON COLUMN sales_receipts.receipt_number IS 'Sequential number within the store, without gaps';
+COMMENT ON COLUMN sales_receipts.payments IS 'Snapshot of the tenders on the receipt: method, amount, reference, tendered and change';
+COMMENT ON COLUMN sales_receipts.paid_to_date IS 'Total paid on the order including this receipt';
+COMMENT ON COLUMN sales_receipts.balance_after IS 'Balance due on the order after this receipt';
+COMMENT ON COLUMN sales_receipts.printed_at IS 'First print; later prints are reprints';
+COMMENT ON TABLE sales_receipt_reprints IS 'Log of sales receipt reprints: who reprinted which receipt and when';
+
+-- Issue a sales receipt for the payments of an order that are not on a receipt yet, or
+-- only for the given payments. Returns the new sales_receipts row.
+CREATE OR REPLACE FUNCTION public.issue_sales_receipt(
+  p_order_id UUID,
+  p_payment_ids UUID[] DEFAULT NULL
+)
+RETURNS sales_receipts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders;
+  v_amount NUMERIC(10, 2);
+  v_payments JSONB;
+  v_customer_name VARCHAR(255);
+  v_number INTEGER;
+  v_receipt sales_receipts;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM user_store_assignments usa
+    WHERE usa.store_id = v_order.store_id
+    AND usa.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Access denied to this store' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT
+    COALESCE(SUM(p.amount), 0),
+    COALESCE(jsonb_agg(jsonb_build_object(
+      'id', p.id,
+      'payment_method', p.payment_method,
+      'method_name', COALESCE(pm.display_name, p.payment_method),
+      'amount', p.amount,
+      'reference', COALESCE(p.reference_number, CASE WHEN p.card_number IS NOT NULL THEN '****' || RIGHT(p.card_number, 4) END),
+      'amount_tendered', p.amount_tendered,
+      'change_given', COALESCE(p.change_given, 0)
+    ) ORDER BY p.created_at), '[]'::jsonb)
+  INTO v_amount, v_payments
+  FROM payments p
+  LEFT JOIN payment_methods pm ON pm.id = p.payment_method_id
+  WHERE p.order_id = p_order_id
+    AND p.sales_receipt_id IS NULL
+    AND (p_payment_ids IS NULL OR p.id = ANY(p_payment_ids))
+    AND COALESCE(p.is_cancelled, false) = false;
+
+  IF v_amount <= 0 THEN
+    RAISE EXCEPTION 'Order % has no payments without a receipt', v_order.order_number USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT NULLIF(TRIM(COALESCE(first_name, '') || ' ' || COALESCE(last_name, '')), '')
+  INTO v_customer_name
+  FROM customers
+  WHERE id = v_order.customer_id;
+
+  -- The sequence row stays locked until commit, so concurrent receipts wait their turn
+  INSERT INTO sales_receipt_sequences (store_id, last_number)
+  VALUES (v_order.store_id, 1)
+  ON CONFLICT (store_id) DO UPDATE SET last_number = sales_receipt_sequences.last_number + 1
+  RETURNING last_number INTO v_number;
+
+  INSERT INTO sales_receipts (
+    store_id,
+    receipt_number,
+    order_id,
+    order_number,
+    customer_name,
+    amount,
+    payments,
+    paid_to_date,
+    balance_after,
+    issued_by
+  ) VALUES (
+    v_order.store_id,
+    v_number,
+    v_order.id,
+    v_order.order_number,
+    COALESCE(v_customer_name, 'Walk-in Customer'),
+    v_amount,
+    v_payments,
+    v_order.paid_amount,
+    v_order.balance,
+    auth.uid()
+  )
+  RETURNING * INTO v_receipt;
+
+  UPDATE payments
+  SET sales_receipt_id = v_receipt.id
+  WHERE id IN (SELECT (p->>'id')::UUID FROM jsonb_array_elements(v_payments) p);
+
+  RETURN v_receipt;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.issue_sales_receipt(UUID, UUID[]) TO authenticated;
+
+COMMENT ON FUNCTION public.issue_sales_receipt(UUID, UUID[]) IS 'Issues the next sales receipt number of the store for the order payments not on a receipt yet, or only the given ones.';
+
+-- Record that a receipt is being printed. The first print sets printed_at; later prints
+-- are logged in sales_receipt_reprints. Returns the updated receipt, whose reprint_count
+-- tells the app whether to mark the print REPRINT.
+CREATE OR REPLACE FUNCTION public.record_sales_receipt_print(
+  p_receipt_id UUID,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS sales_receipts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_receipt sales_receipts;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO v_receipt FROM sales_receipts WHERE id = p_receipt_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Receipt not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM user_store_assignments usa
+    WHERE usa.store_id = v_receipt.store_id
+    AND usa.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Access denied to this store' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_receipt.printed_at IS NULL THEN
+    UPDATE sales_receipts
+    SET printed_at = NOW()
+    WHERE id = p_receipt_id
+    RETURNING * INTO v_receipt;
+  ELSE
+    INSERT INTO sales_receipt_reprints (receipt_id, store_id, reason, reprinted_by)
+    VALUES (v_receipt.id, v_receipt.store_id, NULLIF(TRIM(p_reason), ''), auth.uid());
+
+    UPDATE sales_receipts
+    SET reprint_count = reprint_count + 1
+    WHERE id = p_receipt_id
+    RETURNING * INTO v_receipt;
+  END IF;
+
+  RETURN v_receipt;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_sales_receipt_print(UUID, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.record_sales_receipt_print(UUID, TEXT) IS 'Marks the first print of a sales receipt, or logs a reprint.';
@@ -0,0 +1,463 @@
+-- Migration: Create service_supplies table
+-- A bill of materials for laundry services: each row declares how much of an inventory
+-- item (detergent, softener, bags) one unit of a service consumes in a store.
+-- create_order_with_items posts the matching usage transactions when an order is created.
+
+CREATE TABLE IF NOT EXISTS service_supplies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  store_id UUID NOT NULL REFERENCES stores(id) ON DELETE CASCADE, -- Recipes are per store, even for global services
+  service_id UUID NOT NULL REFERENCES services(id) ON DELETE CASCADE,
+  inventory_item_id UUID NOT NULL REFERENCES inventory_items(id) ON DELETE CASCADE,
+  quantity_per_unit NUMERIC(10, 3) NOT NULL, -- In the inventory item's unit of measure
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+
+  CONSTRAINT service_supplies_quantity_positive CHECK (quantity_per_unit > 0),
+  CONSTRAINT service_supplies_unique_item UNIQUE (store_id, service_id, inventory_item_id)
+);
+
+-- Create indexes for faster lookups
+CREATE INDEX IF NOT EXISTS idx_service_supplies_store_service ON service_supplies(store_id, service_id);
+CREATE INDEX IF NOT EXISTS idx_service_supplies_inventory_item ON service_supplies(inventory_item_id);
+
+-- Create updated_at trigger
+CREATE OR REPLACE FUNCTION update_service_supplies_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS service_supplies_updated_at ON service_supplies;
+CREATE TRIGGER service_supplies_updated_at
+  BEFORE UPDATE ON service_supplies
+  FOR EACH ROW
+  EXECUTE FUNCTION update_service_supplies_updated_at();
+
+-- Enable RLS
+ALTER TABLE service_supplies ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Allow authenticated users to read recipes for their assigned stores
+DROP POLICY IF EXISTS "Allow authenticated users to read service supplies" ON service_supplies;
+CREATE POLICY "Allow authenticated users to read service supplies"
+  ON service_supplies
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_store_assignments usa
+      WHERE usa.store_id = service_supplies.store_id
+      AND usa.user_id = auth.uid()
+    )
+  );
+
+-- Policy: Allow authenticated users to manage recipes for their assigned stores
+DROP POLICY IF EXISTS "Allow authenticated users to manage service supplies" ON service_supplies;
+CREATE POLICY "Allow authenticated users to manage service supplies"
+  ON service_supplies
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_store_assignments usa
+      WHERE usa.store_id = service_supplies.store_id
+      AND usa.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM user_store_assignments usa
+      WHERE usa.store_id = service_supplies.store_id
+      AND usa.user_id = auth.uid()
+    )
+  );
+
+COMMENT ON TABLE service_supplies IS 'Supplies consumed per unit of a service (bill of materials), per store';
+COMMENT ON COLUMN service_supplies.quantity_per_unit IS 'Amount of the inventory item consumed for one unit of the service, in the item unit of measure';
+
+-- Recreate create_order_with_items to post supply usage for service items
+CREATE OR REPLACE FUNCTION public.create_order_with_items(
+  p_store_id UUID,
+  p_customer_id UUID,
+  p_items JSONB,
+  p_payment JSONB DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_client_reference UUID DEFAULT NULL,
+  p_provisional_order_number VARCHAR(50) DEFAULT NULL
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_order public.orders;
+  v_item RECORD;
+  v_subtotal NUMERIC(10, 2) := 0;
+  v_paid NUMERIC(10, 2) := 0;
+  v_payment_status VARCHAR(20) := 'unpaid';
+  v_previous_stock NUMERIC;
+  v_oversell_policy TEXT;
+  v_supply RECORD;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  -- Replay of an order that was already created: return it as-is
+  IF p_client_reference IS NOT NULL THEN
+    SELECT * INTO v_order FROM public.orders WHERE client_reference = p_client_reference;
+    IF FOUND THEN
+      RETURN v_order;
+    END IF;
+  END IF;
+
+  SELECT COALESCE(settings->>'oversell_policy', 'block')
+  INTO v_oversell_policy
+  FROM public.stores
+  WHERE id = p_store_id;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item' USING ERRCODE = '22023';
+  END IF;
+
+  -- Compute totals server-side from the submitted items
+  SELECT COALESCE(SUM((item->>'quantity')::NUMERIC * (item->>'unit_price')::NUMERIC), 0)
+  INTO v_subtotal
+  FROM jsonb_array_elements(p_items) AS item;
+
+  IF p_payment IS NOT NULL THEN
+    v_paid := COALESCE((p_payment->>'amount')::NUMERIC, 0);
+  END IF;
+
+  IF v_paid < 0 OR v_paid > v_subtotal THEN
+    RAISE EXCEPTION 'Invalid payment amount: %', v_paid USING ERRCODE = '22023';
+  END IF;
+
+  IF v_paid > 0 AND v_paid = v_subtotal THEN
+    v_payment_status := 'paid';
+  ELSIF v_paid > 0 THEN
+    v_payment_status := 'partial';
+  END IF;
+
+  -- Create order
+  INSERT INTO public.orders (
+    store_id,
+    customer_id,
+    subtotal,
+    tax,
+    discount,
+    total_amount,
+    paid_amount,
+    balance,
+    payment_status,
+    order_status,
+    created_by,
+    notes,
+    client_reference,
+    provisional_order_number
+  ) VALUES (
+    p_store_id,
+    p_customer_id,
+    v_subtotal,
+    0,
+    0,
+    v_subtotal,
+    v_paid,
+    v_subtotal - v_paid,
+    v_payment_status,
+    'pending',
+    v_user_id,
+    p_notes,
+    p_client_reference,
+    p_provisional_order_number
+  )
+  RETURNING * INTO v_order;
+
+  -- Create order items and deduct inventory for products
+  FOR v_item IN
+    SELECT *
+    FROM jsonb_to_recordset(p_items) AS x(
+      item_type TEXT,
+      service_id UUID,
+      inventory_item_id UUID,
+      name TEXT,
+      quantity NUMERIC,
+      unit_price NUMERIC
+    )
+  LOOP
+    IF v_item.quantity IS NULL OR v_item.quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for item %', v_item.name USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO public.order_items (
+      order_id,
+      service_id,
+      inventory_item_id,
+      item_type,
+      service_name,
+      quantity,
+      unit_price,
+      total_price
+    ) VALUES (
+      v_order.id,
+      CASE WHEN v_item.item_type = 'service' THEN v_item.service_id ELSE NULL END,
+      CASE WHEN v_item.item_type = 'product' THEN v_item.inventory_item_id ELSE NULL END,
+      v_item.item_type,
+      v_item.name,
+      v_item.quantity,
+      v_item.unit_price,
+      v_item.quantity * v_item.unit_price
+    );
+
+    -- Consume supplies declared in the service recipe. Supply usage never blocks an order;
+    -- stock may go negative until the next purchase or count adjustment.
+    IF v_item.item_type = 'service' AND v_item.service_id IS NOT NULL THEN
+      FOR v_supply IN
+        SELECT ss.inventory_item_id, ss.quantity_per_unit * v_item.quantity AS quantity
+        FROM public.service_supplies ss
+        WHERE ss.service_id = v_item.service_id
+          AND ss.store_id = p_store_id
+      LOOP
+        SELECT current_stock
+        INTO v_previous_stock
+        FROM public.inventory_items
+        WHERE id = v_supply.inventory_item_id
+          AND store_id = p_store_id
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+          CONTINUE;
+        END IF;
+
+        UPDATE public.inventory_items
+        SET current_stock = v_previous_stock - v_supply.quantity,
+            updated_at = NOW()
+        WHERE id = v_supply.inventory_item_id;
+
+        INSERT INTO public.inventory_transactions (
+          store_id,
+          inventory_item_id,
+          transaction_type,
+          quantity,
+          previous_stock,
+          new_stock,
+          notes,
+          created_by,
+          order_id
+        ) VALUES (
+          p_store_id,
+          v_supply.inventory_item_id,
+          'usage',
+          -v_supply.quantity,
+          v_previous_stock,
+          v_previous_stock - v_supply.quantity,
+          'Used for ' || v_item.name || ' in order ' || v_order.order_number,
+          v_user_id,
+          v_order.id
+        );
+      END LOOP;
+    END IF;
+
+    IF v_item.item_type = 'product' AND v_item.inventory_item_id IS NOT NULL THEN
+      -- Lock the inventory row so concurrent checkouts cannot oversell
+      SELECT current_stock
+      INTO v_previous_stock
+      FROM public.inventory_items
+      WHERE id = v_item.inventory_item_id
+        AND store_id = p_store_id
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Inventory item % not found in store', v_item.name USING ERRCODE = 'P0002';
+      END IF;
+
+      IF v_previous_stock < v_item.quantity AND v_oversell_policy IS DISTINCT FROM 'warn' THEN
+        RAISE EXCEPTION 'Insufficient stock for %: % available', v_item.name, v_previous_stock USING ERRCODE = 'P0001';
+      END IF;
+
+      UPDATE public.inventory_items
+      SET current_stock = v_previous_stock - v_item.quantity,
+          updated_at = NOW()
+      WHERE id = v_item.inventory_item_id;
+
+      INSERT INTO public.inventory_transactions (
+        store_id,
+        inventory_item_id,
+        transaction_type,
+        quantity,
+        previous_stock,
+        new_stock,
+        notes,
+        created_by,
+        order_id
+      ) VALUES (
+        p_store_id,
+        v_item.inventory_item_id,
+        'usage',
+        -v_item.quantity,
+        v_previous_stock,
+        v_previous_stock - v_item.quantity,
+        'Sold in order ' || v_order.order_number,
+        v_user_id,
+        v_order.id
+      );
+    END IF;
+  END LOOP;
+
+  -- Record initial payment
+  IF v_paid > 0 THEN
+    INSERT INTO public.payments (
+      order_id,
+      amount,
+      payment_method,
+      payment_method_id,
+      card_number,
+      reference_number,
+      received_by,
+      notes,
+      client_reference
+    ) VALUES (
+      v_order.id,
+      v_paid,
+      p_payment->>'payment_method',
+      NULLIF(p_payment->>'payment_method_id', '')::UUID,
+      NULLIF(p_payment->>'card_number', ''),
+      NULLIF(p_payment->>'reference_number', ''),
+      v_user_id,
+      p_payment->>'notes',
+      NULLIF(p_payment->>'client_reference', '')::UUID
+    );
+  END IF;
+
+  -- Return the final state of the order
+  SELECT * INTO v_order FROM public.orders WHERE id = v_order.id;
+  RETURN v_order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_order_with_items(UUID, UUID, JSONB, JSONB, TEXT, UUID, VARCHAR) TO authenticated;
+
+COMMENT ON FUNCTION public.create_order_with_items(UUID, UUID, JSONB, JSONB, TEXT, UUID, VARCHAR) IS 'Atomically creates an order with its items, initial payment, product and supply inventory deductions. Any failure rolls back the whole order. Replays with the same client reference return the existing order. Overselling is blocked unless the store oversell_policy is warn.';
+
+-- Recreate restore_order_inventory so supplies consumed by work already done stay deducted.
+-- Only the net quantity still deducted for the order is returned, so calling it twice never
+-- restocks the same sale twice.
+CREATE OR REPLACE FUNCTION public.restore_order_inventory(
+  p_order_id UUID,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_order public.orders;
+  v_usage RECORD;
+  v_previous_stock NUMERIC;
+  v_restored INTEGER := 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Net stock movement per item for this order (usage is negative, returns positive)
+  FOR v_usage IN
+    SELECT inventory_item_id, SUM(quantity) AS net_quantity
+    FROM public.inventory_transactions
+    WHERE order_id = p_order_id
+      AND transaction_type IN ('usage', 'return')
+      -- Supplies are only returned if the order was never worked on
+      AND (
+        v_order.order_status = 'pending'
+        OR inventory_item_id IN (
+          SELECT oi.inventory_item_id
+          FROM public.order_items oi
+          WHERE oi.order_id = p_order_id
+            AND oi.item_type = 'product'
+        )
+      )
+    GROUP BY inventory_item_id
+    HAVING SUM(quantity) < 0
+  LOOP
+    SELECT current_stock
+    INTO v_previous_stock
+    FROM public.inventory_items
+    WHERE id = v_usage.inventory_item_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      CONTINUE;
+    END IF;
+
+    UPDATE public.inventory_items
+    SET current_stock = v_previous_stock - v_usage.net_quantity,
+        updated_at = NOW()
+    WHERE id = v_usage.inventory_item_id;
+
+    INSERT INTO public.inventory_transactions (
+      store_id,
+      inventory_item_id,
+      transaction_type,
+      quantity,
+      previous_stock,
+      new_stock,
+      notes,
+      created_by,
+      order_id
+    ) VALUES (
+      v_order.store_id,
+      v_usage.inventory_item_id,
+      'return',
+      -v_usage.net_quantity,
+      v_previous_stock,
+      v_previous_stock - v_usage.net_quantity,
+      'Restocked from cancelled order ' || v_order.order_number || COALESCE(': ' || p_reason, ''),
+      v_user_id,
+      p_order_id
+    );
+
+    v_restored := v_restored + 1;
+  END LOOP;
+
+  RETURN v_restored;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.restore_order_inventory(UUID, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.restore_order_inventory(UUID, TEXT) IS 'Returns stock deducted by an order back to inventory. Service supplies are only returned for orders still pending. Safe to call more than once. Returns the number of items restocked.';
+
+CREATE INDEX IF NOT EXISTS idx_inventory_transactions_store_created ON inventory_transactions(store_id, created_at);
+
+-- Net quantity of each item used in a store over the last p_days: sales and supply usage
+-- less what cancelled orders returned. Items with nothing used on balance are left out.
+CREATE OR REPLACE FUNCTION public.get_inventory_consumption(
+  p_store_id UUID,
+  p_days INTEGER DEFAULT 30
+)
+RETURNS TABLE (inventory_item_id UUID, quantity NUMERIC)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT it.inventory_item_id, -SUM(it.quantity) AS quantity
+  FROM public.inventory_transactions it
+  WHERE it.store_id = p_store_id
+    AND it.transaction_type IN ('usage', 'return')
+    AND it.created_at >= NOW() - make_interval(days => p_days)
+  GROUP BY it.inventory_item_id
+  HAVING SUM(it.quantity) < 0;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_inventory_consumption(UUID, INTEGER) TO authenticated;
+
+COMMENT ON FUNCTION public.get_inventory_consumption(UUID, INTEGER) IS 'Net quantity of each inventory item used in the store over the last p_days (default 30): usage transactions less returns from cancelled orders. Used to project days of stock.';
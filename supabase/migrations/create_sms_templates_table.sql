@@ -0,0 +1,70 @@
+-- Migration: Create SMS notification templates
+-- Stores can reword the customer notifications sent for each event, in English and Filipino.
+-- Only edited templates are stored; the app falls back to its built-in wording for the rest.
+-- Templates use {placeholders} such as {customer_name}, {order_number}, {balance}, {due_date}
+-- and {store_phone}, which the app fills in when sending.
+
+CREATE TABLE IF NOT EXISTS sms_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  store_id UUID NOT NULL REFERENCES stores(id) ON DELETE CASCADE,
+  event VARCHAR(30) NOT NULL,
+  language VARCHAR(5) NOT NULL DEFAULT 'en',
+  body TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_by UUID REFERENCES auth.users(id) DEFAULT auth.uid(),
+
+  CONSTRAINT sms_templates_event_check CHECK (
+    event IN ('order_received', 'ready_for_pickup', 'payment_received', 'pickup_reminder', 'overdue')
+  ),
+  CONSTRAINT sms_templates_language_check CHECK (language IN ('en', 'fil')),
+  CONSTRAINT sms_templates_body_not_blank CHECK (length(trim(body)) > 0),
+  CONSTRAINT sms_templates_store_event_language_unique UNIQUE (store_id, event, language)
+);
+
+-- Create updated_at trigger
+CREATE OR REPLACE FUNCTION update_sms_templates_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  NEW.updated_by = auth.uid();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS sms_templates_updated_at ON sms_templates;
+CREATE TRIGGER sms_templates_updated_at
+  BEFORE UPDATE ON sms_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_sms_templates_updated_at();
+
+-- Enable RLS
+ALTER TABLE sms_templates ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Allow authenticated users to read templates for their assigned stores
+DROP POLICY IF EXISTS "Allow authenticated users to read sms templates" ON sms_templates;
+CREATE POLICY "Allow authenticated users to read sms templates"
+  ON sms_templates
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_store_assignments usa
+      WHERE usa.store_id = sms_templates.store_id
+      AND usa.user_id = auth.uid()
+    )
+  );
+
+-- Policy: Only store managers can edit templates
+DROP POLICY IF EXISTS "Allow store managers to manage sms templates" ON sms_templates;
+CREATE POLICY "Allow store managers to manage sms templates"
+  ON sms_templates
+  FOR ALL
+  TO authenticated
+  USING (public.is_store_manager(auth.uid(), sms_templates.store_id))
+  WITH CHECK (public.is_store_manager(auth.uid(), sms_templates.store_id));
+
+COMMENT ON TABLE sms_templates IS 'Store wording of customer SMS notifications; events without a row use the app defaults';
+COMMENT ON COLUMN sms_templates.event IS 'order_received, ready_for_pickup, payment_received, pickup_reminder or overdue';
+COMMENT ON COLUMN sms_templates.language IS 'en (English) or fil (Filipino); stores send in their sms_language setting';
+COMMENT ON COLUMN sms_templates.body IS 'Message text with {placeholders} filled in by the app';
@@ -0,0 +1,534 @@
+-- Migration: Track unclaimed orders
+-- Ready orders that are not picked up are aged from the time they became ready. Customers
+-- get reminder SMS after the days listed in the store unclaimed_reminder_days setting; each
+-- reminder sent is kept in order_reminders so it is only sent once. After the
+-- storage_grace_days setting a storage fee of storage_fee_per_day accrues on the order. The
+-- fee is kept apart from the order total, so sales and the VAT breakdown are unchanged, and
+-- is added to the balance due. Orders left longer than abandon_after_days can be marked
+-- abandoned, a final status that needs a store manager.
+
+-- Orders that were ready before ready_at was recorded are aged from their last update
+UPDATE public.orders
+SET ready_at = updated_at
+WHERE order_status = 'ready'
+  AND ready_at IS NULL;
+
+ALTER TABLE public.orders
+ADD COLUMN IF NOT EXISTS storage_fee NUMERIC(10, 2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS abandoned_at TIMESTAMP WITH TIME ZONE NULL,
+ADD COLUMN IF NOT EXISTS abandoned_by UUID NULL REFERENCES auth.users(id),
+ADD COLUMN IF NOT EXISTS abandon_approved_by UUID NULL REFERENCES auth.users(id),
+ADD COLUMN IF NOT EXISTS abandon_notes TEXT NULL;
+
+COMMENT ON COLUMN public.orders.storage_fee IS 'Storage fee accrued while the order waited for pickup; due on top of total_amount and included in balance';
+COMMENT ON COLUMN public.orders.abandoned_at IS 'When the order was marked abandoned';
+COMMENT ON COLUMN public.orders.abandon_approved_by IS 'Manager who signed off the abandoned disposition';
+
+CREATE INDEX IF NOT EXISTS idx_orders_store_ready_at
+ON public.orders(store_id, ready_at)
+WHERE order_status = 'ready';
+
+CREATE TABLE IF NOT EXISTS order_reminders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  store_id UUID NOT NULL REFERENCES stores(id) ON DELETE CASCADE,
+  reminder_day INTEGER NOT NULL CHECK (reminder_day >= 0), -- Day after ready the reminder was for
+  channel VARCHAR(20) NOT NULL DEFAULT 'sms',
+  sent_by UUID NULL REFERENCES auth.users(id) DEFAULT auth.uid(),
+  sent_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  UNIQUE (order_id, reminder_day)
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_reminders_order ON order_reminders(order_id, sent_at);
+
+ALTER TABLE order_reminders ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow authenticated users to read order reminders" ON order_reminders;
+CREATE POLICY "Allow authenticated users to read order reminders"
+  ON order_reminders
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_store_assignments usa
+      WHERE usa.store_id = order_reminders.store_id
+      AND usa.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Allow authenticated users to record order reminders" ON order_reminders;
+CREATE POLICY "Allow authenticated users to record order reminders"
+  ON order_reminders
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM user_store_assignments usa
+      WHERE usa.store_id = order_reminders.store_id
+      AND usa.user_id = auth.uid()
+    )
+  );
+
+COMMENT ON TABLE order_reminders IS 'Pickup reminders sent to customers for unclaimed ready orders';
+
+-- Ready orders may now also be abandoned
+CREATE OR REPLACE FUNCTION public.order_status_transition_allowed(p_from VARCHAR, p_to VARCHAR)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (p_from, p_to) IN (
+    ('pending', 'in_progress'),
+    ('in_progress', 'ready'),
+    ('ready', 'completed'),
+    ('ready', 'abandoned'),
+    ('pending', 'cancelled'),
+    ('in_progress', 'cancelled'),
+    ('ready', 'cancelled')
+  );
+$$;
+
+-- Recreate the status check so only abandon_order abandons an order, and abandoned orders are final
+CREATE OR REPLACE FUNCTION public.check_order_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_source TEXT := NULLIF(current_setting('app.order_status_source', true), '');
+BEGIN
+  IF v_source IS NULL THEN
+    RAISE EXCEPTION 'Order status can only be changed with set_order_status, cancel_order, uncancel_order or abandon_order' USING ERRCODE = '42501';
+  END IF;
+
+  IF OLD.order_status = 'cancelled' THEN
+    IF v_source <> 'uncancel' THEN
+      RAISE EXCEPTION 'Cancelled orders can only be un-cancelled' USING ERRCODE = '22023';
+    END IF;
+  ELSIF OLD.order_status = 'abandoned' THEN
+    RAISE EXCEPTION 'Abandoned orders cannot be changed' USING ERRCODE = '22023';
+  ELSIF NEW.order_status = 'cancelled' AND v_source <> 'cancel' THEN
+    RAISE EXCEPTION 'Orders are cancelled with cancel_order' USING ERRCODE = '22023';
+  ELSIF NEW.order_status = 'abandoned' AND v_source <> 'abandon' THEN
+    RAISE EXCEPTION 'Orders are marked abandoned with abandon_order' USING ERRCODE = '22023';
+  ELSIF NOT public.order_status_transition_allowed(OLD.order_status, NEW.order_status) THEN
+    RAISE EXCEPTION 'Order cannot move from % to %', OLD.order_status, NEW.order_status USING ERRCODE = '22023';
+  END IF;
+
+  -- Keep the first time a stage was reached, so un-cancelling does not reset it
+  CASE NEW.order_status
+    WHEN 'in_progress' THEN
+      NEW.in_progress_at := COALESCE(NEW.in_progress_at, NOW());
+    WHEN 'ready' THEN
+      NEW.ready_at := COALESCE(NEW.ready_at, NOW());
+    WHEN 'completed' THEN
+      NEW.actual_completion := COALESCE(NEW.actual_completion, NOW());
+      NEW.completed_by := COALESCE(NEW.completed_by, auth.uid());
+    WHEN 'abandoned' THEN
+      NEW.abandoned_at := COALESCE(NEW.abandoned_at, NOW());
+      NEW.abandoned_by := COALESCE(NEW.abandoned_by, auth.uid());
+    ELSE
+      NULL;
+  END CASE;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Recreate set_order_status to refuse the abandoned status. The signature is unchanged.
+CREATE OR REPLACE FUNCTION public.set_order_status(
+  p_order_id UUID,
+  p_status VARCHAR,
+  p_device_id TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM user_store_assignments usa
+    WHERE usa.store_id = v_order.store_id
+    AND usa.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Access denied to this store' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_order.order_status = p_status THEN
+    RETURN v_order;
+  END IF;
+
+  IF p_status = 'cancelled' THEN
+    RAISE EXCEPTION 'Orders are cancelled with cancel_order' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_status = 'abandoned' THEN
+    RAISE EXCEPTION 'Orders are marked abandoned with abandon_order' USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM set_config('app.order_status_source', 'transition', true);
+  PERFORM set_config('app.order_status_device', COALESCE(p_device_id, ''), true);
+  PERFORM set_config('app.order_status_notes', COALESCE(NULLIF(TRIM(p_notes), ''), ''), true);
+
+  UPDATE orders
+  SET
+    order_status = p_status,
+    updated_at = NOW()
+  WHERE id = p_order_id
+  RETURNING * INTO v_order;
+
+  RETURN v_order;
+END;
+$$;
+
+-- Bring the storage fees of a store's ready orders up to date. The fee only grows: it is
+-- storage_fee_per_day for each full day past storage_grace_days since the order was ready.
+-- Returns the number of orders whose fee changed.
+CREATE OR REPLACE FUNCTION public.accrue_storage_fees(p_store_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_grace_days INTEGER;
+  v_fee_per_day NUMERIC(10, 2);
+  v_count INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM user_store_assignments usa
+    WHERE usa.store_id = p_store_id
+    AND usa.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Access denied to this store' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT
+    COALESCE((settings->>'storage_grace_days')::INTEGER, 30),
+    COALESCE((settings->>'storage_fee_per_day')::NUMERIC, 0)
+  INTO v_grace_days, v_fee_per_day
+  FROM stores
+  WHERE id = p_store_id;
+
+  IF v_fee_per_day IS NULL OR v_fee_per_day <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  WITH due AS (
+    SELECT
+      id,
+      ROUND(v_fee_per_day * GREATEST(0, FLOOR(EXTRACT(EPOCH FROM NOW() - ready_at) / 86400) - v_grace_days), 2) AS fee
+    FROM orders
+    WHERE store_id = p_store_id
+      AND order_status = 'ready'
+      AND ready_at IS NOT NULL
+    FOR UPDATE
+  )
+  UPDATE orders o
+  SET
+    storage_fee = due.fee,
+    balance = GREATEST(0, o.total_amount + due.fee - o.paid_amount),
+    payment_status = CASE
+      WHEN o.total_amount + due.fee - o.paid_amount <= 0 THEN 'paid'
+      WHEN o.paid_amount > 0 THEN 'partial'
+      ELSE 'unpaid'
+    END,
+    updated_at = NOW()
+  FROM due
+  WHERE o.id = due.id
+    AND due.fee > o.storage_fee;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.accrue_storage_fees(UUID) TO authenticated;
+
+COMMENT ON FUNCTION public.accrue_storage_fees(UUID) IS 'Adds storage fees to ready orders left past the store storage_grace_days (default 30) at storage_fee_per_day (default 0, no fee). Fees are kept out of the order total and VAT, and added to the balance.';
+
+-- Recreate record_order_payment so the balance includes the storage fee. The signature is unchanged.
+CREATE OR REPLACE FUNCTION public.record_order_payment(
+  p_order_id UUID,
+  p_payment JSONB,
+  p_force BOOLEAN DEFAULT false
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_order public.orders;
+  v_payment public.payments;
+  v_method public.payment_methods;
+  v_amount NUMERIC(10, 2);
+  v_tendered NUMERIC(10, 2);
+  v_paid NUMERIC(10, 2);
+  v_balance NUMERIC(10, 2);
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  -- Idempotent replays
+  IF NULLIF(p_payment->>'client_reference', '') IS NOT NULL THEN
+    SELECT * INTO v_payment
+    FROM public.payments
+    WHERE client_reference = (p_payment->>'client_reference')::UUID;
+
+    IF FOUND THEN
+      SELECT * INTO v_order FROM public.orders WHERE id = v_payment.order_id;
+      RETURN jsonb_build_object('payment', to_jsonb(v_payment), 'order', to_jsonb(v_order));
+    END IF;
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM user_store_assignments usa
+    WHERE usa.store_id = v_order.store_id
+    AND usa.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Access denied to this store' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_order.order_status = 'cancelled' THEN
+    RAISE EXCEPTION 'Order % is cancelled', v_order.order_number USING ERRCODE = '22023';
+  END IF;
+
+  v_amount := ROUND(COALESCE((p_payment->>'amount')::NUMERIC, 0), 2);
+  IF v_amount <= 0 THEN
+    RAISE EXCEPTION 'Payment amount must be greater than zero' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_amount > v_order.balance AND NOT COALESCE(p_force, false) THEN
+    RAISE EXCEPTION 'Payment of % exceeds the remaining balance of %', v_amount, v_order.balance USING ERRCODE = '22023';
+  END IF;
+
+  v_tendered := ROUND((p_payment->>'amount_tendered')::NUMERIC, 2);
+  IF v_tendered IS NOT NULL AND v_tendered < v_amount THEN
+    RAISE EXCEPTION 'Cash received is less than the payment amount' USING ERRCODE = '22023';
+  END IF;
+
+  v_method := public.validate_payment_tender(v_order.store_id, p_payment);
+
+  INSERT INTO public.payments (
+    order_id,
+    amount,
+    payment_method,
+    payment_method_id,
+    card_number,
+    reference_number,
+    received_by,
+    notes,
+    client_reference,
+    amount_tendered,
+    change_given
+  ) VALUES (
+    v_order.id,
+    v_amount,
+    v_method.name,
+    v_method.id,
+    NULLIF(TRIM(p_payment->>'card_number'), ''),
+    NULLIF(TRIM(p_payment->>'reference_number'), ''),
+    auth.uid(),
+    COALESCE(NULLIF(p_payment->>'notes', ''), 'Additional payment'),
+    NULLIF(p_payment->>'client_reference', '')::UUID,
+    v_tendered,
+    v_tendered - v_amount
+  )
+  RETURNING * INTO v_payment;
+
+  -- Recompute from all payments so cancelled payments and earlier replays are accounted for
+  SELECT COALESCE(SUM(amount), 0)
+  INTO v_paid
+  FROM public.payments
+  WHERE order_id = v_order.id AND COALESCE(is_cancelled, false) = false;
+
+  v_balance := GREATEST(0, v_order.total_amount + v_order.storage_fee - v_paid);
+
+  UPDATE public.orders
+  SET
+    paid_amount = v_paid,
+    balance = v_balance,
+    payment_status = CASE WHEN v_balance = 0 THEN 'paid' WHEN v_paid > 0 THEN 'partial' ELSE 'unpaid' END
+  WHERE id = v_order.id
+  RETURNING * INTO v_order;
+
+  RETURN jsonb_build_object('payment', to_jsonb(v_payment), 'order', to_jsonb(v_order));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_order_payment(UUID, JSONB, BOOLEAN) TO authenticated;
+
+-- Recreate pending_refunds so a paid storage fee is not taken for an overpayment
+CREATE OR REPLACE VIEW public.pending_refunds
+WITH (security_invoker = true)
+AS
+SELECT
+  'cancelled'::VARCHAR(20) AS source,
+  co.id AS cancelled_order_id,
+  co.order_id,
+  co.store_id,
+  co.order_number,
+  co.customer_id,
+  TRIM(COALESCE(c.first_name, '') || ' ' || COALESCE(c.last_name, '')) AS customer_name,
+  c.phone AS customer_phone,
+  co.cancellation_reason AS reason,
+  co.cancelled_at AS since,
+  co.refund_amount,
+  co.refunded_amount,
+  co.refund_amount - co.refunded_amount AS amount_owed
+FROM public.cancelled_orders co
+LEFT JOIN public.customers c ON c.id = co.customer_id
+WHERE co.refund_required
+  AND co.refund_status <> 'processed'
+  AND co.refund_amount > co.refunded_amount
+UNION ALL
+SELECT
+  'overpayment'::VARCHAR(20),
+  NULL,
+  o.id,
+  o.store_id,
+  o.order_number,
+  o.customer_id,
+  TRIM(COALESCE(c.first_name, '') || ' ' || COALESCE(c.last_name, '')),
+  c.phone,
+  'Overpayment',
+  o.order_date,
+  o.paid_amount - o.total_amount - o.storage_fee,
+  o.refunded_amount,
+  o.paid_amount - o.refunded_amount - o.total_amount - o.storage_fee
+FROM public.orders o
+LEFT JOIN public.customers c ON c.id = o.customer_id
+WHERE o.order_status <> 'cancelled'
+  AND o.paid_amount - o.refunded_amount > o.total_amount + o.storage_fee;
+
+GRANT SELECT ON public.pending_refunds TO authenticated;
+
+-- Mark a ready order abandoned. Needs a store manager, or for other staff an approval issued
+-- by verify_manager_pin, and the order must have been ready for at least the store
+-- abandon_after_days.
+DROP FUNCTION IF EXISTS public.abandon_order(UUID, UUID, TEXT, TEXT);
+CREATE OR REPLACE FUNCTION public.abandon_order(
+  p_order_id UUID,
+  p_approval_id UUID DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_device_id TEXT DEFAULT NULL
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders;
+  v_approved_by UUID;
+  v_abandon_after_days INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM user_store_assignments usa
+    WHERE usa.store_id = v_order.store_id
+    AND usa.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Access denied to this store' USING ERRCODE = '42501';
+  END IF;
+
+  v_approved_by := public.use_manager_approval(v_order.store_id, p_approval_id);
+
+  IF v_order.order_status <> 'ready' THEN
+    RAISE EXCEPTION 'Only orders ready for pickup can be marked abandoned' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT COALESCE((settings->>'abandon_after_days')::INTEGER, 60)
+  INTO v_abandon_after_days
+  FROM stores
+  WHERE id = v_order.store_id;
+
+  IF v_order.ready_at IS NULL OR v_order.ready_at + make_interval(days => v_abandon_after_days) > NOW() THEN
+    RAISE EXCEPTION 'Orders can only be marked abandoned % days after they are ready', v_abandon_after_days USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM set_config('app.order_status_source', 'abandon', true);
+  PERFORM set_config('app.order_status_device', COALESCE(p_device_id, ''), true);
+  PERFORM set_config('app.order_status_notes', COALESCE(NULLIF(TRIM(p_notes), ''), ''), true);
+
+  UPDATE orders
+  SET
+    order_status = 'abandoned',
+    abandon_approved_by = v_approved_by,
+    abandon_notes = NULLIF(TRIM(p_notes), ''),
+    updated_at = NOW()
+  WHERE id = p_order_id
+  RETURNING * INTO v_order;
+
+  RETURN v_order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.abandon_order(UUID, UUID, TEXT, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.abandon_order(UUID, UUID, TEXT, TEXT) IS 'Marks a ready order abandoned, a final status. Needs a store manager or a single-use manager approval, and the order must have been ready for the store abandon_after_days (default 60). Storage fees stop accruing.';
+
+-- Ready orders waiting for pickup, with how long they have waited and the reminders sent
+CREATE OR REPLACE VIEW public.unclaimed_orders
+WITH (security_invoker = true)
+AS
+SELECT
+  o.id AS order_id,
+  o.store_id,
+  o.order_number,
+  o.customer_id,
+  NULLIF(TRIM(COALESCE(c.first_name, '') || ' ' || COALESCE(c.last_name, '')), '') AS customer_name,
+  c.first_name AS customer_first_name,
+  c.phone AS customer_phone,
+  o.ready_at,
+  FLOOR(EXTRACT(EPOCH FROM NOW() - o.ready_at) / 86400)::INTEGER AS days_ready,
+  o.total_amount,
+  o.balance,
+  o.storage_fee,
+  r.reminder_days,
+  r.last_reminder_at
+FROM orders o
+LEFT JOIN customers c ON c.id = o.customer_id
+LEFT JOIN LATERAL (
+  SELECT
+    ARRAY_AGG(orr.reminder_day ORDER BY orr.reminder_day) AS reminder_days,
+    MAX(orr.sent_at) AS last_reminder_at
+  FROM order_reminders orr
+  WHERE orr.order_id = o.id
+) r ON true
+WHERE o.order_status = 'ready'
+  AND o.ready_at IS NOT NULL;
+
+GRANT SELECT ON public.unclaimed_orders TO authenticated;
+
+COMMENT ON VIEW public.unclaimed_orders IS 'Ready orders not yet picked up, with the days since they were ready, the storage fee so far and the reminder days already sent';
@@ -0,0 +1,884 @@
+-- Migration: Create vouchers and manager approval for discounts
+-- Cashiers can apply manual discounts and voucher codes at checkout. Both are stored in
+-- order_adjustments with the user who applied them. Discounts above the store's
+-- discount_approval_threshold (percent of subtotal, stores.settings) need a manager PIN.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+CREATE TABLE IF NOT EXISTS vouchers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  store_id UUID REFERENCES stores(id) ON DELETE CASCADE, -- NULL = valid in every store
+  code VARCHAR(50) NOT NULL,
+  description TEXT,
+  discount_type VARCHAR(10) NOT NULL DEFAULT 'percent',
+  discount_value NUMERIC(10, 2) NOT NULL,
+  max_discount NUMERIC(10, 2), -- Cap for percent vouchers
+  min_spend NUMERIC(10, 2) NOT NULL DEFAULT 0, -- Minimum order subtotal
+  usage_limit INTEGER, -- Total orders that may use the voucher; NULL = unlimited
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  starts_at TIMESTAMP WITH TIME ZONE,
+  ends_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+
+  CONSTRAINT vouchers_discount_type_check CHECK (discount_type IN ('percent', 'fixed')),
+  CONSTRAINT vouchers_discount_value_check CHECK (
+    discount_value > 0 AND (discount_type <> 'percent' OR discount_value <= 100)
+  ),
+  CONSTRAINT vouchers_usage_limit_check CHECK (usage_limit IS NULL OR usage_limit > 0)
+);
+
+-- Codes are stored uppercase so the POS can look them up with an exact match
+UPDATE vouchers SET code = UPPER(code) WHERE code <> UPPER(code);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'vouchers_code_uppercase_check'
+  ) THEN
+    ALTER TABLE vouchers
+    ADD CONSTRAINT vouchers_code_uppercase_check CHECK (code = UPPER(code));
+  END IF;
+END $$;
+
+-- Codes are case-insensitive and unique per store (global codes share one scope)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_vouchers_store_code
+  ON vouchers (COALESCE(store_id, '00000000-0000-0000-0000-000000000000'::UUID), UPPER(code));
+
+-- Create updated_at trigger
+CREATE OR REPLACE FUNCTION update_vouchers_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS vouchers_updated_at ON vouchers;
+CREATE TRIGGER vouchers_updated_at
+  BEFORE UPDATE ON vouchers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_vouchers_updated_at();
+
+-- Enable RLS
+ALTER TABLE vouchers ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Allow authenticated users to read global vouchers and vouchers for their assigned stores
+DROP POLICY IF EXISTS "Allow authenticated users to read vouchers" ON vouchers;
+CREATE POLICY "Allow authenticated users to read vouchers"
+  ON vouchers
+  FOR SELECT
+  TO authenticated
+  USING (
+    store_id IS NULL
+    OR EXISTS (
+      SELECT 1 FROM user_store_assignments usa
+      WHERE usa.store_id = vouchers.store_id
+      AND usa.user_id = auth.uid()
+    )
+  );
+
+-- Policy: Allow store admins to manage vouchers for their stores
+DROP POLICY IF EXISTS "Allow store admins to manage vouchers" ON vouchers;
+CREATE POLICY "Allow store admins to manage vouchers"
+  ON vouchers
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_store_assignments usa
+      JOIN users u ON u.id = usa.user_id
+      WHERE usa.store_id = vouchers.store_id
+      AND u.id = auth.uid()
+      AND (u.role = 'super_admin' OR u.role = 'store_owner' OR u.role = 'manager')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM user_store_assignments usa
+      JOIN users u ON u.id = usa.user_id
+      WHERE usa.store_id = vouchers.store_id
+      AND u.id = auth.uid()
+      AND (u.role = 'super_admin' OR u.role = 'store_owner' OR u.role = 'manager')
+    )
+  );
+
+COMMENT ON TABLE vouchers IS 'Voucher codes redeemable at checkout';
+COMMENT ON COLUMN vouchers.usage_limit IS 'Maximum number of orders that can use the voucher. Usage is counted from order_adjustments';
+
+-- Who applied and who approved each discount
+ALTER TABLE order_adjustments
+ADD COLUMN IF NOT EXISTS voucher_id UUID REFERENCES vouchers(id) ON DELETE SET NULL;
+
+ALTER TABLE order_adjustments
+ADD COLUMN IF NOT EXISTS approved_by UUID REFERENCES auth.users(id);
+
+CREATE INDEX IF NOT EXISTS idx_order_adjustments_voucher ON order_adjustments(voucher_id);
+
+COMMENT ON COLUMN order_adjustments.source IS 'Where the adjustment came from: pricing_rule, manual or voucher';
+COMMENT ON COLUMN order_adjustments.created_by IS 'User who applied the discount';
+COMMENT ON COLUMN order_adjustments.approved_by IS 'Manager who approved a discount above the store threshold';
+
+-- Manager PINs are stored as bcrypt hashes and only checked server-side
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS manager_pin_hash TEXT;
+
+COMMENT ON COLUMN users.manager_pin_hash IS 'bcrypt hash of the PIN used to approve discounts at the POS';
+
+-- Check if a user is a super admin, or a store owner or manager assigned to the store
+CREATE OR REPLACE FUNCTION public.is_store_manager(p_user_id UUID, p_store_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM users u
+    WHERE u.id = p_user_id
+    AND (
+      u.role = 'super_admin'
+      OR (
+        u.role IN ('store_owner', 'manager')
+        AND EXISTS (
+          SELECT 1 FROM user_store_assignments usa
+          WHERE usa.user_id = u.id
+          AND usa.store_id = p_store_id
+        )
+      )
+    )
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_store_manager(UUID, UUID) TO authenticated;
+
+-- Approvals given by entering a manager PIN. An approval is only valid for a few minutes,
+-- for one store and up to the discount total the manager saw, and is used up by the order.
+CREATE TABLE IF NOT EXISTS manager_approvals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  store_id UUID NOT NULL REFERENCES stores(id) ON DELETE CASCADE,
+  approved_by UUID NOT NULL REFERENCES auth.users(id),
+  requested_by UUID NOT NULL REFERENCES auth.users(id),
+  max_amount NUMERIC(10, 2), -- Discount total approved; NULL when the approval is not for an amount
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW() + INTERVAL '15 minutes',
+  used_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_manager_approvals_store ON manager_approvals(store_id, created_at DESC);
+
+-- Only the functions below read and write approvals
+ALTER TABLE manager_approvals ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE manager_approvals IS 'Single-use approvals issued by verify_manager_pin';
+COMMENT ON COLUMN manager_approvals.max_amount IS 'Largest total of manual discounts and vouchers, or largest refund, the approval covers';
+
+-- Wrong PINs entered by each user in each store. Too many lock the user out for a while.
+CREATE TABLE IF NOT EXISTS manager_pin_attempts (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  store_id UUID NOT NULL REFERENCES stores(id) ON DELETE CASCADE,
+  failed_attempts INTEGER NOT NULL DEFAULT 0,
+  locked_until TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (user_id, store_id)
+);
+
+ALTER TABLE manager_pin_attempts ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE manager_pin_attempts IS 'Wrong manager PINs per user and store; 5 in a row lock the user out of PIN approval for 15 minutes';
+
+-- Set the current user's manager PIN (4 to 8 digits)
+-- pgcrypto lives in the extensions schema on Supabase
+CREATE OR REPLACE FUNCTION public.set_manager_pin(p_pin TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF p_pin IS NULL OR p_pin !~ '^[0-9]{4,8}$' THEN
+    RAISE EXCEPTION 'PIN must be 4 to 8 digits' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE users
+  SET manager_pin_hash = crypt(p_pin, gen_salt('bf'))
+  WHERE id = auth.uid()
+  AND role IN ('super_admin', 'store_owner', 'manager');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only managers can set an approval PIN' USING ERRCODE = '42501';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_manager_pin(TEXT) TO authenticated;
+
+-- The approval now carries the amount it was given for
+DROP FUNCTION IF EXISTS public.verify_manager_pin(UUID, TEXT);
+
+-- Find the store manager whose PIN matches and issue an approval for the current user.
+-- Returns no rows when the PIN is wrong.
+CREATE OR REPLACE FUNCTION public.verify_manager_pin(p_store_id UUID, p_pin TEXT, p_amount NUMERIC DEFAULT NULL)
+RETURNS TABLE (user_id UUID, full_name TEXT, approval_id UUID, max_amount NUMERIC, expires_at TIMESTAMPTZ)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_attempts public.manager_pin_attempts;
+  v_manager_id UUID;
+  v_full_name TEXT;
+  v_approval public.manager_approvals;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO v_attempts
+  FROM manager_pin_attempts a
+  WHERE a.user_id = v_user_id AND a.store_id = p_store_id
+  FOR UPDATE;
+
+  IF v_attempts.locked_until IS NOT NULL AND v_attempts.locked_until > NOW() THEN
+    RAISE EXCEPTION 'Too many wrong PINs. Try again in % minutes',
+      CEIL(EXTRACT(EPOCH FROM v_attempts.locked_until - NOW()) / 60)
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT u.id, TRIM(COALESCE(u.first_name, '') || ' ' || COALESCE(u.last_name, ''))
+  INTO v_manager_id, v_full_name
+  FROM users u
+  WHERE u.manager_pin_hash IS NOT NULL
+    AND u.manager_pin_hash = crypt(p_pin, u.manager_pin_hash)
+    AND public.is_store_manager(u.id, p_store_id)
+  LIMIT 1;
+
+  IF v_manager_id IS NULL THEN
+    INSERT INTO manager_pin_attempts AS a (user_id, store_id, failed_attempts)
+    VALUES (v_user_id, p_store_id, 1)
+    ON CONFLICT ON CONSTRAINT manager_pin_attempts_pkey DO UPDATE
+    SET failed_attempts = CASE WHEN a.failed_attempts + 1 >= 5 THEN 0 ELSE a.failed_attempts + 1 END,
+        locked_until = CASE WHEN a.failed_attempts + 1 >= 5 THEN NOW() + INTERVAL '15 minutes' ELSE a.locked_until END,
+        updated_at = NOW();
+    RETURN;
+  END IF;
+
+  DELETE FROM manager_pin_attempts a WHERE a.user_id = v_user_id AND a.store_id = p_store_id;
+
+  INSERT INTO manager_approvals (store_id, approved_by, requested_by, max_amount)
+  VALUES (p_store_id, v_manager_id, v_user_id, ROUND(p_amount, 2))
+  RETURNING * INTO v_approval;
+
+  RETURN QUERY SELECT v_manager_id, v_full_name, v_approval.id, v_approval.max_amount, v_approval.expires_at;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.verify_manager_pin(UUID, TEXT, NUMERIC) TO authenticated;
+
+COMMENT ON FUNCTION public.verify_manager_pin(UUID, TEXT, NUMERIC) IS 'Returns the manager of the store whose approval PIN matches with a single-use approval for up to p_amount of discounts. Five wrong PINs in a row lock the user out for 15 minutes.';
+
+-- Check the approvals on the discounts of an order and use them up. Manual discounts and
+-- vouchers count toward the store threshold, and so does any other discount the server
+-- cannot check: pricing rules count only above what an active rule of the store allows, the
+-- senior citizen / PWD discounts only above the store rates. Above the threshold an approval
+-- must cover the whole counted total. Vouchers above what the voucher gives are refused.
+-- Returns the adjustments with approved_by set from the approvals; approved_by sent by the
+-- app is ignored. p_items gives the lines for the limits of line discounts.
+DROP FUNCTION IF EXISTS public.use_discount_approvals(UUID, JSONB, NUMERIC, NUMERIC);
+CREATE OR REPLACE FUNCTION public.use_discount_approvals(
+  p_store_id UUID,
+  p_adjustments JSONB,
+  p_subtotal NUMERIC,
+  p_threshold NUMERIC,
+  p_items JSONB DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_adjustments JSONB := COALESCE(p_adjustments, '[]'::jsonb);
+  v_approval_ids UUID[];
+  v_used INTEGER;
+  v_tax_rate NUMERIC;
+  v_senior_pwd_rate NUMERIC;
+  v_counted_discount NUMERIC(10, 2);
+  v_voucher_code TEXT;
+  v_approved_amount NUMERIC(10, 2);
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF jsonb_typeof(v_adjustments) <> 'array' THEN
+    RETURN p_adjustments;
+  END IF;
+
+  SELECT COALESCE(ARRAY_AGG(DISTINCT NULLIF(adj->>'approval_id', '')::UUID), ARRAY[]::UUID[])
+  INTO v_approval_ids
+  FROM jsonb_array_elements(v_adjustments) AS adj
+  WHERE NULLIF(adj->>'approval_id', '') IS NOT NULL;
+
+  -- Each approval is used once, in the store it was given for, before it expires
+  UPDATE manager_approvals ma
+  SET used_at = NOW()
+  WHERE ma.id = ANY(v_approval_ids)
+    AND ma.store_id = p_store_id
+    AND ma.used_at IS NULL
+    AND ma.expires_at > NOW()
+    AND public.is_store_manager(ma.approved_by, p_store_id);
+
+  GET DIAGNOSTICS v_used = ROW_COUNT;
+  IF v_used < COALESCE(array_length(v_approval_ids, 1), 0) THEN
+    RAISE EXCEPTION 'Manager approval has expired or was already used' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT
+    COALESCE((settings->>'tax_rate')::NUMERIC, 0),
+    COALESCE((settings->>'senior_pwd_discount_rate')::NUMERIC, 20)
+  INTO v_tax_rate, v_senior_pwd_rate
+  FROM stores
+  WHERE id = p_store_id;
+
+  -- Discounts of the same rule on the same line, of the same voucher or of the same statutory
+  -- discount are added up before they are checked against their limit. A centavo is
+  -- allowed for rounding in the app.
+  WITH adjustments AS (
+    SELECT
+      adj->>'source' AS source,
+      CASE WHEN adj->>'source' = 'pricing_rule' THEN NULLIF(adj->>'pricing_rule_id', '')::UUID END AS pricing_rule_id,
+      CASE WHEN adj->>'source' = 'pricing_rule' THEN (adj->>'item_index')::INTEGER END AS item_index,
+      CASE WHEN adj->>'source' = 'voucher' THEN NULLIF(adj->>'voucher_id', '')::UUID END AS voucher_id,
+      ROUND((adj->>'amount')::NUMERIC, 2) AS amount
+    FROM jsonb_array_elements(v_adjustments) AS adj
+  ),
+  grouped AS (
+    SELECT a.source, a.pricing_rule_id, a.item_index, a.voucher_id, SUM(a.amount) AS amount
+    FROM adjustments a
+    GROUP BY a.source, a.pricing_rule_id, a.item_index, a.voucher_id
+  ),
+  limits AS (
+    SELECT
+      g.amount,
+      g.source,
+      v.code AS voucher_code,
+      CASE g.source
+        WHEN 'pricing_rule' THEN CASE
+          WHEN pr.id IS NULL THEN 0
+          WHEN g.item_index IS NULL AND pr.discount_type = 'percent' THEN ROUND(p_subtotal * pr.discount_value / 100, 2)
+          WHEN g.item_index IS NULL THEN pr.discount_value
+          WHEN pr.discount_type = 'percent' THEN ROUND(line.total * pr.discount_value / 100, 2)
+          ELSE LEAST(line.total, ROUND(line.quantity * pr.discount_value, 2))
+        END
+        WHEN 'voucher' THEN CASE
+          WHEN v.id IS NULL THEN 0
+          WHEN v.discount_type = 'percent' THEN LEAST(ROUND(p_subtotal * v.discount_value / 100, 2), COALESCE(v.max_discount, p_subtotal))
+          ELSE LEAST(v.discount_value, p_subtotal)
+        END
+        WHEN 'senior_pwd' THEN ROUND(p_subtotal * v_senior_pwd_rate / 100, 2)
+        WHEN 'vat_exemption' THEN ROUND(p_subtotal * v_tax_rate / (100 + v_tax_rate), 2)
+        ELSE 0
+      END AS max_amount
+    FROM grouped g
+    LEFT JOIN pricing_rules pr
+      ON pr.id = g.pricing_rule_id
+      AND pr.store_id = p_store_id
+      AND pr.is_active
+      AND (pr.starts_at IS NULL OR pr.starts_at <= NOW())
+      AND (pr.ends_at IS NULL OR pr.ends_at > NOW())
+    LEFT JOIN vouchers v ON v.id = g.voucher_id
+    LEFT JOIN LATERAL (
+      SELECT
+        (item->>'quantity')::NUMERIC AS quantity,
+        ROUND((item->>'quantity')::NUMERIC * (item->>'unit_price')::NUMERIC, 2) AS total
+      FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) WITH ORDINALITY AS i(item, position)
+      WHERE i.position = g.item_index + 1
+    ) line ON true
+  )
+  SELECT
+    COALESCE(SUM(amount) FILTER (
+      WHERE source IN ('manual', 'voucher') OR amount > COALESCE(max_amount, 0) + 0.01
+    ), 0),
+    MIN(voucher_code) FILTER (WHERE source = 'voucher' AND amount > max_amount + 0.01)
+  INTO v_counted_discount, v_voucher_code
+  FROM limits;
+
+  IF v_voucher_code IS NOT NULL THEN
+    RAISE EXCEPTION 'Voucher % discount is more than the voucher gives', v_voucher_code USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_counted_discount > ROUND(p_subtotal * p_threshold / 100, 2) THEN
+    SELECT MAX(ma.max_amount) INTO v_approved_amount
+    FROM manager_approvals ma
+    WHERE ma.id = ANY(v_approval_ids);
+
+    IF v_approved_amount IS NULL OR v_counted_discount > v_approved_amount THEN
+      RAISE EXCEPTION 'Manager approval is required for discounts above % percent', p_threshold USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  IF p_adjustments IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN (
+    SELECT COALESCE(jsonb_agg(
+      (adj - 'approved_by') || CASE
+        WHEN ma.id IS NULL THEN '{}'::jsonb
+        ELSE jsonb_build_object('approved_by', ma.approved_by)
+      END
+      ORDER BY position
+    ), '[]'::jsonb)
+    FROM jsonb_array_elements(p_adjustments) WITH ORDINALITY AS x(adj, position)
+    LEFT JOIN manager_approvals ma ON ma.id = NULLIF(adj->>'approval_id', '')::UUID
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.use_discount_approvals(UUID, JSONB, NUMERIC, NUMERIC, JSONB) TO authenticated;
+
+-- Check the approval for a refund, un-cancel or other manager-only action and use it up.
+-- Without an approval the current user must be a store manager. With p_amount the approval
+-- must have been given for at least that amount. Returns the manager who approved.
+CREATE OR REPLACE FUNCTION public.use_manager_approval(
+  p_store_id UUID,
+  p_approval_id UUID,
+  p_amount NUMERIC DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_approval public.manager_approvals;
+BEGIN
+  IF p_approval_id IS NULL THEN
+    IF NOT public.is_store_manager(auth.uid(), p_store_id) THEN
+      RAISE EXCEPTION 'Manager approval is required' USING ERRCODE = '42501';
+    END IF;
+    RETURN auth.uid();
+  END IF;
+
+  UPDATE manager_approvals ma
+  SET used_at = NOW()
+  WHERE ma.id = p_approval_id
+    AND ma.store_id = p_store_id
+    AND ma.used_at IS NULL
+    AND ma.expires_at > NOW()
+    AND public.is_store_manager(ma.approved_by, p_store_id)
+  RETURNING * INTO v_approval;
+
+  IF v_approval.id IS NULL THEN
+    RAISE EXCEPTION 'Manager approval has expired or was already used' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_amount IS NOT NULL AND (v_approval.max_amount IS NULL OR v_approval.max_amount < ROUND(p_amount, 2)) THEN
+    RAISE EXCEPTION 'Manager approval does not cover %', ROUND(p_amount, 2) USING ERRCODE = '42501';
+  END IF;
+
+  RETURN v_approval.approved_by;
+END;
+$$;
+
+-- Only the functions that need an approval call this
+REVOKE EXECUTE ON FUNCTION public.use_manager_approval(UUID, UUID, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+-- Count the orders that used a voucher across all stores
+CREATE OR REPLACE FUNCTION public.get_voucher_usage(p_voucher_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COUNT(DISTINCT order_id)::INTEGER
+  FROM order_adjustments
+  WHERE voucher_id = p_voucher_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_voucher_usage(UUID) TO authenticated;
+
+-- Recreate create_order_with_items to validate vouchers and manager approvals
+CREATE OR REPLACE FUNCTION public.create_order_with_items(
+  p_store_id UUID,
+  p_customer_id UUID,
+  p_items JSONB,
+  p_payment JSONB DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_client_reference UUID DEFAULT NULL,
+  p_provisional_order_number VARCHAR(50) DEFAULT NULL,
+  p_adjustments JSONB DEFAULT NULL
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_order public.orders;
+  v_item RECORD;
+  v_subtotal NUMERIC(10, 2) := 0;
+  v_discount NUMERIC(10, 2) := 0;
+  v_total NUMERIC(10, 2) := 0;
+  v_paid NUMERIC(10, 2) := 0;
+  v_payment_status VARCHAR(20) := 'unpaid';
+  v_previous_stock NUMERIC;
+  v_oversell_policy TEXT;
+  v_approval_threshold NUMERIC;
+  v_voucher public.vouchers;
+  v_voucher_id UUID;
+  v_voucher_uses INTEGER;
+  v_supply RECORD;
+  v_item_index INTEGER := 0;
+  v_item_ids UUID[] := ARRAY[]::UUID[];
+  v_order_item_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  -- Replay of an order that was already created: return it as-is
+  IF p_client_reference IS NOT NULL THEN
+    SELECT * INTO v_order FROM public.orders WHERE client_reference = p_client_reference;
+    IF FOUND THEN
+      RETURN v_order;
+    END IF;
+  END IF;
+
+  SELECT
+    COALESCE(settings->>'oversell_policy', 'block'),
+    COALESCE((settings->>'discount_approval_threshold')::NUMERIC, 10)
+  INTO v_oversell_policy, v_approval_threshold
+  FROM public.stores
+  WHERE id = p_store_id;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item' USING ERRCODE = '22023';
+  END IF;
+
+  -- Compute totals server-side from the submitted items
+  SELECT COALESCE(SUM(ROUND((item->>'quantity')::NUMERIC * (item->>'unit_price')::NUMERIC, 2)), 0)
+  INTO v_subtotal
+  FROM jsonb_array_elements(p_items) AS item;
+
+  -- Discounts computed by the pricing rules engine
+  IF p_adjustments IS NOT NULL AND jsonb_typeof(p_adjustments) = 'array' THEN
+    IF EXISTS (
+      SELECT 1 FROM jsonb_array_elements(p_adjustments) AS adj
+      WHERE COALESCE((adj->>'amount')::NUMERIC, 0) <= 0
+    ) THEN
+      RAISE EXCEPTION 'Invalid discount amount' USING ERRCODE = '22023';
+    END IF;
+
+    SELECT COALESCE(SUM(ROUND((adj->>'amount')::NUMERIC, 2)), 0)
+    INTO v_discount
+    FROM jsonb_array_elements(p_adjustments) AS adj;
+  END IF;
+
+  IF v_discount > v_subtotal THEN
+    RAISE EXCEPTION 'Discount of % exceeds the order subtotal', v_discount USING ERRCODE = '22023';
+  END IF;
+
+  v_total := v_subtotal - v_discount;
+
+  -- Manual discounts, vouchers and discounts beyond their pricing rule or statutory rate need
+  -- an approval from verify_manager_pin above the store threshold (percent of subtotal). The
+  -- approver is taken from the approval.
+  p_adjustments := public.use_discount_approvals(p_store_id, p_adjustments, v_subtotal, v_approval_threshold, p_items);
+
+  -- Re-validate vouchers while holding a lock so usage limits can't be exceeded
+  FOR v_voucher_id IN
+    SELECT DISTINCT NULLIF(adj->>'voucher_id', '')::UUID
+    FROM jsonb_array_elements(COALESCE(p_adjustments, '[]'::jsonb)) AS adj
+    WHERE adj->>'source' = 'voucher'
+  LOOP
+    SELECT * INTO v_voucher FROM public.vouchers WHERE id = v_voucher_id FOR UPDATE;
+
+    IF NOT FOUND
+      OR NOT v_voucher.is_active
+      OR (v_voucher.store_id IS NOT NULL AND v_voucher.store_id <> p_store_id)
+      OR (v_voucher.starts_at IS NOT NULL AND v_voucher.starts_at > NOW())
+      OR (v_voucher.ends_at IS NOT NULL AND v_voucher.ends_at <= NOW())
+    THEN
+      RAISE EXCEPTION 'Voucher is no longer valid' USING ERRCODE = 'P0001';
+    END IF;
+
+    IF v_subtotal < v_voucher.min_spend THEN
+      RAISE EXCEPTION 'Voucher % requires a minimum spend of %', v_voucher.code, v_voucher.min_spend USING ERRCODE = 'P0001';
+    END IF;
+
+    IF v_voucher.usage_limit IS NOT NULL THEN
+      v_voucher_uses := public.get_voucher_usage(v_voucher.id);
+
+      IF v_voucher_uses >= v_voucher.usage_limit THEN
+        RAISE EXCEPTION 'Voucher % has reached its usage limit', v_voucher.code USING ERRCODE = 'P0001';
+      END IF;
+    END IF;
+  END LOOP;
+
+  IF p_payment IS NOT NULL THEN
+    v_paid := COALESCE((p_payment->>'amount')::NUMERIC, 0);
+  END IF;
+
+  IF v_paid < 0 OR v_paid > v_total THEN
+    RAISE EXCEPTION 'Invalid payment amount: %', v_paid USING ERRCODE = '22023';
+  END IF;
+
+  IF v_paid > 0 AND v_paid = v_total THEN
+    v_payment_status := 'paid';
+  ELSIF v_paid > 0 THEN
+    v_payment_status := 'partial';
+  END IF;
+
+  -- Create order
+  INSERT INTO public.orders (
+    store_id,
+    customer_id,
+    subtotal,
+    tax,
+    discount,
+    total_amount,
+    paid_amount,
+    balance,
+    payment_status,
+    order_status,
+    created_by,
+    notes,
+    client_reference,
+    provisional_order_number
+  ) VALUES (
+    p_store_id,
+    p_customer_id,
+    v_subtotal,
+    0,
+    v_discount,
+    v_total,
+    v_paid,
+    v_total - v_paid,
+    v_payment_status,
+    'pending',
+    v_user_id,
+    p_notes,
+    p_client_reference,
+    p_provisional_order_number
+  )
+  RETURNING * INTO v_order;
+
+  -- Create order items and deduct inventory for products
+  FOR v_item IN
+    SELECT *
+    FROM jsonb_to_recordset(p_items) AS x(
+      item_type TEXT,
+      service_id UUID,
+      inventory_item_id UUID,
+      name TEXT,
+      quantity NUMERIC,
+      unit_price NUMERIC,
+      pricing_mode TEXT,
+      weight NUMERIC
+    )
+  LOOP
+    IF v_item.quantity IS NULL OR v_item.quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for item %', v_item.name USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO public.order_items (
+      order_id,
+      service_id,
+      inventory_item_id,
+      item_type,
+      service_name,
+      quantity,
+      unit_price,
+      total_price,
+      pricing_mode,
+      weight,
+      discount
+    ) VALUES (
+      v_order.id,
+      CASE WHEN v_item.item_type = 'service' THEN v_item.service_id ELSE NULL END,
+      CASE WHEN v_item.item_type = 'product' THEN v_item.inventory_item_id ELSE NULL END,
+      v_item.item_type,
+      v_item.name,
+      v_item.quantity,
+      v_item.unit_price,
+      ROUND(v_item.quantity * v_item.unit_price, 2),
+      COALESCE(v_item.pricing_mode, 'per_piece'),
+      v_item.weight,
+      COALESCE((
+        SELECT SUM(ROUND((adj->>'amount')::NUMERIC, 2))
+        FROM jsonb_array_elements(COALESCE(p_adjustments, '[]'::jsonb)) AS adj
+        WHERE (adj->>'item_index')::INTEGER = v_item_index
+      ), 0)
+    )
+    RETURNING id INTO v_order_item_id;
+
+    v_item_ids := array_append(v_item_ids, v_order_item_id);
+    v_item_index := v_item_index + 1;
+
+    -- Consume supplies declared in the service recipe. Supply usage never blocks an order;
+    -- stock may go negative until the next purchase or count adjustment.
+    IF v_item.item_type = 'service' AND v_item.service_id IS NOT NULL THEN
+      FOR v_supply IN
+        SELECT ss.inventory_item_id, ss.quantity_per_unit * v_item.quantity AS quantity
+        FROM public.service_supplies ss
+        WHERE ss.service_id = v_item.service_id
+          AND ss.store_id = p_store_id
+      LOOP
+        SELECT current_stock
+        INTO v_previous_stock
+        FROM public.inventory_items
+        WHERE id = v_supply.inventory_item_id
+          AND store_id = p_store_id
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+          CONTINUE;
+        END IF;
+
+        UPDATE public.inventory_items
+        SET current_stock = v_previous_stock - v_supply.quantity,
+            updated_at = NOW()
+        WHERE id = v_supply.inventory_item_id;
+
+        INSERT INTO public.inventory_transactions (
+          store_id,
+          inventory_item_id,
+          transaction_type,
+          quantity,
+          previous_stock,
+          new_stock,
+          notes,
+          created_by,
+          order_id
+        ) VALUES (
+          p_store_id,
+          v_supply.inventory_item_id,
+          'usage',
+          -v_supply.quantity,
+          v_previous_stock,
+          v_previous_stock - v_supply.quantity,
+          'Used for ' || v_item.name || ' in order ' || v_order.order_number,
+          v_user_id,
+          v_order.id
+        );
+      END LOOP;
+    END IF;
+
+    IF v_item.item_type = 'product' AND v_item.inventory_item_id IS NOT NULL THEN
+      -- Lock the inventory row so concurrent checkouts cannot oversell
+      SELECT current_stock
+      INTO v_previous_stock
+      FROM public.inventory_items
+      WHERE id = v_item.inventory_item_id
+        AND store_id = p_store_id
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Inventory item % not found in store', v_item.name USING ERRCODE = 'P0002';
+      END IF;
+
+      IF v_previous_stock < v_item.quantity AND v_oversell_policy IS DISTINCT FROM 'warn' THEN
+        RAISE EXCEPTION 'Insufficient stock for %: % available', v_item.name, v_previous_stock USING ERRCODE = 'P0001';
+      END IF;
+
+      UPDATE public.inventory_items
+      SET current_stock = v_previous_stock - v_item.quantity,
+          updated_at = NOW()
+      WHERE id = v_item.inventory_item_id;
+
+      INSERT INTO public.inventory_transactions (
+        store_id,
+        inventory_item_id,
+        transaction_type,
+        quantity,
+        previous_stock,
+        new_stock,
+        notes,
+        created_by,
+        order_id
+      ) VALUES (
+        p_store_id,
+        v_item.inventory_item_id,
+        'usage',
+        -v_item.quantity,
+        v_previous_stock,
+        v_previous_stock - v_item.quantity,
+        'Sold in order ' || v_order.order_number,
+        v_user_id,
+        v_order.id
+      );
+    END IF;
+  END LOOP;
+
+  -- Itemize discounts. item_index refers to the position in p_items (0-based).
+  IF p_adjustments IS NOT NULL AND jsonb_typeof(p_adjustments) = 'array' THEN
+    INSERT INTO public.order_adjustments (
+      order_id,
+      order_item_id,
+      pricing_rule_id,
+      voucher_id,
+      source,
+      description,
+      amount,
+      created_by,
+      approved_by
+    )
+    SELECT
+      v_order.id,
+      CASE
+        WHEN adj->>'item_index' IS NULL THEN NULL
+        ELSE v_item_ids[(adj->>'item_index')::INTEGER + 1]
+      END,
+      NULLIF(adj->>'pricing_rule_id', '')::UUID,
+      NULLIF(adj->>'voucher_id', '')::UUID,
+      COALESCE(NULLIF(adj->>'source', ''), 'pricing_rule'),
+      COALESCE(NULLIF(adj->>'description', ''), 'Discount'),
+      ROUND((adj->>'amount')::NUMERIC, 2),
+      v_user_id,
+      NULLIF(adj->>'approved_by', '')::UUID
+    FROM jsonb_array_elements(p_adjustments) AS adj;
+  END IF;
+
+  -- Record initial payment
+  IF v_paid > 0 THEN
+    INSERT INTO public.payments (
+      order_id,
+      amount,
+      payment_method,
+      payment_method_id,
+      card_number,
+      reference_number,
+      received_by,
+      notes,
+      client_reference
+    ) VALUES (
+      v_order.id,
+      v_paid,
+      p_payment->>'payment_method',
+      NULLIF(p_payment->>'payment_method_id', '')::UUID,
+      NULLIF(p_payment->>'card_number', ''),
+      NULLIF(p_payment->>'reference_number', ''),
+      v_user_id,
+      p_payment->>'notes',
+      NULLIF(p_payment->>'client_reference', '')::UUID
+    );
+  END IF;
+
+  -- Return the final state of the order
+  SELECT * INTO v_order FROM public.orders WHERE id = v_order.id;
+  RETURN v_order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_order_with_items(UUID, UUID, JSONB, JSONB, TEXT, UUID, VARCHAR, JSONB) TO authenticated;
+
+COMMENT ON FUNCTION public.create_order_with_items(UUID, UUID, JSONB, JSONB, TEXT, UUID, VARCHAR, JSONB) IS 'Atomically creates an order with its items, discounts, initial payment, product and supply inventory deductions. Any failure rolls back the whole order. Replays with the same client reference return the existing order. Overselling is blocked unless the store oversell_policy is warn. Manual discounts, vouchers and discounts beyond their pricing rule or statutory rate need a manager approval above the store discount_approval_threshold.';
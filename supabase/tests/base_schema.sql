@@ -0,0 +1,181 @@
+-- Test fixture: the parts of a Supabase project the migrations build on
+-- The auth schema, roles and extensions Supabase provides, and the tables that were
+-- created from the dashboard before supabase/migrations existed. Only the columns the
+-- migrations and the app rely on are declared.
+
+-- Supabase platform
+CREATE ROLE anon NOLOGIN;
+CREATE ROLE authenticated NOLOGIN;
+CREATE ROLE service_role NOLOGIN;
+
+CREATE SCHEMA extensions;
+CREATE EXTENSION pgcrypto WITH SCHEMA extensions;
+
+CREATE SCHEMA auth;
+
+CREATE TABLE auth.users (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email VARCHAR(255)
+);
+
+-- The user id of the request; tests set request.jwt.claim.sub to act as a user
+CREATE FUNCTION auth.uid() RETURNS UUID
+LANGUAGE sql STABLE
+AS $$
+  SELECT NULLIF(current_setting('request.jwt.claim.sub', true), '')::UUID
+$$;
+
+-- Tables that predate the migrations
+CREATE TABLE public.stores (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL,
+  address TEXT,
+  features JSONB DEFAULT '{}'::jsonb,
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE public.users (
+  id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  email VARCHAR(255),
+  first_name VARCHAR(100),
+  last_name VARCHAR(100),
+  role VARCHAR(50) DEFAULT 'cashier',
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE public.user_store_assignments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  role VARCHAR(50),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE public.customers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  store_id UUID REFERENCES public.stores(id) ON DELETE CASCADE,
+  customer_number VARCHAR(50),
+  first_name VARCHAR(100),
+  last_name VARCHAR(100),
+  phone VARCHAR(50),
+  email VARCHAR(255),
+  address TEXT,
+  loyalty_points INTEGER DEFAULT 0,
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE public.services (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  store_id UUID REFERENCES public.stores(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  price NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  category VARCHAR(100),
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE public.inventory_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  store_id UUID REFERENCES public.stores(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  category VARCHAR(100),
+  current_stock NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  min_stock_level NUMERIC(10, 2) DEFAULT 0,
+  unit VARCHAR(50),
+  unit_cost NUMERIC(10, 2),
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE public.inventory_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  store_id UUID REFERENCES public.stores(id) ON DELETE CASCADE,
+  inventory_item_id UUID REFERENCES public.inventory_items(id) ON DELETE CASCADE,
+  transaction_type VARCHAR(50) NOT NULL,
+  quantity NUMERIC(10, 2) NOT NULL,
+  previous_stock NUMERIC(10, 2),
+  new_stock NUMERIC(10, 2),
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE public.orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  customer_id UUID REFERENCES public.customers(id) ON DELETE SET NULL,
+  order_number VARCHAR(50) UNIQUE,
+  subtotal NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  tax NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  discount NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  total_amount NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  paid_amount NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  balance NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  payment_status VARCHAR(20) DEFAULT 'unpaid',
+  order_status VARCHAR(20) DEFAULT 'pending',
+  order_date TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  estimated_completion TIMESTAMP WITH TIME ZONE,
+  actual_completion TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES auth.users(id),
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE SEQUENCE public.order_number_seq;
+
+CREATE FUNCTION public.set_order_number() RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.order_number IS NULL THEN
+    NEW.order_number := 'ORD-' || LPAD(nextval('public.order_number_seq')::TEXT, 4, '0');
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_order_number
+BEFORE INSERT ON public.orders
+FOR EACH ROW EXECUTE FUNCTION public.set_order_number();
+
+CREATE TABLE public.order_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  service_id UUID REFERENCES public.services(id) ON DELETE SET NULL,
+  inventory_item_id UUID REFERENCES public.inventory_items(id) ON DELETE SET NULL,
+  item_type VARCHAR(20) NOT NULL DEFAULT 'service',
+  service_name VARCHAR(255),
+  quantity NUMERIC(10, 2) NOT NULL,
+  unit_price NUMERIC(10, 2) NOT NULL,
+  total_price NUMERIC(10, 2) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE public.payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  amount NUMERIC(10, 2) NOT NULL,
+  payment_method VARCHAR(50) NOT NULL,
+  payment_date TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  received_by UUID REFERENCES auth.users(id),
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Supabase grants the API roles access to the public schema; tables and functions created
+-- by the migrations get the same grants through the default privileges
+GRANT USAGE ON SCHEMA public, auth, extensions TO anon, authenticated, service_role;
+GRANT ALL ON ALL TABLES IN SCHEMA public TO anon, authenticated, service_role;
+GRANT ALL ON ALL SEQUENCES IN SCHEMA public TO anon, authenticated, service_role;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON TABLES TO anon, authenticated, service_role;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON SEQUENCES TO anon, authenticated, service_role;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON FUNCTIONS TO anon, authenticated, service_role;
@@ -0,0 +1,137 @@
+import { PGlite } from '@electric-sql/pglite'
+import { actAs, countRows, createTestDatabase, createTestStore, TestStore } from './testDatabase'
+
+/**
+ * create_order_with_items runs as one statement, so a failure part-way through must leave
+ * no order, items, payments or stock movements behind
+ */
+describe('create_order_with_items', () => {
+  let db: PGlite
+  let store: TestStore
+  let serviceId: string
+  let detergentId: string
+  let softenerId: string
+
+  beforeAll(async () => {
+    db = await createTestDatabase()
+    store = await createTestStore(db)
+
+    const { rows: [service] } = await db.query<{ id: string }>(
+      `INSERT INTO public.services (store_id, name, price) VALUES ($1, 'Wash & Fold', 150) RETURNING id`,
+      [store.storeId]
+    )
+    serviceId = service.id
+
+    const { rows: [detergent] } = await db.query<{ id: string }>(
+      `INSERT INTO public.inventory_items (store_id, name, current_stock) VALUES ($1, 'Detergent', 10) RETURNING id`,
+      [store.storeId]
+    )
+    detergentId = detergent.id
+
+    const { rows: [softener] } = await db.query<{ id: string }>(
+      `INSERT INTO public.inventory_items (store_id, name, current_stock) VALUES ($1, 'Fabric Softener', 2) RETURNING id`,
+      [store.storeId]
+    )
+    softenerId = softener.id
+
+    // Every load of the service uses half a unit of detergent
+    await db.query(
+      `INSERT INTO public.service_supplies (store_id, service_id, inventory_item_id, quantity_per_unit) VALUES ($1, $2, $3, 0.5)`,
+      [store.storeId, serviceId, detergentId]
+    )
+  }, 60000)
+
+  afterAll(async () => {
+    await db.close()
+  })
+
+  const serviceItem = (quantity: number) => ({
+    item_type: 'service',
+    service_id: serviceId,
+    name: 'Wash & Fold',
+    quantity,
+    unit_price: 150,
+  })
+
+  const softenerItem = (quantity: number) => ({
+    item_type: 'product',
+    inventory_item_id: softenerId,
+    name: 'Fabric Softener',
+    quantity,
+    unit_price: 25,
+  })
+
+  const createOrder = async (items: object[], payment: object | null = null) => {
+    await actAs(db, store.cashierId)
+    return await db.query<{ id: string; order_number: string; total_amount: string; balance: string }>(
+      `SELECT * FROM public.create_order_with_items(
+        p_store_id => $1,
+        p_customer_id => NULL,
+        p_items => $2::jsonb,
+        p_payment => $3::jsonb
+      )`,
+      [store.storeId, JSON.stringify(items), payment ? JSON.stringify(payment) : null]
+    )
+  }
+
+  const getStock = async (inventoryItemId: string): Promise<number> => {
+    await db.exec('RESET ROLE')
+    const { rows: [item] } = await db.query<{ current_stock: string }>(
+      `SELECT current_stock FROM public.inventory_items WHERE id = $1`,
+      [inventoryItemId]
+    )
+    return Number(item.current_stock)
+  }
+
+  const expectNothingWritten = async () => {
+    expect(await countRows(db, 'orders')).toBe(0)
+    expect(await countRows(db, 'order_items')).toBe(0)
+    expect(await countRows(db, 'payments')).toBe(0)
+    expect(await countRows(db, 'inventory_transactions')).toBe(0)
+    expect(await getStock(detergentId)).toBe(10)
+    expect(await getStock(softenerId)).toBe(2)
+  }
+
+  it('rolls back supply usage when a product is out of stock', async () => {
+    // The service item consumes detergent before the softener is found short
+    await expect(createOrder([serviceItem(2), softenerItem(5)])).rejects.toMatchObject({
+      code: 'P0001',
+      message: expect.stringContaining('Insufficient stock for Fabric Softener'),
+    })
+    await expectNothingWritten()
+  })
+
+  it('rolls back stock deductions when a later item has an invalid quantity', async () => {
+    await expect(createOrder([softenerItem(1), serviceItem(0)])).rejects.toMatchObject({
+      code: '22023',
+      message: expect.stringContaining('Invalid quantity for item Wash & Fold'),
+    })
+    await expectNothingWritten()
+  })
+
+  it('rolls back items and stock when the payment cannot be recorded', async () => {
+    await expect(createOrder(
+      [serviceItem(1), softenerItem(1)],
+      { amount: 175, payment_method: 'cash', amount_tendered: 200, client_reference: 'not-a-uuid' }
+    )).rejects.toMatchObject({
+      message: expect.stringContaining('invalid input syntax for type uuid'),
+    })
+    await expectNothingWritten()
+  })
+
+  it('writes the order, items, payment and stock movements when nothing fails', async () => {
+    const { rows: [order] } = await createOrder(
+      [serviceItem(1), softenerItem(1)],
+      { amount: 175, payment_method: 'cash', amount_tendered: 200 }
+    )
+
+    expect(Number(order.total_amount)).toBe(175)
+    expect(Number(order.balance)).toBe(0)
+    expect(await countRows(db, 'orders')).toBe(1)
+    expect(await countRows(db, 'order_items')).toBe(2)
+    expect(await countRows(db, 'payments')).toBe(1)
+    expect(await countRows(db, 'inventory_transactions')).toBe(2)
+    expect(await getStock(detergentId)).toBe(9.5)
+    expect(await getStock(softenerId)).toBe(1)
+  })
+})
@@ -0,0 +1,81 @@
+import { PGlite } from '@electric-sql/pglite'
+import { actAs, createTestDatabase, createTestStore, TestStore } from './testDatabase'
+
+/**
+ * get_inventory_consumption adds up what a store used of each item over the window, less
+ * the stock cancelled orders returned, for the days of stock projection
+ */
+describe('get_inventory_consumption', () => {
+  let db: PGlite
+  let store: TestStore
+  let serviceId: string
+  let detergentId: string
+  let bleachId: string
+
+  beforeAll(async () => {
+    db = await createTestDatabase()
+    store = await createTestStore(db)
+
+    const { rows: [service] } = await db.query<{ id: string }>(
+      `INSERT INTO public.services (store_id, name, price) VALUES ($1, 'Wash & Fold', 150) RETURNING id`,
+      [store.storeId]
+    )
+    serviceId = service.id
+
+    const { rows: [detergent] } = await db.query<{ id: string }>(
+      `INSERT INTO public.inventory_items (store_id, name, current_stock) VALUES ($1, 'Detergent', 10) RETURNING id`,
+      [store.storeId]
+    )
+    detergentId = detergent.id
+
+    const { rows: [bleach] } = await db.query<{ id: string }>(
+      `INSERT INTO public.inventory_items (store_id, name, current_stock) VALUES ($1, 'Bleach', 5) RETURNING id`,
+      [store.storeId]
+    )
+    bleachId = bleach.id
+
+    // Every load of the service uses half a unit of detergent
+    await db.query(
+      `INSERT INTO public.service_supplies (store_id, service_id, inventory_item_id, quantity_per_unit) VALUES ($1, $2, $3, 0.5)`,
+      [store.storeId, serviceId, detergentId]
+    )
+  }, 60000)
+
+  afterAll(async () => {
+    await db.close()
+  })
+
+  const createOrder = async (items: object[]) => {
+    await actAs(db, store.cashierId)
+    const { rows: [order] } = await db.query<{ id: string }>(
+      `SELECT * FROM public.create_order_with_items(
+        p_store_id => $1,
+        p_customer_id => NULL,
+        p_items => $2::jsonb
+      )`,
+      [store.storeId, JSON.stringify(items)]
+    )
+    return order.id
+  }
+
+  const loads = (quantity: number) => ({ item_type: 'service', service_id: serviceId, name: 'Wash & Fold', quantity, unit_price: 150 })
+
+  it('nets out the stock returned by cancelled orders', async () => {
+    await createOrder([loads(2)])
+    const cancelledId = await createOrder([
+      loads(4),
+      { item_type: 'product', inventory_item_id: bleachId, name: 'Bleach', quantity: 1, unit_price: 40 },
+    ])
+    await db.query(`SELECT * FROM public.cancel_order($1, 'Customer changed their mind')`, [cancelledId])
+
+    const { rows } = await db.query<{ inventory_item_id: string; quantity: string }>(
+      `SELECT * FROM public.get_inventory_consumption($1, 30)`,
+      [store.storeId]
+    )
+
+    // One unit of detergent for the 2 loads kept; the bleach all went back
+    expect(rows.map(row => ({ ...row, quantity: Number(row.quantity) }))).toEqual([
+      { inventory_item_id: detergentId, quantity: 1 },
+    ])
+  })
+})
@@ -0,0 +1,110 @@
+import { PGlite } from '@electric-sql/pglite'
+import { actAs, createTestDatabase, createTestStore, TestStore } from './testDatabase'
+
+/**
+ * Loyalty points are posted by the payment triggers and order functions only. Clients read
+ * the balance and the ledger but cannot post points themselves. Points of a merged customer
+ * are posted to the customer it was merged into.
+ */
+describe('loyalty points', () => {
+  let db: PGlite
+  let store: TestStore
+  let serviceId: string
+  let customerId: string
+
+  beforeAll(async () => {
+    db = await createTestDatabase()
+    store = await createTestStore(db)
+
+    await db.query(
+      `UPDATE public.stores SET features = features || '{"loyalty_points": true}'::jsonb WHERE id = $1`,
+      [store.storeId]
+    )
+    const { rows: [service] } = await db.query<{ id: string }>(
+      `INSERT INTO public.services (store_id, name, price) VALUES ($1, 'Wash & Fold', 150) RETURNING id`,
+      [store.storeId]
+    )
+    serviceId = service.id
+    customerId = await createCustomer('Maria')
+  }, 60000)
+
+  afterAll(async () => {
+    await db.close()
+  })
+
+  async function createCustomer(firstName: string): Promise<string> {
+    await db.exec('RESET ROLE')
+    const { rows: [customer] } = await db.query<{ id: string }>(
+      `INSERT INTO public.customers (store_id, first_name, last_name) VALUES ($1, $2, 'Santos') RETURNING id`,
+      [store.storeId, firstName]
+    )
+    return customer.id
+  }
+
+  const createPaidOrder = async (customer: string, amount: number) => {
+    await actAs(db, store.cashierId)
+    const { rows: [order] } = await db.query<{ id: string }>(
+      `SELECT * FROM public.create_order_with_items(
+        p_store_id => $1,
+        p_customer_id => $2,
+        p_items => $3::jsonb,
+        p_payment => $4::jsonb
+      )`,
+      [
+        store.storeId,
+        customer,
+        JSON.stringify([{ item_type: 'service', service_id: serviceId, name: 'Wash & Fold', quantity: amount / 150, unit_price: 150 }]),
+        JSON.stringify({ amount, payment_method: 'cash', amount_tendered: amount }),
+      ]
+    )
+    return order.id
+  }
+
+  const getPoints = async (customer: string): Promise<number> => {
+    await db.exec('RESET ROLE')
+    const { rows: [row] } = await db.query<{ loyalty_points: number }>(
+      `SELECT loyalty_points FROM public.customers WHERE id = $1`,
+      [customer]
+    )
+    return row.loyalty_points
+  }
+
+  const postPoints = (points: number) => db.query(
+    `SELECT public.post_loyalty_points($1, $2, NULL, NULL, 'earn', $3, NULL, 'Free points')`,
+    [store.storeId, customerId, points]
+  )
+
+  it('earns points on payments', async () => {
+    await createPaidOrder(customerId, 300)
+    expect(await getPoints(customerId)).toBe(3)
+  })
+
+  it('does not let signed-in users post points', async () => {
+    await actAs(db, store.cashierId)
+    await expect(postPoints(100000)).rejects.toMatchObject({ code: '42501' })
+    expect(await getPoints(customerId)).toBe(3)
+  })
+
+  it('does not let anonymous users post points', async () => {
+    await db.exec('RESET ROLE')
+    await db.exec('SET ROLE anon')
+    await expect(postPoints(5)).rejects.toMatchObject({ code: '42501' })
+    expect(await getPoints(customerId)).toBe(3)
+  })
+
+  it('reverses the points of a merged customer\'s order on the customer that was kept', async () => {
+    const duplicateId = await createCustomer('Mary')
+    const orderId = await createPaidOrder(duplicateId, 450)
+    expect(await getPoints(duplicateId)).toBe(4)
+
+    await actAs(db, store.managerId)
+    await db.query(`SELECT public.merge_customers($1, $2)`, [duplicateId, customerId])
+    expect(await getPoints(duplicateId)).toBe(0)
+    expect(await getPoints(customerId)).toBe(7)
+
+    await actAs(db, store.cashierId)
+    await db.query(`SELECT public.reverse_order_loyalty_points($1, 'Customer changed their mind')`, [orderId])
+    expect(await getPoints(duplicateId)).toBe(0)
+    expect(await getPoints(customerId)).toBe(3)
+  })
+})
@@ -0,0 +1,284 @@
+import { PGlite } from '@electric-sql/pglite'
+import { actAs, createTestDatabase, createTestStore, TestStore } from './testDatabase'
+
+/**
+ * Discounts above the store threshold, refunds, un-cancels and abandoning orders need an approval
+ * issued by verify_manager_pin. The approval is tied to the store and the amount, and can be used
+ * only once.
+ */
+describe('manager approvals', () => {
+  let db: PGlite
+  let store: TestStore
+  let serviceId: string
+
+  beforeAll(async () => {
+    db = await createTestDatabase()
+    store = await createTestStore(db)
+
+    const { rows: [service] } = await db.query<{ id: string }>(
+      `INSERT INTO public.services (store_id, name, price) VALUES ($1, 'Wash & Fold', 150) RETURNING id`,
+      [store.storeId]
+    )
+    serviceId = service.id
+
+    await actAs(db, store.managerId)
+    await db.query(`SELECT public.set_manager_pin('2468')`)
+  }, 60000)
+
+  afterAll(async () => {
+    await db.close()
+  })
+
+  const verifyPin = async (pin: string, amount: number | null = null) => {
+    await actAs(db, store.cashierId)
+    const { rows } = await db.query<{ user_id: string; approval_id: string; max_amount: string | null }>(
+      `SELECT * FROM public.verify_manager_pin($1, $2, $3)`,
+      [store.storeId, pin, amount]
+    )
+    return rows[0]
+  }
+
+  // A ₱150 order with a ₱30 (20%) manual discount, over the default 10% threshold
+  const createDiscountedOrder = async (discount: object) => {
+    await actAs(db, store.cashierId)
+    return await db.query<{ id: string }>(
+      `SELECT * FROM public.create_order_with_items(
+        p_store_id => $1,
+        p_customer_id => NULL,
+        p_items => $2::jsonb,
+        p_adjustments => $3::jsonb
+      )`,
+      [
+        store.storeId,
+        JSON.stringify([{ item_type: 'service', service_id: serviceId, name: 'Wash & Fold', quantity: 1, unit_price: 150 }]),
+        JSON.stringify([{ source: 'manual', description: 'Regular customer', amount: 30, item_index: null, ...discount }]),
+      ]
+    )
+  }
+
+  it('issues an approval for the amount when the PIN matches', async () => {
+    const approval = await verifyPin('2468', 30)
+    expect(approval.user_id).toBe(store.managerId)
+    expect(approval.approval_id).toBeTruthy()
+    expect(Number(approval.max_amount)).toBe(30)
+  })
+
+  it('does not trust a manager id sent without an approval', async () => {
+    await expect(createDiscountedOrder({ approved_by: store.managerId })).rejects.toMatchObject({
+      code: '42501',
+      message: expect.stringContaining('Manager approval is required'),
+    })
+  })
+
+  it('rejects an approval for less than the discount total', async () => {
+    const approval = await verifyPin('2468', 20)
+    await expect(createDiscountedOrder({ approval_id: approval.approval_id })).rejects.toMatchObject({
+      code: '42501',
+      message: expect.stringContaining('Manager approval is required'),
+    })
+  })
+
+  it('records the approver from the approval and uses it up', async () => {
+    const approval = await verifyPin('2468', 30)
+    const { rows: [order] } = await createDiscountedOrder({ approval_id: approval.approval_id, approved_by: store.cashierId })
+
+    await db.exec('RESET ROLE')
+    const { rows: [adjustment] } = await db.query<{ approved_by: string }>(
+      `SELECT approved_by FROM public.order_adjustments WHERE order_id = $1`,
+      [order.id]
+    )
+    expect(adjustment.approved_by).toBe(store.managerId)
+
+    await expect(createDiscountedOrder({ approval_id: approval.approval_id })).rejects.toMatchObject({
+      code: '42501',
+      message: expect.stringContaining('expired or was already used'),
+    })
+  })
+
+  it('counts pricing rule discounts beyond what an active rule allows', async () => {
+    await db.exec('RESET ROLE')
+    const { rows: [rule] } = await db.query<{ id: string }>(
+      `INSERT INTO public.pricing_rules (store_id, name, rule_type, conditions, discount_type, discount_value)
+       VALUES ($1, 'Happy hour', 'happy_hour', '{}'::jsonb, 'percent', 25) RETURNING id`,
+      [store.storeId]
+    )
+    const ruleDiscount = { source: 'pricing_rule', description: 'Happy hour', item_index: 0 }
+
+    // 25% of the ₱150 line covers the ₱30
+    const { rows: [order] } = await createDiscountedOrder({ ...ruleDiscount, pricing_rule_id: rule.id })
+    expect(order.id).toBeTruthy()
+
+    await expect(createDiscountedOrder({ ...ruleDiscount, pricing_rule_id: rule.id, amount: 40 })).rejects.toMatchObject({
+      code: '42501',
+      message: expect.stringContaining('Manager approval is required'),
+    })
+    await expect(createDiscountedOrder({ ...ruleDiscount, pricing_rule_id: null })).rejects.toMatchObject({
+      code: '42501',
+      message: expect.stringContaining('Manager approval is required'),
+    })
+  })
+
+  it('does not count the statutory senior citizen discount', async () => {
+    await db.exec('RESET ROLE')
+    await db.query(
+      `UPDATE public.stores SET features = features || '{"tax_calculation": true}'::jsonb WHERE id = $1`,
+      [store.storeId]
+    )
+
+    await actAs(db, store.cashierId)
+    const { rows: [order] } = await db.query<{ total_amount: string }>(
+      `SELECT * FROM public.create_order_with_items(
+        p_store_id => $1,
+        p_customer_id => NULL,
+        p_items => $2::jsonb,
+        p_adjustments => $3::jsonb,
+        p_tax => $4::jsonb
+      )`,
+      [
+        store.storeId,
+        JSON.stringify([{ item_type: 'service', service_id: serviceId, name: 'Wash & Fold', quantity: 1, unit_price: 150 }]),
+        JSON.stringify([{ source: 'senior_pwd', description: 'Senior Citizen Discount 20%', amount: 30, item_index: null }]),
+        JSON.stringify({
+          tax_inclusive: true,
+          tax_rate: 0,
+          tax: 0,
+          vatable_sales: 0,
+          vat_amount: 0,
+          vat_exempt_sales: 120,
+          senior_pwd: { type: 'senior', id_number: 'SC-12345', name: 'Lola Santos' },
+        }),
+      ]
+    )
+    expect(Number(order.total_amount)).toBe(120)
+  })
+
+  it('refuses a voucher discount above what the voucher gives', async () => {
+    await db.exec('RESET ROLE')
+    const { rows: [voucher] } = await db.query<{ id: string }>(
+      `INSERT INTO public.vouchers (store_id, code, discount_type, discount_value, max_discount)
+       VALUES ($1, 'SAVE10', 'percent', 10, 12) RETURNING id`,
+      [store.storeId]
+    )
+
+    const approval = await verifyPin('2468', 30)
+    await expect(createDiscountedOrder({
+      source: 'voucher',
+      voucher_id: voucher.id,
+      description: 'Voucher SAVE10',
+      approval_id: approval.approval_id,
+    })).rejects.toMatchObject({
+      code: 'P0001',
+      message: expect.stringContaining('more than the voucher gives'),
+    })
+  })
+
+  // A ₱150 order paid in cash
+  const createPaidOrder = async () => {
+    await actAs(db, store.cashierId)
+    const { rows: [order] } = await db.query<{ id: string }>(
+      `SELECT * FROM public.create_order_with_items(
+        p_store_id => $1,
+        p_customer_id => NULL,
+        p_items => $2::jsonb,
+        p_payment => $3::jsonb
+      )`,
+      [
+        store.storeId,
+        JSON.stringify([{ item_type: 'service', service_id: serviceId, name: 'Wash & Fold', quantity: 1, unit_price: 150 }]),
+        JSON.stringify({ amount: 150, payment_method: 'cash', amount_tendered: 150 }),
+      ]
+    )
+    return order.id
+  }
+
+  const recordRefund = async (orderId: string, approval: object) => {
+    await db.exec('RESET ROLE')
+    const { rows: [payment] } = await db.query<{ id: string }>(`SELECT id FROM public.payments WHERE order_id = $1`, [orderId])
+    const { rows: [cash] } = await db.query<{ id: string }>(`SELECT id FROM public.payment_methods WHERE name = 'cash'`)
+
+    await actAs(db, store.cashierId)
+    const { rows: [refund] } = await db.query<{ approved_by: string }>(
+      `SELECT * FROM public.record_refund($1::jsonb)`,
+      [JSON.stringify({ order_id: orderId, payment_id: payment.id, amount: 50, refund_method_id: cash.id, reason: 'Overpayment', ...approval })]
+    )
+    return refund
+  }
+
+  it('does not record a refund approved by a manager id sent without an approval', async () => {
+    const orderId = await createPaidOrder()
+    await expect(recordRefund(orderId, { approved_by: store.managerId })).rejects.toMatchObject({
+      code: '42501',
+      message: expect.stringContaining('Manager approval is required'),
+    })
+  })
+
+  it('records a refund with an approval for its amount and uses the approval up', async () => {
+    const orderId = await createPaidOrder()
+    await expect(recordRefund(orderId, { approval_id: (await verifyPin('2468', 20)).approval_id })).rejects.toMatchObject({
+      code: '42501',
+      message: expect.stringContaining('does not cover'),
+    })
+
+    const approval = await verifyPin('2468', 50)
+    const refund = await recordRefund(orderId, { approval_id: approval.approval_id })
+    expect(refund.approved_by).toBe(store.managerId)
+
+    await expect(recordRefund(orderId, { approval_id: approval.approval_id })).rejects.toMatchObject({
+      code: '42501',
+      message: expect.stringContaining('expired or was already used'),
+    })
+  })
+
+  it('un-cancels an order only with an approval from the PIN', async () => {
+    const orderId = await createPaidOrder()
+    await db.query(`SELECT * FROM public.cancel_order($1, 'Customer changed their mind')`, [orderId])
+
+    await expect(db.query(`SELECT * FROM public.uncancel_order($1, $2)`, [orderId, store.managerId])).rejects.toMatchObject({
+      code: '42501',
+      message: expect.stringContaining('expired or was already used'),
+    })
+
+    const approval = await verifyPin('2468')
+    await db.query(`SELECT * FROM public.uncancel_order($1, $2)`, [orderId, approval.approval_id])
+
+    await db.exec('RESET ROLE')
+    const { rows: [cancelled] } = await db.query<{ uncancel_approved_by: string }>(
+      `SELECT uncancel_approved_by FROM public.cancelled_orders WHERE order_id = $1`,
+      [orderId]
+    )
+    expect(cancelled.uncancel_approved_by).toBe(store.managerId)
+  })
+
+  it('marks an order abandoned only with an approval from the PIN', async () => {
+    const orderId = await createPaidOrder()
+    await db.query(`SELECT public.set_order_status($1, 'in_progress')`, [orderId])
+    await db.query(`SELECT public.set_order_status($1, 'ready')`, [orderId])
+    await db.exec('RESET ROLE')
+    await db.query(`UPDATE public.orders SET ready_at = NOW() - INTERVAL '90 days' WHERE id = $1`, [orderId])
+
+    await actAs(db, store.cashierId)
+    await expect(db.query(`SELECT * FROM public.abandon_order($1, $2)`, [orderId, store.managerId])).rejects.toMatchObject({
+      code: '42501',
+      message: expect.stringContaining('expired or was already used'),
+    })
+
+    const approval = await verifyPin('2468')
+    const { rows: [order] } = await db.query<{ order_status: string; abandon_approved_by: string }>(
+      `SELECT * FROM public.abandon_order($1, $2)`,
+      [orderId, approval.approval_id]
+    )
+    expect(order.order_status).toBe('abandoned')
+    expect(order.abandon_approved_by).toBe(store.managerId)
+  })
+
+  it('locks the user out after five wrong PINs', async () => {
+    for (let attempt = 0; attempt < 5; attempt++) {
+      expect(await verifyPin('0000', 30)).toBeUndefined()
+    }
+
+    await expect(verifyPin('2468', 30)).rejects.toMatchObject({
+      code: '42501',
+      message: expect.stringContaining('Too many wrong PINs'),
+    })
+  })
+})
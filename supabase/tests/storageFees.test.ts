@@ -0,0 +1,90 @@
+import { PGlite } from '@electric-sql/pglite'
+import { actAs, createTestDatabase, createTestStore, TestStore } from './testDatabase'
+
+/**
+ * accrue_storage_fees charges ready orders left past the grace period. The fee is due on top
+ * of the order total, so the total and its VAT breakdown stay as they were sold.
+ */
+describe('accrue_storage_fees', () => {
+  let db: PGlite
+  let store: TestStore
+  let orderId: string
+
+  beforeAll(async () => {
+    db = await createTestDatabase()
+    store = await createTestStore(db)
+
+    await db.query(
+      `UPDATE public.stores SET settings = settings || '{"storage_grace_days": 30, "storage_fee_per_day": 10}'::jsonb WHERE id = $1`,
+      [store.storeId]
+    )
+    const { rows: [service] } = await db.query<{ id: string }>(
+      `INSERT INTO public.services (store_id, name, price) VALUES ($1, 'Wash & Fold', 150) RETURNING id`,
+      [store.storeId]
+    )
+
+    await actAs(db, store.cashierId)
+    const { rows: [order] } = await db.query<{ id: string }>(
+      `SELECT * FROM public.create_order_with_items(
+        p_store_id => $1,
+        p_customer_id => NULL,
+        p_items => $2::jsonb,
+        p_payment => $3::jsonb
+      )`,
+      [
+        store.storeId,
+        JSON.stringify([{ item_type: 'service', service_id: service.id, name: 'Wash & Fold', quantity: 1, unit_price: 150 }]),
+        JSON.stringify({ amount: 150, payment_method: 'cash', amount_tendered: 150 }),
+      ]
+    )
+    orderId = order.id
+
+    await db.query(`SELECT public.set_order_status($1, 'in_progress')`, [orderId])
+    await db.query(`SELECT public.set_order_status($1, 'ready')`, [orderId])
+
+    // Ready 35 days ago, 5 days past the grace period
+    await db.exec('RESET ROLE')
+    await db.query(`UPDATE public.orders SET ready_at = NOW() - INTERVAL '35 days' WHERE id = $1`, [orderId])
+  }, 60000)
+
+  afterAll(async () => {
+    await db.close()
+  })
+
+  const getOrder = async () => {
+    await db.exec('RESET ROLE')
+    const { rows: [order] } = await db.query<{ total_amount: string; storage_fee: string; balance: string; payment_status: string }>(
+      `SELECT total_amount, storage_fee, balance, payment_status FROM public.orders WHERE id = $1`,
+      [orderId]
+    )
+    return order
+  }
+
+  it('adds the fee to the balance and leaves the total alone', async () => {
+    await actAs(db, store.cashierId)
+    const { rows: [accrued] } = await db.query<{ count: number }>(
+      `SELECT public.accrue_storage_fees($1) AS count`,
+      [store.storeId]
+    )
+    expect(accrued.count).toBe(1)
+
+    const order = await getOrder()
+    expect(Number(order.total_amount)).toBe(150)
+    expect(Number(order.storage_fee)).toBe(50)
+    expect(Number(order.balance)).toBe(50)
+    expect(order.payment_status).toBe('partial')
+  })
+
+  it('clears the balance once the fee is paid', async () => {
+    await actAs(db, store.cashierId)
+    await db.query(
+      `SELECT public.record_order_payment($1, $2::jsonb)`,
+      [orderId, JSON.stringify({ amount: 50, payment_method: 'cash', amount_tendered: 50 })]
+    )
+
+    const order = await getOrder()
+    expect(Number(order.total_amount)).toBe(150)
+    expect(Number(order.balance)).toBe(0)
+    expect(order.payment_status).toBe('paid')
+  })
+})
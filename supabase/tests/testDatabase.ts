@@ -0,0 +1,117 @@
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import { PGlite } from '@electric-sql/pglite'
+import { pgcrypto } from '@electric-sql/pglite/contrib/pgcrypto'
+
+/**
+ * Test Database Helper
+ * An in-process Postgres with the Supabase basics from base_schema.sql and every migration
+ * applied in the order of the README setup guide
+ */
+
+const MIGRATIONS_DIR = join(__dirname, '..', 'migrations')
+
+// Migrations that predate the numbered list, then the numbered list
+export const MIGRATIONS = [
+  'create_payment_methods_table.sql',
+  'create_cancelled_orders_table.sql',
+  'add_missing_inventory_columns.sql',
+  'add_store_contact_columns.sql',
+  'add_payment_details_columns.sql',
+  'add_payment_cancellation_columns.sql',
+  'create_order_with_items_function.sql',
+  'add_offline_sync_columns.sql',
+  'add_inventory_order_tracking.sql',
+  'create_service_supplies_table.sql',
+  'add_service_pricing_modes.sql',
+  'create_pricing_rules_table.sql',
+  'create_vouchers_table.sql',
+  'add_tax_calculation.sql',
+  'create_loyalty_points_ledger.sql',
+  'add_customer_management.sql',
+  'add_split_tender_payments.sql',
+  'add_cash_tendering.sql',
+  'create_cash_drawer_shifts.sql',
+  'create_record_order_payment_function.sql',
+  'create_refunds_table.sql',
+  'add_order_soft_cancel.sql',
+  'create_order_status_history.sql',
+  'add_order_promised_dates.sql',
+  'create_unclaimed_order_tracking.sql',
+  'create_sms_templates_table.sql',
+  'create_sales_receipts.sql',
+  'add_order_bag_count.sql',
+  'create_print_history.sql',
+]
+
+export interface TestStore {
+  storeId: string
+  cashierId: string
+  managerId: string
+}
+
+/**
+ * Create a database with every migration applied
+ */
+export const createTestDatabase = async (): Promise<PGlite> => {
+  const db = new PGlite({ extensions: { pgcrypto } })
+  await db.exec(readFileSync(join(__dirname, 'base_schema.sql'), 'utf8'))
+  for (const migration of MIGRATIONS) {
+    try {
+      await db.exec(readFileSync(join(MIGRATIONS_DIR, migration), 'utf8'))
+    } catch (error) {
+      throw new Error(`${migration} failed: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+  return db
+}
+
+/**
+ * Create a store with a cashier and a manager assigned to it
+ */
+export const createTestStore = async (db: PGlite): Promise<TestStore> => {
+  await db.exec('RESET ROLE')
+  const { rows: [store] } = await db.query<{ id: string }>(
+    `INSERT INTO public.stores (name) VALUES ('Test Laundry') RETURNING id`
+  )
+
+  const createUser = async (role: string): Promise<string> => {
+    const { rows: [user] } = await db.query<{ id: string }>(
+      `INSERT INTO auth.users (email) VALUES ($1) RETURNING id`,
+      [`${role}@example.com`]
+    )
+    await db.query(
+      `INSERT INTO public.users (id, email, first_name, last_name, role) VALUES ($1, $2, $3, 'Test', $3)`,
+      [user.id, `${role}@example.com`, role]
+    )
+    await db.query(
+      `INSERT INTO public.user_store_assignments (user_id, store_id, role) VALUES ($1, $2, $3)`,
+      [user.id, store.id, role]
+    )
+    return user.id
+  }
+
+  return {
+    storeId: store.id,
+    cashierId: await createUser('cashier'),
+    managerId: await createUser('manager'),
+  }
+}
+
+/**
+ * Run the next statements as a signed-in user, the way PostgREST runs RPC calls
+ */
+export const actAs = async (db: PGlite, userId: string): Promise<void> => {
+  await db.exec('RESET ROLE')
+  await db.query(`SELECT set_config('request.jwt.claim.sub', $1, false)`, [userId])
+  await db.exec('SET ROLE authenticated')
+}
+
+/**
+ * Count rows of a table as the database owner, bypassing row level security
+ */
+export const countRows = async (db: PGlite, table: string): Promise<number> => {
+  await db.exec('RESET ROLE')
+  const { rows: [row] } = await db.query<{ count: number }>(`SELECT COUNT(*)::INTEGER AS count FROM public.${table}`)
+  return row.count
+}